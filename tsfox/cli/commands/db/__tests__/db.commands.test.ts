@@ -0,0 +1,121 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { CLIContext } from '../../../interfaces/cli.interface';
+import { DbCommands } from '../index';
+import { DbMakeMigrationCommand } from '../make-migration.command';
+import { DbMigrateCommand } from '../migrate.command';
+import { DbStatusCommand } from '../status.command';
+
+describe('Database commands', () => {
+  let projectRoot: string;
+  let context: CLIContext;
+  let logs: string[];
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-db-cli-'));
+    context = {
+      command: DbMigrateCommand,
+      projectRoot,
+      verbose: false,
+      quiet: false,
+      noColor: false
+    };
+    logs = [];
+
+    jest.spyOn(console, 'log').mockImplementation((...args: any[]) => {
+      logs.push(args.join(' '));
+    });
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined) => {
+      throw new Error(`Process.exit called with code ${code}`);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should register the db commands', () => {
+    expect(DbCommands.map(command => command.name)).toEqual(['db:migrate', 'db:rollback', 'db:status', 'db:make-migration']);
+  });
+
+  it('should create migration files in the migrations directory', async () => {
+    await DbMakeMigrationCommand.action(['create users'], {}, context);
+
+    const directory = path.join(projectRoot, 'database', 'migrations');
+    const [file] = fs.readdirSync(directory);
+
+    expect(file).toMatch(/^\d{14}_create_users\.ts$/);
+    const source = fs.readFileSync(path.join(directory, file), 'utf8');
+    expect(source).toContain('export async function up(db: MigrationConnection)');
+    expect(source).toContain('export async function down(db: MigrationConnection)');
+  });
+
+  it('should run the migrations it creates', async () => {
+    // The framework as installed in the project, for the types the migrations import
+    const framework = path.join(projectRoot, 'node_modules', '@foxframework', 'core');
+    fs.mkdirSync(framework, { recursive: true });
+    fs.writeFileSync(path.join(framework, 'index.d.ts'), `export * from ${JSON.stringify(path.resolve(__dirname, '../../../../index'))};`);
+    fs.writeFileSync(path.join(framework, 'package.json'), JSON.stringify({ name: '@foxframework/core', types: 'index.d.ts' }));
+
+    await DbMakeMigrationCommand.action(['create users'], {}, context);
+    const directory = path.join(projectRoot, 'database', 'migrations');
+    const [file] = fs.readdirSync(directory);
+    const source = fs.readFileSync(path.join(directory, file), 'utf8');
+    fs.writeFileSync(path.join(directory, file), source.replace('``', '`CREATE TABLE users (id INTEGER)`'));
+
+    await DbMigrateCommand.action([], { dryRun: true }, context);
+
+    expect(logs).toContain('CREATE TABLE users (id INTEGER);');
+  });
+
+  it('should load the migrations it creates from compiled JavaScript', async () => {
+    await DbMakeMigrationCommand.action(['create users'], {}, context);
+    const directory = path.join(projectRoot, 'database', 'migrations');
+    const migration = path.join(directory, fs.readdirSync(directory)[0]);
+
+    // The loader compiled as the tsfox binary runs it, with no TypeScript support registered
+    const loader = path.join(projectRoot, 'module.loader.js');
+    const loaderSource = fs.readFileSync(path.resolve(__dirname, '../../../../core/utils/module.loader.ts'), 'utf8');
+    fs.writeFileSync(loader, ts.transpileModule(loaderSource, { compilerOptions: { module: ts.ModuleKind.CommonJS, esModuleInterop: true } }).outputText);
+
+    const frameworkRoot = path.resolve(__dirname, '../../../../..');
+    const script = `
+      const migration = require(${JSON.stringify(loader)}).requireModule(${JSON.stringify(migration)}, ${JSON.stringify(frameworkRoot)});
+      console.log(typeof migration.up, typeof migration.down);
+    `;
+    const output = execFileSync(process.execPath, ['-e', script], { cwd: projectRoot, encoding: 'utf8' });
+
+    expect(output.trim()).toBe('function function');
+  });
+
+  it('should validate arguments and options', () => {
+    expect(DbMakeMigrationCommand.validate!([], {})).toEqual({ valid: false, message: 'Migration name is required' });
+    expect(DbMigrateCommand.validate!([], { step: '0' }).valid).toBe(false);
+    expect(DbMigrateCommand.validate!([], { step: '2' }).valid).toBe(true);
+  });
+
+  it('should print the SQL of pending migrations on dry runs', async () => {
+    const directory = path.join(projectRoot, 'migrations');
+    fs.mkdirSync(directory);
+    fs.writeFileSync(
+      path.join(directory, '20240101000000_create_users.js'),
+      'exports.up = db => db.execute("CREATE TABLE users (id INTEGER)"); exports.down = db => db.execute("DROP TABLE users");'
+    );
+
+    await DbMigrateCommand.action([], { dir: 'migrations', dryRun: true }, context);
+
+    expect(logs).toContain('🔍 Dry run: 1 migration(s) would be applied in batch 1');
+    expect(logs).toContain('CREATE TABLE users (id INTEGER);');
+  });
+
+  it('should report when no migrations exist', async () => {
+    await DbStatusCommand.action([], { dir: 'migrations' }, context);
+
+    expect(logs).toContain('📭 No migrations found');
+  });
+});
@@ -0,0 +1,95 @@
+// tsfox/cli/commands/db/db.utils.ts
+import path from 'path';
+import { CLIContext, OptionDefinition } from '../../interfaces/cli.interface';
+import { ConfigManager } from '../../core/config.manager';
+import { DatabaseFactory, FoxDatabase } from '../../../core/features/database/database.factory';
+import { DatabaseConfig, Migration } from '../../../core/features/database/interfaces';
+import { MigrationRunner, MigrationStatement } from '../../../core/features/database/migrations/migration.runner';
+import { loadMigrations } from '../../../core/features/database/migrations/migration.loader';
+
+export const DEFAULT_MIGRATIONS_DIRECTORY = 'database/migrations';
+
+export const MigrationDirectoryOption: OptionDefinition = {
+  name: 'dir',
+  alias: 'd',
+  description: `Migrations directory (default: ${DEFAULT_MIGRATIONS_DIRECTORY})`,
+  type: 'string'
+};
+
+export const MigrationTableOption: OptionDefinition = {
+  name: 'table',
+  description: 'Table recording applied migrations (default: fox_migrations)',
+  type: 'string'
+};
+
+export const DryRunOption: OptionDefinition = {
+  name: 'dry-run',
+  description: 'Print the SQL that would run without running it',
+  type: 'boolean',
+  default: false
+};
+
+/**
+ * Resolve the migrations directory from the options or the project configuration
+ */
+export async function resolveMigrationsDirectory(options: any, context: CLIContext): Promise<string> {
+  const config = context.config || await new ConfigManager().loadProjectConfig(context.projectRoot);
+  const directory = options.dir || config?.database?.migrations?.directory || DEFAULT_MIGRATIONS_DIRECTORY;
+  return path.resolve(context.projectRoot, directory);
+}
+
+/**
+ * Connect to the project database (fox.config.json, or DB_* environment variables)
+ */
+export async function openDatabase(context: CLIContext): Promise<FoxDatabase> {
+  const config = context.config || await new ConfigManager().loadProjectConfig(context.projectRoot);
+  const database = config?.database
+    ? new FoxDatabase({
+      database: config.name,
+      ...config.database.connection,
+      provider: config.database.provider
+    } as DatabaseConfig)
+    : DatabaseFactory.createFromEnv();
+
+  await database.connect();
+  return database;
+}
+
+/**
+ * Run a callback with a migration runner and the project migrations, then disconnect
+ */
+export async function withMigrations<R>(
+  options: any,
+  context: CLIContext,
+  callback: (runner: MigrationRunner, migrations: Migration[]) => Promise<R>
+): Promise<R> {
+  const config = context.config || await new ConfigManager().loadProjectConfig(context.projectRoot) || undefined;
+  const projectContext = { ...context, config };
+  const migrations = await loadMigrations(await resolveMigrationsDirectory(options, projectContext));
+  const database = await openDatabase(projectContext);
+
+  try {
+    const runner = new MigrationRunner(database, {
+      tableName: options.table || config?.database?.migrations?.tableName
+    });
+    return await callback(runner, migrations);
+  } finally {
+    await database.close();
+  }
+}
+
+/**
+ * Print the statements recorded during a dry run
+ */
+export function printStatements(statements: MigrationStatement[]): void {
+  let current: string | undefined;
+
+  for (const statement of statements) {
+    if (statement.migration !== current) {
+      current = statement.migration;
+      console.log(`\n-- ${current}`);
+    }
+    const params = statement.params.length > 0 ? ` -- ${JSON.stringify(statement.params)}` : '';
+    console.log(`${statement.sql};${params}`);
+  }
+}
@@ -0,0 +1,13 @@
+// tsfox/cli/commands/db/index.ts
+import { CommandInterface } from '../../interfaces/cli.interface';
+import { DbMigrateCommand } from './migrate.command';
+import { DbRollbackCommand } from './rollback.command';
+import { DbStatusCommand } from './status.command';
+import { DbMakeMigrationCommand } from './make-migration.command';
+
+export const DbCommands: CommandInterface[] = [
+  DbMigrateCommand,
+  DbRollbackCommand,
+  DbStatusCommand,
+  DbMakeMigrationCommand
+];
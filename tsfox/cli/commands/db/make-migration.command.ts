@@ -0,0 +1,49 @@
+// tsfox/cli/commands/db/make-migration.command.ts
+import fs from 'fs';
+import path from 'path';
+import { CommandInterface, CLIContext, ValidationResult } from '../../interfaces/cli.interface';
+import { createMigrationSource } from '../../../core/features/database/migrations/migration.loader';
+import { MigrationUtils } from '../../../core/features/database';
+import { MigrationDirectoryOption, resolveMigrationsDirectory } from './db.utils';
+
+export const DbMakeMigrationCommand: CommandInterface = {
+  name: 'db:make-migration',
+  description: 'Create a new database migration file',
+  arguments: [
+    {
+      name: 'name',
+      description: 'Migration name (e.g. create_users_table)',
+      required: true
+    }
+  ],
+  options: [
+    MigrationDirectoryOption
+  ],
+
+  validate: (args, options): ValidationResult => {
+    if (!args[0] || !/[a-z0-9]/i.test(args[0])) {
+      return { valid: false, message: 'Migration name is required' };
+    }
+    return { valid: true };
+  },
+
+  async action(args, options, context: CLIContext): Promise<void> {
+    try {
+      const name: string = args[0];
+      const directory = await resolveMigrationsDirectory(options, context);
+      const filePath = path.join(directory, MigrationUtils.generateFilename(name));
+
+      if (fs.existsSync(filePath)) {
+        throw new Error(`Migration already exists: ${filePath}`);
+      }
+
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(filePath, createMigrationSource(name), 'utf8');
+
+      console.log(`✅ Created migration ${path.relative(context.projectRoot, filePath)}`);
+    } catch (error) {
+      console.error('❌ Failed to create migration:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+};
@@ -0,0 +1,55 @@
+// tsfox/cli/commands/db/migrate.command.ts
+import { CommandInterface, CLIContext, ValidationResult } from '../../interfaces/cli.interface';
+import { DryRunOption, MigrationDirectoryOption, MigrationTableOption, printStatements, withMigrations } from './db.utils';
+
+export const DbMigrateCommand: CommandInterface = {
+  name: 'db:migrate',
+  description: 'Apply pending database migrations',
+  arguments: [],
+  options: [
+    MigrationDirectoryOption,
+    MigrationTableOption,
+    DryRunOption,
+    {
+      name: 'step',
+      alias: 's',
+      description: 'Number of pending migrations to apply (default: all)',
+      type: 'number'
+    }
+  ],
+
+  validate: (args, options): ValidationResult => {
+    if (options.step !== undefined && !(Number(options.step) > 0)) {
+      return { valid: false, message: 'Step must be a positive number' };
+    }
+    return { valid: true };
+  },
+
+  async action(args, options, context: CLIContext): Promise<void> {
+    console.log('🗃️  Fox Framework Migrations');
+
+    try {
+      const steps = options.step !== undefined ? Number(options.step) : undefined;
+      const result = await withMigrations(options, context, (runner, migrations) =>
+        runner.migrate(migrations, { dryRun: options.dryRun, steps })
+      );
+
+      if (result.migrations.length === 0) {
+        console.log('✅ Nothing to migrate');
+        return;
+      }
+
+      if (options.dryRun) {
+        console.log(`🔍 Dry run: ${result.migrations.length} migration(s) would be applied in batch ${result.batch}`);
+        printStatements(result.statements);
+        return;
+      }
+
+      result.migrations.forEach(id => console.log(`   ⬆️  ${id}`));
+      console.log(`✅ Applied ${result.migrations.length} migration(s) in batch ${result.batch}`);
+    } catch (error) {
+      console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+};
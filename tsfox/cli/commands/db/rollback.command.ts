@@ -0,0 +1,55 @@
+// tsfox/cli/commands/db/rollback.command.ts
+import { CommandInterface, CLIContext, ValidationResult } from '../../interfaces/cli.interface';
+import { DryRunOption, MigrationDirectoryOption, MigrationTableOption, printStatements, withMigrations } from './db.utils';
+
+export const DbRollbackCommand: CommandInterface = {
+  name: 'db:rollback',
+  description: 'Roll back the last batches of database migrations',
+  arguments: [],
+  options: [
+    MigrationDirectoryOption,
+    MigrationTableOption,
+    DryRunOption,
+    {
+      name: 'steps',
+      alias: 's',
+      description: 'Number of batches to roll back',
+      type: 'number',
+      default: 1
+    }
+  ],
+
+  validate: (args, options): ValidationResult => {
+    if (options.steps !== undefined && !(Number(options.steps) > 0)) {
+      return { valid: false, message: 'Steps must be a positive number' };
+    }
+    return { valid: true };
+  },
+
+  async action(args, options, context: CLIContext): Promise<void> {
+    console.log('🗃️  Fox Framework Migrations');
+
+    try {
+      const result = await withMigrations(options, context, (runner, migrations) =>
+        runner.rollback(migrations, { dryRun: options.dryRun, steps: Number(options.steps || 1) })
+      );
+
+      if (result.migrations.length === 0) {
+        console.log('✅ Nothing to roll back');
+        return;
+      }
+
+      if (options.dryRun) {
+        console.log(`🔍 Dry run: ${result.migrations.length} migration(s) would be rolled back`);
+        printStatements(result.statements);
+        return;
+      }
+
+      result.migrations.forEach(id => console.log(`   ⬇️  ${id}`));
+      console.log(`✅ Rolled back ${result.migrations.length} migration(s)`);
+    } catch (error) {
+      console.error('❌ Rollback failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+};
@@ -0,0 +1,49 @@
+// tsfox/cli/commands/db/status.command.ts
+import { CommandInterface, CLIContext, ValidationResult } from '../../interfaces/cli.interface';
+import { MigrationDirectoryOption, MigrationTableOption, withMigrations } from './db.utils';
+
+export const DbStatusCommand: CommandInterface = {
+  name: 'db:status',
+  description: 'Show which database migrations have been applied',
+  arguments: [],
+  options: [
+    MigrationDirectoryOption,
+    MigrationTableOption
+  ],
+
+  validate: (args, options): ValidationResult => {
+    return { valid: true };
+  },
+
+  async action(args, options, context: CLIContext): Promise<void> {
+    console.log('🗃️  Fox Framework Migration Status');
+    console.log('═'.repeat(50));
+
+    try {
+      const entries = await withMigrations(options, context, (runner, migrations) => runner.status(migrations));
+
+      if (entries.length === 0) {
+        console.log('📭 No migrations found');
+        return;
+      }
+
+      for (const entry of entries) {
+        const icon = entry.status === 'completed' ? '✅' : '⏳';
+        const batch = entry.batch !== undefined ? ` (batch ${entry.batch}, ${entry.appliedAt})` : '';
+        const flags = [
+          entry.drifted ? '⚠️  changed since applied' : '',
+          entry.missing ? '⚠️  file missing' : ''
+        ].filter(Boolean).join(' ');
+
+        console.log(`${icon} ${entry.id}${batch}${flags ? ` ${flags}` : ''}`);
+      }
+
+      const pending = entries.filter(entry => entry.status === 'pending').length;
+      console.log('─'.repeat(50));
+      console.log(`📊 ${entries.length - pending} applied, ${pending} pending`);
+    } catch (error) {
+      console.error('❌ Failed to read migration status:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+};
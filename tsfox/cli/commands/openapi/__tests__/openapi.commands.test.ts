@@ -0,0 +1,124 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { CLIContext } from '../../../interfaces/cli.interface';
+import { OpenAPICommands } from '../index';
+import { OpenAPIExportCommand } from '../export.command';
+
+describe('OpenAPI commands', () => {
+  let projectRoot: string;
+  let context: CLIContext;
+  let logs: string[];
+  let errors: string[];
+
+  const writeEntry = (file: string, source: string) => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), source);
+  };
+
+  const readDocument = (file: string) => JSON.parse(fs.readFileSync(path.join(projectRoot, file), 'utf8'));
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-openapi-cli-'));
+    context = {
+      command: OpenAPIExportCommand,
+      projectRoot,
+      verbose: false,
+      quiet: false,
+      noColor: false
+    };
+    logs = [];
+    errors = [];
+
+    jest.spyOn(console, 'log').mockImplementation((...args: any[]) => {
+      logs.push(args.join(' '));
+    });
+    jest.spyOn(console, 'error').mockImplementation((...args: any[]) => {
+      errors.push(args.join(' '));
+    });
+    jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined) => {
+      throw new Error(`Process.exit called with code ${code}`);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should register the openapi commands', () => {
+    expect(OpenAPICommands.map(command => command.name)).toEqual(['openapi:export']);
+  });
+
+  it('should write the document of the server configuration of the entry module', async () => {
+    writeEntry('src/app.js', `
+      const callback = (req, res) => res.json({});
+      exports.config = {
+        port: 3000,
+        openapi: { info: { title: 'Shop API', version: '0.1.0' } },
+        requests: [
+          { method: 'get', path: '/products', docs: { summary: 'List products' }, callback },
+          { prefix: '/orders', routes: [{ method: 'post', path: '/', callback }] }
+        ]
+      };
+    `);
+
+    await OpenAPIExportCommand.action([], { apiVersion: '0.2.0', server: 'https://shop.example.com' }, context);
+
+    const document = readDocument('openapi.json');
+    expect(document.info).toEqual({ title: 'Shop API', version: '0.2.0' });
+    expect(document.servers).toEqual([{ url: 'https://shop.example.com' }]);
+    expect(document.paths['/api/products'].get.summary).toBe('List products');
+    expect(document.paths['/api/orders'].post.operationId).toBe('postApiOrders');
+    expect(logs).toContain('✅ Wrote 2 operation(s) to openapi.json');
+  });
+
+  it('should write the document of exported routes to the output file', async () => {
+    writeEntry('routes.js', `module.exports = [{ method: 'delete', path: '/sessions', callback: () => undefined }];`);
+
+    await OpenAPIExportCommand.action([], { entry: 'routes.js', output: 'docs/api.json', title: 'Auth' }, context);
+
+    const document = readDocument('docs/api.json');
+    expect(document.info.title).toBe('Auth');
+    expect(Object.keys(document.paths)).toEqual(['/api/sessions']);
+  });
+
+  it('should load a TypeScript entry without extension', async () => {
+    writeEntry('src/app.ts', `
+      const callback = (req: unknown, res: { json(body: object): void }) => res.json({});
+      export const routes: object[] = [{ method: 'get', path: '/health', callback }];
+    `);
+
+    await OpenAPIExportCommand.action([], {}, context);
+
+    expect(Object.keys(readDocument('openapi.json').paths)).toEqual(['/api/health']);
+  });
+
+  it('should load a TypeScript entry from compiled JavaScript', () => {
+    writeEntry('src/app.ts', `export const routes: object[] = [{ method: 'get', path: '/health' }];`);
+
+    // The loader compiled as the tsfox binary runs it, with no TypeScript support registered
+    const loader = path.join(projectRoot, 'module.loader.js');
+    const loaderSource = fs.readFileSync(path.resolve(__dirname, '../../../../core/utils/module.loader.ts'), 'utf8');
+    const compilerOptions = { module: ts.ModuleKind.CommonJS, esModuleInterop: true };
+    fs.writeFileSync(loader, ts.transpileModule(loaderSource, { compilerOptions }).outputText);
+
+    const frameworkRoot = path.resolve(__dirname, '../../../../..');
+    const script = `
+      const entry = require(${JSON.stringify(loader)}).requireModule(${JSON.stringify(path.join(projectRoot, 'src/app'))}, ${JSON.stringify(frameworkRoot)});
+      console.log(entry.routes[0].path);
+    `;
+    const output = execFileSync(process.execPath, ['-e', script], { cwd: projectRoot, encoding: 'utf8' });
+
+    expect(output.trim()).toBe('/health');
+  });
+
+  it('should fail when the entry exports no server, configuration or routes', async () => {
+    writeEntry('src/app.js', 'module.exports = { port: 3000 };');
+
+    await expect(OpenAPIExportCommand.action([], {}, context)).rejects.toThrow('Process.exit called with code 1');
+    expect(errors[0]).toContain('does not export a server, a server configuration or routes');
+  });
+});
@@ -0,0 +1,64 @@
+// tsfox/cli/commands/openapi/export.command.ts
+import fs from 'fs';
+import path from 'path';
+import { CommandInterface, CLIContext } from '../../interfaces/cli.interface';
+import { OpenAPIOptions } from '../../../core/openapi/interfaces';
+import { DEFAULT_OPENAPI_ENTRY, DEFAULT_OPENAPI_OUTPUT, countOperations, loadOpenAPIDocument, resolveOpenAPIPaths } from './openapi.utils';
+
+export const OpenAPIExportCommand: CommandInterface = {
+  name: 'openapi:export',
+  description: 'Write the OpenAPI 3.1 document of the application routes',
+  arguments: [],
+  options: [
+    {
+      name: 'entry',
+      alias: 'e',
+      description: `Module exporting the server, its configuration or its routes; TypeScript needs ts-node (default: ${DEFAULT_OPENAPI_ENTRY})`,
+      type: 'string'
+    },
+    {
+      name: 'output',
+      alias: 'o',
+      description: `File the document is written to (default: ${DEFAULT_OPENAPI_OUTPUT})`,
+      type: 'string'
+    },
+    {
+      name: 'title',
+      description: 'API title',
+      type: 'string'
+    },
+    {
+      name: 'api-version',
+      description: 'API version',
+      type: 'string'
+    },
+    {
+      name: 'server',
+      alias: 's',
+      description: 'Server URL listed in the document',
+      type: 'string'
+    }
+  ],
+
+  async action(args, options, context: CLIContext): Promise<void> {
+    console.log('📘 Fox Framework OpenAPI');
+
+    try {
+      const { entry, output } = await resolveOpenAPIPaths(options, context);
+      const overrides: OpenAPIOptions = { info: {} };
+      if (options.title) overrides.info!.title = options.title;
+      if (options.apiVersion) overrides.info!.version = options.apiVersion;
+      if (options.server) overrides.servers = [{ url: options.server }];
+
+      const document = loadOpenAPIDocument(entry, overrides);
+
+      await fs.promises.mkdir(path.dirname(output), { recursive: true });
+      await fs.promises.writeFile(output, `${JSON.stringify(document, null, 2)}\n`);
+
+      console.log(`✅ Wrote ${countOperations(document)} operation(s) to ${path.relative(context.projectRoot, output)}`);
+    } catch (error) {
+      console.error('❌ OpenAPI export failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+};
@@ -0,0 +1,7 @@
+// tsfox/cli/commands/openapi/index.ts
+import { CommandInterface } from '../../interfaces/cli.interface';
+import { OpenAPIExportCommand } from './export.command';
+
+export const OpenAPICommands: CommandInterface[] = [
+  OpenAPIExportCommand
+];
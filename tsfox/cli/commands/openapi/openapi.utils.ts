@@ -0,0 +1,75 @@
+// tsfox/cli/commands/openapi/openapi.utils.ts
+import path from 'path';
+import { CLIContext } from '../../interfaces/cli.interface';
+import { ConfigManager } from '../../core/config.manager';
+import { OpenAPIDocument, OpenAPIOptions } from '../../../core/openapi/interfaces';
+import { generateOpenAPI } from '../../../core/openapi/openapi.generator';
+import { apiPath, resolveRoutes } from '../../../core/routing/route.builder';
+import { SecurityPipeline } from '../../../core/security/security.pipeline';
+import { requireModule } from '../../../core/utils/module.loader';
+
+export const DEFAULT_OPENAPI_ENTRY = 'src/app';
+export const DEFAULT_OPENAPI_OUTPUT = 'openapi.json';
+
+/**
+ * Resolve the entry module and output file from the options or the project configuration
+ */
+export async function resolveOpenAPIPaths(options: any, context: CLIContext): Promise<{ entry: string; output: string }> {
+  const config = context.config || await new ConfigManager().loadProjectConfig(context.projectRoot);
+  return {
+    entry: path.resolve(context.projectRoot, options.entry || config?.openapi?.entry || DEFAULT_OPENAPI_ENTRY),
+    output: path.resolve(context.projectRoot, options.output || config?.openapi?.output || DEFAULT_OPENAPI_OUTPUT)
+  };
+}
+
+/**
+ * Generate the document of the server an entry module exports.
+ *
+ * The module exports (as default, `app`, `server`, `config`, `routes` or `requests`)
+ * a server created by FoxFactory, a server configuration or an array of routes.
+ * It must not start listening when loaded. TypeScript entries are compiled through
+ * the ts-node of the project when the CLI runs compiled.
+ */
+export function loadOpenAPIDocument(entry: string, options: OpenAPIOptions = {}): OpenAPIDocument {
+  const exported = requireModule(entry, path.dirname(entry));
+  const candidates = [exported.default, exported.app, exported.server, exported.config, exported.routes, exported.requests, exported];
+
+  for (const candidate of candidates) {
+    const document = documentOf(candidate, options);
+    if (document) {
+      return document;
+    }
+  }
+  throw new Error(`'${entry}' does not export a server, a server configuration or routes`);
+}
+
+/**
+ * Number of operations of a document
+ */
+export function countOperations(document: OpenAPIDocument): number {
+  return Object.values(document.paths).reduce((count, item) => count + Object.keys(item).length, 0);
+}
+
+function documentOf(candidate: any, options: OpenAPIOptions): OpenAPIDocument | undefined {
+  if (!candidate || typeof candidate !== 'object') {
+    return undefined;
+  }
+  if (typeof candidate.openapi === 'function') {
+    return candidate.openapi(options);
+  }
+
+  const requests = Array.isArray(candidate) ? candidate : candidate.requests;
+  if (!Array.isArray(requests)) {
+    return undefined;
+  }
+
+  // Same paths and security rules as the routes FoxFactory registers
+  const routes = resolveRoutes(requests).map(route => ({ ...route, path: apiPath(route.path) }));
+  const pipeline = SecurityPipeline.fromConfig(Array.isArray(candidate) ? {} : candidate.security);
+  routes
+    .filter(route => route.definition.security)
+    .forEach(route => pipeline.addRule({ ...route.definition.security, path: route.path, methods: [route.method.toUpperCase()] }));
+
+  const configured: OpenAPIOptions = typeof candidate.openapi === 'object' ? candidate.openapi : {};
+  return generateOpenAPI(routes, { ...configured, ...options, info: { ...configured.info, ...options.info } }, pipeline);
+}
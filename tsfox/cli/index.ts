@@ -8,6 +8,8 @@ import { HealthCommands } from './commands/health';
 import { MetricsCommands } from './commands/metrics';
 import { CacheCommands } from './commands/cache';
 import { PerformanceCommands } from './commands/performance';
+import { DbCommands } from './commands/db';
+import { OpenAPICommands } from './commands/openapi';
 import { registerAIGenerateCommand } from './ai/generate';
 
 const program = new Command();
@@ -256,6 +258,55 @@ PerformanceCommands.forEach(performanceCommand => {
     });
 });
 
+// Add Database (db:migrate, db:rollback, db:status, db:make-migration) and OpenAPI (openapi:export) commands
+[...DbCommands, ...OpenAPICommands].forEach(topLevelCommand => {
+    const usage = (topLevelCommand.arguments || [])
+        .map(argument => argument.required ? `<${argument.name}>` : `[${argument.name}]`)
+        .join(' ');
+    const cmd = program
+        .command(usage ? `${topLevelCommand.name} ${usage}` : topLevelCommand.name)
+        .description(topLevelCommand.description);
+    
+    // Add options
+    if (topLevelCommand.options) {
+        topLevelCommand.options.forEach(option => {
+            let optionStr = option.alias ? `-${option.alias}, --${option.name}` : `--${option.name}`;
+            
+            // Add value placeholder for non-boolean options
+            if (option.type !== 'boolean') {
+                optionStr += ' <value>';
+            }
+            
+            cmd.option(optionStr, option.description, option.default);
+        });
+    }
+    
+    cmd.action(async (...params: any[]) => {
+        const args = params.slice(0, (topLevelCommand.arguments || []).length);
+        const options = params[args.length] || {};
+        
+        try {
+            const validation = topLevelCommand.validate ? topLevelCommand.validate(args, options) : { valid: true };
+            if (!validation.valid) {
+                console.error(`❌ ${validation.message}`);
+                process.exit(1);
+            }
+            
+            const context = {
+                command: topLevelCommand,
+                projectRoot: process.cwd(),
+                verbose: options.verbose || false,
+                quiet: options.quiet || false,
+                noColor: options.noColor || false
+            };
+            await topLevelCommand.action(args, options, context);
+        } catch (error) {
+            console.error(`Error executing ${topLevelCommand.name}:`, error);
+            process.exit(1);
+        }
+    });
+});
+
 // Add AI commands
 registerAIGenerateCommand(program);
 
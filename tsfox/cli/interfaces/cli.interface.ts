@@ -33,6 +33,7 @@ export interface ProjectConfig {
   };
   database?: DatabaseConfig;
   deployment?: DeploymentConfig;
+  openapi?: OpenAPIProjectConfig;
   customTemplates?: string[];
 }
 
@@ -86,6 +87,17 @@ export interface ValidationResult {
 export interface DatabaseConfig {
   provider: 'postgresql' | 'mysql' | 'sqlite' | 'mongodb';
   connection: Record<string, any>;
+  migrations?: {
+    directory?: string;
+    tableName?: string;
+  };
+}
+
+export interface OpenAPIProjectConfig {
+  /** Module exporting the server, its configuration or its routes */
+  entry?: string;
+  /** File the document is written to */
+  output?: string;
 }
 
 export interface DeploymentConfig {
@@ -0,0 +1,168 @@
+import request from 'supertest';
+import { FoxFactory } from '../fox.factory';
+import { FoxServer } from '../features/foxserver.feature';
+import { RequestMethod } from '../enums/methods.enums';
+import { routeGroup } from '../routing/route.builder';
+import { ServerConfig } from '../types';
+import { DatabaseFactory } from '../features/database/database.factory';
+import { CacheFactory } from '../cache/cache.factory';
+
+describe('FoxFactory multiple apps', () => {
+  const baseConfig = (overrides: Partial<ServerConfig> = {}): ServerConfig => ({
+    port: 0,
+    env: 'test',
+    jsonSpaces: 2,
+    staticFolder: 'public',
+    shutdown: { defaultHooks: false },
+    views: [],
+    ...overrides
+  });
+
+  let infoSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    infoSpy = jest.spyOn(console, 'info').mockImplementation();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    FoxFactory.resetInstance();
+  });
+
+  afterEach(async () => {
+    await FoxFactory.stopAll();
+    infoSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('should create isolated apps with their own routes', async () => {
+    const publicApi = FoxFactory.createApp(baseConfig({
+      port: 3001,
+      requests: [{ method: RequestMethod.GET, path: '/status', callback: (req: any, res: any) => res.json({ app: 'public' }) }]
+    }), 'public');
+    const adminApi = FoxFactory.createApp(baseConfig({
+      port: 3002,
+      requests: [{ method: RequestMethod.GET, path: '/users', callback: (req: any, res: any) => res.json({ app: 'admin' }) }]
+    }), 'admin');
+
+    expect(publicApi).not.toBe(adminApi);
+
+    const publicExpress = (publicApi as FoxServer).getApp();
+    const adminExpress = (adminApi as FoxServer).getApp();
+
+    await request(publicExpress).get('/api/status').expect(200, { app: 'public' });
+    await request(publicExpress).get('/api/users').expect(404);
+    await request(adminExpress).get('/api/users').expect(200, { app: 'admin' });
+    await request(adminExpress).get('/api/status').expect(404);
+
+    expect((publicApi as FoxServer).getConfig().port).toBe(3001);
+    expect((adminApi as FoxServer).getConfig().port).toBe(3002);
+  });
+
+  it('should apply each app middleware stack separately', async () => {
+    const tagged = FoxFactory.createApp(baseConfig({
+      middlewares: [(req, res, next) => { res.setHeader('X-App', 'tagged'); next(); }],
+      requests: [{ method: RequestMethod.GET, path: '/ping', callback: (req: any, res: any) => res.send('pong') }]
+    }));
+    const plain = FoxFactory.createApp(baseConfig({
+      requests: [{ method: RequestMethod.GET, path: '/ping', callback: (req: any, res: any) => res.send('pong') }]
+    }));
+
+    const taggedResponse = await request((tagged as FoxServer).getApp()).get('/api/ping');
+    const plainResponse = await request((plain as FoxServer).getApp()).get('/api/ping');
+
+    expect(taggedResponse.headers['x-app']).toBe('tagged');
+    expect(plainResponse.headers['x-app']).toBeUndefined();
+  });
+
+  it('should register an error handler after the routes', async () => {
+    const app = FoxFactory.createApp(baseConfig({
+      requests: [{ method: RequestMethod.GET, path: '/fail', callback: () => { throw new Error('boom'); } }],
+      errorHandler: (err, req, res, next) => res.status(418).json({ error: err.message })
+    }));
+
+    await request((app as FoxServer).getApp()).get('/api/fail').expect(418, { error: 'boom' });
+  });
+
+  it('should register route groups with their middleware', async () => {
+    const app = FoxFactory.createApp(baseConfig({
+      requests: [
+        routeGroup('/admin', [
+          { method: RequestMethod.GET, path: '/stats', callback: (req: any, res: any) => res.json({ stats: true }) }
+        ], { middleware: [(req, res, next) => { res.setHeader('X-Admin', '1'); next(); }] })
+      ]
+    }));
+
+    const response = await request((app as FoxServer).getApp()).get('/api/admin/stats').expect(200, { stats: true });
+    expect(response.headers['x-admin']).toBe('1');
+  });
+
+  it('should reject duplicate app names', () => {
+    FoxFactory.createApp(baseConfig(), 'admin');
+    expect(() => FoxFactory.createApp(baseConfig(), 'admin')).toThrow("App 'admin' already exists");
+  });
+
+  it('should generate names and expose them', () => {
+    FoxFactory.createApp(baseConfig());
+    FoxFactory.createApp(baseConfig(), 'admin');
+
+    expect(FoxFactory.getAppNames()).toEqual(['app_1', 'admin']);
+    expect(FoxFactory.hasApp('admin')).toBe(true);
+    expect(FoxFactory.getApp('admin')).toBeInstanceOf(FoxServer);
+    expect(() => FoxFactory.getApp('missing')).toThrow("App 'missing' not found");
+  });
+
+  it('should keep the default app shortcut separate from named apps', () => {
+    const defaultApp = FoxFactory.createInstance(baseConfig());
+    const named = FoxFactory.createApp(baseConfig(), 'admin');
+
+    expect(FoxFactory.getInstance()).toBe(defaultApp);
+    expect(FoxFactory.getApp('default')).toBe(defaultApp);
+    expect(named).not.toBe(defaultApp);
+  });
+
+  it('should not register routes again on repeated createInstance calls', async () => {
+    const handler = jest.fn((req: any, res: any) => res.send('first'));
+    const first = FoxFactory.createInstance(baseConfig({
+      requests: [{ method: RequestMethod.GET, path: '/once', callback: handler }]
+    }));
+    const second = FoxFactory.createInstance(baseConfig({
+      requests: [{ method: RequestMethod.GET, path: '/second', callback: (req: any, res: any) => res.send('second') }]
+    }));
+
+    expect(second).toBe(first);
+    expect(warnSpy).toHaveBeenCalled();
+    await request((first as FoxServer).getApp()).get('/api/second').expect(404);
+  });
+
+  it('should remove and stop a single app', async () => {
+    const app = FoxFactory.createApp(baseConfig(), 'admin');
+    const stopSpy = jest.spyOn(app, 'stop');
+
+    expect(await FoxFactory.removeApp('admin')).toBe(true);
+    expect(await FoxFactory.removeApp('admin')).toBe(false);
+    expect(stopSpy).toHaveBeenCalled();
+    expect(FoxFactory.hasApp('admin')).toBe(false);
+  });
+
+  it('should close the shared resources once the last app using them stops', async () => {
+    const withHooks = (overrides: Partial<ServerConfig> = {}) => baseConfig({ shutdown: {}, ...overrides });
+    FoxFactory.createApp(withHooks(), 'public');
+    FoxFactory.createApp(withHooks(), 'admin');
+
+    const database = DatabaseFactory.create({ provider: 'memory', database: 'shared' }, 'shared');
+    await database.connect();
+    const cache = CacheFactory.createNamed('shared', { provider: 'memory' });
+    await cache.set('greeting', 'hello');
+
+    await FoxFactory.removeApp('public');
+
+    expect(await database.ping()).toBe(true);
+    expect(DatabaseFactory.getInstanceNames()).toContain('shared');
+    expect(CacheFactory.get('shared')).toBe(cache);
+    expect(await cache.get('greeting')).toBe('hello');
+
+    await FoxFactory.removeApp('admin');
+
+    expect(DatabaseFactory.getInstanceNames()).not.toContain('shared');
+    expect(CacheFactory.has('shared')).toBe(false);
+  });
+});
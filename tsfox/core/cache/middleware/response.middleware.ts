@@ -46,8 +46,11 @@ export function responseCache(options: CacheOptions = {}) {
       // Intercept response to cache it
       const originalJson = res.json;
       const originalSend = res.send;
+      let cachedAsJson = false;
       
       res.json = function(data: any) {
+        // res.json delegates to res.send, which must not overwrite the cached object
+        cachedAsJson = true;
         // Only cache successful responses
         if (shouldCacheResponse(res, options)) {
           cache.set(key, data, options.ttl).catch(err => {
@@ -60,7 +63,7 @@ export function responseCache(options: CacheOptions = {}) {
       
       res.send = function(data: any) {
         // Only cache successful responses
-        if (shouldCacheResponse(res, options)) {
+        if (!cachedAsJson && shouldCacheResponse(res, options)) {
           cache.set(key, data, options.ttl).catch(err => {
             console.error('Cache set error:', err);
           });
@@ -1,4 +1,5 @@
 import { RequestMethod } from "./methods.enums";
+import type { RouteOptions } from "../routing/interfaces";
 
 export enum RequestType {
     JSON = 0,
@@ -11,7 +12,7 @@ export enum RequestType {
     UNKNOWN
 }
 
-export interface RequestMethodsContext { 
+export interface RequestMethodsContext extends RouteOptions { 
     method: RequestMethod, 
     path: string, 
     callback: any 
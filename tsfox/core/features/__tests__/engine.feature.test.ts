@@ -76,7 +76,7 @@ describe('Template Engines', () => {
       engineFox('partial.fox', options, (err: any, result: any) => {
         expect(err).toBeNull();
         expect(result).toContain('Test Title');
-        expect(result).toContain('{{missing}}'); // Should remain unreplaced
+        expect(result).toContain('<p></p>'); // Unknown variables render empty
         done();
       });
     });
@@ -22,6 +22,7 @@ describe('FoxServer', () => {
             patch: jest.fn(),
             all: jest.fn(),
             listen: jest.fn(),
+            once: jest.fn(),
             engine: jest.fn()
         };
 
@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FoxServer } from '../foxserver.feature';
+import { ServerConfig } from '../../types';
+
+function request(port: number, path: string): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        http.get({ port, path, agent: new http.Agent({ keepAlive: true }) }, res => {
+            let body = '';
+            res.on('data', chunk => (body += chunk));
+            res.on('end', () => resolve({ status: res.statusCode || 0, body }));
+        }).on('error', reject);
+    });
+}
+
+describe('FoxServer graceful shutdown', () => {
+    let server: FoxServer;
+    let port: number;
+    let logSpy: jest.SpyInstance;
+
+    const config = (overrides: Partial<ServerConfig> = {}): ServerConfig => ({
+        port: 0,
+        env: 'test',
+        jsonSpaces: 2,
+        staticFolder: 'public',
+        shutdown: { timeout: 1000, defaultHooks: false },
+        ...overrides
+    });
+
+    const startServer = async (serverConfig: ServerConfig) => {
+        server = new FoxServer(serverConfig);
+        server.create();
+        server.get('/fast', (req: any, res: any) => res.json({ ok: true }));
+        server.get('/slow', (req: any, res: any) => setTimeout(() => res.json({ slow: true }), 150));
+        server.get('/hang', () => undefined);
+
+        const httpServer = server.listen();
+        await new Promise(resolve => httpServer.once('listening', resolve));
+        port = (httpServer.address() as AddressInfo).port;
+    };
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        logSpy.mockRestore();
+    });
+
+    it('should keep the http server handle', async () => {
+        await startServer(config());
+        expect(server.getHttpServer()).toBeInstanceOf(http.Server);
+        expect((await request(port, '/fast')).status).toBe(200);
+    });
+
+    it('should resolve stop once the server is closed', async () => {
+        await startServer(config());
+        await request(port, '/fast');
+
+        const result = await server.stop();
+
+        expect(result.success).toBe(true);
+        expect(result.forcedConnections).toBe(0);
+        expect(server.getHttpServer()!.listening).toBe(false);
+        await expect(request(port, '/fast')).rejects.toThrow();
+    });
+
+    it('should let in-flight requests finish before closing', async () => {
+        await startServer(config());
+
+        const pending = request(port, '/slow');
+        await new Promise(resolve => setTimeout(resolve, 30));
+        const stopped = server.stop();
+
+        const response = await pending;
+        const result = await stopped;
+
+        expect(response.status).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({ slow: true });
+        expect(result.forcedConnections).toBe(0);
+    });
+
+    it('should force close connections after the drain deadline', async () => {
+        await startServer(config({ shutdown: { timeout: 100, defaultHooks: false } }));
+
+        const pending = request(port, '/hang').catch(error => error);
+        await new Promise(resolve => setTimeout(resolve, 30));
+
+        const result = await server.stop();
+
+        expect(result.success).toBe(false);
+        expect(result.forcedConnections).toBe(1);
+        expect(await pending).toHaveProperty('code', 'ECONNRESET');
+    });
+
+    it('should run shutdown hooks in order after draining', async () => {
+        await startServer(config());
+        const calls: string[] = [];
+
+        server.onShutdown('database', () => { calls.push('database'); }, { order: 2 });
+        server.onShutdown('events', async () => { calls.push('events'); }, { order: 1 });
+
+        const result = await server.stop();
+
+        expect(calls).toEqual(['events', 'database']);
+        expect(result.hooks.map(hook => hook.name)).toEqual(['events', 'database']);
+    });
+
+    it('should shut down the configured event system after the application hooks', async () => {
+        const calls: string[] = [];
+        const eventSystem = { shutdown: jest.fn(async () => { calls.push('events'); }) };
+        await startServer(config({ shutdown: { timeout: 1000, defaultHooks: false, eventSystem } }));
+        server.onShutdown('application', () => { calls.push('application'); });
+
+        const result = await server.stop();
+
+        expect(calls).toEqual(['application', 'events']);
+        expect(result.hooks.map(hook => hook.name)).toEqual(['application', 'events']);
+    });
+
+    it('should leave the process-wide resources to the factory', async () => {
+        await startServer(config({ shutdown: { timeout: 1000 } }));
+
+        const result = await server.stop();
+
+        expect(result.hooks).toEqual([]);
+        expect(result.success).toBe(true);
+    });
+
+    it('should stop on configured signals', async () => {
+        await startServer(config({ shutdown: { signals: ['SIGUSR2'], exitOnSignal: false, defaultHooks: false } }));
+        const hook = jest.fn();
+        server.onShutdown('hook', hook);
+
+        process.emit('SIGUSR2' as any);
+        const result = await server.stop();
+
+        expect(hook).toHaveBeenCalledTimes(1);
+        expect(result.success).toBe(true);
+        expect(process.listenerCount('SIGUSR2')).toBe(0);
+    });
+});
@@ -0,0 +1,352 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import http2 from 'http2';
+import { execFileSync } from 'child_process';
+import net, { AddressInfo } from 'net';
+import { FoxServer } from '../foxserver.feature';
+import { resolveListeners, createListener, describeListener, startListener } from '../listener.feature';
+import { ServerConfig } from '../../types';
+
+interface Certificates {
+    ca: Buffer;
+    serverKey: Buffer;
+    serverCert: Buffer;
+    clientKey: Buffer;
+    clientCert: Buffer;
+}
+
+/**
+ * Generate a throwaway CA plus server and client certificates signed by it
+ */
+function generateCertificates(dir: string): Certificates {
+    const openssl = (...args: string[]) => execFileSync('openssl', args, { cwd: dir, stdio: 'pipe' });
+    const file = (name: string) => path.join(dir, name);
+
+    fs.writeFileSync(file('server.ext'), 'subjectAltName=DNS:localhost,IP:127.0.0.1\n');
+
+    openssl('req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1',
+        '-keyout', 'ca.key', '-out', 'ca.crt', '-subj', '/CN=Fox Test CA');
+
+    for (const name of ['server', 'client']) {
+        openssl('req', '-newkey', 'rsa:2048', '-nodes', '-keyout', `${name}.key`, '-out', `${name}.csr`,
+            '-subj', `/CN=${name === 'server' ? 'localhost' : 'fox-client'}`);
+        openssl('x509', '-req', '-in', `${name}.csr`, '-CA', 'ca.crt', '-CAkey', 'ca.key', '-CAcreateserial',
+            '-days', '1', '-out', `${name}.crt`, ...(name === 'server' ? ['-extfile', 'server.ext'] : []));
+    }
+
+    return {
+        ca: fs.readFileSync(file('ca.crt')),
+        serverKey: fs.readFileSync(file('server.key')),
+        serverCert: fs.readFileSync(file('server.crt')),
+        clientKey: fs.readFileSync(file('client.key')),
+        clientCert: fs.readFileSync(file('client.crt'))
+    };
+}
+
+function fetchHttps(options: https.RequestOptions): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+        https.get({ hostname: 'localhost', ...options }, res => {
+            let body = '';
+            res.on('data', chunk => (body += chunk));
+            res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(body) }));
+        }).on('error', reject);
+    });
+}
+
+function fetchHttp2(
+    client: http2.ClientHttp2Session,
+    headers: http2.OutgoingHttpHeaders,
+    payload?: string
+): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+        const stream = client.request(headers);
+        let status = 0;
+        let body = '';
+        stream.on('response', responseHeaders => (status = Number(responseHeaders[':status'])));
+        stream.on('data', chunk => (body += chunk));
+        stream.on('end', () => resolve({ status, body: JSON.parse(body) }));
+        stream.on('error', reject);
+        stream.end(payload);
+    });
+}
+
+describe('FoxServer listeners', () => {
+    let tmpDir: string;
+    let certs: Certificates;
+    let server: FoxServer;
+    let logSpy: jest.SpyInstance;
+
+    const baseConfig = (overrides: Partial<ServerConfig>): ServerConfig => ({
+        port: 0,
+        env: 'test',
+        jsonSpaces: 2,
+        staticFolder: 'public',
+        shutdown: { timeout: 500, defaultHooks: false },
+        ...overrides
+    });
+
+    const startServer = async (config: ServerConfig) => {
+        server = new FoxServer(config);
+        server.create();
+        server.get('/info', (req: any, res: any) => res.json({
+            httpVersion: req.httpVersion,
+            protocol: req.protocol,
+            client: req.clientCertificate
+                ? { authorized: req.clientCertificate.authorized, cn: req.clientCertificate.certificate?.subject?.CN }
+                : null
+        }));
+        server.post('/echo', (req: any, res: any) => res.json(req.body));
+        server.listen();
+        await server.whenListening();
+    };
+
+    const portOf = (index = 0) => (server.getServers()[index].address() as AddressInfo).port;
+
+    beforeAll(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-listener-'));
+        certs = generateCertificates(tmpDir);
+    });
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(async () => {
+        if (server) {
+            await server.stop();
+        }
+        logSpy.mockRestore();
+    });
+
+    describe('resolveListeners', () => {
+        it('should return null for a plain port configuration', () => {
+            expect(resolveListeners(baseConfig({ port: 3000 }))).toBeNull();
+        });
+
+        it('should build a single listener from top-level options', () => {
+            expect(resolveListeners(baseConfig({ port: 3000, host: '127.0.0.1' }), 4000)).toEqual([
+                { port: 4000, host: '127.0.0.1', socketPath: undefined, tls: undefined, http2: undefined }
+            ]);
+        });
+
+        it('should prefer explicit listeners', () => {
+            const listeners = [{ port: 1 }, { socketPath: '/tmp/fox.sock' }];
+            expect(resolveListeners(baseConfig({ host: '0.0.0.0', listeners }))).toBe(listeners);
+        });
+    });
+
+    it('should require tls for HTTP/2 listeners', () => {
+        const app = require('express')();
+        expect(() => createListener(app, { http2: true })).toThrow('HTTP/2 listeners require a tls configuration');
+    });
+
+    it('should describe listeners', () => {
+        expect(describeListener({ socketPath: '/tmp/fox.sock' })).toBe('unix:/tmp/fox.sock');
+        expect(describeListener({ port: 443, tls: {} as any, http2: true })).toBe('https://localhost:443 (h2)');
+        expect(describeListener({ port: 80, host: '127.0.0.1' })).toBe('http://127.0.0.1:80');
+    });
+
+    it('should wait for the default listener and ignore repeated listen calls', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+        server = new FoxServer(baseConfig({}));
+        server.create();
+
+        const listener = server.listen();
+        await server.whenListening();
+
+        expect(listener.listening).toBe(true);
+        expect(server.listen()).toBe(listener);
+        expect(server.getServers()).toHaveLength(1);
+        expect(warnSpy).toHaveBeenCalledWith('Server is already listening');
+        warnSpy.mockRestore();
+    });
+
+    it('should bind to a specific host', async () => {
+        await startServer(baseConfig({ host: '127.0.0.1' }));
+        expect((server.getHttpServer()!.address() as AddressInfo).address).toBe('127.0.0.1');
+    });
+
+    it('should serve HTTPS', async () => {
+        await startServer(baseConfig({ tls: { key: certs.serverKey, cert: certs.serverCert } }));
+
+        const response = await fetchHttps({ port: portOf(), path: '/info', ca: certs.ca });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ httpVersion: '1.1', protocol: 'https', client: null });
+    });
+
+    it('should verify client certificates and expose them on req', async () => {
+        await startServer(baseConfig({
+            tls: { key: certs.serverKey, cert: certs.serverCert, ca: certs.ca, requestClientCert: true }
+        }));
+
+        const response = await fetchHttps({
+            port: portOf(),
+            path: '/info',
+            ca: certs.ca,
+            key: certs.clientKey,
+            cert: certs.clientCert
+        });
+
+        expect(response.body.client).toEqual({ authorized: true, cn: 'fox-client' });
+        await expect(fetchHttps({ port: portOf(), path: '/info', ca: certs.ca })).rejects.toBeDefined();
+    });
+
+    it('should let the app decide when unauthorized clients are allowed', async () => {
+        await startServer(baseConfig({
+            tls: { key: certs.serverKey, cert: certs.serverCert, ca: certs.ca, requestClientCert: true, rejectUnauthorized: false }
+        }));
+
+        const response = await fetchHttps({ port: portOf(), path: '/info', ca: certs.ca });
+
+        expect(response.body.client).toEqual({ authorized: false });
+    });
+
+    it('should serve HTTP/2 with HTTP/1.1 fallback', async () => {
+        await startServer(baseConfig({ http2: true, tls: { key: certs.serverKey, cert: certs.serverCert } }));
+
+        const client = http2.connect(`https://localhost:${portOf()}`, { ca: certs.ca });
+        try {
+            const info = await fetchHttp2(client, { ':path': '/info' });
+            expect(info).toEqual({ status: 200, body: { httpVersion: '2.0', protocol: 'https', client: null } });
+
+            const echo = await fetchHttp2(
+                client,
+                { ':path': '/echo', ':method': 'POST', 'content-type': 'application/json' },
+                JSON.stringify({ hello: 'fox' })
+            );
+            expect(echo.body).toEqual({ hello: 'fox' });
+        } finally {
+            client.close();
+        }
+
+        const fallback = await fetchHttps({ port: portOf(), path: '/info', ca: certs.ca });
+        expect(fallback.body.httpVersion).toBe('1.1');
+    });
+
+    it('should serve HTTP/2 requests to mounted apps without changing the app prototypes', async () => {
+        const express = require('express');
+        await startServer(baseConfig({ http2: true, tls: { key: certs.serverKey, cert: certs.serverCert } }));
+        const app: any = server.getApp();
+        const { request, response } = app;
+        const admin = express();
+        admin.get('/info', (req: any, res: any) => res.json({ httpVersion: req.httpVersion, path: req.path }));
+        app.use('/admin', admin);
+
+        const client = http2.connect(`https://localhost:${portOf()}`, { ca: certs.ca });
+        try {
+            const info = await fetchHttp2(client, { ':path': '/admin/info' });
+            expect(info).toEqual({ status: 200, body: { httpVersion: '2.0', path: '/info' } });
+        } finally {
+            client.close();
+        }
+
+        expect(app.request).toBe(request);
+        expect(app.response).toBe(response);
+    });
+
+    it('should listen on a Unix socket', async () => {
+        const socketPath = path.join(tmpDir, 'fox.sock');
+        await startServer(baseConfig({ socketPath }));
+
+        const body = await new Promise<any>((resolve, reject) => {
+            http.get({ socketPath, path: '/info' }, res => {
+                let data = '';
+                res.on('data', chunk => (data += chunk));
+                res.on('end', () => resolve(JSON.parse(data)));
+            }).on('error', reject);
+        });
+
+        expect(body.httpVersion).toBe('1.1');
+        await server.stop();
+        expect(fs.existsSync(socketPath)).toBe(false);
+    });
+
+    it('should replace the socket file of a process that is gone', async () => {
+        const socketPath = path.join(tmpDir, 'stale.sock');
+        execFileSync(process.execPath, ['-e', `require('net').createServer().listen(${JSON.stringify(socketPath)}, () => process.exit(0))`]);
+        expect(fs.statSync(socketPath).isSocket()).toBe(true);
+
+        await startServer(baseConfig({ socketPath }));
+
+        const status = await new Promise<number>((resolve, reject) => {
+            http.get({ socketPath, path: '/info' }, res => {
+                res.resume();
+                resolve(res.statusCode || 0);
+            }).on('error', reject);
+        });
+        expect(status).toBe(200);
+    });
+
+    it('should fail with EADDRINUSE on a socket another process listens on', async () => {
+        const socketPath = path.join(tmpDir, 'busy.sock');
+        // The probe of the listener hangs up without reading the reply
+        const other = net.createServer(socket => socket.on('error', () => undefined).end('other'));
+        await new Promise<void>(resolve => other.listen(socketPath, resolve));
+
+        try {
+            const listener = createListener(require('express')(), { socketPath });
+            await expect(startListener(listener, { socketPath })).rejects.toMatchObject({ code: 'EADDRINUSE' });
+            expect(listener.listening).toBe(false);
+
+            const reply = await new Promise<string>((resolve, reject) => {
+                const socket = net.connect(socketPath);
+                let data = '';
+                socket.on('data', chunk => (data += chunk));
+                socket.on('end', () => resolve(data));
+                socket.on('error', reject);
+            });
+            expect(reply).toBe('other');
+        } finally {
+            await new Promise(resolve => other.close(resolve));
+        }
+    });
+
+    it('should listen on several endpoints and close them all on stop', async () => {
+        await startServer(baseConfig({
+            listeners: [
+                { port: 0, host: '127.0.0.1' },
+                { port: 0, tls: { key: certs.serverKey, cert: certs.serverCert } }
+            ]
+        }));
+
+        expect(server.getServers()).toHaveLength(2);
+
+        const plain = await new Promise<number>((resolve, reject) => {
+            http.get({ host: '127.0.0.1', port: portOf(0), path: '/info' }, res => {
+                res.resume();
+                resolve(res.statusCode || 0);
+            }).on('error', reject);
+        });
+        const secure = await fetchHttps({ port: portOf(1), path: '/info', ca: certs.ca });
+
+        expect(plain).toBe(200);
+        expect(secure.status).toBe(200);
+
+        const result = await server.stop();
+
+        expect(result.success).toBe(true);
+        expect(server.getServers().every(listener => !listener.listening)).toBe(true);
+    });
+
+    it('should close idle HTTP/2 sessions on stop', async () => {
+        await startServer(baseConfig({ http2: true, tls: { key: certs.serverKey, cert: certs.serverCert } }));
+
+        const client = http2.connect(`https://localhost:${portOf()}`, { ca: certs.ca });
+        client.on('error', () => undefined);
+        await fetchHttp2(client, { ':path': '/info' });
+
+        const closed = new Promise(resolve => client.once('close', resolve));
+        const result = await server.stop();
+        await closed;
+
+        expect(result.forcedConnections).toBe(0);
+    });
+});
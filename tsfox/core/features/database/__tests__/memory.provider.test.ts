@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Memory provider tests
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import { createTestDatabase } from '../index';
+import { QueryBuilderFactory } from '../core/query.builder';
+import { FoxDatabase } from '../database.factory';
+import { ModelSchema } from '../interfaces';
+import { MigrationRunner } from '../migrations';
+import { MemoryProvider } from '../providers';
+
+describe('MemoryProvider', () => {
+  let provider: MemoryProvider;
+
+  beforeEach(async () => {
+    provider = new MemoryProvider();
+    await provider.connect({ provider: 'memory', database: 'test' });
+    await provider.execute('CREATE TABLE authors (id INTEGER PRIMARY KEY AUTOINCREMENT, name VARCHAR(100) NOT NULL UNIQUE, country TEXT)');
+    await provider.execute(`CREATE TABLE posts (
+      id INTEGER PRIMARY KEY,
+      author_id INTEGER NOT NULL REFERENCES authors (id),
+      title TEXT NOT NULL,
+      views INTEGER DEFAULT 0,
+      published BOOLEAN DEFAULT FALSE
+    )`);
+    await provider.execute('INSERT INTO authors (name, country) VALUES (?, ?), (?, ?), (?, ?)', ['Ada', 'UK', 'Grace', 'US', 'Barbara', 'US']);
+    await provider.execute(
+      'INSERT INTO posts (author_id, title, views, published) VALUES (1, ?, 10, TRUE), (1, ?, 30, TRUE), (2, ?, 5, FALSE)',
+      ['Engines', 'Notes', 'Compilers']
+    );
+  });
+
+  afterEach(async () => {
+    await provider.close();
+  });
+
+  it('should run statements with parameters', async () => {
+    const result = await provider.execute('INSERT INTO authors (name) VALUES (?)', ['Edsger']);
+
+    expect(result).toMatchObject({ rowCount: 1, insertId: 4 });
+    await expect(provider.query('SELECT id, name, country FROM authors WHERE name LIKE ?', ['ed%'])).resolves.toEqual([
+      { id: 4, name: 'Edsger', country: null }
+    ]);
+    await expect(provider.query("SELECT title FROM posts WHERE views BETWEEN 5 AND 10 AND title <> 'Notes' ORDER BY views DESC"))
+      .resolves.toEqual([{ title: 'Engines' }, { title: 'Compilers' }]);
+  });
+
+  it('should run queries of the SQL query builder', async () => {
+    const rows = await QueryBuilderFactory.create(provider)
+      .select(['a.name', 'p.title'])
+      .from('posts p')
+      .innerJoin('authors a', 'a.id = p.author_id')
+      .where({ published: true })
+      .orderBy('p.views', 'DESC')
+      .limit(1)
+      .execute();
+
+    expect(rows).toEqual([{ name: 'Ada', title: 'Notes' }]);
+    await expect(QueryBuilderFactory.create(provider).from('posts').where({ column: 'views', operator: '>', value: 8 }).count()).resolves.toBe(2);
+
+    const updated = await QueryBuilderFactory.create(provider).from('posts').where({ column: 'id', operator: 'IN', value: [1, 3] }).update({ views: 0 });
+    expect(updated.rowCount).toBe(2);
+    const deleted = await QueryBuilderFactory.create(provider).from('posts').where({ views: 0 }).delete();
+    expect(deleted.rowCount).toBe(2);
+  });
+
+  it('should join, group and filter groups', async () => {
+    const rows = await provider.query(`
+      SELECT a.name, COUNT(p.id) AS posts, SUM(p.views) AS views
+      FROM authors a
+      LEFT JOIN posts p ON p.author_id = a.id
+      GROUP BY a.name
+      HAVING COUNT(p.id) < 2
+      ORDER BY a.name
+    `);
+
+    expect(rows).toEqual([
+      { name: 'Barbara', posts: 0, views: null },
+      { name: 'Grace', posts: 1, views: 5 }
+    ]);
+    await expect(provider.query('SELECT DISTINCT country FROM authors ORDER BY country')).resolves.toEqual([
+      { country: 'UK' },
+      { country: 'US' }
+    ]);
+  });
+
+  it('should enforce constraints and leave failed statements without effect', async () => {
+    await expect(provider.execute('INSERT INTO authors (name) VALUES (?), (?)', ['Alan', 'Ada'])).rejects.toThrow('UNIQUE constraint failed: authors.name');
+    await expect(provider.execute('INSERT INTO posts (author_id) VALUES (1)')).rejects.toThrow('NOT NULL constraint failed: posts.title');
+    await expect(provider.query('SELECT * FROM missing')).rejects.toThrow('no such table: missing');
+    await expect(provider.query('SELECT nope FROM authors')).rejects.toThrow('no such column: nope');
+
+    await expect(provider.query('SELECT COUNT(*) AS count FROM authors')).resolves.toEqual([{ count: 3 }]);
+  });
+
+  it('should commit and roll back transactions', async () => {
+    const committed = await provider.beginTransaction();
+    await committed.execute('UPDATE posts SET views = views + 1 WHERE author_id = ?', [1]);
+    await committed.commit();
+
+    const rolledBack = await provider.beginTransaction();
+    await rolledBack.getBuilder().from('authors').insert({ name: 'Alan' });
+    await rolledBack.execute('DROP TABLE posts');
+    await rolledBack.rollback();
+
+    await expect(provider.query('SELECT views FROM posts WHERE author_id = 1 ORDER BY id')).resolves.toEqual([{ views: 11 }, { views: 31 }]);
+    await expect(provider.query('SELECT COUNT(*) AS count FROM authors')).resolves.toEqual([{ count: 3 }]);
+    await expect(rolledBack.query('SELECT 1')).rejects.toThrow(`Transaction ${rolledBack.getId()} is no longer active`);
+  });
+
+  it('should run transactions one after another', async () => {
+    const first = await provider.beginTransaction();
+    const second = provider.beginTransaction();
+    const order: string[] = [];
+
+    second.then(() => order.push('second began'));
+    await first.execute('DELETE FROM posts');
+    order.push('first rolling back');
+    await first.rollback();
+    await (await second).commit();
+
+    expect(order).toEqual(['first rolling back', 'second began']);
+    await expect(provider.query('SELECT COUNT(*) AS count FROM posts')).resolves.toEqual([{ count: 3 }]);
+  });
+
+  it('should keep the writes of other callers when a transaction rolls back', async () => {
+    const transaction = await provider.beginTransaction();
+    await transaction.execute('DELETE FROM posts');
+
+    const outside = provider.execute('INSERT INTO authors (name) VALUES (?)', ['Alan']);
+    await transaction.rollback();
+    await outside;
+
+    await expect(provider.query('SELECT COUNT(*) AS count FROM posts')).resolves.toEqual([{ count: 3 }]);
+    await expect(provider.query('SELECT COUNT(*) AS count FROM authors')).resolves.toEqual([{ count: 4 }]);
+  });
+
+  it('should run commands of the NoSQL query builder', async () => {
+    const events = () => QueryBuilderFactory.create(provider, 'nosql').from('events');
+
+    const inserted = await events().insert({ type: 'login', user: { name: 'ada' }, attempts: 1 });
+    await events().insert({ type: 'logout', user: { name: 'ada' }, attempts: 2 });
+    await events().insert({ type: 'login', user: { name: 'grace' }, attempts: 3 });
+
+    expect(inserted.insertId).toEqual(expect.any(String));
+    await expect(events().where({ 'user.name': 'ada' }).orderBy('attempts', 'DESC').select(['type']).execute()).resolves.toEqual([
+      { _id: expect.any(String), type: 'logout' },
+      { _id: inserted.insertId, type: 'login' }
+    ]);
+    await expect(events().where({ column: 'attempts', operator: '>=', value: 2 }).orWhere({ type: 'logout' }).count()).resolves.toBe(2);
+
+    await events().where({ type: 'login' }).update({ $inc: { attempts: 10 } });
+    await expect(events().where({ column: 'attempts', operator: 'BETWEEN', value: [10, 20] }).count()).resolves.toBe(2);
+    await expect(events().where({ type: { $in: ['logout'] } }).delete()).resolves.toMatchObject({ rowCount: 1 });
+    await expect(events().count()).resolves.toBe(2);
+  });
+
+  it('should report its state', async () => {
+    expect(provider.getCapabilities()).toMatchObject({ transactions: true, preparedStatements: false, foreignKeys: false, migrations: true });
+    expect(provider.getTables()).toEqual(['authors', 'posts']);
+    await expect(provider.ping()).resolves.toBe(true);
+
+    await provider.close();
+
+    await expect(provider.ping()).resolves.toBe(false);
+    await expect(provider.query('SELECT 1')).rejects.toThrow('Memory database is not connected');
+  });
+});
+
+describe('FoxDatabase with the memory provider', () => {
+  let database: FoxDatabase;
+
+  beforeEach(async () => {
+    database = createTestDatabase();
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  it('should roll back failed transactions', async () => {
+    await database.execute('CREATE TABLE accounts (id INTEGER PRIMARY KEY, balance INTEGER NOT NULL)');
+    await database.execute('INSERT INTO accounts (id, balance) VALUES (1, 100), (2, 0)');
+
+    await expect(database.transaction(async tx => {
+      await tx.execute('UPDATE accounts SET balance = balance + 150 WHERE id = 2');
+      await tx.execute('UPDATE accounts SET balance = NULL WHERE id = 1');
+    })).rejects.toThrow('NOT NULL constraint failed: accounts.balance');
+
+    await expect(database.query('SELECT id, balance FROM accounts ORDER BY id')).resolves.toEqual([
+      { id: 1, balance: 100 },
+      { id: 2, balance: 0 }
+    ]);
+  });
+
+  it('should run migrations and models', async () => {
+    const runner = new MigrationRunner(database);
+    await runner.migrate([{
+      id: '20240101000000_create_tasks',
+      name: 'create_tasks',
+      version: '20240101000000',
+      up: async db => {
+        await db.execute('CREATE TABLE tasks (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, done BOOLEAN NOT NULL DEFAULT 0)');
+      },
+      down: async db => {
+        await db.execute('DROP TABLE tasks');
+      }
+    }]);
+
+    const schema: ModelSchema = {
+      version: '1',
+      validation: [],
+      options: {},
+      fields: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'done', type: 'boolean', metadata: { default: false } }
+      ]
+    };
+    const tasks = database.defineModel<{ id: number; title: string; done: boolean }>({ name: 'Task', schema });
+
+    const created = await tasks.create({ title: 'Write tests' });
+    await tasks.create({ title: 'Ship it', done: true });
+
+    expect(created.id).toBe(1);
+    await expect(tasks.count()).resolves.toBe(2);
+    const pending = await tasks.where({ done: false }).get();
+    expect(pending.map(task => task.toObject())).toEqual([{ id: 1, title: 'Write tests', done: false }]);
+  });
+});
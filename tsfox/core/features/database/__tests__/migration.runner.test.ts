@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Migration runner tests
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Migration, MigrationConnection } from '../interfaces';
+import { MigrationError, MigrationRunner, loadMigrations, migrationChecksum } from '../migrations';
+
+/**
+ * Database double keeping the migrations table in memory and logging other statements.
+ * Transactions restore the previous state when the callback throws.
+ */
+function createFakeDatabase() {
+  const state = { applied: [] as any[], log: [] as string[] };
+
+  const connection: MigrationConnection = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.startsWith('SELECT') && sql.includes('fox_migrations')) {
+        return [...state.applied].sort((a, b) => a.id.localeCompare(b.id));
+      }
+      state.log.push(sql);
+      return [];
+    }),
+    execute: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.startsWith('INSERT INTO fox_migrations')) {
+        const [id, name, batch, checksum, applied_at] = params;
+        state.applied.push({ id, name, batch, checksum, applied_at });
+      } else if (sql.startsWith('DELETE FROM fox_migrations')) {
+        state.applied = state.applied.filter(row => row.id !== params[0]);
+      } else if (!sql.startsWith('CREATE TABLE IF NOT EXISTS fox_migrations')) {
+        if (sql.includes('FAIL')) {
+          throw new Error('syntax error');
+        }
+        state.log.push(sql);
+      }
+      return { rows: [], rowCount: 1 };
+    })
+  };
+
+  const database = {
+    ...connection,
+    transaction: jest.fn(async (callback: (tx: any) => Promise<any>) => {
+      const snapshot = { applied: [...state.applied], log: [...state.log] };
+      try {
+        return await callback(connection);
+      } catch (error) {
+        state.applied = snapshot.applied;
+        state.log = snapshot.log;
+        throw error;
+      }
+    })
+  };
+
+  return { database, state };
+}
+
+function migration(id: string, upSql: string, downSql: string): Migration {
+  return {
+    id,
+    name: id.replace(/^\d+_/, ''),
+    version: id.split('_')[0],
+    up: async db => { await db.execute(upSql); },
+    down: async db => { await db.execute(downSql); },
+    metadata: { checksum: `${upSql}|${downSql}` }
+  };
+}
+
+describe('MigrationRunner', () => {
+  const users = migration('20240101000000_create_users', 'CREATE TABLE users', 'DROP TABLE users');
+  const posts = migration('20240102000000_create_posts', 'CREATE TABLE posts', 'DROP TABLE posts');
+  const tags = migration('20240103000000_create_tags', 'CREATE TABLE tags', 'DROP TABLE tags');
+
+  it('should apply pending migrations in order, each in a transaction', async () => {
+    const { database, state } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+
+    const result = await runner.migrate([posts, users]);
+
+    expect(result).toEqual({ batch: 1, migrations: [users.id, posts.id], statements: [] });
+    expect(state.log).toEqual(['CREATE TABLE users', 'CREATE TABLE posts']);
+    expect(database.transaction).toHaveBeenCalledTimes(2);
+    expect(state.applied.map(row => [row.id, row.batch])).toEqual([[users.id, 1], [posts.id, 1]]);
+
+    await expect(runner.migrate([users, posts])).resolves.toMatchObject({ migrations: [] });
+  });
+
+  it('should apply new migrations in a new batch and roll back batch by batch', async () => {
+    const { database, state } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+
+    await runner.migrate([users, posts]);
+    await runner.migrate([users, posts, tags]);
+
+    const rollback = await runner.rollback([users, posts, tags]);
+    expect(rollback).toMatchObject({ batch: 2, migrations: [tags.id] });
+
+    const rest = await runner.rollback([users, posts, tags]);
+    expect(rest.migrations).toEqual([posts.id, users.id]);
+    expect(state.log.slice(-3)).toEqual(['DROP TABLE tags', 'DROP TABLE posts', 'DROP TABLE users']);
+    expect(state.applied).toEqual([]);
+  });
+
+  it('should limit the number of migrations applied', async () => {
+    const { database } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+
+    await expect(runner.migrate([users, posts, tags], { steps: 2 })).resolves.toMatchObject({ migrations: [users.id, posts.id] });
+  });
+
+  it('should stop at a failing migration and keep earlier ones', async () => {
+    const { database, state } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+    const broken = migration('20240102000000_broken', 'FAIL', 'DROP TABLE nothing');
+
+    const error = await runner.migrate([users, broken, tags]).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.message).toBe(`Migration '${broken.id}' failed: syntax error`);
+    expect(error.migration).toBe(broken.id);
+    expect(state.applied.map(row => row.id)).toEqual([users.id]);
+  });
+
+  it('should detect migrations changed after they were applied', async () => {
+    const { database } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+    await runner.migrate([users]);
+
+    const edited = { ...users, metadata: { checksum: 'edited' } };
+    const status = await runner.status([edited, posts]);
+
+    expect(status).toEqual([
+      expect.objectContaining({ id: users.id, status: 'completed', batch: 1, drifted: true }),
+      expect.objectContaining({ id: posts.id, status: 'pending', drifted: false })
+    ]);
+    await expect(runner.migrate([edited, posts])).rejects.toThrow(`Applied migrations have changed since they ran: ${users.id}`);
+  });
+
+  it('should report applied migrations whose definition is missing', async () => {
+    const { database } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+    await runner.migrate([users, posts]);
+
+    const status = await runner.status([users]);
+
+    expect(status[1]).toMatchObject({ id: posts.id, missing: true });
+    await expect(runner.rollback([users])).rejects.toThrow(`Cannot roll back migration '${posts.id}': its definition was not found`);
+  });
+
+  it('should record SQL without running it on dry runs', async () => {
+    const { database, state } = createFakeDatabase();
+    const runner = new MigrationRunner(database);
+
+    const result = await runner.migrate([users], { dryRun: true });
+
+    expect(result.migrations).toEqual([users.id]);
+    expect(result.statements.map(statement => statement.sql)).toEqual([
+      'CREATE TABLE users',
+      'INSERT INTO fox_migrations (id, name, batch, checksum, applied_at) VALUES (?, ?, ?, ?, ?)'
+    ]);
+    expect(result.statements[0].migration).toBe(users.id);
+    expect(state.log).toEqual([]);
+    expect(state.applied).toEqual([]);
+    expect(database.execute).not.toHaveBeenCalled();
+  });
+
+  it('should compute checksums from the migration functions by default', () => {
+    const { metadata, ...plain } = users;
+    expect(migrationChecksum(plain)).toMatch(/^[a-f0-9]{64}$/);
+    expect(migrationChecksum(plain)).not.toBe(migrationChecksum({ ...plain, up: async () => undefined }));
+  });
+});
+
+describe('loadMigrations', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load migration files in order with content checksums', async () => {
+    fs.writeFileSync(path.join(directory, '20240102000000_second.js'), 'module.exports = { up: async () => {}, down: async () => {} };');
+    fs.writeFileSync(path.join(directory, '20240101000000_first.js'), 'exports.up = async db => db.execute("x"); exports.down = async () => {};');
+    fs.writeFileSync(path.join(directory, 'README.md'), 'ignored');
+
+    const migrations = await loadMigrations(directory);
+
+    expect(migrations.map(item => [item.id, item.name, item.version])).toEqual([
+      ['20240101000000_first', 'first', '20240101000000'],
+      ['20240102000000_second', 'second', '20240102000000']
+    ]);
+    expect(migrations[0].metadata!.checksum).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should reject files without up and down', async () => {
+    fs.writeFileSync(path.join(directory, '20240101000000_broken.js'), 'exports.up = async () => {};');
+
+    await expect(loadMigrations(directory)).rejects.toThrow("Migration '20240101000000_broken.js' must export 'up' and 'down' functions");
+  });
+
+  it('should return no migrations for a missing directory', async () => {
+    await expect(loadMigrations(path.join(directory, 'missing'))).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * @fileoverview Model layer tests
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import { SqlQueryBuilder } from '../core/query.builder';
+import { FoxDatabase } from '../database.factory';
+import { ModelDefinition, ModelSchema, QueryResult, SchemaField } from '../interfaces';
+import { ModelRecord, ModelRegistry, ModelRepository, defaultTableName } from '../models';
+import { ValidationError } from '../../validation/errors/validation.errors';
+
+type Row = Record<string, any>;
+
+/**
+ * Database double recording statements and answering SELECTs per table
+ */
+function createFakeDatabase(tables: Record<string, Row[]> = {}) {
+  const database: any = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      const table = /FROM (\w+)/.exec(sql)?.[1] || '';
+      if (sql.includes('COUNT(*)')) {
+        return [{ count: (tables[table] || []).length }];
+      }
+      return filterRows(tables[table] || [], sql, params);
+    }),
+    execute: jest.fn(async (): Promise<QueryResult> => ({ rows: [], rowCount: 1, insertId: 42 })),
+    getBuilder: jest.fn(() => new SqlQueryBuilder(database)),
+    transaction: jest.fn(async (callback: (tx: any) => Promise<any>) => callback(database))
+  };
+  return database;
+}
+
+/**
+ * Apply `column IN (...)` and `column = ?` conditions so relation queries return matching rows
+ */
+function filterRows(rows: Row[], sql: string, params: any[]): Row[] {
+  const where = /WHERE (.+?)(?: ORDER BY| LIMIT|$)/.exec(sql)?.[1];
+  if (!where) {
+    return rows;
+  }
+
+  let index = 0;
+  const tests = where.split(/ AND /).map(part => {
+    const inMatch = /^(\w+) IN \(([?, ]+)\)$/.exec(part);
+    if (inMatch) {
+      const values = params.slice(index, index += inMatch[2].split(',').length).map(String);
+      return (row: Row) => values.includes(String(row[inMatch[1]]));
+    }
+    const eqMatch = /^(\w+) = \?$/.exec(part);
+    if (eqMatch) {
+      const value = params[index++];
+      return (row: Row) => String(row[eqMatch[1]]) === String(value);
+    }
+    const nullMatch = /^(\w+) IS NULL$/.exec(part);
+    return (row: Row) => !nullMatch || row[nullMatch[1]] == null;
+  });
+
+  return rows.filter(row => tests.every(test => test(row)));
+}
+
+function schema(fields: SchemaField[], options: ModelSchema['options'] = {}): ModelSchema {
+  return { version: '1', fields, validation: [], options };
+}
+
+interface User {
+  id: number;
+  email: string;
+  name?: string;
+  active?: boolean;
+  settings?: Record<string, any>;
+  createdAt?: Date;
+}
+
+const userDefinition: ModelDefinition = {
+  name: 'User',
+  schema: schema([
+    { name: 'email', type: 'string', required: true, metadata: { format: 'email' } },
+    { name: 'name', type: 'string', constraints: { min: 2, max: 50 } },
+    { name: 'active', type: 'boolean', metadata: { default: true } },
+    { name: 'settings', type: 'object' }
+  ]),
+  relations: [
+    { name: 'posts', type: 'hasMany', target: 'Post', localKey: 'id', foreignKey: 'user_id' },
+    { name: 'profile', type: 'hasOne', target: 'Profile', localKey: 'id', foreignKey: 'user_id' },
+    { name: 'roles', type: 'manyToMany', target: 'Role', localKey: 'id', foreignKey: 'user_id', pivotTable: 'role_user', relatedKey: 'role_id' }
+  ],
+  scopes: {
+    active: builder => builder.where({ active: true }),
+    named: (builder, name: string) => builder.where({ name })
+  },
+  options: { timestamps: true }
+};
+
+describe('Model', () => {
+  let database: any;
+  let registry: ModelRegistry;
+
+  beforeEach(() => {
+    database = createFakeDatabase({
+      users: [
+        { id: 1, email: 'ada@example.com', name: 'Ada', active: 1, settings: '{"theme":"dark"}' },
+        { id: 2, email: 'linus@example.com', name: 'Linus', active: 0, settings: null }
+      ],
+      posts: [
+        { id: 10, user_id: 1, title: 'First' },
+        { id: 11, user_id: 1, title: 'Second' },
+        { id: 12, user_id: 2, title: 'Third' }
+      ],
+      comments: [
+        { id: 100, post_id: 10, body: 'Nice' }
+      ],
+      profiles: [
+        { id: 5, user_id: 2, bio: 'Kernel' }
+      ],
+      roles: [
+        { id: 7, name: 'admin' },
+        { id: 8, name: 'editor' }
+      ],
+      role_user: [
+        { user_id: 1, role_id: 7 },
+        { user_id: 1, role_id: 8 },
+        { user_id: 2, role_id: 8 }
+      ]
+    });
+    registry = new ModelRegistry(database);
+
+    registry.define<User>(userDefinition);
+    registry.define({
+      name: 'Post',
+      schema: schema([
+        { name: 'user_id', type: 'integer', required: true },
+        { name: 'title', type: 'string', required: true }
+      ]),
+      relations: [
+        { name: 'author', type: 'belongsTo', target: 'User', localKey: 'id', foreignKey: 'user_id' },
+        { name: 'comments', type: 'hasMany', target: 'Comment', localKey: 'id', foreignKey: 'post_id' }
+      ]
+    });
+    registry.define({ name: 'Comment', schema: schema([{ name: 'body', type: 'string' }]) });
+    registry.define({ name: 'Profile', schema: schema([{ name: 'bio', type: 'string' }]) });
+    registry.define({ name: 'Role', schema: schema([{ name: 'name', type: 'string' }]) });
+  });
+
+  describe('definition', () => {
+    it('should derive table names and metadata', () => {
+      const User = registry.get<User>('User');
+
+      expect(defaultTableName('BlogPost')).toBe('blog_posts');
+      expect(defaultTableName('Category')).toBe('categories');
+      expect(User.tableName).toBe('users');
+      expect(User.getMetadata()).toMatchObject({
+        name: 'User',
+        tableName: 'users',
+        primaryKey: 'id',
+        fields: expect.arrayContaining([expect.objectContaining({ name: 'email', type: 'string', required: true })])
+      });
+    });
+
+    it('should reject duplicate and unknown models', () => {
+      expect(() => registry.define(userDefinition)).toThrow("Model 'User' is already defined");
+      expect(() => registry.get('Missing')).toThrow("Model 'Missing' is not defined");
+    });
+  });
+
+  describe('queries', () => {
+    it('should find records and cast column values', async () => {
+      const user = await registry.get<User>('User').find(1);
+
+      expect(user).toBeInstanceOf(ModelRecord);
+      expect(user!.email).toBe('ada@example.com');
+      expect(user!.active).toBe(true);
+      expect(user!.settings).toEqual({ theme: 'dark' });
+      expect(user!.isNew()).toBe(false);
+      expect(user!.isDirty()).toBe(false);
+      expect(database.query).toHaveBeenCalledWith('SELECT * FROM users WHERE id = ? LIMIT 1', [1]);
+    });
+
+    it('should build conditions from objects with several keys', () => {
+      const query = registry.get('User')
+        .where({ active: true, id: [1, 2], name: null })
+        .orderBy('name', 'DESC')
+        .limit(5)
+        .build();
+
+      expect(query.sql).toBe('SELECT * FROM users WHERE active = ? AND id IN (?, ?) AND name IS NULL ORDER BY name DESC LIMIT 5');
+      expect(query.params).toEqual([true, 1, 2]);
+    });
+
+    it('should apply named scopes with arguments', () => {
+      const query = registry.get('User').scope('active').scope('named', 'Ada').build();
+
+      expect(query.sql).toBe('SELECT * FROM users WHERE active = ? AND name = ?');
+      expect(query.params).toEqual([true, 'Ada']);
+      expect(() => registry.get('User').scope('missing')).toThrow("Scope 'missing' is not defined on model 'User'");
+    });
+
+    it('should count and check existence', async () => {
+      const User = registry.get('User');
+
+      await expect(User.count()).resolves.toBe(2);
+      await expect(User.exists({ email: 'ada@example.com' })).resolves.toBe(true);
+      await expect(User.newQuery().orderBy('id').offset(10).exists()).resolves.toBe(true);
+      expect(database.query).toHaveBeenLastCalledWith('SELECT COUNT(*) as count FROM users', []);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should validate, insert and track new records', async () => {
+      const user = await registry.get<User>('User').create({ email: 'grace@example.com', name: 'Grace' });
+
+      const [sql, params] = database.execute.mock.calls[0];
+      expect(sql).toBe('INSERT INTO users (email, name, active, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)');
+      expect(params.slice(0, 3)).toEqual(['grace@example.com', 'Grace', true]);
+      expect(user.id).toBe(42);
+      expect(user.createdAt).toBeInstanceOf(Date);
+      expect(user.isNew()).toBe(false);
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should reject invalid records with a ValidationError', async () => {
+      const User = registry.get<User>('User');
+
+      await expect(User.create({ email: 'not-an-email', name: 'A' })).rejects.toBeInstanceOf(ValidationError);
+      expect(database.execute).not.toHaveBeenCalled();
+
+      const result = await User.validate({ name: 'A' });
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual(expect.arrayContaining(['email', 'name']));
+    });
+
+    it('should reject unknown attributes in strict schemas', async () => {
+      const Tag = registry.define({ name: 'Tag', schema: schema([{ name: 'label', type: 'string' }], { strict: true }) });
+
+      await expect(Tag.create({ label: 'x', color: 'red' })).rejects.toThrow("Validation failed for model 'Tag'");
+    });
+
+    it('should only update changed attributes', async () => {
+      const user = (await registry.get<User>('User').find(1))!;
+
+      user.name = 'Ada Lovelace';
+      expect(user.getChanges()).toEqual({ name: 'Ada Lovelace' });
+      await user.save();
+
+      const [sql, params] = database.execute.mock.calls[0];
+      expect(sql).toBe('UPDATE users SET name = ?, updatedAt = ? WHERE id = ?');
+      expect(params[0]).toBe('Ada Lovelace');
+      expect(params[2]).toBe(1);
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should not run a query when nothing changed', async () => {
+      const user = (await registry.get<User>('User').find(1))!;
+
+      await user.save();
+      expect(database.execute).not.toHaveBeenCalled();
+    });
+
+    it('should run hooks in order and merge returned attributes', async () => {
+      const calls: string[] = [];
+      const Note = registry.define({
+        name: 'Note',
+        schema: schema([{ name: 'text', type: 'string', required: true }, { name: 'slug', type: 'string' }]),
+        options: {
+          hooks: {
+            beforeSave: async () => { calls.push('beforeSave'); },
+            beforeCreate: async (record: any) => {
+              calls.push('beforeCreate');
+              return { slug: record.text.toLowerCase() };
+            },
+            afterCreate: async () => { calls.push('afterCreate'); },
+            afterSave: async () => { calls.push('afterSave'); },
+            beforeDelete: async () => { calls.push('beforeDelete'); },
+            afterDelete: async () => { calls.push('afterDelete'); }
+          }
+        }
+      });
+
+      const note = await Note.create({ text: 'Hello' });
+      await note.delete();
+
+      expect(note.slug).toBe('hello');
+      expect(calls).toEqual(['beforeSave', 'beforeCreate', 'afterCreate', 'afterSave', 'beforeDelete', 'afterDelete']);
+      expect(database.execute.mock.calls[1][0]).toBe('DELETE FROM notes WHERE id = ?');
+    });
+
+    it('should soft delete and exclude trashed records', async () => {
+      const Doc = registry.define({ name: 'Doc', schema: schema([{ name: 'title', type: 'string' }]), options: { softDeletes: true } });
+
+      expect(Doc.newQuery().build().sql).toBe('SELECT * FROM docs WHERE deletedAt IS NULL');
+      expect(Doc.newQuery().withTrashed().build().sql).toBe('SELECT * FROM docs');
+
+      await Doc.deleteMany({ title: 'old' });
+      expect(database.execute.mock.calls[0][0]).toBe('UPDATE docs SET deletedAt = ? WHERE deletedAt IS NULL AND title = ?');
+    });
+  });
+
+  describe('relations', () => {
+    it('should eager load relations with one query per relation', async () => {
+      const users = await registry.get<User>('User').with('posts', 'profile', 'roles').get();
+      const [ada, linus] = users;
+
+      expect(ada.getRelation('posts').map((post: any) => post.title)).toEqual(['First', 'Second']);
+      expect(linus.getRelation('posts').map((post: any) => post.title)).toEqual(['Third']);
+      expect(ada.getRelation('profile')).toBeNull();
+      expect(linus.getRelation('profile').bio).toBe('Kernel');
+      expect(ada.getRelation('roles').map((role: any) => role.name)).toEqual(['admin', 'editor']);
+      expect(linus.getRelation('roles').map((role: any) => role.name)).toEqual(['editor']);
+
+      // users, posts, profiles, pivot, roles
+      expect(database.query).toHaveBeenCalledTimes(5);
+      expect(database.query).toHaveBeenCalledWith('SELECT * FROM posts WHERE user_id IN (?, ?)', [1, 2]);
+      expect(database.query).toHaveBeenCalledWith('SELECT user_id, role_id FROM role_user WHERE user_id IN (?, ?)', [1, 2]);
+    });
+
+    it('should load nested and belongsTo relations', async () => {
+      const posts = await registry.get('Post').with('author', 'comments').where({ id: 10 }).get();
+
+      expect(posts[0].getRelation('author').email).toBe('ada@example.com');
+      expect(posts[0].toJSON()).toMatchObject({
+        title: 'First',
+        author: { name: 'Ada' },
+        comments: [{ body: 'Nice' }]
+      });
+
+      const user = (await registry.get('User').with('posts.comments').where({ id: 1 }).first())!;
+      expect(user.getRelation('posts')[0].getRelation('comments')).toHaveLength(1);
+    });
+
+    const defineMutuallyEager = () => {
+      registry.define({
+        name: 'Writer',
+        tableName: 'users',
+        schema: schema([{ name: 'name', type: 'string' }]),
+        relations: [{ name: 'posts', type: 'hasMany', target: 'Article', localKey: 'id', foreignKey: 'user_id', options: { eager: true } }]
+      });
+      registry.define({
+        name: 'Article',
+        tableName: 'posts',
+        schema: schema([{ name: 'title', type: 'string' }]),
+        relations: [{ name: 'writer', type: 'belongsTo', target: 'Writer', localKey: 'id', foreignKey: 'user_id', options: { eager: true } }]
+      });
+    };
+
+    it('should load mutually eager relations once per level without looping', async () => {
+      defineMutuallyEager();
+
+      const writer = (await registry.get('Writer').with('posts').where({ id: 2 }).first())!;
+      const [article] = writer.getRelation('posts');
+
+      expect(article.title).toBe('Third');
+      expect(article.getRelation('writer').name).toBe('Linus');
+      expect(article.getRelation('writer').relationLoaded('posts')).toBe(false);
+      // writers, articles, their writers
+      expect(database.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop mutually eager relations of models bound to another connection', async () => {
+      defineMutuallyEager();
+      const connection = { ...database };
+
+      const writer = (await registry.get('Writer').using(connection).where({ id: 2 }).first())!;
+
+      expect(writer.getRelation('posts')[0].getRelation('writer').relationLoaded('posts')).toBe(false);
+      expect(database.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should lazy load relations on first access', async () => {
+      const user = (await registry.get<User>('User').find(2))!;
+      database.query.mockClear();
+
+      const posts = await user.related('posts');
+      await user.related('posts');
+
+      expect(posts).toHaveLength(1);
+      expect(user.relationLoaded('posts')).toBe(true);
+      expect(database.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report unknown relations', async () => {
+      await expect(registry.get('User').with('friends').get()).rejects.toThrow("Relation 'friends' is not defined on model 'User'");
+    });
+  });
+
+  describe('ModelRepository', () => {
+    it('should delegate to the model and run transactions on a bound repository', async () => {
+      const repository = registry.repository<User>('User');
+
+      expect(repository).toBeInstanceOf(ModelRepository);
+      await expect(repository.findOneBy({ email: 'linus@example.com' })).resolves.toMatchObject({ id: 2 });
+
+      const created = await repository.transaction(async repo => {
+        expect(repo).not.toBe(repository);
+        return repo.create({ email: 'tx@example.com' });
+      });
+
+      expect(database.transaction).toHaveBeenCalledTimes(1);
+      expect(created.email).toBe('tx@example.com');
+    });
+  });
+
+  describe('FoxDatabase', () => {
+    it('should define and resolve models', () => {
+      const db = new FoxDatabase({ provider: 'memory', database: 'models' });
+      const User = db.defineModel<User>(userDefinition);
+
+      expect(db.getModel('User')).toBe(User);
+      expect(db.getModels().names()).toEqual(['User']);
+    });
+  });
+});
@@ -4,8 +4,10 @@
  */
 
 import { SqlQueryBuilder, QueryBuilderFactory } from '../core/query.builder';
+import { raw } from '../core/sql.dialect';
 import { FoxDatabase } from '../database.factory';
 import { DatabaseConfig } from '../interfaces';
+import { SQLITE_MEMORY } from '../providers/sqlite.provider';
 
 describe('SqlQueryBuilder', () => {
   let database: FoxDatabase;
@@ -104,7 +106,7 @@ describe('SqlQueryBuilder', () => {
 
     it('should build SELECT with GROUP BY and HAVING', () => {
       const { sql, params } = builder
-        .select(['department', 'COUNT(*) as count'])
+        .select(['department', raw('COUNT(*) as count')])
         .from('employees')
         .groupBy(['department'])
         .having({ count: 5 })
@@ -127,7 +129,7 @@ describe('SqlQueryBuilder', () => {
 
     it('should build complex SELECT query', () => {
       const { sql, params } = builder
-        .select(['u.id', 'u.name', 'COUNT(p.id) as post_count'])
+        .select(['u.id', 'u.name', raw('COUNT(p.id) as post_count')])
         .from('users u')
         .leftJoin('posts p', 'u.id = p.user_id')
         .where({ 'u.active': true })
@@ -344,6 +346,18 @@ describe('SqlQueryBuilder', () => {
       querySpy.mockRestore();
     });
 
+    it('should count without ordering, limit and offset, leaving the builder unchanged', async () => {
+      const querySpy = jest.spyOn(database, 'query').mockRejectedValueOnce(new Error('timeout')).mockResolvedValue([{ count: 3 }]);
+      builder.select(['id']).from('users').orderBy('id').limit(10).offset(20);
+
+      await expect(builder.count()).rejects.toThrow('timeout');
+      await expect(builder.count()).resolves.toBe(3);
+
+      expect(querySpy).toHaveBeenLastCalledWith('SELECT COUNT(*) as count FROM users', []);
+      expect(builder.build().sql).toBe('SELECT id FROM users ORDER BY id ASC LIMIT 10 OFFSET 20');
+      querySpy.mockRestore();
+    });
+
     it('should execute first query', async () => {
       const querySpy = jest.spyOn(database, 'query').mockResolvedValue([
         { id: 1, name: 'John' },
@@ -465,3 +479,221 @@ describe('QueryBuilderFactory', () => {
     });
   });
 });
+
+describe('SqlQueryBuilder dialects', () => {
+  const executor = { query: jest.fn(), execute: jest.fn() };
+  const sql = (dialect: 'generic' | 'postgres' | 'mysql' | 'sqlite' = 'generic') => new SqlQueryBuilder(executor, dialect);
+
+  it('should build nested conditions and subqueries', () => {
+    const authors = sql().select(['author_id']).from('posts').where({ published: true });
+
+    const { sql: text, params } = sql()
+      .from('users')
+      .where(query => query.where({ role: 'admin' }).orWhere({ column: 'age', operator: '>', value: 65 }))
+      .whereIn('id', authors)
+      .whereNull('deleted_at')
+      .whereBetween('age', [18, 70])
+      .where({ team: ['a', 'b'], locked: null })
+      .build();
+
+    expect(text).toBe(
+      'SELECT * FROM users WHERE (role = ? OR age > ?) AND id IN (SELECT author_id FROM posts WHERE published = ?)' +
+      ' AND deleted_at IS NULL AND age BETWEEN ? AND ? AND (team IN (?, ?) AND locked IS NULL)'
+    );
+    expect(params).toEqual(['admin', 65, true, 18, 70, 'a', 'b']);
+    expect(sql().from('users').whereIn('id', []).whereNotIn('id', []).build().sql).toBe('SELECT * FROM users WHERE 1 = 0 AND 1 = 1');
+  });
+
+  it('should number placeholders and quote identifiers for PostgreSQL', () => {
+    const spenders = sql('postgres').select(['user_id']).from('orders').where({ column: 'total', operator: '>', value: 100 });
+
+    const { sql: text, params } = sql('postgres')
+      .with('spenders', spenders)
+      .select(['u.id', 'u.name', raw('COUNT(*) AS orders')])
+      .from('users u')
+      .innerJoin('spenders s', 's.user_id = u.id')
+      .where(raw('LOWER(u.email) LIKE ?', ['%@example.com']))
+      .whereExists(sql('postgres').select([raw('1')]).from('badges').where(raw('badges.user_id = u.id')))
+      .groupBy(['u.id', 'u.name'])
+      .orderBy('u.name')
+      .offset(10)
+      .build();
+
+    expect(text).toBe(
+      'WITH "spenders" AS (SELECT "user_id" FROM "orders" WHERE "total" > $1)' +
+      ' SELECT "u"."id", "u"."name", COUNT(*) AS orders FROM "users" AS "u" INNER JOIN "spenders" AS "s" ON "s"."user_id" = "u"."id"' +
+      ' WHERE LOWER(u.email) LIKE $2 AND EXISTS (SELECT 1 FROM "badges" WHERE badges.user_id = u.id)' +
+      ' GROUP BY "u"."id", "u"."name" ORDER BY "u"."name" ASC OFFSET 10'
+    );
+    expect(params).toEqual([100, '%@example.com']);
+  });
+
+  it('should build upserts and RETURNING per dialect', () => {
+    const rows = [{ email: 'ada@example.com', name: 'Ada' }, { email: 'grace@example.com', name: 'Grace' }];
+
+    expect(sql('postgres').from('users').returning(['id']).buildUpsert(rows[0], ['email'])).toMatchObject({
+      sql: 'INSERT INTO "users" ("email", "name") VALUES ($1, $2) ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name" RETURNING "id"',
+      params: ['ada@example.com', 'Ada'],
+      type: 'INSERT'
+    });
+    expect(sql('sqlite').from('users').buildUpsert(rows, ['email'], []).sql).toBe(
+      'INSERT INTO "users" ("email", "name") VALUES (?, ?), (?, ?) ON CONFLICT ("email") DO NOTHING'
+    );
+    expect(sql('mysql').from('users').buildUpsert(rows, ['email']).sql).toBe(
+      'INSERT INTO `users` (`email`, `name`) VALUES (?, ?), (?, ?) ON DUPLICATE KEY UPDATE `name` = VALUES(`name`)'
+    );
+    expect(sql('mysql').from('users').buildUpsert(rows[0], ['email'], []).sql).toBe('INSERT IGNORE INTO `users` (`email`, `name`) VALUES (?, ?)');
+
+    expect(() => sql('mysql').from('users').where({ id: 1 }).returning(['id']).buildDelete()).toThrow('RETURNING is not supported by the mysql dialect');
+    expect(() => sql().from('users').buildInsert([{ name: 'Ada' }, { email: 'grace@example.com' }])).toThrow('All inserted rows must have the same columns');
+    expect(sql('postgres').from('posts').where({ id: 3 }).returning(['*']).buildUpdate({ views: raw('views + ?', [1]) }).sql)
+      .toBe('UPDATE "posts" SET "views" = views + $1 WHERE "id" = $2 RETURNING *');
+  });
+
+  it('should reject expressions that are not written with raw()', () => {
+    const injected = "name; DROP TABLE users; --";
+
+    for (const dialect of ['generic', 'postgres'] as const) {
+      expect(() => sql(dialect).from('users').orderBy(injected).build()).toThrow(`Invalid column or table reference: ${injected}`);
+      expect(() => sql(dialect).select(['LOWER(name)']).from('users').build()).toThrow('write expressions with raw()');
+      expect(() => sql(dialect).from('users').groupBy(['1 OR 1=1']).build()).toThrow('Invalid column or table reference');
+    }
+    expect(sql('postgres').select(['u.*', 'name AS label', raw('LOWER(email) AS email')]).from('users u')
+      .where({ active: true }).orderBy(raw('LENGTH(name) - ?', [2]), 'DESC').build()).toMatchObject({
+      sql: 'SELECT "u".*, "name" AS "label", LOWER(email) AS email FROM "users" AS "u" WHERE "active" = $1 ORDER BY LENGTH(name) - $2 DESC',
+      params: [true, 2]
+    });
+  });
+
+  it('should reject names that are not identifiers in every dialect', async () => {
+    const injected = 'name) VALUES (1); DROP TABLE users; --';
+
+    for (const dialect of ['generic', 'sqlite'] as const) {
+      await expect(sql(dialect).from('users').insert({ [injected]: 'x' })).rejects.toThrow(`Invalid identifier: ${injected}`);
+      await expect(sql(dialect).from('users').update({ [injected]: 'x' })).rejects.toThrow('Invalid identifier');
+      expect(() => sql(dialect).with('recent; --', sql(dialect).from('users')).from('recent').build()).toThrow('Invalid identifier');
+    }
+  });
+
+  it('should write limits of each dialect', () => {
+    expect(sql('sqlite').from('users').offset(5).build().sql).toBe('SELECT * FROM "users" LIMIT -1 OFFSET 5');
+    expect(sql('mysql').from('users').offset(5).build().sql).toBe('SELECT * FROM `users` LIMIT 18446744073709551615 OFFSET 5');
+    expect(sql('postgres').from('users').forPage(3, 20).build().sql).toBe('SELECT * FROM "users" LIMIT 20 OFFSET 40');
+    expect(() => sql().forPage(0, 20)).toThrow('Page and page size must be positive integers');
+  });
+
+  it('should combine queries with unions', () => {
+    const { sql: text, params } = sql('postgres')
+      .select(['name'])
+      .from('authors')
+      .where({ country: 'UK' })
+      .union(sql('postgres').select(['name']).from('editors').where({ country: 'US' }))
+      .orderBy('name', 'DESC')
+      .limit(5)
+      .build();
+
+    expect(text).toBe('SELECT "name" FROM "authors" WHERE "country" = $1 UNION SELECT "name" FROM "editors" WHERE "country" = $2 ORDER BY "name" DESC LIMIT 5');
+    expect(params).toEqual(['UK', 'US']);
+    expect(() => sql().from('a').unionAll(sql().from('b').limit(1)).build()).toThrow('ORDER BY, LIMIT and OFFSET of a union belong to the first query');
+  });
+});
+
+describe.each([
+  ['memory', { provider: 'memory', database: 'builder' }],
+  ['sqlite', { provider: 'sqlite', database: SQLITE_MEMORY }]
+] as Array<[string, DatabaseConfig]>)('SqlQueryBuilder on %s', (name, config) => {
+  let database: FoxDatabase;
+
+  beforeEach(async () => {
+    database = new FoxDatabase(config);
+    await database.connect();
+    await database.execute('CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE, country TEXT)');
+    await database.execute('CREATE TABLE posts (id INTEGER PRIMARY KEY, author_id INTEGER NOT NULL, title TEXT NOT NULL, views INTEGER NOT NULL)');
+    await database.getSqlBuilder().from('authors').insert([
+      { name: 'Ada', country: 'UK' },
+      { name: 'Grace', country: 'US' },
+      { name: 'Barbara', country: null }
+    ]);
+    await database.getSqlBuilder().from('posts').insert([
+      { author_id: 1, title: 'Engines', views: 10 },
+      { author_id: 1, title: 'Notes', views: 30 },
+      { author_id: 2, title: 'Compilers', views: 5 }
+    ]);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  it('should upsert and return the written rows', async () => {
+    const result = await database.getSqlBuilder()
+      .from('authors')
+      .returning(['id', 'name', 'country'])
+      .upsert([{ name: 'Ada', country: 'FR' }, { name: 'Edsger', country: 'NL' }], ['name']);
+
+    expect(result.rows).toEqual([
+      { id: 1, name: 'Ada', country: 'FR' },
+      { id: 4, name: 'Edsger', country: 'NL' }
+    ]);
+
+    await database.getSqlBuilder().from('authors').upsert({ name: 'Grace', country: 'CA' }, ['name'], []);
+    await expect(database.getSqlBuilder().from('authors').where({ name: 'Grace' }).first()).resolves.toMatchObject({ country: 'US' });
+  });
+
+  it('should run subqueries, unions and common tables', async () => {
+    const popular = database.getSqlBuilder().select(['author_id']).from('posts').where({ column: 'views', operator: '>=', value: 10 });
+    await expect(database.getSqlBuilder().select(['name']).from('authors').whereIn('id', popular).execute()).resolves.toEqual([{ name: 'Ada' }]);
+
+    const unpublished = await database.getSqlBuilder()
+      .select(['name'])
+      .from('authors')
+      .whereNotExists(database.getSqlBuilder().select(['id']).from('posts').where(raw('posts.author_id = authors.id')))
+      .execute();
+    expect(unpublished).toEqual([{ name: 'Barbara' }]);
+
+    const names = await database.getSqlBuilder()
+      .select(['name'])
+      .from('authors')
+      .whereNotNull('country')
+      .unionAll(database.getSqlBuilder().select(['title']).from('posts').where({ author_id: 2 }))
+      .orderBy('name')
+      .execute();
+    expect(names).toEqual([{ name: 'Ada' }, { name: 'Compilers' }, { name: 'Grace' }]);
+
+    const totals = await database.getSqlBuilder()
+      .with('totals', database.getSqlBuilder().select(['author_id', raw('SUM(views) AS views')]).from('posts').groupBy(['author_id']))
+      .select(['a.name', 't.views'])
+      .from('authors a')
+      .innerJoin('totals t', 't.author_id = a.id')
+      .orderBy('t.views', 'DESC')
+      .execute();
+    expect(totals).toEqual([{ name: 'Ada', views: 40 }, { name: 'Grace', views: 5 }]);
+
+    const countdown = await database.getSqlBuilder()
+      .withRecursive('countdown', raw('SELECT ? UNION ALL SELECT n - 1 FROM countdown WHERE n > 1', [3]), ['n'])
+      .from('countdown')
+      .execute();
+    expect(countdown).toEqual([{ n: 3 }, { n: 2 }, { n: 1 }]);
+  });
+
+  it('should paginate by offset and by cursor', async () => {
+    const posts = () => database.getSqlBuilder().select(['id', 'title']).from('posts');
+
+    await expect(posts().orderBy('id').paginate(2, 2)).resolves.toEqual({
+      data: [{ id: 3, title: 'Compilers' }],
+      total: 3,
+      page: 2,
+      perPage: 2,
+      lastPage: 2
+    });
+
+    const first = await posts().cursorPaginate({ column: 'id', limit: 2, direction: 'DESC' });
+    expect(first).toEqual({ data: [{ id: 3, title: 'Compilers' }, { id: 2, title: 'Notes' }], nextCursor: 2 });
+    await expect(posts().cursorPaginate({ column: 'id', limit: 2, direction: 'DESC', after: first.nextCursor })).resolves.toEqual({
+      data: [{ id: 1, title: 'Engines' }],
+      nextCursor: null
+    });
+    await expect(database.getSqlBuilder().from('posts').groupBy(['author_id']).count()).resolves.toBe(2);
+    await expect(posts().orderBy('id').limit(1).offset(10).count()).resolves.toBe(3);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Query instrumentation tests: fingerprints, metrics, slow-query log and N+1 detection
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { FoxDatabase } from '../database.factory';
+import { ConnectionPool, DatabaseConnection } from '../core/connection.manager';
+import { databaseSession, runInDatabaseSession } from '../core/database.session';
+import { fingerprintQuery, QueryEvent, QueryInstrumentation } from '../core/query.instrumentation';
+import { MetricsCollector } from '../../../performance/monitoring/metrics.collector';
+
+describe('fingerprintQuery', () => {
+  it('should replace literals and parameters', () => {
+    expect(fingerprintQuery("SELECT * FROM users WHERE email = 'a@b.c' AND age > 30 -- adults\n  LIMIT 10;"))
+      .toBe('SELECT * FROM users WHERE email = ? AND age > ? LIMIT ?');
+    expect(fingerprintQuery('SELECT * FROM t1 WHERE id = $1 AND name = $2')).toBe('SELECT * FROM t1 WHERE id = ? AND name = ?');
+    expect(fingerprintQuery("SELECT 'it''s' /* quoted */ FROM dual")).toBe('SELECT ? FROM dual');
+  });
+
+  it('should collapse IN lists and multi-row inserts', () => {
+    expect(fingerprintQuery('SELECT * FROM users WHERE id IN (?, ?, ?)')).toBe(fingerprintQuery('SELECT * FROM users WHERE id IN (1)'));
+    expect(fingerprintQuery('INSERT INTO users (name) VALUES (?), (?), (?)')).toBe('INSERT INTO users (name) VALUES (?)');
+  });
+
+  it('should describe NoSQL commands', () => {
+    expect(fingerprintQuery(JSON.stringify({ operation: 'find', collection: 'users', filters: { email: 'a@b.c' } })))
+      .toBe('find users (email)');
+  });
+});
+
+describe('FoxDatabase instrumentation', () => {
+  let database: FoxDatabase;
+  let metrics: MetricsCollector;
+  let warnings: Array<{ message: string; data: any }>;
+
+  beforeEach(async () => {
+    metrics = new MetricsCollector(1000, false);
+    warnings = [];
+    database = new FoxDatabase({ provider: 'memory', database: 'app' });
+    database.instrument({
+      metrics,
+      logger: (message, data) => warnings.push({ message, data }),
+      slowQueryThreshold: 60000,
+      nPlusOneThreshold: 3
+    });
+    await database.connect();
+    await database.execute('CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL)');
+    database.getInstrumentation().reset();
+    metrics.clear();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  it('should record statements by fingerprint', async () => {
+    await database.execute('INSERT INTO users (email) VALUES (?)', ['ada@example.com']);
+    await database.execute('INSERT INTO users (email) VALUES (?)', ['alan@example.com']);
+    await database.query('SELECT * FROM users WHERE id = 1');
+    await expect(database.query('SELECT * FROM missing')).rejects.toThrow('no such table: missing');
+
+    const stats = database.getInstrumentation().getStats();
+    expect(stats.find(entry => entry.fingerprint === 'INSERT INTO users (email) VALUES (?)'))
+      .toMatchObject({ operation: 'insert', count: 2, rows: 2, errors: 0 });
+    expect(stats.find(entry => entry.fingerprint === 'SELECT * FROM users WHERE id = ?')).toMatchObject({ count: 1, rows: 1 });
+    expect(stats.find(entry => entry.fingerprint === 'SELECT * FROM missing')).toMatchObject({ count: 1, errors: 1 });
+  });
+
+  it('should send timings and row counts to the metrics collector', async () => {
+    await database.query('SELECT * FROM users');
+    await expect(database.query('SELECT * FROM missing')).rejects.toThrow();
+
+    const durations = metrics.getMetricData('db_query_duration_ms');
+    expect(durations).toHaveLength(2);
+    expect(durations.map(point => point.labels)).toEqual([
+      expect.objectContaining({ database: 'app', operation: 'select', status: 'ok' }),
+      expect.objectContaining({ database: 'app', operation: 'select', status: 'error' })
+    ]);
+    expect(metrics.getMetricData('db_query_rows')).toEqual([expect.objectContaining({ value: 0 })]);
+  });
+
+  it('should log slow queries with their parameters redacted', async () => {
+    database.instrument({ slowQueryThreshold: 0 });
+
+    await database.query("SELECT * FROM users WHERE email = ? OR email = 'grace@example.com'", ['ada@example.com']);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toMatch(/^Slow query \(\d+ ms\): SELECT \* FROM users WHERE email = \? OR email = \?$/);
+    expect(warnings[0].data.params).toEqual(['[REDACTED]']);
+    expect(JSON.stringify(warnings)).not.toContain('example.com');
+  });
+
+  it('should record statements of transactions', async () => {
+    const events: QueryEvent[] = [];
+    database.getInstrumentation().onQuery(event => events.push(event));
+
+    await database.transaction(async tx => {
+      await tx.execute('INSERT INTO users (email) VALUES (?)', ['ada@example.com']);
+      await tx.getBuilder().from('users').where({ email: 'ada@example.com' }).execute();
+    });
+
+    expect(events.map(event => event.operation)).toEqual(['insert', 'select']);
+    expect(events[1].rowCount).toBe(1);
+  });
+
+  it('should report a fingerprint repeated within one session once', async () => {
+    const events: QueryEvent[] = [];
+    database.getInstrumentation().onQuery(event => events.push(event));
+
+    await runInDatabaseSession(async () => {
+      for (let id = 1; id <= 5; id++) {
+        await database.query('SELECT * FROM users WHERE id = ?', [id]);
+      }
+    });
+    for (let id = 1; id <= 5; id++) {
+      await database.query('SELECT * FROM users WHERE id = ?', [id]);
+    }
+
+    expect(warnings).toEqual([{
+      message: 'Possible N+1 query (3 runs in one session): SELECT * FROM users WHERE id = ?',
+      data: expect.objectContaining({ count: 3 })
+    }]);
+    expect(events.map(event => event.nPlusOne)).toEqual([false, false, true, false, false, false, false, false, false, false]);
+    expect(metrics.getMetricData('db_query_n_plus_one')).toHaveLength(1);
+  });
+
+  it('should count statements per request', async () => {
+    const app = express();
+    app.use(databaseSession());
+    app.get('/users', async (req, res) => {
+      for (let id = 1; id <= 2; id++) {
+        await database.query('SELECT * FROM users WHERE id = ?', [id]);
+      }
+      res.json({});
+    });
+
+    await request(app).get('/users').expect(200);
+    await request(app).get('/users').expect(200);
+
+    expect(warnings).toEqual([]);
+    expect(database.getInstrumentation().getStats()[0].count).toBe(4);
+  });
+});
+
+describe('ConnectionPool instrumentation', () => {
+  it('should record statements of pooled connections', async () => {
+    const instrumentation = new QueryInstrumentation();
+    const pool = new ConnectionPool(
+      { min: 0, max: 1, acquireTimeoutMillis: 1000, idleTimeoutMillis: 1000, createTimeoutMillis: 1000 },
+      async config => new DatabaseConnection(config, null),
+      instrumentation
+    );
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const connection = await pool.acquire();
+      await connection.execute('DELETE FROM users WHERE id = ?', [1]);
+    } finally {
+      log.mockRestore();
+      await pool.close();
+    }
+
+    expect(instrumentation.getStats()).toEqual([
+      expect.objectContaining({ fingerprint: 'DELETE FROM users WHERE id = ?', operation: 'delete', count: 1 })
+    ]);
+  });
+});
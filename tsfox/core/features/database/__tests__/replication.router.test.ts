@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Read/write splitting tests, run against memory and SQLite replicas
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { FoxServer } from '../../foxserver.feature';
+import { FoxDatabase } from '../database.factory';
+import { databaseSession, isReadStatement, runInDatabaseSession } from '../core/replication.router';
+import { DatabaseConfig, ProviderInterface } from '../interfaces';
+
+const memory = (name: string): DatabaseConfig => ({ provider: 'memory', database: name });
+
+describe('isReadStatement', () => {
+  it('should tell reads from writes', () => {
+    expect(isReadStatement('  select * from users')).toBe(true);
+    expect(isReadStatement('WITH recent AS (SELECT 1) SELECT * FROM recent')).toBe(true);
+    expect(isReadStatement('SELECT * FROM users FOR UPDATE')).toBe(false);
+    expect(isReadStatement('WITH gone AS (DELETE FROM users RETURNING id) SELECT * FROM gone')).toBe(false);
+    expect(isReadStatement('INSERT INTO users (name) VALUES (?)')).toBe(false);
+    expect(isReadStatement('{"operation":"count","collection":"users","filters":{}}')).toBe(true);
+    expect(isReadStatement('{"operation":"insert","collection":"users","filters":{}}')).toBe(false);
+  });
+});
+
+describe('FoxDatabase with replicas', () => {
+  let database: FoxDatabase;
+  let primary: ProviderInterface;
+  let replicas: ProviderInterface[];
+
+  // Each memory instance has its own data, so rows tell where a read ran
+  const seed = async (provider: ProviderInterface, source: string) => {
+    await provider.execute('CREATE TABLE nodes (source TEXT)');
+    await provider.execute('INSERT INTO nodes (source) VALUES (?)', [source]);
+  };
+  const readSource = async () => (await database.query<{ source: string }>('SELECT source FROM nodes'))[0].source;
+
+  beforeEach(async () => {
+    database = new FoxDatabase({
+      provider: 'memory',
+      database: 'app',
+      replication: { master: memory('primary'), slaves: [memory('replica-1'), memory('replica-2')] }
+    });
+    await database.connect();
+
+    const router = database.getReplicationRouter()!;
+    primary = router.getPrimary();
+    replicas = router.getReplicas();
+    await seed(primary, 'primary');
+    await seed(replicas[0], 'replica-1');
+    await seed(replicas[1], 'replica-2');
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  it('should send reads to replicas in turn and writes to the primary', async () => {
+    await expect(readSource()).resolves.toBe('replica-1');
+    await expect(readSource()).resolves.toBe('replica-2');
+    await expect(readSource()).resolves.toBe('replica-1');
+
+    await database.execute('INSERT INTO nodes (source) VALUES (?)', ['written']);
+
+    await expect(primary.query('SELECT COUNT(*) AS count FROM nodes')).resolves.toEqual([{ count: 2 }]);
+    await expect(replicas[0].query('SELECT COUNT(*) AS count FROM nodes')).resolves.toEqual([{ count: 1 }]);
+    expect(database.getProvider()).toBe(primary);
+  });
+
+  it('should keep reads on the primary after a write in the same session', async () => {
+    const sources = await runInDatabaseSession(async () => {
+      const before = await readSource();
+      await database.getBuilder().from('nodes').insert({ source: 'written' });
+      return [before, await readSource(), await readSource()];
+    });
+
+    expect(sources).toEqual(['replica-1', 'primary', 'primary']);
+    await expect(readSource()).resolves.toBe('replica-2');
+  });
+
+  it('should keep reads on the primary while a transaction runs', async () => {
+    const inside = await database.transaction(async () => readSource());
+
+    expect(inside).toBe('primary');
+    await expect(readSource()).resolves.toBe('replica-1');
+  });
+
+  it('should fail over from replicas that stop answering', async () => {
+    await replicas[0].disconnect();
+
+    await expect(readSource()).resolves.toBe('replica-2');
+    expect(database.getReplicationRouter()!.getHealthyReplicas()).toEqual([replicas[1]]);
+
+    await replicas[1].disconnect();
+    await expect(readSource()).resolves.toBe('primary');
+
+    await replicas[0].connect(memory('replica-1'));
+    await seed(replicas[0], 'replica-1');
+    await database.getReplicationRouter()!.checkHealth();
+    await expect(readSource()).resolves.toBe('replica-1');
+  });
+
+  it('should surface query errors of healthy replicas', async () => {
+    await expect(database.query('SELECT * FROM missing')).rejects.toThrow('no such table: missing');
+    expect(database.getReplicationRouter()!.getHealthyReplicas()).toHaveLength(2);
+  });
+
+  it('should give each request its own session', async () => {
+    const app = express();
+    app.use(databaseSession());
+    app.post('/nodes', async (req, res) => {
+      await database.execute('INSERT INTO nodes (source) VALUES (?)', ['request']);
+      res.json({ source: await readSource() });
+    });
+    app.get('/nodes', async (req, res) => {
+      res.json({ source: await readSource() });
+    });
+
+    await request(app).post('/nodes').expect(200, { source: 'primary' });
+    await request(app).get('/nodes').expect(200, { source: 'replica-1' });
+  });
+
+  it('should give each request of a server its own session without the middleware', async () => {
+    const server = new FoxServer({ port: 0, env: 'test', jsonSpaces: 2, staticFolder: 'public' });
+    server.create();
+    server.post('/nodes', async (req: express.Request, res: express.Response) => {
+      await database.execute('INSERT INTO nodes (source) VALUES (?)', ['request']);
+      res.json({ source: await readSource() });
+    });
+
+    await request(server.getApp()).post('/nodes').expect(200, { source: 'primary' });
+    await expect(readSource()).resolves.toBe('replica-1');
+  });
+});
+
+describe('FoxDatabase with SQLite replicas', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-replicas-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read writes of the primary through read-only replicas', async () => {
+    const file = path.join(directory, 'app.db');
+    const setup = new FoxDatabase({ provider: 'sqlite', database: file });
+    await setup.connect();
+    await setup.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)');
+    await setup.disconnect();
+
+    const replica: DatabaseConfig = { provider: 'sqlite', database: file, options: { readonly: true, fileMustExist: true } };
+    const database = new FoxDatabase({
+      provider: 'sqlite',
+      database: file,
+      replication: { master: { provider: 'sqlite', database: file }, slaves: [replica], loadBalancing: 'least-connections' }
+    });
+    await database.connect();
+
+    await database.execute('INSERT INTO notes (body) VALUES (?)', ['Hello']);
+    await expect(database.query('SELECT body FROM notes')).resolves.toEqual([{ body: 'Hello' }]);
+
+    const [replicaProvider] = database.getReplicationRouter()!.getReplicas();
+    expect(replicaProvider.getMetadata().metrics.queriesExecuted).toBe(1);
+    await expect(replicaProvider.execute('DELETE FROM notes')).rejects.toMatchObject({ code: 'SQLITE_READONLY' });
+
+    await database.disconnect();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Sharding tests, run against memory shards
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import { FoxDatabase } from '../database.factory';
+import { ShardRouter, hashKey } from '../core/shard.router';
+import { DatabaseConfig, DatabaseInterface, ShardingConfig } from '../interfaces';
+
+const memory = (name: string): DatabaseConfig => ({ provider: 'memory', database: name });
+
+describe('hashKey', () => {
+  it('should compute the standard hashes', () => {
+    expect(hashKey('123456789', 'crc32')).toBe(0xcbf43926);
+    expect(hashKey('', 'murmur3')).toBe(0);
+    expect(hashKey('hello', 'murmur3')).toBe(0x248bfa47);
+    expect(hashKey('abc', 'md5')).toBe(0x90015098);
+    expect(() => hashKey('abc', 'fnv' as any)).toThrow('Unsupported hash function: fnv');
+  });
+});
+
+describe('ShardRouter', () => {
+  const create = (config: ShardingConfig) => new ShardRouter(config, shard => ({ name: shard.database } as unknown as DatabaseInterface));
+
+  it('should route keys by range', () => {
+    const router = create({
+      strategy: 'range',
+      shardKey: 'user_id',
+      shards: [
+        { name: 'low', config: memory('low'), range: { start: null, end: 1000 } },
+        { name: 'high', config: memory('high'), range: { start: 1000, end: 2000 } }
+      ]
+    });
+
+    expect(router.getShardName(5)).toBe('low');
+    expect(router.getShardName(1000)).toBe('high');
+    expect(() => router.getShardName(2000)).toThrow('No shard holds user_id 2000');
+    expect(() => router.getShardName(undefined)).toThrow("A value of the shard key 'user_id' is required");
+  });
+
+  it('should route keys by hash', () => {
+    const shards = ['a', 'b', 'c'].map(name => ({ name, config: memory(name) }));
+    const router = create({ strategy: 'hash', shardKey: 'id', hashFunction: 'crc32', shards });
+
+    expect(router.getShardName('123456789')).toBe(shards[0xcbf43926 % 3].name);
+    const used = new Set(Array.from({ length: 60 }, (_, index) => router.getShardName(index)));
+    expect(used).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  it('should move few keys when a shard joins the ring', () => {
+    const shards = ['a', 'b', 'c'].map(name => ({ name, config: memory(name) }));
+    const before = create({ strategy: 'consistent-hash', shardKey: 'id', shards });
+    const after = create({ strategy: 'consistent-hash', shardKey: 'id', shards: [...shards, { name: 'd', config: memory('d') }] });
+
+    const keys = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+    const moved = keys.filter(key => before.getShardName(key) !== after.getShardName(key));
+
+    expect(moved.length).toBeGreaterThan(100);
+    expect(moved.length).toBeLessThan(400);
+    expect(moved.every(key => after.getShardName(key) === 'd')).toBe(true);
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() => create({ strategy: 'hash', shardKey: 'id', shards: [] })).toThrow('Sharding requires at least one shard');
+    expect(() => create({ strategy: 'directory', shardKey: 'id', shards: [{ name: 'a', config: memory('a') }] }))
+      .toThrow("Sharding strategy 'directory' is not supported");
+    expect(() => create({ strategy: 'range', shardKey: 'id', shards: [{ name: 'a', config: memory('a') }] }))
+      .toThrow('Shard a needs a range');
+    expect(() => create({
+      strategy: 'hash',
+      shardKey: 'id',
+      shards: [{ name: 'a', config: memory('a') }, { name: 'a', config: memory('b') }]
+    })).toThrow('Duplicate shard name: a');
+  });
+});
+
+describe('FoxDatabase with shards', () => {
+  let database: FoxDatabase;
+
+  beforeEach(async () => {
+    database = new FoxDatabase({
+      provider: 'memory',
+      database: 'app',
+      sharding: {
+        strategy: 'range',
+        shardKey: 'tenant_id',
+        shards: [
+          { name: 'eu', config: memory('eu'), range: { start: 0, end: 100 } },
+          { name: 'us', config: memory('us'), range: { start: 100, end: 200 } }
+        ]
+      }
+    });
+    await database.connect();
+    await database.getShardRouter()!.broadcast('CREATE TABLE orders (id INTEGER PRIMARY KEY, tenant_id INTEGER NOT NULL, total INTEGER)');
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  it('should write to the shard of the key and gather reads from all shards', async () => {
+    for (const [tenant, total] of [[1, 10], [150, 20], [2, 30]]) {
+      await database.shard(tenant).getBuilder().from('orders').insert({ tenant_id: tenant, total });
+    }
+
+    await expect(database.shard(150).query('SELECT tenant_id FROM orders')).resolves.toEqual([{ tenant_id: 150 }]);
+    await expect(database.query('SELECT tenant_id, total FROM orders WHERE total >= ? ORDER BY total', [20])).resolves.toEqual([
+      { tenant_id: 2, total: 30 },
+      { tenant_id: 150, total: 20 }
+    ]);
+  });
+
+  it('should require a shard key for writes and transactions', async () => {
+    await expect(database.execute('INSERT INTO orders (tenant_id) VALUES (1)')).rejects.toThrow('Writes on a sharded database need a shard key');
+    await expect(database.transaction(async () => undefined)).rejects.toThrow('use shard(key).transaction()');
+    await expect(database.shard(1).transaction(tx => tx.execute('INSERT INTO orders (tenant_id) VALUES (1)')))
+      .resolves.toMatchObject({ rowCount: 1 });
+  });
+
+  it('should report the state of all shards', async () => {
+    await expect(database.ping()).resolves.toBe(true);
+    expect(database.getProvider()).toBeNull();
+    expect(database.getShardRouter()!.getShardNames()).toEqual(['eu', 'us']);
+
+    await database.shard(150).disconnect();
+
+    await expect(database.ping()).resolves.toBe(false);
+  });
+});
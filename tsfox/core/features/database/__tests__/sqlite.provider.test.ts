@@ -0,0 +1,294 @@
+/**
+ * @fileoverview SQLite provider tests, run against the embedded engine
+ * @module tsfox/core/features/database/__tests__
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FoxDatabase } from '../database.factory';
+import { ModelSchema } from '../interfaces';
+import { MigrationRunner } from '../migrations';
+import { SQLiteProvider, SQLITE_MEMORY } from '../providers';
+
+describe('SQLiteProvider', () => {
+  let provider: SQLiteProvider;
+
+  beforeEach(async () => {
+    provider = new SQLiteProvider();
+    await provider.connect({ provider: 'sqlite', database: SQLITE_MEMORY });
+    await provider.exec(`
+      CREATE TABLE authors (id INTEGER PRIMARY KEY AUTOINCREMENT, name VARCHAR(100) NOT NULL UNIQUE);
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        author_id INTEGER NOT NULL REFERENCES authors (id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        published BOOLEAN DEFAULT 0,
+        meta JSON
+      );
+      CREATE INDEX posts_author ON posts (author_id, published);
+    `);
+  });
+
+  afterEach(async () => {
+    await provider.close();
+  });
+
+  it('should run statements with parameters', async () => {
+    const result = await provider.execute('INSERT INTO authors (name) VALUES (?)', ['Ada']);
+    expect(result).toMatchObject({ rowCount: 1, insertId: 1 });
+
+    await provider.execute(
+      'INSERT INTO posts (author_id, title, published, meta) VALUES (?, ?, ?, ?)',
+      [1, 'Hello', true, { tags: ['intro'] }]
+    );
+
+    await expect(provider.query('SELECT title, published, meta FROM posts WHERE author_id = ?', [1])).resolves.toEqual([
+      { title: 'Hello', published: 1, meta: '{"tags":["intro"]}' }
+    ]);
+  });
+
+  it('should return rows of statements with RETURNING', async () => {
+    const result = await provider.execute('INSERT INTO authors (name) VALUES (?), (?) RETURNING id, name', ['Ada', 'Grace']);
+
+    expect(result.rows).toEqual([{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }]);
+    expect(result.rowCount).toBe(2);
+  });
+
+  it('should reuse prepared statements', async () => {
+    const insert = provider.prepare('INSERT INTO authors (name) VALUES (?)');
+    for (const name of ['Ada', 'Grace', 'Barbara']) {
+      await insert.execute([name]);
+    }
+
+    const byName = provider.prepare<{ id: number }>('SELECT id FROM authors WHERE name = ?');
+    await expect(byName.query(['Grace'])).resolves.toEqual([{ id: 2 }]);
+    expect(provider.getMetadata().metrics.queriesExecuted).toBeGreaterThanOrEqual(4);
+  });
+
+  it('should surface constraint errors', async () => {
+    await provider.execute('INSERT INTO authors (name) VALUES (?)', ['Ada']);
+
+    // Driver errors are matched by code: the driver's error class comes from the first test file loading it
+    await expect(provider.execute('INSERT INTO authors (name) VALUES (?)', ['Ada'])).rejects.toMatchObject({
+      code: 'SQLITE_CONSTRAINT_UNIQUE',
+      message: expect.stringMatching(/UNIQUE constraint failed/)
+    });
+    await expect(provider.execute('INSERT INTO posts (author_id, title) VALUES (?, ?)', [99, 'Orphan'])).rejects.toMatchObject({
+      code: 'SQLITE_CONSTRAINT_FOREIGNKEY'
+    });
+  });
+
+  it('should commit and roll back transactions', async () => {
+    const committed = await provider.beginTransaction();
+    await committed.execute('INSERT INTO authors (name) VALUES (?)', ['Ada']);
+    await committed.commit();
+
+    const rolledBack = await provider.beginTransaction();
+    await rolledBack.getBuilder().from('authors').insert({ name: 'Grace' });
+    await rolledBack.rollback();
+
+    await expect(provider.query('SELECT name FROM authors')).resolves.toEqual([{ name: 'Ada' }]);
+    expect(rolledBack.isActive()).toBe(false);
+    await expect(rolledBack.query('SELECT 1')).rejects.toThrow(`Transaction ${rolledBack.getId()} is no longer active`);
+  });
+
+  it('should run transactions one after another', async () => {
+    const first = await provider.beginTransaction();
+    const second = provider.beginTransaction();
+    const order: string[] = [];
+
+    second.then(() => order.push('second began'));
+    await first.execute('INSERT INTO authors (name) VALUES (?)', ['Ada']);
+    order.push('first committing');
+    await first.commit();
+
+    const tx = await second;
+    await tx.execute('INSERT INTO authors (name) VALUES (?)', ['Grace']);
+    await tx.commit();
+
+    expect(order).toEqual(['first committing', 'second began']);
+    await expect(provider.query('SELECT COUNT(*) AS count FROM authors')).resolves.toEqual([{ count: 2 }]);
+  });
+
+  it('should run statements issued outside an open transaction after it', async () => {
+    const transaction = await provider.beginTransaction();
+    await transaction.execute('INSERT INTO authors (name) VALUES (?)', ['Ada']);
+
+    const outside = provider.execute('INSERT INTO authors (name) VALUES (?)', ['Grace']);
+    await transaction.rollback();
+    await outside;
+
+    await expect(provider.query('SELECT name FROM authors')).resolves.toEqual([{ name: 'Grace' }]);
+  });
+
+  it('should describe tables, indexes and foreign keys', async () => {
+    await expect(provider.getTables()).resolves.toEqual(['authors', 'posts']);
+
+    const schema = await provider.getTableSchema('posts');
+
+    expect(schema.primaryKey).toEqual(['id']);
+    expect(schema.columns.map(column => [column.name, column.type, column.nullable])).toEqual([
+      ['id', 'integer', false],
+      ['author_id', 'integer', false],
+      ['title', 'text', false],
+      ['published', 'boolean', true],
+      ['meta', 'json', true]
+    ]);
+    expect(schema.columns[3].defaultValue).toBe('0');
+    expect(schema.indexes).toEqual([
+      expect.objectContaining({ name: 'posts_author', columns: ['author_id', 'published'], unique: false })
+    ]);
+    expect(schema.foreignKeys).toEqual([
+      expect.objectContaining({
+        columns: ['author_id'],
+        referencedTable: 'authors',
+        referencedColumns: ['id'],
+        onDelete: 'cascade',
+        onUpdate: 'no action'
+      })
+    ]);
+
+    const authors = await provider.getTableSchema('authors');
+    expect(authors.columns[1]).toMatchObject({ name: 'name', type: 'string', unique: true });
+    await expect(provider.getTableSchema('missing')).rejects.toThrow("Table 'missing' does not exist");
+  });
+
+  it('should create and alter tables from definitions', async () => {
+    await provider.createTable({
+      name: 'comments',
+      columns: [
+        { name: 'id', type: 'integer', primaryKey: true, autoIncrement: true },
+        { name: 'post_id', type: 'integer', nullable: false },
+        { name: 'body', type: 'text', nullable: false },
+        { name: 'created_at', type: 'datetime', defaultValue: 'CURRENT_TIMESTAMP' }
+      ],
+      foreignKeys: [{ name: 'comments_post', columns: ['post_id'], referencedTable: 'posts', referencedColumns: ['id'], onDelete: 'cascade' }],
+      indexes: [{ name: 'comments_post_index', fields: ['post_id'] }]
+    });
+    await provider.alterTable('comments', [
+      { type: 'add_column', definition: { name: 'approved', type: 'boolean', defaultValue: false } },
+      { type: 'rename_column', column: 'body', newName: 'content' }
+    ]);
+
+    const schema = await provider.getTableSchema('comments');
+
+    expect(schema.columns.map(column => column.name)).toEqual(['id', 'post_id', 'content', 'created_at', 'approved']);
+    expect(schema.columns[0]).toMatchObject({ primaryKey: true, autoIncrement: true });
+    expect(schema.indexes.map(index => index.name)).toEqual(['comments_post_index']);
+    expect(schema.foreignKeys[0]).toMatchObject({ referencedTable: 'posts', onDelete: 'cascade' });
+
+    await expect(provider.alterTable('comments', [{ type: 'modify_column', column: 'content' }]))
+      .rejects.toThrow("SQLite does not support 'modify_column'");
+    await provider.dropTable('comments');
+    await expect(provider.getTables()).resolves.toEqual(['authors', 'posts']);
+  });
+
+  it('should report its state', async () => {
+    expect(provider.getInfo().databaseVersion).toMatch(/^3\.\d+/);
+    expect(provider.getCapabilities()).toMatchObject({ transactions: true, preparedStatements: true, foreignKeys: true });
+    await expect(provider.ping()).resolves.toBe(true);
+
+    await provider.close();
+
+    await expect(provider.ping()).resolves.toBe(false);
+    await expect(provider.query('SELECT 1')).rejects.toThrow('SQLite database is not connected');
+  });
+});
+
+describe('FoxDatabase with SQLite', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-sqlite-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist data in a database file', async () => {
+    const file = path.join(directory, 'app.db');
+    const database = new FoxDatabase({ provider: 'sqlite', database: file });
+    await database.connect();
+    await database.execute('CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT)');
+    await database.execute('INSERT INTO settings (key, value) VALUES (?, ?)', ['theme', 'dark']);
+    await database.disconnect();
+
+    const reopened = new FoxDatabase({ provider: 'sqlite', database: file, options: { fileMustExist: true } });
+    await reopened.connect();
+    await expect(reopened.query('SELECT value FROM settings WHERE key = ?', ['theme'])).resolves.toEqual([{ value: 'dark' }]);
+    await reopened.disconnect();
+  });
+
+  it('should roll back failed transactions', async () => {
+    const database = new FoxDatabase({ provider: 'sqlite', database: SQLITE_MEMORY });
+    await database.connect();
+    await database.execute('CREATE TABLE accounts (id INTEGER PRIMARY KEY, balance INTEGER NOT NULL CHECK (balance >= 0))');
+    await database.execute('INSERT INTO accounts (id, balance) VALUES (1, 100), (2, 0)');
+
+    await expect(database.transaction(async tx => {
+      await tx.execute('UPDATE accounts SET balance = balance + 150 WHERE id = 2');
+      await tx.execute('UPDATE accounts SET balance = balance - 150 WHERE id = 1');
+    })).rejects.toMatchObject({ code: 'SQLITE_CONSTRAINT_CHECK' });
+
+    await expect(database.query('SELECT id, balance FROM accounts ORDER BY id')).resolves.toEqual([
+      { id: 1, balance: 100 },
+      { id: 2, balance: 0 }
+    ]);
+    await database.disconnect();
+  });
+
+  it('should join the transaction from its callback and reject nested ones', async () => {
+    const database = new FoxDatabase({ provider: 'sqlite', database: SQLITE_MEMORY });
+    await database.connect();
+    await database.execute('CREATE TABLE notes (body TEXT NOT NULL)');
+
+    await expect(database.transaction(async tx => {
+      await tx.execute('INSERT INTO notes (body) VALUES (?)', ['first']);
+      await expect(database.query('SELECT COUNT(*) AS count FROM notes')).resolves.toEqual([{ count: 1 }]);
+      await database.transaction(async () => undefined);
+    })).rejects.toThrow('Nested transactions are not supported');
+
+    await expect(database.query('SELECT COUNT(*) AS count FROM notes')).resolves.toEqual([{ count: 0 }]);
+    await database.disconnect();
+  });
+
+  it('should run migrations and models against the database', async () => {
+    const database = new FoxDatabase({ provider: 'sqlite', database: SQLITE_MEMORY });
+    await database.connect();
+
+    await new MigrationRunner(database).migrate([{
+      id: '20240101000000_create_tasks',
+      name: 'create_tasks',
+      version: '20240101000000',
+      up: async db => {
+        await db.execute('CREATE TABLE tasks (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, done BOOLEAN NOT NULL DEFAULT 0)');
+      },
+      down: async db => {
+        await db.execute('DROP TABLE tasks');
+      }
+    }]);
+
+    const schema: ModelSchema = {
+      version: '1',
+      validation: [],
+      options: {},
+      fields: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'done', type: 'boolean', metadata: { default: false } }
+      ]
+    };
+    const tasks = database.defineModel<{ id: number; title: string; done: boolean }>({ name: 'Task', schema });
+
+    const created = await tasks.create({ title: 'Write tests' });
+    await tasks.create({ title: 'Ship it', done: true });
+
+    expect(created.id).toBe(1);
+    await expect(tasks.count()).resolves.toBe(2);
+    const pending = await tasks.where({ done: false }).get();
+    expect(pending.map(task => task.toObject())).toEqual([{ id: 1, title: 'Write tests', done: false }]);
+
+    await database.disconnect();
+  });
+});
@@ -14,6 +14,7 @@ import {
   ConnectionMetadata,
   DatabaseInterface
 } from '../interfaces';
+import { QueryInstrumentation } from './query.instrumentation';
 
 /**
  * Database connection implementation
@@ -23,6 +24,7 @@ export class DatabaseConnection implements ConnectionInterface {
   private readonly metadata: ConnectionMetadata;
   private isActiveFlag: boolean = false;
   private queryCount: number = 0;
+  private instrumentation?: QueryInstrumentation;
 
   constructor(
     private config: DatabaseConfig,
@@ -47,6 +49,9 @@ export class DatabaseConnection implements ConnectionInterface {
 
     try {
       // TODO: Implement actual query execution based on provider
+      if (this.instrumentation) {
+        return await this.instrumentation.query(sql, params, () => this.executeNativeQuery<T>(sql, params));
+      }
       return await this.executeNativeQuery<T>(sql, params);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -64,6 +69,9 @@ export class DatabaseConnection implements ConnectionInterface {
 
     try {
       // TODO: Implement actual command execution based on provider
+      if (this.instrumentation) {
+        return await this.instrumentation.execute(sql, params, () => this.executeNativeCommand(sql, params));
+      }
       return await this.executeNativeCommand(sql, params);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -183,6 +191,13 @@ export class DatabaseConnection implements ConnectionInterface {
     };
   }
 
+  /**
+   * Record the statements of this connection with an instrumentation
+   */
+  setInstrumentation(instrumentation?: QueryInstrumentation): void {
+    this.instrumentation = instrumentation;
+  }
+
   /**
    * Set connection as active
    */
@@ -327,7 +342,8 @@ export class ConnectionPool implements ConnectionPoolInterface {
 
   constructor(
     private config: PoolConfig,
-    private connectionFactory: (config: DatabaseConfig) => Promise<DatabaseConnection>
+    private connectionFactory: (config: DatabaseConfig) => Promise<DatabaseConnection>,
+    private instrumentation?: QueryInstrumentation
   ) {
     this.initializePool();
   }
@@ -483,6 +499,9 @@ export class ConnectionPool implements ConnectionPoolInterface {
       // TODO: Get actual database config
       const dbConfig: DatabaseConfig = { provider: 'memory', database: 'test' };
       const connection = await this.connectionFactory(dbConfig);
+      if (this.instrumentation) {
+        connection.setInstrumentation(this.instrumentation);
+      }
       
       this.connections.set(connection.getId(), connection);
       this.stats.created++;
@@ -584,6 +603,11 @@ export class ConnectionManager {
   private pools: Map<string, ConnectionPool> = new Map();
   private connections: Map<string, DatabaseConnection> = new Map();
 
+  /**
+   * Statements of the connections created are recorded with the instrumentation, if any
+   */
+  constructor(private instrumentation?: QueryInstrumentation) {}
+
   /**
    * Create connection pool
    */
@@ -604,7 +628,7 @@ export class ConnectionManager {
       createTimeoutMillis: 30000
     };
 
-    const pool = new ConnectionPool(poolConfig, connectionFactory);
+    const pool = new ConnectionPool(poolConfig, connectionFactory, this.instrumentation);
     this.pools.set(name, pool);
     
     return pool;
@@ -629,6 +653,9 @@ export class ConnectionManager {
     connectionFactory: (config: DatabaseConfig) => Promise<DatabaseConnection>
   ): Promise<DatabaseConnection> {
     const connection = await connectionFactory(config);
+    if (this.instrumentation) {
+      connection.setInstrumentation(this.instrumentation);
+    }
     this.connections.set(connection.getId(), connection);
     return connection;
   }
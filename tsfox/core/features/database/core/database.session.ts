@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Database sessions: state shared by the statements of one request or unit of work
+ * @module tsfox/core/features/database/core
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * State of one request or unit of work
+ */
+export interface DatabaseSession {
+  /** Replicated databases written to in this session: later reads stay on their primary */
+  written: Set<object>;
+
+  /** Replicated databases with a transaction open in this async context */
+  pinned: Set<object>;
+
+  /** Number of statements run in this session, by fingerprint */
+  queries: Map<string, number>;
+
+  /** Fingerprints already reported as N+1 queries in this session */
+  flagged: Set<string>;
+}
+
+/** Session of the current async context, used by the routers (applications use `runInDatabaseSession`) */
+export const sessions = new AsyncLocalStorage<DatabaseSession>();
+
+/** Replicated databases currently connected, whose reads depend on the session */
+export const replicatedDatabases = new Set<object>();
+
+/**
+ * Create the state of a new session
+ */
+export function createDatabaseSession(): DatabaseSession {
+  return { written: new Set(), pinned: new Set(), queries: new Map(), flagged: new Set() };
+}
+
+/**
+ * Run a unit of work in a database session. Once a statement writes through a
+ * replicated database in the session, later reads of the session go to its primary,
+ * so they see the write even when replicas lag behind. Repeated statements of the
+ * session are reported as N+1 queries.
+ */
+export function runInDatabaseSession<T>(callback: () => T): T {
+  return sessions.run(createDatabaseSession(), callback);
+}
+
+/**
+ * Get the session of the current async context, if any
+ */
+export function getDatabaseSession(): DatabaseSession | undefined {
+  return sessions.getStore();
+}
+
+/**
+ * Middleware giving each request its own database session
+ */
+export function databaseSession(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    runInDatabaseSession(() => next());
+  };
+}
+
+/**
+ * Middleware giving each request its own database session while a replicated
+ * database is connected, unless the request already has one. FoxServer installs it,
+ * so reads after a write in a request stay on the primary without `databaseSession()`.
+ */
+export function replicationSession(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (replicatedDatabases.size === 0 || sessions.getStore()) {
+      return next();
+    }
+    runInDatabaseSession(() => next());
+  };
+}
@@ -14,32 +14,54 @@ import {
   WhereOperator,
   LogicalOperator,
   DatabaseInterface,
-  QueryResult
+  NoSqlCommand,
+  QueryResult,
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions
 } from '../interfaces';
+import { RawSql, SqlCompiler, SqlDialect, SqlDialectName, SqlReference, getDialect, raw } from './sql.dialect';
 
 /**
- * SQL Query Builder implementation
+ * Connection a builder runs its queries on: a database or a transaction
+ */
+export type QueryExecutor = Pick<DatabaseInterface, 'query' | 'execute'>;
+
+/**
+ * SQL Query Builder implementation.
+ *
+ * Writes SQL for a dialect (see `sql.dialect.ts`): placeholders are numbered for
+ * PostgreSQL and identifiers quoted, except in the `generic` dialect. Values always go
+ * to parameters; `raw()` fragments and subqueries are embedded with their parameters.
  */
 export class SqlQueryBuilder implements QueryBuilderInterface {
-  private selectColumns: string[] = ['*'];
+  private selectColumns: SqlReference[] = ['*'];
   private fromTable: string = '';
-  private whereConditions: WhereClause[] = [];
+  private fromQuery?: SqlQueryBuilder;
+  private whereConditions: ConditionNode[] = [];
   private joinClauses: JoinClause[] = [];
-  private groupByColumns: string[] = [];
-  private havingConditions: WhereClause[] = [];
+  private groupByColumns: SqlReference[] = [];
+  private havingConditions: ConditionNode[] = [];
   private orderByColumns: OrderClause[] = [];
   private limitCount?: number;
   private offsetCount?: number;
-  private insertData?: Record<string, any>;
+  private commonTables: CommonTable[] = [];
+  private unions: Array<{ all: boolean; query: SqlQueryBuilder }> = [];
+  private returningColumns: SqlReference[] = [];
+  private insertRows?: Record<string, any>[];
+  private conflict?: ConflictClause;
   private updateData?: Record<string, any>;
   private queryType: QueryType = 'SELECT';
+  private readonly dialect: SqlDialect;
 
-  constructor(private database: DatabaseInterface) {}
+  constructor(private database: QueryExecutor, dialect: SqlDialect | SqlDialectName = 'generic') {
+    this.dialect = typeof dialect === 'string' ? getDialect(dialect) : dialect;
+  }
 
   /**
-   * SELECT clause
+   * SELECT clause. Columns are references, optionally aliased; expressions are written with `raw()`.
    */
-  select(columns?: string[]): this {
+  select(columns?: SqlReference[]): this {
     this.queryType = 'SELECT';
     if (columns && columns.length > 0) {
       this.selectColumns = columns;
@@ -48,40 +70,116 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
   }
 
   /**
-   * FROM clause
+   * FROM clause: a table, or a subquery with an alias
    */
-  from(table: string): this {
-    this.fromTable = table;
+  from(table: string | SqlQueryBuilder, alias?: string): this {
+    if (table instanceof SqlQueryBuilder) {
+      if (!alias) {
+        throw new Error('A subquery in FROM requires an alias');
+      }
+      this.fromQuery = table;
+      this.fromTable = alias;
+    } else {
+      this.fromQuery = undefined;
+      this.fromTable = alias ? `${table} ${alias}` : table;
+    }
     return this;
   }
 
   /**
-   * WHERE clause
+   * WHERE clause. Objects may have several keys; array values become `IN`, `null`
+   * becomes `IS NULL` and query builders become subqueries. A callback adds a
+   * parenthesized group of conditions.
    */
-  where(condition: WhereCondition): this {
-    const clause = this.parseWhereCondition(condition);
-    clause.connector = 'AND';
-    this.whereConditions.push(clause);
+  where(condition: SqlCondition): this {
+    this.addCondition(this.whereConditions, 'AND', condition);
     return this;
   }
 
   /**
    * AND WHERE clause
    */
-  andWhere(condition: WhereCondition): this {
-    const clause = this.parseWhereCondition(condition);
-    clause.connector = 'AND';
-    this.whereConditions.push(clause);
-    return this;
+  andWhere(condition: SqlCondition): this {
+    return this.where(condition);
   }
 
   /**
    * OR WHERE clause
    */
-  orWhere(condition: WhereCondition): this {
-    const clause = this.parseWhereCondition(condition);
-    clause.connector = 'OR';
-    this.whereConditions.push(clause);
+  orWhere(condition: SqlCondition): this {
+    this.addCondition(this.whereConditions, 'OR', condition);
+    return this;
+  }
+
+  /**
+   * WHERE column IN a list of values or a subquery. An empty list matches no rows.
+   */
+  whereIn(column: string, values: any[] | SqlQueryBuilder): this {
+    return this.where({ column, operator: 'IN', value: values });
+  }
+
+  /**
+   * OR WHERE column IN a list of values or a subquery
+   */
+  orWhereIn(column: string, values: any[] | SqlQueryBuilder): this {
+    return this.orWhere({ column, operator: 'IN', value: values });
+  }
+
+  /**
+   * WHERE column NOT IN a list of values or a subquery. An empty list matches all rows.
+   */
+  whereNotIn(column: string, values: any[] | SqlQueryBuilder): this {
+    return this.where({ column, operator: 'NOT IN', value: values });
+  }
+
+  /**
+   * WHERE column IS NULL
+   */
+  whereNull(column: string): this {
+    return this.where({ column, operator: 'IS NULL', value: null });
+  }
+
+  /**
+   * OR WHERE column IS NULL
+   */
+  orWhereNull(column: string): this {
+    return this.orWhere({ column, operator: 'IS NULL', value: null });
+  }
+
+  /**
+   * WHERE column IS NOT NULL
+   */
+  whereNotNull(column: string): this {
+    return this.where({ column, operator: 'IS NOT NULL', value: null });
+  }
+
+  /**
+   * WHERE column BETWEEN two values
+   */
+  whereBetween(column: string, range: [any, any]): this {
+    return this.where({ column, operator: 'BETWEEN', value: range });
+  }
+
+  /**
+   * WHERE column NOT BETWEEN two values
+   */
+  whereNotBetween(column: string, range: [any, any]): this {
+    return this.where({ column, operator: 'NOT BETWEEN', value: range });
+  }
+
+  /**
+   * WHERE EXISTS (subquery)
+   */
+  whereExists(query: SqlQueryBuilder): this {
+    this.whereConditions.push({ kind: 'exists', connector: 'AND', not: false, query });
+    return this;
+  }
+
+  /**
+   * WHERE NOT EXISTS (subquery)
+   */
+  whereNotExists(query: SqlQueryBuilder): this {
+    this.whereConditions.push({ kind: 'exists', connector: 'AND', not: true, query });
     return this;
   }
 
@@ -121,7 +219,7 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
   /**
    * GROUP BY clause
    */
-  groupBy(columns: string[]): this {
+  groupBy(columns: SqlReference[]): this {
     this.groupByColumns = columns;
     return this;
   }
@@ -129,16 +227,15 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
   /**
    * HAVING clause
    */
-  having(condition: WhereCondition): this {
-    const clause = this.parseWhereCondition(condition);
-    this.havingConditions.push(clause);
+  having(condition: SqlCondition): this {
+    this.addCondition(this.havingConditions, 'AND', condition);
     return this;
   }
 
   /**
    * ORDER BY clause
    */
-  orderBy(column: string, direction: OrderDirection = 'ASC'): this {
+  orderBy(column: SqlReference, direction: OrderDirection = 'ASC'): this {
     this.orderByColumns.push({ column, direction });
     return this;
   }
@@ -159,28 +256,140 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
     return this;
   }
 
+  /**
+   * Limit and offset of a page, counted from 1
+   */
+  forPage(page: number, perPage: number): this {
+    if (!Number.isInteger(page) || !Number.isInteger(perPage) || page < 1 || perPage < 1) {
+      throw new Error('Page and page size must be positive integers');
+    }
+    return this.limit(perPage).offset((page - 1) * perPage);
+  }
+
+  /**
+   * WITH clause: a common table expression the query can select from
+   */
+  with(name: string, query: SqlQueryBuilder | RawSql, columns?: string[]): this {
+    this.commonTables.push({ name, query, columns, recursive: false });
+    return this;
+  }
+
+  /**
+   * WITH RECURSIVE clause. The query is usually an anchor query with a `unionAll`
+   * of a query selecting from `name`.
+   */
+  withRecursive(name: string, query: SqlQueryBuilder | RawSql, columns?: string[]): this {
+    this.commonTables.push({ name, query, columns, recursive: true });
+    return this;
+  }
+
+  /**
+   * UNION with another query, removing duplicate rows. ORDER BY, LIMIT and OFFSET of
+   * this builder apply to the combined rows.
+   */
+  union(query: SqlQueryBuilder): this {
+    this.unions.push({ all: false, query });
+    return this;
+  }
+
+  /**
+   * UNION ALL with another query
+   */
+  unionAll(query: SqlQueryBuilder): this {
+    this.unions.push({ all: true, query });
+    return this;
+  }
+
+  /**
+   * RETURNING clause of INSERT, UPDATE and DELETE; the rows come back in `QueryResult.rows`
+   */
+  returning(columns: SqlReference[]): this {
+    this.returningColumns = columns;
+    return this;
+  }
+
   /**
    * Build query without executing
    */
   build(): QueryData {
-    const { sql, params } = this.buildQuery();
+    const compiler = new SqlCompiler(this.dialect);
+    let sql: string;
+
+    switch (this.queryType) {
+      case 'SELECT':
+        sql = this.compileSelect(compiler);
+        break;
+      case 'INSERT':
+        sql = this.compileInsert(compiler);
+        break;
+      case 'UPDATE':
+        sql = this.compileUpdate(compiler);
+        break;
+      case 'DELETE':
+        sql = this.compileDelete(compiler);
+        break;
+      default:
+        throw new Error(`Unsupported query type: ${this.queryType}`);
+    }
+
     return {
       sql,
-      params,
+      params: compiler.params,
       type: this.queryType,
       metadata: {
         table: this.fromTable,
         joins: this.joinClauses.length,
-        conditions: this.whereConditions.length
+        conditions: this.whereConditions.length,
+        dialect: this.dialect.name
       }
     };
   }
 
+  /**
+   * Build an INSERT of one or more rows without executing
+   */
+  buildInsert(data: Record<string, any> | Record<string, any>[]): QueryData {
+    this.queryType = 'INSERT';
+    this.insertRows = Array.isArray(data) ? data : [data];
+    this.conflict = undefined;
+    return this.build();
+  }
+
+  /**
+   * Build an upsert without executing: rows conflicting on `conflictColumns` update
+   * `updateColumns` (by default all inserted columns but the conflict columns) to the
+   * inserted values. With no columns to update, conflicting rows are skipped.
+   */
+  buildUpsert(data: Record<string, any> | Record<string, any>[], conflictColumns: string[], updateColumns?: string[]): QueryData {
+    this.queryType = 'INSERT';
+    this.insertRows = Array.isArray(data) ? data : [data];
+    const columns = updateColumns || Object.keys(this.insertRows[0] || {}).filter(column => !conflictColumns.includes(column));
+    this.conflict = { columns: conflictColumns, update: columns };
+    return this.build();
+  }
+
+  /**
+   * Build an UPDATE without executing
+   */
+  buildUpdate(data: Record<string, any>): QueryData {
+    this.queryType = 'UPDATE';
+    this.updateData = data;
+    return this.build();
+  }
+
+  /**
+   * Build a DELETE without executing
+   */
+  buildDelete(): QueryData {
+    this.queryType = 'DELETE';
+    return this.build();
+  }
+
   /**
    * Execute query
    */
   async execute<T = any>(): Promise<T[]> {
-    const { sql, params } = this.buildQuery();
+    const { sql, params } = this.build();
     return this.database.query<T>(sql, params);
   }
 
@@ -194,27 +403,73 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
   }
 
   /**
-   * Execute and return count
+   * Execute and return the number of matching rows, whatever the ordering, limit and
+   * offset of the builder. Grouped and combined queries are counted as a subquery.
    */
   async count(): Promise<number> {
-    const originalColumns = this.selectColumns;
-    this.selectColumns = ['COUNT(*) as count'];
-    
-    const { sql, params } = this.buildQuery();
-    const results = await this.database.query<{ count: number }>(sql, params);
-    
-    this.selectColumns = originalColumns;
-    return results[0]?.count || 0;
+    const counter = this.clone();
+    counter.orderByColumns = [];
+    counter.limitCount = undefined;
+    counter.offsetCount = undefined;
+
+    if (counter.groupByColumns.length > 0 || counter.unions.length > 0) {
+      const compiler = new SqlCompiler(counter.dialect);
+      const sql = `SELECT COUNT(*) AS count FROM (${counter.compileSelect(compiler)}) AS ${compiler.identifier('counted')}`;
+      const results = await counter.database.query<{ count: number }>(sql, compiler.params);
+      return Number(results[0]?.count || 0);
+    }
+
+    counter.selectColumns = [raw('COUNT(*) as count')];
+    const { sql, params } = counter.build();
+    const results = await counter.database.query<{ count: number }>(sql, params);
+    return Number(results[0]?.count || 0);
   }
 
   /**
-   * INSERT INTO
+   * Execute a page of the query along with the total number of rows
    */
-  async insert(data: Record<string, any>): Promise<QueryResult> {
-    this.queryType = 'INSERT';
-    this.insertData = data;
-    
-    const { sql, params } = this.buildInsertQuery();
+  async paginate<T = any>(page: number, perPage: number): Promise<PaginatedResult<T>> {
+    const total = await this.count();
+    const data = await this.clone().forPage(page, perPage).execute<T>();
+
+    return { data, total, page, perPage, lastPage: Math.max(1, Math.ceil(total / perPage)) };
+  }
+
+  /**
+   * Execute a page of the query after a cursor: the value of a unique, ordered column
+   * in the last row of the previous page. The ordering of the builder is replaced by
+   * this column.
+   */
+  async cursorPaginate<T = any>(options: CursorPaginationOptions): Promise<CursorPaginatedResult<T>> {
+    const { column, after, limit, direction = 'ASC' } = options;
+    const query = this.clone();
+    if (after !== undefined && after !== null) {
+      query.where({ column, operator: direction === 'ASC' ? '>' : '<', value: after });
+    }
+    query.orderByColumns = [{ column, direction }];
+    query.limitCount = limit + 1;
+    query.offsetCount = undefined;
+
+    const rows = await query.execute<T>();
+    const data = rows.slice(0, limit);
+    const key = column.split('.').pop()!;
+    const nextCursor = rows.length > limit ? (data[data.length - 1] as any)[key] : null;
+    return { data, nextCursor };
+  }
+
+  /**
+   * INSERT INTO, one row or several
+   */
+  async insert(data: Record<string, any> | Record<string, any>[]): Promise<QueryResult> {
+    const { sql, params } = this.buildInsert(data);
+    return this.database.execute(sql, params);
+  }
+
+  /**
+   * INSERT that updates the existing row on a conflict (see `buildUpsert`)
+   */
+  async upsert(data: Record<string, any> | Record<string, any>[], conflictColumns: string[], updateColumns?: string[]): Promise<QueryResult> {
+    const { sql, params } = this.buildUpsert(data, conflictColumns, updateColumns);
     return this.database.execute(sql, params);
   }
 
@@ -222,10 +477,7 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
    * UPDATE SET
    */
   async update(data: Record<string, any>): Promise<QueryResult> {
-    this.queryType = 'UPDATE';
-    this.updateData = data;
-    
-    const { sql, params } = this.buildUpdateQuery();
+    const { sql, params } = this.buildUpdate(data);
     return this.database.execute(sql, params);
   }
 
@@ -233,19 +485,18 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
    * DELETE FROM
    */
   async delete(): Promise<QueryResult> {
-    this.queryType = 'DELETE';
-    
-    const { sql, params } = this.buildDeleteQuery();
+    const { sql, params } = this.buildDelete();
     return this.database.execute(sql, params);
   }
 
   /**
    * Clone builder
    */
-  clone(): QueryBuilderInterface {
-    const cloned = new SqlQueryBuilder(this.database);
+  clone(): SqlQueryBuilder {
+    const cloned = new SqlQueryBuilder(this.database, this.dialect);
     cloned.selectColumns = [...this.selectColumns];
     cloned.fromTable = this.fromTable;
+    cloned.fromQuery = this.fromQuery;
     cloned.whereConditions = [...this.whereConditions];
     cloned.joinClauses = [...this.joinClauses];
     cloned.groupByColumns = [...this.groupByColumns];
@@ -253,6 +504,9 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
     cloned.orderByColumns = [...this.orderByColumns];
     cloned.limitCount = this.limitCount;
     cloned.offsetCount = this.offsetCount;
+    cloned.commonTables = [...this.commonTables];
+    cloned.unions = [...this.unions];
+    cloned.returningColumns = [...this.returningColumns];
     cloned.queryType = this.queryType;
     return cloned;
   }
@@ -263,6 +517,7 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
   reset(): this {
     this.selectColumns = ['*'];
     this.fromTable = '';
+    this.fromQuery = undefined;
     this.whereConditions = [];
     this.joinClauses = [];
     this.groupByColumns = [];
@@ -270,241 +525,322 @@ export class SqlQueryBuilder implements QueryBuilderInterface {
     this.orderByColumns = [];
     this.limitCount = undefined;
     this.offsetCount = undefined;
-    this.insertData = undefined;
+    this.commonTables = [];
+    this.unions = [];
+    this.returningColumns = [];
+    this.insertRows = undefined;
+    this.conflict = undefined;
     this.updateData = undefined;
     this.queryType = 'SELECT';
     return this;
   }
 
   /**
-   * Build SELECT query
+   * Build SELECT query string, with its common tables and unions
    */
-  private buildQuery(): { sql: string; params: any[] } {
-    const params: any[] = [];
-    let sql = '';
+  private compileSelect(compiler: SqlCompiler): string {
+    let sql = this.compileWith(compiler) + this.compileSelectCore(compiler);
 
-    switch (this.queryType) {
-      case 'SELECT':
-        sql = this.buildSelectQuery(params);
-        break;
-      case 'INSERT':
-        return this.buildInsertQuery();
-      case 'UPDATE':
-        return this.buildUpdateQuery();
-      case 'DELETE':
-        return this.buildDeleteQuery();
-      default:
-        throw new Error(`Unsupported query type: ${this.queryType}`);
+    for (const union of this.unions) {
+      const query = union.query;
+      if (query.orderByColumns.length > 0 || query.limitCount !== undefined || query.offsetCount !== undefined) {
+        throw new Error('ORDER BY, LIMIT and OFFSET of a union belong to the first query');
+      }
+      sql += ` UNION ${union.all ? 'ALL ' : ''}${query.compileSelectCore(compiler)}`;
+    }
+
+    // ORDER BY
+    if (this.orderByColumns.length > 0) {
+      const orderParts = this.orderByColumns.map(order =>
+        `${compiler.reference(order.column)} ${order.direction}`
+      );
+      sql += ` ORDER BY ${orderParts.join(', ')}`;
+    }
+
+    // LIMIT
+    if (this.limitCount !== undefined) {
+      sql += ` LIMIT ${this.limitCount}`;
+    } else if (this.offsetCount !== undefined && compiler.dialect.offsetOnlyLimit) {
+      sql += ` ${compiler.dialect.offsetOnlyLimit}`;
+    }
+
+    // OFFSET
+    if (this.offsetCount !== undefined) {
+      sql += ` OFFSET ${this.offsetCount}`;
     }
 
-    return { sql, params };
+    return sql;
   }
 
   /**
-   * Build SELECT query string
+   * Build SELECT up to HAVING
    */
-  private buildSelectQuery(params: any[]): string {
-    let sql = `SELECT ${this.selectColumns.join(', ')}`;
-    
-    if (this.fromTable) {
-      sql += ` FROM ${this.fromTable}`;
+  private compileSelectCore(compiler: SqlCompiler): string {
+    let sql = `SELECT ${this.selectColumns.map(column => compiler.reference(column)).join(', ')}`;
+
+    if (this.fromQuery) {
+      sql += ` FROM (${this.fromQuery.compileSelect(compiler)}) AS ${compiler.identifier(this.fromTable)}`;
+    } else if (this.fromTable) {
+      sql += ` FROM ${compiler.reference(this.fromTable)}`;
     }
 
     // JOIN clauses
     for (const join of this.joinClauses) {
-      sql += ` ${join.type} JOIN ${join.table} ON ${join.condition}`;
+      sql += ` ${join.type} JOIN ${compiler.reference(join.table)} ON ${this.compileJoinCondition(join.condition, compiler)}`;
     }
 
     // WHERE clauses
     if (this.whereConditions.length > 0) {
-      sql += ' WHERE ';
-      sql += this.buildWhereClause(this.whereConditions, params);
+      sql += ` WHERE ${this.compileConditions(this.whereConditions, compiler)}`;
     }
 
     // GROUP BY
     if (this.groupByColumns.length > 0) {
-      sql += ` GROUP BY ${this.groupByColumns.join(', ')}`;
+      sql += ` GROUP BY ${this.groupByColumns.map(column => compiler.reference(column)).join(', ')}`;
     }
 
     // HAVING
     if (this.havingConditions.length > 0) {
-      sql += ' HAVING ';
-      sql += this.buildWhereClause(this.havingConditions, params);
-    }
-
-    // ORDER BY
-    if (this.orderByColumns.length > 0) {
-      const orderParts = this.orderByColumns.map(order => 
-        `${order.column} ${order.direction}`
-      );
-      sql += ` ORDER BY ${orderParts.join(', ')}`;
+      sql += ` HAVING ${this.compileConditions(this.havingConditions, compiler)}`;
     }
 
-    // LIMIT
-    if (this.limitCount !== undefined) {
-      sql += ` LIMIT ${this.limitCount}`;
-    }
+    return sql;
+  }
 
-    // OFFSET
-    if (this.offsetCount !== undefined) {
-      sql += ` OFFSET ${this.offsetCount}`;
+  /**
+   * Build WITH clause
+   */
+  private compileWith(compiler: SqlCompiler): string {
+    if (this.commonTables.length === 0) {
+      return '';
     }
 
-    return sql;
+    const recursive = this.commonTables.some(table => table.recursive);
+    const tables = this.commonTables.map(table => {
+      const columns = table.columns ? ` (${table.columns.map(column => compiler.identifier(column)).join(', ')})` : '';
+      const query = table.query instanceof RawSql ? compiler.raw(table.query) : table.query.compileSelect(compiler);
+      return `${compiler.identifier(table.name)}${columns} AS (${query})`;
+    });
+    return `WITH ${recursive ? 'RECURSIVE ' : ''}${tables.join(', ')} `;
   }
 
   /**
    * Build INSERT query
    */
-  private buildInsertQuery(): { sql: string; params: any[] } {
-    if (!this.insertData || !this.fromTable) {
+  private compileInsert(compiler: SqlCompiler): string {
+    const rows = this.insertRows || [];
+    if (rows.length === 0 || !this.fromTable || this.fromQuery) {
       throw new Error('INSERT requires table name and data');
     }
 
-    const columns = Object.keys(this.insertData);
-    const values = Object.values(this.insertData);
-    const placeholders = columns.map(() => '?').join(', ');
+    const columns = Object.keys(rows[0]);
+    for (const row of rows) {
+      const keys = Object.keys(row);
+      if (keys.length !== columns.length || keys.some(key => !columns.includes(key))) {
+        throw new Error('All inserted rows must have the same columns');
+      }
+    }
 
-    const sql = `INSERT INTO ${this.fromTable} (${columns.join(', ')}) VALUES (${placeholders})`;
-    return { sql, params: values };
+    const mysql = compiler.dialect.name === 'mysql';
+    const ignore = mysql && this.conflict && this.conflict.update.length === 0;
+    const values = rows.map(row => `(${columns.map(column => this.compileValue(row[column], compiler)).join(', ')})`);
+
+    let sql = `${this.compileWith(compiler)}INSERT${ignore ? ' IGNORE' : ''} INTO ${compiler.reference(this.fromTable)}`;
+    sql += ` (${columns.map(column => compiler.identifier(column)).join(', ')}) VALUES ${values.join(', ')}`;
+
+    if (this.conflict && !ignore) {
+      const { columns: conflictColumns, update } = this.conflict;
+      const quoted = (column: string) => compiler.identifier(column);
+      if (mysql) {
+        sql += ` ON DUPLICATE KEY UPDATE ${update.map(column => `${quoted(column)} = VALUES(${quoted(column)})`).join(', ')}`;
+      } else if (update.length === 0) {
+        sql += ` ON CONFLICT${conflictColumns.length > 0 ? ` (${conflictColumns.map(quoted).join(', ')})` : ''} DO NOTHING`;
+      } else {
+        if (conflictColumns.length === 0) {
+          throw new Error('Upsert requires the columns of a unique key');
+        }
+        sql += ` ON CONFLICT (${conflictColumns.map(quoted).join(', ')}) DO UPDATE SET `;
+        sql += update.map(column => `${quoted(column)} = EXCLUDED.${quoted(column)}`).join(', ');
+      }
+    }
+
+    return sql + this.compileReturning(compiler);
   }
 
   /**
    * Build UPDATE query
    */
-  private buildUpdateQuery(): { sql: string; params: any[] } {
-    if (!this.updateData || !this.fromTable) {
+  private compileUpdate(compiler: SqlCompiler): string {
+    if (!this.updateData || !this.fromTable || this.fromQuery) {
       throw new Error('UPDATE requires table name and data');
     }
 
-    const params: any[] = [];
-    const setParts = Object.entries(this.updateData).map(([key, value]) => {
-      params.push(value);
-      return `${key} = ?`;
-    });
-
-    let sql = `UPDATE ${this.fromTable} SET ${setParts.join(', ')}`;
+    let sql = `${this.compileWith(compiler)}UPDATE ${compiler.reference(this.fromTable)}`;
+    const setParts = Object.entries(this.updateData).map(([key, value]) =>
+      `${compiler.identifier(key)} = ${this.compileValue(value, compiler)}`
+    );
+    sql += ` SET ${setParts.join(', ')}`;
 
     if (this.whereConditions.length > 0) {
-      sql += ' WHERE ';
-      sql += this.buildWhereClause(this.whereConditions, params);
+      sql += ` WHERE ${this.compileConditions(this.whereConditions, compiler)}`;
     }
 
-    return { sql, params };
+    return sql + this.compileReturning(compiler);
   }
 
   /**
    * Build DELETE query
    */
-  private buildDeleteQuery(): { sql: string; params: any[] } {
-    if (!this.fromTable) {
+  private compileDelete(compiler: SqlCompiler): string {
+    if (!this.fromTable || this.fromQuery) {
       throw new Error('DELETE requires table name');
     }
 
-    const params: any[] = [];
-    let sql = `DELETE FROM ${this.fromTable}`;
+    let sql = `${this.compileWith(compiler)}DELETE FROM ${compiler.reference(this.fromTable)}`;
 
     if (this.whereConditions.length > 0) {
-      sql += ' WHERE ';
-      sql += this.buildWhereClause(this.whereConditions, params);
+      sql += ` WHERE ${this.compileConditions(this.whereConditions, compiler)}`;
     }
 
-    return { sql, params };
+    return sql + this.compileReturning(compiler);
+  }
+
+  private compileReturning(compiler: SqlCompiler): string {
+    if (this.returningColumns.length === 0) {
+      return '';
+    }
+    if (!compiler.dialect.supportsReturning) {
+      throw new Error(`RETURNING is not supported by the ${compiler.dialect.name} dialect`);
+    }
+    return ` RETURNING ${this.returningColumns.map(column => compiler.reference(column)).join(', ')}`;
   }
 
   /**
-   * Build WHERE clause string
+   * Build a join condition, quoting both sides of `reference operator reference`
    */
-  private buildWhereClause(conditions: WhereClause[], params: any[]): string {
+  private compileJoinCondition(condition: string, compiler: SqlCompiler): string {
+    const match = /^(\S+)\s*(=|<>|!=|<=|>=|<|>)\s*(\S+)$/.exec(condition.trim());
+    if (!match) {
+      return condition;
+    }
+    return `${compiler.reference(match[1])} ${match[2]} ${compiler.reference(match[3])}`;
+  }
+
+  /**
+   * Build WHERE or HAVING conditions
+   */
+  private compileConditions(conditions: ConditionNode[], compiler: SqlCompiler): string {
     return conditions.map((condition, index) => {
-      let clause = '';
-      
-      if (index > 0 && condition.connector) {
-        clause += ` ${condition.connector} `;
-      }
+      const sql = this.compileCondition(condition, compiler);
+      return index > 0 ? ` ${condition.connector} ${sql}` : sql;
+    }).join('');
+  }
 
-      // Handle raw SQL conditions (when column contains complete clause)
-      if (condition.value === null && (
-        condition.column.includes('IS NULL') || 
-        condition.column.includes('IS NOT NULL') ||
-        condition.column.includes('=') ||
-        condition.column.includes('<') ||
-        condition.column.includes('>')
-      )) {
-        clause += condition.column;
-        return clause;
-      }
+  private compileCondition(condition: ConditionNode, compiler: SqlCompiler): string {
+    switch (condition.kind) {
+      case 'raw':
+        return compiler.raw(condition.sql);
+      case 'group':
+        return `(${this.compileConditions(condition.conditions, compiler)})`;
+      case 'exists':
+        return `${condition.not ? 'NOT ' : ''}EXISTS (${condition.query.compileSelect(compiler)})`;
+      case 'clause':
+        return this.compileClause(condition.clause, compiler);
+    }
+  }
 
-      clause += `${condition.column} ${condition.operator}`;
-
-      if (condition.operator !== 'IS NULL' && condition.operator !== 'IS NOT NULL') {
-        if (condition.operator === 'IN' || condition.operator === 'NOT IN') {
-          const placeholders = Array.isArray(condition.value) 
-            ? condition.value.map(() => '?').join(', ')
-            : '?';
-          clause += ` (${placeholders})`;
-          
-          if (Array.isArray(condition.value)) {
-            params.push(...condition.value);
-          } else {
-            params.push(condition.value);
-          }
-        } else if (condition.operator === 'BETWEEN' || condition.operator === 'NOT BETWEEN') {
-          clause += ' ? AND ?';
-          if (Array.isArray(condition.value) && condition.value.length === 2) {
-            params.push(condition.value[0], condition.value[1]);
-          } else {
-            throw new Error('BETWEEN operator requires array with 2 values');
-          }
-        } else {
-          clause += ' ?';
-          params.push(condition.value);
+  private compileClause(clause: WhereClause, compiler: SqlCompiler): string {
+    const column = compiler.reference(clause.column);
+    const { operator, value } = clause;
+
+    switch (operator) {
+      case 'IS NULL':
+      case 'IS NOT NULL':
+        return `${column} ${operator}`;
+      case 'IN':
+      case 'NOT IN': {
+        if (value instanceof SqlQueryBuilder) {
+          return `${column} ${operator} (${value.compileSelect(compiler)})`;
+        }
+        const values = Array.isArray(value) ? value : [value];
+        if (values.length === 0) {
+          // IN () is not valid SQL
+          return operator === 'IN' ? '1 = 0' : '1 = 1';
         }
+        return `${column} ${operator} (${values.map(item => this.compileValue(item, compiler)).join(', ')})`;
       }
+      case 'BETWEEN':
+      case 'NOT BETWEEN':
+        if (!Array.isArray(value) || value.length !== 2) {
+          throw new Error('BETWEEN operator requires array with 2 values');
+        }
+        return `${column} ${operator} ${this.compileValue(value[0], compiler)} AND ${this.compileValue(value[1], compiler)}`;
+      case 'EXISTS':
+      case 'NOT EXISTS':
+        if (!(value instanceof SqlQueryBuilder)) {
+          throw new Error(`${operator} requires a subquery`);
+        }
+        return `${operator} (${value.compileSelect(compiler)})`;
+      default:
+        return `${column} ${operator} ${this.compileValue(value, compiler)}`;
+    }
+  }
 
-      return clause;
-    }).join('');
+  /**
+   * Placeholder of a value, or the SQL of a raw fragment or subquery
+   */
+  private compileValue(value: any, compiler: SqlCompiler): string {
+    if (value instanceof SqlQueryBuilder) {
+      return `(${value.compileSelect(compiler)})`;
+    }
+    if (value instanceof RawSql) {
+      return compiler.raw(value);
+    }
+    return compiler.bind(value);
   }
 
   /**
-   * Parse WHERE condition
+   * Add a WHERE or HAVING condition
    */
-  private parseWhereCondition(condition: WhereCondition): WhereClause {
-    if (typeof condition === 'string') {
-      // Raw SQL condition - check if it contains operators that don't need parameters
-      const isNullCondition = /IS\s+(NOT\s+)?NULL/i.test(condition);
-      if (isNullCondition) {
-        return {
-          column: condition,
-          operator: 'IS NULL', // Use valid operator for null conditions
-          value: null
-        };
+  private addCondition(conditions: ConditionNode[], connector: LogicalOperator, condition: SqlCondition): void {
+    if (typeof condition === 'function') {
+      const group = new SqlQueryBuilder(this.database, this.dialect);
+      condition(group);
+      if (group.whereConditions.length > 0) {
+        conditions.push({ kind: 'group', connector, conditions: group.whereConditions });
       }
-      
-      // For other raw SQL, treat as complete clause with dummy operator
-      return {
-        column: condition,
-        operator: '=', // Default operator for raw SQL
-        value: null
-      };
+      return;
+    }
+
+    if (typeof condition === 'string' || condition instanceof RawSql) {
+      // Raw SQL condition
+      conditions.push({ kind: 'raw', connector, sql: typeof condition === 'string' ? new RawSql(condition) : condition });
+      return;
     }
 
     if (this.isWhereClause(condition)) {
-      return condition;
+      conditions.push({ kind: 'clause', connector, clause: condition });
+      return;
     }
 
     // Object condition
     const entries = Object.entries(condition);
-    if (entries.length !== 1) {
-      throw new Error('Object WHERE condition must have exactly one key-value pair');
+    if (entries.length === 0) {
+      throw new Error('Object WHERE condition must have at least one key-value pair');
     }
 
-    const [column, value] = entries[0];
-    return {
-      column,
-      operator: '=',
-      value
-    };
+    const clauses: ConditionNode[] = entries.map(([column, value]) => {
+      let clause: WhereClause;
+      if (value === null || value === undefined) {
+        clause = { column, operator: 'IS NULL', value: null };
+      } else if (Array.isArray(value)) {
+        clause = { column, operator: 'IN', value };
+      } else {
+        clause = { column, operator: '=', value };
+      }
+      return { kind: 'clause', connector: 'AND', clause };
+    });
+    conditions.push(clauses.length === 1 ? { ...clauses[0], connector } : { kind: 'group', connector, conditions: clauses });
   }
 
   /**
@@ -531,7 +867,7 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
   private updateData?: Record<string, any>;
   private insertData?: Record<string, any>;
 
-  constructor(private database: DatabaseInterface) {}
+  constructor(private database: QueryExecutor) {}
 
   select(columns?: string[]): this {
     this.selectFields = columns;
@@ -544,9 +880,13 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
   }
 
   where(condition: WhereCondition): this {
-    if (typeof condition === 'object' && !this.isWhereClause(condition)) {
-      Object.assign(this.filters, condition);
+    const filter = this.toFilter(condition);
+    if (this.isWhereClause(condition) && condition.connector === 'OR') {
+      return this.orWhere(filter);
     }
+
+    const conflicts = Object.keys(filter).some(key => key in this.filters);
+    this.filters = conflicts ? { $and: [this.filters, filter] } : { ...this.filters, ...filter };
     return this;
   }
 
@@ -555,8 +895,9 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
   }
 
   orWhere(condition: WhereCondition): this {
-    // TODO: Implement OR logic for NoSQL
-    return this.where(condition);
+    const filter = this.toFilter(condition);
+    this.filters = Object.keys(this.filters).length > 0 ? { $or: [this.filters, filter] } : filter;
+    return this;
   }
 
   join(): this {
@@ -600,22 +941,14 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
 
   build(): QueryData {
     return {
-      sql: JSON.stringify({
-        collection: this.collection,
-        filters: this.filters,
-        sort: this.sortFields,
-        limit: this.limitCount,
-        offset: this.offsetCount,
-        select: this.selectFields
-      }),
+      sql: JSON.stringify(this.command('find')),
       params: [],
       type: 'SELECT'
     };
   }
 
   async execute<T = any>(): Promise<T[]> {
-    // TODO: Implement NoSQL query execution
-    throw new Error('NoSQL execution not implemented');
+    return this.database.query<T>(JSON.stringify(this.command('find')));
   }
 
   async first<T = any>(): Promise<T | null> {
@@ -625,25 +958,22 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
   }
 
   async count(): Promise<number> {
-    // TODO: Implement NoSQL count
-    throw new Error('NoSQL count not implemented');
+    const result = await this.database.query<{ count: number }>(JSON.stringify(this.command('count')));
+    return result[0]?.count || 0;
   }
 
   async insert(data: Record<string, any>): Promise<QueryResult> {
     this.insertData = data;
-    // TODO: Implement NoSQL insert
-    throw new Error('NoSQL insert not implemented');
+    return this.database.execute(JSON.stringify(this.command('insert', data)));
   }
 
   async update(data: Record<string, any>): Promise<QueryResult> {
     this.updateData = data;
-    // TODO: Implement NoSQL update
-    throw new Error('NoSQL update not implemented');
+    return this.database.execute(JSON.stringify(this.command('update', data)));
   }
 
   async delete(): Promise<QueryResult> {
-    // TODO: Implement NoSQL delete
-    throw new Error('NoSQL delete not implemented');
+    return this.database.execute(JSON.stringify(this.command('delete')));
   }
 
   clone(): QueryBuilderInterface {
@@ -669,6 +999,70 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
     return this;
   }
 
+  private command(operation: NoSqlCommand['operation'], data?: Record<string, any>): NoSqlCommand {
+    return {
+      operation,
+      collection: this.collection,
+      filters: this.filters,
+      sort: this.sortFields,
+      limit: this.limitCount,
+      offset: this.offsetCount,
+      select: this.selectFields,
+      data
+    };
+  }
+
+  /**
+   * Convert a condition to a document filter
+   */
+  private toFilter(condition: WhereCondition): Record<string, any> {
+    if (typeof condition === 'string') {
+      throw new Error('Raw conditions are not supported in NoSQL query builder');
+    }
+    if (!this.isWhereClause(condition)) {
+      return condition;
+    }
+
+    const { column, operator, value } = condition;
+    switch (operator) {
+      case '=':
+        return { [column]: value };
+      case '!=':
+      case '<>':
+        return { [column]: { $ne: value } };
+      case '<':
+        return { [column]: { $lt: value } };
+      case '<=':
+        return { [column]: { $lte: value } };
+      case '>':
+        return { [column]: { $gt: value } };
+      case '>=':
+        return { [column]: { $gte: value } };
+      case 'LIKE':
+        return { [column]: { $regex: likeToRegex(value), $options: 'i' } };
+      case 'NOT LIKE':
+        return { $nor: [{ [column]: { $regex: likeToRegex(value), $options: 'i' } }] };
+      case 'IN':
+        return { [column]: { $in: value } };
+      case 'NOT IN':
+        return { [column]: { $nin: value } };
+      case 'BETWEEN':
+        return { [column]: { $gte: value[0], $lte: value[1] } };
+      case 'NOT BETWEEN':
+        return { $or: [{ [column]: { $lt: value[0] } }, { [column]: { $gt: value[1] } }] };
+      case 'IS NULL':
+        return { [column]: null };
+      case 'IS NOT NULL':
+        return { [column]: { $ne: null } };
+      case 'EXISTS':
+        return { [column]: { $exists: true } };
+      case 'NOT EXISTS':
+        return { [column]: { $exists: false } };
+      default:
+        throw new Error(`Unsupported operator in NoSQL query builder: ${operator}`);
+    }
+  }
+
   private isWhereClause(condition: any): condition is WhereClause {
     return condition && 
            typeof condition === 'object' && 
@@ -677,6 +1071,17 @@ export class NoSqlQueryBuilder implements QueryBuilderInterface {
   }
 }
 
+/**
+ * Regular expression source of a SQL LIKE pattern
+ */
+function likeToRegex(pattern: string): string {
+  const source = String(pattern)
+    .split('')
+    .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return `^${source}$`;
+}
+
 /**
  * Query builder factory
  */
@@ -684,24 +1089,24 @@ export class QueryBuilderFactory {
   /**
    * Create SQL query builder
    */
-  static createSqlBuilder(database: DatabaseInterface): QueryBuilderInterface {
-    return new SqlQueryBuilder(database);
+  static createSqlBuilder(database: QueryExecutor, dialect: SqlDialect | SqlDialectName = 'generic'): SqlQueryBuilder {
+    return new SqlQueryBuilder(database, dialect);
   }
 
   /**
    * Create NoSQL query builder
    */
-  static createNoSqlBuilder(database: DatabaseInterface): QueryBuilderInterface {
+  static createNoSqlBuilder(database: QueryExecutor): QueryBuilderInterface {
     return new NoSqlQueryBuilder(database);
   }
 
   /**
    * Create query builder based on database type
    */
-  static create(database: DatabaseInterface, type: 'sql' | 'nosql' = 'sql'): QueryBuilderInterface {
+  static create(database: QueryExecutor, type: 'sql' | 'nosql' = 'sql', dialect?: SqlDialect | SqlDialectName): QueryBuilderInterface {
     switch (type) {
       case 'sql':
-        return this.createSqlBuilder(database);
+        return this.createSqlBuilder(database, dialect);
       case 'nosql':
         return this.createNoSqlBuilder(database);
       default:
@@ -723,6 +1128,39 @@ interface JoinClause {
  * Order clause interface
  */
 interface OrderClause {
-  column: string;
+  column: SqlReference;
   direction: OrderDirection;
 }
+
+/**
+ * Condition of a WHERE or HAVING clause
+ */
+type ConditionNode =
+  | { kind: 'clause'; connector: LogicalOperator; clause: WhereClause }
+  | { kind: 'raw'; connector: LogicalOperator; sql: RawSql }
+  | { kind: 'group'; connector: LogicalOperator; conditions: ConditionNode[] }
+  | { kind: 'exists'; connector: LogicalOperator; not: boolean; query: SqlQueryBuilder };
+
+/**
+ * Condition accepted by the SQL query builder: a WHERE condition, a raw fragment,
+ * or a callback adding a group of conditions
+ */
+export type SqlCondition = WhereCondition | RawSql | ((query: SqlQueryBuilder) => void);
+
+/**
+ * Common table expression
+ */
+interface CommonTable {
+  name: string;
+  query: SqlQueryBuilder | RawSql;
+  columns?: string[];
+  recursive: boolean;
+}
+
+/**
+ * ON CONFLICT clause of an upsert
+ */
+interface ConflictClause {
+  columns: string[];
+  update: string[];
+}
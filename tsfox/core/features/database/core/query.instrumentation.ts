@@ -0,0 +1,373 @@
+/**
+ * @fileoverview Query instrumentation: per-query timings, metrics, slow-query log and N+1 detection
+ * @module tsfox/core/features/database/core
+ */
+
+import { createHash } from 'crypto';
+import { performance } from 'perf_hooks';
+import { ILogger } from '../../../logging/interfaces';
+import { IMetricsCollector } from '../../../performance/interfaces';
+import { QueryBuilderInterface, QueryResult, TransactionInterface } from '../interfaces';
+import { QueryBuilderFactory } from './query.builder';
+import { SqlDialect } from './sql.dialect';
+import { getDatabaseSession } from './database.session';
+
+/**
+ * Logger of the instrumentation: a framework logger, or a function like `LoggingConfig.logger`
+ */
+export type QueryLogger = ILogger | ((message: string, data?: any) => void);
+
+/**
+ * Options of query instrumentation
+ */
+export interface QueryInstrumentationOptions {
+  /** Collector the timings and row counts are sent to as histograms */
+  metrics?: IMetricsCollector;
+
+  /** Logger warned of slow queries and N+1 patterns */
+  logger?: QueryLogger;
+
+  /** Duration in milliseconds from which a query is logged as slow (default 1000) */
+  slowQueryThreshold?: number;
+
+  /** Number of runs of one fingerprint within a session from which it is reported as N+1 (default 5) */
+  nPlusOneThreshold?: number;
+
+  /** Labels added to every metric, e.g. the database name */
+  labels?: Record<string, string>;
+}
+
+/**
+ * One instrumented statement
+ */
+export interface QueryEvent {
+  /** Statement with literals and parameters replaced by `?` */
+  fingerprint: string;
+
+  /** Short hash of the fingerprint */
+  id: string;
+
+  /** First keyword of the statement, or the operation of a NoSQL command */
+  operation: string;
+
+  /** Duration in milliseconds */
+  duration: number;
+
+  /** Rows returned or affected */
+  rowCount: number;
+
+  /** Error the statement failed with */
+  error?: Error;
+
+  /** Whether the duration reached the slow-query threshold */
+  slow: boolean;
+
+  /** Whether this run reported the fingerprint as an N+1 query */
+  nPlusOne: boolean;
+
+  timestamp: number;
+}
+
+/**
+ * Totals of the statements sharing a fingerprint
+ */
+export interface QueryStats {
+  fingerprint: string;
+  id: string;
+  operation: string;
+  count: number;
+  errors: number;
+  rows: number;
+  totalTime: number;
+  averageTime: number;
+  maxTime: number;
+}
+
+const DEFAULT_SLOW_QUERY_THRESHOLD = 1000;
+const DEFAULT_N_PLUS_ONE_THRESHOLD = 5;
+
+/** Fingerprints kept in the statistics; the oldest are dropped beyond it */
+const MAX_FINGERPRINTS = 1000;
+
+/**
+ * Normalize a statement so that runs differing only in their values share one fingerprint:
+ * comments are dropped, literals and placeholders become `?`, `IN` lists and multi-row
+ * `VALUES` collapse, and whitespace is squeezed. NoSQL commands become `operation collection (fields)`.
+ */
+export function fingerprintQuery(sql: string): string {
+  const text = sql.trim();
+
+  if (text.startsWith('{')) {
+    try {
+      const command = JSON.parse(text);
+      const fields = Object.keys(command.filters || {});
+      return `${command.operation} ${command.collection}${fields.length > 0 ? ` (${fields.join(', ')})` : ''}`;
+    } catch {
+      // Not a command: normalized as SQL
+    }
+  }
+
+  return text
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/'(?:[^']|'')*'/g, '?')
+    .replace(/\$\d+/g, '?')
+    .replace(/\b\d+(?:\.\d+)?\b/g, '?')
+    .replace(/\s+/g, ' ')
+    .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, '(?)')
+    .replace(/\b(VALUES\s*\([^()]*\))(?:\s*,\s*\([^()]*\))+/gi, '$1')
+    .replace(/\s*;$/, '')
+    .trim();
+}
+
+/**
+ * Records the fingerprint, duration, row count and errors of every statement it measures.
+ * Timings go to the metrics collector as histograms, statements over the slow-query
+ * threshold are logged with their parameters redacted, and fingerprints repeated within
+ * one database session (see `runInDatabaseSession`) are reported as N+1 queries.
+ */
+export class QueryInstrumentation {
+  private options: QueryInstrumentationOptions;
+  private stats = new Map<string, QueryStats>();
+  private listeners: Array<(event: QueryEvent) => void> = [];
+
+  constructor(options: QueryInstrumentationOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Change some of the options
+   */
+  configure(options: QueryInstrumentationOptions): this {
+    this.options = { ...this.options, ...options };
+    return this;
+  }
+
+  /**
+   * Run a statement and record it. `countRows` tells the rows of its result.
+   */
+  async measure<T>(sql: string, params: any[] | undefined, run: () => Promise<T>, countRows: (result: T) => number): Promise<T> {
+    const start = performance.now();
+    try {
+      const result = await run();
+      this.record(sql, params, performance.now() - start, countRows(result));
+      return result;
+    } catch (error) {
+      this.record(sql, params, performance.now() - start, 0, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Run a query returning rows and record it
+   */
+  query<T>(sql: string, params: any[] | undefined, run: () => Promise<T[]>): Promise<T[]> {
+    return this.measure(sql, params, run, rows => rows.length);
+  }
+
+  /**
+   * Run a command and record it
+   */
+  execute(sql: string, params: any[] | undefined, run: () => Promise<QueryResult>): Promise<QueryResult> {
+    return this.measure(sql, params, run, result => result.rowCount);
+  }
+
+  /**
+   * Record a statement that already ran
+   */
+  record(sql: string, params: any[] | undefined, duration: number, rowCount: number, error?: Error): QueryEvent {
+    const fingerprint = fingerprintQuery(sql);
+    const event: QueryEvent = {
+      fingerprint,
+      id: createHash('sha1').update(fingerprint).digest('hex').slice(0, 12),
+      operation: this.operationOf(fingerprint),
+      duration,
+      rowCount,
+      error,
+      slow: duration >= (this.options.slowQueryThreshold ?? DEFAULT_SLOW_QUERY_THRESHOLD),
+      nPlusOne: false,
+      timestamp: Date.now()
+    };
+
+    this.updateStats(event);
+    this.collectMetrics(event);
+    if (event.slow) {
+      this.warn(`Slow query (${Math.round(duration)} ms): ${fingerprint}`, {
+        query: event.id,
+        fingerprint,
+        duration,
+        rowCount,
+        params: (params || []).map(() => '[REDACTED]'),
+        error: error?.message
+      });
+    }
+    this.detectNPlusOne(event);
+
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+    return event;
+  }
+
+  /**
+   * Listen to every recorded statement. Returns the function removing the listener.
+   */
+  onQuery(listener: (event: QueryEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener);
+    };
+  }
+
+  /**
+   * Get the totals of each fingerprint, the most time-consuming first
+   */
+  getStats(): QueryStats[] {
+    return Array.from(this.stats.values(), stats => ({ ...stats })).sort((a, b) => b.totalTime - a.totalTime);
+  }
+
+  /**
+   * Forget the recorded totals
+   */
+  reset(): void {
+    this.stats.clear();
+  }
+
+  private updateStats(event: QueryEvent): void {
+    let stats = this.stats.get(event.id);
+    if (!stats) {
+      if (this.stats.size >= MAX_FINGERPRINTS) {
+        this.stats.delete(this.stats.keys().next().value!);
+      }
+      stats = {
+        fingerprint: event.fingerprint,
+        id: event.id,
+        operation: event.operation,
+        count: 0,
+        errors: 0,
+        rows: 0,
+        totalTime: 0,
+        averageTime: 0,
+        maxTime: 0
+      };
+      this.stats.set(event.id, stats);
+    }
+
+    stats.count++;
+    stats.errors += event.error ? 1 : 0;
+    stats.rows += event.rowCount;
+    stats.totalTime += event.duration;
+    stats.averageTime = stats.totalTime / stats.count;
+    stats.maxTime = Math.max(stats.maxTime, event.duration);
+  }
+
+  private collectMetrics(event: QueryEvent): void {
+    const { metrics, labels } = this.options;
+    if (!metrics) {
+      return;
+    }
+
+    const queryLabels = { ...labels, operation: event.operation, query: event.id };
+    metrics.collect({
+      name: 'db_query_duration_ms',
+      value: event.duration,
+      timestamp: event.timestamp,
+      type: 'histogram',
+      unit: 'ms',
+      labels: { ...queryLabels, status: event.error ? 'error' : 'ok' }
+    });
+    if (!event.error) {
+      metrics.collect({
+        name: 'db_query_rows',
+        value: event.rowCount,
+        timestamp: event.timestamp,
+        type: 'histogram',
+        labels: queryLabels
+      });
+    }
+  }
+
+  /**
+   * Count the fingerprint in the current session and report it once when it reaches the threshold
+   */
+  private detectNPlusOne(event: QueryEvent): void {
+    const session = getDatabaseSession();
+    if (!session) {
+      return;
+    }
+
+    const count = (session.queries.get(event.id) || 0) + 1;
+    session.queries.set(event.id, count);
+    if (count < (this.options.nPlusOneThreshold ?? DEFAULT_N_PLUS_ONE_THRESHOLD) || session.flagged.has(event.id)) {
+      return;
+    }
+
+    session.flagged.add(event.id);
+    event.nPlusOne = true;
+    this.warn(`Possible N+1 query (${count} runs in one session): ${event.fingerprint}`, {
+      query: event.id,
+      fingerprint: event.fingerprint,
+      count
+    });
+    this.options.metrics?.collect({
+      name: 'db_query_n_plus_one',
+      value: 1,
+      timestamp: event.timestamp,
+      type: 'counter',
+      labels: { ...this.options.labels, operation: event.operation, query: event.id }
+    });
+  }
+
+  private operationOf(fingerprint: string): string {
+    const match = /^[A-Za-z]+/.exec(fingerprint);
+    return match ? match[0].toLowerCase() : 'unknown';
+  }
+
+  private warn(message: string, data: Record<string, any>): void {
+    const { logger } = this.options;
+    if (typeof logger === 'function') {
+      logger(message, data);
+    } else if (logger) {
+      logger.warn(message, data);
+    }
+  }
+}
+
+/**
+ * Transaction recording its statements with the instrumentation of its database
+ */
+export class InstrumentedTransaction implements TransactionInterface {
+  constructor(
+    private readonly transaction: TransactionInterface,
+    private readonly instrumentation: QueryInstrumentation,
+    private readonly dialect: SqlDialect
+  ) {}
+
+  query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    return this.instrumentation.query(sql, params, () => this.transaction.query<T>(sql, params));
+  }
+
+  execute(sql: string, params?: any[]): Promise<QueryResult> {
+    return this.instrumentation.execute(sql, params, () => this.transaction.execute(sql, params));
+  }
+
+  getBuilder(): QueryBuilderInterface {
+    return QueryBuilderFactory.create(this, 'sql', this.dialect);
+  }
+
+  commit(): Promise<void> {
+    return this.transaction.commit();
+  }
+
+  rollback(): Promise<void> {
+    return this.transaction.rollback();
+  }
+
+  isActive(): boolean {
+    return this.transaction.isActive();
+  }
+
+  getId(): string {
+    return this.transaction.getId();
+  }
+}
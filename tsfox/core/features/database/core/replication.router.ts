@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Read/write splitting between a primary database and its replicas
+ * @module tsfox/core/features/database/core
+ */
+
+import {
+  DatabaseConfig,
+  LoadBalancingStrategy,
+  ProviderInterface,
+  QueryResult,
+  ReplicationConfig,
+  TransactionInterface
+} from '../interfaces';
+import { DatabaseSession, createDatabaseSession, replicatedDatabases, sessions } from './database.session';
+
+export { runInDatabaseSession, databaseSession } from './database.session';
+
+/**
+ * Whether a statement only reads data and can run on a replica
+ */
+export function isReadStatement(sql: string): boolean {
+  const text = sql.trim();
+
+  // Commands of the NoSQL query builder
+  if (text.startsWith('{')) {
+    try {
+      return ['find', 'count'].includes(JSON.parse(text).operation);
+    } catch {
+      return false;
+    }
+  }
+
+  if (/^(SELECT|SHOW|EXPLAIN|DESCRIBE)\b/i.test(text)) {
+    return !/\bFOR\s+(UPDATE|SHARE)\b/i.test(text);
+  }
+  if (/^WITH\b/i.test(text)) {
+    return !/\b(INSERT|UPDATE|DELETE|MERGE)\b/i.test(text);
+  }
+  return false;
+}
+
+interface Replica {
+  config: DatabaseConfig;
+  provider: ProviderInterface;
+  healthy: boolean;
+  active: number;
+}
+
+/**
+ * Routes statements of a replicated database.
+ *
+ * Writes and transactions run on the primary. Reads run on a healthy replica chosen
+ * by the load balancing strategy, except when a transaction is open in the current
+ * async context or the current session has written (see `runInDatabaseSession`).
+ * With failover enabled (default), a replica that fails and no longer answers pings
+ * is taken out of rotation until a health check finds it back; the read is retried
+ * on the next replica, or on the primary when none is left.
+ */
+export class ReplicationRouter {
+  private replicas: Replica[];
+  private nextReplica = 0;
+  private healthCheckTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: ReplicationConfig,
+    private readonly primary: ProviderInterface,
+    createProvider: (config: DatabaseConfig) => ProviderInterface
+  ) {
+    this.replicas = config.slaves.map(replica => ({
+      config: replica,
+      provider: createProvider(replica),
+      healthy: true,
+      active: 0
+    }));
+  }
+
+  /**
+   * Connect the primary and the replicas
+   */
+  async connect(): Promise<void> {
+    await this.primary.connect(this.config.master);
+    try {
+      await Promise.all(this.replicas.map(replica => replica.provider.connect(replica.config)));
+    } catch (error) {
+      await this.disconnect();
+      throw error;
+    }
+
+    if (this.config.healthCheckInterval && this.replicas.length > 0) {
+      this.healthCheckTimer = setInterval(() => {
+        this.checkHealth().catch(() => undefined);
+      }, this.config.healthCheckInterval);
+      this.healthCheckTimer.unref();
+    }
+    replicatedDatabases.add(this);
+  }
+
+  async disconnect(): Promise<void> {
+    replicatedDatabases.delete(this);
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+    await Promise.all([this.primary, ...this.replicas.map(replica => replica.provider)].map(provider => provider.disconnect()));
+  }
+
+  async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    return this.route(sql, provider => provider.query<T>(sql, params));
+  }
+
+  async execute(sql: string, params?: any[]): Promise<QueryResult> {
+    return this.route(sql, provider => provider.execute(sql, params));
+  }
+
+  /**
+   * Begin a transaction on the primary
+   */
+  async beginTransaction(): Promise<TransactionInterface> {
+    return this.primary.beginTransaction();
+  }
+
+  /**
+   * Run a callback with reads of the current async context pinned to the primary
+   */
+  async pinToPrimary<T>(callback: () => Promise<T>): Promise<T> {
+    const parent = sessions.getStore();
+    const session: DatabaseSession = {
+      ...(parent || createDatabaseSession()),
+      pinned: new Set([...(parent ? parent.pinned : []), this])
+    };
+    return sessions.run(session, callback);
+  }
+
+  /**
+   * Ping the primary; replicas are checked separately by `checkHealth`
+   */
+  async ping(): Promise<boolean> {
+    return this.primary.ping();
+  }
+
+  /**
+   * Ping the replicas and update which ones take reads
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.replicas.map(async replica => {
+      try {
+        replica.healthy = await replica.provider.ping();
+      } catch {
+        replica.healthy = false;
+      }
+    }));
+  }
+
+  getPrimary(): ProviderInterface {
+    return this.primary;
+  }
+
+  getReplicas(): ProviderInterface[] {
+    return this.replicas.map(replica => replica.provider);
+  }
+
+  /**
+   * Get the replicas currently taking reads
+   */
+  getHealthyReplicas(): ProviderInterface[] {
+    return this.replicas.filter(replica => replica.healthy).map(replica => replica.provider);
+  }
+
+  private async route<T>(sql: string, run: (provider: ProviderInterface) => Promise<T>): Promise<T> {
+    const session = sessions.getStore();
+
+    if (!isReadStatement(sql)) {
+      session?.written.add(this);
+      return run(this.primary);
+    }
+    if (this.config.splitting === false || session?.written.has(this) || session?.pinned.has(this)) {
+      return run(this.primary);
+    }
+
+    const tried = new Set<Replica>();
+    for (let replica = this.pickReplica(tried); replica; replica = this.pickReplica(tried)) {
+      tried.add(replica);
+      replica.active++;
+      try {
+        return await run(replica.provider);
+      } catch (error) {
+        if (this.config.failover === false || (await this.isAlive(replica))) {
+          throw error;
+        }
+        replica.healthy = false;
+      } finally {
+        replica.active--;
+      }
+    }
+
+    return run(this.primary);
+  }
+
+  private async isAlive(replica: Replica): Promise<boolean> {
+    try {
+      return await replica.provider.ping();
+    } catch {
+      return false;
+    }
+  }
+
+  private pickReplica(exclude: Set<Replica>): Replica | undefined {
+    const candidates = this.replicas.filter(replica => replica.healthy && !exclude.has(replica));
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const strategy: LoadBalancingStrategy = this.config.loadBalancing || 'round-robin';
+    switch (strategy) {
+      case 'random':
+        return candidates[Math.floor(Math.random() * candidates.length)];
+      case 'least-connections':
+        return candidates.reduce((least, replica) => (replica.active < least.active ? replica : least));
+      case 'weighted': {
+        // Weights are read from the replica options, 1 by default
+        const weights = candidates.map(replica => Math.max(0, Number(replica.config.options?.weight ?? 1)));
+        let point = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+        for (let index = 0; index < candidates.length; index++) {
+          point -= weights[index];
+          if (point < 0) {
+            return candidates[index];
+          }
+        }
+        return candidates[candidates.length - 1];
+      }
+      case 'round-robin':
+      default:
+        return candidates[this.nextReplica++ % candidates.length];
+    }
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Routing of keys to the shards of a database
+ * @module tsfox/core/features/database/core
+ */
+
+import { createHash } from 'crypto';
+import {
+  DatabaseConfig,
+  DatabaseInterface,
+  HashFunction,
+  QueryResult,
+  ShardConfig,
+  ShardingConfig
+} from '../interfaces';
+
+/** Points per unit of weight on the consistent hashing ring */
+const VIRTUAL_NODES = 64;
+
+interface Shard {
+  config: ShardConfig;
+  database: DatabaseInterface;
+}
+
+/**
+ * Routes keys to the shards of a database.
+ *
+ * - `range`: the shard whose range holds the key (`start` inclusive, `end` exclusive;
+ *   a missing bound is open)
+ * - `hash`: the hash of the key modulo the number of shards
+ * - `consistent-hash` (or `consistentHashing: true`): a ring of virtual nodes, weighted
+ *   by `weight`, so adding a shard moves only part of the keys
+ *
+ * Each shard is a database of its own and may itself be replicated.
+ */
+export class ShardRouter {
+  private shards: Shard[];
+  private ring: Array<{ point: number; shard: Shard }> = [];
+
+  constructor(
+    private readonly config: ShardingConfig,
+    createDatabase: (config: DatabaseConfig) => DatabaseInterface
+  ) {
+    if (config.shards.length === 0) {
+      throw new Error('Sharding requires at least one shard');
+    }
+    if (config.strategy === 'directory') {
+      throw new Error("Sharding strategy 'directory' is not supported");
+    }
+
+    const names = new Set<string>();
+    for (const shard of config.shards) {
+      if (names.has(shard.name)) {
+        throw new Error(`Duplicate shard name: ${shard.name}`);
+      }
+      names.add(shard.name);
+      if (config.strategy === 'range' && !shard.range) {
+        throw new Error(`Shard ${shard.name} needs a range`);
+      }
+    }
+
+    this.shards = config.shards.map(shard => ({ config: shard, database: createDatabase(shard.config) }));
+
+    if (this.usesRing()) {
+      for (const shard of this.shards) {
+        const points = VIRTUAL_NODES * Math.max(1, Math.round(shard.config.weight ?? 1));
+        for (let index = 0; index < points; index++) {
+          this.ring.push({ point: this.hash(`${shard.config.name}#${index}`), shard });
+        }
+      }
+      this.ring.sort((a, b) => a.point - b.point);
+    }
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await Promise.all(this.shards.map(shard => shard.database.connect()));
+    } catch (error) {
+      await this.disconnect();
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all(this.shards.map(shard => shard.database.disconnect()));
+  }
+
+  /**
+   * Get the name of the shard holding a key
+   */
+  getShardName(key: any): string {
+    return this.resolve(key).config.name;
+  }
+
+  /**
+   * Get the database of the shard holding a key
+   */
+  getShard(key: any): DatabaseInterface {
+    return this.resolve(key).database;
+  }
+
+  /**
+   * Get the database of a shard by name
+   */
+  getShardByName(name: string): DatabaseInterface {
+    const shard = this.shards.find(item => item.config.name === name);
+    if (!shard) {
+      throw new Error(`Unknown shard: ${name}`);
+    }
+    return shard.database;
+  }
+
+  getShardNames(): string[] {
+    return this.shards.map(shard => shard.config.name);
+  }
+
+  /**
+   * Run a read on every shard and concatenate the rows, in shard order.
+   * Ordering, limits and aggregates apply per shard.
+   */
+  async scatter<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    const results = await Promise.all(this.shards.map(shard => shard.database.query<T>(sql, params)));
+    return results.flat();
+  }
+
+  /**
+   * Run a statement on every shard, e.g. schema changes
+   */
+  async broadcast(sql: string, params?: any[]): Promise<QueryResult> {
+    const start = Date.now();
+    const results = await Promise.all(this.shards.map(shard => shard.database.execute(sql, params)));
+    return {
+      rows: results.flatMap(result => result.rows),
+      rowCount: results.reduce((count, result) => count + result.rowCount, 0),
+      executionTime: Date.now() - start
+    };
+  }
+
+  async ping(): Promise<boolean> {
+    const results = await Promise.all(this.shards.map(shard => shard.database.ping()));
+    return results.every(Boolean);
+  }
+
+  private resolve(key: any): Shard {
+    if (key === undefined || key === null) {
+      throw new Error(`A value of the shard key '${this.config.shardKey}' is required`);
+    }
+
+    if (this.config.strategy === 'range') {
+      const shard = this.shards.find(item => inRange(key, item.config.range!.start, item.config.range!.end));
+      if (!shard) {
+        throw new Error(`No shard holds ${this.config.shardKey} ${key}`);
+      }
+      return shard;
+    }
+
+    const point = this.hash(String(key));
+    if (!this.usesRing()) {
+      return this.shards[point % this.shards.length];
+    }
+
+    let low = 0;
+    let high = this.ring.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.ring[middle].point < point) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return this.ring[low % this.ring.length].shard;
+  }
+
+  private usesRing(): boolean {
+    return this.config.strategy === 'consistent-hash' || (this.config.strategy === 'hash' && this.config.consistentHashing === true);
+  }
+
+  private hash(value: string): number {
+    return hashKey(value, this.config.hashFunction || 'murmur3');
+  }
+}
+
+function inRange(key: any, start: any, end: any): boolean {
+  return (start === undefined || start === null || key >= start) && (end === undefined || end === null || key < end);
+}
+
+/**
+ * Unsigned 32-bit hash of a key
+ */
+export function hashKey(value: string, hashFunction: HashFunction): number {
+  switch (hashFunction) {
+    case 'crc32':
+      return crc32(value);
+    case 'murmur3':
+      return murmur3(value);
+    case 'md5':
+    case 'sha1':
+    case 'sha256':
+      return createHash(hashFunction).update(value).digest().readUInt32BE(0);
+    default:
+      throw new Error(`Unsupported hash function: ${hashFunction}`);
+  }
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(value: string): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, index) => {
+      let crc = index;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+      }
+      return crc >>> 0;
+    });
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(value)) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MurmurHash3 (x86, 32-bit, seed 0)
+ */
+function murmur3(value: string): number {
+  const bytes = Buffer.from(value);
+  const blocks = bytes.length - (bytes.length % 4);
+  let hash = 0;
+
+  for (let index = 0; index < blocks; index += 4) {
+    let block = bytes.readUInt32LE(index);
+    block = Math.imul(block, 0xcc9e2d51);
+    block = (block << 15) | (block >>> 17);
+    block = Math.imul(block, 0x1b873593);
+    hash ^= block;
+    hash = (hash << 13) | (hash >>> 19);
+    hash = (Math.imul(hash, 5) + 0xe6546b64) | 0;
+  }
+
+  let tail = 0;
+  switch (bytes.length % 4) {
+    case 3:
+      tail ^= bytes[blocks + 2] << 16;
+    // falls through
+    case 2:
+      tail ^= bytes[blocks + 1] << 8;
+    // falls through
+    case 1:
+      tail ^= bytes[blocks];
+      tail = Math.imul(tail, 0xcc9e2d51);
+      tail = (tail << 15) | (tail >>> 17);
+      tail = Math.imul(tail, 0x1b873593);
+      hash ^= tail;
+  }
+
+  hash ^= bytes.length;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
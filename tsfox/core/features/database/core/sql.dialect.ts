@@ -0,0 +1,208 @@
+/**
+ * @fileoverview SQL dialects: placeholders, identifier quoting and dialect-specific clauses
+ * @module tsfox/core/features/database/core
+ */
+
+import { DatabaseProvider } from '../interfaces';
+
+/**
+ * SQL dialects known to the query builder. `generic` writes `?` placeholders and
+ * leaves identifiers unquoted.
+ */
+export type SqlDialectName = 'generic' | 'postgres' | 'mysql' | 'sqlite';
+
+/**
+ * Dialect-specific parts of SQL statements
+ */
+export interface SqlDialect {
+  name: SqlDialectName;
+
+  /** Placeholder of the parameter at a position, starting at 1 */
+  placeholder(position: number): string;
+
+  /** Quote one identifier */
+  quoteIdentifier(name: string): string;
+
+  /** Whether INSERT, UPDATE and DELETE may return rows */
+  supportsReturning: boolean;
+
+  /** LIMIT clause of a query with an offset but no limit */
+  offsetOnlyLimit?: string;
+}
+
+const quoteWith = (quote: string) => (name: string) => `${quote}${name.split(quote).join(quote + quote)}${quote}`;
+
+const DIALECTS: Record<SqlDialectName, SqlDialect> = {
+  generic: {
+    name: 'generic',
+    placeholder: () => '?',
+    quoteIdentifier: name => name,
+    supportsReturning: true
+  },
+  postgres: {
+    name: 'postgres',
+    placeholder: position => `$${position}`,
+    quoteIdentifier: quoteWith('"'),
+    supportsReturning: true
+  },
+  mysql: {
+    name: 'mysql',
+    placeholder: () => '?',
+    quoteIdentifier: quoteWith('`'),
+    supportsReturning: false,
+    offsetOnlyLimit: 'LIMIT 18446744073709551615'
+  },
+  sqlite: {
+    name: 'sqlite',
+    placeholder: () => '?',
+    quoteIdentifier: quoteWith('"'),
+    supportsReturning: true,
+    offsetOnlyLimit: 'LIMIT -1'
+  }
+};
+
+/**
+ * Get a dialect by name
+ */
+export function getDialect(name: SqlDialectName = 'generic'): SqlDialect {
+  const dialect = DIALECTS[name];
+  if (!dialect) {
+    throw new Error(`Unknown SQL dialect: ${name}`);
+  }
+  return dialect;
+}
+
+/**
+ * Dialect of the SQL a provider runs. The memory provider runs the SQLite dialect.
+ */
+export function dialectForProvider(provider: DatabaseProvider): SqlDialect {
+  switch (provider) {
+    case 'postgresql':
+      return DIALECTS.postgres;
+    case 'mysql':
+      return DIALECTS.mysql;
+    case 'sqlite':
+    case 'memory':
+      return DIALECTS.sqlite;
+    default:
+      return DIALECTS.generic;
+  }
+}
+
+/**
+ * SQL fragment written as is. `?` placeholders in it are bound to its parameters
+ * and renumbered for the dialect.
+ */
+export class RawSql {
+  constructor(
+    readonly sql: string,
+    readonly params: any[] = []
+  ) {}
+}
+
+/**
+ * Create a raw SQL fragment
+ *
+ * @example
+ * builder.where(raw('LOWER(email) = ?', [email]))
+ */
+export function raw(sql: string, params: any[] = []): RawSql {
+  return new RawSql(sql, params);
+}
+
+/**
+ * Column or table of a clause: an identifier, `table.name`, `table.*` or `*`, optionally
+ * followed by an alias, or a raw fragment for an expression
+ */
+export type SqlReference = string | RawSql;
+
+/** One identifier: a column, table or alias name */
+const IDENTIFIER = /^[A-Za-z_][\w$]*$/;
+
+/** Column or table reference: `name`, `table.name` or `table.*` */
+const REFERENCE = /^[A-Za-z_][\w$]*(?:\.[A-Za-z_][\w$]*)*(?:\.\*)?$/;
+
+/** Reference with an alias: `name alias` or `name AS alias` */
+const ALIASED_REFERENCE = /^(\S+)\s+(?:AS\s+)?([A-Za-z_][\w$]*)$/i;
+
+/**
+ * Writes the SQL of one statement: collects its parameters in order, so placeholders
+ * of subqueries are numbered along with those of the enclosing query.
+ */
+export class SqlCompiler {
+  readonly params: any[] = [];
+
+  constructor(readonly dialect: SqlDialect) {}
+
+  /**
+   * Add a parameter and get its placeholder
+   */
+  bind(value: any): string {
+    this.params.push(value);
+    return this.dialect.placeholder(this.params.length);
+  }
+
+  /**
+   * SQL of a raw fragment, with its parameters bound
+   */
+  raw(fragment: RawSql): string {
+    let index = 0;
+    let sql = '';
+    let quote: string | null = null;
+
+    for (const char of fragment.sql) {
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '?') {
+        if (index >= fragment.params.length) {
+          throw new Error(`Missing value for placeholder ${index + 1} of raw SQL: ${fragment.sql}`);
+        }
+        sql += this.bind(fragment.params[index++]);
+        continue;
+      }
+      sql += char;
+    }
+    return sql;
+  }
+
+  /**
+   * Quote a column or table reference, with its alias if any. Anything else than a
+   * reference is rejected: expressions are written with `raw()`.
+   */
+  reference(reference: SqlReference): string {
+    if (reference instanceof RawSql) {
+      return this.raw(reference);
+    }
+
+    const text = reference.trim();
+    if (text === '*') {
+      return text;
+    }
+    if (REFERENCE.test(text)) {
+      return this.dialect.name === 'generic'
+        ? text
+        : text.split('.').map(part => (part === '*' ? part : this.dialect.quoteIdentifier(part))).join('.');
+    }
+
+    const aliased = ALIASED_REFERENCE.exec(text);
+    if (aliased && REFERENCE.test(aliased[1]) && !aliased[1].endsWith('*')) {
+      return this.dialect.name === 'generic'
+        ? text
+        : `${this.reference(aliased[1])} AS ${this.dialect.quoteIdentifier(aliased[2])}`;
+    }
+    throw new Error(`Invalid column or table reference: ${text} (write expressions with raw())`);
+  }
+
+  /**
+   * Quote one identifier, e.g. an alias or a column to write. Anything else than an
+   * identifier is rejected, as names may come from the keys of user input.
+   */
+  identifier(name: string): string {
+    if (!IDENTIFIER.test(name)) {
+      throw new Error(`Invalid identifier: ${name}`);
+    }
+    return this.dialect.quoteIdentifier(name);
+  }
+}
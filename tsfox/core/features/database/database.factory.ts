@@ -13,10 +13,20 @@ import {
   DatabaseInfo,
   DatabaseProvider,
   DatabaseStatus,
-  ProviderInterface
+  ProviderInterface,
+  ModelDefinition
 } from './interfaces';
-import { QueryBuilderFactory } from './core/query.builder';
+import { QueryBuilderFactory, SqlQueryBuilder } from './core/query.builder';
+import { dialectForProvider } from './core/sql.dialect';
 import { ConnectionManager, DatabaseConnection } from './core/connection.manager';
+import { InstrumentedTransaction, QueryInstrumentation, QueryInstrumentationOptions } from './core/query.instrumentation';
+import { ReplicationRouter, isReadStatement } from './core/replication.router';
+import { ShardRouter } from './core/shard.router';
+import { Model } from './models/model';
+import { ModelRegistry } from './models/model.registry';
+import { MemoryProvider } from './providers/memory.provider';
+import { SQLiteProvider } from './providers/sqlite.provider';
+import { ProviderTransaction } from './providers/provider.transaction';
 
 /**
  * Main database implementation
@@ -26,9 +36,19 @@ export class FoxDatabase implements DatabaseInterface {
   private provider: ProviderInterface | null = null;
   private isConnected: boolean = false;
   private queryCount: number = 0;
+  private models?: ModelRegistry;
+  private replication?: ReplicationRouter;
+  private sharding?: ShardRouter;
+  private instrumentation: QueryInstrumentation;
 
   constructor(private config: DatabaseConfig) {
-    this.connectionManager = new ConnectionManager();
+    const logging = config.logging;
+    this.instrumentation = new QueryInstrumentation({
+      logger: logging?.enabled && logging.slowQueries !== false ? logging.logger : undefined,
+      slowQueryThreshold: logging?.slowQueryThreshold,
+      labels: { database: config.database }
+    });
+    this.connectionManager = new ConnectionManager(this.instrumentation);
   }
 
   /**
@@ -36,8 +56,17 @@ export class FoxDatabase implements DatabaseInterface {
    */
   async connect(): Promise<void> {
     try {
-      this.provider = await this.createProvider();
-      await this.provider.connect(this.config);
+      if (this.config.sharding) {
+        this.sharding = new ShardRouter(this.config.sharding, config => new FoxDatabase(config));
+        await this.sharding.connect();
+      } else if (this.config.replication) {
+        this.provider = this.createProvider(this.config.replication.master);
+        this.replication = new ReplicationRouter(this.config.replication, this.provider, config => this.createProvider(config));
+        await this.replication.connect();
+      } else {
+        this.provider = this.createProvider(this.config);
+        await this.provider.connect(this.config);
+      }
       this.isConnected = true;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -50,12 +79,18 @@ export class FoxDatabase implements DatabaseInterface {
    */
   async disconnect(): Promise<void> {
     try {
-      if (this.provider) {
+      if (this.sharding) {
+        await this.sharding.disconnect();
+      } else if (this.replication) {
+        await this.replication.disconnect();
+      } else if (this.provider) {
         await this.provider.disconnect();
       }
       await this.connectionManager.closeAll();
       this.isConnected = false;
       this.provider = null;
+      this.replication = undefined;
+      this.sharding = undefined;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to disconnect from database: ${errorMessage}`);
@@ -70,7 +105,12 @@ export class FoxDatabase implements DatabaseInterface {
     this.queryCount++;
     
     try {
-      return await this.provider!.query<T>(sql, params);
+      return await this.instrumentation.query(sql, params, () => {
+        if (this.sharding) {
+          return this.sharding.scatter<T>(sql, params);
+        }
+        return (this.replication || this.provider!).query<T>(sql, params);
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Query execution failed: ${errorMessage}`);
@@ -85,7 +125,16 @@ export class FoxDatabase implements DatabaseInterface {
     this.queryCount++;
     
     try {
-      return await this.provider!.execute(sql, params);
+      if (this.sharding && !isReadStatement(sql)) {
+        throw new Error('Writes on a sharded database need a shard key: use shard(key)');
+      }
+      return await this.instrumentation.execute(sql, params, async () => {
+        if (this.sharding) {
+          const rows = await this.sharding.scatter(sql, params);
+          return { rows, rowCount: rows.length };
+        }
+        return (this.replication || this.provider!).execute(sql, params);
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Command execution failed: ${errorMessage}`);
@@ -97,17 +146,59 @@ export class FoxDatabase implements DatabaseInterface {
    */
   async transaction<T>(callback: (tx: TransactionInterface) => Promise<T>): Promise<T> {
     this.checkConnection();
-    
-    const transaction = await this.provider!.beginTransaction();
-    
-    try {
-      const result = await callback(transaction);
-      await transaction.commit();
-      return result;
-    } catch (error) {
-      await transaction.rollback();
-      throw error;
+    if (this.sharding) {
+      throw new Error('Transactions on a sharded database need a shard key: use shard(key).transaction()');
     }
+
+    const run = async () => {
+      const begun = await this.provider!.beginTransaction();
+      const transaction = new InstrumentedTransaction(
+        begun,
+        this.instrumentation,
+        dialectForProvider(this.config.provider)
+      );
+      
+      try {
+        // Statements the callback issues on the database itself join the transaction
+        const result = begun instanceof ProviderTransaction
+          ? await begun.run(() => callback(transaction))
+          : await callback(transaction);
+        await transaction.commit();
+        return result;
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
+    };
+
+    // Reads issued on the database while the transaction runs go to the primary
+    return this.replication ? this.replication.pinToPrimary(run) : run();
+  }
+
+  /**
+   * Configure the instrumentation of the statements of this database, e.g. to send
+   * their timings to a metrics collector or log slow queries with a framework logger
+   */
+  instrument(options: QueryInstrumentationOptions): this {
+    this.instrumentation.configure(options);
+    return this;
+  }
+
+  /**
+   * Get the instrumentation recording the statements of this database
+   */
+  getInstrumentation(): QueryInstrumentation {
+    return this.instrumentation;
+  }
+
+  /**
+   * Get the database of the shard holding a value of the shard key
+   */
+  shard(key: any): FoxDatabase {
+    if (!this.sharding) {
+      throw new Error('Sharding is not configured');
+    }
+    return this.sharding.getShard(key) as FoxDatabase;
   }
 
   /**
@@ -117,29 +208,55 @@ export class FoxDatabase implements DatabaseInterface {
     this.checkConnection();
     
     const builderType = this.isNoSqlProvider() ? 'nosql' : 'sql';
-    return QueryBuilderFactory.create(this, builderType);
+    return QueryBuilderFactory.create(this, builderType, dialectForProvider(this.config.provider));
   }
 
   /**
-   * Get model instance
+   * Get a SQL query builder writing the dialect of the provider
    */
-  getModel<T>(name: string): ModelInterface<T> {
+  getSqlBuilder(): SqlQueryBuilder {
     this.checkConnection();
-    
-    // TODO: Implement model factory
-    throw new Error('Model factory not implemented yet');
+
+    if (this.isNoSqlProvider()) {
+      throw new Error(`SQL query builder is not available for ${this.config.provider}`);
+    }
+    return QueryBuilderFactory.createSqlBuilder(this, dialectForProvider(this.config.provider));
+  }
+
+  /**
+   * Define a model on this database
+   */
+  defineModel<T extends Record<string, any> = Record<string, any>>(definition: ModelDefinition): Model<T> {
+    return this.getModels().define<T>(definition);
+  }
+
+  /**
+   * Get model instance (use `getModels().get<T>(name)` for a typed `Model`)
+   */
+  getModel<T = any>(name: string): ModelInterface<T> {
+    return this.getModels().get<any>(name);
+  }
+
+  /**
+   * Get the registry of the models defined on this database
+   */
+  getModels(): ModelRegistry {
+    if (!this.models) {
+      this.models = new ModelRegistry(this);
+    }
+    return this.models;
   }
 
   /**
    * Check connection health
    */
   async ping(): Promise<boolean> {
-    if (!this.isConnected || !this.provider) {
+    if (!this.isConnected) {
       return false;
     }
     
     try {
-      return await this.provider.ping();
+      return await (this.sharding || this.replication || this.provider!).ping();
     } catch {
       return false;
     }
@@ -151,11 +268,11 @@ export class FoxDatabase implements DatabaseInterface {
   getInfo(): DatabaseInfo {
     this.checkConnection();
     
-    const providerInfo = this.provider!.getInfo();
+    const providerInfo = this.provider ? this.provider.getInfo() : undefined;
     
     return {
       provider: this.config.provider,
-      version: providerInfo.version,
+      version: providerInfo ? providerInfo.version : 'sharded',
       connectionCount: this.queryCount,
       status: this.isConnected ? 'connected' : 'disconnected',
       metadata: {
@@ -177,7 +294,7 @@ export class FoxDatabase implements DatabaseInterface {
    * Check if connected and throw error if not
    */
   private checkConnection(): void {
-    if (!this.isConnected || !this.provider) {
+    if (!this.isConnected) {
       throw new Error('Database not connected');
     }
   }
@@ -185,8 +302,8 @@ export class FoxDatabase implements DatabaseInterface {
   /**
    * Create provider based on configuration
    */
-  private async createProvider(): Promise<ProviderInterface> {
-    switch (this.config.provider) {
+  private createProvider(config: DatabaseConfig): ProviderInterface {
+    switch (config.provider) {
       case 'postgresql':
         return new PostgreSQLProvider();
       case 'mysql':
@@ -200,7 +317,7 @@ export class FoxDatabase implements DatabaseInterface {
       case 'memory':
         return new MemoryProvider();
       default:
-        throw new Error(`Unsupported database provider: ${this.config.provider}`);
+        throw new Error(`Unsupported database provider: ${config.provider}`);
     }
   }
 
@@ -219,127 +336,31 @@ export class FoxDatabase implements DatabaseInterface {
   }
 
   /**
-   * Get provider
+   * Get provider (the primary of a replicated database, null for a sharded one)
    */
   getProvider(): ProviderInterface | null {
     return this.provider;
   }
 
   /**
-   * Get configuration
+   * Get the router of a replicated database
    */
-  getConfig(): DatabaseConfig {
-    return { ...this.config };
+  getReplicationRouter(): ReplicationRouter | undefined {
+    return this.replication;
   }
-}
-
-/**
- * Memory provider (for testing)
- */
-class MemoryProvider implements ProviderInterface {
-  name = 'memory';
-  readonly version = '1.0.0';
-  private data: Map<string, any[]> = new Map();
-  private isConnectedFlag = false;
 
-  async connect(config: DatabaseConfig): Promise<any> {
-    this.isConnectedFlag = true;
-    return Promise.resolve(null);
-  }
-
-  async disconnect(): Promise<void> {
-    this.isConnectedFlag = false;
-    this.data.clear();
-  }
-
-  async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
-    // Simple memory implementation for testing
-    console.log(`Memory query: ${sql}`, params);
-    return [];
-  }
-
-  async execute(sql: string, params?: any[]): Promise<QueryResult> {
-    console.log(`Memory execute: ${sql}`, params);
-    return {
-      rows: [],
-      rowCount: 0,
-      executionTime: 0
-    };
-  }
-
-  async beginTransaction(): Promise<TransactionInterface> {
-    // TODO: Implement memory transaction
-    throw new Error('Memory transactions not implemented');
-  }
-
-  async ping(): Promise<boolean> {
-    return this.isConnectedFlag;
-  }
-
-  getInfo(): any {
-    return {
-      name: this.name,
-      version: this.version,
-      description: 'In-memory database provider for testing'
-    };
-  }
-
-  getCapabilities(): any {
-    return {
-      transactions: false,
-      preparedStatements: false,
-      connectionPooling: false,
-      streaming: false,
-      ssl: false,
-      migrations: false,
-      schemas: false,
-      foreignKeys: false,
-      indexes: false,
-      views: false,
-      storedProcedures: false,
-      triggers: false,
-      dataTypes: ['string', 'number', 'boolean', 'date', 'json']
-    };
-  }
-
-  getMetadata(): any {
-    return {
-      installedAt: new Date(),
-      updatedAt: new Date(),
-      configHash: 'memory',
-      runtime: {
-        platform: process.platform,
-        version: process.version,
-        memory: process.memoryUsage().heapUsed,
-        uptime: process.uptime()
-      },
-      metrics: {
-        queriesExecuted: 0,
-        totalTime: 0,
-        averageTime: 0,
-        errors: 0
-      },
-      features: {}
-    };
-  }
-
-  async createPool(): Promise<any> {
-    throw new Error('Memory provider does not support connection pooling');
-  }
-
-  async validateConfig(): Promise<boolean> {
-    return true;
-  }
-
-  getDefaultConfig(): Partial<DatabaseConfig> {
-    return {
-      provider: 'memory',
-      database: 'memory'
-    };
+  /**
+   * Get the router of a sharded database
+   */
+  getShardRouter(): ShardRouter | undefined {
+    return this.sharding;
   }
 
-  async close(): Promise<void> {
-    await this.disconnect();
+  /**
+   * Get configuration
+   */
+  getConfig(): DatabaseConfig {
+    return { ...this.config };
   }
 }
 
@@ -370,18 +391,6 @@ class MySQLProvider extends MemoryProvider {
   }
 }
 
-class SQLiteProvider extends MemoryProvider {
-  readonly name = 'sqlite';
-  
-  getInfo(): any {
-    return {
-      ...super.getInfo(),
-      name: this.name,
-      description: 'SQLite database provider'
-    };
-  }
-}
-
 class MongoDBProvider extends MemoryProvider {
   readonly name = 'mongodb';
   
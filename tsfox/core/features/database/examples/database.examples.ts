@@ -10,7 +10,8 @@ import {
   database,
   DatabaseConfig,
   QueryBuilderInterface,
-  TransactionInterface
+  TransactionInterface,
+  raw
 } from '../index';
 
 /**
@@ -209,11 +210,11 @@ export class QueryBuilderExamples {
   static async example3_Aggregations(): Promise<void> {
     console.log('\n=== Query Builder Example 3: Aggregations ===');
     
-    const builder = this.db.getBuilder();
+    const builder = this.db.getSqlBuilder();
     
     // GROUP BY with COUNT
     const query1 = builder
-      .select(['category_id', 'COUNT(*) as post_count'])
+      .select(['category_id', raw('COUNT(*) as post_count')])
       .from('posts')
       .where({ status: 'published' })
       .groupBy(['category_id'])
@@ -228,9 +229,9 @@ export class QueryBuilderExamples {
       .select([
         'u.id',
         'u.name',
-        'COUNT(p.id) as total_posts',
-        'AVG(p.views) as avg_views',
-        'MAX(p.created_at) as last_post'
+        raw('COUNT(p.id) as total_posts'),
+        raw('AVG(p.views) as avg_views'),
+        raw('MAX(p.created_at) as last_post')
       ])
       .from('users u')
       .leftJoin('posts p', 'u.id = p.user_id')
@@ -7,8 +7,36 @@
 export { DatabaseFactory, FoxDatabase, DatabaseUtils } from './database.factory';
 
 // Core components
-export { QueryBuilderFactory, SqlQueryBuilder, NoSqlQueryBuilder } from './core/query.builder';
+export { QueryBuilderFactory, SqlQueryBuilder, NoSqlQueryBuilder, QueryExecutor, SqlCondition } from './core/query.builder';
+export { SqlCompiler, SqlDialect, SqlDialectName, SqlReference, RawSql, raw, getDialect, dialectForProvider } from './core/sql.dialect';
 export { ConnectionManager, DatabaseConnection, DatabaseTransaction, ConnectionPool } from './core/connection.manager';
+export { ReplicationRouter, isReadStatement } from './core/replication.router';
+export {
+  DatabaseSession,
+  runInDatabaseSession,
+  databaseSession,
+  replicationSession,
+  getDatabaseSession
+} from './core/database.session';
+export {
+  QueryInstrumentation,
+  QueryInstrumentationOptions,
+  QueryEvent,
+  QueryStats,
+  QueryLogger,
+  InstrumentedTransaction,
+  fingerprintQuery
+} from './core/query.instrumentation';
+export { ShardRouter, hashKey } from './core/shard.router';
+
+// Providers
+export * from './providers';
+
+// Models
+export * from './models';
+
+// Migrations
+export * from './migrations';
 
 // All interfaces
 export * from './interfaces';
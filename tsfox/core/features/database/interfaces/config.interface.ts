@@ -59,6 +59,12 @@ export interface DatabaseConfig {
   
   /** Logging configuration */
   logging?: LoggingConfig;
+  
+  /** Primary and replicas (reads go to replicas, writes to the primary) */
+  replication?: ReplicationConfig;
+  
+  /** Shards the data is split across */
+  sharding?: ShardingConfig;
 }
 
 /**
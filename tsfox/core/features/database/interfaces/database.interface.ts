@@ -326,6 +326,83 @@ export interface QueryData {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Page of query results with offset pagination
+ */
+export interface PaginatedResult<T = any> {
+  /** Rows of the page */
+  data: T[];
+
+  /** Number of rows of all pages */
+  total: number;
+
+  /** Page number, starting at 1 */
+  page: number;
+
+  /** Rows per page */
+  perPage: number;
+
+  /** Number of the last page */
+  lastPage: number;
+}
+
+/**
+ * Options of cursor pagination
+ */
+export interface CursorPaginationOptions {
+  /** Unique column the pages are ordered by */
+  column: string;
+
+  /** Value of the column in the last row of the previous page */
+  after?: any;
+
+  /** Rows per page */
+  limit: number;
+
+  /** Order of the column */
+  direction?: OrderDirection;
+}
+
+/**
+ * Page of query results with cursor pagination
+ */
+export interface CursorPaginatedResult<T = any> {
+  /** Rows of the page */
+  data: T[];
+
+  /** Cursor of the next page, or null on the last page */
+  nextCursor: any;
+}
+
+/**
+ * Command built by the NoSQL query builder, sent to the provider as JSON in place of SQL
+ */
+export interface NoSqlCommand {
+  /** Operation to run */
+  operation: 'find' | 'count' | 'insert' | 'update' | 'delete';
+  
+  /** Collection name */
+  collection: string;
+  
+  /** Document filter (`{ field: value }` or `{ field: { $gt: value } }`) */
+  filters: Record<string, any>;
+  
+  /** Sort fields */
+  sort?: Record<string, 1 | -1>;
+  
+  /** Maximum number of documents */
+  limit?: number;
+  
+  /** Number of documents to skip */
+  offset?: number;
+  
+  /** Fields to return */
+  select?: string[];
+  
+  /** Document to insert or changes to apply */
+  data?: Record<string, any>;
+}
+
 /**
  * Where condition type
  */
@@ -16,7 +16,18 @@ export {
   ValidationResult,
   ValidationError,
   QueryScopeInterface,
-  ModelEventsInterface
+  ModelEventsInterface,
+  ModelDefinition,
+  ModelConnection,
+  ModelScopeFunction,
+  ModelSchema,
+  ModelMetadata,
+  ModelRelation,
+  ModelHooks,
+  ModelOptions,
+  ModelField,
+  SchemaField,
+  RelationType
 } from './model.interface';
 
 // Export config interfaces with specific exports to avoid conflicts
@@ -31,6 +42,11 @@ export {
   CacheConfig,
   ReplicationConfig,
   ShardingConfig,
+  ShardConfig,
+  ShardRange,
+  LoadBalancingStrategy,
+  ShardingStrategy,
+  HashFunction,
   BackupConfig,
   MonitoringConfig
 } from './config.interface';
@@ -3,7 +3,7 @@
  * @module tsfox/core/features/database/interfaces
  */
 
-import { QueryBuilderInterface, QueryResult, WhereCondition } from './database.interface';
+import { DatabaseInterface, QueryBuilderInterface, QueryResult, WhereCondition } from './database.interface';
 import { ValidationRule } from './config.interface';
 
 /**
@@ -235,6 +235,9 @@ export interface ModelRelation {
   /** Pivot table (for many-to-many) */
   pivotTable?: string;
   
+  /** Pivot column referencing the target model (for many-to-many) */
+  relatedKey?: string;
+  
   /** Relation options */
   options?: RelationOptions;
 }
@@ -530,6 +533,45 @@ export interface ModelEventsInterface {
   off(event: string, handler?: (data: any) => Promise<void>): void;
 }
 
+/**
+ * Connection used by models to run queries (a database or a transaction)
+ */
+export type ModelConnection = Pick<DatabaseInterface, 'query' | 'execute' | 'getBuilder'>;
+
+/**
+ * Query scope function registered on a model definition
+ */
+export type ModelScopeFunction = (builder: QueryBuilderInterface, ...args: any[]) => QueryBuilderInterface | void;
+
+/**
+ * Model definition
+ */
+export interface ModelDefinition {
+  /** Model name, used to reference the model from relations */
+  name: string;
+  
+  /** Table name (default: snake_case plural of the model name) */
+  tableName?: string;
+  
+  /** Primary key field (default: id) */
+  primaryKey?: string;
+  
+  /** Schema the records are validated against */
+  schema: ModelSchema;
+  
+  /** Relations */
+  relations?: ModelRelation[];
+  
+  /** Indexes */
+  indexes?: ModelIndex[];
+  
+  /** Model options */
+  options?: ModelOptions;
+  
+  /** Named query scopes */
+  scopes?: Record<string, ModelScopeFunction>;
+}
+
 /**
  * Field types
  */
@@ -569,6 +611,7 @@ export type RelationType =
   | 'hasMany' 
   | 'belongsTo' 
   | 'belongsToMany'
+  | 'manyToMany'
   | 'morphTo'
   | 'morphOne'
   | 'morphMany';
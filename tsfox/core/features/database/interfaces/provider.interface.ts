@@ -568,6 +568,11 @@ export interface ForeignKeyDefinition {
   onUpdate?: ForeignKeyAction;
 }
 
+/**
+ * Connection given to migrations: the provider, a transaction, or a recorder during dry runs
+ */
+export type MigrationConnection = Pick<ProviderInterface, 'query' | 'execute'>;
+
 /**
  * Migration interface
  */
@@ -582,10 +587,10 @@ export interface Migration {
   version: string;
   
   /** Up function */
-  up: (provider: ProviderInterface) => Promise<void>;
+  up: (connection: MigrationConnection) => Promise<void>;
   
   /** Down function */
-  down: (provider: ProviderInterface) => Promise<void>;
+  down: (connection: MigrationConnection) => Promise<void>;
   
   /** Migration metadata */
   metadata?: Record<string, any>;
@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Migration exports
+ * @module tsfox/core/features/database/migrations
+ */
+
+export {
+  MigrationRunner,
+  MigrationError,
+  migrationChecksum,
+  MigrationDatabase,
+  MigrationRunnerOptions,
+  MigrationRunOptions,
+  MigrationRunResult,
+  MigrationStatement,
+  MigrationStatusEntry,
+  AppliedMigration
+} from './migration.runner';
+export { loadMigrations, createMigrationSource } from './migration.loader';
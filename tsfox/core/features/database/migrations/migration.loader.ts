@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Loading and generation of migration files
+ * @module tsfox/core/features/database/migrations
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Migration } from '../interfaces/provider.interface';
+import { requireModule } from '../../../utils/module.loader';
+
+/** Extensions of migration files */
+const MIGRATION_EXTENSIONS = ['.ts', '.js'];
+
+/** Migration file names: `<timestamp>_<name>.ts` */
+const MIGRATION_FILE = /^(\d+)_(\w+)$/;
+
+/**
+ * Load the migrations of a directory.
+ *
+ * Each file exports `up` and `down` functions (or a default object with both).
+ * TypeScript files are compiled through ts-node when the process does not already do it.
+ * The checksum is computed from the file content, so any edit to an applied
+ * migration is detected.
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  const files = (await fs.promises.readdir(directory))
+    .filter(file => MIGRATION_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+    .sort();
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const id = path.basename(file, path.extname(file));
+    const match = MIGRATION_FILE.exec(id);
+    if (!match) {
+      continue;
+    }
+
+    const filePath = path.join(directory, file);
+    const source = await fs.promises.readFile(filePath, 'utf8');
+    const exported = requireModule(filePath, directory);
+    const definition = exported.default && typeof exported.default.up === 'function' ? exported.default : exported;
+
+    if (typeof definition.up !== 'function' || typeof definition.down !== 'function') {
+      throw new Error(`Migration '${file}' must export 'up' and 'down' functions`);
+    }
+
+    migrations.push({
+      id,
+      name: match[2],
+      version: match[1],
+      up: definition.up,
+      down: definition.down,
+      metadata: {
+        file: filePath,
+        checksum: createHash('sha256').update(source).digest('hex')
+      }
+    });
+  }
+
+  return migrations;
+}
+
+/**
+ * Source of a new migration file
+ */
+export function createMigrationSource(name: string): string {
+  return `/**
+ * Migration: ${name}
+ */
+
+import type { MigrationConnection } from '@foxframework/core';
+
+export async function up(db: MigrationConnection): Promise<void> {
+  await db.execute(\`\`);
+}
+
+export async function down(db: MigrationConnection): Promise<void> {
+  await db.execute(\`\`);
+}
+`;
+}
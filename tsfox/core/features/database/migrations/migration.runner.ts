@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Migration runner keeping track of applied migrations
+ * @module tsfox/core/features/database/migrations
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseInterface, MigrationStatus, QueryResult } from '../interfaces/database.interface';
+import { Migration, MigrationConnection } from '../interfaces/provider.interface';
+
+/**
+ * Connection the runner works on
+ */
+export type MigrationDatabase = MigrationConnection & Partial<Pick<DatabaseInterface, 'transaction'>>;
+
+/**
+ * Runner options
+ */
+export interface MigrationRunnerOptions {
+  /** Table recording applied migrations (default: fox_migrations) */
+  tableName?: string;
+
+  /** Run each migration in its own transaction (default: true) */
+  transactionPerMigration?: boolean;
+}
+
+/**
+ * Options for a migrate or rollback run
+ */
+export interface MigrationRunOptions {
+  /** Record the SQL that would run instead of running it */
+  dryRun?: boolean;
+
+  /** Number of migrations to apply, or of batches to roll back (default: all pending / 1 batch) */
+  steps?: number;
+}
+
+/**
+ * Row of the migrations table
+ */
+export interface AppliedMigration {
+  id: string;
+  name: string;
+  batch: number;
+  checksum: string;
+  appliedAt: string;
+}
+
+/**
+ * Status of a migration
+ */
+export interface MigrationStatusEntry {
+  id: string;
+  name: string;
+  status: MigrationStatus;
+  batch?: number;
+  appliedAt?: string;
+
+  /** The migration changed after it was applied */
+  drifted: boolean;
+
+  /** The migration was applied but its definition is no longer available */
+  missing: boolean;
+}
+
+/**
+ * SQL statement recorded during a dry run
+ */
+export interface MigrationStatement {
+  migration?: string;
+  sql: string;
+  params: any[];
+}
+
+/**
+ * Result of a migrate or rollback run
+ */
+export interface MigrationRunResult {
+  /** Batch the migrations were applied in or rolled back from */
+  batch: number;
+
+  /** Ids of the migrations applied or rolled back, in execution order */
+  migrations: string[];
+
+  /** Statements that would run (dry runs only) */
+  statements: MigrationStatement[];
+}
+
+/**
+ * Error raised when migrations cannot be applied or rolled back
+ */
+export class MigrationError extends Error {
+  constructor(message: string, public readonly migration?: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Checksum of a migration, taken from `metadata.checksum` or computed from its functions
+ */
+export function migrationChecksum(migration: Migration): string {
+  if (migration.metadata?.checksum) {
+    return migration.metadata.checksum;
+  }
+  return createHash('sha256').update(`${migration.up.toString()}\n${migration.down.toString()}`).digest('hex');
+}
+
+/**
+ * Applies and rolls back migrations in order.
+ *
+ * Applied migrations are recorded with a batch number and a checksum. Migrations
+ * run in ascending id order and are rolled back batch by batch in reverse order.
+ * A migration that changed after it was applied blocks further runs, since the
+ * database no longer matches its source.
+ */
+export class MigrationRunner {
+  private readonly tableName: string;
+  private readonly transactionPerMigration: boolean;
+
+  constructor(private readonly database: MigrationDatabase, options: MigrationRunnerOptions = {}) {
+    this.tableName = options.tableName || 'fox_migrations';
+    this.transactionPerMigration = options.transactionPerMigration !== false;
+  }
+
+  /**
+   * Get the status of each migration, including applied migrations that no longer exist
+   */
+  async status(migrations: Migration[]): Promise<MigrationStatusEntry[]> {
+    const applied = await this.readApplied();
+    const byId = new Map(applied.map(row => [row.id, row]));
+    const entries: MigrationStatusEntry[] = sortMigrations(migrations).map(migration => {
+      const row = byId.get(migration.id);
+      return {
+        id: migration.id,
+        name: migration.name,
+        status: row ? 'completed' : 'pending',
+        batch: row?.batch,
+        appliedAt: row?.appliedAt,
+        drifted: Boolean(row && row.checksum !== migrationChecksum(migration)),
+        missing: false
+      };
+    });
+
+    const known = new Set(migrations.map(migration => migration.id));
+    for (const row of applied) {
+      if (!known.has(row.id)) {
+        entries.push({
+          id: row.id,
+          name: row.name,
+          status: 'completed',
+          batch: row.batch,
+          appliedAt: row.appliedAt,
+          drifted: false,
+          missing: true
+        });
+      }
+    }
+
+    return entries.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Apply pending migrations in a new batch
+   */
+  async migrate(migrations: Migration[], options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const statements: MigrationStatement[] = [];
+    const applied = await this.readApplied(options.dryRun ? statements : undefined);
+    this.checkDrift(migrations, applied);
+
+    const appliedIds = new Set(applied.map(row => row.id));
+    let pending = sortMigrations(migrations).filter(migration => !appliedIds.has(migration.id));
+    if (options.steps !== undefined) {
+      pending = pending.slice(0, options.steps);
+    }
+
+    const batch = applied.reduce((max, row) => Math.max(max, row.batch), 0) + 1;
+
+    for (const migration of pending) {
+      await this.run(migration, options.dryRun ? statements : undefined, async connection => {
+        await migration.up(connection);
+        await connection.execute(
+          `INSERT INTO ${this.tableName} (id, name, batch, checksum, applied_at) VALUES (?, ?, ?, ?, ?)`,
+          [migration.id, migration.name, batch, migrationChecksum(migration), new Date().toISOString()]
+        );
+      });
+    }
+
+    return { batch, migrations: pending.map(migration => migration.id), statements };
+  }
+
+  /**
+   * Roll back the last batches (one by default)
+   */
+  async rollback(migrations: Migration[], options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const statements: MigrationStatement[] = [];
+    const applied = await this.readApplied(options.dryRun ? statements : undefined);
+    this.checkDrift(migrations, applied);
+
+    const batches = Array.from(new Set(applied.map(row => row.batch))).sort((a, b) => b - a);
+    const targetBatches = new Set(batches.slice(0, options.steps ?? 1));
+    const byId = new Map(migrations.map(migration => [migration.id, migration]));
+    const rows = applied
+      .filter(row => targetBatches.has(row.batch))
+      .sort((a, b) => b.batch - a.batch || b.id.localeCompare(a.id));
+
+    for (const row of rows) {
+      const migration = byId.get(row.id);
+      if (!migration) {
+        throw new MigrationError(`Cannot roll back migration '${row.id}': its definition was not found`, row.id);
+      }
+
+      await this.run(migration, options.dryRun ? statements : undefined, async connection => {
+        await migration.down(connection);
+        await connection.execute(`DELETE FROM ${this.tableName} WHERE id = ?`, [migration.id]);
+      });
+    }
+
+    return {
+      batch: batches[0] ?? 0,
+      migrations: rows.map(row => row.id),
+      statements
+    };
+  }
+
+  /**
+   * Create the migrations table if needed
+   */
+  async ensureTable(connection: MigrationConnection = this.database): Promise<void> {
+    await connection.execute(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (` +
+      'id VARCHAR(255) PRIMARY KEY, name VARCHAR(255) NOT NULL, batch INTEGER NOT NULL, ' +
+      'checksum VARCHAR(64) NOT NULL, applied_at VARCHAR(32) NOT NULL)'
+    );
+  }
+
+  /**
+   * Read the applied migrations. During dry runs the table is not created; a missing
+   * table means nothing was applied yet.
+   */
+  private async readApplied(dryRunStatements?: MigrationStatement[]): Promise<AppliedMigration[]> {
+    if (dryRunStatements) {
+      try {
+        return await this.selectApplied();
+      } catch {
+        await this.ensureTable(recordingConnection(dryRunStatements));
+        return [];
+      }
+    }
+
+    await this.ensureTable();
+    return this.selectApplied();
+  }
+
+  private async selectApplied(): Promise<AppliedMigration[]> {
+    const rows = await this.database.query(
+      `SELECT id, name, batch, checksum, applied_at FROM ${this.tableName} ORDER BY id ASC`
+    );
+
+    return rows.map(row => ({
+      id: String(row.id),
+      name: row.name,
+      batch: Number(row.batch),
+      checksum: row.checksum,
+      appliedAt: row.applied_at
+    }));
+  }
+
+  private checkDrift(migrations: Migration[], applied: AppliedMigration[]): void {
+    const byId = new Map(migrations.map(migration => [migration.id, migration]));
+    const drifted = applied.filter(row => {
+      const migration = byId.get(row.id);
+      return migration && migrationChecksum(migration) !== row.checksum;
+    });
+
+    if (drifted.length > 0) {
+      throw new MigrationError(
+        `Applied migrations have changed since they ran: ${drifted.map(row => row.id).join(', ')}. ` +
+        'Revert the changes and add a new migration instead.',
+        drifted[0].id
+      );
+    }
+  }
+
+  private async run(
+    migration: Migration,
+    dryRunStatements: MigrationStatement[] | undefined,
+    callback: (connection: MigrationConnection) => Promise<void>
+  ): Promise<void> {
+    try {
+      if (dryRunStatements) {
+        await callback(recordingConnection(dryRunStatements, migration.id));
+      } else if (this.transactionPerMigration && this.database.transaction) {
+        await this.database.transaction(tx => callback(tx));
+      } else {
+        await callback(this.database);
+      }
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new MigrationError(`Migration '${migration.id}' failed: ${cause.message}`, migration.id, cause);
+    }
+  }
+}
+
+function sortMigrations(migrations: Migration[]): Migration[] {
+  return [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Connection recording statements instead of running them
+ */
+function recordingConnection(statements: MigrationStatement[], migration?: string): MigrationConnection {
+  return {
+    async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+      statements.push({ migration, sql, params });
+      return [];
+    },
+    async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+      statements.push({ migration, sql, params });
+      return { rows: [], rowCount: 0 };
+    }
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Model layer exports
+ * @module tsfox/core/features/database/models
+ */
+
+export { Model } from './model';
+export { ModelRecord } from './model.record';
+export type { ModelInstance } from './model.record';
+export { ModelQuery } from './model.query';
+export { ModelRepository } from './model.repository';
+export { ModelRegistry } from './model.registry';
+export { defaultTableName, SOFT_DELETE_FIELD, TIMESTAMP_FIELDS } from './model.schema';
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Fluent queries returning model records
+ * @module tsfox/core/features/database/models
+ */
+
+import {
+  OrderDirection,
+  QueryBuilderInterface,
+  QueryData,
+  WhereClause,
+  WhereCondition
+} from '../interfaces/database.interface';
+import { QueryScopeInterface } from '../interfaces/model.interface';
+import type { Model } from './model';
+import type { ModelInstance } from './model.record';
+
+type QueryOperation = (builder: QueryBuilderInterface) => void;
+
+/**
+ * Query on a model.
+ *
+ * Conditions are collected and applied to a fresh query builder on execution,
+ * so the same query can be run several times.
+ */
+export class ModelQuery<T extends Record<string, any> = Record<string, any>> {
+  private readonly operations: QueryOperation[] = [];
+  private readonly eagerLoad: string[] = [];
+  private loadEager = true;
+  private includeTrashed = false;
+
+  constructor(private readonly model: Model<T>) {}
+
+  /**
+   * Add conditions. Objects may have several keys; array values become `IN`
+   * and `null` becomes `IS NULL`.
+   */
+  where(conditions: Partial<T> | Record<string, any> | WhereClause | string): this {
+    for (const clause of toWhereClauses(conditions)) {
+      this.operations.push(builder => builder.andWhere(clause));
+    }
+    return this;
+  }
+
+  /**
+   * Order the results
+   */
+  orderBy(column: string, direction: OrderDirection = 'ASC'): this {
+    this.operations.push(builder => builder.orderBy(column, direction));
+    return this;
+  }
+
+  /**
+   * Limit the number of results
+   */
+  limit(count: number): this {
+    this.operations.push(builder => builder.limit(count));
+    return this;
+  }
+
+  /**
+   * Skip results
+   */
+  offset(count: number): this {
+    this.operations.push(builder => builder.offset(count));
+    return this;
+  }
+
+  /**
+   * Apply a named scope of the model or a scope object
+   */
+  scope(scope: string | QueryScopeInterface, ...args: any[]): this {
+    if (typeof scope === 'string') {
+      const apply = this.model.getScope(scope);
+      this.operations.push(builder => {
+        apply(builder, ...args);
+      });
+    } else {
+      this.operations.push(builder => {
+        scope.apply(builder);
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Modify the underlying query builder directly
+   */
+  tap(callback: (builder: QueryBuilderInterface) => void): this {
+    this.operations.push(callback);
+    return this;
+  }
+
+  /**
+   * Eager load relations; nested relations use dots (`posts.comments`)
+   */
+  with(...relations: string[]): this {
+    this.eagerLoad.push(...relations);
+    return this;
+  }
+
+  /**
+   * Skip the relations the model loads with every query
+   */
+  withoutEager(): this {
+    this.loadEager = false;
+    return this;
+  }
+
+  /**
+   * Include soft deleted records
+   */
+  withTrashed(): this {
+    this.includeTrashed = true;
+    return this;
+  }
+
+  /**
+   * Create the query builder for this query
+   */
+  toBuilder(): QueryBuilderInterface {
+    const builder = this.model.query();
+    const softDeleteColumn = this.model.getSoftDeleteColumn();
+
+    if (softDeleteColumn && !this.includeTrashed) {
+      builder.where({ column: softDeleteColumn, operator: 'IS NULL', value: null });
+    }
+    for (const operation of this.operations) {
+      operation(builder);
+    }
+
+    return builder;
+  }
+
+  /**
+   * Build the SELECT statement without executing it
+   */
+  build(): QueryData {
+    return this.toBuilder().build();
+  }
+
+  /**
+   * Get the matching records
+   */
+  async get(): Promise<ModelInstance<T>[]> {
+    return this.fetch(this.toBuilder());
+  }
+
+  /**
+   * Get the first matching record
+   */
+  async first(): Promise<ModelInstance<T> | null> {
+    const records = await this.fetch(this.toBuilder().limit(1));
+    return records[0] || null;
+  }
+
+  /**
+   * Count the matching records
+   */
+  async count(): Promise<number> {
+    return Number(await this.toBuilder().count());
+  }
+
+  /**
+   * Check if any record matches
+   */
+  async exists(): Promise<boolean> {
+    return (await this.count()) > 0;
+  }
+
+  /**
+   * Update the matching records without loading them (hooks are not run)
+   */
+  async update(data: Partial<T> | Record<string, any>): Promise<number> {
+    const result = await this.toBuilder().update(this.model.toDatabase(data));
+    return result.rowCount;
+  }
+
+  /**
+   * Delete the matching records without loading them (hooks are not run)
+   */
+  async delete(): Promise<number> {
+    const softDeleteColumn = this.model.getSoftDeleteColumn();
+    const builder = this.toBuilder();
+    const result = softDeleteColumn
+      ? await builder.update({ [softDeleteColumn]: new Date() })
+      : await builder.delete();
+
+    return result.rowCount;
+  }
+
+  private async fetch(builder: QueryBuilderInterface): Promise<ModelInstance<T>[]> {
+    const rows = await builder.execute();
+    const records = rows.map(row => this.model.hydrate(row));
+
+    const eager = this.loadEager ? this.model.getEagerRelations() : [];
+    await this.model.loadRelations(records, [...eager, ...this.eagerLoad]);
+    return records;
+  }
+}
+
+/**
+ * Convert query conditions to where clauses
+ */
+export function toWhereClauses(conditions: WhereCondition | Record<string, any>): WhereCondition[] {
+  if (typeof conditions === 'string' || isWhereClause(conditions)) {
+    return [conditions];
+  }
+
+  return Object.entries(conditions)
+    .filter(([, value]) => value !== undefined)
+    .map(([column, value]): WhereCondition => {
+      if (value === null) {
+        return { column, operator: 'IS NULL', value: null };
+      }
+      if (Array.isArray(value)) {
+        // An empty IN list matches nothing
+        return value.length > 0 ? { column, operator: 'IN', value } : '1 = 0';
+      }
+      return { column, operator: '=', value };
+    });
+}
+
+function isWhereClause(condition: any): condition is WhereClause {
+  return Boolean(condition) && typeof condition === 'object' && 'column' in condition && 'operator' in condition;
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Active record instances returned by models
+ * @module tsfox/core/features/database/models
+ */
+
+import { ActiveRecordInterface, ValidationResult } from '../interfaces/model.interface';
+import type { Model } from './model';
+
+/**
+ * A record with its attributes exposed as properties
+ */
+export type ModelInstance<T extends Record<string, any> = Record<string, any>> = ModelRecord<T> & T;
+
+/**
+ * Active record bound to a model.
+ *
+ * Attributes are exposed as properties (`user.email`) unless they clash with a
+ * record method, in which case they are reachable through `get()` and `set()`.
+ */
+export class ModelRecord<T extends Record<string, any> = Record<string, any>>
+  implements ActiveRecordInterface<ModelInstance<T>> {
+  private attributes: Record<string, any> = {};
+  private original: Record<string, any> = {};
+  private persisted: boolean;
+  private readonly relations = new Map<string, any>();
+
+  constructor(private readonly model: Model<T>, attributes: Record<string, any> = {}, persisted: boolean = false) {
+    this.persisted = persisted;
+
+    for (const name of model.getAttributeNames()) {
+      this.defineAccessor(name);
+    }
+    this.fill(attributes);
+
+    if (persisted) {
+      this.original = { ...this.attributes };
+    }
+  }
+
+  /**
+   * Get the model this record belongs to
+   */
+  getModel(): Model<T> {
+    return this.model;
+  }
+
+  /**
+   * Get the primary key value
+   */
+  getKey(): any {
+    return this.attributes[this.model.primaryKey];
+  }
+
+  /**
+   * Get an attribute value
+   */
+  get<K extends keyof T & string>(key: K): T[K];
+  get(key: string): any;
+  get(key: string): any {
+    return this.attributes[key];
+  }
+
+  /**
+   * Get an attribute value as it was when the record was loaded or saved
+   */
+  getOriginal(key: string): any {
+    return this.original[key];
+  }
+
+  /**
+   * Set an attribute value
+   */
+  set<K extends keyof T & string>(key: K, value: T[K]): this;
+  set(key: string, value: any): this;
+  set(key: string, value: any): this {
+    this.defineAccessor(key);
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * Set several attribute values
+   */
+  fill(data: Partial<T> | Record<string, any>): this {
+    for (const [key, value] of Object.entries(data)) {
+      this.set(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Get a copy of the attributes
+   */
+  getAttributes(): Record<string, any> {
+    return { ...this.attributes };
+  }
+
+  /**
+   * Get the attributes changed since the record was loaded or saved
+   */
+  getChanges(): Record<string, any> {
+    const changes: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(this.attributes)) {
+      if (!this.persisted || !isSameValue(value, this.original[key])) {
+        changes[key] = value;
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Check if the record, or one attribute, has unsaved changes
+   */
+  isDirty(key?: string): boolean {
+    const changes = this.getChanges();
+    return key ? key in changes : Object.keys(changes).length > 0;
+  }
+
+  /**
+   * Check if the record has not been saved yet
+   */
+  isNew(): boolean {
+    return !this.persisted;
+  }
+
+  /**
+   * Insert or update the record
+   */
+  async save(): Promise<ModelInstance<T>> {
+    return this.model.save(this as unknown as ModelInstance<T>);
+  }
+
+  /**
+   * Delete the record (soft delete when enabled on the model)
+   */
+  async delete(): Promise<boolean> {
+    return this.model.deleteRecord(this as unknown as ModelInstance<T>);
+  }
+
+  /**
+   * Reload the attributes from the database
+   */
+  async refresh(): Promise<ModelInstance<T>> {
+    return this.model.refresh(this as unknown as ModelInstance<T>);
+  }
+
+  /**
+   * Validate the attributes against the model schema
+   */
+  async validate(): Promise<ValidationResult> {
+    return this.model.validate(this.attributes);
+  }
+
+  /**
+   * Eager load relations on this record; nested relations use dots (`posts.comments`)
+   */
+  async load(...relations: string[]): Promise<this> {
+    await this.model.loadRelations([this as unknown as ModelInstance<T>], relations);
+    return this;
+  }
+
+  /**
+   * Get a relation, loading it on first access
+   */
+  async related<R = any>(name: string): Promise<R> {
+    if (!this.relations.has(name)) {
+      await this.load(name);
+    }
+    return this.relations.get(name);
+  }
+
+  /**
+   * Check if a relation has been loaded
+   */
+  relationLoaded(name: string): boolean {
+    return this.relations.has(name);
+  }
+
+  /**
+   * Get a loaded relation without querying
+   */
+  getRelation<R = any>(name: string): R | undefined {
+    return this.relations.get(name);
+  }
+
+  /**
+   * Set a loaded relation
+   */
+  setRelation(name: string, value: any): this {
+    if (!(name in this)) {
+      Object.defineProperty(this, name, {
+        get: () => this.relations.get(name),
+        enumerable: false,
+        configurable: true
+      });
+    }
+    this.relations.set(name, value);
+    return this;
+  }
+
+  /**
+   * Mark the record as saved with the given attributes.
+   * Used by the model after inserts, updates and refreshes.
+   */
+  syncOriginal(attributes?: Record<string, any>): this {
+    if (attributes) {
+      this.attributes = {};
+      this.fill(attributes);
+    }
+    this.original = { ...this.attributes };
+    this.persisted = true;
+    return this;
+  }
+
+  /**
+   * Convert to a plain object, including loaded relations
+   */
+  toObject(): Record<string, any> {
+    const object: Record<string, any> = { ...this.attributes };
+
+    for (const [name, value] of this.relations) {
+      object[name] = Array.isArray(value)
+        ? value.map(toPlain)
+        : toPlain(value);
+    }
+
+    return object;
+  }
+
+  /**
+   * Convert to JSON
+   */
+  toJSON(): Record<string, any> {
+    return this.toObject();
+  }
+
+  private defineAccessor(name: string): void {
+    if (name in this) {
+      return;
+    }
+
+    Object.defineProperty(this, name, {
+      get: () => this.attributes[name],
+      set: (value: any) => {
+        this.attributes[name] = value;
+      },
+      enumerable: true,
+      configurable: true
+    });
+  }
+}
+
+function toPlain(value: any): any {
+  return value instanceof ModelRecord ? value.toObject() : value;
+}
+
+function isSameValue(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Registry of the models defined on a connection
+ * @module tsfox/core/features/database/models
+ */
+
+import { DatabaseInterface } from '../interfaces/database.interface';
+import { ModelConnection, ModelDefinition } from '../interfaces/model.interface';
+import { Model } from './model';
+import { ModelRepository } from './model.repository';
+
+/**
+ * Models defined on a connection, resolved by name when loading relations
+ */
+export class ModelRegistry {
+  private readonly models = new Map<string, Model<any>>();
+
+  constructor(private readonly connection: ModelConnection & Partial<Pick<DatabaseInterface, 'transaction'>>) {}
+
+  /**
+   * Define a model
+   */
+  define<T extends Record<string, any> = Record<string, any>>(definition: ModelDefinition): Model<T> {
+    if (this.models.has(definition.name)) {
+      throw new Error(`Model '${definition.name}' is already defined`);
+    }
+
+    const model = new Model<T>(definition, this.connection, this);
+    this.models.set(definition.name, model);
+    return model;
+  }
+
+  /**
+   * Get a model by name
+   */
+  get<T extends Record<string, any> = Record<string, any>>(name: string): Model<T> {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new Error(`Model '${name}' is not defined`);
+    }
+    return model;
+  }
+
+  /**
+   * Check if a model is defined
+   */
+  has(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  /**
+   * Get a repository for a model
+   */
+  repository<T extends Record<string, any> = Record<string, any>>(name: string): ModelRepository<T> {
+    const database = this.connection.transaction ? { transaction: this.connection.transaction.bind(this.connection) } : undefined;
+    return new ModelRepository<T>(this.get<T>(name), database);
+  }
+
+  /**
+   * Get the names of the defined models
+   */
+  names(): string[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Remove all models
+   */
+  clear(): void {
+    this.models.clear();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Batched loading of model relations
+ * @module tsfox/core/features/database/models
+ */
+
+import { ModelRelation } from '../interfaces/model.interface';
+import type { Model } from './model';
+import type { ModelInstance } from './model.record';
+
+/**
+ * Load relations on a set of records.
+ *
+ * Each relation costs one query for all records (two for many-to-many, which
+ * also reads the pivot table), whatever the number of records. Nested
+ * relations (`posts.comments`) are loaded on the related records, along with
+ * the eager relations of their model unless that model is already being loaded
+ * higher up, so mutually eager models stop instead of loading each other forever.
+ */
+export async function loadRelations(
+  model: Model<any>,
+  records: ModelInstance<any>[],
+  relations: string[],
+  loading: Model<any>[] = [model]
+): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+
+  for (const [name, nested] of parseRelationPaths(relations)) {
+    const relation = model.getRelation(name);
+    const related = model.getRelatedModel(relation);
+    const loaded = await loadRelation(model, related, relation, records);
+    const eager = loading.some(item => item.name === related.name) ? [] : related.getEagerRelations();
+
+    if (eager.length > 0 || nested.length > 0) {
+      await loadRelations(related, loaded, [...eager, ...nested], [...loading, related]);
+    }
+  }
+}
+
+/**
+ * Group relation paths by their first segment
+ */
+function parseRelationPaths(paths: string[]): Map<string, string[]> {
+  const tree = new Map<string, string[]>();
+
+  for (const path of paths) {
+    const [name, ...rest] = path.split('.');
+    const nested = tree.get(name) || [];
+    if (rest.length > 0) {
+      nested.push(rest.join('.'));
+    }
+    tree.set(name, nested);
+  }
+
+  return tree;
+}
+
+async function loadRelation(
+  model: Model<any>,
+  related: Model<any>,
+  relation: ModelRelation,
+  records: ModelInstance<any>[]
+): Promise<ModelInstance<any>[]> {
+  switch (relation.type) {
+    case 'hasOne':
+    case 'hasMany': {
+      const keys = collectKeys(records, relation.localKey);
+      const targets = keys.length > 0
+        ? await related.newQuery().withoutEager().where({ [relation.foreignKey]: keys }).get()
+        : [];
+      const byOwner = groupBy(targets, relation.foreignKey);
+
+      for (const record of records) {
+        const matches = byOwner.get(keyOf(record.get(relation.localKey))) || [];
+        record.setRelation(relation.name, relation.type === 'hasOne' ? matches[0] || null : matches);
+      }
+      return targets;
+    }
+
+    case 'belongsTo': {
+      const keys = collectKeys(records, relation.foreignKey);
+      const targets = keys.length > 0
+        ? await related.newQuery().withoutEager().where({ [relation.localKey]: keys }).get()
+        : [];
+      const byKey = groupBy(targets, relation.localKey);
+
+      for (const record of records) {
+        const matches = byKey.get(keyOf(record.get(relation.foreignKey))) || [];
+        record.setRelation(relation.name, matches[0] || null);
+      }
+      return targets;
+    }
+
+    case 'belongsToMany':
+    case 'manyToMany': {
+      if (!relation.pivotTable || !relation.relatedKey) {
+        throw new Error(`Relation '${relation.name}' of model '${model.name}' requires pivotTable and relatedKey`);
+      }
+
+      const keys = collectKeys(records, relation.localKey);
+      const pivots = keys.length > 0
+        ? await model.getConnection().getBuilder()
+          .select([relation.foreignKey, relation.relatedKey])
+          .from(relation.pivotTable)
+          .where({ column: relation.foreignKey, operator: 'IN', value: keys })
+          .execute()
+        : [];
+      const targetKeys = unique(pivots.map(pivot => pivot[relation.relatedKey!]));
+      const targets = targetKeys.length > 0
+        ? await related.newQuery().withoutEager().where({ [related.primaryKey]: targetKeys }).get()
+        : [];
+      const byKey = groupBy(targets, related.primaryKey);
+
+      for (const record of records) {
+        const owner = keyOf(record.get(relation.localKey));
+        const matches = pivots
+          .filter(pivot => keyOf(pivot[relation.foreignKey]) === owner)
+          .map(pivot => (byKey.get(keyOf(pivot[relation.relatedKey!])) || [])[0])
+          .filter(Boolean);
+        record.setRelation(relation.name, matches);
+      }
+      return targets;
+    }
+
+    default:
+      throw new Error(`Relation type '${relation.type}' is not supported`);
+  }
+}
+
+function collectKeys(records: ModelInstance<any>[], column: string): any[] {
+  return unique(records.map(record => record.get(column)));
+}
+
+function unique(values: any[]): any[] {
+  const seen = new Map<string, any>();
+  for (const value of values) {
+    if (value !== null && value !== undefined && !seen.has(keyOf(value))) {
+      seen.set(keyOf(value), value);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+function groupBy(records: ModelInstance<any>[], column: string): Map<string, ModelInstance<any>[]> {
+  const groups = new Map<string, ModelInstance<any>[]>();
+  for (const record of records) {
+    const key = keyOf(record.get(column));
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return groups;
+}
+
+/**
+ * Keys are compared as strings, as drivers may return numeric ids as strings
+ */
+function keyOf(value: any): string {
+  return String(value);
+}
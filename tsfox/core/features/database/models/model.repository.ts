@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Repository over a model
+ * @module tsfox/core/features/database/models
+ */
+
+import { DatabaseInterface, QueryBuilderInterface } from '../interfaces/database.interface';
+import { RepositoryInterface } from '../interfaces/model.interface';
+import { Model } from './model';
+import { ModelInstance, ModelRecord } from './model.record';
+
+/**
+ * Repository giving data-mapper style access to a model
+ */
+export class ModelRepository<T extends Record<string, any> = Record<string, any>>
+  implements RepositoryInterface<ModelInstance<T>> {
+  /**
+   * @param model - Model the repository reads and writes
+   * @param database - Database used to open transactions; repositories
+   *   created inside a transaction have none and join the current one
+   */
+  constructor(
+    private readonly model: Model<T>,
+    private readonly database?: Pick<DatabaseInterface, 'transaction'>
+  ) {}
+
+  /**
+   * Get model instance
+   */
+  getModel(): Model<T> {
+    return this.model;
+  }
+
+  /**
+   * Find by ID
+   */
+  async findById(id: any): Promise<ModelInstance<T> | null> {
+    return this.model.find(id);
+  }
+
+  /**
+   * Find by conditions
+   */
+  async findBy(conditions: Record<string, any>): Promise<ModelInstance<T>[]> {
+    return this.model.findMany(conditions);
+  }
+
+  /**
+   * Find one by conditions
+   */
+  async findOneBy(conditions: Record<string, any>): Promise<ModelInstance<T> | null> {
+    return this.model.findFirst(conditions);
+  }
+
+  /**
+   * Save entity; plain objects are saved as new records
+   */
+  async save(entity: ModelInstance<T> | Partial<T>): Promise<ModelInstance<T>> {
+    return entity instanceof ModelRecord
+      ? this.model.save(entity as ModelInstance<T>)
+      : this.model.create(entity as Partial<T>);
+  }
+
+  /**
+   * Remove entity
+   */
+  async remove(entity: ModelInstance<T>): Promise<void> {
+    await this.model.deleteRecord(entity);
+  }
+
+  /**
+   * Create and save entity
+   */
+  async create(data: Partial<T>): Promise<ModelInstance<T>> {
+    return this.model.create(data);
+  }
+
+  /**
+   * Update entity
+   */
+  async update(id: any, data: Partial<T>): Promise<ModelInstance<T> | null> {
+    return this.model.update(id, data);
+  }
+
+  /**
+   * Delete by ID
+   */
+  async delete(id: any): Promise<boolean> {
+    return this.model.delete(id);
+  }
+
+  /**
+   * Count entities
+   */
+  async count(conditions?: Record<string, any>): Promise<number> {
+    return this.model.count(conditions);
+  }
+
+  /**
+   * Create query builder
+   */
+  createQueryBuilder(): QueryBuilderInterface {
+    return this.model.query();
+  }
+
+  /**
+   * Execute raw query
+   */
+  async query(sql: string, params?: any[]): Promise<any[]> {
+    return this.model.getConnection().query(sql, params);
+  }
+
+  /**
+   * Run a callback with a repository bound to a transaction.
+   * The transaction is committed when the callback resolves and rolled back when it throws.
+   */
+  async transaction<R>(callback: (repo: ModelRepository<T>) => Promise<R>): Promise<R> {
+    if (!this.database) {
+      return callback(this);
+    }
+
+    return this.database.transaction(tx => callback(new ModelRepository<T>(this.model.using(tx))));
+  }
+}
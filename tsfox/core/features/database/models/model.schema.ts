@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Conversion of model schemas to validation schemas and column values
+ * @module tsfox/core/features/database/models
+ */
+
+import { SchemaBuilder } from '../../validation/schema/schema.builder';
+import { SchemaInterface } from '../../validation/interfaces/validation.interface';
+import { ModelDefinition, ModelField, SchemaField } from '../interfaces/model.interface';
+import { FieldType } from '../interfaces/model.interface';
+
+/** Columns maintained by the `timestamps` option */
+export const TIMESTAMP_FIELDS = { createdAt: 'createdAt', updatedAt: 'updatedAt' } as const;
+
+/** Column maintained by the `softDeletes` option */
+export const SOFT_DELETE_FIELD = 'deletedAt';
+
+/**
+ * Default table name: snake_case plural of the model name (BlogPost -> blog_posts)
+ */
+export function defaultTableName(modelName: string): string {
+  const snake = modelName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+
+  if (/[^aeiou]y$/.test(snake)) {
+    return `${snake.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/.test(snake)) {
+    return `${snake}es`;
+  }
+  return `${snake}s`;
+}
+
+/**
+ * Names of the columns managed by the model itself
+ */
+export function managedFields(definition: ModelDefinition): string[] {
+  const fields = [definition.primaryKey || 'id'];
+
+  if (definition.options?.timestamps) {
+    fields.push(TIMESTAMP_FIELDS.createdAt, TIMESTAMP_FIELDS.updatedAt);
+  }
+  if (definition.options?.softDeletes) {
+    fields.push(SOFT_DELETE_FIELD);
+  }
+
+  return fields;
+}
+
+/**
+ * Build the object schema records are validated against.
+ * Managed columns (primary key, timestamps) are optional unless declared.
+ */
+export function buildValidationSchema(definition: ModelDefinition): SchemaInterface<Record<string, any>> {
+  const shape: Record<string, SchemaInterface> = {};
+
+  for (const field of definition.schema.fields) {
+    shape[field.name] = buildFieldSchema(field);
+  }
+  for (const name of managedFields(definition)) {
+    if (!shape[name]) {
+      shape[name] = SchemaBuilder.any().optional();
+    }
+  }
+
+  return SchemaBuilder.object(shape);
+}
+
+function buildFieldSchema(field: SchemaField): SchemaInterface {
+  const constraints = field.constraints || {};
+  let schema: SchemaInterface;
+
+  switch (field.type) {
+    case 'string': {
+      let string = SchemaBuilder.string();
+      if (constraints.min !== undefined) string = string.min(constraints.min);
+      if (constraints.max !== undefined) string = string.max(constraints.max);
+      if (constraints.pattern) string = string.pattern(new RegExp(constraints.pattern));
+      if (constraints.enum) string = string.oneOf(constraints.enum);
+      if (field.metadata?.format === 'email') string = string.email();
+      if (field.metadata?.format === 'url') string = string.url();
+      if (field.metadata?.format === 'uuid') string = string.uuid();
+      schema = string;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = SchemaBuilder.number();
+      if (field.type === 'integer') number = number.integer();
+      if (constraints.min !== undefined) number = number.min(constraints.min);
+      if (constraints.max !== undefined) number = number.max(constraints.max);
+      schema = constraints.enum ? SchemaBuilder.enum(constraints.enum) : number;
+      break;
+    }
+    case 'boolean':
+      schema = SchemaBuilder.boolean();
+      break;
+    case 'null':
+      schema = SchemaBuilder.null();
+      break;
+    case 'array':
+      schema = SchemaBuilder.array();
+      break;
+    case 'object':
+      schema = SchemaBuilder.object();
+      break;
+    default:
+      schema = SchemaBuilder.any();
+  }
+
+  if (constraints.custom) {
+    const check = constraints.custom;
+    schema = schema.custom({
+      name: `${field.name}.custom`,
+      validate: value => check(value)
+        ? { success: true, data: value }
+        : { success: false, errors: [{ path: [], message: `Invalid value for ${field.name}`, code: 'custom_validation', value }] }
+    });
+  }
+
+  return field.required ? schema : schema.optional();
+}
+
+/**
+ * Describe schema fields as model fields
+ */
+export function toModelFields(definition: ModelDefinition): ModelField[] {
+  return definition.schema.fields.map(field => ({
+    name: field.name,
+    type: toFieldType(field),
+    length: field.type === 'string' ? field.constraints?.max : undefined,
+    required: Boolean(field.required),
+    unique: Boolean(field.metadata?.unique),
+    defaultValue: field.metadata?.default,
+    metadata: field.metadata
+  }));
+}
+
+function toFieldType(field: SchemaField): FieldType {
+  if (field.metadata?.fieldType) {
+    return field.metadata.fieldType;
+  }
+  return field.type === 'null' ? 'json' : field.type;
+}
+
+/**
+ * Convert attribute values to column values
+ */
+export function toDatabase(fields: SchemaField[], attributes: Record<string, any>): Record<string, any> {
+  const types = new Map(fields.map(field => [field.name, field.type]));
+  const row: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(attributes)) {
+    const type = types.get(key);
+    row[key] = (type === 'object' || type === 'array') && value !== null && value !== undefined
+      ? JSON.stringify(value)
+      : value;
+  }
+
+  return row;
+}
+
+/**
+ * Convert column values to attribute values
+ */
+export function fromDatabase(fields: SchemaField[], row: Record<string, any>): Record<string, any> {
+  const types = new Map(fields.map(field => [field.name, field.type]));
+  const attributes: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const type = types.get(key);
+
+    if (type === 'boolean' && (value === 0 || value === 1)) {
+      attributes[key] = value === 1;
+    } else if ((type === 'object' || type === 'array') && typeof value === 'string') {
+      try {
+        attributes[key] = JSON.parse(value);
+      } catch {
+        attributes[key] = value;
+      }
+    } else {
+      attributes[key] = value;
+    }
+  }
+
+  return attributes;
+}
@@ -0,0 +1,516 @@
+/**
+ * @fileoverview Schema-driven model implementation
+ * @module tsfox/core/features/database/models
+ */
+
+import { QueryBuilderInterface, WhereCondition } from '../interfaces/database.interface';
+import {
+  ModelConnection,
+  ModelDefinition,
+  ModelHooks,
+  ModelInterface,
+  ModelMetadata,
+  ModelRelation,
+  ModelSchema,
+  ModelScopeFunction,
+  ValidationResult
+} from '../interfaces/model.interface';
+import { SchemaInterface, ValidationError as SchemaValidationError } from '../../validation/interfaces/validation.interface';
+import { ValidationError } from '../../validation/errors/validation.errors';
+import { ModelInstance, ModelRecord } from './model.record';
+import { ModelQuery } from './model.query';
+import { loadRelations } from './model.relations';
+import {
+  buildValidationSchema,
+  defaultTableName,
+  fromDatabase,
+  managedFields,
+  SOFT_DELETE_FIELD,
+  TIMESTAMP_FIELDS,
+  toDatabase,
+  toModelFields
+} from './model.schema';
+import type { ModelRegistry } from './model.registry';
+
+/**
+ * Model bound to a database connection.
+ *
+ * Records are validated against the model schema before every insert and
+ * update; invalid records are rejected with a `ValidationError`. Hooks run in
+ * this order: `beforeSave`, `beforeCreate`/`beforeUpdate`, the query,
+ * `afterCreate`/`afterUpdate`, `afterSave`. A `before*` hook may return an
+ * object of attributes to merge into the record.
+ *
+ * @example
+ * ```typescript
+ * const User = registry.define<{ id: number; email: string }>({
+ *   name: 'User',
+ *   schema: { version: '1', fields: [{ name: 'email', type: 'string', required: true }], validation: [], options: {} },
+ *   relations: [{ name: 'posts', type: 'hasMany', target: 'Post', localKey: 'id', foreignKey: 'user_id' }],
+ *   options: { timestamps: true }
+ * });
+ *
+ * const user = await User.create({ email: 'ada@example.com' });
+ * const users = await User.where({ active: true }).with('posts').get();
+ * ```
+ */
+export class Model<T extends Record<string, any> = Record<string, any>> implements ModelInterface<ModelInstance<T>> {
+  readonly name: string;
+  readonly tableName: string;
+  readonly primaryKey: string;
+  private readonly validationSchema: SchemaInterface<Record<string, any>>;
+  private readonly definedAt = new Date();
+
+  constructor(
+    private readonly definition: ModelDefinition,
+    private readonly connection: ModelConnection,
+    private readonly registry?: ModelRegistry
+  ) {
+    this.name = definition.name;
+    this.tableName = definition.tableName || defaultTableName(definition.name);
+    this.primaryKey = definition.primaryKey || 'id';
+    this.validationSchema = buildValidationSchema(definition);
+  }
+
+  /**
+   * Get the same model bound to another connection (e.g. a transaction)
+   */
+  using(connection: ModelConnection): Model<T> {
+    return new Model<T>(this.definition, connection, this.registry);
+  }
+
+  /**
+   * Get the connection queries run on
+   */
+  getConnection(): ModelConnection {
+    return this.connection;
+  }
+
+  /**
+   * Get the model definition
+   */
+  getDefinition(): ModelDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Find record by primary key
+   */
+  async find(id: any): Promise<ModelInstance<T> | null> {
+    return this.newQuery().where({ [this.primaryKey]: id }).first();
+  }
+
+  /**
+   * Find records matching conditions
+   */
+  async findMany(conditions: Record<string, any> = {}): Promise<ModelInstance<T>[]> {
+    return this.newQuery().where(conditions).get();
+  }
+
+  /**
+   * Find first record matching conditions
+   */
+  async findFirst(conditions: Record<string, any> = {}): Promise<ModelInstance<T> | null> {
+    return this.newQuery().where(conditions).first();
+  }
+
+  /**
+   * Find all records
+   */
+  async findAll(): Promise<ModelInstance<T>[]> {
+    return this.newQuery().get();
+  }
+
+  /**
+   * Create and save a record
+   */
+  async create(data: Partial<T>): Promise<ModelInstance<T>> {
+    return this.save(this.build(data));
+  }
+
+  /**
+   * Create and save several records
+   */
+  async createMany(data: Partial<T>[]): Promise<ModelInstance<T>[]> {
+    const records: ModelInstance<T>[] = [];
+    for (const item of data) {
+      records.push(await this.create(item));
+    }
+    return records;
+  }
+
+  /**
+   * Update a record by primary key
+   */
+  async update(id: any, data: Partial<T>): Promise<ModelInstance<T> | null> {
+    const record = await this.find(id);
+    if (!record) {
+      return null;
+    }
+
+    record.fill(data);
+    return this.save(record);
+  }
+
+  /**
+   * Update matching records in one query (hooks and validation are not run)
+   */
+  async updateMany(conditions: Record<string, any>, data: Partial<T>): Promise<number> {
+    const changes: Record<string, any> = { ...data };
+    if (this.definition.options?.timestamps) {
+      changes[TIMESTAMP_FIELDS.updatedAt] = new Date();
+    }
+    return this.newQuery().where(conditions).update(changes);
+  }
+
+  /**
+   * Delete a record by primary key
+   */
+  async delete(id: any): Promise<boolean> {
+    const record = await this.find(id);
+    return record ? this.deleteRecord(record) : false;
+  }
+
+  /**
+   * Delete matching records in one query (hooks are not run)
+   */
+  async deleteMany(conditions: Record<string, any> = {}): Promise<number> {
+    return this.newQuery().where(conditions).delete();
+  }
+
+  /**
+   * Count records
+   */
+  async count(conditions: Record<string, any> = {}): Promise<number> {
+    return this.newQuery().where(conditions).count();
+  }
+
+  /**
+   * Check if a record exists
+   */
+  async exists(conditions: Record<string, any>): Promise<boolean> {
+    return this.newQuery().where(conditions).exists();
+  }
+
+  /**
+   * Get a query builder on the model table
+   */
+  query(): QueryBuilderInterface {
+    return this.connection.getBuilder().select().from(this.tableName);
+  }
+
+  /**
+   * Start a model query
+   */
+  newQuery(): ModelQuery<T> {
+    return new ModelQuery<T>(this);
+  }
+
+  /**
+   * Start a model query with conditions
+   */
+  where(conditions: Partial<T> | Record<string, any> | WhereCondition): ModelQuery<T> {
+    return this.newQuery().where(conditions);
+  }
+
+  /**
+   * Start a model query with a named scope
+   */
+  scope(name: string, ...args: any[]): ModelQuery<T> {
+    return this.newQuery().scope(name, ...args);
+  }
+
+  /**
+   * Start a model query eager loading relations
+   */
+  with(...relations: string[]): ModelQuery<T> {
+    return this.newQuery().with(...relations);
+  }
+
+  /**
+   * Create an unsaved record, applying field defaults
+   */
+  build(data: Partial<T> = {}): ModelInstance<T> {
+    const defaults: Record<string, any> = {};
+
+    for (const field of this.definition.schema.fields) {
+      const value = field.metadata?.default;
+      if (value !== undefined) {
+        defaults[field.name] = typeof value === 'function' ? value() : value;
+      }
+    }
+
+    return new ModelRecord<T>(this, { ...defaults, ...data }) as ModelInstance<T>;
+  }
+
+  /**
+   * Create a saved record from a database row
+   */
+  hydrate(row: Record<string, any>): ModelInstance<T> {
+    return new ModelRecord<T>(this, fromDatabase(this.definition.schema.fields, row), true) as ModelInstance<T>;
+  }
+
+  /**
+   * Convert attribute values to column values
+   */
+  toDatabase(data: Record<string, any>): Record<string, any> {
+    return toDatabase(this.definition.schema.fields, data);
+  }
+
+  /**
+   * Validate data against the model schema
+   */
+  async validate(data: any): Promise<ValidationResult> {
+    const result = this.runValidation(data);
+
+    return {
+      valid: result.success,
+      data: result.data,
+      errors: (result.errors || []).map(error => ({
+        field: error.path.join('.'),
+        message: error.message,
+        code: error.code,
+        value: error.value
+      }))
+    };
+  }
+
+  /**
+   * Insert or update a record
+   */
+  async save(record: ModelInstance<T>): Promise<ModelInstance<T>> {
+    const hooks: ModelHooks = this.definition.options?.hooks || {};
+    const creating = record.isNew();
+
+    await this.runHook(record, hooks.beforeSave?.(record));
+    await this.runHook(record, creating
+      ? hooks.beforeCreate?.(record)
+      : hooks.beforeUpdate?.(record, record.getChanges()));
+
+    if (!creating && !record.isDirty()) {
+      return record;
+    }
+
+    this.touch(record, creating);
+    const data = this.validateOrFail(record.getAttributes());
+
+    if (creating) {
+      const result = await this.query().insert(this.toDatabase(data));
+      if (record.getKey() === undefined && result.insertId !== undefined) {
+        record.set(this.primaryKey, result.insertId);
+      }
+      record.fill(data).syncOriginal();
+      await hooks.afterCreate?.(record);
+    } else {
+      const changes: Record<string, any> = {};
+      for (const key of Object.keys(record.getChanges())) {
+        if (key in data) {
+          changes[key] = data[key];
+        }
+      }
+
+      await this.query()
+        .where({ column: this.primaryKey, operator: '=', value: record.getOriginal(this.primaryKey) })
+        .update(this.toDatabase(changes));
+      record.fill(data).syncOriginal();
+      await hooks.afterUpdate?.(record);
+    }
+
+    await hooks.afterSave?.(record);
+    return record;
+  }
+
+  /**
+   * Delete a record (sets the deletion timestamp when soft deletes are enabled)
+   */
+  async deleteRecord(record: ModelInstance<T>): Promise<boolean> {
+    if (record.isNew()) {
+      return false;
+    }
+
+    const hooks: ModelHooks = this.definition.options?.hooks || {};
+    const softDeleteColumn = this.getSoftDeleteColumn();
+    const builder = this.query().where({ column: this.primaryKey, operator: '=', value: record.getKey() });
+
+    await hooks.beforeDelete?.(record);
+
+    let deleted: number;
+    if (softDeleteColumn) {
+      const deletedAt = new Date();
+      deleted = (await builder.update({ [softDeleteColumn]: deletedAt })).rowCount;
+      record.set(softDeleteColumn, deletedAt).syncOriginal();
+    } else {
+      deleted = (await builder.delete()).rowCount;
+    }
+
+    await hooks.afterDelete?.(record);
+    return deleted > 0;
+  }
+
+  /**
+   * Restore a soft deleted record
+   */
+  async restore(record: ModelInstance<T>): Promise<ModelInstance<T>> {
+    const softDeleteColumn = this.getSoftDeleteColumn();
+    if (!softDeleteColumn) {
+      throw new Error(`Model '${this.name}' does not use soft deletes`);
+    }
+
+    record.set(softDeleteColumn, null);
+    return this.save(record);
+  }
+
+  /**
+   * Reload a record from the database
+   */
+  async refresh(record: ModelInstance<T>): Promise<ModelInstance<T>> {
+    const row = await this.query()
+      .where({ column: this.primaryKey, operator: '=', value: record.getKey() })
+      .first();
+
+    if (!row) {
+      throw new Error(`${this.name} record '${record.getKey()}' no longer exists`);
+    }
+
+    return record.syncOriginal(fromDatabase(this.definition.schema.fields, row)) as ModelInstance<T>;
+  }
+
+  /**
+   * Load relations on records
+   */
+  async loadRelations(records: ModelInstance<T>[], relations: string[]): Promise<void> {
+    await loadRelations(this, records, relations);
+  }
+
+  /**
+   * Get a relation definition
+   */
+  getRelation(name: string): ModelRelation {
+    const relation = this.definition.relations?.find(item => item.name === name);
+    if (!relation) {
+      throw new Error(`Relation '${name}' is not defined on model '${this.name}'`);
+    }
+    return relation;
+  }
+
+  /**
+   * Get the names of the relations loaded with every query
+   */
+  getEagerRelations(): string[] {
+    return (this.definition.relations || [])
+      .filter(relation => relation.options?.eager)
+      .map(relation => relation.name);
+  }
+
+  /**
+   * Get the model targeted by a relation, on the same connection
+   */
+  getRelatedModel(relation: ModelRelation): Model<any> {
+    if (!this.registry) {
+      throw new Error(`Model '${this.name}' is not registered, cannot resolve relation '${relation.name}'`);
+    }
+
+    const related = this.registry.get(relation.target);
+    return related.getConnection() === this.connection ? related : related.using(this.connection);
+  }
+
+  /**
+   * Get a named scope
+   */
+  getScope(name: string): ModelScopeFunction {
+    const scope = this.definition.scopes?.[name];
+    if (!scope) {
+      throw new Error(`Scope '${name}' is not defined on model '${this.name}'`);
+    }
+    return scope;
+  }
+
+  /**
+   * Get the soft delete column, if soft deletes are enabled
+   */
+  getSoftDeleteColumn(): string | undefined {
+    return this.definition.options?.softDeletes ? SOFT_DELETE_FIELD : undefined;
+  }
+
+  /**
+   * Get the names of the schema fields and managed columns
+   */
+  getAttributeNames(): string[] {
+    return [
+      ...this.definition.schema.fields.map(field => field.name),
+      ...managedFields(this.definition)
+    ];
+  }
+
+  /**
+   * Get model metadata
+   */
+  getMetadata(): ModelMetadata {
+    return {
+      name: this.name,
+      tableName: this.tableName,
+      primaryKey: this.primaryKey,
+      fields: toModelFields(this.definition),
+      relations: this.definition.relations || [],
+      indexes: this.definition.indexes || [],
+      options: this.definition.options || {},
+      createdAt: this.definedAt,
+      updatedAt: this.definedAt
+    };
+  }
+
+  /**
+   * Get model schema
+   */
+  getSchema(): ModelSchema {
+    return this.definition.schema;
+  }
+
+  private runValidation(data: any) {
+    return this.validationSchema.validate(data, {
+      allowUnknown: !this.definition.schema.options?.strict,
+      stripUnknown: true
+    });
+  }
+
+  /**
+   * Validate data and return the values to persist
+   */
+  private validateOrFail(data: Record<string, any>): Record<string, any> {
+    const result = this.runValidation(data);
+
+    if (!result.success) {
+      throw new ValidationError(
+        `Validation failed for model '${this.name}'`,
+        result.errors as SchemaValidationError[]
+      );
+    }
+
+    const values: Record<string, any> = {};
+    for (const [key, value] of Object.entries(result.data || {})) {
+      if (value !== undefined) {
+        values[key] = value;
+      }
+    }
+    return values;
+  }
+
+  private touch(record: ModelInstance<T>, creating: boolean): void {
+    if (!this.definition.options?.timestamps) {
+      return;
+    }
+
+    const now = new Date();
+    if (creating && record.get(TIMESTAMP_FIELDS.createdAt) === undefined) {
+      record.set(TIMESTAMP_FIELDS.createdAt, now);
+    }
+    record.set(TIMESTAMP_FIELDS.updatedAt, now);
+  }
+
+  private async runHook(record: ModelInstance<T>, result: Promise<any> | undefined): Promise<void> {
+    const data = await result;
+    if (data && typeof data === 'object' && data !== record) {
+      record.fill(data);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Database providers - Main export
+ * @module tsfox/core/features/database/providers
+ */
+
+export { SQLiteProvider, SQLiteOptions, PreparedStatement, SQLITE_MEMORY } from './sqlite.provider';
+export { MemoryProvider } from './memory.provider';
+export { ProviderTransaction, TransactionQueue, TransactionControl } from './provider.transaction';
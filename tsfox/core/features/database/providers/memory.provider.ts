@@ -0,0 +1,234 @@
+/**
+ * @fileoverview In-memory database provider for tests
+ * @module tsfox/core/features/database/providers
+ */
+
+import { DatabaseConfig } from '../interfaces/config.interface';
+import {
+  ConnectionInterface,
+  NoSqlCommand,
+  QueryResult
+} from '../interfaces/database.interface';
+import {
+  ConnectionPoolInterface,
+  ProviderCapabilities,
+  ProviderInfo,
+  ProviderInterface,
+  ProviderMetadata
+} from '../interfaces/provider.interface';
+import { MemoryResult, MemoryStore } from './memory.store';
+import { ProviderTransaction, TransactionQueue } from './provider.transaction';
+
+/**
+ * Memory provider.
+ *
+ * Keeps tables in process memory and runs the SQL generated by the SQL query builder,
+ * models and migrations, plus the JSON commands of the NoSQL query builder. Data lives
+ * until the provider disconnects.
+ *
+ * Transactions are serialized like on a single connection: a new transaction waits until
+ * the previous one is committed or rolled back, and statements issued on the provider in
+ * between wait for it too, unless they come from the callback of `FoxDatabase.transaction()`,
+ * where they join the transaction. Rolling back restores the tables as they were when the
+ * transaction began, which only holds the transaction's own writes since nothing else
+ * writes while it is open. Nested transactions are rejected.
+ */
+export class MemoryProvider implements ProviderInterface {
+  readonly name: string = 'memory';
+  readonly version = '1.0.0';
+
+  private store = new MemoryStore();
+  private connected = false;
+  private transactions = new TransactionQueue();
+  private transactionCount = 0;
+  private connectedAt?: Date;
+  private metrics = { queriesExecuted: 0, totalTime: 0, errors: 0 };
+
+  async connect(config: DatabaseConfig): Promise<ConnectionInterface> {
+    this.connected = true;
+    this.connectedAt = new Date();
+    return this.createConnection(config.database || 'memory');
+  }
+
+  /**
+   * Disconnect and drop all data
+   */
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.store.clear();
+  }
+
+  /**
+   * Run a statement and return its rows
+   */
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.transactions.run(() => this.run(sql, params).rows as T[]);
+  }
+
+  /**
+   * Run a statement and return result info
+   */
+  async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+    return this.transactions.run(() => this.runExecute(sql, params));
+  }
+
+  /**
+   * Begin a transaction, once the previous one is finished
+   */
+  async beginTransaction(): Promise<ProviderTransaction> {
+    this.checkConnected();
+    if (this.transactions.current()) {
+      throw new Error('Nested transactions are not supported: run the statements on the open transaction');
+    }
+
+    const release = await this.transactions.acquire();
+    const snapshot = this.store.snapshot();
+    const connection = {
+      query: async <T = any>(sql: string, params: any[] = []) => this.run(sql, params).rows as T[],
+      execute: async (sql: string, params: any[] = []) => this.runExecute(sql, params)
+    };
+
+    const transaction: ProviderTransaction = new ProviderTransaction(`memory_tx_${++this.transactionCount}`, connection, {
+      commit: async () => undefined,
+      rollback: async () => {
+        this.store.restore(snapshot);
+      },
+      bind: callback => this.transactions.bind(transaction, callback)
+    }, release, 'sqlite');
+
+    return transaction;
+  }
+
+  async ping(): Promise<boolean> {
+    return this.connected;
+  }
+
+  /**
+   * Get the names of the stored tables and collections
+   */
+  getTables(): string[] {
+    return this.store.getTableNames();
+  }
+
+  getInfo(): ProviderInfo {
+    return {
+      name: this.name,
+      version: this.version,
+      description: 'In-memory database provider for testing'
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      transactions: true,
+      preparedStatements: false,
+      connectionPooling: false,
+      streaming: false,
+      ssl: false,
+      migrations: true,
+      schemas: false,
+      foreignKeys: false,
+      indexes: true,
+      views: false,
+      storedProcedures: false,
+      triggers: false,
+      maxConnections: 1,
+      dataTypes: ['string', 'number', 'boolean', 'date', 'json']
+    };
+  }
+
+  getMetadata(): ProviderMetadata {
+    const { queriesExecuted, totalTime, errors } = this.metrics;
+    return {
+      installedAt: this.connectedAt || new Date(),
+      updatedAt: new Date(),
+      configHash: 'memory',
+      runtime: {
+        platform: process.platform,
+        version: process.version,
+        memory: process.memoryUsage().heapUsed,
+        uptime: process.uptime()
+      },
+      metrics: {
+        queriesExecuted,
+        totalTime,
+        averageTime: queriesExecuted > 0 ? totalTime / queriesExecuted : 0,
+        errors
+      },
+      features: {
+        inMemory: true
+      }
+    };
+  }
+
+  async createPool(): Promise<ConnectionPoolInterface> {
+    throw new Error('Memory provider does not support connection pooling');
+  }
+
+  async validateConfig(): Promise<boolean> {
+    return true;
+  }
+
+  getDefaultConfig(): Partial<DatabaseConfig> {
+    return {
+      provider: 'memory',
+      database: 'memory'
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.disconnect();
+  }
+
+  private runExecute(sql: string, params: any[]): QueryResult {
+    const start = Date.now();
+    const result = this.run(sql, params);
+    return { ...result, executionTime: Date.now() - start };
+  }
+
+  /**
+   * Run SQL, or a JSON command of the NoSQL query builder
+   */
+  private run(sql: string, params: any[]): MemoryResult {
+    this.checkConnected();
+    const start = Date.now();
+    this.metrics.queriesExecuted++;
+
+    try {
+      const text = sql.trim();
+      return text.startsWith('{')
+        ? this.store.runCommand(JSON.parse(text) as NoSqlCommand)
+        : this.store.run(text, params);
+    } catch (error) {
+      this.metrics.errors++;
+      throw error;
+    } finally {
+      this.metrics.totalTime += Date.now() - start;
+    }
+  }
+
+  private checkConnected(): void {
+    if (!this.connected) {
+      throw new Error('Memory database is not connected');
+    }
+  }
+
+  private createConnection(database: string): ConnectionInterface {
+    const createdAt = new Date();
+    return {
+      query: (sql, params) => this.query(sql, params),
+      execute: (sql, params) => this.execute(sql, params),
+      beginTransaction: () => this.beginTransaction(),
+      ping: () => this.ping(),
+      close: () => this.disconnect(),
+      getId: () => `memory:${database}`,
+      isActive: () => this.connected,
+      getMetadata: () => ({
+        id: `memory:${database}`,
+        createdAt,
+        lastActivity: new Date(),
+        queryCount: this.metrics.queriesExecuted
+      })
+    };
+  }
+}
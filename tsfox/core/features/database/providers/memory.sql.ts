@@ -0,0 +1,947 @@
+/**
+ * @fileoverview SQL parser of the memory provider
+ * @module tsfox/core/features/database/providers
+ */
+
+import { JoinType, OrderDirection } from '../interfaces/database.interface';
+
+/**
+ * Expression of a statement
+ */
+export type SqlExpression =
+  | { kind: 'literal'; value: any }
+  | { kind: 'param'; index: number }
+  | { kind: 'column'; table?: string; name: string }
+  | { kind: 'star'; table?: string }
+  | { kind: 'unary'; operator: 'NOT' | '-'; operand: SqlExpression }
+  | { kind: 'binary'; operator: string; left: SqlExpression; right: SqlExpression }
+  | { kind: 'like'; not: boolean; operand: SqlExpression; pattern: SqlExpression }
+  | { kind: 'in'; not: boolean; operand: SqlExpression; values: SqlExpression[]; query?: SqlSelect }
+  | { kind: 'between'; not: boolean; operand: SqlExpression; low: SqlExpression; high: SqlExpression }
+  | { kind: 'isNull'; not: boolean; operand: SqlExpression }
+  | { kind: 'call'; name: string; args: SqlExpression[]; distinct: boolean }
+  | { kind: 'subquery'; query: SqlSelect }
+  | { kind: 'exists'; query: SqlSelect };
+
+export interface SqlTableRef {
+  name: string;
+  alias: string;
+
+  /** Query of a derived table */
+  query?: SqlSelect;
+}
+
+export interface SqlSelectColumn {
+  expression: SqlExpression;
+  alias?: string;
+
+  /** Source text, used as the name of unnamed expressions */
+  text: string;
+}
+
+export interface SqlColumnSpec {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  autoIncrement: boolean;
+  notNull: boolean;
+  unique: boolean;
+  defaultValue?: SqlExpression;
+}
+
+export interface SqlSelect {
+  type: 'select';
+  distinct: boolean;
+  columns: SqlSelectColumn[];
+  from?: SqlTableRef;
+  joins: Array<{ type: JoinType; table: SqlTableRef; on?: SqlExpression }>;
+  where?: SqlExpression;
+  groupBy: SqlExpression[];
+  having?: SqlExpression;
+  orderBy: Array<{ expression: SqlExpression; direction: OrderDirection }>;
+  limit?: SqlExpression;
+  offset?: SqlExpression;
+
+  /** Queries combined with this one; ORDER BY, LIMIT and OFFSET apply to the combined rows */
+  unions: Array<{ all: boolean; select: SqlSelect }>;
+
+  /** Common table expressions */
+  with?: SqlCommonTable[];
+}
+
+export interface SqlCommonTable {
+  name: string;
+  columns?: string[];
+  query: SqlSelect;
+  recursive: boolean;
+}
+
+export type SqlAssignment = { column: string; value: SqlExpression };
+
+export interface SqlConflictClause {
+  /** Conflict target; any unique key when empty */
+  columns: string[];
+  action: 'nothing' | 'update';
+  assignments: SqlAssignment[];
+  where?: SqlExpression;
+}
+
+export interface SqlInsert {
+  type: 'insert';
+  table: string;
+  columns: string[];
+  rows: SqlExpression[][];
+  onConflict?: SqlConflictClause;
+  returning?: SqlSelectColumn[];
+  with?: SqlCommonTable[];
+}
+
+export type SqlStatement =
+  | SqlSelect
+  | SqlInsert
+  | { type: 'update'; table: string; assignments: SqlAssignment[]; where?: SqlExpression; returning?: SqlSelectColumn[]; with?: SqlCommonTable[] }
+  | { type: 'delete'; table: string; where?: SqlExpression; returning?: SqlSelectColumn[]; with?: SqlCommonTable[] }
+  | { type: 'createTable'; table: string; ifNotExists: boolean; columns: SqlColumnSpec[]; primaryKey: string[]; unique: string[][] }
+  | { type: 'dropTable'; table: string; ifExists: boolean }
+  | { type: 'createIndex'; name: string; table: string; columns: string[]; unique: boolean; ifNotExists: boolean }
+  | { type: 'dropIndex'; name: string; ifExists: boolean }
+  | { type: 'alterTable'; table: string; action: 'addColumn'; column: SqlColumnSpec }
+  | { type: 'alterTable'; table: string; action: 'dropColumn'; column: string }
+  | { type: 'alterTable'; table: string; action: 'renameColumn'; column: string; newName: string }
+  | { type: 'alterTable'; table: string; action: 'renameTable'; newName: string };
+
+/** Functions computed over groups of rows */
+export const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+interface Token {
+  type: 'word' | 'identifier' | 'number' | 'string' | 'param' | 'operator' | 'punctuation' | 'end';
+  value: string;
+  position: number;
+  index?: number;
+}
+
+/** Keywords that end an expression or cannot be used as an alias */
+const RESERVED = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'JOIN', 'INNER', 'LEFT',
+  'RIGHT', 'FULL', 'CROSS', 'OUTER', 'ON', 'AND', 'OR', 'NOT', 'AS', 'ASC', 'DESC', 'IN', 'IS', 'NULL',
+  'LIKE', 'BETWEEN', 'SET', 'VALUES', 'INTO', 'UNION', 'EXCEPT', 'INTERSECT', 'WITH', 'EXISTS', 'RETURNING'
+]);
+
+/** Keywords that start a column constraint */
+const COLUMN_CONSTRAINTS = new Set(['PRIMARY', 'NOT', 'NULL', 'UNIQUE', 'DEFAULT', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'COLLATE', 'AUTOINCREMENT', 'GENERATED']);
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+/**
+ * Split SQL into tokens. Parameters (`?`) are numbered in order of appearance.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  let paramIndex = 0;
+
+  while (position < sql.length) {
+    const char = sql[position];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (sql.startsWith('--', position)) {
+      const end = sql.indexOf('\n', position);
+      position = end === -1 ? sql.length : end;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(position))!;
+      tokens.push({ type: 'word', value: match[0], position });
+      position += match[0].length;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[position + 1] || ''))) {
+      const match = /^(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?/.exec(sql.slice(position))!;
+      tokens.push({ type: 'number', value: match[0], position });
+      position += match[0].length;
+    } else if (char === "'") {
+      let value = '';
+      let end = position + 1;
+      for (;;) {
+        if (end >= sql.length) {
+          throw new Error('unrecognized token: unterminated string');
+        }
+        if (sql[end] === "'") {
+          if (sql[end + 1] === "'") {
+            value += "'";
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        value += sql[end++];
+      }
+      tokens.push({ type: 'string', value, position });
+      position = end + 1;
+    } else if (char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      const end = sql.indexOf(close, position + 1);
+      if (end === -1) {
+        throw new Error('unrecognized token: unterminated identifier');
+      }
+      tokens.push({ type: 'identifier', value: sql.slice(position + 1, end), position });
+      position = end + 1;
+    } else if (char === '?') {
+      tokens.push({ type: 'param', value: '?', position, index: paramIndex++ });
+      position++;
+    } else if (char === '$' && /[0-9]/.test(sql[position + 1] || '')) {
+      // Numbered parameters ($1, $2, ...)
+      const match = /^\$(\d+)/.exec(sql.slice(position))!;
+      tokens.push({ type: 'param', value: match[0], position, index: Number(match[1]) - 1 });
+      position += match[0].length;
+    } else if ('(),.;'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position });
+      position++;
+    } else {
+      const operator = OPERATORS.find(candidate => sql.startsWith(candidate, position));
+      if (!operator) {
+        throw new Error(`unrecognized token: "${char}"`);
+      }
+      tokens.push({ type: 'operator', value: operator, position });
+      position += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: sql.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for the SQL the query builders and migrations produce
+ */
+class SqlParser {
+  private tokens: Token[];
+  private current = 0;
+
+  constructor(private readonly sql: string) {
+    this.tokens = tokenize(sql);
+  }
+
+  parse(): SqlStatement {
+    const statement = this.parseStatement();
+    this.acceptPunctuation(';');
+    if (this.peek().type !== 'end') {
+      this.fail();
+    }
+    return statement;
+  }
+
+  private parseStatement(): SqlStatement {
+    const keyword = this.peek().value.toUpperCase();
+    switch (keyword) {
+      case 'WITH': {
+        const commonTables = this.parseWith();
+        const statement = this.parseStatement();
+        if (!['select', 'insert', 'update', 'delete'].includes(statement.type)) {
+          this.fail();
+        }
+        (statement as SqlSelect).with = commonTables;
+        return statement;
+      }
+      case 'SELECT':
+        return this.parseSelect();
+      case 'INSERT':
+        return this.parseInsert();
+      case 'UPDATE':
+        return this.parseUpdate();
+      case 'DELETE':
+        return this.parseDelete();
+      case 'CREATE':
+        return this.parseCreate();
+      case 'DROP':
+        return this.parseDrop();
+      case 'ALTER':
+        return this.parseAlter();
+      default:
+        return this.fail();
+    }
+  }
+
+  private parseWith(): SqlCommonTable[] {
+    this.expectKeyword('WITH');
+    const recursive = this.acceptKeyword('RECURSIVE');
+    return this.parseList(() => {
+      const name = this.parseName();
+      const columns = this.peekPunctuation('(') ? this.parseColumnList() : undefined;
+      this.expectKeyword('AS');
+      this.expectPunctuation('(');
+      const query = this.parseSelect();
+      this.expectPunctuation(')');
+      return { name, columns, query, recursive };
+    });
+  }
+
+  /**
+   * Parse a query: a SELECT, possibly combined with others by UNION, then ORDER BY and LIMIT
+   */
+  private parseSelect(): SqlSelect {
+    if (this.peekKeyword('WITH')) {
+      const commonTables = this.parseWith();
+      return { ...this.parseSelect(), with: commonTables };
+    }
+
+    const select = this.parseSelectCore();
+    while (this.acceptKeyword('UNION')) {
+      const all = this.acceptKeyword('ALL');
+      select.unions.push({ all, select: this.parseSelectCore() });
+    }
+    if (this.peekKeyword('EXCEPT') || this.peekKeyword('INTERSECT')) {
+      this.fail();
+    }
+
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      select.orderBy = this.parseList(() => {
+        const expression = this.parseExpression();
+        if (this.acceptKeyword('DESC')) {
+          return { expression, direction: 'DESC' as OrderDirection };
+        }
+        this.acceptKeyword('ASC');
+        return { expression, direction: 'ASC' as OrderDirection };
+      });
+    }
+    if (this.acceptKeyword('LIMIT')) {
+      select.limit = this.parseExpression();
+      if (this.acceptKeyword('OFFSET')) {
+        select.offset = this.parseExpression();
+      } else if (this.acceptPunctuation(',')) {
+        // LIMIT offset, count
+        select.offset = select.limit;
+        select.limit = this.parseExpression();
+      }
+    } else if (this.acceptKeyword('OFFSET')) {
+      select.offset = this.parseExpression();
+    }
+
+    return select;
+  }
+
+  private parseSelectCore(): SqlSelect {
+    this.expectKeyword('SELECT');
+    const distinct = this.acceptKeyword('DISTINCT');
+    this.acceptKeyword('ALL');
+
+    const columns: SqlSelectColumn[] = [];
+    do {
+      const start = this.peek().position;
+      const expression = this.parseExpression();
+      const text = this.sql.slice(start, this.peek().position).trim();
+      columns.push({ expression, alias: this.parseAlias(), text });
+    } while (this.acceptPunctuation(','));
+
+    const select: SqlSelect = { type: 'select', distinct, columns, joins: [], groupBy: [], orderBy: [], unions: [] };
+
+    if (this.acceptKeyword('FROM')) {
+      select.from = this.parseTableRef();
+
+      for (;;) {
+        const type = this.parseJoinType();
+        if (!type) {
+          break;
+        }
+        const table = this.parseTableRef();
+        const on = this.acceptKeyword('ON') ? this.parseExpression() : undefined;
+        if (!on && type !== 'CROSS') {
+          this.fail();
+        }
+        select.joins.push({ type, table, on });
+      }
+    }
+
+    if (this.acceptKeyword('WHERE')) {
+      select.where = this.parseExpression();
+    }
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      select.groupBy = this.parseList(() => this.parseExpression());
+    }
+    if (this.acceptKeyword('HAVING')) {
+      select.having = this.parseExpression();
+    }
+
+    return select;
+  }
+
+  private parseJoinType(): JoinType | undefined {
+    if (this.acceptKeyword('JOIN')) {
+      return 'INNER';
+    }
+    const keyword = this.peek().value.toUpperCase();
+    if (this.peek().type === 'word' && ['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS'].includes(keyword)) {
+      this.current++;
+      this.acceptKeyword('OUTER');
+      this.expectKeyword('JOIN');
+      return keyword as JoinType;
+    }
+    return undefined;
+  }
+
+  private parseInsert(): SqlStatement {
+    this.expectKeyword('INSERT');
+    this.expectKeyword('INTO');
+    const table = this.parseName();
+    this.expectPunctuation('(');
+    const columns = this.parseList(() => this.parseName());
+    this.expectPunctuation(')');
+    this.expectKeyword('VALUES');
+
+    const rows = this.parseList(() => {
+      this.expectPunctuation('(');
+      const values = this.parseList(() => this.parseExpression());
+      this.expectPunctuation(')');
+      if (values.length !== columns.length) {
+        throw new Error(`${values.length} values for ${columns.length} columns`);
+      }
+      return values;
+    });
+
+    const insert: SqlInsert = { type: 'insert', table, columns, rows };
+    if (this.acceptKeyword('ON')) {
+      this.expectKeyword('CONFLICT');
+      const conflictColumns = this.peekPunctuation('(') ? this.parseColumnList() : [];
+      this.expectKeyword('DO');
+      if (this.acceptKeyword('NOTHING')) {
+        insert.onConflict = { columns: conflictColumns, action: 'nothing', assignments: [] };
+      } else {
+        this.expectKeyword('UPDATE');
+        this.expectKeyword('SET');
+        const assignments = this.parseAssignments();
+        const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+        insert.onConflict = { columns: conflictColumns, action: 'update', assignments, where };
+      }
+    }
+    insert.returning = this.parseReturning();
+    return insert;
+  }
+
+  private parseAssignments(): SqlAssignment[] {
+    return this.parseList(() => {
+      const column = this.parseName();
+      this.expectOperator('=');
+      return { column, value: this.parseExpression() };
+    });
+  }
+
+  private parseReturning(): SqlSelectColumn[] | undefined {
+    if (!this.acceptKeyword('RETURNING')) {
+      return undefined;
+    }
+    return this.parseList(() => {
+      const start = this.peek().position;
+      const expression = this.parseExpression();
+      const text = this.sql.slice(start, this.peek().position).trim();
+      return { expression, alias: this.parseAlias(), text };
+    });
+  }
+
+  private parseUpdate(): SqlStatement {
+    this.expectKeyword('UPDATE');
+    const table = this.parseName();
+    this.expectKeyword('SET');
+    const assignments = this.parseAssignments();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { type: 'update', table, assignments, where, returning: this.parseReturning() };
+  }
+
+  private parseDelete(): SqlStatement {
+    this.expectKeyword('DELETE');
+    this.expectKeyword('FROM');
+    const table = this.parseName();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { type: 'delete', table, where, returning: this.parseReturning() };
+  }
+
+  private parseCreate(): SqlStatement {
+    this.expectKeyword('CREATE');
+    const unique = this.acceptKeyword('UNIQUE');
+
+    if (this.acceptKeyword('INDEX')) {
+      const ifNotExists = this.parseIfNotExists();
+      const name = this.parseName();
+      this.expectKeyword('ON');
+      const table = this.parseName();
+      return { type: 'createIndex', name, table, columns: this.parseColumnList(), unique, ifNotExists };
+    }
+
+    if (unique) {
+      this.fail();
+    }
+    this.acceptAnyKeyword('TEMPORARY', 'TEMP');
+    this.expectKeyword('TABLE');
+    const ifNotExists = this.parseIfNotExists();
+    const table = this.parseName();
+    const columns: SqlColumnSpec[] = [];
+    const primaryKey: string[] = [];
+    const uniqueKeys: string[][] = [];
+
+    this.expectPunctuation('(');
+    do {
+      if (this.acceptKeyword('CONSTRAINT')) {
+        this.parseName();
+      }
+      if (this.acceptKeyword('PRIMARY')) {
+        this.expectKeyword('KEY');
+        primaryKey.push(...this.parseColumnList());
+        this.skipDefinition();
+      } else if (this.acceptKeyword('UNIQUE')) {
+        uniqueKeys.push(this.parseColumnList());
+        this.skipDefinition();
+      } else if (this.peekKeyword('FOREIGN') || this.peekKeyword('CHECK')) {
+        // Foreign keys and checks are accepted but not enforced
+        this.skipDefinition();
+      } else {
+        columns.push(this.parseColumnSpec());
+      }
+    } while (this.acceptPunctuation(','));
+    this.expectPunctuation(')');
+
+    for (const column of columns) {
+      if (column.primaryKey) {
+        primaryKey.push(column.name);
+      }
+      if (column.unique) {
+        uniqueKeys.push([column.name]);
+      }
+    }
+
+    return { type: 'createTable', table, ifNotExists, columns, primaryKey, unique: uniqueKeys };
+  }
+
+  private parseColumnSpec(): SqlColumnSpec {
+    const column: SqlColumnSpec = {
+      name: this.parseName(),
+      type: '',
+      primaryKey: false,
+      autoIncrement: false,
+      notNull: false,
+      unique: false
+    };
+
+    const typeParts: string[] = [];
+    while (this.peek().type === 'word' && !COLUMN_CONSTRAINTS.has(this.peek().value.toUpperCase())) {
+      typeParts.push(this.next().value.toUpperCase());
+    }
+    if (this.peekPunctuation('(')) {
+      this.skipParentheses();
+    }
+    column.type = typeParts.join(' ');
+
+    while (!this.peekPunctuation(',') && !this.peekPunctuation(')') && this.peek().type !== 'end') {
+      if (this.acceptKeyword('PRIMARY')) {
+        this.expectKeyword('KEY');
+        column.primaryKey = true;
+        this.acceptAnyKeyword('ASC', 'DESC');
+      } else if (this.acceptKeyword('AUTOINCREMENT')) {
+        column.autoIncrement = true;
+      } else if (this.acceptKeyword('NOT')) {
+        this.expectKeyword('NULL');
+        column.notNull = true;
+      } else if (this.acceptKeyword('NULL')) {
+        column.notNull = false;
+      } else if (this.acceptKeyword('UNIQUE')) {
+        column.unique = true;
+      } else if (this.acceptKeyword('DEFAULT')) {
+        column.defaultValue = this.peekPunctuation('(') ? this.parsePrimary() : this.parseUnary();
+      } else if (this.acceptKeyword('CONSTRAINT') || this.acceptKeyword('COLLATE')) {
+        this.parseName();
+      } else if (this.acceptKeyword('REFERENCES')) {
+        this.parseName();
+        if (this.peekPunctuation('(')) {
+          this.skipParentheses();
+        }
+        while (this.peek().type === 'word' && !COLUMN_CONSTRAINTS.has(this.peek().value.toUpperCase())) {
+          this.next();
+        }
+      } else if (this.acceptKeyword('CHECK') || this.acceptKeyword('GENERATED')) {
+        this.skipDefinition();
+      } else {
+        this.fail();
+      }
+    }
+
+    return column;
+  }
+
+  private parseDrop(): SqlStatement {
+    this.expectKeyword('DROP');
+    if (this.acceptKeyword('INDEX')) {
+      const ifExists = this.parseIfExists();
+      return { type: 'dropIndex', name: this.parseName(), ifExists };
+    }
+    this.expectKeyword('TABLE');
+    const ifExists = this.parseIfExists();
+    return { type: 'dropTable', table: this.parseName(), ifExists };
+  }
+
+  private parseAlter(): SqlStatement {
+    this.expectKeyword('ALTER');
+    this.expectKeyword('TABLE');
+    const table = this.parseName();
+
+    if (this.acceptKeyword('ADD')) {
+      this.acceptKeyword('COLUMN');
+      return { type: 'alterTable', table, action: 'addColumn', column: this.parseColumnSpec() };
+    }
+    if (this.acceptKeyword('DROP')) {
+      this.acceptKeyword('COLUMN');
+      return { type: 'alterTable', table, action: 'dropColumn', column: this.parseName() };
+    }
+    this.expectKeyword('RENAME');
+    if (this.acceptKeyword('TO')) {
+      return { type: 'alterTable', table, action: 'renameTable', newName: this.parseName() };
+    }
+    this.acceptKeyword('COLUMN');
+    const column = this.parseName();
+    this.expectKeyword('TO');
+    return { type: 'alterTable', table, action: 'renameColumn', column, newName: this.parseName() };
+  }
+
+  private parseExpression(): SqlExpression {
+    return this.parseOr();
+  }
+
+  private parseOr(): SqlExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', operator: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SqlExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): SqlExpression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SqlExpression {
+    let left = this.parseAdditive();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && ['=', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+        this.current++;
+        left = { kind: 'binary', operator: token.value === '<>' ? '!=' : token.value, left, right: this.parseAdditive() };
+        continue;
+      }
+
+      if (this.acceptKeyword('IS')) {
+        const not = this.acceptKeyword('NOT');
+        this.expectKeyword('NULL');
+        left = { kind: 'isNull', not, operand: left };
+        continue;
+      }
+
+      const not = this.peekKeyword('NOT') && ['LIKE', 'IN', 'BETWEEN'].includes(this.peek(1).value.toUpperCase());
+      if (not) {
+        this.current++;
+      }
+      if (this.acceptKeyword('LIKE')) {
+        left = { kind: 'like', not, operand: left, pattern: this.parseAdditive() };
+      } else if (this.acceptKeyword('IN')) {
+        this.expectPunctuation('(');
+        if (this.peekKeyword('SELECT') || this.peekKeyword('WITH')) {
+          left = { kind: 'in', not, operand: left, values: [], query: this.parseSelect() };
+        } else {
+          const values = this.peekPunctuation(')') ? [] : this.parseList(() => this.parseExpression());
+          left = { kind: 'in', not, operand: left, values };
+        }
+        this.expectPunctuation(')');
+      } else if (this.acceptKeyword('BETWEEN')) {
+        const low = this.parseAdditive();
+        this.expectKeyword('AND');
+        left = { kind: 'between', not, operand: left, low, high: this.parseAdditive() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): SqlExpression {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && ['+', '-', '||'].includes(this.peek().value)) {
+      const operator = this.next().value;
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): SqlExpression {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && ['*', '/', '%'].includes(this.peek().value)) {
+      const operator = this.next().value;
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): SqlExpression {
+    if (this.peek().type === 'operator' && (this.peek().value === '-' || this.peek().value === '+')) {
+      const operator = this.next().value;
+      const operand = this.parseUnary();
+      return operator === '-' ? { kind: 'unary', operator: '-', operand } : operand;
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SqlExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'param':
+        return { kind: 'param', index: token.index! };
+      case 'operator':
+        if (token.value === '*') {
+          return { kind: 'star' };
+        }
+        break;
+      case 'punctuation':
+        if (token.value === '(') {
+          const expression: SqlExpression = this.peekKeyword('SELECT') || this.peekKeyword('WITH')
+            ? { kind: 'subquery', query: this.parseSelect() }
+            : this.parseExpression();
+          this.expectPunctuation(')');
+          return expression;
+        }
+        break;
+      case 'identifier':
+        return this.parseColumnReference(token.value);
+      case 'word': {
+        const keyword = token.value.toUpperCase();
+        if (keyword === 'NULL') {
+          return { kind: 'literal', value: null };
+        }
+        if (keyword === 'TRUE' || keyword === 'FALSE') {
+          return { kind: 'literal', value: keyword === 'TRUE' ? 1 : 0 };
+        }
+        if (keyword === 'EXISTS') {
+          this.expectPunctuation('(');
+          const query = this.parseSelect();
+          this.expectPunctuation(')');
+          return { kind: 'exists', query };
+        }
+        if (['CURRENT_TIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME'].includes(keyword)) {
+          return { kind: 'call', name: keyword, args: [], distinct: false };
+        }
+        if (this.peekPunctuation('(')) {
+          return this.parseCall(keyword);
+        }
+        if (!RESERVED.has(keyword)) {
+          return this.parseColumnReference(token.value);
+        }
+        break;
+      }
+    }
+
+    this.current--;
+    return this.fail();
+  }
+
+  private parseCall(name: string): SqlExpression {
+    this.expectPunctuation('(');
+    const distinct = this.acceptKeyword('DISTINCT');
+    const args = this.peekPunctuation(')') ? [] : this.parseList(() => this.parseExpression());
+    this.expectPunctuation(')');
+    return { kind: 'call', name, args, distinct };
+  }
+
+  private parseColumnReference(name: string): SqlExpression {
+    if (!this.acceptPunctuation('.')) {
+      return { kind: 'column', name };
+    }
+    if (this.peek().type === 'operator' && this.peek().value === '*') {
+      this.current++;
+      return { kind: 'star', table: name };
+    }
+    return { kind: 'column', table: name, name: this.parseName() };
+  }
+
+  private parseTableRef(): SqlTableRef {
+    if (this.acceptPunctuation('(')) {
+      const query = this.parseSelect();
+      this.expectPunctuation(')');
+      const alias = this.parseAlias();
+      if (!alias) {
+        this.fail();
+      }
+      return { name: alias, alias, query };
+    }
+    const name = this.parseName();
+    return { name, alias: this.parseAlias() || name };
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.acceptKeyword('AS')) {
+      return this.parseName();
+    }
+    const token = this.peek();
+    if (token.type === 'identifier' || (token.type === 'word' && !RESERVED.has(token.value.toUpperCase()))) {
+      this.current++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private parseName(): string {
+    const token = this.peek();
+    if (token.type === 'identifier' || token.type === 'word') {
+      this.current++;
+      return token.value;
+    }
+    return this.fail();
+  }
+
+  private parseColumnList(): string[] {
+    this.expectPunctuation('(');
+    const columns = this.parseList(() => {
+      const column = this.parseName();
+      this.acceptAnyKeyword('ASC', 'DESC');
+      return column;
+    });
+    this.expectPunctuation(')');
+    return columns;
+  }
+
+  private parseIfNotExists(): boolean {
+    if (!this.acceptKeyword('IF')) {
+      return false;
+    }
+    this.expectKeyword('NOT');
+    this.expectKeyword('EXISTS');
+    return true;
+  }
+
+  private parseIfExists(): boolean {
+    if (!this.acceptKeyword('IF')) {
+      return false;
+    }
+    this.expectKeyword('EXISTS');
+    return true;
+  }
+
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()];
+    while (this.acceptPunctuation(',')) {
+      items.push(parseItem());
+    }
+    return items;
+  }
+
+  /**
+   * Skip the rest of a table or column definition, up to the next top-level comma
+   */
+  private skipDefinition(): void {
+    while (!this.peekPunctuation(',') && !this.peekPunctuation(')') && this.peek().type !== 'end') {
+      if (this.peekPunctuation('(')) {
+        this.skipParentheses();
+      } else {
+        this.current++;
+      }
+    }
+  }
+
+  private skipParentheses(): void {
+    this.expectPunctuation('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'end') {
+        this.fail();
+      }
+      if (token.type === 'punctuation' && token.value === '(') {
+        depth++;
+      } else if (token.type === 'punctuation' && token.value === ')') {
+        depth--;
+      }
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.current + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.current++;
+    }
+    return token;
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.peekKeyword(keyword)) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptAnyKeyword(...keywords: string[]): boolean {
+    return keywords.some(keyword => this.acceptKeyword(keyword));
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail();
+    }
+  }
+
+  private peekPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    if (this.peekPunctuation(value)) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      this.fail();
+    }
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== value) {
+      this.fail();
+    }
+    this.current++;
+  }
+
+  private fail(): never {
+    const token = this.peek();
+    throw new Error(token.type === 'end' ? 'incomplete input' : `near "${token.value}": syntax error`);
+  }
+}
+
+/**
+ * Parse a single SQL statement
+ */
+export function parseSql(sql: string): SqlStatement {
+  return new SqlParser(sql).parse();
+}
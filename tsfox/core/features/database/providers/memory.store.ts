@@ -0,0 +1,1380 @@
+/**
+ * @fileoverview Table storage and statement execution of the memory provider
+ * @module tsfox/core/features/database/providers
+ */
+
+import { NoSqlCommand } from '../interfaces/database.interface';
+import { generateId } from '../../../utils/id-generator';
+import {
+  AGGREGATE_FUNCTIONS,
+  SqlColumnSpec,
+  SqlCommonTable,
+  SqlExpression,
+  SqlInsert,
+  SqlSelect,
+  SqlSelectColumn,
+  SqlStatement,
+  SqlTableRef,
+  parseSql
+} from './memory.sql';
+
+type Row = Record<string, any>;
+
+/** Number of parsed statements kept */
+const STATEMENT_CACHE_SIZE = 200;
+
+/** Iterations after which a recursive common table expression is considered endless */
+const MAX_RECURSION = 10000;
+
+/**
+ * Stored table. Tables created by NoSQL inserts have no declared columns.
+ */
+interface MemoryTable {
+  name: string;
+  columns: SqlColumnSpec[] | null;
+  primaryKey: string[];
+  uniqueKeys: string[][];
+  indexes: Array<{ name: string; columns: string[]; unique: boolean }>;
+  rows: Row[];
+  sequence: number;
+}
+
+/**
+ * Result of a statement
+ */
+export interface MemoryResult {
+  rows: Row[];
+  rowCount: number;
+  insertId?: any;
+}
+
+/**
+ * Copy of the tables, restored when a transaction rolls back
+ */
+export type MemorySnapshot = Map<string, MemoryTable>;
+
+interface Source {
+  name: string;
+  table: MemoryTable;
+  row: Row | null;
+}
+
+interface Scope {
+  sources: Source[];
+
+  /** Projected row, visible to HAVING and ORDER BY */
+  output?: Row;
+
+  /** Scope of the enclosing query, visible to correlated subqueries */
+  outer?: Scope;
+}
+
+interface EvaluationContext {
+  params: any[];
+
+  /** Rows of the current group in aggregate queries */
+  group?: Scope[];
+
+  /** Tables of the common table expressions in scope */
+  commonTables?: Map<string, MemoryTable>;
+
+  /** Runs a subquery of an expression */
+  subquery?: (query: SqlSelect, outer: Scope, context: EvaluationContext) => Row[];
+}
+
+/**
+ * Rows written or removed by a statement
+ */
+interface Mutation {
+  table: MemoryTable;
+  affected: Row[];
+  insertId?: any;
+}
+
+/**
+ * Handling of inserted rows that conflict with a unique key
+ */
+interface ConflictHandler {
+  /** Columns of the conflicting key; any unique key when empty */
+  columns: string[];
+
+  /** Changes to the existing row, or null to keep it as is */
+  update?: (existing: Row, excluded: Row) => Row | null;
+}
+
+/**
+ * In-memory tables running the SQL subset the query builders and migrations produce,
+ * and the commands of the NoSQL query builder.
+ *
+ * Each statement is applied atomically: constraints are checked on the resulting rows
+ * before any change is stored. Values are copied in and out, so callers never share
+ * objects with the store.
+ */
+export class MemoryStore {
+  private tables = new Map<string, MemoryTable>();
+  private statements = new Map<string, SqlStatement>();
+
+  /**
+   * Run a SQL statement
+   */
+  run(sql: string, params: any[] = []): MemoryResult {
+    const statement = this.parse(sql);
+    let context: EvaluationContext = {
+      params: params.map(value => (value === undefined ? null : value)),
+      subquery: (query, outer, inner) => this.select(query, inner, outer)
+    };
+    if (statement.type !== 'select' && 'with' in statement && statement.with) {
+      context = this.withCommonTables(statement.with, context);
+    }
+
+    switch (statement.type) {
+      case 'select': {
+        const rows = this.select(statement, context);
+        return { rows, rowCount: rows.length };
+      }
+      case 'insert':
+        return this.returning(this.insertStatement(statement, context), statement.returning, context);
+      case 'update': {
+        const mutation = this.update(statement.table, (row, scope) => {
+          if (statement.where && !isTrue(evaluate(statement.where, scope, context))) {
+            return null;
+          }
+          return assign(statement.assignments, scope, context);
+        });
+        return this.returning(mutation, statement.returning, context);
+      }
+      case 'delete': {
+        const mutation = this.delete(statement.table, (row, scope) => !statement.where || isTrue(evaluate(statement.where, scope, context)));
+        return this.returning(mutation, statement.returning, context);
+      }
+      case 'createTable':
+        this.createTable(statement);
+        return { rows: [], rowCount: 0 };
+      case 'dropTable':
+        this.dropTable(statement.table, statement.ifExists);
+        return { rows: [], rowCount: 0 };
+      case 'createIndex':
+        this.createIndex(statement);
+        return { rows: [], rowCount: 0 };
+      case 'dropIndex':
+        this.dropIndex(statement.name, statement.ifExists);
+        return { rows: [], rowCount: 0 };
+      case 'alterTable':
+        this.alterTable(statement);
+        return { rows: [], rowCount: 0 };
+    }
+  }
+
+  /**
+   * Run a command of the NoSQL query builder
+   */
+  runCommand(command: NoSqlCommand): MemoryResult {
+    const filters = command.filters || {};
+
+    switch (command.operation) {
+      case 'find': {
+        const table = this.tables.get(command.collection.toLowerCase());
+        let rows = table ? table.rows.filter(row => matchesFilter(row, filters)) : [];
+        const sort = Object.entries(command.sort || {});
+        if (sort.length > 0) {
+          rows = [...rows].sort((a, b) => {
+            for (const [field, direction] of sort) {
+              const order = compareForSort(getPath(a, field), getPath(b, field));
+              if (order !== 0) {
+                return direction === -1 ? -order : order;
+              }
+            }
+            return 0;
+          });
+        }
+        rows = sliceRows(rows, command.offset, command.limit);
+        const documents = rows.map(row => {
+          if (!command.select || command.select.length === 0) {
+            return cloneValue(row);
+          }
+          const projected: Row = {};
+          for (const field of ['_id', ...command.select]) {
+            if (field in row) {
+              projected[field] = cloneValue(row[field]);
+            }
+          }
+          return projected;
+        });
+        return { rows: documents, rowCount: documents.length };
+      }
+      case 'count': {
+        const table = this.tables.get(command.collection.toLowerCase());
+        const count = table ? table.rows.filter(row => matchesFilter(row, filters)).length : 0;
+        return { rows: [{ count }], rowCount: 1 };
+      }
+      case 'insert': {
+        if (!this.tables.has(command.collection.toLowerCase())) {
+          this.tables.set(command.collection.toLowerCase(), createTable(command.collection, null));
+        }
+        const table = this.getTable(command.collection);
+        const document = { ...command.data };
+        if (!table.columns && document._id == null) {
+          document._id = generateId(12);
+        }
+        const result = this.returning(this.insert(command.collection, [document]));
+        return table.columns ? result : { rows: [cloneValue(document)], rowCount: 1, insertId: document._id };
+      }
+      case 'update':
+        if (!this.tables.has(command.collection.toLowerCase())) {
+          return { rows: [], rowCount: 0 };
+        }
+        return this.returning(this.update(command.collection, row => (matchesFilter(row, filters) ? applyUpdate(row, command.data || {}) : null)));
+      case 'delete':
+        if (!this.tables.has(command.collection.toLowerCase())) {
+          return { rows: [], rowCount: 0 };
+        }
+        return this.returning(this.delete(command.collection, row => matchesFilter(row, filters)));
+      default:
+        throw new Error(`Unsupported NoSQL operation: ${(command as NoSqlCommand).operation}`);
+    }
+  }
+
+  /**
+   * Names of the stored tables
+   */
+  getTableNames(): string[] {
+    return Array.from(this.tables.values()).map(table => table.name).sort();
+  }
+
+  snapshot(): MemorySnapshot {
+    const snapshot: MemorySnapshot = new Map();
+    for (const [key, table] of this.tables) {
+      snapshot.set(key, {
+        ...table,
+        columns: table.columns ? table.columns.map(column => ({ ...column })) : null,
+        primaryKey: [...table.primaryKey],
+        uniqueKeys: table.uniqueKeys.map(key => [...key]),
+        indexes: table.indexes.map(index => ({ ...index, columns: [...index.columns] })),
+        rows: table.rows.map(row => cloneValue(row))
+      });
+    }
+    return snapshot;
+  }
+
+  restore(snapshot: MemorySnapshot): void {
+    this.tables = snapshot;
+  }
+
+  clear(): void {
+    this.tables.clear();
+    this.statements.clear();
+  }
+
+  private parse(sql: string): SqlStatement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = parseSql(sql);
+      if (this.statements.size >= STATEMENT_CACHE_SIZE) {
+        this.statements.delete(this.statements.keys().next().value!);
+      }
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  private getTable(name: string, context?: EvaluationContext): MemoryTable {
+    const table = context?.commonTables?.get(name.toLowerCase()) || this.tables.get(name.toLowerCase());
+    if (!table) {
+      throw new Error(`no such table: ${name}`);
+    }
+    return table;
+  }
+
+  /**
+   * Table of a FROM or JOIN item: a stored table, a common table or a derived table
+   */
+  private resolveTable(ref: SqlTableRef, context: EvaluationContext): MemoryTable {
+    if (!ref.query) {
+      return this.getTable(ref.name, context);
+    }
+    return { ...createTable(ref.alias, null), rows: this.select(ref.query, context) };
+  }
+
+  /**
+   * Context with the tables of common table expressions. A recursive one is evaluated
+   * by running its recursive part on the rows of the previous step until none is added.
+   */
+  private withCommonTables(commonTables: SqlCommonTable[], context: EvaluationContext): EvaluationContext {
+    const scoped: EvaluationContext = { ...context, commonTables: new Map(context.commonTables) };
+    const tableOf = (name: string, rows: Row[]): MemoryTable => ({ ...createTable(name, null), rows });
+
+    for (const commonTable of commonTables) {
+      const key = commonTable.name.toLowerCase();
+      const query = commonTable.query;
+
+      if (!commonTable.recursive || query.unions.length === 0) {
+        const rows = this.select(query, scoped);
+        scoped.commonTables!.set(key, tableOf(commonTable.name, renameColumns(rows, commonTable.columns)));
+        continue;
+      }
+
+      const anchor: SqlSelect = { ...query, unions: [], orderBy: [], limit: undefined, offset: undefined, with: undefined };
+      const rows = renameColumns(this.select(anchor, scoped), commonTable.columns);
+      const names = commonTable.columns || (rows.length > 0 ? Object.keys(rows[0]) : undefined);
+      const distinct = query.unions.some(union => !union.all);
+      const seen = new Set(rows.map(rowKey));
+      let working = rows;
+
+      for (let iteration = 0; working.length > 0; iteration++) {
+        if (iteration >= MAX_RECURSION) {
+          throw new Error(`recursive common table ${commonTable.name} does not terminate`);
+        }
+        scoped.commonTables!.set(key, tableOf(commonTable.name, working));
+        const next = query.unions.flatMap(union => renameColumns(this.select(union.select, scoped), names));
+        working = distinct ? next.filter(row => (seen.has(rowKey(row)) ? false : (seen.add(rowKey(row)), true))) : next;
+        rows.push(...working);
+      }
+      scoped.commonTables!.set(key, tableOf(commonTable.name, rows));
+    }
+
+    return scoped;
+  }
+
+  /**
+   * Run a query. Queries combined by UNION are sorted and limited together, by the
+   * columns of the result.
+   */
+  private select(statement: SqlSelect, context: EvaluationContext, outer?: Scope): Row[] {
+    if (statement.with) {
+      context = this.withCommonTables(statement.with, context);
+    }
+
+    let rows = this.selectCore(statement, context, outer);
+
+    if (statement.unions.length > 0) {
+      let combined = rows.map(row => row.scope.output!);
+      for (const union of statement.unions) {
+        const names = combined.length > 0 ? Object.keys(combined[0]) : undefined;
+        combined.push(...renameColumns(this.selectCore(union.select, context, outer).map(row => row.scope.output!), names));
+        if (!union.all) {
+          const seen = new Set<string>();
+          combined = combined.filter(row => (seen.has(rowKey(row)) ? false : (seen.add(rowKey(row)), true)));
+        }
+      }
+      rows = combined.map(output => ({ scope: { sources: [], output, outer }, context }));
+    }
+
+    if (statement.orderBy.length > 0) {
+      const keyed = rows.map(row => ({
+        row,
+        keys: statement.orderBy.map(order => evaluate(order.expression, row.scope, row.context))
+      }));
+      keyed.sort((a, b) => {
+        for (let index = 0; index < statement.orderBy.length; index++) {
+          const order = compareForSort(a.keys[index], b.keys[index]);
+          if (order !== 0) {
+            return statement.orderBy[index].direction === 'DESC' ? -order : order;
+          }
+        }
+        return 0;
+      });
+      rows = keyed.map(item => item.row);
+    }
+
+    const limit = statement.limit ? Number(evaluate(statement.limit, { sources: [] }, context)) : undefined;
+    const offset = statement.offset ? Number(evaluate(statement.offset, { sources: [] }, context)) : undefined;
+    return sliceRows(rows, offset, limit !== undefined && limit >= 0 ? limit : undefined).map(row => row.scope.output!);
+  }
+
+  /**
+   * Projected rows of a single SELECT, before ORDER BY and LIMIT
+   */
+  private selectCore(statement: SqlSelect, context: EvaluationContext, outer?: Scope): Array<{ scope: Scope; context: EvaluationContext }> {
+    const sources: Array<{ ref: SqlTableRef; table: MemoryTable }> = [];
+    let scopes: Scope[] = [{ sources: [], outer }];
+
+    if (statement.from) {
+      const table = this.resolveTable(statement.from, context);
+      sources.push({ ref: statement.from, table });
+      scopes = table.rows.map(row => ({ sources: [{ name: statement.from!.alias, table, row }], outer }));
+    }
+
+    for (const join of statement.joins) {
+      const table = this.resolveTable(join.table, context);
+      const nullSources = sources.map(source => ({ name: source.ref.alias, table: source.table, row: null }));
+      const matchedRows = new Set<Row>();
+      const joined: Scope[] = [];
+
+      for (const scope of scopes) {
+        let matched = false;
+        for (const row of table.rows) {
+          const candidate = { sources: [...scope.sources, { name: join.table.alias, table, row }], outer };
+          if (!join.on || isTrue(evaluate(join.on, candidate, context))) {
+            joined.push(candidate);
+            matchedRows.add(row);
+            matched = true;
+          }
+        }
+        if (!matched && (join.type === 'LEFT' || join.type === 'FULL')) {
+          joined.push({ sources: [...scope.sources, { name: join.table.alias, table, row: null }], outer });
+        }
+      }
+
+      if (join.type === 'RIGHT' || join.type === 'FULL') {
+        for (const row of table.rows) {
+          if (!matchedRows.has(row)) {
+            joined.push({ sources: [...nullSources, { name: join.table.alias, table, row }], outer });
+          }
+        }
+      }
+
+      sources.push({ ref: join.table, table });
+      scopes = joined;
+    }
+
+    if (statement.where) {
+      scopes = scopes.filter(scope => isTrue(evaluate(statement.where!, scope, context)));
+    }
+
+    let results: Array<{ scope: Scope; context: EvaluationContext }>;
+    const aggregate = statement.groupBy.length > 0
+      || statement.having !== undefined
+      || statement.columns.some(column => containsAggregate(column.expression));
+
+    if (aggregate) {
+      const groups = new Map<string, Scope[]>();
+      for (const scope of scopes) {
+        const key = JSON.stringify(statement.groupBy.map(expression => groupKey(evaluate(expression, scope, context))));
+        groups.set(key, [...(groups.get(key) || []), scope]);
+      }
+      if (groups.size === 0 && statement.groupBy.length === 0) {
+        groups.set('', []);
+      }
+
+      const emptyScope: Scope = { sources: sources.map(source => ({ name: source.ref.alias, table: source.table, row: null })), outer };
+      results = Array.from(groups.values()).map(group => ({
+        scope: group[0] || emptyScope,
+        context: { ...context, group }
+      }));
+    } else {
+      results = scopes.map(scope => ({ scope, context }));
+    }
+
+    let rows = results.map(result => ({
+      ...result,
+      scope: { ...result.scope, output: project(statement.columns, result.scope, result.context) }
+    }));
+
+    if (statement.having) {
+      rows = rows.filter(row => isTrue(evaluate(statement.having!, row.scope, row.context)));
+    }
+
+    if (statement.distinct) {
+      const seen = new Set<string>();
+      rows = rows.filter(row => {
+        const key = rowKey(row.scope.output!);
+        return seen.has(key) ? false : (seen.add(key), true);
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Result of a mutation, with the rows of a RETURNING clause
+   */
+  private returning(mutation: Mutation, columns?: SqlSelectColumn[], context?: EvaluationContext): MemoryResult {
+    const { table, affected, insertId } = mutation;
+    const rows = columns
+      ? affected.map(row => project(columns, { sources: [{ name: table.name, table, row }] }, context || { params: [] }))
+      : [];
+    return { rows, rowCount: affected.length, insertId };
+  }
+
+  private insertStatement(statement: SqlInsert, context: EvaluationContext): Mutation {
+    const records = statement.rows.map(values => {
+      const record: Row = {};
+      statement.columns.forEach((column, index) => {
+        record[column] = evaluate(values[index], { sources: [] }, context);
+      });
+      return record;
+    });
+
+    const conflict = statement.onConflict;
+    if (!conflict) {
+      return this.insert(statement.table, records);
+    }
+
+    const table = this.getTable(statement.table);
+    return this.insert(statement.table, records, {
+      columns: conflict.columns,
+      update: conflict.action === 'nothing' ? undefined : (existing, excluded) => {
+        const scope: Scope = { sources: [{ name: table.name, table, row: existing }, { name: 'excluded', table, row: excluded }] };
+        if (conflict.where && !isTrue(evaluate(conflict.where, scope, context))) {
+          return null;
+        }
+        return assign(conflict.assignments, scope, context);
+      }
+    });
+  }
+
+  /**
+   * Insert rows. Rows conflicting with a unique key are skipped or update the existing
+   * row when a conflict handler is given, and fail the statement otherwise.
+   */
+  private insert(tableName: string, records: Row[], conflict?: ConflictHandler): Mutation {
+    const table = this.getTable(tableName);
+    const rowidColumn = getRowidColumn(table);
+    const rows = [...table.rows];
+    const affected: Row[] = [];
+    let sequence = table.sequence;
+    let insertId: any;
+
+    for (const record of records) {
+      const row = buildRow(table, record);
+
+      const existing = conflict ? findConflict(table, rows, row, conflict.columns) : undefined;
+      if (existing) {
+        const changes = conflict!.update ? conflict!.update(existing, row) : null;
+        if (changes) {
+          const updated = { ...existing };
+          for (const [column, value] of Object.entries(changes)) {
+            updated[column] = storedValue(table, column, value);
+          }
+          rows[rows.indexOf(existing)] = updated;
+          const position = affected.indexOf(existing);
+          if (position >= 0) {
+            affected[position] = updated;
+          } else {
+            affected.push(updated);
+          }
+        }
+        continue;
+      }
+
+      if (rowidColumn) {
+        if (row[rowidColumn] === null) {
+          row[rowidColumn] = ++sequence;
+        } else if (typeof row[rowidColumn] === 'number') {
+          sequence = Math.max(sequence, row[rowidColumn]);
+        }
+        insertId = row[rowidColumn];
+      } else {
+        insertId = ++sequence;
+      }
+      rows.push(row);
+      affected.push(row);
+    }
+
+    checkConstraints(table, rows, affected);
+    table.rows = rows;
+    table.sequence = sequence;
+
+    return { table, affected, insertId };
+  }
+
+  private update(tableName: string, changesOf: (row: Row, scope: Scope) => Row | null): Mutation {
+    const table = this.getTable(tableName);
+    const changed: Row[] = [];
+
+    const rows = table.rows.map(row => {
+      const changes = changesOf(row, { sources: [{ name: table.name, table, row }] });
+      if (!changes) {
+        return row;
+      }
+      const updated = { ...row };
+      for (const [column, value] of Object.entries(changes)) {
+        updated[column] = storedValue(table, column, value);
+      }
+      changed.push(updated);
+      return updated;
+    });
+
+    checkConstraints(table, rows, changed);
+    table.rows = rows;
+    return { table, affected: changed };
+  }
+
+  private delete(tableName: string, matches: (row: Row, scope: Scope) => boolean): Mutation {
+    const table = this.getTable(tableName);
+    const removed = table.rows.filter(row => matches(row, { sources: [{ name: table.name, table, row }] }));
+    table.rows = table.rows.filter(row => !removed.includes(row));
+    return { table, affected: removed };
+  }
+
+  private createTable(statement: Extract<SqlStatement, { type: 'createTable' }>): void {
+    if (this.tables.has(statement.table.toLowerCase())) {
+      if (statement.ifNotExists) {
+        return;
+      }
+      throw new Error(`table ${statement.table} already exists`);
+    }
+
+    const table = createTable(statement.table, statement.columns);
+    table.primaryKey = statement.primaryKey;
+    table.uniqueKeys = statement.unique;
+    this.tables.set(statement.table.toLowerCase(), table);
+  }
+
+  private dropTable(name: string, ifExists: boolean): void {
+    if (!this.tables.delete(name.toLowerCase()) && !ifExists) {
+      throw new Error(`no such table: ${name}`);
+    }
+  }
+
+  private createIndex(statement: Extract<SqlStatement, { type: 'createIndex' }>): void {
+    const table = this.getTable(statement.table);
+    if (this.findIndex(statement.name)) {
+      if (statement.ifNotExists) {
+        return;
+      }
+      throw new Error(`index ${statement.name} already exists`);
+    }
+    for (const column of statement.columns) {
+      checkColumn(table, column);
+    }
+
+    const index = { name: statement.name, columns: statement.columns, unique: statement.unique };
+    if (index.unique) {
+      checkConstraints({ ...table, uniqueKeys: [index.columns] }, table.rows, table.rows);
+    }
+    table.indexes.push(index);
+  }
+
+  private dropIndex(name: string, ifExists: boolean): void {
+    const table = this.findIndex(name);
+    if (!table) {
+      if (ifExists) {
+        return;
+      }
+      throw new Error(`no such index: ${name}`);
+    }
+    table.indexes = table.indexes.filter(index => index.name !== name);
+  }
+
+  private findIndex(name: string): MemoryTable | undefined {
+    return Array.from(this.tables.values()).find(table => table.indexes.some(index => index.name === name));
+  }
+
+  private alterTable(statement: Extract<SqlStatement, { type: 'alterTable' }>): void {
+    const table = this.getTable(statement.table);
+
+    switch (statement.action) {
+      case 'addColumn': {
+        const column = statement.column;
+        if (table.columns?.some(existing => existing.name === column.name)) {
+          throw new Error(`duplicate column name: ${column.name}`);
+        }
+        if (column.primaryKey || column.unique) {
+          throw new Error(`Cannot add a ${column.primaryKey ? 'PRIMARY KEY' : 'UNIQUE'} column`);
+        }
+        const value = column.defaultValue ? evaluate(column.defaultValue, { sources: [] }, { params: [] }) : null;
+        if (column.notNull && value === null) {
+          throw new Error('Cannot add a NOT NULL column with default value NULL');
+        }
+        table.columns?.push(column);
+        table.rows = table.rows.map(row => ({ ...row, [column.name]: cloneValue(value) }));
+        break;
+      }
+      case 'dropColumn': {
+        checkColumn(table, statement.column);
+        const keyed = [table.primaryKey, ...table.uniqueKeys, ...table.indexes.map(index => index.columns)]
+          .some(columns => columns.includes(statement.column));
+        if (keyed) {
+          throw new Error(`cannot drop column "${statement.column}": it is part of a key or index`);
+        }
+        table.columns = table.columns ? table.columns.filter(column => column.name !== statement.column) : null;
+        table.rows = table.rows.map(({ [statement.column]: removed, ...row }) => row);
+        break;
+      }
+      case 'renameColumn': {
+        const { column: from, newName: to } = statement;
+        checkColumn(table, from);
+        const rename = (columns: string[]) => columns.map(column => (column === from ? to : column));
+        table.columns = table.columns ? table.columns.map(column => (column.name === from ? { ...column, name: to } : column)) : null;
+        table.primaryKey = rename(table.primaryKey);
+        table.uniqueKeys = table.uniqueKeys.map(rename);
+        table.indexes = table.indexes.map(index => ({ ...index, columns: rename(index.columns) }));
+        table.rows = table.rows.map(({ [from]: value, ...row }) => ({ ...row, [to]: value }));
+        break;
+      }
+      case 'renameTable':
+        if (this.tables.has(statement.newName.toLowerCase())) {
+          throw new Error(`there is already another table or index with this name: ${statement.newName}`);
+        }
+        this.tables.delete(statement.table.toLowerCase());
+        table.name = statement.newName;
+        this.tables.set(statement.newName.toLowerCase(), table);
+        break;
+    }
+  }
+}
+
+function createTable(name: string, columns: SqlColumnSpec[] | null): MemoryTable {
+  return { name, columns, primaryKey: [], uniqueKeys: [], indexes: [], rows: [], sequence: 0 };
+}
+
+/**
+ * Integer primary key filled in automatically, like SQLite's rowid alias
+ */
+function getRowidColumn(table: MemoryTable): string | undefined {
+  if (!table.columns || table.primaryKey.length !== 1) {
+    return undefined;
+  }
+  const column = table.columns.find(item => item.name === table.primaryKey[0]);
+  return column && /INT/.test(column.type) ? column.name : undefined;
+}
+
+function checkColumn(table: MemoryTable, column: string): void {
+  if (table.columns && !table.columns.some(item => item.name === column)) {
+    throw new Error(`table ${table.name} has no column named ${column}`);
+  }
+}
+
+/**
+ * Row of a table from inserted values, with defaults for missing columns
+ */
+function buildRow(table: MemoryTable, record: Row): Row {
+  if (!table.columns) {
+    return cloneValue(record);
+  }
+
+  for (const column of Object.keys(record)) {
+    checkColumn(table, column);
+  }
+
+  const row: Row = {};
+  for (const column of table.columns) {
+    const value = column.name in record
+      ? record[column.name]
+      : column.defaultValue ? evaluate(column.defaultValue, { sources: [] }, { params: [] }) : null;
+    row[column.name] = storedValue(table, column.name, value);
+  }
+  return row;
+}
+
+/**
+ * Copy of a value to store, converted to the affinity of its column
+ */
+function storedValue(table: MemoryTable, columnName: string, value: any): any {
+  checkColumn(table, columnName);
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  const column = table.columns?.find(item => item.name === columnName);
+  if (column && typeof value === 'string' && /INT|REAL|FLOA|DOUB|NUM|DEC/.test(column.type) && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return cloneValue(value);
+}
+
+/**
+ * Check NOT NULL and unique constraints of changed rows against all rows of the table
+ */
+function checkConstraints(table: MemoryTable, rows: Row[], changed: Row[]): void {
+  for (const column of table.columns || []) {
+    if (column.notNull || (column.primaryKey && table.primaryKey.length === 1)) {
+      const invalid = changed.some(row => row[column.name] === null || row[column.name] === undefined);
+      if (invalid) {
+        throw new Error(`NOT NULL constraint failed: ${table.name}.${column.name}`);
+      }
+    }
+  }
+
+  const keys = [table.primaryKey, ...table.uniqueKeys, ...table.indexes.filter(index => index.unique).map(index => index.columns)]
+    .filter(key => key.length > 0);
+
+  for (const key of keys) {
+    for (const row of changed) {
+      if (key.some(column => row[column] === null || row[column] === undefined)) {
+        continue;
+      }
+      const duplicate = rows.some(other => other !== row && key.every(column => compareValues(other[column], row[column]) === 0));
+      if (duplicate) {
+        throw new Error(`UNIQUE constraint failed: ${key.map(column => `${table.name}.${column}`).join(', ')}`);
+      }
+    }
+  }
+}
+
+/**
+ * Row holding the same values as a new row in one of the given keys, or any unique key
+ */
+function findConflict(table: MemoryTable, rows: Row[], row: Row, columns: string[]): Row | undefined {
+  const keys = columns.length > 0
+    ? [columns]
+    : [table.primaryKey, ...table.uniqueKeys, ...table.indexes.filter(index => index.unique).map(index => index.columns)]
+      .filter(key => key.length > 0);
+
+  for (const key of keys) {
+    if (key.some(column => row[column] === null || row[column] === undefined)) {
+      continue;
+    }
+    const existing = rows.find(other => key.every(column => compareValues(other[column], row[column]) === 0));
+    if (existing) {
+      return existing;
+    }
+  }
+  return undefined;
+}
+
+function assign(assignments: Array<{ column: string; value: SqlExpression }>, scope: Scope, context: EvaluationContext): Row {
+  const changes: Row = {};
+  for (const assignment of assignments) {
+    changes[assignment.column] = evaluate(assignment.value, scope, context);
+  }
+  return changes;
+}
+
+/**
+ * Rows with their values under the given column names, by position
+ */
+function renameColumns(rows: Row[], names?: string[]): Row[] {
+  if (!names) {
+    return rows;
+  }
+  return rows.map(row => {
+    const values = Object.values(row);
+    if (values.length !== names.length) {
+      throw new Error(`expected ${names.length} columns but got ${values.length}`);
+    }
+    return Object.fromEntries(names.map((name, index) => [name, values[index]]));
+  });
+}
+
+function rowKey(row: Row): string {
+  return JSON.stringify(Object.values(row).map(groupKey));
+}
+
+function project(columns: SqlSelectColumn[], scope: Scope, context: EvaluationContext): Row {
+  const output: Row = {};
+
+  for (const column of columns) {
+    const expression = column.expression;
+    if (expression.kind !== 'star') {
+      const name = column.alias || (expression.kind === 'column' ? expression.name : column.text);
+      output[name] = cloneValue(evaluate(expression, scope, context));
+      continue;
+    }
+
+    const sources = expression.table
+      ? scope.sources.filter(source => source.name.toLowerCase() === expression.table!.toLowerCase())
+      : scope.sources;
+    if (expression.table && sources.length === 0) {
+      throw new Error(`no such table: ${expression.table}`);
+    }
+
+    for (const source of sources) {
+      const names = source.table.columns ? source.table.columns.map(item => item.name) : Object.keys(source.row || {});
+      for (const name of names) {
+        output[name] = source.row ? cloneValue(source.row[name] ?? null) : null;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Evaluate an expression. Comparisons return 1, 0 or null (unknown) like SQL.
+ */
+function evaluate(expression: SqlExpression, scope: Scope, context: EvaluationContext): any {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'param':
+      if (expression.index >= context.params.length) {
+        throw new Error(`missing value for parameter ${expression.index + 1}`);
+      }
+      return context.params[expression.index];
+    case 'column':
+      return resolveColumn(expression, scope);
+    case 'star':
+      throw new Error('near "*": syntax error');
+    case 'unary': {
+      const value = evaluate(expression.operand, scope, context);
+      if (value === null) {
+        return null;
+      }
+      return expression.operator === 'NOT' ? toBit(!isTrue(value)) : -Number(value);
+    }
+    case 'binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, scope, context);
+    case 'like': {
+      const value = evaluate(expression.operand, scope, context);
+      const pattern = evaluate(expression.pattern, scope, context);
+      if (value === null || pattern === null) {
+        return null;
+      }
+      return toBit(likePattern(String(pattern)).test(String(normalize(value))) !== expression.not);
+    }
+    case 'in': {
+      const value = evaluate(expression.operand, scope, context);
+      if (value === null) {
+        return null;
+      }
+      const values = expression.query
+        ? runSubquery(expression.query, scope, context).map(firstValue)
+        : expression.values.map(item => evaluate(item, scope, context));
+      if (values.some(item => compareValues(value, item) === 0)) {
+        return toBit(!expression.not);
+      }
+      return values.includes(null) ? null : toBit(expression.not);
+    }
+    case 'between': {
+      const value = evaluate(expression.operand, scope, context);
+      const low = compareValues(value, evaluate(expression.low, scope, context));
+      const high = compareValues(value, evaluate(expression.high, scope, context));
+      if (low === null || high === null) {
+        return null;
+      }
+      return toBit((low >= 0 && high <= 0) !== expression.not);
+    }
+    case 'isNull':
+      return toBit((evaluate(expression.operand, scope, context) === null) !== expression.not);
+    case 'call':
+      return evaluateCall(expression, scope, context);
+    case 'subquery': {
+      const rows = runSubquery(expression.query, scope, context);
+      return rows.length > 0 ? firstValue(rows[0]) : null;
+    }
+    case 'exists':
+      return toBit(runSubquery(expression.query, scope, context).length > 0);
+  }
+}
+
+function runSubquery(query: SqlSelect, scope: Scope, context: EvaluationContext): Row[] {
+  if (!context.subquery) {
+    throw new Error('subqueries are not allowed here');
+  }
+  return context.subquery(query, scope, { params: context.params, commonTables: context.commonTables, subquery: context.subquery });
+}
+
+function firstValue(row: Row): any {
+  const values = Object.values(row);
+  return values.length > 0 ? values[0] : null;
+}
+
+function evaluateBinary(operator: string, leftExpression: SqlExpression, rightExpression: SqlExpression, scope: Scope, context: EvaluationContext): any {
+  const left = evaluate(leftExpression, scope, context);
+
+  if (operator === 'AND' || operator === 'OR') {
+    const leftValue = left === null ? null : isTrue(left);
+    if (operator === 'AND' && leftValue === false) {
+      return 0;
+    }
+    if (operator === 'OR' && leftValue === true) {
+      return 1;
+    }
+    const right = evaluate(rightExpression, scope, context);
+    const rightValue = right === null ? null : isTrue(right);
+    if (operator === 'AND') {
+      return rightValue === false ? 0 : leftValue === null || rightValue === null ? null : 1;
+    }
+    return rightValue === true ? 1 : leftValue === null || rightValue === null ? null : 0;
+  }
+
+  const right = evaluate(rightExpression, scope, context);
+  if (left === null || right === null) {
+    return null;
+  }
+
+  switch (operator) {
+    case '=':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const order = compareValues(left, right)!;
+      const results: Record<string, boolean> = {
+        '=': order === 0,
+        '!=': order !== 0,
+        '<': order < 0,
+        '<=': order <= 0,
+        '>': order > 0,
+        '>=': order >= 0
+      };
+      return toBit(results[operator]);
+    }
+    case '||':
+      return `${normalize(left)}${normalize(right)}`;
+    case '+':
+      return Number(normalize(left)) + Number(normalize(right));
+    case '-':
+      return Number(normalize(left)) - Number(normalize(right));
+    case '*':
+      return Number(normalize(left)) * Number(normalize(right));
+    case '/':
+      return Number(right) === 0 ? null : Number(normalize(left)) / Number(normalize(right));
+    case '%':
+      return Number(right) === 0 ? null : Number(normalize(left)) % Number(normalize(right));
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+}
+
+function evaluateCall(expression: Extract<SqlExpression, { kind: 'call' }>, scope: Scope, context: EvaluationContext): any {
+  const name = expression.name.toUpperCase();
+
+  if (AGGREGATE_FUNCTIONS.includes(name)) {
+    if (!context.group) {
+      throw new Error(`misuse of aggregate function ${name}()`);
+    }
+    const rowContext = { ...context, group: undefined };
+    const argument = expression.args[0];
+    if (name === 'COUNT' && (!argument || argument.kind === 'star')) {
+      return context.group.length;
+    }
+    if (!argument) {
+      throw new Error(`wrong number of arguments to function ${name}()`);
+    }
+
+    let values = context.group.map(item => evaluate(argument, item, rowContext)).filter(value => value !== null);
+    if (expression.distinct) {
+      const seen = new Set<string>();
+      values = values.filter(value => {
+        const key = JSON.stringify(groupKey(value));
+        return seen.has(key) ? false : (seen.add(key), true);
+      });
+    }
+
+    switch (name) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+        return values.length > 0 ? values.reduce((sum, value) => sum + Number(normalize(value)), 0) : null;
+      case 'AVG':
+        return values.length > 0 ? values.reduce((sum, value) => sum + Number(normalize(value)), 0) / values.length : null;
+      case 'MIN':
+      case 'MAX':
+        return values.reduce((best, value) => {
+          if (best === null) {
+            return value;
+          }
+          const order = compareValues(value, best)!;
+          return (name === 'MIN' ? order < 0 : order > 0) ? value : best;
+        }, null);
+    }
+  }
+
+  const args = expression.args.map(argument => evaluate(argument, scope, context));
+  const now = new Date().toISOString();
+
+  switch (name) {
+    case 'CURRENT_TIMESTAMP':
+      return now.replace('T', ' ').slice(0, 19);
+    case 'CURRENT_DATE':
+      return now.slice(0, 10);
+    case 'CURRENT_TIME':
+      return now.slice(11, 19);
+    case 'LOWER':
+      return args[0] === null ? null : String(normalize(args[0])).toLowerCase();
+    case 'UPPER':
+      return args[0] === null ? null : String(normalize(args[0])).toUpperCase();
+    case 'LENGTH':
+      return args[0] === null ? null : String(normalize(args[0])).length;
+    case 'ABS':
+      return args[0] === null ? null : Math.abs(Number(normalize(args[0])));
+    case 'ROUND': {
+      if (args[0] === null) {
+        return null;
+      }
+      const factor = Math.pow(10, Number(args[1] || 0));
+      return Math.round(Number(normalize(args[0])) * factor) / factor;
+    }
+    case 'COALESCE':
+    case 'IFNULL':
+      return args.find(value => value !== null) ?? null;
+    default:
+      throw new Error(`no such function: ${name}`);
+  }
+}
+
+/**
+ * Value of a column in a scope or, for correlated subqueries, in the enclosing scopes
+ */
+function resolveColumn(column: Extract<SqlExpression, { kind: 'column' }>, scope: Scope): any {
+  for (let current: Scope | undefined = scope; current; current = current.outer) {
+    const found = lookupColumn(column, current);
+    if (found) {
+      return found.value;
+    }
+  }
+
+  if (column.table) {
+    throw new Error(`no such column: ${column.table}.${column.name}`);
+  }
+  if (scope.sources.some(source => !source.table.columns)) {
+    return null;
+  }
+  throw new Error(`no such column: ${column.name}`);
+}
+
+function lookupColumn(column: Extract<SqlExpression, { kind: 'column' }>, scope: Scope): { value: any } | undefined {
+  if (column.table) {
+    const source = scope.sources.find(item => item.name.toLowerCase() === column.table!.toLowerCase());
+    if (!source) {
+      return undefined;
+    }
+    if (source.table.columns && !source.table.columns.some(item => item.name === column.name)) {
+      throw new Error(`no such column: ${column.table}.${column.name}`);
+    }
+    return { value: source.row ? source.row[column.name] ?? null : null };
+  }
+
+  if (scope.output && Object.prototype.hasOwnProperty.call(scope.output, column.name)) {
+    return { value: scope.output[column.name] };
+  }
+
+  for (const source of scope.sources) {
+    const declared = source.table.columns
+      ? source.table.columns.some(item => item.name === column.name)
+      : Boolean(source.row && column.name in source.row);
+    if (declared) {
+      return { value: source.row ? source.row[column.name] ?? null : null };
+    }
+  }
+  return undefined;
+}
+
+function containsAggregate(expression: SqlExpression): boolean {
+  switch (expression.kind) {
+    case 'call':
+      return AGGREGATE_FUNCTIONS.includes(expression.name.toUpperCase()) || expression.args.some(containsAggregate);
+    case 'unary':
+      return containsAggregate(expression.operand);
+    case 'binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right);
+    case 'like':
+      return containsAggregate(expression.operand) || containsAggregate(expression.pattern);
+    case 'in':
+      return containsAggregate(expression.operand) || expression.values.some(containsAggregate);
+    case 'between':
+      return [expression.operand, expression.low, expression.high].some(containsAggregate);
+    case 'isNull':
+      return containsAggregate(expression.operand);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Comparable form of a value: booleans as 1/0, dates as ISO strings
+ */
+function normalize(value: any): any {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value));
+}
+
+/**
+ * Compare two values, or return null when either is null. Numeric strings compare
+ * as numbers with numbers; otherwise numbers sort before text.
+ */
+function compareValues(a: any, b: any): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+
+  let left = normalize(a);
+  let right = normalize(b);
+  if (typeof left === 'number' && isNumeric(right)) {
+    right = Number(right);
+  } else if (typeof right === 'number' && isNumeric(left)) {
+    left = Number(left);
+  }
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+  if (typeof left === 'number') {
+    return -1;
+  }
+  if (typeof right === 'number') {
+    return 1;
+  }
+
+  const leftText = String(left);
+  const rightText = String(right);
+  return leftText === rightText ? 0 : leftText < rightText ? -1 : 1;
+}
+
+/**
+ * Order of values when sorting: nulls first
+ */
+function compareForSort(a: any, b: any): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) {
+    return aNull && bNull ? 0 : aNull ? -1 : 1;
+  }
+  return compareValues(a, b)!;
+}
+
+function groupKey(value: any): any {
+  const normalized = normalize(value ?? null);
+  return isNumeric(normalized) ? Number(normalized) : normalized;
+}
+
+function isTrue(value: any): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  const normalized = normalize(value);
+  return typeof normalized === 'number' ? normalized !== 0 : Number(normalized) !== 0 && normalized !== '';
+}
+
+function toBit(value: boolean): number {
+  return value ? 1 : 0;
+}
+
+/**
+ * Case-insensitive regular expression of a LIKE pattern
+ */
+function likePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function sliceRows<T>(rows: T[], offset?: number, limit?: number): T[] {
+  const start = offset && offset > 0 ? offset : 0;
+  return limit !== undefined ? rows.slice(start, start + limit) : rows.slice(start);
+}
+
+function cloneValue<T>(value: T): T;
+function cloneValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.from(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item));
+  }
+  if (value !== null && typeof value === 'object') {
+    const copy: Row = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy;
+  }
+  return value;
+}
+
+function getPath(document: Row, path: string): any {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value === null || value === undefined ? undefined : Reflect.get(Object(value), key)),
+    document
+  );
+}
+
+/**
+ * Values of a `$in` or `$nin` operand
+ */
+function operandList(operator: string, operand: unknown): unknown[] {
+  if (!Array.isArray(operand)) {
+    throw new Error(`Filter operator ${operator} expects an array`);
+  }
+  return operand;
+}
+
+/**
+ * Match a document against a filter with `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`,
+ * `$in`, `$nin`, `$exists`, `$regex`, `$and`, `$or` and `$nor`
+ */
+function matchesFilter(document: Row, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as Row[]).every(item => matchesFilter(document, item));
+      case '$or':
+        return (condition as Row[]).some(item => matchesFilter(document, item));
+      case '$nor':
+        return !(condition as Row[]).some(item => matchesFilter(document, item));
+    }
+
+    const value = getPath(document, key);
+    const isOperatorObject = condition !== null && typeof condition === 'object' && !Array.isArray(condition)
+      && !(condition instanceof Date) && Object.keys(condition).some(name => name.startsWith('$'));
+
+    if (!isOperatorObject) {
+      return matchesValue(value, condition);
+    }
+
+    return Object.entries(condition as Row).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq':
+          return matchesValue(value, operand);
+        case '$ne':
+          return !matchesValue(value, operand);
+        case '$gt':
+          return (compareValues(value, operand) ?? 0) > 0;
+        case '$gte':
+          return compareValues(value, operand) !== null && compareValues(value, operand)! >= 0;
+        case '$lt':
+          return (compareValues(value, operand) ?? 0) < 0;
+        case '$lte':
+          return compareValues(value, operand) !== null && compareValues(value, operand)! <= 0;
+        case '$in':
+          return operandList(operator, operand).some(item => matchesValue(value, item));
+        case '$nin':
+          return !operandList(operator, operand).some(item => matchesValue(value, item));
+        case '$exists':
+          return (value !== undefined) === Boolean(operand);
+        case '$regex':
+          return value !== null && value !== undefined && new RegExp(operand, (condition as Row).$options).test(String(value));
+        case '$options':
+          return true;
+        default:
+          throw new Error(`Unsupported filter operator: ${operator}`);
+      }
+    });
+  });
+}
+
+/**
+ * Equality of a document value; arrays match when one of their elements does
+ */
+function matchesValue(value: any, expected: any): boolean {
+  if (expected === null || expected === undefined) {
+    return value === null || value === undefined;
+  }
+  if (Array.isArray(value) && !Array.isArray(expected)) {
+    return value.some(item => matchesValue(item, expected));
+  }
+  if (typeof expected === 'object' && !(expected instanceof Date)) {
+    return JSON.stringify(value) === JSON.stringify(expected);
+  }
+  return compareValues(value, expected) === 0;
+}
+
+/**
+ * Changes of a NoSQL update: `$set`, `$unset` and `$inc`, or plain fields to set
+ */
+function applyUpdate(document: Row, update: Row): Row {
+  const operators = Object.keys(update).some(key => key.startsWith('$'));
+  if (!operators) {
+    return update;
+  }
+
+  const changes: Row = { ...(update.$set || {}) };
+  for (const [field, amount] of Object.entries(update.$inc || {})) {
+    changes[field] = Number(document[field] ?? 0) + Number(amount);
+  }
+  for (const field of Object.keys(update.$unset || {})) {
+    changes[field] = null;
+  }
+  return changes;
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Transactions of providers running on a single connection
+ * @module tsfox/core/features/database/providers
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  QueryBuilderInterface,
+  QueryResult,
+  TransactionInterface
+} from '../interfaces/database.interface';
+import { QueryBuilderFactory, QueryExecutor } from '../core/query.builder';
+import { SqlDialectName } from '../core/sql.dialect';
+
+/**
+ * Queue of the statements and transactions of a single connection.
+ *
+ * One transaction runs at a time. Statements issued on the connection itself wait
+ * for the open transaction to finish, unless they are issued from the async context
+ * the transaction is bound to, where they join it.
+ */
+export class TransactionQueue {
+  private lock: Promise<void> = Promise.resolve();
+  private readonly scope = new AsyncLocalStorage<TransactionInterface>();
+
+  /**
+   * Wait for the previous transaction to finish. Resolves with the function
+   * releasing the queue for the next one.
+   */
+  async acquire(): Promise<() => void> {
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise(resolve => { release = resolve; });
+    await previous;
+    return release;
+  }
+
+  /**
+   * Active transaction bound to the calling async context
+   */
+  current(): TransactionInterface | undefined {
+    const transaction = this.scope.getStore();
+    return transaction && transaction.isActive() ? transaction : undefined;
+  }
+
+  /**
+   * Run a callback with a transaction bound to its async context
+   */
+  bind<T>(transaction: TransactionInterface, callback: () => Promise<T>): Promise<T> {
+    return this.scope.run(transaction, callback);
+  }
+
+  /**
+   * Run a statement issued on the connection: inside the transaction bound to the
+   * calling context, or once the open transaction is finished
+   */
+  async run<T>(statement: () => T | Promise<T>): Promise<T> {
+    if (this.current()) {
+      return statement();
+    }
+
+    const release = await this.acquire();
+    try {
+      return await statement();
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * How a provider ends its transactions
+ */
+export interface TransactionControl {
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  /** Bind the transaction to the async context of a callback */
+  bind?<T>(callback: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Transaction running its statements on the provider connection
+ */
+export class ProviderTransaction implements TransactionInterface {
+  private active = true;
+
+  constructor(
+    private readonly id: string,
+    private readonly connection: QueryExecutor,
+    private readonly control: TransactionControl,
+    private readonly release: () => void,
+    private readonly dialect: SqlDialectName = 'generic'
+  ) {}
+
+  async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    this.checkActive();
+    return this.connection.query<T>(sql, params);
+  }
+
+  async execute(sql: string, params?: any[]): Promise<QueryResult> {
+    this.checkActive();
+    return this.connection.execute(sql, params);
+  }
+
+  getBuilder(): QueryBuilderInterface {
+    return QueryBuilderFactory.create(this, 'sql', this.dialect);
+  }
+
+  /**
+   * Run a callback with the transaction bound to its async context, so the
+   * statements it issues on the provider itself join the transaction
+   */
+  run<T>(callback: () => Promise<T>): Promise<T> {
+    return this.control.bind ? this.control.bind(callback) : callback();
+  }
+
+  /**
+   * Commit the transaction. If the commit fails the transaction stays open so it can be rolled back.
+   */
+  async commit(): Promise<void> {
+    this.checkActive();
+    await this.control.commit();
+    this.finish();
+  }
+
+  async rollback(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    try {
+      await this.control.rollback();
+    } finally {
+      this.finish();
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getId(): string {
+    return this.id;
+  }
+
+  private checkActive(): void {
+    if (!this.active) {
+      throw new Error(`Transaction ${this.id} is no longer active`);
+    }
+  }
+
+  private finish(): void {
+    this.active = false;
+    this.release();
+  }
+}
@@ -0,0 +1,765 @@
+/**
+ * @fileoverview SQLite provider backed by the embedded better-sqlite3 engine
+ * @module tsfox/core/features/database/providers
+ */
+
+import type BetterSqlite3 from 'better-sqlite3';
+import { DatabaseConfig } from '../interfaces/config.interface';
+import {
+  ConnectionInterface,
+  QueryResult
+} from '../interfaces/database.interface';
+import {
+  ColumnDefinition,
+  ColumnType,
+  ConnectionPoolInterface,
+  ForeignKeyAction,
+  ForeignKeyInfo,
+  IndexInfo,
+  Migration,
+  ProviderCapabilities,
+  ProviderInfo,
+  ProviderMetadata,
+  SqlProviderInterface,
+  TableChange,
+  TableDefinition,
+  TableSchema
+} from '../interfaces/provider.interface';
+import { ProviderTransaction, TransactionQueue } from './provider.transaction';
+
+/** Name of the in-memory database */
+export const SQLITE_MEMORY = ':memory:';
+
+/** Default number of prepared statements kept per connection */
+const STATEMENT_CACHE_SIZE = 100;
+
+/**
+ * SQLite specific options, read from `config.options`
+ */
+export interface SQLiteOptions {
+  /** Database file, or `:memory:` (default: `config.database`) */
+  filename?: string;
+
+  /** Open the database read-only */
+  readonly?: boolean;
+
+  /** Fail when the database file does not exist instead of creating it */
+  fileMustExist?: boolean;
+
+  /** Milliseconds to wait for a locked database (default: `connectionTimeoutMillis` or 5000) */
+  busyTimeout?: number;
+
+  /** Enforce foreign key constraints (default: true) */
+  foreignKeys?: boolean;
+
+  /** Journal mode of file databases, e.g. `WAL` */
+  journalMode?: string;
+
+  /** Number of prepared statements kept, least recently used first evicted (default: 100) */
+  statementCacheSize?: number;
+}
+
+/**
+ * Statement prepared once and run many times
+ */
+export interface PreparedStatement<T = any> {
+  /** SQL of the statement */
+  readonly sql: string;
+
+  /** Run the statement and return its rows */
+  query(params?: any[]): Promise<T[]>;
+
+  /** Run the statement and return result info */
+  execute(params?: any[]): Promise<QueryResult>;
+}
+
+/**
+ * Load the driver lazily so the framework works without it when SQLite is not used
+ */
+function loadDriver(): typeof BetterSqlite3 {
+  try {
+    return require('better-sqlite3');
+  } catch {
+    throw new Error("The SQLite provider requires the 'better-sqlite3' package. Install it with: npm install better-sqlite3");
+  }
+}
+
+/**
+ * SQLite provider.
+ *
+ * Runs queries on a single embedded connection to a file or `:memory:` database.
+ * Statements are prepared once and cached. Transactions are serialized: a new
+ * transaction waits until the previous one is committed or rolled back, and
+ * statements issued on the provider in between wait for it too, unless they come
+ * from the callback of `FoxDatabase.transaction()`, where they join the transaction.
+ * Nested transactions are rejected.
+ */
+export class SQLiteProvider implements SqlProviderInterface {
+  readonly name = 'sqlite';
+  readonly version = '1.0.0';
+
+  private db: BetterSqlite3.Database | null = null;
+  private statements = new Map<string, BetterSqlite3.Statement>();
+  private statementCacheSize = STATEMENT_CACHE_SIZE;
+  private transactions = new TransactionQueue();
+  private transactionCount = 0;
+  private connectedAt?: Date;
+  private metrics = { queriesExecuted: 0, totalTime: 0, errors: 0 };
+
+  /**
+   * Open the database
+   */
+  async connect(config: DatabaseConfig): Promise<ConnectionInterface> {
+    if (!(await this.validateConfig(config))) {
+      throw new Error('SQLite provider requires a database file name or :memory:');
+    }
+
+    const options: SQLiteOptions = config.options || {};
+    const filename = options.filename || config.database;
+    const Database = loadDriver();
+
+    this.db = new Database(filename, {
+      readonly: Boolean(options.readonly),
+      fileMustExist: Boolean(options.fileMustExist),
+      timeout: options.busyTimeout ?? config.connectionTimeoutMillis ?? 5000
+    });
+
+    if (options.foreignKeys !== false) {
+      this.db.pragma('foreign_keys = ON');
+    }
+    if (options.journalMode && filename !== SQLITE_MEMORY) {
+      this.db.pragma(`journal_mode = ${options.journalMode}`);
+    }
+
+    this.statementCacheSize = Math.max(1, options.statementCacheSize ?? STATEMENT_CACHE_SIZE);
+    this.connectedAt = new Date();
+    return this.createConnection(filename);
+  }
+
+  /**
+   * Close the database
+   */
+  async disconnect(): Promise<void> {
+    this.statements.clear();
+    if (this.db && this.db.open) {
+      this.db.close();
+    }
+    this.db = null;
+  }
+
+  /**
+   * Run a statement and return its rows
+   */
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.transactions.run(() => this.runQuery<T>(sql, params));
+  }
+
+  /**
+   * Run a statement and return result info
+   */
+  async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+    return this.transactions.run(() => this.runExecute(sql, params));
+  }
+
+  /**
+   * Prepare a statement to run it many times
+   */
+  prepare<T = any>(sql: string): PreparedStatement<T> {
+    this.statement(sql);
+    return {
+      sql,
+      query: params => this.query<T>(sql, params),
+      execute: params => this.execute(sql, params)
+    };
+  }
+
+  /**
+   * Run a script of several statements, without parameters
+   */
+  async exec(sql: string): Promise<void> {
+    await this.transactions.run(() => this.measure(() => this.getDatabase().exec(sql)));
+  }
+
+  /**
+   * Begin a transaction, once the previous one is finished
+   */
+  async beginTransaction(): Promise<ProviderTransaction> {
+    if (this.transactions.current()) {
+      throw new Error('Nested transactions are not supported: run the statements on the open transaction');
+    }
+
+    const release = await this.transactions.acquire();
+
+    try {
+      this.runExecute('BEGIN');
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    const connection = {
+      query: <T = any>(sql: string, params?: any[]) => Promise.resolve(this.runQuery<T>(sql, params)),
+      execute: async (sql: string, params?: any[]) => this.runExecute(sql, params)
+    };
+    const transaction: ProviderTransaction = new ProviderTransaction(`sqlite_tx_${++this.transactionCount}`, connection, {
+      commit: async () => {
+        this.runExecute('COMMIT');
+      },
+      rollback: async () => {
+        // SQLite rolls back on its own after some errors
+        if (this.inTransaction()) {
+          this.runExecute('ROLLBACK');
+        }
+      },
+      bind: callback => this.transactions.bind(transaction, callback)
+    }, release, 'sqlite');
+
+    return transaction;
+  }
+
+  /**
+   * Check the connection
+   */
+  async ping(): Promise<boolean> {
+    if (!this.db || !this.db.open) {
+      return false;
+    }
+    try {
+      this.db.prepare('SELECT 1').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a transaction is open on the connection
+   */
+  inTransaction(): boolean {
+    return Boolean(this.db && this.db.inTransaction);
+  }
+
+  getInfo(): ProviderInfo {
+    return {
+      name: this.name,
+      version: this.version,
+      databaseVersion: this.db && this.db.open
+        ? (this.db.prepare('SELECT sqlite_version() AS version').get() as { version: string }).version
+        : undefined,
+      description: 'SQLite database provider'
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      transactions: true,
+      preparedStatements: true,
+      connectionPooling: false,
+      streaming: false,
+      ssl: false,
+      migrations: true,
+      schemas: false,
+      foreignKeys: true,
+      indexes: true,
+      views: true,
+      storedProcedures: false,
+      triggers: true,
+      maxConnections: 1,
+      dataTypes: ['integer', 'real', 'text', 'blob', 'numeric', 'boolean', 'date', 'json']
+    };
+  }
+
+  getMetadata(): ProviderMetadata {
+    const { queriesExecuted, totalTime, errors } = this.metrics;
+    return {
+      installedAt: this.connectedAt || new Date(),
+      updatedAt: new Date(),
+      configHash: this.db ? this.db.name : 'sqlite',
+      runtime: {
+        platform: process.platform,
+        version: process.version,
+        memory: process.memoryUsage().heapUsed,
+        uptime: process.uptime()
+      },
+      metrics: {
+        queriesExecuted,
+        totalTime,
+        averageTime: queriesExecuted > 0 ? totalTime / queriesExecuted : 0,
+        errors
+      },
+      features: {
+        inMemory: Boolean(this.db && this.db.memory),
+        readonly: Boolean(this.db && this.db.readonly)
+      }
+    };
+  }
+
+  async createPool(): Promise<ConnectionPoolInterface> {
+    throw new Error('SQLite provider does not support connection pooling');
+  }
+
+  async validateConfig(config: DatabaseConfig): Promise<boolean> {
+    return Boolean(config.options?.filename || config.database);
+  }
+
+  getDefaultConfig(): Partial<DatabaseConfig> {
+    return {
+      provider: 'sqlite',
+      database: SQLITE_MEMORY
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.disconnect();
+  }
+
+  /**
+   * Get the user tables of the database
+   */
+  async getTables(): Promise<string[]> {
+    const rows = await this.query<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    return rows.map(row => row.name);
+  }
+
+  /**
+   * Get the columns, keys and indexes of a table
+   */
+  async getTableSchema(tableName: string): Promise<TableSchema> {
+    const columns = this.pragma<{
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: string | null;
+      pk: number;
+    }>('table_info', tableName);
+
+    if (columns.length === 0) {
+      throw new Error(`Table '${tableName}' does not exist`);
+    }
+
+    const indexes = await this.getIndexes(tableName);
+    const foreignKeys = await this.getForeignKeys(tableName);
+    const definition = this.getDatabase()
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(tableName) as { sql: string } | undefined;
+    const primaryKey = columns.filter(column => column.pk > 0).sort((a, b) => a.pk - b.pk);
+    const uniqueColumns = new Set(
+      indexes.filter(index => index.unique && index.columns.length === 1).map(index => index.columns[0])
+    );
+    const autoIncrement = primaryKey.length === 1 && /^integer$/i.test(primaryKey[0].type);
+
+    return {
+      name: tableName,
+      columns: columns.map(column => ({
+        name: column.name,
+        type: fromSqliteType(column.type),
+        nullable: column.notnull === 0 && column.pk === 0,
+        defaultValue: column.dflt_value ?? undefined,
+        unique: uniqueColumns.has(column.name) || undefined,
+        primaryKey: column.pk > 0,
+        autoIncrement: column.pk > 0 && autoIncrement,
+        metadata: { declaredType: column.type }
+      })),
+      primaryKey: primaryKey.map(column => column.name),
+      indexes,
+      foreignKeys,
+      metadata: { sql: definition?.sql }
+    };
+  }
+
+  /**
+   * Get the indexes of a table, including the ones backing unique and primary key constraints
+   */
+  async getIndexes(tableName: string): Promise<IndexInfo[]> {
+    const indexes = this.pragma<{ name: string; unique: number; origin: string; partial: number }>('index_list', tableName);
+
+    return indexes.map(index => ({
+      name: index.name,
+      columns: this.pragma<{ seqno: number; name: string }>('index_info', index.name)
+        .sort((a, b) => a.seqno - b.seqno)
+        .map(column => column.name),
+      unique: index.unique === 1,
+      type: 'btree',
+      metadata: { origin: index.origin, partial: index.partial === 1 }
+    }));
+  }
+
+  /**
+   * Get the foreign keys of a table
+   */
+  async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+    const rows = this.pragma<{
+      id: number;
+      seq: number;
+      table: string;
+      from: string;
+      to: string | null;
+      on_update: string;
+      on_delete: string;
+    }>('foreign_key_list', tableName);
+
+    const keys = new Map<number, ForeignKeyInfo>();
+    for (const row of [...rows].sort((a, b) => a.id - b.id || a.seq - b.seq)) {
+      let key = keys.get(row.id);
+      if (!key) {
+        key = {
+          name: `fk_${tableName}_${row.id}`,
+          columns: [],
+          referencedTable: row.table,
+          referencedColumns: [],
+          onDelete: row.on_delete.toLowerCase() as ForeignKeyAction,
+          onUpdate: row.on_update.toLowerCase() as ForeignKeyAction
+        };
+        keys.set(row.id, key);
+      }
+      key.columns.push(row.from);
+      if (row.to) {
+        key.referencedColumns.push(row.to);
+      }
+    }
+
+    return Array.from(keys.values());
+  }
+
+  /**
+   * Create a table with its indexes
+   */
+  async createTable(definition: TableDefinition): Promise<void> {
+    const inlinePrimaryKey = definition.columns.filter(column => column.primaryKey);
+    const primaryKey = definition.primaryKey
+      || (inlinePrimaryKey.length > 1 ? inlinePrimaryKey.map(column => column.name) : []);
+    const parts = definition.columns.map(column => columnSql(column, primaryKey.length === 0));
+
+    if (primaryKey.length > 0) {
+      parts.push(`PRIMARY KEY (${primaryKey.map(quoteIdentifier).join(', ')})`);
+    }
+    for (const key of definition.foreignKeys || []) {
+      parts.push(
+        `CONSTRAINT ${quoteIdentifier(key.name)} FOREIGN KEY (${key.columns.map(quoteIdentifier).join(', ')}) ` +
+        `REFERENCES ${quoteIdentifier(key.referencedTable)} (${key.referencedColumns.map(quoteIdentifier).join(', ')})` +
+        (key.onDelete ? ` ON DELETE ${key.onDelete.toUpperCase()}` : '') +
+        (key.onUpdate ? ` ON UPDATE ${key.onUpdate.toUpperCase()}` : '')
+      );
+    }
+
+    const temporary = definition.options?.temporary ? 'TEMPORARY ' : '';
+    const statements = [`CREATE ${temporary}TABLE ${quoteIdentifier(definition.name)} (${parts.join(', ')})`];
+
+    for (const index of definition.indexes || []) {
+      const fields = Array.isArray(index.fields)
+        ? index.fields.map(quoteIdentifier)
+        : Object.entries(index.fields).map(([field, order]) => `${quoteIdentifier(field)} ${order === -1 ? 'DESC' : 'ASC'}`);
+      statements.push(
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name)} ` +
+        `ON ${quoteIdentifier(definition.name)} (${fields.join(', ')})`
+      );
+    }
+
+    await this.inTransactionScope(async () => {
+      for (const statement of statements) {
+        await this.execute(statement);
+      }
+    });
+  }
+
+  /**
+   * Drop a table if it exists
+   */
+  async dropTable(tableName: string): Promise<void> {
+    await this.execute(`DROP TABLE IF EXISTS ${quoteIdentifier(tableName)}`);
+  }
+
+  /**
+   * Add, drop and rename columns. SQLite cannot modify a column in place.
+   */
+  async alterTable(tableName: string, changes: TableChange[]): Promise<void> {
+    const table = quoteIdentifier(tableName);
+    const statements = changes.map(change => {
+      switch (change.type) {
+        case 'add_column':
+          if (!change.definition) {
+            throw new Error("Change 'add_column' requires a column definition");
+          }
+          return `ALTER TABLE ${table} ADD COLUMN ${columnSql(change.definition, false)}`;
+        case 'drop_column':
+          return `ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(change.column!)}`;
+        case 'rename_column':
+          return `ALTER TABLE ${table} RENAME COLUMN ${quoteIdentifier(change.column!)} TO ${quoteIdentifier(change.newName!)}`;
+        default:
+          throw new Error(`SQLite does not support '${change.type}'; recreate the table instead`);
+      }
+    });
+
+    await this.inTransactionScope(async () => {
+      for (const statement of statements) {
+        await this.execute(statement);
+      }
+    });
+  }
+
+  /**
+   * Apply a migration in a transaction
+   */
+  async executeMigration(migration: Migration): Promise<void> {
+    await this.inTransactionScope(() => migration.up(this));
+  }
+
+  private runQuery<T>(sql: string, params: any[] = []): T[] {
+    return this.measure(() => {
+      const statement = this.statement(sql);
+      if (!statement.reader) {
+        statement.run(...toSqliteParams(params));
+        return [];
+      }
+      return statement.all(...toSqliteParams(params)) as T[];
+    });
+  }
+
+  private runExecute(sql: string, params: any[] = []): QueryResult {
+    const start = Date.now();
+    return this.measure(() => {
+      const statement = this.statement(sql);
+      if (statement.reader) {
+        const rows = statement.all(...toSqliteParams(params));
+        return { rows, rowCount: rows.length, executionTime: Date.now() - start };
+      }
+
+      const result = statement.run(...toSqliteParams(params));
+      return {
+        rows: [],
+        rowCount: result.changes,
+        insertId: typeof result.lastInsertRowid === 'bigint' ? Number(result.lastInsertRowid) : result.lastInsertRowid,
+        executionTime: Date.now() - start
+      };
+    });
+  }
+
+  /**
+   * Get a cached prepared statement
+   */
+  private statement(sql: string): BetterSqlite3.Statement {
+    let statement = this.statements.get(sql);
+    if (statement) {
+      // Keep recently used statements at the end of the cache
+      this.statements.delete(sql);
+    } else {
+      statement = this.getDatabase().prepare(sql);
+      if (this.statements.size >= this.statementCacheSize) {
+        this.statements.delete(this.statements.keys().next().value!);
+      }
+    }
+    this.statements.set(sql, statement);
+    return statement;
+  }
+
+  private pragma<T>(name: string, argument: string): T[] {
+    return this.getDatabase().pragma(`${name}(${quoteIdentifier(argument)})`) as T[];
+  }
+
+  /**
+   * Run statements in a transaction, joining the open one if any
+   */
+  private async inTransactionScope(callback: () => Promise<void>): Promise<void> {
+    if (this.transactions.current()) {
+      await callback();
+      return;
+    }
+
+    const transaction = await this.beginTransaction();
+    try {
+      await transaction.run(callback);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  private measure<T>(run: () => T): T {
+    const start = Date.now();
+    this.metrics.queriesExecuted++;
+    try {
+      return run();
+    } catch (error) {
+      this.metrics.errors++;
+      throw error;
+    } finally {
+      this.metrics.totalTime += Date.now() - start;
+    }
+  }
+
+  private getDatabase(): BetterSqlite3.Database {
+    if (!this.db || !this.db.open) {
+      throw new Error('SQLite database is not connected');
+    }
+    return this.db;
+  }
+
+  private createConnection(filename: string): ConnectionInterface {
+    const createdAt = new Date();
+    return {
+      query: (sql, params) => this.query(sql, params),
+      execute: (sql, params) => this.execute(sql, params),
+      beginTransaction: () => this.beginTransaction(),
+      ping: () => this.ping(),
+      close: () => this.disconnect(),
+      getId: () => `sqlite:${filename}`,
+      isActive: () => Boolean(this.db && this.db.open),
+      getMetadata: () => ({
+        id: `sqlite:${filename}`,
+        createdAt,
+        lastActivity: new Date(),
+        queryCount: this.metrics.queriesExecuted
+      })
+    };
+  }
+}
+
+/**
+ * Convert values SQLite cannot bind
+ */
+function toSqliteParams(params: any[]): any[] {
+  return params.map(value => {
+    if (value === undefined) {
+      return null;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  });
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQL of a column. The primary key is declared inline when the table has a single-column key.
+ */
+function columnSql(column: ColumnDefinition, inlinePrimaryKey: boolean): string {
+  const parts = [quoteIdentifier(column.name), toSqliteType(column)];
+
+  if (column.primaryKey && inlinePrimaryKey) {
+    parts.push('PRIMARY KEY');
+    if (column.autoIncrement) {
+      parts.push('AUTOINCREMENT');
+    }
+  }
+  if (column.nullable === false && !(column.primaryKey && inlinePrimaryKey)) {
+    parts.push('NOT NULL');
+  }
+  if (column.unique) {
+    parts.push('UNIQUE');
+  }
+  if (column.defaultValue !== undefined) {
+    parts.push(`DEFAULT ${defaultSql(column.defaultValue)}`);
+  }
+
+  return parts.join(' ');
+}
+
+function defaultSql(value: any): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  if (typeof value === 'string' && /^CURRENT_(TIMESTAMP|DATE|TIME)$/i.test(value)) {
+    return value.toUpperCase();
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Declared SQLite type of a column
+ */
+function toSqliteType(column: ColumnDefinition): string {
+  switch (column.type) {
+    case 'integer':
+    case 'bigint':
+      return 'INTEGER';
+    case 'float':
+    case 'double':
+      return 'REAL';
+    case 'decimal':
+      return column.precision ? `DECIMAL(${column.precision}, ${column.scale ?? 0})` : 'NUMERIC';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'date':
+      return 'DATE';
+    case 'datetime':
+    case 'timestamp':
+      return 'DATETIME';
+    case 'time':
+      return 'TIME';
+    case 'json':
+    case 'jsonb':
+      return 'JSON';
+    case 'binary':
+      return 'BLOB';
+    case 'string':
+    case 'uuid':
+    case 'enum':
+      return column.length ? `VARCHAR(${column.length})` : 'VARCHAR(255)';
+    case 'text':
+    case 'longtext':
+    default:
+      return 'TEXT';
+  }
+}
+
+/**
+ * Column type of a declared SQLite type, following SQLite's type affinity rules
+ */
+function fromSqliteType(declared: string): ColumnType {
+  const type = declared.toUpperCase();
+
+  if (type.includes('INT')) {
+    return type.includes('BIG') ? 'bigint' : 'integer';
+  }
+  if (type.includes('CHAR')) {
+    return 'string';
+  }
+  if (type.includes('TEXT') || type.includes('CLOB')) {
+    return 'text';
+  }
+  if (type === '' || type.includes('BLOB')) {
+    return 'binary';
+  }
+  if (type.includes('REAL') || type.includes('FLOA')) {
+    return 'float';
+  }
+  if (type.includes('DOUB')) {
+    return 'double';
+  }
+  if (type.includes('BOOL')) {
+    return 'boolean';
+  }
+  if (type.includes('DATETIME') || type.includes('TIMESTAMP')) {
+    return 'datetime';
+  }
+  if (type.includes('DATE')) {
+    return 'date';
+  }
+  if (type.includes('TIME')) {
+    return 'time';
+  }
+  if (type.includes('JSON')) {
+    return 'json';
+  }
+  return 'decimal';
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Event bus tests across services sharing a message broker
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import { NatsAdapter } from '../adapters';
+import { InMemoryNatsServer, InMemoryRedisServer } from '../adapters/testing';
+import { EventBusFactory, EventEmitter, MemoryEventBus } from '../core';
+import { EventSystem } from '../event.system';
+import { EventBusInterface, EventInterface } from '../interfaces';
+import { event, waitFor } from './helpers';
+
+describe('MemoryEventBus with broker adapters', () => {
+  let server: InMemoryNatsServer;
+  let buses: EventBusInterface[];
+
+  const service = (consumerGroup?: string) => {
+    const bus = new MemoryEventBus(new EventEmitter(), { consumerGroup });
+    bus.addAdapter('nats', new NatsAdapter({ servers: ['nats://localhost:4222'], driver: server.driver }));
+    buses.push(bus);
+    return bus;
+  };
+
+  beforeEach(() => {
+    server = new InMemoryNatsServer();
+    buses = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(buses.map(bus => bus.close()));
+  });
+
+  it('should deliver events published by one service to the subscribers of another', async () => {
+    const orders = service();
+    const shipping = service();
+    const shipped: EventInterface[] = [];
+    const local: EventInterface[] = [];
+    await shipping.subscribe('order.placed', received => { shipped.push(received); });
+    await orders.subscribe('order.placed', received => { local.push(received); });
+
+    await orders.publish(event('order.placed', { orderId: 'order-1' }));
+
+    await waitFor(() => shipped.length === 1);
+    expect(shipped[0]).toMatchObject({ type: 'order.placed', data: { orderId: 'order-1' } });
+    expect(shipped[0].timestamp).toBeInstanceOf(Date);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(local).toHaveLength(1);
+    await expect(shipping.getStats()).resolves.toMatchObject({ totalReceived: 1 });
+  });
+
+  it('should deliver each event once to the services of a consumer group', async () => {
+    const orders = service();
+    const billing = [service('billing'), service('billing')];
+    const charged: string[] = [];
+    for (const instance of billing) {
+      await instance.subscribe('order.placed', received => { charged.push(received.data.orderId); });
+    }
+
+    await orders.publish(event('order.placed', { orderId: 'order-1' }));
+    await orders.publish(event('order.placed', { orderId: 'order-2' }));
+    await billing[0].publish(event('order.placed', { orderId: 'order-3' }));
+
+    await waitFor(() => charged.length === 3);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(charged.sort()).toEqual(['order-1', 'order-2', 'order-3']);
+  });
+
+  it('should listen to the subscribed event types on adapters added later', async () => {
+    const orders = service();
+    const shipping = new MemoryEventBus(new EventEmitter());
+    buses.push(shipping);
+    const shipped: EventInterface[] = [];
+    await shipping.subscribe('order.placed', received => { shipped.push(received); });
+
+    shipping.addAdapter('nats', new NatsAdapter({ servers: ['nats://localhost:4222'], driver: server.driver }));
+    await waitFor(() => server.connections === 1);
+    await shipping.connect();
+    await orders.publish(event('order.placed'));
+
+    await waitFor(() => shipped.length === 1);
+  });
+
+  it('should create the adapters of its configuration', async () => {
+    const redis = new InMemoryRedisServer();
+    const config = (consumerGroup: string) => ({
+      consumerGroup,
+      adapters: { streams: { type: 'redis', host: 'localhost', port: 6379, driver: redis.driver, blockTime: 10 } }
+    });
+    const orders = EventBusFactory.createFromConfig(config('orders'), new EventEmitter());
+    const shipping = EventBusFactory.createFromConfig(config('shipping'), new EventEmitter());
+    buses.push(orders, shipping);
+    const shipped: EventInterface[] = [];
+    await shipping.subscribe('order.placed', received => { shipped.push(received); });
+
+    await orders.publish(event('order.placed'));
+
+    await waitFor(() => shipped.length === 1);
+    expect(shipped[0].metadata.origin).toBe('orders');
+  });
+
+  it('should take the broker of an event system from its bus configuration', async () => {
+    const system = (id: string) => new EventSystem({
+      store: { type: 'memory' },
+      bus: { adapter: 'nats', connection: { servers: ['nats://localhost:4222'], driver: server.driver }, consumerGroup: { id, maxConcurrency: 1 } }
+    });
+    const orders = system('orders');
+    const shipping = system('shipping');
+    buses.push(orders.getBus(), shipping.getBus());
+    const shipped: EventInterface[] = [];
+    await shipping.subscribe('order.placed', received => { shipped.push(received); });
+
+    await orders.emit(event('order.placed'));
+
+    await waitFor(() => shipped.length === 1);
+  });
+
+  it('should fail unknown adapter types', () => {
+    expect(() => EventBusFactory.createFromConfig({ adapters: { queue: { type: 'sqs' } } }, new EventEmitter()))
+      .toThrow('Unsupported event adapter type: sqs');
+  });
+});
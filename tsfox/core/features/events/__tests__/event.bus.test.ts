@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Event bus delivery tests: retries, timeouts, concurrency and dead letters
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import { EventBusFactory, EventEmitter, MemoryDeadLetterStore, MemoryEventBus } from '../core';
+import { event } from './helpers';
+
+const retry = { maxAttempts: 2, backoffStrategy: 'fixed' as const, initialDelay: 1, maxDelay: 10 };
+
+describe('MemoryEventBus', () => {
+  let bus: MemoryEventBus;
+
+  beforeEach(() => {
+    bus = new MemoryEventBus(new EventEmitter());
+  });
+
+  afterEach(async () => {
+    await bus.close();
+  });
+
+  it('should retry failed handler calls', async () => {
+    let calls = 0;
+    const subscription = await bus.subscribe('order.placed', async () => {
+      if (++calls < 3) {
+        throw new Error('Database unavailable');
+      }
+    }, { retry });
+
+    await bus.publish(event('order.placed'));
+
+    expect(calls).toBe(3);
+    const stats = await bus.getStats();
+    expect(stats.handlers).toMatchObject({ delivered: 1, failed: 0, retried: 2, failureRate: 0 });
+    expect(stats.handlersBySubscription[subscription.id]).toMatchObject({ eventType: 'order.placed', retried: 2 });
+  });
+
+  it('should dead-letter events whose attempts all fail and replay them', async () => {
+    let broken = true;
+    const handled: string[] = [];
+    const subscription = await bus.subscribe('order.placed', async received => {
+      if (broken && received.data.poison) {
+        throw new Error('Cannot parse order');
+      }
+      handled.push(received.id);
+    }, { retry, deadLetterQueue: true });
+
+    const poison = event('order.placed', { poison: true });
+    await bus.publish(poison);
+    await bus.publish(event('order.placed'));
+
+    const [letter] = await bus.getDeadLetters();
+    expect(letter).toMatchObject({
+      event: poison,
+      subscriptionId: subscription.id,
+      eventType: 'order.placed',
+      error: 'Cannot parse order',
+      attempts: 3
+    });
+    expect(handled).toHaveLength(1);
+    await expect(bus.getStats()).resolves.toMatchObject({
+      deadLetters: 1,
+      handlers: { delivered: 2, failed: 1, failureRate: 0.5 }
+    });
+
+    // Replaying while still broken puts it back
+    await expect(bus.replayDeadLetters()).resolves.toBe(0);
+    expect(await bus.getDeadLetters()).toHaveLength(1);
+
+    broken = false;
+    await expect(bus.replayDeadLetters({ subscriptionId: subscription.id })).resolves.toBe(1);
+    expect(handled).toContain(poison.id);
+    expect(await bus.getDeadLetters()).toEqual([]);
+  });
+
+  it('should keep dead letters of removed subscriptions until purged', async () => {
+    const subscription = await bus.subscribe('order.placed', () => {
+      throw new Error('Unavailable');
+    }, { deadLetterQueue: true });
+    await bus.subscribe('order.shipped', () => {
+      throw new Error('Unavailable');
+    }, { deadLetterQueue: true });
+
+    await bus.publishBatch([event('order.placed'), event('order.placed'), event('order.shipped')]);
+    await bus.unsubscribe(subscription);
+
+    await expect(bus.replayDeadLetters({ eventType: 'order.placed' })).resolves.toBe(0);
+    await expect(bus.purgeDeadLetters({ eventType: 'order.placed' })).resolves.toBe(2);
+    expect((await bus.getDeadLetters()).map(letter => letter.event.type)).toEqual(['order.shipped']);
+  });
+
+  it('should report failed events to the emitter without a dead-letter queue', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await bus.subscribe('order.placed', () => {
+      throw new Error('Unavailable');
+    });
+    await bus.publish(event('order.placed'));
+
+    expect(error).toHaveBeenCalledWith('Event handler error:', expect.objectContaining({ message: 'Unavailable' }));
+    await expect(bus.getStats()).resolves.toMatchObject({ deadLetters: 0, handlers: { failed: 1 } });
+    error.mockRestore();
+  });
+
+  it('should fail handler calls past their timeout', async () => {
+    await bus.subscribe('report.requested', () => new Promise(resolve => setTimeout(resolve, 100)), {
+      timeout: 10,
+      deadLetterQueue: true
+    });
+
+    await bus.publish(event('report.requested'));
+
+    const [letter] = await bus.getDeadLetters();
+    expect(letter.error).toBe('Handler of report.requested timed out after 10 ms');
+    await expect(bus.getStats()).resolves.toMatchObject({ handlers: { timedOut: 1, failed: 1 } });
+  });
+
+  it('should limit the handler calls running at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const subscription = await bus.subscribeToMultiple(['order.placed', 'order.paid'], async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, { maxConcurrency: 2 });
+
+    const published = bus.publishBatch([1, 2, 3, 4, 5].map(i => event(i % 2 ? 'order.placed' : 'order.paid')));
+    await new Promise(resolve => setImmediate(resolve));
+    expect((await bus.getStats()).handlersBySubscription[subscription.id]).toMatchObject({ active: 2, queued: 3 });
+
+    await published;
+    expect(peak).toBe(2);
+    expect((await bus.getStats()).handlers).toMatchObject({ delivered: 5, active: 0, queued: 0 });
+  });
+});
+
+describe('EventBusFactory', () => {
+  it('should apply the error handling configuration to subscriptions', async () => {
+    const bus = EventBusFactory.createFromConfig({
+      errorHandling: { retryFailedMessages: true, deadLetterQueue: true, maxRetries: 1 },
+      connection: { retryAttempts: 0, retryDelay: 1, timeout: 1000 }
+    }, new EventEmitter());
+    const subscription = await bus.subscribe('order.placed', () => {
+      throw new Error('Unavailable');
+    });
+
+    expect(subscription.options).toMatchObject({ deadLetterQueue: true, retry: { maxAttempts: 1, initialDelay: 1 } });
+    await bus.publish(event('order.placed'));
+    await expect(bus.getDeadLetters()).resolves.toEqual([expect.objectContaining({ attempts: 2 })]);
+    await bus.close();
+  });
+
+  it('should create memory buses with a dead-letter store', async () => {
+    const deadLetters = new MemoryDeadLetterStore();
+    const bus = EventBusFactory.createMemoryBus(new EventEmitter(), { deadLetters, defaults: { deadLetterQueue: true } });
+    await bus.subscribe('order.placed', () => {
+      throw new Error('Unavailable');
+    });
+
+    await bus.publish(event('order.placed'));
+    await expect(deadLetters.count({ eventType: 'order.placed' })).resolves.toBe(1);
+    await bus.close();
+  });
+});
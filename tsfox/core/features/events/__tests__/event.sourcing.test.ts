@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Aggregate root and event-sourcing repository tests
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AggregateRoot,
+  ConcurrencyError,
+  EventSourcingRepository,
+  FileEventStore,
+  MemoryEventStore,
+  MemorySnapshotStore
+} from '../core';
+
+class Order extends AggregateRoot {
+  status = 'new';
+  items: string[] = [];
+
+  constructor(id: string) {
+    super(id);
+    this.on('order.created', () => { this.status = 'open'; });
+    this.on('order.item_added', event => { this.items.push(event.data.sku); });
+    this.on('order.paid', () => { this.status = 'paid'; });
+  }
+
+  create(): void {
+    this.raise('order.created');
+  }
+
+  addItem(sku: string): void {
+    if (this.status !== 'open') {
+      throw new Error(`Cannot add items to a ${this.status} order`);
+    }
+    this.raise('order.item_added', { sku });
+  }
+
+  pay(): void {
+    this.raise('order.paid', {}, { userId: 'ada' });
+  }
+}
+
+describe('AggregateRoot', () => {
+  it('should apply raised events and keep them uncommitted', () => {
+    const order = new Order('order-1');
+    order.create();
+    order.addItem('fox-1');
+
+    expect(order.version).toBe(2);
+    expect(order.items).toEqual(['fox-1']);
+    expect(order.getUncommittedEvents().map(e => [e.type, e.version, e.aggregateId])).toEqual([
+      ['order.created', 1, 'order-1'],
+      ['order.item_added', 2, 'order-1']
+    ]);
+
+    order.markEventsAsCommitted();
+    expect(order.getUncommittedEvents()).toEqual([]);
+    expect(order.version).toBe(2);
+  });
+
+  it('should snapshot the fields of the aggregate', () => {
+    const order = new Order('order-1');
+    order.create();
+    order.addItem('fox-1');
+
+    const copy = new Order('order-1');
+    copy.loadFromSnapshot(order.getSnapshot(), order.version);
+
+    expect(order.getSnapshot()).toEqual({ status: 'open', items: ['fox-1'] });
+    expect(copy.version).toBe(2);
+    copy.addItem('fox-2');
+    expect(copy.items).toEqual(['fox-1', 'fox-2']);
+  });
+
+  it('should refuse events without a handler', () => {
+    class Empty extends AggregateRoot {
+      touch(): void {
+        this.raise('empty.touched');
+      }
+    }
+
+    expect(() => new Empty('empty-1').touch()).toThrow('Empty has no handler for event empty.touched');
+  });
+});
+
+describe('EventSourcingRepository', () => {
+  let store: MemoryEventStore;
+  let repository: EventSourcingRepository<Order>;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+    repository = new EventSourcingRepository({ store, factory: id => new Order(id), streamPrefix: 'order-' });
+  });
+
+  it('should save uncommitted events and load the aggregate back', async () => {
+    const order = new Order('1');
+    order.create();
+    order.addItem('fox-1');
+    await repository.save(order);
+
+    expect(order.getUncommittedEvents()).toEqual([]);
+    expect((await store.read('order-1')).map(e => e.type)).toEqual(['order.created', 'order.item_added']);
+
+    const loaded = await repository.getById('1');
+    expect(loaded).toBeInstanceOf(Order);
+    expect(loaded).toMatchObject({ id: '1', version: 2, status: 'open', items: ['fox-1'] });
+
+    expect(await repository.getById('2')).toBeNull();
+    await expect(repository.exists('1')).resolves.toBe(true);
+    await expect(repository.getVersion('2')).resolves.toBe(0);
+  });
+
+  it('should raise a concurrency error when the aggregate changed since it was loaded', async () => {
+    const order = new Order('1');
+    order.create();
+    await repository.save(order);
+
+    const first = (await repository.getById('1'))!;
+    const second = (await repository.getById('1'))!;
+    first.addItem('fox-1');
+    second.pay();
+    await repository.save(first);
+
+    const conflict = repository.save(second);
+    await expect(conflict).rejects.toBeInstanceOf(ConcurrencyError);
+    await expect(conflict).rejects.toMatchObject({ streamId: 'order-1', expectedVersion: 1, actualVersion: 2 });
+
+    // A second new aggregate with the same id conflicts too
+    const duplicate = new Order('1');
+    duplicate.create();
+    await expect(repository.save(duplicate)).rejects.toMatchObject({ expectedVersion: -1, actualVersion: 2 });
+  });
+
+  it('should take a snapshot every N events and load from it', async () => {
+    const snapshots = new MemorySnapshotStore(2);
+    repository = new EventSourcingRepository({ store, factory: id => new Order(id), snapshots: { frequency: 3, store: snapshots } });
+
+    const order = new Order('order-1');
+    order.create();
+    order.addItem('fox-1');
+    await repository.save(order);
+    expect(await snapshots.get('order-1')).toBeNull();
+
+    order.addItem('fox-2');
+    order.addItem('fox-3');
+    await repository.save(order);
+    await expect(snapshots.get('order-1')).resolves.toMatchObject({ version: 4, metadata: { type: 'Order' } });
+
+    order.addItem('fox-4');
+    await repository.save(order);
+
+    const read = jest.spyOn(store, 'read');
+    const loaded = (await repository.getById('order-1'))!;
+    expect(read).toHaveBeenCalledWith('order-1', 4);
+    expect(loaded.version).toBe(5);
+    expect(loaded.items).toEqual(['fox-1', 'fox-2', 'fox-3', 'fox-4']);
+    await expect(snapshots.getStats()).resolves.toMatchObject({ totalSnapshots: 1, snapshotsByType: { Order: 1 } });
+  });
+
+  it('should delete the events and snapshots of an aggregate', async () => {
+    repository = new EventSourcingRepository({ store, factory: id => new Order(id), snapshots: { frequency: 1 } });
+    const order = new Order('order-1');
+    order.create();
+    await repository.save(order);
+    expect(await store.getSnapshot('order-1')).not.toBeNull();
+
+    await repository.delete('order-1');
+
+    expect(await repository.getById('order-1')).toBeNull();
+    await expect(repository.exists('order-1')).resolves.toBe(false);
+  });
+});
+
+describe('EventSourcingRepository with a durable store', () => {
+  it('should keep snapshots in the event store', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-aggregates-'));
+    const file = path.join(directory, 'log.jsonl');
+    const options = { factory: (id: string) => new Order(id), snapshots: { frequency: 2 } };
+
+    try {
+      const store = new FileEventStore({ path: file });
+      const order = new Order('order-1');
+      order.create();
+      order.addItem('fox-1');
+      order.addItem('fox-2');
+      await new EventSourcingRepository({ ...options, store }).save(order);
+      await store.close();
+
+      const reopened = new FileEventStore({ path: file });
+      const read = jest.spyOn(reopened, 'read');
+      const loaded = await new EventSourcingRepository({ ...options, store: reopened }).getById('order-1');
+
+      expect(read).toHaveBeenCalledWith('order-1', 3);
+      expect(loaded).toMatchObject({ version: 3, status: 'open', items: ['fox-1', 'fox-2'] });
+      await reopened.close();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Durable event store tests, run against the file and database backends
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FoxDatabase } from '../../database/database.factory';
+import {
+  ConcurrencyError,
+  DatabaseEventStore,
+  EventStoreFactory,
+  FileEventStore,
+  MemoryEventStore,
+  PersistentEventStore,
+  StreamNotFoundError
+} from '../core';
+import { EventInterface } from '../interfaces';
+import { event, waitFor } from './helpers';
+
+interface Backend {
+  name: string;
+  setup(directory: string): Promise<() => PersistentEventStore>;
+  teardown?(): Promise<void>;
+}
+
+let memoryDatabase: FoxDatabase;
+
+const backends: Backend[] = [
+  {
+    name: 'file',
+    setup: async directory => () => new FileEventStore({ path: path.join(directory, 'events', 'log.jsonl') })
+  },
+  {
+    name: 'SQLite database',
+    setup: async directory => () => new DatabaseEventStore({ database: { provider: 'sqlite', database: path.join(directory, 'events.db') } })
+  },
+  {
+    name: 'memory database',
+    setup: async () => {
+      memoryDatabase = new FoxDatabase({ provider: 'memory', database: 'events' });
+      await memoryDatabase.connect();
+      return () => new DatabaseEventStore({ database: memoryDatabase, tablePrefix: 'es' });
+    },
+    teardown: () => memoryDatabase.disconnect()
+  }
+];
+
+describe.each(backends)('PersistentEventStore ($name)', backend => {
+  let directory: string;
+  let createStore: () => PersistentEventStore;
+  let store: PersistentEventStore;
+
+  const reopen = async () => {
+    await store.close();
+    store = createStore();
+    return store;
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-events-'));
+    createStore = await backend.setup(directory);
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await backend.teardown?.();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should number events by stream version and global position', async () => {
+    await store.append('order-1', [event('order.created'), event('order.paid')], -1);
+    await store.append('order-2', [event('order.created')]);
+    await store.append('order-1', [event('order.shipped', { carrier: 'fox' })], 2);
+
+    const order = await store.read('order-1');
+    expect(order.map(e => [e.type, e.version, e.position])).toEqual([
+      ['order.created', 1, 1],
+      ['order.paid', 2, 2],
+      ['order.shipped', 3, 4]
+    ]);
+    expect(order[2].data).toEqual({ carrier: 'fox' });
+    expect(order[2].timestamp).toEqual(new Date('2025-01-01T00:00:00Z'));
+
+    expect((await store.read('order-1', 1, 1)).map(e => e.version)).toEqual([2]);
+    expect((await store.readAll(2)).map(e => e.position)).toEqual([3, 4]);
+    expect((await store.readAll(0, 2)).map(e => e.position)).toEqual([1, 2]);
+    await expect(store.getStreamMetadata('order-1')).resolves.toMatchObject({ version: 3, status: 'active' });
+  });
+
+  it('should reject appends at an unexpected version', async () => {
+    await store.append('order-1', [event('order.created')], -1);
+
+    const conflict = store.append('order-1', [event('order.paid')], -1);
+    await expect(conflict).rejects.toBeInstanceOf(ConcurrencyError);
+    await expect(conflict).rejects.toMatchObject({ streamId: 'order-1', expectedVersion: -1, actualVersion: 1 });
+
+    // A transaction is written whole or not at all
+    await expect(store.withTransaction(async tx => {
+      tx.append('order-2', [event('order.created')], -1);
+      tx.append('order-1', [event('order.paid')], 5);
+    })).rejects.toBeInstanceOf(ConcurrencyError);
+    expect(await store.read('order-2')).toEqual([]);
+
+    await store.withTransaction(async tx => {
+      tx.append('order-2', [event('order.created')], -1);
+      tx.append('order-1', [event('order.paid')], 1);
+    });
+    expect((await store.readAll()).map(e => [e.aggregateId ?? e.type, e.position])).toEqual([
+      ['order.created', 1],
+      ['order.created', 2],
+      ['order.paid', 3]
+    ]);
+  });
+
+  it('should keep streams, metadata and snapshots across restarts', async () => {
+    await store.append('order-1', [event('order.created'), event('order.paid')]);
+    await store.append('order-2', [event('order.created')]);
+    await store.createSnapshot('order-1', 1, { status: 'created' });
+    await store.createSnapshot('order-1', 2, { status: 'paid' });
+    await store.setStreamMetadata('order-1', {
+      streamId: 'order-1',
+      version: 99,
+      created: new Date(),
+      lastUpdated: new Date(),
+      status: 'archived',
+      metadata: { region: 'eu' }
+    });
+    await store.deleteStream('order-2', true);
+
+    await reopen();
+
+    expect((await store.read('order-1')).map(e => e.type)).toEqual(['order.created', 'order.paid']);
+    await expect(store.getStreamMetadata('order-1')).resolves.toMatchObject({ version: 2, status: 'archived', metadata: { region: 'eu' } });
+    await expect(store.getSnapshot('order-1')).resolves.toMatchObject({ version: 2, data: { status: 'paid' } });
+    await expect(store.getStreamMetadata('order-2')).rejects.toThrow(new StreamNotFoundError('order-2'));
+    await expect(store.getStreamMetadata('order-2')).rejects.toBeInstanceOf(StreamNotFoundError);
+    expect(await store.getSnapshot('order-2')).toBeNull();
+
+    await store.append('order-1', [event('order.shipped')], 2);
+    expect((await store.readAll()).map(e => e.position)).toEqual([1, 2, 4]);
+    await expect(store.getStats()).resolves.toMatchObject({ totalStreams: 1, totalEvents: 3 });
+  });
+
+  it('should deliver past and new events to subscribers in order', async () => {
+    await store.append('order-1', [event('order.created'), event('order.paid')]);
+
+    const fromStart: number[] = [];
+    const newOnly: number[] = [];
+    const subscription = await store.subscribe(e => { fromStart.push(e.position!); }, 1);
+    await store.subscribe(e => { newOnly.push(e.position!); });
+    await store.append('order-2', [event('order.created')]);
+    await store.append('order-1', [event('order.shipped')]);
+
+    await waitFor(() => fromStart.length === 3 && newOnly.length === 2);
+    expect(fromStart).toEqual([2, 3, 4]);
+    expect(newOnly).toEqual([3, 4]);
+
+    await subscription.unsubscribe();
+    await store.append('order-3', [event('order.created')]);
+    await waitFor(() => newOnly.length === 3);
+    expect(fromStart).toEqual([2, 3, 4]);
+  });
+
+  it('should retry the event a subscriber failed on', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const seen: string[] = [];
+    let failures = 1;
+    await store.subscribe(e => {
+      if (e.type === 'order.paid' && failures-- > 0) {
+        throw new Error('Handler failed');
+      }
+      seen.push(e.type);
+    }, 0);
+
+    await store.append('order-1', [event('order.created'), event('order.paid')]);
+    await waitFor(() => error.mock.calls.length === 1);
+    await store.append('order-1', [event('order.shipped')]);
+    await waitFor(() => seen.length === 3);
+
+    expect(seen).toEqual(['order.created', 'order.paid', 'order.shipped']);
+    error.mockRestore();
+  });
+});
+
+describe('FileEventStore', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-events-'));
+    file = path.join(directory, 'log.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should cut off a record torn by a crash', async () => {
+    const store = new FileEventStore({ path: file });
+    await store.append('order-1', [event('order.created')]);
+    await store.close();
+
+    const intact = fs.statSync(file).size;
+    fs.appendFileSync(file, '0123456789abcdef {"type":"append","streams":[{"streamId":"order-1","ev');
+
+    const reopened = new FileEventStore({ path: file });
+    expect((await reopened.read('order-1')).map(e => e.type)).toEqual(['order.created']);
+    expect(fs.statSync(file).size).toBe(intact);
+
+    await reopened.append('order-1', [event('order.paid')], 1);
+    await reopened.close();
+    const again = new FileEventStore({ path: file });
+    expect((await again.read('order-1')).map(e => e.version)).toEqual([1, 2]);
+    await again.close();
+  });
+
+  it('should refuse a log corrupted before its last record', async () => {
+    const store = new FileEventStore({ path: file });
+    await store.append('order-1', [event('order.created')]);
+    await store.append('order-1', [event('order.paid')]);
+    await store.close();
+
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    lines[0] = lines[0].replace('order.created', 'order.deleted');
+    fs.writeFileSync(file, lines.join('\n'));
+
+    await expect(new FileEventStore({ path: file }).read('order-1')).rejects.toThrow(`Event store file ${file} is corrupted at line 1`);
+  });
+});
+
+describe('MemoryEventStore', () => {
+  it('should raise a StreamNotFoundError for unknown streams', async () => {
+    const error = await new MemoryEventStore().getStreamMetadata('order-1').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(StreamNotFoundError);
+    expect(error).toMatchObject({ streamId: 'order-1', message: 'Stream order-1 not found' });
+  });
+});
+
+describe('EventStoreFactory', () => {
+  it('should create durable stores from configuration', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-events-'));
+    const database = new FoxDatabase({ provider: 'memory', database: 'events' });
+
+    try {
+      expect(EventStoreFactory.createFromConfig({ type: 'file', connection: path.join(directory, 'log.jsonl') })).toBeInstanceOf(FileEventStore);
+      expect(EventStoreFactory.createFromConfig({ type: 'database', connection: { provider: 'memory', database: 'events' } }))
+        .toBeInstanceOf(DatabaseEventStore);
+
+      await database.connect();
+      const store = EventStoreFactory.createFromConfig({ type: 'database', connection: { database, tablePrefix: 'domain' } });
+      await store.append('order-1', [event('order.created')]);
+      await expect(database.query('SELECT stream_id, version FROM domain_streams')).resolves.toEqual([{ stream_id: 'order-1', version: 1 }]);
+
+      expect(() => EventStoreFactory.createFromConfig({ type: 'database' })).toThrow('Event store type database requires a connection');
+    } finally {
+      await database.disconnect();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
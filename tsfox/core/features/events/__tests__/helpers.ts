@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Fixtures shared by the event system tests
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import { EventInterface } from '../interfaces';
+
+let counter = 0;
+
+/**
+ * Event of a type with a unique id, from the `test` source unless given
+ */
+export function event(
+  type: string,
+  data: any = {},
+  fields: { aggregateId?: string; correlationId?: string; source?: string } = {}
+): EventInterface {
+  const { aggregateId, correlationId, source = 'test' } = fields;
+  return {
+    id: `evt_${++counter}`,
+    type,
+    ...(aggregateId !== undefined && { aggregateId }),
+    data,
+    metadata: correlationId ? { source, correlationId } : { source },
+    timestamp: new Date('2025-01-01T00:00:00Z')
+  };
+}
+
+/**
+ * Wait until a condition holds, failing after a second
+ */
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeout = 1000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Command and query bus tests: handlers, middleware and correlation metadata
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import {
+  AggregateRoot,
+  authorizeMessages,
+  CommandBus,
+  EventSourcingRepository,
+  getMessageContext,
+  logMessages,
+  MemoryEventStore,
+  MessageContext,
+  QueryBus,
+  validateMessages
+} from '../core';
+import { EventInterface } from '../interfaces';
+import { SchemaBuilder } from '../../validation/schema/schema.builder';
+import { ValidationError } from '../../validation/errors/validation.errors';
+import { ILogger } from '../../../logging/interfaces';
+
+class Cart extends AggregateRoot {
+  items: string[] = [];
+
+  constructor(id: string) {
+    super(id);
+    this.on('cart.item_added', event => { this.items.push(event.data.sku); });
+  }
+
+  add(sku: string): void {
+    this.raise('cart.item_added', { sku });
+  }
+}
+
+describe('CommandBus', () => {
+  it('should send commands to their handler and publish the events it returns', async () => {
+    const published: EventInterface[] = [];
+    const bus = new CommandBus({ publish: async event => { published.push(event); } });
+    bus.register('cart.add', async command => [{
+      id: 'evt_1',
+      type: 'cart.item_added',
+      aggregateId: command.aggregateId,
+      data: command.data,
+      metadata: { source: 'cart' },
+      timestamp: new Date()
+    }]);
+
+    const events = await bus.execute({
+      type: 'cart.add',
+      aggregateId: 'cart-1',
+      data: { sku: 'fox-1' },
+      metadata: { messageId: 'cmd-1', correlationId: 'request-1', userId: 'ada' }
+    });
+
+    expect(published).toEqual(events);
+    expect(events[0].metadata).toEqual({ source: 'cart', correlationId: 'request-1', causationId: 'cmd-1', userId: 'ada' });
+    await expect(bus.send({ type: 'cart.remove' })).rejects.toThrow('No handler registered for command cart.remove');
+    expect(() => bus.register('cart.add', async () => [])).toThrow('A handler is already registered for command cart.add');
+  });
+
+  it('should propagate the correlation of a command to the commands and events it causes', async () => {
+    const store = new MemoryEventStore();
+    const carts = new EventSourcingRepository({ store, factory: id => new Cart(id) });
+    const bus = new CommandBus();
+    const contexts: MessageContext[] = [];
+
+    bus.register('cart.add', async command => {
+      contexts.push(getMessageContext()!);
+      const cart = (await carts.getById(command.aggregateId!)) || new Cart(command.aggregateId!);
+      cart.add(command.data.sku);
+      await carts.save(cart);
+    });
+    bus.register('cart.add_bundle', async command => {
+      contexts.push(getMessageContext()!);
+      for (const sku of command.data.skus) {
+        await bus.send({ type: 'cart.add', aggregateId: command.aggregateId, data: { sku } });
+      }
+    });
+
+    await bus.send({ type: 'cart.add_bundle', aggregateId: 'cart-1', data: { skus: ['fox-1', 'fox-2'] } });
+
+    const [bundle, first, second] = contexts;
+    expect(bundle.correlationId).toBe(bundle.messageId);
+    expect(first).toMatchObject({ correlationId: bundle.messageId, causationId: bundle.messageId });
+    expect(second.messageId).not.toBe(first.messageId);
+
+    const events = await store.read('cart-1');
+    expect(events.map(event => [event.metadata.correlationId, event.metadata.causationId])).toEqual([
+      [bundle.messageId, first.messageId],
+      [bundle.messageId, second.messageId]
+    ]);
+    expect(getMessageContext()).toBeUndefined();
+  });
+
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const bus = new CommandBus();
+    bus.use(async (message, context, next) => {
+      calls.push(`outer ${message.type}`);
+      const result = await next();
+      calls.push('outer done');
+      return result;
+    });
+    bus.use(async (message, context, next) => {
+      calls.push('inner');
+      return next({ ...message, data: { amount: message.data.amount * 100 } });
+    });
+    bus.register('order.pay', async command => {
+      calls.push(`handler ${command.data.amount}`);
+    });
+
+    await bus.send({ type: 'order.pay', data: { amount: 2 } });
+    expect(calls).toEqual(['outer order.pay', 'inner', 'handler 200', 'outer done']);
+  });
+
+  it('should validate, authorize and log commands', async () => {
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const bus = new CommandBus()
+      .use(logMessages(logger as unknown as ILogger))
+      .use(authorizeMessages((message, context) => context.userId === 'ada'))
+      .use(validateMessages({
+        'cart.add': SchemaBuilder.object({ sku: SchemaBuilder.string().required() })
+      }));
+    const handler = jest.fn(async () => []);
+    bus.register('cart.add', handler);
+
+    const invalid = bus.send({ type: 'cart.add', data: {}, metadata: { userId: 'ada' } });
+    await expect(invalid).rejects.toBeInstanceOf(ValidationError);
+    await expect(invalid).rejects.toThrow('Invalid command cart.add');
+
+    await expect(bus.send({ type: 'cart.add', data: { sku: 'fox-1' }, metadata: { userId: 'alan' } }))
+      .rejects.toMatchObject({ statusCode: 403, message: 'Not allowed to send command cart.add' });
+
+    await bus.send({ type: 'cart.add', data: { sku: 'fox-1' }, metadata: { userId: 'ada', correlationId: 'request-1' } });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith('Handled command cart.add', expect.objectContaining({ correlationId: 'request-1', userId: 'ada' }));
+    expect(logger.error).toHaveBeenCalledTimes(2);
+    expect(JSON.stringify(logger.info.mock.calls)).not.toContain('fox-1');
+  });
+
+  it('should time out slow handlers', async () => {
+    const bus = new CommandBus({ timeout: 20 });
+    bus.register('report.build', () => new Promise(resolve => setTimeout(resolve, 200)));
+
+    await expect(bus.send({ type: 'report.build' })).rejects.toThrow('Command report.build timed out after 20 ms');
+  });
+});
+
+describe('QueryBus', () => {
+  it('should return the result of the query handler', async () => {
+    const bus = new QueryBus();
+    bus.registerHandler({
+      handle: async query => (query.type === 'cart.count' ? 2 : ['fox-1', 'fox-2']),
+      getSupportedQueries: () => ['cart.count', 'cart.items']
+    });
+
+    await expect(bus.execute<number>({ type: 'cart.count' })).resolves.toBe(2);
+    await expect(bus.execute({ type: 'cart.items' })).resolves.toEqual(['fox-1', 'fox-2']);
+    expect([...bus.getHandlers().keys()]).toEqual(['cart.count', 'cart.items']);
+
+    bus.unregister('cart.count');
+    await expect(bus.execute({ type: 'cart.count' })).rejects.toThrow('No handler registered for query cart.count');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Projection manager and read model tests
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import {
+  defineProjection,
+  FileEventStore,
+  MemoryEventStore,
+  MemoryReadModel,
+  ProjectionCheckpoint,
+  ProjectionManager,
+  readModelRouter
+} from '../core';
+import { EventSystem } from '../event.system';
+import { EventInterface } from '../interfaces';
+import { event, waitFor } from './helpers';
+
+const orderTotals = (version = 1) => defineProjection<{ orders: number; total: number }>({
+  name: 'order-totals',
+  version,
+  initialize: () => ({ orders: 0, total: 0 }),
+  handlers: {
+    'order.created': (e, state) => ({ orders: state.orders + 1, total: state.total + e.data.amount }),
+    'order.cancelled': (e, state) => ({ orders: state.orders - 1, total: state.total - e.data.amount })
+  }
+});
+
+describe('ProjectionManager', () => {
+  let store: MemoryEventStore;
+  let manager: ProjectionManager;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+    manager = new ProjectionManager(store);
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    await store.clear();
+  });
+
+  it('should catch up with past events, then follow new ones', async () => {
+    await store.append('order-1', [event('order.created', { amount: 10 }), event('order.paid')]);
+    await manager.register(orderTotals());
+    await manager.start('order-totals');
+
+    expect(manager.getState('order-totals')).toEqual({ orders: 1, total: 10 });
+
+    await store.append('order-2', [event('order.created', { amount: 5 })]);
+    await store.append('order-1', [event('order.cancelled', { amount: 10 })]);
+    await waitFor(() => manager.getState('order-totals').orders === 1 && manager.getState('order-totals').total === 5);
+
+    await expect(manager.getStatus('order-totals')).resolves.toMatchObject({
+      status: 'running',
+      position: 4,
+      stats: { eventsProcessed: 3, lag: 0 }
+    });
+  });
+
+  it('should pause and resume from its position, reporting the lag', async () => {
+    await manager.register(orderTotals());
+    await manager.start('order-totals');
+    await store.append('order-1', [event('order.created', { amount: 10 })]);
+    await waitFor(() => manager.getState('order-totals').orders === 1);
+
+    await manager.stop('order-totals');
+    await store.append('order-2', [event('order.created', { amount: 5 })]);
+    await store.append('order-3', [event('order.created', { amount: 1 })]);
+
+    const readAll = jest.spyOn(store, 'readAll');
+    await expect(manager.getStatus('order-totals')).resolves.toMatchObject({ status: 'stopped', position: 1, stats: { lag: 2 } });
+    // The lag comes from the last position of the store, without reading its events
+    expect(readAll).not.toHaveBeenCalled();
+    readAll.mockRestore();
+    expect(manager.getState('order-totals')).toEqual({ orders: 1, total: 10 });
+
+    await manager.start('order-totals');
+    expect(manager.getState('order-totals')).toEqual({ orders: 3, total: 16 });
+    await expect(manager.getStatus('order-totals')).resolves.toMatchObject({ status: 'running', position: 3, stats: { lag: 0 } });
+  });
+
+  it('should stop on a failing event and retry it on restart', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    let failures = 1;
+    await manager.register(defineProjection({
+      name: 'fragile',
+      initialize: () => [] as string[],
+      handlers: {
+        '*': (e, seen: string[]) => {
+          if (e.type === 'order.paid' && failures-- > 0) {
+            throw new Error('Read model unavailable');
+          }
+          return [...seen, e.type];
+        }
+      }
+    }));
+    await manager.start('fragile');
+
+    await store.append('order-1', [event('order.created'), event('order.paid'), event('order.shipped')]);
+    await waitFor(() => error.mock.calls.length === 1);
+
+    const status = await manager.getStatus('fragile');
+    expect(status).toMatchObject({ status: 'error', position: 1, error: { message: 'Read model unavailable' }, stats: { lag: 2 } });
+    expect(status.error!.event!.type).toBe('order.paid');
+
+    await manager.restart('fragile');
+    expect(manager.getState('fragile')).toEqual(['order.created', 'order.paid', 'order.shipped']);
+    await expect(manager.getStatus('fragile')).resolves.toMatchObject({ status: 'running', error: undefined });
+    error.mockRestore();
+  });
+
+  it('should rebuild from position zero', async () => {
+    const readModel = new MemoryReadModel();
+    const projection = defineProjection({
+      name: 'orders',
+      handlers: {
+        'order.created': e => readModel.save({ id: e.aggregateId, status: 'created' }),
+        'order.paid': e => readModel.save({ id: e.aggregateId, status: 'paid' })
+      },
+      reset: () => readModel.clear()
+    });
+    await store.append('order-1', [{ ...event('order.created'), aggregateId: 'order-1' }]);
+    await manager.register(projection);
+    await manager.start('orders');
+
+    await readModel.save({ id: 'stray', status: 'unknown' });
+    await manager.rebuild('orders');
+
+    expect(await readModel.find({})).toEqual([{ id: 'order-1', status: 'created' }]);
+    await expect(manager.getStatus('orders')).resolves.toMatchObject({ status: 'running', position: 1 });
+  });
+
+  it('should refuse unknown and duplicate projections', async () => {
+    await manager.register(orderTotals());
+    await expect(manager.register(orderTotals())).rejects.toThrow('Projection order-totals is already registered');
+    await expect(manager.start('missing')).rejects.toThrow('Projection missing is not registered');
+  });
+});
+
+describe('ProjectionManager checkpoints', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-projections-'));
+    file = path.join(directory, 'log.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should resume from the checkpoint kept in the store', async () => {
+    const store = new FileEventStore({ path: file });
+    const manager = new ProjectionManager(store);
+    await store.append('order-1', [event('order.created', { amount: 10 })]);
+    await manager.register(orderTotals());
+    await manager.start('order-totals');
+    await manager.close();
+    await store.append('order-2', [event('order.created', { amount: 5 })]);
+    await store.close();
+
+    const reopened = new FileEventStore({ path: file });
+    const projection = orderTotals();
+    const project = jest.spyOn(projection, 'project');
+    const resumed = new ProjectionManager(reopened);
+    await resumed.register(projection);
+    await resumed.start('order-totals');
+
+    expect(resumed.getState('order-totals')).toEqual({ orders: 2, total: 15 });
+    expect(project).toHaveBeenCalledTimes(1);
+    await resumed.close();
+    await reopened.close();
+  });
+
+  it('should save checkpoints in batches, when idle and on stop', async () => {
+    const store = new MemoryEventStore();
+    const saved: number[] = [];
+    const manager = new ProjectionManager(store, {
+      checkpoints: {
+        load: async () => null,
+        save: async (checkpoint: ProjectionCheckpoint) => { saved.push(checkpoint.position); }
+      },
+      checkpointInterval: 2,
+      checkpointIdleTime: 20
+    });
+    await store.append('order-1', [1, 2, 3, 4, 5].map(amount => event('order.created', { amount })));
+    await manager.register(orderTotals());
+    await manager.start('order-totals');
+
+    expect(saved).toEqual([2, 4]);
+    await waitFor(() => saved.length === 3);
+    expect(saved[2]).toBe(5);
+
+    await store.append('order-2', [event('order.created', { amount: 6 })]);
+    await waitFor(() => manager.getState('order-totals').orders === 6);
+    await manager.stop('order-totals');
+    expect(saved).toEqual([2, 4, 5, 6]);
+  });
+
+  it('should rebuild a projection whose version changed', async () => {
+    const store = new FileEventStore({ path: file });
+    await store.append('order-1', [event('order.created', { amount: 10 })]);
+
+    const manager = new ProjectionManager(store);
+    await manager.register(orderTotals(1));
+    await manager.start('order-totals');
+    await manager.close();
+
+    const upgraded = orderTotals(2);
+    const reset = jest.spyOn(upgraded, 'reset');
+    const next = new ProjectionManager(store);
+    await next.register(upgraded);
+    await next.start('order-totals');
+
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(next.getState('order-totals')).toEqual({ orders: 1, total: 10 });
+    await expect(next.getStatus('order-totals')).resolves.toMatchObject({ version: 2, stats: { eventsProcessed: 1 } });
+    await next.close();
+    await store.close();
+  });
+});
+
+describe('readModelRouter', () => {
+  const readModel = new MemoryReadModel<{ id: number; customer: string; paid: boolean }>();
+  const app = express();
+  app.use('/orders', readModelRouter(readModel, { maxLimit: 2 }));
+
+  beforeAll(async () => {
+    await readModel.save({ id: 1, customer: 'ada', paid: true });
+    await readModel.save({ id: 2, customer: 'ada', paid: false });
+    await readModel.save({ id: 3, customer: 'alan', paid: true });
+  });
+
+  it('should list models matching the query string', async () => {
+    const response = await request(app).get('/orders?customer=ada&paid=true').expect(200);
+    expect(response.body).toEqual({ data: [{ id: 1, customer: 'ada', paid: true }], total: 1, limit: 2, offset: 0 });
+
+    const page = await request(app).get('/orders?offset=1&limit=10').expect(200);
+    expect(page.body.data.map((order: any) => order.id)).toEqual([2, 3]);
+    expect(page.body.total).toBe(3);
+  });
+
+  it('should return one model by id', async () => {
+    await request(app).get('/orders/3').expect(200, { id: 3, customer: 'alan', paid: true });
+    await request(app).get('/orders/4').expect(404, { error: 'Not found' });
+  });
+});
+
+describe('EventSystem.registerProjection', () => {
+  it('should run projections over the events it emits', async () => {
+    const system = new EventSystem();
+    await system.emit({ ...event('order.created', { amount: 10 }), aggregateId: 'order-1' });
+    await system.registerProjection(orderTotals());
+    await system.emit({ ...event('order.created', { amount: 2 }), aggregateId: 'order-2' });
+
+    await waitFor(() => system.getProjections().getState('order-totals').orders === 2);
+    expect(system.getProjections().getState('order-totals').total).toBe(12);
+    await system.shutdown();
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Saga manager tests: event routing, commands, timeouts, compensation and persistence
+ * @module tsfox/core/features/events/__tests__
+ */
+
+import { FoxDatabase } from '../../database/database.factory';
+import { DatabaseSagaStore, Saga, SagaManager, SagaRegistration } from '../core';
+import { EventSystem } from '../event.system';
+import { EventInterface, SagaCommand } from '../interfaces';
+import { event } from './helpers';
+
+interface FulfilmentState {
+  orderId?: string;
+  paymentId?: string;
+}
+
+class FulfilmentSaga extends Saga<FulfilmentState> {
+  constructor(id: string) {
+    super(id, {});
+    this.on('order.placed', event => {
+      this.state.orderId = event.aggregateId;
+      return [{ type: 'payment.charge', aggregateId: event.aggregateId!, data: { amount: event.data.amount } }];
+    });
+    this.on('payment.charged', event => {
+      this.state.paymentId = event.data.paymentId;
+      return [{ type: 'shipment.ship', aggregateId: this.state.orderId!, data: {} }];
+    });
+    this.on('shipment.shipped', () => {
+      this.complete();
+    });
+  }
+
+  protected getCompensations(): SagaCommand[] {
+    return this.state.paymentId
+      ? [{ type: 'payment.refund', aggregateId: this.state.orderId!, data: { paymentId: this.state.paymentId } }]
+      : [];
+  }
+}
+
+const fulfilment: SagaRegistration = {
+  create: id => new FulfilmentSaga(id),
+  startedBy: ['order.placed']
+};
+
+describe('SagaManager with the event system', () => {
+  let system: EventSystem;
+  let shipped: EventInterface[];
+
+  beforeEach(() => {
+    system = new EventSystem();
+    shipped = [];
+    const commands = system.getCommandBus();
+    commands.register('payment.charge', async command => [event('payment.charged', { paymentId: 'pay-1' }, { aggregateId: command.aggregateId! })]);
+    commands.register('shipment.ship', async command => {
+      const shipment = event('shipment.shipped', {}, { aggregateId: command.aggregateId! });
+      shipped.push(shipment);
+      return [shipment];
+    });
+    system.registerSaga('fulfilment', fulfilment);
+  });
+
+  afterEach(async () => {
+    await system.shutdown();
+  });
+
+  it('should react to events and dispatch commands until it completes', async () => {
+    await system.emit(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+
+    const [record] = await system.getSagas()['store'].find();
+    expect(record).toMatchObject({
+      type: 'fulfilment',
+      status: 'completed',
+      correlationId: 'checkout-1',
+      state: { orderId: 'order-1', paymentId: 'pay-1' }
+    });
+    expect(record.completedAt).toBeInstanceOf(Date);
+
+    // Events produced by the commands of the saga carry its correlation ID and their cause
+    const events = await system.getStore().read('order-1');
+    expect(events.map(e => [e.type, e.metadata.correlationId])).toEqual([
+      ['order.placed', 'checkout-1'],
+      ['payment.charged', 'checkout-1'],
+      ['shipment.shipped', 'checkout-1']
+    ]);
+    expect(events[2].metadata.causationId).toEqual(expect.any(String));
+    expect(shipped).toHaveLength(1);
+
+    await expect(system.getSagas().getStats()).resolves.toMatchObject({ totalSagas: 1, completedSagas: 1, activeSagas: 0 });
+  });
+
+  it('should run compensating commands when a command fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const refunds: string[] = [];
+    let refundFailures = 1;
+    const commands = system.getCommandBus();
+    commands.unregister('shipment.ship');
+    commands.register('shipment.ship', async () => {
+      throw new Error('No carrier available');
+    });
+    commands.register('payment.refund', async command => {
+      if (refundFailures-- > 0) {
+        throw new Error('Payment provider unavailable');
+      }
+      refunds.push(command.data.paymentId);
+    });
+
+    await system.emit(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+
+    const [record] = await system.getSagas()['store'].find();
+    expect(record).toMatchObject({ status: 'failed', error: 'No carrier available' });
+    expect(refunds).toEqual(['pay-1']);
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('SagaManager', () => {
+  let dispatched: SagaCommand[];
+  let manager: SagaManager;
+
+  beforeEach(() => {
+    dispatched = [];
+    manager = new SagaManager({
+      dispatch: async command => { dispatched.push(command); },
+      timeout: 1000,
+      timeoutCheckInterval: 0
+    });
+    manager.register('fulfilment', fulfilment);
+  });
+
+  it('should give events only to the sagas of their correlation ID', async () => {
+    await manager.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    await manager.handle(event('order.placed', { amount: 5 }, { aggregateId: 'order-2', correlationId: 'checkout-2' }));
+    await manager.handle(event('payment.charged', { paymentId: 'pay-2' }, { aggregateId: 'order-2', correlationId: 'checkout-2' }));
+
+    expect(dispatched.map(command => [command.type, command.aggregateId, command.metadata!.correlationId])).toEqual([
+      ['payment.charge', 'order-1', 'checkout-1'],
+      ['payment.charge', 'order-2', 'checkout-2'],
+      ['shipment.ship', 'order-2', 'checkout-2']
+    ]);
+
+    // A saga is not started twice for one correlation ID
+    await manager.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    await expect(manager.getStats()).resolves.toMatchObject({ totalSagas: 2, activeSagas: 2, sagasByStatus: { running: 2 } });
+  });
+
+  it('should start one saga for concurrent events of a correlation ID', async () => {
+    await Promise.all([
+      manager.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' })),
+      manager.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }))
+    ]);
+
+    await expect(manager.getStats()).resolves.toMatchObject({ totalSagas: 1, activeSagas: 1 });
+    // The second event goes to the saga the first one started
+    expect(new Set(dispatched.map(command => command.metadata!.sagaId)).size).toBe(1);
+  });
+
+  it('should record the compensating commands it could not dispatch', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failing = new SagaManager({
+      dispatch: async command => {
+        if (command.type === 'payment.refund') {
+          throw new Error('Payment provider unavailable');
+        }
+      },
+      maxCompensationAttempts: 2,
+      timeoutCheckInterval: 0
+    });
+    failing.register('fulfilment', fulfilment);
+
+    await failing.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    await failing.handle(event('payment.charged', { paymentId: 'pay-1' }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    const [{ id }] = await failing['store'].find();
+    await failing.fail(id, new Error('Order cancelled'));
+
+    await expect(failing.getRecord(id)).resolves.toMatchObject({
+      status: 'failed',
+      failedCompensations: [{
+        command: { type: 'payment.refund', data: { paymentId: 'pay-1' } },
+        error: 'Payment provider unavailable',
+        attempts: 2
+      }]
+    });
+    error.mockRestore();
+  });
+
+  it('should fail and compensate sagas past their deadline', async () => {
+    await manager.handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    await manager.handle(event('payment.charged', { paymentId: 'pay-1' }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+    const sagaId = dispatched[0].metadata!.sagaId;
+
+    await manager.checkTimeouts(new Date());
+    expect((await manager.getSaga(sagaId))!.status).toBe('running');
+
+    await manager.checkTimeouts(new Date(Date.now() + 1000));
+    const saga = (await manager.getSaga(sagaId)) as FulfilmentSaga;
+    expect(saga.status).toBe('failed');
+    expect(saga.error).toBe(`Saga ${sagaId} timed out`);
+    expect(dispatched[dispatched.length - 1]).toMatchObject({ type: 'payment.refund', data: { paymentId: 'pay-1' } });
+  });
+
+  it('should fail a saga on request', async () => {
+    const sagaId = await manager.start('fulfilment', event('order.placed', { amount: 10 }, { aggregateId: 'order-1' }));
+
+    await manager.fail(sagaId, new Error('Order cancelled'));
+
+    await expect(manager.getRecord(sagaId)).resolves.toMatchObject({ status: 'failed', error: 'Order cancelled', correlationId: sagaId });
+    await expect(manager.complete('missing')).rejects.toThrow('Saga missing not found');
+  });
+});
+
+describe('DatabaseSagaStore', () => {
+  it('should keep sagas across managers', async () => {
+    const database = new FoxDatabase({ provider: 'memory', database: 'sagas' });
+    await database.connect();
+    const dispatched: SagaCommand[] = [];
+    const create = () => {
+      const manager = new SagaManager({
+        dispatch: async command => { dispatched.push(command); },
+        store: new DatabaseSagaStore({ database }),
+        timeoutCheckInterval: 0
+      });
+      manager.register('fulfilment', fulfilment);
+      return manager;
+    };
+
+    try {
+      await create().handle(event('order.placed', { amount: 10 }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+
+      const restarted = create();
+      await restarted.handle(event('payment.charged', { paymentId: 'pay-1' }, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+      await restarted.handle(event('shipment.shipped', {}, { aggregateId: 'order-1', correlationId: 'checkout-1' }));
+
+      expect(dispatched.map(command => command.type)).toEqual(['payment.charge', 'shipment.ship']);
+      const [record] = await new DatabaseSagaStore({ database }).find({ correlationId: 'checkout-1' });
+      expect(record).toMatchObject({ status: 'completed', state: { orderId: 'order-1', paymentId: 'pay-1' } });
+    } finally {
+      await database.disconnect();
+    }
+  });
+});
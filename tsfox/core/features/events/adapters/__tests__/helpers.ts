@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Events shared by the adapter tests
+ * @module tsfox/core/features/events/adapters/__tests__
+ */
+
+import { EventInterface } from '../../interfaces';
+import { event } from '../../__tests__/helpers';
+
+export function orderPlaced(orderId: string): EventInterface {
+  return event('order.placed', { total: 30 }, { aggregateId: orderId, source: 'orders' });
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Kafka adapter tests against the in-memory Kafka cluster
+ * @module tsfox/core/features/events/adapters/__tests__
+ */
+
+import { KafkaAdapter, KafkaAdapterOptions } from '../kafka.adapter';
+import { InMemoryKafkaCluster } from '../testing';
+import { waitFor } from '../../__tests__/helpers';
+import { orderPlaced } from './helpers';
+
+describe('KafkaAdapter', () => {
+  let cluster: InMemoryKafkaCluster;
+  let adapters: KafkaAdapter[];
+
+  const adapter = (options: Partial<KafkaAdapterOptions> = {}) => {
+    const created = new KafkaAdapter({
+      brokers: ['localhost:9092'],
+      topicPrefix: 'shop.',
+      driver: cluster.driver,
+      retryDelay: 10,
+      reconnect: { initialDelay: 5 },
+      ...options
+    });
+    adapters.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    cluster = new InMemoryKafkaCluster();
+    adapters = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(created => created.disconnect()));
+  });
+
+  it('should give each event once to every consumer group', async () => {
+    const received: Record<string, string[]> = { billing: [], shipping: [] };
+    for (const group of ['billing', 'billing', 'shipping']) {
+      await adapter().subscribe('order.placed', async event => { received[group].push(event.aggregateId!); }, { consumerGroup: group });
+    }
+
+    const publisher = adapter();
+    for (const orderId of ['order-1', 'order-2', 'order-3']) {
+      await publisher.publish('order.placed', orderPlaced(orderId));
+    }
+
+    await waitFor(() => received.billing.length === 3 && received.shipping.length === 3);
+    expect(received.billing.sort()).toEqual(['order-1', 'order-2', 'order-3']);
+    const [message] = cluster.messages('shop.order.placed').filter(current => current.key === 'order-1');
+    expect(message.headers['event-type']).toBe('order.placed');
+    await waitFor(() => cluster.committed('billing', 'shop.order.placed').reduce((sum, offset) => sum + Math.max(offset, 0), 0) === 3);
+  });
+
+  it('should handle a failed event again before moving on in its partition', async () => {
+    const handled: string[] = [];
+    let attempts = 0;
+    await adapter().subscribe('order.placed', async event => {
+      if (event.id === first.id && ++attempts < 3) {
+        throw new Error('Database unavailable');
+      }
+      handled.push(event.id);
+    }, { consumerGroup: 'billing' });
+
+    const first = orderPlaced('order-1');
+    const second = { ...orderPlaced('order-1'), id: 'evt_second' };
+    const publisher = adapter();
+    await publisher.publish('order.placed', first);
+    await publisher.publish('order.placed', second);
+
+    await waitFor(() => handled.length === 2);
+    expect(attempts).toBe(3);
+    expect(handled).toEqual([first.id, 'evt_second']);
+  });
+
+  it('should let another member of the group take over the uncommitted events of one that left', async () => {
+    const stuck = adapter();
+    await stuck.subscribe('order.placed', () => new Promise(() => undefined), { consumerGroup: 'billing' });
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const received: string[] = [];
+    await stuck.disconnect();
+    await adapter().subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+
+    await waitFor(() => received.length === 1);
+  });
+
+  it('should reconnect after its consumers crash', async () => {
+    const received: string[] = [];
+    const subscriber = adapter();
+    await subscriber.subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+
+    cluster.crashConsumers();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+
+    await waitFor(() => received.length === 1);
+    expect((await subscriber.getStats()).lastError).toBe('The broker is not available');
+  });
+
+  it('should give subscriptions without group every event', async () => {
+    const first: string[] = [];
+    const second: string[] = [];
+    await adapter().subscribe('order.placed', async event => { first.push(event.aggregateId!); });
+    await adapter().subscribe('order.placed', async event => { second.push(event.aggregateId!); });
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+
+    await waitFor(() => first.length === 1 && second.length === 1);
+  });
+
+  it('should require the client library when no driver is given', async () => {
+    jest.resetModules();
+    jest.doMock('kafkajs', () => { throw new Error('Cannot find module'); }, { virtual: true });
+    const { KafkaAdapter: Adapter } = await import('../kafka.adapter');
+
+    await expect(new Adapter({ brokers: ['localhost:9092'] }).connect())
+      .rejects.toThrow("The Kafka adapter requires the 'kafkajs' package");
+    jest.dontMock('kafkajs');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview NATS adapter tests against the in-memory NATS server
+ * @module tsfox/core/features/events/adapters/__tests__
+ */
+
+import { NatsAdapter, NatsAdapterOptions } from '../nats.adapter';
+import { InMemoryNatsServer } from '../testing';
+import { waitFor } from '../../__tests__/helpers';
+import { orderPlaced } from './helpers';
+
+describe('NatsAdapter', () => {
+  let server: InMemoryNatsServer;
+  let adapters: NatsAdapter[];
+
+  const adapter = (options: Partial<NatsAdapterOptions> = {}) => {
+    const created = new NatsAdapter({
+      servers: ['nats://localhost:4222'],
+      driver: server.driver,
+      retryDelay: 10,
+      reconnect: { initialDelay: 5 },
+      ...options
+    });
+    adapters.push(created);
+    return created;
+  };
+
+  const jetstream = (options: Partial<NatsAdapterOptions> = {}) =>
+    adapter({ jetstream: { enabled: true, stream: 'ORDERS' }, ...options });
+
+  beforeEach(() => {
+    server = new InMemoryNatsServer();
+    adapters = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(created => created.disconnect()));
+  });
+
+  describe('core NATS', () => {
+    it('should give each event to one member of each queue group', async () => {
+      const received: Record<string, string[]> = { billing: [], shipping: [] };
+      for (const group of ['billing', 'billing', 'shipping']) {
+        await adapter().subscribe('order.placed', async event => { received[group].push(event.aggregateId!); }, { consumerGroup: group });
+      }
+
+      const publisher = adapter();
+      await publisher.publish('order.placed', orderPlaced('order-1'));
+      await publisher.publish('order.placed', orderPlaced('order-2'));
+
+      await waitFor(() => received.billing.length === 2 && received.shipping.length === 2);
+      expect(received.billing.sort()).toEqual(['order-1', 'order-2']);
+    });
+
+    it('should stop delivering to a subscription once unsubscribed', async () => {
+      const received: string[] = [];
+      const subscription = await adapter().subscribe('order.placed', async event => { received.push(event.aggregateId!); });
+      const publisher = adapter();
+
+      await publisher.publish('order.placed', orderPlaced('order-1'));
+      await waitFor(() => received.length === 1);
+      await subscription.unsubscribe();
+      await publisher.publish('order.placed', orderPlaced('order-2'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(received).toEqual(['order-1']);
+    });
+
+    it('should reconnect and resubscribe after the connection is lost', async () => {
+      const received: string[] = [];
+      const subscriber = adapter();
+      await subscriber.subscribe('order.placed', async event => { received.push(event.aggregateId!); });
+
+      server.dropConnections();
+      await waitFor(() => server.connections > 0);
+      await waitFor(() => subscriber.healthCheck());
+
+      await adapter().publish('order.placed', orderPlaced('order-1'));
+      await waitFor(() => received.length === 1);
+      expect((await subscriber.getStats()).lastError).toBe('connection lost');
+    });
+  });
+
+  describe('JetStream', () => {
+    it('should keep events in a stream and deliver them through durable consumers', async () => {
+      const received: string[] = [];
+      await jetstream().subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+
+      const publisher = jetstream();
+      const event = orderPlaced('order-1');
+      await publisher.publish('order.placed', event);
+      await publisher.publish('order.placed', event);
+
+      await waitFor(() => received.length === 1);
+      expect(server.streamMessages('ORDERS')).toHaveLength(1);
+      expect(server.streamMessages('ORDERS')[0].subject).toBe('events.order.placed');
+      expect(server.consumerNames('ORDERS')).toEqual(['billing-order_placed']);
+      await waitFor(() => server.pendingAcks('ORDERS', 'billing-order_placed') === 0);
+    });
+
+    it('should deliver a failed event again after the retry delay', async () => {
+      let attempts = 0;
+      await jetstream().subscribe('order.placed', async () => {
+        if (++attempts < 3) {
+          throw new Error('Database unavailable');
+        }
+      }, { consumerGroup: 'billing' });
+
+      await jetstream().publish('order.placed', orderPlaced('order-1'));
+
+      await waitFor(() => attempts === 3);
+      await waitFor(() => server.pendingAcks('ORDERS', 'billing-order_placed') === 0);
+    });
+
+    it('should deliver the events of a consumer that stopped acknowledging after the ack wait', async () => {
+      const stuck = jetstream({ ackWait: 30 });
+      await stuck.subscribe('order.placed', () => new Promise(() => undefined), { consumerGroup: 'billing' });
+      await jetstream().publish('order.placed', orderPlaced('order-1'));
+      await waitFor(() => server.pendingAcks('ORDERS', 'billing-order_placed') === 1);
+      await stuck.disconnect();
+
+      const received: string[] = [];
+      await jetstream({ ackWait: 30 }).subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+
+      await waitFor(() => received.length === 1);
+      expect(received).toEqual(['order-1']);
+    });
+
+    it('should remove the consumer of a subscription without group when it ends', async () => {
+      const subscription = await jetstream().subscribe('order.placed', async () => undefined);
+      expect(server.consumerNames('ORDERS')).toHaveLength(1);
+
+      await subscription.unsubscribe();
+      expect(server.consumerNames('ORDERS')).toEqual([]);
+    });
+  });
+
+  it('should require the client library when no driver is given', async () => {
+    jest.resetModules();
+    jest.doMock('nats', () => { throw new Error('Cannot find module'); }, { virtual: true });
+    const { NatsAdapter: Adapter } = await import('../nats.adapter');
+
+    await expect(new Adapter({ servers: ['nats://localhost:4222'] }).connect())
+      .rejects.toThrow("The NATS adapter requires the 'nats' package");
+    jest.dontMock('nats');
+  });
+});
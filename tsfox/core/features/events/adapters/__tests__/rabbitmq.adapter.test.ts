@@ -0,0 +1,134 @@
+/**
+ * @fileoverview RabbitMQ adapter tests against the in-memory AMQP broker
+ * @module tsfox/core/features/events/adapters/__tests__
+ */
+
+import { RabbitMQAdapter, RabbitMQAdapterOptions } from '../rabbitmq.adapter';
+import { InMemoryAmqpBroker } from '../testing';
+import { waitFor } from '../../__tests__/helpers';
+import { orderPlaced } from './helpers';
+
+describe('RabbitMQAdapter', () => {
+  let broker: InMemoryAmqpBroker;
+  let adapters: RabbitMQAdapter[];
+
+  const adapter = (options: Partial<RabbitMQAdapterOptions> = {}) => {
+    const created = new RabbitMQAdapter({
+      url: 'amqp://localhost',
+      exchange: 'events',
+      exchangeType: 'topic',
+      queuePrefix: 'shop.',
+      driver: broker.driver,
+      retryDelay: 10,
+      reconnect: { initialDelay: 5 },
+      ...options
+    });
+    adapters.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    broker = new InMemoryAmqpBroker();
+    adapters = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(created => created.disconnect()));
+  });
+
+  it('should give each event once to every consumer group', async () => {
+    const received: Record<string, string[]> = { billing: [], shipping: [] };
+    for (const group of ['billing', 'billing', 'shipping']) {
+      await adapter().subscribe('order.placed', async event => { received[group].push(event.aggregateId!); }, { consumerGroup: group });
+    }
+
+    const publisher = adapter();
+    await publisher.publish('order.placed', orderPlaced('order-1'));
+    await publisher.publish('order.placed', orderPlaced('order-2'));
+    await publisher.publish('order.cancelled', { ...orderPlaced('order-3'), type: 'order.cancelled' });
+
+    await waitFor(() => received.billing.length === 2 && received.shipping.length === 2);
+    expect(received.billing.sort()).toEqual(['order-1', 'order-2']);
+    expect(broker.queueNames().sort()).toEqual(['shop.billing.order.placed', 'shop.shipping.order.placed']);
+    await waitFor(() => broker.queueDepth('shop.billing.order.placed').unacked === 0);
+  });
+
+  it('should keep events in the queue of a group while nobody listens', async () => {
+    const first = adapter();
+    const subscription = await first.subscribe('order.placed', async () => undefined, { consumerGroup: 'billing' });
+    await subscription.unsubscribe();
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    expect(broker.queueDepth('shop.billing.order.placed').ready).toBe(1);
+
+    const received: string[] = [];
+    await adapter().subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+    await waitFor(() => received.length === 1);
+  });
+
+  it('should put a failed event back in its queue and deliver it again', async () => {
+    let attempts = 0;
+    await adapter().subscribe('order.placed', async () => {
+      if (++attempts < 3) {
+        throw new Error('Database unavailable');
+      }
+    }, { consumerGroup: 'billing' });
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+
+    await waitFor(() => attempts === 3);
+    await waitFor(() => broker.queueDepth('shop.billing.order.placed').unacked === 0);
+  });
+
+  it('should give the events a consumer did not acknowledge to another one when it leaves', async () => {
+    const stuck = adapter();
+    await stuck.subscribe('order.placed', () => new Promise(() => undefined), { consumerGroup: 'billing' });
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    await waitFor(() => broker.queueDepth('shop.billing.order.placed').unacked === 1);
+
+    const received: string[] = [];
+    await adapter().subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+    await stuck.disconnect();
+
+    await waitFor(() => received.length === 1);
+  });
+
+  it('should route by header on a headers exchange', async () => {
+    const received: string[] = [];
+    await adapter({ exchange: 'by-header', exchangeType: 'headers' })
+      .subscribe('order.placed', async event => { received.push(event.type); });
+
+    const publisher = adapter({ exchange: 'by-header', exchangeType: 'headers' });
+    await publisher.publish('order.cancelled', { ...orderPlaced('order-1'), type: 'order.cancelled' });
+    await publisher.publish('order.placed', orderPlaced('order-2'));
+
+    await waitFor(() => received.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toEqual(['order.placed']);
+  });
+
+  it('should reconnect and resume its subscriptions after the connection is lost', async () => {
+    const received: string[] = [];
+    const subscriber = adapter();
+    await subscriber.subscribe('order.placed', async event => { received.push(event.aggregateId!); });
+
+    broker.dropConnections();
+    expect(broker.queueNames()).toEqual([]);
+    await waitFor(() => broker.connections > 0);
+    await waitFor(() => subscriber.healthCheck());
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    await waitFor(() => received.length === 1);
+    expect((await subscriber.getStats()).lastError).toContain('CONNECTION_FORCED');
+  });
+
+  it('should require the client library when no driver is given', async () => {
+    jest.resetModules();
+    jest.doMock('amqplib', () => { throw new Error('Cannot find module'); }, { virtual: true });
+    const { RabbitMQAdapter: Adapter } = await import('../rabbitmq.adapter');
+
+    await expect(new Adapter({ url: 'amqp://localhost', exchange: 'events', exchangeType: 'topic' }).connect())
+      .rejects.toThrow("The RabbitMQ adapter requires the 'amqplib' package");
+    jest.dontMock('amqplib');
+  });
+});
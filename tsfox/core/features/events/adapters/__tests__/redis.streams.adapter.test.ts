@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Redis Streams adapter tests against the in-memory Redis server
+ * @module tsfox/core/features/events/adapters/__tests__
+ */
+
+import { EventInterface } from '../../interfaces';
+import { RedisStreamsAdapter, RedisStreamsAdapterOptions } from '../redis.streams.adapter';
+import { InMemoryRedisServer } from '../testing';
+import { waitFor } from '../../__tests__/helpers';
+import { orderPlaced } from './helpers';
+
+describe('RedisStreamsAdapter', () => {
+  let server: InMemoryRedisServer;
+  let adapters: RedisStreamsAdapter[];
+
+  const adapter = (options: Partial<RedisStreamsAdapterOptions> = {}) => {
+    const created = new RedisStreamsAdapter({
+      host: 'localhost',
+      port: 6379,
+      driver: server.driver,
+      blockTime: 20,
+      retryDelay: 10,
+      reconnect: { initialDelay: 5 },
+      ...options
+    });
+    adapters.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    server = new InMemoryRedisServer();
+    adapters = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(created => created.disconnect()));
+  });
+
+  it('should give each event once to every consumer group', async () => {
+    const received: Record<string, EventInterface[]> = { billing: [], shipping: [] };
+    for (const group of ['billing', 'billing', 'shipping']) {
+      await adapter().subscribe('order.placed', async event => { received[group].push(event); }, { consumerGroup: group });
+    }
+
+    const publisher = adapter();
+    await publisher.publish('order.placed', orderPlaced('order-1'));
+    await publisher.publish('order.placed', orderPlaced('order-2'));
+
+    await waitFor(() => received.billing.length === 2 && received.shipping.length === 2);
+    expect(received.billing.map(event => event.aggregateId).sort()).toEqual(['order-1', 'order-2']);
+    expect(received.shipping[0].timestamp).toBeInstanceOf(Date);
+    expect(server.entries('events:order.placed')[0].fields.type).toBe('order.placed');
+    await waitFor(() => server.pending('events:order.placed', 'billing').length === 0);
+    await expect(publisher.getStats()).resolves.toMatchObject({ type: 'redis', connected: true, published: 2 });
+  });
+
+  it('should keep failed entries pending and read them again', async () => {
+    let attempts = 0;
+    await adapter().subscribe('order.placed', async () => {
+      if (++attempts < 3) {
+        throw new Error('Database unavailable');
+      }
+    }, { consumerGroup: 'billing' });
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+
+    await waitFor(() => attempts === 3);
+    await waitFor(() => server.pending('events:order.placed', 'billing').length === 0);
+  });
+
+  it('should claim the entries of a consumer that went away', async () => {
+    const crashed = adapter({ consumerName: 'worker-1', claimIdleTime: 0 });
+    await crashed.subscribe('order.placed', () => new Promise(() => undefined), { consumerGroup: 'billing' });
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    await waitFor(() => server.pending('events:order.placed', 'billing').length === 1);
+
+    const received: EventInterface[] = [];
+    await adapter({ consumerName: 'worker-2', claimIdleTime: 0 })
+      .subscribe('order.placed', async event => { received.push(event); }, { consumerGroup: 'billing' });
+
+    await waitFor(() => received.length === 1);
+    await waitFor(() => server.pending('events:order.placed', 'billing').length === 0);
+  });
+
+  it('should give subscriptions without group the events published after they start', async () => {
+    const publisher = adapter();
+    await publisher.publish('order.placed', orderPlaced('order-1'));
+
+    const received: string[] = [];
+    const listener = adapter();
+    const subscription = await listener.subscribe('order.placed', async event => { received.push(event.aggregateId!); });
+    await publisher.publish('order.placed', orderPlaced('order-2'));
+    await waitFor(() => received.length === 1);
+
+    await subscription.unsubscribe();
+    await publisher.publish('order.placed', orderPlaced('order-3'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['order-2']);
+  });
+
+  it('should reconnect and resume its subscriptions after the connection is lost', async () => {
+    const received: string[] = [];
+    const subscriber = adapter();
+    await subscriber.subscribe('order.placed', async event => { received.push(event.aggregateId!); }, { consumerGroup: 'billing' });
+
+    server.dropConnections();
+    expect(server.connections).toBe(0);
+    await waitFor(() => server.connections > 0);
+    await waitFor(() => subscriber.healthCheck());
+
+    await adapter().publish('order.placed', orderPlaced('order-1'));
+    await waitFor(() => received.length === 1);
+    expect((await subscriber.getStats()).lastError).toBe('Redis connection closed');
+  });
+
+  it('should drop messages that are not events', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = jest.fn();
+    await adapter().subscribe('order.placed', handler, { consumerGroup: 'billing' });
+
+    const client = new server.driver({});
+    await client.call('XADD', 'events:order.placed', '*', 'event', 'not json');
+
+    await waitFor(() => server.pending('events:order.placed', 'billing').length === 0 && error.mock.calls.length > 0);
+    expect(handler).not.toHaveBeenCalled();
+    error.mockRestore();
+    client.disconnect();
+  });
+
+  it('should require the client library when no driver is given', async () => {
+    jest.resetModules();
+    jest.doMock('ioredis', () => { throw new Error('Cannot find module'); }, { virtual: true });
+    const { RedisStreamsAdapter: Adapter } = await import('../redis.streams.adapter');
+
+    await expect(new Adapter({ host: 'localhost', port: 6379 }).connect())
+      .rejects.toThrow("The Redis Streams adapter requires the 'ioredis' package");
+    jest.dontMock('ioredis');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Factory of the message broker adapters
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { EventAdapterInterface } from '../interfaces';
+import { KafkaAdapter, KafkaAdapterOptions } from './kafka.adapter';
+import { NatsAdapter, NatsAdapterOptions } from './nats.adapter';
+import { RabbitMQAdapter, RabbitMQAdapterOptions } from './rabbitmq.adapter';
+import { RedisStreamsAdapter, RedisStreamsAdapterOptions } from './redis.streams.adapter';
+
+/**
+ * Broker adapter types
+ */
+export type EventAdapterType = 'redis' | 'nats' | 'kafka' | 'rabbitmq';
+
+/**
+ * Event adapter factory
+ */
+export class EventAdapterFactory {
+  /**
+   * Create an adapter by type, with the configuration of that broker
+   */
+  static create(type: string, config: any): EventAdapterInterface {
+    switch (type) {
+      case 'redis':
+        return this.createRedisAdapter(config);
+      case 'nats':
+        return this.createNATSAdapter(config);
+      case 'kafka':
+        return this.createKafkaAdapter(config);
+      case 'rabbitmq':
+        return this.createRabbitMQAdapter(config);
+      default:
+        throw new Error(`Unsupported event adapter type: ${type}`);
+    }
+  }
+
+  /**
+   * Create a Redis Streams adapter
+   */
+  static createRedisAdapter(config: RedisStreamsAdapterOptions): EventAdapterInterface {
+    return new RedisStreamsAdapter(config);
+  }
+
+  /**
+   * Create a NATS adapter
+   */
+  static createNATSAdapter(config: NatsAdapterOptions): EventAdapterInterface {
+    return new NatsAdapter(config);
+  }
+
+  /**
+   * Create a Kafka adapter
+   */
+  static createKafkaAdapter(config: KafkaAdapterOptions): EventAdapterInterface {
+    return new KafkaAdapter(config);
+  }
+
+  /**
+   * Create a RabbitMQ adapter
+   */
+  static createRabbitMQAdapter(config: RabbitMQAdapterOptions): EventAdapterInterface {
+    return new RabbitMQAdapter(config);
+  }
+
+  /**
+   * Get the supported adapter types
+   */
+  static getSupportedTypes(): EventAdapterType[] {
+    return ['redis', 'nats', 'kafka', 'rabbitmq'];
+  }
+}
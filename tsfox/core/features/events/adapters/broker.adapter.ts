@@ -0,0 +1,437 @@
+/**
+ * @fileoverview Base of the message broker adapters: serialization, acknowledgements and reconnection
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  AdapterStats,
+  AdapterSubscriptionOptions,
+  EventAdapterInterface,
+  EventHandler,
+  EventInterface,
+  Subscription
+} from '../interfaces';
+
+/**
+ * Conversion of events to and from broker messages
+ */
+export interface EventSerializer {
+  /** MIME type of the messages */
+  readonly contentType: string;
+
+  serialize(event: EventInterface): Buffer;
+  deserialize(data: Buffer | Uint8Array | string): EventInterface;
+}
+
+/**
+ * Serializer writing events as JSON, restoring their timestamp as a date
+ */
+export class JsonEventSerializer implements EventSerializer {
+  readonly contentType = 'application/json';
+
+  serialize(event: EventInterface): Buffer {
+    return Buffer.from(JSON.stringify(event));
+  }
+
+  deserialize(data: Buffer | Uint8Array | string): EventInterface {
+    const text = typeof data === 'string' ? data : Buffer.from(data).toString('utf8');
+    const event = JSON.parse(text);
+    if (!event || typeof event.type !== 'string' || typeof event.id !== 'string') {
+      throw new Error('Message is not an event');
+    }
+    return { ...event, metadata: event.metadata || {}, timestamp: new Date(event.timestamp) };
+  }
+}
+
+/**
+ * Options shared by the broker adapters
+ */
+export interface BrokerAdapterOptions {
+  /** How events are written to messages (default JSON) */
+  serializer?: EventSerializer;
+
+  /** Reconnection after the connection to the broker is lost */
+  reconnect?: {
+    /** Attempts before giving up (default 10) */
+    maxAttempts?: number;
+
+    /** Delay before the first attempt in milliseconds, doubled after each one (default 100) */
+    initialDelay?: number;
+
+    /** Longest delay between attempts in milliseconds (default 5000) */
+    maxDelay?: number;
+  };
+}
+
+/**
+ * Message received from a broker
+ */
+export interface BrokerMessage {
+  data: Buffer | Uint8Array | string;
+
+  /** Tell the broker the message was handled */
+  ack(): unknown;
+
+  /** Tell the broker the message failed, so it is delivered again */
+  nack(): unknown;
+}
+
+/**
+ * Consumer of one topic, started by an adapter
+ */
+export interface TopicConsumer {
+  cancel(): Promise<void>;
+}
+
+/**
+ * Base of the broker adapters.
+ *
+ * Subclasses open and close the connection and send and consume raw messages; the base
+ * connects on first use, serializes events, acknowledges each message once its handler
+ * succeeds (or before calling it with `autoAck`) and asks for a redelivery when it fails.
+ * When a subclass reports a lost connection, it reconnects with backoff and restarts
+ * the consumers of its subscriptions.
+ */
+export abstract class BrokerAdapter implements EventAdapterInterface {
+  /** Name of the broker in statistics and errors */
+  abstract readonly type: string;
+
+  protected readonly serializer: EventSerializer;
+  private readonly reconnect: Required<NonNullable<BrokerAdapterOptions['reconnect']>>;
+  private status: 'disconnected' | 'connecting' | 'connected' | 'reconnecting' = 'disconnected';
+  private connecting?: Promise<void>;
+  private subscriptions = new Map<string, AdapterSubscription>();
+  private connectedAt?: Date;
+  private lastError?: string;
+  private counters = { published: 0, received: 0, publishTime: 0, receiveTime: 0 };
+
+  constructor(options: BrokerAdapterOptions = {}) {
+    this.serializer = options.serializer || new JsonEventSerializer();
+    this.reconnect = {
+      maxAttempts: options.reconnect?.maxAttempts ?? 10,
+      initialDelay: options.reconnect?.initialDelay ?? 100,
+      maxDelay: options.reconnect?.maxDelay ?? 5000
+    };
+  }
+
+  /**
+   * Connect to the broker and start the consumers of the subscriptions
+   */
+  async connect(): Promise<void> {
+    if (this.status === 'connected') {
+      return;
+    }
+    if (!this.connecting) {
+      this.status = 'connecting';
+      this.connecting = this.establish().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Stop the consumers and close the connection. Subscriptions are kept for the next `connect`.
+   */
+  async disconnect(): Promise<void> {
+    if (this.status === 'disconnected') {
+      return;
+    }
+    this.status = 'disconnected';
+    await this.connecting?.catch(() => undefined);
+    await this.stopConsumers();
+    await this.close();
+    this.connectedAt = undefined;
+  }
+
+  async publish(topic: string, event: EventInterface): Promise<void> {
+    await this.connect();
+    const started = Date.now();
+
+    try {
+      await this.send(topic, this.serializer.serialize(event), event);
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      throw error;
+    }
+
+    this.counters.published++;
+    this.counters.publishTime += Date.now() - started;
+  }
+
+  async subscribe(topic: string, handler: EventHandler, options: AdapterSubscriptionOptions = {}): Promise<Subscription> {
+    const subscription: AdapterSubscription = { id: randomUUID(), topic, handler, options };
+    this.subscriptions.set(subscription.id, subscription);
+
+    try {
+      await this.connect();
+      await this.startConsumer(subscription);
+    } catch (error) {
+      this.subscriptions.delete(subscription.id);
+      throw error;
+    }
+
+    return {
+      id: subscription.id,
+      eventType: topic,
+      handler,
+      options: {},
+      unsubscribe: () => this.remove(subscription.id)
+    };
+  }
+
+  async unsubscribe(subscription: Subscription): Promise<void> {
+    await subscription.unsubscribe();
+  }
+
+  async getStats(): Promise<AdapterStats> {
+    const uptime = this.connectedAt ? Date.now() - this.connectedAt.getTime() : 0;
+    const { published, received, publishTime, receiveTime } = this.counters;
+
+    return {
+      type: this.type,
+      connected: this.status === 'connected',
+      published,
+      received,
+      uptime,
+      lastError: this.lastError,
+      performance: {
+        publishLatency: published > 0 ? publishTime / published : 0,
+        receiveLatency: received > 0 ? receiveTime / received : 0,
+        throughput: uptime > 0 ? ((published + received) * 1000) / uptime : 0
+      }
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (this.status !== 'connected') {
+      return false;
+    }
+    try {
+      return await this.ping();
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      return false;
+    }
+  }
+
+  /**
+   * Open the connection to the broker
+   */
+  protected abstract open(): Promise<void>;
+
+  /**
+   * Close the connection to the broker
+   */
+  protected abstract close(): Promise<void>;
+
+  /**
+   * Send a serialized event to a topic
+   */
+  protected abstract send(topic: string, payload: Buffer, event: EventInterface): Promise<void>;
+
+  /**
+   * Start consuming a topic, giving each message to `receive`
+   */
+  protected abstract consume(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer>;
+
+  /**
+   * Check the connection (connected by default)
+   */
+  protected async ping(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Report a lost connection: reconnect with backoff and restart the consumers
+   */
+  protected connectionLost(error?: unknown): void {
+    if (this.status !== 'connected') {
+      return;
+    }
+    if (error) {
+      this.lastError = errorMessage(error);
+    }
+    this.status = 'reconnecting';
+    const stale = this.detachConsumers();
+
+    this.connecting = this.reestablish(stale).finally(() => {
+      this.connecting = undefined;
+    });
+    this.connecting.catch(reconnectError => console.error(`${this.type} adapter reconnection failed:`, reconnectError));
+  }
+
+  /**
+   * Record an error of a consumer without stopping it
+   */
+  protected consumerError(error: unknown): void {
+    this.lastError = errorMessage(error);
+  }
+
+  /**
+   * Delay before a reconnection attempt (the first attempt is 1)
+   */
+  protected reconnectDelay(attempt: number): number {
+    return Math.min(this.reconnect.initialDelay * Math.pow(2, attempt - 1), this.reconnect.maxDelay);
+  }
+
+  private async establish(): Promise<void> {
+    try {
+      await this.open();
+      await this.started();
+    } catch (error) {
+      this.status = 'disconnected';
+      this.lastError = errorMessage(error);
+      throw error;
+    }
+  }
+
+  private async reestablish(stale: Array<Promise<TopicConsumer>>): Promise<void> {
+    await Promise.all(stale.map(consumer => consumer.then(current => current.cancel()).catch(() => undefined)));
+
+    for (let attempt = 1; ; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, this.reconnectDelay(attempt)));
+      if (this.status !== 'reconnecting') {
+        return;
+      }
+
+      try {
+        await this.close().catch(() => undefined);
+        await this.open();
+        await this.started();
+        return;
+      } catch (error) {
+        this.lastError = errorMessage(error);
+        if (attempt >= this.reconnect.maxAttempts) {
+          this.status = 'disconnected';
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark the adapter connected and start the consumers of all subscriptions
+   */
+  private async started(): Promise<void> {
+    this.status = 'connected';
+    this.connectedAt = this.connectedAt || new Date();
+    for (const subscription of this.subscriptions.values()) {
+      await this.startConsumer(subscription);
+    }
+  }
+
+  /**
+   * Start the consumer of a subscription unless it is started or starting
+   */
+  private async startConsumer(subscription: AdapterSubscription): Promise<void> {
+    if (!subscription.consumer) {
+      const consumer = this.consume(subscription.topic, message => this.receive(subscription, message), subscription.options);
+      subscription.consumer = consumer;
+      consumer.catch(() => {
+        if (subscription.consumer === consumer) {
+          subscription.consumer = undefined;
+        }
+      });
+    }
+    await subscription.consumer;
+  }
+
+  /**
+   * Forget the consumers of all subscriptions, returning them
+   */
+  private detachConsumers(): Array<Promise<TopicConsumer>> {
+    const consumers: Array<Promise<TopicConsumer>> = [];
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.consumer) {
+        consumers.push(subscription.consumer);
+        subscription.consumer = undefined;
+      }
+    }
+    return consumers;
+  }
+
+  private async stopConsumers(): Promise<void> {
+    for (const consumer of this.detachConsumers()) {
+      await consumer.then(current => current.cancel()).catch(error => this.consumerError(error));
+    }
+  }
+
+  private async remove(subscriptionId: string): Promise<void> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      return;
+    }
+    this.subscriptions.delete(subscriptionId);
+    if (subscription.consumer) {
+      await (await subscription.consumer).cancel();
+    }
+  }
+
+  /**
+   * Handle one message: unreadable ones are acknowledged and dropped, failed ones
+   * are given back to the broker
+   */
+  private async receive(subscription: AdapterSubscription, message: BrokerMessage): Promise<void> {
+    let event: EventInterface;
+    try {
+      event = this.serializer.deserialize(message.data);
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      console.error(`${this.type} adapter dropped an unreadable message:`, error);
+      await message.ack();
+      return;
+    }
+
+    const started = Date.now();
+    const autoAck = subscription.options.autoAck === true;
+    if (autoAck) {
+      await message.ack();
+    }
+
+    try {
+      await subscription.handler(event);
+    } catch (error) {
+      this.lastError = errorMessage(error);
+      if (!autoAck) {
+        await message.nack();
+      }
+      return;
+    }
+
+    if (!autoAck) {
+      await message.ack();
+    }
+    this.counters.received++;
+    this.counters.receiveTime += Date.now() - started;
+  }
+}
+
+/**
+ * Load the client library of a broker lazily, so the framework works without it when
+ * the broker is not used
+ */
+export function loadDriver<T>(packageName: string, adapterName: string): T {
+  try {
+    return require(packageName);
+  } catch {
+    throw new Error(`The ${adapterName} adapter requires the '${packageName}' package. Install it with: npm install ${packageName}`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface AdapterSubscription {
+  id: string;
+  topic: string;
+  handler: EventHandler;
+  options: AdapterSubscriptionOptions;
+  consumer?: Promise<TopicConsumer>;
+}
@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Message broker adapters index
+ * @module tsfox/core/features/events/adapters
+ */
+
+// Shared base
+export * from './broker.adapter';
+
+// Brokers
+export * from './redis.streams.adapter';
+export * from './nats.adapter';
+export * from './kafka.adapter';
+export * from './rabbitmq.adapter';
+
+// Factory
+export * from './adapter.factory';
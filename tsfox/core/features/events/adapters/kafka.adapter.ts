@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Event adapter over Kafka, with consumer groups and committed offsets
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { randomUUID } from 'crypto';
+import { AdapterSubscriptionOptions, EventInterface, KafkaAdapterConfig } from '../interfaces';
+import { BrokerAdapter, BrokerAdapterOptions, BrokerMessage, loadDriver, TopicConsumer } from './broker.adapter';
+
+/**
+ * Kafka producer: the part of the `kafkajs` API the adapter needs
+ */
+export interface KafkaProducerLike {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  send(record: {
+    topic: string;
+    acks?: number;
+    compression?: number;
+    messages: Array<{ key?: string; value: Buffer; headers?: Record<string, string> }>;
+  }): Promise<unknown>;
+}
+
+/**
+ * Message of a Kafka partition
+ */
+export interface KafkaMessageLike {
+  offset: string;
+  key?: Buffer | null;
+  value: Buffer | null;
+  headers?: Record<string, Buffer | string | undefined>;
+}
+
+/**
+ * Kafka consumer: the part of the `kafkajs` API the adapter needs
+ */
+export interface KafkaConsumerLike {
+  readonly events: { CRASH: string };
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  subscribe(subscription: { topics: string[]; fromBeginning?: boolean }): Promise<void>;
+  run(config: {
+    autoCommit?: boolean;
+    eachMessage(payload: { topic: string; partition: number; message: KafkaMessageLike }): Promise<void>;
+  }): Promise<void>;
+  commitOffsets(offsets: Array<{ topic: string; partition: number; offset: string }>): Promise<void>;
+  on(event: string, listener: (event: { payload: any }) => void): () => void;
+}
+
+/**
+ * Kafka client created by the driver
+ */
+export interface KafkaClientLike {
+  producer(config?: Record<string, unknown>): KafkaProducerLike;
+  consumer(config: { groupId: string } & Record<string, unknown>): KafkaConsumerLike;
+}
+
+/**
+ * Kafka client library, such as `kafkajs`
+ */
+export interface KafkaDriver {
+  Kafka: new (config: Record<string, unknown>) => KafkaClientLike;
+}
+
+/**
+ * Kafka adapter options
+ */
+export interface KafkaAdapterOptions extends KafkaAdapterConfig, BrokerAdapterOptions {
+  /** Client library (default `kafkajs`) */
+  driver?: KafkaDriver;
+
+  /** Delay in milliseconds before a failed message is handled again (default 1000) */
+  retryDelay?: number;
+}
+
+/**
+ * Event adapter writing each topic to the Kafka topic `topicPrefix` + topic, keyed by
+ * aggregate ID so the events of an aggregate stay in order.
+ *
+ * Each subscription runs a consumer in its `consumerGroup` (or the configured `groupId`,
+ * or a group of its own), so each event goes to one consumer of the group. Offsets are
+ * committed once an event is handled; a failed event is handled again after `retryDelay`
+ * and holds back the rest of its partition until it succeeds.
+ */
+export class KafkaAdapter extends BrokerAdapter {
+  readonly type = 'kafka';
+
+  private client?: KafkaClientLike;
+  private producer?: KafkaProducerLike;
+
+  constructor(private readonly config: KafkaAdapterOptions) {
+    super(config);
+  }
+
+  protected async open(): Promise<void> {
+    const { Kafka } = this.config.driver || loadDriver<KafkaDriver>('kafkajs', 'Kafka');
+    const { ssl, sasl } = this.config;
+    this.client = new Kafka({
+      clientId: this.config.clientId || 'fox-events',
+      brokers: this.config.brokers,
+      ssl: ssl?.enabled ? { cert: ssl.cert, key: ssl.key, ca: ssl.ca } : undefined,
+      sasl
+    });
+    this.producer = this.client.producer({ allowAutoTopicCreation: true });
+    await this.producer.connect();
+  }
+
+  protected async close(): Promise<void> {
+    const producer = this.producer;
+    this.producer = undefined;
+    this.client = undefined;
+    await producer?.disconnect();
+  }
+
+  protected async send(topic: string, payload: Buffer, event: EventInterface): Promise<void> {
+    if (!this.producer) {
+      throw new Error('Kafka adapter is not connected');
+    }
+    const producer = this.config.producer;
+    await this.producer.send({
+      topic: this.topic(topic),
+      acks: ACKS[producer?.acks || 'all'],
+      compression: COMPRESSION[producer?.compression || 'none'],
+      messages: [{
+        key: event.aggregateId || event.id,
+        value: payload,
+        headers: { 'event-type': event.type, 'content-type': this.serializer.contentType }
+      }]
+    });
+  }
+
+  protected async consume(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    if (!this.client) {
+      throw new Error('Kafka adapter is not connected');
+    }
+    const consumer = this.client.consumer({
+      groupId: options.consumerGroup || this.config.groupId || `${this.config.clientId || 'fox-events'}-${randomUUID()}`,
+      sessionTimeout: this.config.consumer?.sessionTimeout,
+      heartbeatInterval: this.config.consumer?.heartbeatInterval,
+      retry: { initialRetryTime: this.config.retryDelay ?? 1000 }
+    });
+    const removeCrashListener = consumer.on(consumer.events.CRASH, ({ payload }) => {
+      this.consumerError(payload.error);
+      // The client restarts the consumer by itself unless it gave up
+      if (payload.restart === false) {
+        this.connectionLost(payload.error);
+      }
+    });
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({
+        topics: [this.topic(topic)],
+        fromBeginning: options.startFrom === 'beginning' || this.config.consumer?.fromBeginning === true
+      });
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: async ({ topic: kafkaTopic, partition, message }) => {
+          let failed = false;
+          await receive({
+            data: message.value || '',
+            ack: () => consumer.commitOffsets([{ topic: kafkaTopic, partition, offset: (BigInt(message.offset) + BigInt(1)).toString() }]),
+            nack: () => {
+              failed = true;
+            }
+          });
+          // Throwing makes the consumer handle the message again instead of moving on
+          if (failed) {
+            throw new Error(`Handling of ${kafkaTopic} offset ${message.offset} failed`);
+          }
+        }
+      });
+    } catch (error) {
+      removeCrashListener();
+      await consumer.disconnect().catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      cancel: async () => {
+        removeCrashListener();
+        await consumer.disconnect();
+      }
+    };
+  }
+
+  private topic(topic: string): string {
+    return `${this.config.topicPrefix || ''}${topic}`;
+  }
+}
+
+/** Acknowledgements required from the brokers, as `kafkajs` numbers them */
+const ACKS: Record<NonNullable<KafkaAdapterConfig['producer']>['acks'], number> = {
+  none: 0,
+  leader: 1,
+  all: -1
+};
+
+/** Compression codecs, as `kafkajs` numbers them */
+const COMPRESSION: Record<NonNullable<NonNullable<KafkaAdapterConfig['producer']>['compression']>, number> = {
+  none: 0,
+  gzip: 1,
+  snappy: 2,
+  lz4: 3
+};
@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Event adapter over NATS, with queue groups and JetStream acknowledgements
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { randomUUID } from 'crypto';
+import { AdapterSubscriptionOptions, EventInterface, NATSAdapterConfig } from '../interfaces';
+import { BrokerAdapter, BrokerAdapterOptions, BrokerMessage, loadDriver, TopicConsumer } from './broker.adapter';
+
+/**
+ * Message of a core NATS subscription
+ */
+export interface NatsMessageLike {
+  subject: string;
+  data: Uint8Array;
+}
+
+/**
+ * Message of a JetStream consumer
+ */
+export interface JsMessageLike {
+  data: Uint8Array;
+  ack(): void;
+  nak(delay?: number): void;
+}
+
+/**
+ * Messages of a JetStream consumer, until stopped
+ */
+export interface ConsumerMessagesLike extends AsyncIterable<JsMessageLike> {
+  stop(): void;
+}
+
+/**
+ * JetStream client: the part of the `nats` JetStream API the adapter needs
+ */
+export interface JetStreamClientLike {
+  publish(subject: string, data: Uint8Array, options?: { msgID?: string }): Promise<unknown>;
+  consumers: {
+    get(stream: string, name: string): Promise<{ consume(options?: { max_messages?: number }): Promise<ConsumerMessagesLike> }>;
+  };
+}
+
+/**
+ * JetStream management API: the part of the `nats` API the adapter needs
+ */
+export interface JetStreamManagerLike {
+  streams: {
+    info(name: string): Promise<unknown>;
+    add(config: Record<string, unknown>): Promise<unknown>;
+  };
+  consumers: {
+    add(stream: string, config: Record<string, unknown>): Promise<unknown>;
+    delete(stream: string, name: string): Promise<unknown>;
+  };
+}
+
+/**
+ * NATS connection: the part of the `nats` API the adapter needs
+ */
+export interface NatsConnectionLike {
+  publish(subject: string, data: Uint8Array): void;
+  subscribe(
+    subject: string,
+    options: { queue?: string; callback: (error: Error | null, message: NatsMessageLike) => void }
+  ): { unsubscribe(): void };
+  flush(): Promise<void>;
+  drain(): Promise<void>;
+  close(): Promise<void>;
+  closed(): Promise<void | Error>;
+  jetstream(): JetStreamClientLike;
+  jetstreamManager(): Promise<JetStreamManagerLike>;
+}
+
+/**
+ * NATS client library, such as `nats`
+ */
+export interface NatsDriver {
+  connect(options: Record<string, unknown>): Promise<NatsConnectionLike>;
+  nkeyAuthenticator?(seed: Uint8Array): unknown;
+  jwtAuthenticator?(jwt: string, seed?: Uint8Array): unknown;
+}
+
+/**
+ * NATS adapter options
+ */
+export interface NatsAdapterOptions extends NATSAdapterConfig, BrokerAdapterOptions {
+  /** Client library (default `nats`) */
+  driver?: NatsDriver;
+
+  /** Reconnection attempts of the client before the adapter takes over (default 10) */
+  maxReconnectAttempts?: number;
+
+  /** Delay in milliseconds before a failed JetStream message is delivered again (default 1000) */
+  retryDelay?: number;
+
+  /** Time in milliseconds JetStream waits for an acknowledgement before delivering again (default 30000) */
+  ackWait?: number;
+}
+
+/**
+ * Event adapter publishing each topic to the subject `subjectPrefix` + topic.
+ *
+ * With core NATS, subscriptions with a `consumerGroup` join a queue group, so each event
+ * goes to one member of the group; delivery is at most once and failed events are lost.
+ * With `jetstream.enabled`, events are kept in a stream and consumed through durable
+ * consumers named after the group (or this adapter when there is none): each message is
+ * acknowledged once handled and delivered again `retryDelay` after a failure, or
+ * `ackWait` after it was last delivered.
+ */
+export class NatsAdapter extends BrokerAdapter {
+  readonly type = 'nats';
+
+  private connection?: NatsConnectionLike;
+  private jetstream?: { client: JetStreamClientLike; manager: JetStreamManagerLike; stream: string };
+  private readonly instanceId = randomUUID().slice(0, 8);
+
+  constructor(private readonly config: NatsAdapterOptions) {
+    super(config);
+  }
+
+  protected async open(): Promise<void> {
+    const driver = this.config.driver || loadDriver<NatsDriver>('nats', 'NATS');
+    const connection = await driver.connect(this.connectionOptions(driver));
+    this.connection = connection;
+    void connection.closed().then(error => {
+      if (this.connection === connection) {
+        this.connectionLost(error || new Error('NATS connection closed'));
+      }
+    });
+
+    if (this.config.jetstream?.enabled) {
+      const manager = await connection.jetstreamManager();
+      const stream = this.config.jetstream.stream || 'EVENTS';
+      try {
+        await manager.streams.info(stream);
+      } catch {
+        await manager.streams.add({
+          name: stream,
+          subjects: [`${this.prefix()}>`],
+          storage: this.config.jetstream.storage || 'file',
+          num_replicas: this.config.jetstream.replicas || 1
+        });
+      }
+      this.jetstream = { client: connection.jetstream(), manager, stream };
+    }
+  }
+
+  protected async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    this.jetstream = undefined;
+    if (connection) {
+      await connection.drain().catch(() => connection.close());
+    }
+  }
+
+  protected async send(topic: string, payload: Buffer, event: EventInterface): Promise<void> {
+    const subject = this.subject(topic);
+    if (this.jetstream) {
+      // The event ID lets JetStream drop duplicates of a publish that was retried
+      await this.jetstream.client.publish(subject, payload, { msgID: event.id });
+      return;
+    }
+    const connection = this.requireConnection();
+    connection.publish(subject, payload);
+    await connection.flush();
+  }
+
+  protected async consume(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    return this.jetstream
+      ? this.consumeStream(this.jetstream, topic, receive, options)
+      : this.consumeSubject(topic, receive, options);
+  }
+
+  /**
+   * Subscribe to a subject, handling its messages one at a time
+   */
+  private async consumeSubject(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    let queue = Promise.resolve();
+    const subscription = this.requireConnection().subscribe(this.subject(topic), {
+      queue: options.consumerGroup,
+      callback: (error, message) => {
+        if (error) {
+          this.consumerError(error);
+          return;
+        }
+        queue = queue
+          .then(() => receive({ data: message.data, ack: () => undefined, nack: () => undefined }))
+          .catch(receiveError => this.consumerError(receiveError));
+      }
+    });
+
+    return {
+      cancel: async () => subscription.unsubscribe()
+    };
+  }
+
+  /**
+   * Consume a subject through a durable JetStream consumer
+   */
+  private async consumeStream(
+    jetstream: NonNullable<NatsAdapter['jetstream']>,
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    const name = `${options.consumerGroup || this.instanceId}-${topic}`.replace(/[^A-Za-z0-9_-]/g, '_');
+    const nanos = (ms: number) => ms * 1000000;
+
+    try {
+      await jetstream.manager.consumers.add(jetstream.stream, {
+        durable_name: name,
+        ack_policy: 'explicit',
+        deliver_policy: options.startFrom === 'beginning' ? 'all' : 'new',
+        filter_subject: this.subject(topic),
+        ack_wait: nanos(this.config.ackWait ?? 30000),
+        max_ack_pending: options.maxUnackedMessages ?? 1000,
+        // Consumers of a single adapter go away some time after it stops
+        ...(options.consumerGroup ? {} : { inactive_threshold: nanos(5 * 60 * 1000) })
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || !/already/i.test(error.message)) {
+        throw error;
+      }
+    }
+
+    const consumer = await jetstream.client.consumers.get(jetstream.stream, name);
+    const messages = await consumer.consume({ max_messages: options.prefetchCount ?? 100 });
+    const retryDelay = this.config.retryDelay ?? 1000;
+
+    void (async () => {
+      for await (const message of messages) {
+        await receive({ data: message.data, ack: () => message.ack(), nack: () => message.nak(retryDelay) });
+      }
+    })().catch(error => this.consumerError(error));
+
+    return {
+      cancel: async () => {
+        messages.stop();
+        if (!options.consumerGroup) {
+          await jetstream.manager.consumers.delete(jetstream.stream, name).catch(() => undefined);
+        }
+      }
+    };
+  }
+
+  private connectionOptions(driver: NatsDriver): Record<string, unknown> {
+    const { auth, tls } = this.config;
+    const encode = (value: string) => new TextEncoder().encode(value);
+    let authenticator: unknown;
+    if (auth?.jwt && driver.jwtAuthenticator) {
+      authenticator = driver.jwtAuthenticator(auth.jwt, auth.nkey ? encode(auth.nkey) : undefined);
+    } else if (auth?.nkey && driver.nkeyAuthenticator) {
+      authenticator = driver.nkeyAuthenticator(encode(auth.nkey));
+    }
+
+    return {
+      servers: this.config.servers,
+      name: this.config.name,
+      token: auth?.token,
+      user: auth?.user,
+      pass: auth?.pass,
+      authenticator,
+      tls: tls?.enabled ? { certFile: tls.cert, keyFile: tls.key, caFile: tls.ca } : undefined,
+      maxReconnectAttempts: this.config.maxReconnectAttempts ?? 10
+    };
+  }
+
+  private requireConnection(): NatsConnectionLike {
+    if (!this.connection) {
+      throw new Error('NATS adapter is not connected');
+    }
+    return this.connection;
+  }
+
+  private prefix(): string {
+    return this.config.subjectPrefix ?? 'events.';
+  }
+
+  private subject(topic: string): string {
+    return `${this.prefix()}${topic}`;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Event adapter over RabbitMQ, with durable group queues and publisher confirms
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { AdapterSubscriptionOptions, EventInterface, RabbitMQAdapterConfig } from '../interfaces';
+import { BrokerAdapter, BrokerAdapterOptions, BrokerMessage, loadDriver, TopicConsumer } from './broker.adapter';
+
+/**
+ * Message delivered by RabbitMQ
+ */
+export interface AmqpMessageLike {
+  content: Buffer;
+  fields: { deliveryTag: number; redelivered: boolean; routingKey: string };
+  properties: { headers?: Record<string, unknown> } & Record<string, unknown>;
+}
+
+/**
+ * AMQP channel: the part of the `amqplib` API the adapter needs
+ */
+export interface AmqpChannelLike {
+  assertExchange(exchange: string, type: string, options?: Record<string, unknown>): Promise<unknown>;
+  assertQueue(queue: string, options?: Record<string, unknown>): Promise<{ queue: string }>;
+  bindQueue(queue: string, exchange: string, pattern: string, args?: Record<string, unknown>): Promise<unknown>;
+  prefetch(count: number): Promise<unknown>;
+  consume(queue: string, onMessage: (message: AmqpMessageLike | null) => void, options?: Record<string, unknown>): Promise<{ consumerTag: string }>;
+  cancel(consumerTag: string): Promise<unknown>;
+  ack(message: AmqpMessageLike): void;
+  nack(message: AmqpMessageLike, allUpTo?: boolean, requeue?: boolean): void;
+  publish(exchange: string, routingKey: string, content: Buffer, options?: Record<string, unknown>): boolean;
+  close(): Promise<void>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * AMQP channel with publisher confirms
+ */
+export interface AmqpConfirmChannelLike extends AmqpChannelLike {
+  waitForConfirms(): Promise<void>;
+}
+
+/**
+ * AMQP connection: the part of the `amqplib` API the adapter needs
+ */
+export interface AmqpConnectionLike {
+  createChannel(): Promise<AmqpChannelLike>;
+  createConfirmChannel(): Promise<AmqpConfirmChannelLike>;
+  close(): Promise<void>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * AMQP client library, such as `amqplib`
+ */
+export interface AmqpDriver {
+  connect(url: string, socketOptions?: Record<string, unknown>): Promise<AmqpConnectionLike>;
+}
+
+/**
+ * RabbitMQ adapter options
+ */
+export interface RabbitMQAdapterOptions extends RabbitMQAdapterConfig, BrokerAdapterOptions {
+  /** Client library (default `amqplib`) */
+  driver?: AmqpDriver;
+
+  /** Delay in milliseconds before a failed message is put back in its queue (default 1000) */
+  retryDelay?: number;
+}
+
+/**
+ * Event adapter publishing each topic to the configured exchange with the topic as
+ * routing key (and as `topic` header, for headers exchanges), waiting for the broker
+ * to confirm each message.
+ *
+ * Subscriptions with a `consumerGroup` share the queue `queuePrefix` + group + `.` + topic,
+ * so each event goes to one member of the group and stays in the queue while nobody
+ * listens. Subscriptions without a group get an exclusive queue of their own, removed
+ * with their connection. Messages are acknowledged once handled; failed ones are put
+ * back in their queue after `retryDelay`.
+ */
+export class RabbitMQAdapter extends BrokerAdapter {
+  readonly type = 'rabbitmq';
+
+  private connection?: AmqpConnectionLike;
+  private channel?: AmqpConfirmChannelLike;
+
+  constructor(private readonly config: RabbitMQAdapterOptions) {
+    super(config);
+  }
+
+  protected async open(): Promise<void> {
+    const driver = this.config.driver || loadDriver<AmqpDriver>('amqplib', 'RabbitMQ');
+    const { ssl, connectionOptions } = this.config;
+    const connection = await driver.connect(this.url(), {
+      timeout: connectionOptions?.timeout,
+      ...(ssl?.enabled ? { cert: ssl.cert, key: ssl.key, ca: ssl.ca } : {})
+    });
+    connection.on('error', error => this.consumerError(error));
+    connection.on('close', () => {
+      if (this.connection === connection) {
+        this.connectionLost(new Error('RabbitMQ connection closed'));
+      }
+    });
+    this.connection = connection;
+
+    this.channel = await connection.createConfirmChannel();
+    this.channel.on('error', error => this.consumerError(error));
+    await this.channel.assertExchange(this.config.exchange, this.config.exchangeType, { durable: this.durable() });
+  }
+
+  protected async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    this.channel = undefined;
+    await connection?.close().catch(() => undefined);
+  }
+
+  protected async send(topic: string, payload: Buffer, event: EventInterface): Promise<void> {
+    if (!this.channel) {
+      throw new Error('RabbitMQ adapter is not connected');
+    }
+    this.channel.publish(this.config.exchange, topic, payload, {
+      persistent: this.durable(),
+      messageId: event.id,
+      type: event.type,
+      contentType: this.serializer.contentType,
+      timestamp: Math.floor(event.timestamp.getTime() / 1000),
+      headers: { topic, 'event-type': event.type }
+    });
+    await this.channel.waitForConfirms();
+  }
+
+  protected async consume(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    if (!this.connection) {
+      throw new Error('RabbitMQ adapter is not connected');
+    }
+    const channel = await this.connection.createChannel();
+    const state = { active: true };
+    channel.on('error', error => this.consumerError(error));
+    channel.on('close', () => {
+      if (state.active) {
+        this.connectionLost(new Error('RabbitMQ channel closed'));
+      }
+    });
+
+    try {
+      await channel.prefetch(options.prefetchCount ?? options.maxUnackedMessages ?? 10);
+      const { queue } = options.consumerGroup
+        ? await channel.assertQueue(`${this.config.queuePrefix || ''}${options.consumerGroup}.${topic}`, {
+          durable: this.durable(),
+          autoDelete: this.config.autoDelete === true
+        })
+        : await channel.assertQueue('', { exclusive: true, autoDelete: true });
+      const headers = this.config.exchangeType === 'headers';
+      await channel.bindQueue(queue, this.config.exchange, headers ? '' : topic, headers ? { 'x-match': 'all', topic } : undefined);
+
+      const retryDelay = this.config.retryDelay ?? 1000;
+      let handling = Promise.resolve();
+      const { consumerTag } = await channel.consume(queue, message => {
+        if (!message) {
+          // The broker cancelled the consumer, such as when its queue was deleted
+          if (state.active) {
+            this.connectionLost(new Error(`RabbitMQ cancelled the consumer of ${queue}`));
+          }
+          return;
+        }
+        // A fanout exchange sends every topic to every queue
+        if (message.properties.headers?.topic !== undefined && message.properties.headers.topic !== topic) {
+          channel.ack(message);
+          return;
+        }
+        handling = handling.then(() => receive({
+          data: message.content,
+          ack: () => channel.ack(message),
+          nack: () => {
+            setTimeout(() => {
+              if (state.active) {
+                channel.nack(message, false, true);
+              }
+            }, retryDelay);
+          }
+        })).catch(error => this.consumerError(error));
+      });
+
+      return {
+        cancel: async () => {
+          state.active = false;
+          await channel.cancel(consumerTag).catch(() => undefined);
+          // Closing the channel puts its unacknowledged messages back in their queues
+          await channel.close().catch(() => undefined);
+        }
+      };
+    } catch (error) {
+      state.active = false;
+      await channel.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  protected async ping(): Promise<boolean> {
+    return this.connection !== undefined;
+  }
+
+  private url(): string {
+    const heartbeat = this.config.connectionOptions?.heartbeat;
+    const { url } = this.config;
+    if (heartbeat === undefined || /[?&]heartbeat=/.test(url)) {
+      return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}heartbeat=${heartbeat}`;
+  }
+
+  private durable(): boolean {
+    return this.config.durable !== false;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * @fileoverview Event adapter over Redis Streams, with consumer groups and pending entry recovery
+ * @module tsfox/core/features/events/adapters
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { AdapterSubscriptionOptions, EventInterface, RedisAdapterConfig } from '../interfaces';
+import { BrokerAdapter, BrokerAdapterOptions, BrokerMessage, loadDriver, TopicConsumer } from './broker.adapter';
+
+/**
+ * Redis client used by the adapter: the part of `ioredis` it needs
+ */
+export interface RedisClientLike {
+  call(command: string, ...args: Array<string | number | Buffer>): Promise<unknown>;
+  quit(): Promise<unknown>;
+  disconnect(): void;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * Redis client library, such as `ioredis`
+ */
+export interface RedisDriver {
+  new (options: Record<string, unknown>): RedisClientLike;
+  Cluster?: new (nodes: Array<{ host: string; port: number }>, options: Record<string, unknown>) => RedisClientLike;
+}
+
+/**
+ * Redis Streams adapter options
+ */
+export interface RedisStreamsAdapterOptions extends RedisAdapterConfig, BrokerAdapterOptions {
+  /** Client library (default `ioredis`) */
+  driver?: RedisDriver;
+
+  /** Name of this consumer in its consumer groups (default host name, process ID and a random suffix) */
+  consumerName?: string;
+
+  /** Longest wait of a read for new entries in milliseconds (default 1000) */
+  blockTime?: number;
+
+  /** Entries read at once (default 10) */
+  batchSize?: number;
+
+  /** Approximate number of entries kept in each stream (default unlimited) */
+  maxLength?: number;
+
+  /** Time in milliseconds after which the pending entries of another consumer are claimed (default 30000) */
+  claimIdleTime?: number;
+
+  /** Delay in milliseconds before failed entries are read again (default 1000) */
+  retryDelay?: number;
+}
+
+/**
+ * Event adapter writing each topic to a Redis stream (`keyPrefix` + topic).
+ *
+ * Subscriptions with a `consumerGroup` read through a Redis consumer group: each entry
+ * goes to one consumer of the group and stays pending until acknowledged. Failed entries
+ * are read again after `retryDelay`, and the entries of consumers idle for `claimIdleTime`
+ * are claimed when a consumer starts or retries. Subscriptions without a group read the
+ * stream directly and get every entry once, without redelivery.
+ */
+export class RedisStreamsAdapter extends BrokerAdapter {
+  readonly type = 'redis';
+
+  private client?: RedisClientLike;
+  private readonly consumerName: string;
+
+  constructor(private readonly config: RedisStreamsAdapterOptions) {
+    super(config);
+    this.consumerName = config.consumerName || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  }
+
+  protected async open(): Promise<void> {
+    const client = this.createClient(true);
+    client.on('error', error => this.consumerError(error));
+    client.on('end', () => {
+      if (this.client === client) {
+        this.connectionLost(new Error('Redis connection closed'));
+      }
+    });
+    this.client = client;
+    await client.call('PING');
+  }
+
+  protected async close(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    if (client) {
+      await client.quit().catch(() => client.disconnect());
+    }
+  }
+
+  protected async send(topic: string, payload: Buffer, event: EventInterface): Promise<void> {
+    const trim = this.config.maxLength ? ['MAXLEN', '~', this.config.maxLength] : [];
+    await this.requireClient().call('XADD', this.key(topic), ...trim, '*', 'event', payload, 'type', event.type);
+  }
+
+  protected async ping(): Promise<boolean> {
+    return (await this.requireClient().call('PING')) === 'PONG';
+  }
+
+  protected async consume(
+    topic: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    options: AdapterSubscriptionOptions
+  ): Promise<TopicConsumer> {
+    const key = this.key(topic);
+    const reader = this.createClient(false);
+    const state = { active: true };
+    reader.on('error', error => this.consumerError(error));
+    reader.on('end', () => {
+      if (state.active) {
+        this.connectionLost(new Error('Redis connection closed'));
+      }
+    });
+
+    try {
+      if (options.consumerGroup) {
+        await this.createGroup(reader, key, options.consumerGroup, options);
+        void this.readGroup(reader, key, options.consumerGroup, receive, state);
+      } else {
+        void this.readStream(reader, key, await this.startId(reader, key, options), receive, state);
+      }
+    } catch (error) {
+      state.active = false;
+      reader.disconnect();
+      throw error;
+    }
+
+    // Closing the reader ends a blocked read; an entry being handled is left pending
+    return {
+      cancel: async () => {
+        state.active = false;
+        reader.disconnect();
+      }
+    };
+  }
+
+  private async createGroup(reader: RedisClientLike, key: string, group: string, options: AdapterSubscriptionOptions): Promise<void> {
+    try {
+      await reader.call('XGROUP', 'CREATE', key, group, options.startFrom === 'beginning' ? '0' : '$', 'MKSTREAM');
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Read a stream through a consumer group: the pending entries of this consumer
+   * first, then new ones
+   */
+  private async readGroup(
+    reader: RedisClientLike,
+    key: string,
+    group: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    state: { active: boolean }
+  ): Promise<void> {
+    const batchSize = this.config.batchSize || 10;
+    let pending = true;
+
+    while (state.active) {
+      try {
+        if (pending) {
+          await reader.call('XAUTOCLAIM', key, group, this.consumerName, this.config.claimIdleTime ?? 30000, '0-0', 'COUNT', batchSize);
+        }
+        const block = pending ? [] : ['BLOCK', this.config.blockTime ?? 1000];
+        const entries = parseEntries(await reader.call(
+          'XREADGROUP', 'GROUP', group, this.consumerName, 'COUNT', batchSize, ...block, 'STREAMS', key, pending ? '0' : '>'
+        ));
+        if (pending && entries.length === 0) {
+          pending = false;
+          continue;
+        }
+
+        let failed = false;
+        for (const [id, fields] of entries) {
+          if (!state.active) {
+            return;
+          }
+          await receive({
+            data: fields.event,
+            ack: () => reader.call('XACK', key, group, id),
+            nack: () => {
+              failed = true;
+            }
+          });
+        }
+
+        if (failed) {
+          pending = true;
+          await this.wait(state);
+        }
+      } catch (error) {
+        if (!state.active) {
+          return;
+        }
+        this.consumerError(error);
+        pending = true;
+        await this.wait(state);
+      }
+    }
+  }
+
+  /**
+   * Read every entry of a stream after an ID
+   */
+  private async readStream(
+    reader: RedisClientLike,
+    key: string,
+    lastId: string,
+    receive: (message: BrokerMessage) => Promise<void>,
+    state: { active: boolean }
+  ): Promise<void> {
+    while (state.active) {
+      try {
+        const entries = parseEntries(await reader.call(
+          'XREAD', 'COUNT', this.config.batchSize || 10, 'BLOCK', this.config.blockTime ?? 1000, 'STREAMS', key, lastId
+        ));
+        for (const [id, fields] of entries) {
+          if (!state.active) {
+            return;
+          }
+          lastId = id;
+          await receive({ data: fields.event, ack: () => undefined, nack: () => undefined });
+        }
+      } catch (error) {
+        if (!state.active) {
+          return;
+        }
+        this.consumerError(error);
+        await this.wait(state);
+      }
+    }
+  }
+
+  /**
+   * ID after which a subscription without group starts reading
+   */
+  private async startId(reader: RedisClientLike, key: string, options: AdapterSubscriptionOptions): Promise<string> {
+    if (options.startFrom === 'beginning') {
+      return '0-0';
+    }
+    const [last] = parseRange(await reader.call('XREVRANGE', key, '+', '-', 'COUNT', 1));
+    return last ? last[0] : '0-0';
+  }
+
+  private wait(state: { active: boolean }): Promise<void> {
+    return state.active
+      ? new Promise(resolve => setTimeout(resolve, this.config.retryDelay ?? 1000))
+      : Promise.resolve();
+  }
+
+  /**
+   * Create a client. Readers get no command timeout, since their reads block.
+   */
+  private createClient(commands: boolean): RedisClientLike {
+    const Redis = this.config.driver || loadDriver<RedisDriver>('ioredis', 'Redis Streams');
+    const retryAttempts = this.config.retryAttempts;
+    const options: Record<string, unknown> = {
+      host: this.config.host,
+      port: this.config.port,
+      password: this.config.password,
+      db: this.config.database,
+      connectTimeout: this.config.connectTimeout,
+      commandTimeout: commands ? this.config.commandTimeout : undefined,
+      retryStrategy: (times: number) => (retryAttempts !== undefined && times > retryAttempts ? null : Math.min(times * 100, 2000))
+    };
+
+    if (this.config.cluster?.enabled) {
+      if (!Redis.Cluster) {
+        throw new Error('The Redis driver does not support clusters');
+      }
+      return new Redis.Cluster(this.config.cluster.nodes, { redisOptions: options });
+    }
+    return new Redis(options);
+  }
+
+  private requireClient(): RedisClientLike {
+    if (!this.client) {
+      throw new Error('Redis adapter is not connected');
+    }
+    return this.client;
+  }
+
+  private key(topic: string): string {
+    return `${this.config.keyPrefix ?? 'events:'}${topic}`;
+  }
+}
+
+/**
+ * Entries of the reply of XREAD or XREADGROUP on one stream, with their fields by name
+ */
+function parseEntries(reply: unknown): Array<[string, Record<string, string>]> {
+  if (!Array.isArray(reply) || reply.length === 0) {
+    return [];
+  }
+  return parseRange(reply[0][1]);
+}
+
+function parseRange(entries: unknown): Array<[string, Record<string, string>]> {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  return entries.map(([id, list]: [string, unknown[]]) => {
+    const fields: Record<string, string> = {};
+    for (let i = 0; i + 1 < list.length; i += 2) {
+      fields[String(list[i])] = String(list[i + 1]);
+    }
+    return [id, fields] as [string, Record<string, string>];
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * @fileoverview In-memory brokers standing in for the client libraries of the adapters in tests
+ * @module tsfox/core/features/events/adapters/testing
+ */
+
+export * from './memory.redis';
+export * from './memory.nats';
+export * from './memory.kafka';
+export * from './memory.amqp';
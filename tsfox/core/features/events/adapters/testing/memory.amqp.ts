@@ -0,0 +1,478 @@
+/**
+ * @fileoverview In-memory AMQP broker with exchanges, queues, prefetch and acknowledgements
+ * @module tsfox/core/features/events/adapters/testing
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { AmqpChannelLike, AmqpConfirmChannelLike, AmqpConnectionLike, AmqpDriver, AmqpMessageLike } from '../rabbitmq.adapter';
+
+/**
+ * Test double of a RabbitMQ broker for `RabbitMQAdapter`: direct, topic, fanout and headers
+ * exchanges, durable and exclusive queues, consumers sharing a queue in turn up to their
+ * channel prefetch, acknowledgements and requeueing, and publisher confirms. Closing a
+ * channel puts its unacknowledged messages back in their queues. `driver` replaces `amqplib`.
+ */
+export class InMemoryAmqpBroker {
+  readonly driver: AmqpDriver;
+  private exchanges = new Map<string, AmqpExchange>();
+  private queues = new Map<string, AmqpQueue>();
+  private connectionSet = new Set<InMemoryAmqpConnection>();
+
+  constructor() {
+    this.driver = {
+      connect: async url => new InMemoryAmqpConnection(this, url)
+    };
+  }
+
+  /**
+   * Names of the queues
+   */
+  queueNames(): string[] {
+    return [...this.queues.keys()];
+  }
+
+  /**
+   * Messages of a queue waiting for a consumer, and delivered but not acknowledged
+   */
+  queueDepth(queue: string): { ready: number; unacked: number } {
+    const state = this.queues.get(queue);
+    return { ready: state?.ready.length ?? 0, unacked: state?.unacked ?? 0 };
+  }
+
+  /**
+   * Connections currently open
+   */
+  get connections(): number {
+    return this.connectionSet.size;
+  }
+
+  /**
+   * Close every connection, as when the broker goes away
+   */
+  dropConnections(): void {
+    for (const connection of [...this.connectionSet]) {
+      connection.end(new Error('Connection closed: 320 (CONNECTION-FORCED) with message "CONNECTION_FORCED - broker forced connection closure"'));
+    }
+  }
+
+  /** @internal */
+  attach(connection: InMemoryAmqpConnection): void {
+    this.connectionSet.add(connection);
+  }
+
+  /** @internal */
+  detach(connection: InMemoryAmqpConnection): void {
+    this.connectionSet.delete(connection);
+    for (const [name, queue] of this.queues) {
+      if (queue.owner === connection) {
+        this.deleteQueue(name);
+      }
+    }
+  }
+
+  /** @internal */
+  assertExchange(name: string, type: string): void {
+    const exchange = this.exchanges.get(name);
+    if (exchange && exchange.type !== type) {
+      throw new Error(`Channel closed by server: 406 (PRECONDITION-FAILED) with message "PRECONDITION_FAILED - inequivalent arg 'type' for exchange '${name}'"`);
+    }
+    if (!exchange) {
+      this.exchanges.set(name, { type, bindings: [] });
+    }
+  }
+
+  /** @internal */
+  assertQueue(connection: InMemoryAmqpConnection, name: string, options: Record<string, unknown>): string {
+    const queueName = name || `amq.gen-${randomUUID()}`;
+    if (!this.queues.has(queueName)) {
+      this.queues.set(queueName, {
+        ready: [],
+        unacked: 0,
+        consumers: [],
+        turn: 0,
+        owner: options.exclusive ? connection : undefined,
+        autoDelete: options.autoDelete === true
+      });
+    }
+    return queueName;
+  }
+
+  /** @internal */
+  bindQueue(queue: string, exchange: string, pattern: string, args: Record<string, unknown> = {}): void {
+    const state = this.exchanges.get(exchange);
+    if (!state || !this.queues.has(queue)) {
+      throw new Error(`Channel closed by server: 404 (NOT-FOUND) with message "NOT_FOUND - no exchange '${exchange}' or queue '${queue}'"`);
+    }
+    state.bindings.push({ queue, pattern, args });
+  }
+
+  /** @internal */
+  publish(exchange: string, routingKey: string, content: Buffer, properties: Record<string, unknown>): void {
+    const state = this.exchanges.get(exchange);
+    if (!state) {
+      throw new Error(`Channel closed by server: 404 (NOT-FOUND) with message "NOT_FOUND - no exchange '${exchange}'"`);
+    }
+    const headers = (properties.headers || {}) as Record<string, unknown>;
+    const queues = new Set(state.bindings
+      .filter(binding => routes(state.type, binding, routingKey, headers))
+      .map(binding => binding.queue));
+
+    for (const queue of queues) {
+      const target = this.queues.get(queue);
+      if (target) {
+        target.ready.push({ content: Buffer.from(content), routingKey, properties: { ...properties }, redelivered: false });
+        this.dispatch(target);
+      }
+    }
+  }
+
+  /** @internal */
+  consume(queue: string, consumer: AmqpConsumer): void {
+    const state = this.queues.get(queue);
+    if (!state) {
+      throw new Error(`Channel closed by server: 404 (NOT-FOUND) with message "NOT_FOUND - no queue '${queue}'"`);
+    }
+    state.consumers.push(consumer);
+    this.dispatch(state);
+  }
+
+  /** @internal */
+  cancel(consumer: AmqpConsumer): void {
+    for (const [name, queue] of this.queues) {
+      if (queue.consumers.includes(consumer)) {
+        queue.consumers = queue.consumers.filter(current => current !== consumer);
+        if (queue.autoDelete && queue.consumers.length === 0) {
+          this.deleteQueue(name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Settle a delivered message, putting it back at the front of its queue when requeued
+   * @internal
+   */
+  settle(queueName: string, message: QueuedMessage, requeue: boolean): void {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      return;
+    }
+    queue.unacked--;
+    if (requeue) {
+      queue.ready.unshift({ ...message, redelivered: true });
+    }
+    this.dispatch(queue);
+  }
+
+  /** @internal */
+  redispatch(): void {
+    for (const queue of this.queues.values()) {
+      this.dispatch(queue);
+    }
+  }
+
+  /**
+   * Deliver ready messages to the consumers of a queue in turn, while they have room
+   */
+  private dispatch(queue: AmqpQueue): void {
+    while (queue.ready.length > 0) {
+      const available = queue.consumers.filter(consumer => consumer.channel.hasRoom());
+      if (available.length === 0) {
+        return;
+      }
+      const consumer = available[queue.turn++ % available.length];
+      const message = queue.ready.shift()!;
+      queue.unacked++;
+      consumer.channel.deliver(consumer, this.queueName(queue), message);
+    }
+  }
+
+  private queueName(queue: AmqpQueue): string {
+    return [...this.queues].find(([, state]) => state === queue)![0];
+  }
+
+  private deleteQueue(name: string): void {
+    const queue = this.queues.get(name);
+    this.queues.delete(name);
+    for (const exchange of this.exchanges.values()) {
+      exchange.bindings = exchange.bindings.filter(binding => binding.queue !== name);
+    }
+    for (const consumer of queue?.consumers || []) {
+      consumer.channel.cancelled(consumer);
+    }
+  }
+}
+
+/**
+ * Connection to an in-memory AMQP broker, shaped like an `amqplib` connection
+ */
+class InMemoryAmqpConnection extends EventEmitter implements AmqpConnectionLike {
+  private open = true;
+  private channels = new Set<InMemoryAmqpChannel>();
+
+  constructor(private readonly broker: InMemoryAmqpBroker, readonly url: string) {
+    super();
+    broker.attach(this);
+  }
+
+  async createChannel(): Promise<AmqpChannelLike> {
+    return this.channel();
+  }
+
+  async createConfirmChannel(): Promise<AmqpConfirmChannelLike> {
+    return this.channel();
+  }
+
+  async close(): Promise<void> {
+    this.end();
+  }
+
+  /** @internal */
+  forget(channel: InMemoryAmqpChannel): void {
+    this.channels.delete(channel);
+  }
+
+  /** @internal */
+  end(error?: Error): void {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    for (const channel of [...this.channels]) {
+      channel.end();
+    }
+    this.broker.detach(this);
+    if (error) {
+      this.emit('error', error);
+    }
+    this.emit('close', error);
+  }
+
+  private channel(): InMemoryAmqpChannel {
+    if (!this.open) {
+      throw new Error('Connection closed');
+    }
+    const channel = new InMemoryAmqpChannel(this.broker, this);
+    this.channels.add(channel);
+    return channel;
+  }
+}
+
+/**
+ * Channel of an in-memory AMQP connection, shaped like an `amqplib` confirm channel
+ */
+class InMemoryAmqpChannel extends EventEmitter implements AmqpConfirmChannelLike {
+  private open = true;
+  private prefetchCount = 0;
+  private nextTag = 1;
+  private consumers = new Map<string, AmqpConsumer>();
+  private unacked = new Map<number, { queue: string; message: QueuedMessage }>();
+
+  constructor(private readonly broker: InMemoryAmqpBroker, private readonly connection: InMemoryAmqpConnection) {
+    super();
+  }
+
+  async assertExchange(exchange: string, type: string): Promise<unknown> {
+    this.check();
+    this.broker.assertExchange(exchange, type);
+    return { exchange };
+  }
+
+  async assertQueue(queue: string, options: Record<string, unknown> = {}): Promise<{ queue: string }> {
+    this.check();
+    return { queue: this.broker.assertQueue(this.connection, queue, options) };
+  }
+
+  async bindQueue(queue: string, exchange: string, pattern: string, args?: Record<string, unknown>): Promise<unknown> {
+    this.check();
+    this.broker.bindQueue(queue, exchange, pattern, args);
+    return {};
+  }
+
+  async prefetch(count: number): Promise<unknown> {
+    this.check();
+    this.prefetchCount = count;
+    return {};
+  }
+
+  async consume(queue: string, onMessage: (message: AmqpMessageLike | null) => void): Promise<{ consumerTag: string }> {
+    this.check();
+    const consumer: AmqpConsumer = { tag: `amq.ctag-${randomUUID()}`, channel: this, onMessage };
+    this.consumers.set(consumer.tag, consumer);
+    this.broker.consume(queue, consumer);
+    return { consumerTag: consumer.tag };
+  }
+
+  async cancel(consumerTag: string): Promise<unknown> {
+    this.check();
+    const consumer = this.consumers.get(consumerTag);
+    if (consumer) {
+      this.consumers.delete(consumerTag);
+      this.broker.cancel(consumer);
+    }
+    return { consumerTag };
+  }
+
+  ack(message: AmqpMessageLike): void {
+    this.settle(message, false);
+  }
+
+  nack(message: AmqpMessageLike, _allUpTo?: boolean, requeue = true): void {
+    this.settle(message, requeue);
+  }
+
+  publish(exchange: string, routingKey: string, content: Buffer, options: Record<string, unknown> = {}): boolean {
+    this.check();
+    this.broker.publish(exchange, routingKey, content, options);
+    return true;
+  }
+
+  async waitForConfirms(): Promise<void> {
+    this.check();
+  }
+
+  async close(): Promise<void> {
+    this.check();
+    this.end();
+  }
+
+  /** @internal */
+  hasRoom(): boolean {
+    return this.open && (this.prefetchCount === 0 || this.unacked.size < this.prefetchCount);
+  }
+
+  /** @internal */
+  deliver(consumer: AmqpConsumer, queue: string, message: QueuedMessage): void {
+    const deliveryTag = this.nextTag++;
+    this.unacked.set(deliveryTag, { queue, message });
+    setImmediate(() => {
+      if (this.consumers.get(consumer.tag) === consumer) {
+        consumer.onMessage({
+          content: Buffer.from(message.content),
+          fields: { deliveryTag, redelivered: message.redelivered, routingKey: message.routingKey },
+          properties: { ...message.properties }
+        });
+      }
+    });
+  }
+
+  /** @internal */
+  cancelled(consumer: AmqpConsumer): void {
+    if (this.consumers.delete(consumer.tag)) {
+      setImmediate(() => consumer.onMessage(null));
+    }
+  }
+
+  /**
+   * Close the channel, putting its unacknowledged messages back in their queues
+   * @internal
+   */
+  end(): void {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    for (const consumer of this.consumers.values()) {
+      this.broker.cancel(consumer);
+    }
+    this.consumers.clear();
+    for (const { queue, message } of this.unacked.values()) {
+      this.broker.settle(queue, message, true);
+    }
+    this.unacked.clear();
+    this.connection.forget(this);
+    this.emit('close');
+  }
+
+  private settle(message: AmqpMessageLike, requeue: boolean): void {
+    const delivery = this.unacked.get(message.fields.deliveryTag);
+    if (!this.open) {
+      throw new Error('Channel closed');
+    }
+    if (!delivery) {
+      // The broker closes a channel acknowledging an unknown delivery
+      const error = new Error(`Channel closed by server: 406 (PRECONDITION-FAILED) with message "PRECONDITION_FAILED - unknown delivery tag ${message.fields.deliveryTag}"`);
+      this.emit('error', error);
+      this.end();
+      return;
+    }
+    this.unacked.delete(message.fields.deliveryTag);
+    this.broker.settle(delivery.queue, delivery.message, requeue);
+    this.broker.redispatch();
+  }
+
+  private check(): void {
+    if (!this.open) {
+      throw new Error('Channel closed');
+    }
+  }
+}
+
+/**
+ * Whether an exchange routes a message to a binding
+ */
+function routes(type: string, binding: AmqpBinding, routingKey: string, headers: Record<string, unknown>): boolean {
+  switch (type) {
+    case 'fanout':
+      return true;
+    case 'direct':
+      return binding.pattern === routingKey;
+    case 'topic':
+      return matchesTopic(binding.pattern.split('.'), routingKey.split('.'));
+    case 'headers': {
+      const expected = Object.entries(binding.args).filter(([key]) => !key.startsWith('x-'));
+      const matches = expected.filter(([key, value]) => headers[key] === value).length;
+      return binding.args['x-match'] === 'any' ? matches > 0 : matches === expected.length;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether routing key words match a topic pattern, where `*` is one word and `#` any number
+ */
+function matchesTopic(pattern: string[], words: string[]): boolean {
+  if (pattern.length === 0) {
+    return words.length === 0;
+  }
+  const [head, ...rest] = pattern;
+  if (head === '#') {
+    return words.some((_, i) => matchesTopic(rest, words.slice(i))) || matchesTopic(rest, []);
+  }
+  return words.length > 0 && (head === '*' || head === words[0]) && matchesTopic(rest, words.slice(1));
+}
+
+interface AmqpExchange {
+  type: string;
+  bindings: AmqpBinding[];
+}
+
+interface AmqpBinding {
+  queue: string;
+  pattern: string;
+  args: Record<string, unknown>;
+}
+
+interface QueuedMessage {
+  content: Buffer;
+  routingKey: string;
+  properties: Record<string, unknown>;
+  redelivered: boolean;
+}
+
+interface AmqpQueue {
+  ready: QueuedMessage[];
+  unacked: number;
+  consumers: AmqpConsumer[];
+  turn: number;
+  owner?: InMemoryAmqpConnection;
+  autoDelete: boolean;
+}
+
+interface AmqpConsumer {
+  tag: string;
+  channel: InMemoryAmqpChannel;
+  onMessage: (message: AmqpMessageLike | null) => void;
+}
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview In-memory Kafka cluster with partitioned topics, consumer groups and committed offsets
+ * @module tsfox/core/features/events/adapters/testing
+ */
+
+import { EventEmitter } from 'events';
+import { KafkaClientLike, KafkaConsumerLike, KafkaDriver, KafkaMessageLike, KafkaProducerLike } from '../kafka.adapter';
+
+/**
+ * Test double of a Kafka cluster for `KafkaAdapter`. Topics are created on first use
+ * with `partitions` partitions and messages go to a partition by key. The partitions of
+ * a topic are shared among the running consumers of each group, which start from the
+ * committed offset of the group and fall back to it when the group rebalances. A message
+ * whose handler throws is handled again after the consumer retry time. `driver` replaces
+ * the `kafkajs` package.
+ */
+export class InMemoryKafkaCluster {
+  readonly driver: KafkaDriver;
+  private topics = new Map<string, KafkaMessageRecord[][]>();
+  private groups = new Map<string, ConsumerGroup>();
+  private signal = new EventEmitter();
+
+  constructor(private readonly partitions: number = 3) {
+    const cluster = this;
+    this.signal.setMaxListeners(0);
+    this.driver = {
+      Kafka: class implements KafkaClientLike {
+        constructor(readonly config: Record<string, unknown>) {}
+
+        producer(): KafkaProducerLike {
+          return new InMemoryKafkaProducer(cluster);
+        }
+
+        consumer(config: { groupId: string } & Record<string, unknown>): KafkaConsumerLike {
+          return new InMemoryKafkaConsumer(cluster, config);
+        }
+      }
+    };
+  }
+
+  /**
+   * Messages of a topic, partition by partition
+   */
+  messages(topic: string): Array<{ partition: number; offset: number; key: string | null; value: string; headers: Record<string, string> }> {
+    return (this.topics.get(topic) || []).flatMap((log, partition) =>
+      log.map((record, offset) => ({
+        partition,
+        offset,
+        key: record.key,
+        value: record.value.toString('utf8'),
+        headers: record.headers
+      }))
+    );
+  }
+
+  /**
+   * Offsets committed by a group for each partition of a topic (-1 when none)
+   */
+  committed(groupId: string, topic: string): number[] {
+    const group = this.groups.get(groupId);
+    return (this.topics.get(topic) || []).map((_, partition) => group?.committed.get(`${topic}:${partition}`) ?? -1);
+  }
+
+  /**
+   * Crash every running consumer without restarting it, as when the cluster goes away
+   */
+  crashConsumers(): void {
+    for (const group of this.groups.values()) {
+      for (const member of [...group.members]) {
+        member.crash(new Error('The broker is not available'));
+      }
+    }
+  }
+
+  /** @internal */
+  append(topic: string, message: { key?: string; value: Buffer; headers?: Record<string, string> }): void {
+    const log = this.topic(topic);
+    const partition = message.key ? hash(message.key) % log.length : 0;
+    log[partition].push({ key: message.key ?? null, value: Buffer.from(message.value), headers: { ...message.headers } });
+    this.signal.emit('change');
+  }
+
+  /** @internal */
+  join(member: InMemoryKafkaConsumer, topics: string[], fromBeginning: boolean): void {
+    const group = this.group(member.groupId);
+    for (const topic of topics) {
+      this.topic(topic).forEach((log, partition) => {
+        const key = `${topic}:${partition}`;
+        if (!group.committed.has(key) && !group.reset.has(key)) {
+          group.reset.set(key, fromBeginning ? 0 : log.length);
+        }
+      });
+    }
+    group.members.add(member);
+    this.rebalance(group);
+  }
+
+  /** @internal */
+  leave(member: InMemoryKafkaConsumer): void {
+    const group = this.groups.get(member.groupId);
+    if (group?.members.delete(member)) {
+      this.rebalance(group);
+    }
+  }
+
+  /**
+   * Partitions of the topics of a consumer assigned to it, with the offset to start from
+   * @internal
+   */
+  assignments(member: InMemoryKafkaConsumer): Array<{ topic: string; partition: number; offset: number }> {
+    const group = this.group(member.groupId);
+    const assignments: Array<{ topic: string; partition: number; offset: number }> = [];
+    for (const topic of member.topics) {
+      const members = [...group.members].filter(candidate => candidate.topics.includes(topic));
+      this.topic(topic).forEach((_, partition) => {
+        if (members[partition % members.length] === member) {
+          const key = `${topic}:${partition}`;
+          assignments.push({ topic, partition, offset: group.committed.get(key) ?? group.reset.get(key) ?? 0 });
+        }
+      });
+    }
+    return assignments;
+  }
+
+  /** @internal */
+  read(topic: string, partition: number, offset: number): KafkaMessageLike | undefined {
+    const record = this.topic(topic)[partition][offset];
+    return record && {
+      offset: String(offset),
+      key: record.key === null ? null : Buffer.from(record.key),
+      value: Buffer.from(record.value),
+      headers: { ...record.headers }
+    };
+  }
+
+  /** @internal */
+  commit(groupId: string, offsets: Array<{ topic: string; partition: number; offset: string }>): void {
+    const group = this.group(groupId);
+    for (const { topic, partition, offset } of offsets) {
+      group.committed.set(`${topic}:${partition}`, Number(offset));
+    }
+  }
+
+  /**
+   * Wait for a new message or a rebalance, up to a timeout
+   * @internal
+   */
+  changed(timeout: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.signal.off('change', done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeout);
+      this.signal.on('change', done);
+    });
+  }
+
+  private rebalance(group: ConsumerGroup): void {
+    for (const member of group.members) {
+      member.generation++;
+    }
+    this.signal.emit('change');
+  }
+
+  private topic(name: string): KafkaMessageRecord[][] {
+    let log = this.topics.get(name);
+    if (!log) {
+      log = Array.from({ length: this.partitions }, () => []);
+      this.topics.set(name, log);
+    }
+    return log;
+  }
+
+  private group(groupId: string): ConsumerGroup {
+    let group = this.groups.get(groupId);
+    if (!group) {
+      group = { members: new Set(), committed: new Map(), reset: new Map() };
+      this.groups.set(groupId, group);
+    }
+    return group;
+  }
+}
+
+/**
+ * Producer of an in-memory Kafka cluster, shaped like a `kafkajs` producer
+ */
+class InMemoryKafkaProducer implements KafkaProducerLike {
+  private connected = false;
+
+  constructor(private readonly cluster: InMemoryKafkaCluster) {}
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async send(record: Parameters<KafkaProducerLike['send']>[0]): Promise<unknown> {
+    if (!this.connected) {
+      throw new Error('The producer is disconnected');
+    }
+    for (const message of record.messages) {
+      this.cluster.append(record.topic, message);
+    }
+    return [{ topicName: record.topic, errorCode: 0 }];
+  }
+}
+
+/**
+ * Consumer of an in-memory Kafka cluster, shaped like a `kafkajs` consumer
+ */
+class InMemoryKafkaConsumer implements KafkaConsumerLike {
+  readonly events = { CRASH: 'consumer.crash' };
+  readonly groupId: string;
+  topics: string[] = [];
+  generation = 0;
+
+  private connected = false;
+  private running = false;
+  private fromBeginning = false;
+  private listeners = new EventEmitter();
+
+  constructor(private readonly cluster: InMemoryKafkaCluster, private readonly config: { groupId: string } & Record<string, unknown>) {
+    this.groupId = config.groupId;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.stop();
+    this.connected = false;
+  }
+
+  async subscribe(subscription: { topics: string[]; fromBeginning?: boolean }): Promise<void> {
+    if (!this.connected) {
+      throw new Error('The consumer is disconnected');
+    }
+    this.topics.push(...subscription.topics);
+    this.fromBeginning = subscription.fromBeginning === true;
+  }
+
+  async run(config: Parameters<KafkaConsumerLike['run']>[0]): Promise<void> {
+    if (!this.connected) {
+      throw new Error('The consumer is disconnected');
+    }
+    this.running = true;
+    this.cluster.join(this, this.topics, this.fromBeginning);
+    void this.loop(config.eachMessage);
+  }
+
+  async commitOffsets(offsets: Array<{ topic: string; partition: number; offset: string }>): Promise<void> {
+    this.cluster.commit(this.groupId, offsets);
+  }
+
+  on(event: string, listener: (event: { payload: any }) => void): () => void {
+    this.listeners.on(event, listener);
+    return () => this.listeners.off(event, listener);
+  }
+
+  /** @internal */
+  crash(error: Error): void {
+    this.stop();
+    this.listeners.emit(this.events.CRASH, { payload: { error, groupId: this.groupId, restart: false } });
+  }
+
+  private stop(): void {
+    if (this.running) {
+      this.running = false;
+      this.cluster.leave(this);
+    }
+  }
+
+  /**
+   * Handle the messages of the assigned partitions in turn, starting over after a rebalance
+   */
+  private async loop(eachMessage: Parameters<KafkaConsumerLike['run']>[0]['eachMessage']): Promise<void> {
+    const retry = (this.config.retry as { initialRetryTime?: number } | undefined)?.initialRetryTime ?? 100;
+    let generation = -1;
+    let positions: Array<{ topic: string; partition: number; offset: number }> = [];
+
+    while (this.running) {
+      if (generation !== this.generation) {
+        generation = this.generation;
+        positions = this.cluster.assignments(this);
+      }
+
+      let progressed = false;
+      for (const position of positions) {
+        const message = this.cluster.read(position.topic, position.partition, position.offset);
+        if (!message || !this.running || generation !== this.generation) {
+          continue;
+        }
+        progressed = true;
+        try {
+          await eachMessage({ topic: position.topic, partition: position.partition, message });
+          position.offset++;
+        } catch {
+          await new Promise(resolve => setTimeout(resolve, retry));
+        }
+      }
+
+      if (!progressed) {
+        await this.cluster.changed(50);
+      }
+    }
+  }
+}
+
+/**
+ * Partition hash of a key
+ */
+function hash(key: string): number {
+  let value = 0;
+  for (let i = 0; i < key.length; i++) {
+    value = (value * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+interface KafkaMessageRecord {
+  key: string | null;
+  value: Buffer;
+  headers: Record<string, string>;
+}
+
+interface ConsumerGroup {
+  members: Set<InMemoryKafkaConsumer>;
+  committed: Map<string, number>;
+  reset: Map<string, number>;
+}
@@ -0,0 +1,468 @@
+/**
+ * @fileoverview In-memory NATS server with queue groups and JetStream durable consumers
+ * @module tsfox/core/features/events/adapters/testing
+ */
+
+import {
+  ConsumerMessagesLike,
+  JetStreamClientLike,
+  JetStreamManagerLike,
+  JsMessageLike,
+  NatsConnectionLike,
+  NatsDriver,
+  NatsMessageLike
+} from '../nats.adapter';
+
+/**
+ * Test double of a NATS server for `NatsAdapter`: core publish and subscribe with
+ * subject wildcards and queue groups, and JetStream streams with durable consumers,
+ * explicit acknowledgements, naks with delay and redelivery after the ack wait.
+ * `driver` replaces the `nats` package.
+ */
+export class InMemoryNatsServer {
+  readonly driver: NatsDriver;
+  private connectionSet = new Set<InMemoryNatsConnection>();
+  private subscriptions = new Set<CoreSubscription>();
+  private queueTurns = new Map<string, number>();
+  private streams = new Map<string, JsStream>();
+
+  constructor() {
+    this.driver = {
+      connect: async options => new InMemoryNatsConnection(this, options)
+    };
+  }
+
+  /**
+   * Subjects and payloads of the messages of a stream
+   */
+  streamMessages(stream: string): Array<{ seq: number; subject: string; data: string }> {
+    return (this.streams.get(stream)?.messages || []).map(message => ({
+      seq: message.seq,
+      subject: message.subject,
+      data: Buffer.from(message.data).toString('utf8')
+    }));
+  }
+
+  /**
+   * Names of the consumers of a stream
+   */
+  consumerNames(stream: string): string[] {
+    return [...(this.streams.get(stream)?.consumers.keys() || [])];
+  }
+
+  /**
+   * Messages delivered by a consumer and not acknowledged yet
+   */
+  pendingAcks(stream: string, consumer: string): number {
+    return this.streams.get(stream)?.consumers.get(consumer)?.inFlight.size ?? 0;
+  }
+
+  /**
+   * Connections currently open
+   */
+  get connections(): number {
+    return this.connectionSet.size;
+  }
+
+  /**
+   * Close every connection, as when the server goes away
+   */
+  dropConnections(): void {
+    for (const connection of [...this.connectionSet]) {
+      connection.end(new Error('connection lost'));
+    }
+  }
+
+  /** @internal */
+  attach(connection: InMemoryNatsConnection): void {
+    this.connectionSet.add(connection);
+  }
+
+  /** @internal */
+  detach(connection: InMemoryNatsConnection): void {
+    this.connectionSet.delete(connection);
+    for (const subscription of [...this.subscriptions]) {
+      if (subscription.connection === connection) {
+        this.subscriptions.delete(subscription);
+      }
+    }
+  }
+
+  /** @internal */
+  subscribe(subscription: CoreSubscription): () => void {
+    this.subscriptions.add(subscription);
+    return () => this.subscriptions.delete(subscription);
+  }
+
+  /**
+   * Deliver a core message to every plain subscription and one member of each queue group
+   * @internal
+   */
+  publish(subject: string, data: Uint8Array): void {
+    const receivers: CoreSubscription[] = [];
+    const groups = new Map<string, CoreSubscription[]>();
+    for (const subscription of this.subscriptions) {
+      if (!matchesSubject(subscription.subject, subject)) {
+        continue;
+      }
+      if (subscription.queue) {
+        groups.set(subscription.queue, [...(groups.get(subscription.queue) || []), subscription]);
+      } else {
+        receivers.push(subscription);
+      }
+    }
+    for (const [queue, members] of groups) {
+      const turn = this.queueTurns.get(queue) || 0;
+      this.queueTurns.set(queue, turn + 1);
+      receivers.push(members[turn % members.length]);
+    }
+
+    for (const receiver of receivers) {
+      setImmediate(() => {
+        if (this.subscriptions.has(receiver)) {
+          receiver.callback(null, { subject, data: Uint8Array.from(data) });
+        }
+      });
+    }
+  }
+
+  /** @internal */
+  jetstream(connection: InMemoryNatsConnection): JetStreamClientLike {
+    return {
+      publish: async (subject, data, options = {}) => {
+        connection.check();
+        const stream = [...this.streams.values()].find(candidate =>
+          candidate.subjects.some(pattern => matchesSubject(pattern, subject))
+        );
+        if (!stream) {
+          throw new Error('503 no responders');
+        }
+        const duplicate = options.msgID && stream.messages.find(message => message.msgID === options.msgID);
+        if (duplicate) {
+          return { stream: stream.name, seq: duplicate.seq, duplicate: true };
+        }
+
+        const seq = stream.messages.length + 1;
+        stream.messages.push({ seq, subject, data: Uint8Array.from(data), msgID: options.msgID });
+        for (const consumer of stream.consumers.values()) {
+          this.pump(consumer);
+        }
+        return { stream: stream.name, seq, duplicate: false };
+      },
+      consumers: {
+        get: async (streamName, name) => {
+          connection.check();
+          const consumer = this.streams.get(streamName)?.consumers.get(name);
+          if (!consumer) {
+            throw new Error('consumer not found');
+          }
+          return { consume: async () => this.listen(connection, consumer) };
+        }
+      }
+    };
+  }
+
+  /** @internal */
+  jetstreamManager(connection: InMemoryNatsConnection): JetStreamManagerLike {
+    return {
+      streams: {
+        info: async name => {
+          connection.check();
+          const stream = this.streams.get(name);
+          if (!stream) {
+            throw new Error('stream not found');
+          }
+          return { config: { name, subjects: stream.subjects }, state: { messages: stream.messages.length } };
+        },
+        add: async config => {
+          connection.check();
+          const name = String(config.name);
+          this.streams.set(name, { name, subjects: config.subjects as string[], messages: [], consumers: new Map() });
+          return { config };
+        }
+      },
+      consumers: {
+        add: async (streamName, config) => {
+          connection.check();
+          const stream = this.streams.get(streamName);
+          if (!stream) {
+            throw new Error('stream not found');
+          }
+          const name = String(config.durable_name);
+          if (!stream.consumers.has(name)) {
+            stream.consumers.set(name, {
+              stream,
+              filter: config.filter_subject as string | undefined,
+              ackWait: Number(config.ack_wait ?? 30000000000) / 1000000,
+              maxAckPending: Number(config.max_ack_pending ?? 1000),
+              lastDelivered: config.deliver_policy === 'all' ? 0 : stream.messages.length,
+              inFlight: new Map(),
+              redeliver: [],
+              listeners: [],
+              turn: 0
+            });
+          }
+          return { name, config };
+        },
+        delete: async (streamName, name) => {
+          connection.check();
+          const consumer = this.streams.get(streamName)?.consumers.get(name);
+          if (!consumer) {
+            throw new Error('consumer not found');
+          }
+          for (const listener of [...consumer.listeners]) {
+            listener.stop();
+          }
+          for (const delivery of consumer.inFlight.values()) {
+            clearTimeout(delivery.timer);
+          }
+          return this.streams.get(streamName)!.consumers.delete(name);
+        }
+      }
+    };
+  }
+
+  /**
+   * Attach a message iterator to a consumer
+   */
+  private listen(connection: InMemoryNatsConnection, consumer: JsConsumer): ConsumerMessagesLike {
+    const listener = new InMemoryConsumerMessages(connection, () => {
+      consumer.listeners = consumer.listeners.filter(current => current !== listener);
+    });
+    consumer.listeners.push(listener);
+    this.pump(consumer);
+    return listener;
+  }
+
+  /**
+   * Hand messages due to a consumer to its listeners, up to its ack pending limit
+   */
+  private pump(consumer: JsConsumer): void {
+    const { stream } = consumer;
+    while (consumer.listeners.length > 0 && consumer.inFlight.size < consumer.maxAckPending) {
+      let seq = consumer.redeliver.shift();
+      if (seq === undefined) {
+        const next = stream.messages.find(message =>
+          message.seq > consumer.lastDelivered && (!consumer.filter || matchesSubject(consumer.filter, message.subject))
+        );
+        if (!next) {
+          return;
+        }
+        consumer.lastDelivered = next.seq;
+        seq = next.seq;
+      }
+
+      const message = stream.messages[seq - 1];
+      const listener = consumer.listeners[consumer.turn++ % consumer.listeners.length];
+      const delivery: JsDelivery = {
+        timer: setTimeout(() => this.settle(consumer, seq!, delivery, 0), consumer.ackWait)
+      };
+      delivery.timer.unref();
+      consumer.inFlight.set(seq, delivery);
+
+      listener.push({
+        data: Uint8Array.from(message.data),
+        ack: () => this.settle(consumer, seq!, delivery),
+        nak: (delay?: number) => this.settle(consumer, seq!, delivery, delay ?? 0)
+      });
+    }
+  }
+
+  /**
+   * End a delivery: acknowledged without a redelivery delay, delivered again after it otherwise
+   */
+  private settle(consumer: JsConsumer, seq: number, delivery: JsDelivery, redeliverAfter?: number): void {
+    if (consumer.inFlight.get(seq) !== delivery) {
+      return;
+    }
+    clearTimeout(delivery.timer);
+    consumer.inFlight.delete(seq);
+
+    if (redeliverAfter === undefined) {
+      this.pump(consumer);
+      return;
+    }
+    setTimeout(() => {
+      consumer.redeliver.push(seq);
+      this.pump(consumer);
+    }, redeliverAfter).unref();
+    this.pump(consumer);
+  }
+}
+
+/**
+ * Connection to an in-memory NATS server, shaped like a `nats` connection
+ */
+class InMemoryNatsConnection implements NatsConnectionLike {
+  private open = true;
+  private listeners = new Set<InMemoryConsumerMessages>();
+  private resolveClosed!: (error: void | Error) => void;
+  private readonly closedPromise = new Promise<void | Error>(resolve => {
+    this.resolveClosed = resolve;
+  });
+
+  constructor(private readonly server: InMemoryNatsServer, readonly options: Record<string, unknown>) {
+    server.attach(this);
+  }
+
+  publish(subject: string, data: Uint8Array): void {
+    this.check();
+    this.server.publish(subject, data);
+  }
+
+  subscribe(
+    subject: string,
+    options: { queue?: string; callback: (error: Error | null, message: NatsMessageLike) => void }
+  ): { unsubscribe(): void } {
+    this.check();
+    const remove = this.server.subscribe({ connection: this, subject, queue: options.queue, callback: options.callback });
+    return { unsubscribe: () => remove() };
+  }
+
+  async flush(): Promise<void> {
+    this.check();
+  }
+
+  async drain(): Promise<void> {
+    this.end();
+  }
+
+  async close(): Promise<void> {
+    this.end();
+  }
+
+  closed(): Promise<void | Error> {
+    return this.closedPromise;
+  }
+
+  jetstream(): JetStreamClientLike {
+    return this.server.jetstream(this);
+  }
+
+  async jetstreamManager(): Promise<JetStreamManagerLike> {
+    this.check();
+    return this.server.jetstreamManager(this);
+  }
+
+  /** @internal */
+  track(listener: InMemoryConsumerMessages): void {
+    this.listeners.add(listener);
+  }
+
+  /** @internal */
+  untrack(listener: InMemoryConsumerMessages): void {
+    this.listeners.delete(listener);
+  }
+
+  /** @internal */
+  check(): void {
+    if (!this.open) {
+      throw new Error('CONNECTION_CLOSED');
+    }
+  }
+
+  /** @internal */
+  end(error?: Error): void {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    this.server.detach(this);
+    for (const listener of [...this.listeners]) {
+      listener.stop();
+    }
+    this.resolveClosed(error);
+  }
+}
+
+/**
+ * Messages handed to one `consume()` call of a JetStream consumer
+ */
+class InMemoryConsumerMessages implements ConsumerMessagesLike {
+  private queue: JsMessageLike[] = [];
+  private stopped = false;
+  private wake?: () => void;
+
+  constructor(private readonly connection: InMemoryNatsConnection, private readonly onStop: () => void) {
+    connection.track(this);
+  }
+
+  push(message: JsMessageLike): void {
+    this.queue.push(message);
+    this.wake?.();
+  }
+
+  stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    this.connection.untrack(this);
+    this.onStop();
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<JsMessageLike> {
+    while (true) {
+      if (this.stopped) {
+        return;
+      }
+      const message = this.queue.shift();
+      if (message) {
+        yield message;
+        continue;
+      }
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+      this.wake = undefined;
+    }
+  }
+}
+
+/**
+ * Whether a subject matches a pattern with `*` (one token) and `>` (the remaining tokens)
+ */
+function matchesSubject(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split('.');
+  const subjectTokens = subject.split('.');
+  for (let i = 0; i < patternTokens.length; i++) {
+    if (patternTokens[i] === '>') {
+      return subjectTokens.length > i;
+    }
+    if (i >= subjectTokens.length || (patternTokens[i] !== '*' && patternTokens[i] !== subjectTokens[i])) {
+      return false;
+    }
+  }
+  return patternTokens.length === subjectTokens.length;
+}
+
+interface CoreSubscription {
+  connection: InMemoryNatsConnection;
+  subject: string;
+  queue?: string;
+  callback: (error: Error | null, message: NatsMessageLike) => void;
+}
+
+interface JsStream {
+  name: string;
+  subjects: string[];
+  messages: Array<{ seq: number; subject: string; data: Uint8Array; msgID?: string }>;
+  consumers: Map<string, JsConsumer>;
+}
+
+interface JsConsumer {
+  stream: JsStream;
+  filter?: string;
+  ackWait: number;
+  maxAckPending: number;
+  lastDelivered: number;
+  inFlight: Map<number, JsDelivery>;
+  redeliver: number[];
+  listeners: InMemoryConsumerMessages[];
+  turn: number;
+}
+
+interface JsDelivery {
+  timer: NodeJS.Timeout;
+}
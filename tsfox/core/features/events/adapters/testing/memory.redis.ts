@@ -0,0 +1,370 @@
+/**
+ * @fileoverview In-memory Redis server speaking the stream commands of the Redis Streams adapter
+ * @module tsfox/core/features/events/adapters/testing
+ */
+
+import { EventEmitter } from 'events';
+import { RedisClientLike, RedisDriver } from '../redis.streams.adapter';
+
+/**
+ * Test double of a Redis server for the stream commands used by `RedisStreamsAdapter`:
+ * PING, XADD, XGROUP CREATE, XREADGROUP, XREAD, XACK, XAUTOCLAIM and XREVRANGE, with
+ * blocking reads, consumer groups and pending entries. `driver` replaces `ioredis`.
+ */
+export class InMemoryRedisServer {
+  readonly driver: RedisDriver;
+  private streams = new Map<string, RedisStream>();
+  private clients = new Set<InMemoryRedisClient>();
+
+  constructor() {
+    const server = this;
+    this.driver = class extends InMemoryRedisClient {
+      constructor(options: Record<string, unknown>) {
+        super(server, options);
+      }
+    };
+  }
+
+  /**
+   * Entry IDs and fields of a stream
+   */
+  entries(key: string): Array<{ id: string; fields: Record<string, string> }> {
+    return (this.streams.get(key)?.entries || []).map(entry => ({ id: entry.id, fields: toFields(entry.values) }));
+  }
+
+  /**
+   * Pending entries of a consumer group, with their consumer and delivery count
+   */
+  pending(key: string, group: string): Array<{ id: string; consumer: string; deliveries: number }> {
+    const pending = this.streams.get(key)?.groups.get(group)?.pending || new Map();
+    return [...pending].map(([id, entry]) => ({ id, consumer: entry.consumer, deliveries: entry.deliveries }));
+  }
+
+  /**
+   * Clients currently connected
+   */
+  get connections(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Close every connection, as when the server goes away
+   */
+  dropConnections(): void {
+    for (const client of [...this.clients]) {
+      client.disconnect();
+    }
+  }
+
+  /** @internal */
+  attach(client: InMemoryRedisClient): void {
+    this.clients.add(client);
+  }
+
+  /** @internal */
+  detach(client: InMemoryRedisClient): void {
+    this.clients.delete(client);
+  }
+
+  /** @internal */
+  async execute(client: InMemoryRedisClient, command: string, args: string[]): Promise<unknown> {
+    switch (command.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'XADD':
+        return this.xadd(args);
+      case 'XGROUP':
+        return this.xgroup(args);
+      case 'XREADGROUP':
+        return this.xreadgroup(client, args);
+      case 'XREAD':
+        return this.xread(client, args);
+      case 'XACK':
+        return this.xack(args);
+      case 'XAUTOCLAIM':
+        return this.xautoclaim(args);
+      case 'XREVRANGE':
+        return this.xrevrange(args);
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private xadd(args: string[]): string {
+    const [key, ...rest] = args;
+    let maxLength: number | undefined;
+    if (rest[0]?.toUpperCase() === 'MAXLEN') {
+      rest.shift();
+      if (rest[0] === '~' || rest[0] === '=') {
+        rest.shift();
+      }
+      maxLength = Number(rest.shift());
+    }
+    if (rest.shift() !== '*') {
+      throw new Error('ERR only auto-generated IDs are supported');
+    }
+
+    const stream = this.stream(key, true)!;
+    const now = Date.now();
+    const [lastMs, lastSeq] = parseId(stream.lastId);
+    const id = now > lastMs ? `${now}-0` : `${lastMs}-${lastSeq + 1}`;
+    stream.lastId = id;
+    stream.entries.push({ id, values: rest });
+    if (maxLength !== undefined && stream.entries.length > maxLength) {
+      stream.entries.splice(0, stream.entries.length - maxLength);
+    }
+    stream.signal.emit('entry');
+    return id;
+  }
+
+  private xgroup(args: string[]): string {
+    const [subcommand, key, group, id, ...flags] = args;
+    if (subcommand.toUpperCase() !== 'CREATE') {
+      throw new Error(`ERR unknown XGROUP subcommand '${subcommand}'`);
+    }
+    const stream = this.stream(key, flags.some(flag => flag.toUpperCase() === 'MKSTREAM'));
+    if (!stream) {
+      throw new Error('ERR The XGROUP subcommand requires the key to exist');
+    }
+    if (stream.groups.has(group)) {
+      throw new Error('BUSYGROUP Consumer Group name already exists');
+    }
+    stream.groups.set(group, { lastDelivered: id === '$' ? stream.lastId : normalizeId(id), pending: new Map() });
+    return 'OK';
+  }
+
+  private async xreadgroup(client: InMemoryRedisClient, args: string[]): Promise<unknown> {
+    const options = parseReadOptions(args.slice(3));
+    const [, group, consumer] = args;
+    const read = () => {
+      const stream = this.stream(options.key, false);
+      const state = stream?.groups.get(group);
+      if (!stream || !state) {
+        throw new Error(`NOGROUP No such key '${options.key}' or consumer group '${group}' in XREADGROUP with GROUP option`);
+      }
+
+      if (options.id !== '>') {
+        const entries = stream.entries
+          .filter(entry => state.pending.get(entry.id)?.consumer === consumer && compareIds(entry.id, options.id) > 0)
+          .slice(0, options.count);
+        return entries;
+      }
+
+      const entries = stream.entries.filter(entry => compareIds(entry.id, state.lastDelivered) > 0).slice(0, options.count);
+      for (const entry of entries) {
+        state.lastDelivered = entry.id;
+        state.pending.set(entry.id, { consumer, deliveredAt: Date.now(), deliveries: 1 });
+      }
+      return entries;
+    };
+
+    const entries = options.id === '>' ? await this.blockUntil(client, options, read) : read();
+    return entries === null ? null : [[options.key, entries.map(entry => [entry.id, [...entry.values]])]];
+  }
+
+  private async xread(client: InMemoryRedisClient, args: string[]): Promise<unknown> {
+    const options = parseReadOptions(args);
+    const after = options.id === '$' ? (this.streams.get(options.key)?.lastId || '0-0') : normalizeId(options.id);
+    const entries = await this.blockUntil(client, options, () =>
+      (this.streams.get(options.key)?.entries || []).filter(entry => compareIds(entry.id, after) > 0).slice(0, options.count)
+    );
+    return entries === null ? null : [[options.key, entries.map(entry => [entry.id, [...entry.values]])]];
+  }
+
+  private xack(args: string[]): number {
+    const [key, group, ...ids] = args;
+    const pending = this.streams.get(key)?.groups.get(group)?.pending;
+    return ids.filter(id => pending?.delete(id)).length;
+  }
+
+  private xautoclaim(args: string[]): unknown {
+    const [key, group, consumer, minIdle, start, ...rest] = args;
+    const count = rest[0]?.toUpperCase() === 'COUNT' ? Number(rest[1]) : 100;
+    const stream = this.stream(key, false);
+    const state = stream?.groups.get(group);
+    if (!stream || !state) {
+      throw new Error(`NOGROUP No such key '${key}' or consumer group '${group}'`);
+    }
+
+    const now = Date.now();
+    const claimed = [...state.pending]
+      .filter(([id, entry]) => compareIds(id, start) >= 0 && now - entry.deliveredAt >= Number(minIdle))
+      .slice(0, count);
+    for (const [, entry] of claimed) {
+      entry.consumer = consumer;
+      entry.deliveredAt = now;
+      entry.deliveries++;
+    }
+
+    const entries = stream.entries.filter(entry => claimed.some(([id]) => id === entry.id));
+    return ['0-0', entries.map(entry => [entry.id, [...entry.values]]), []];
+  }
+
+  private xrevrange(args: string[]): unknown {
+    const [key, , , ...rest] = args;
+    const count = rest[0]?.toUpperCase() === 'COUNT' ? Number(rest[1]) : Infinity;
+    return [...(this.streams.get(key)?.entries || [])].reverse().slice(0, count).map(entry => [entry.id, [...entry.values]]);
+  }
+
+  /**
+   * Run a read, waiting for new entries up to the BLOCK time when it finds none
+   */
+  private async blockUntil(
+    client: InMemoryRedisClient,
+    options: ReadOptions,
+    read: () => StreamEntry[]
+  ): Promise<StreamEntry[] | null> {
+    const entries = read();
+    if (entries.length > 0 || options.block === undefined) {
+      return entries;
+    }
+
+    const stream = this.stream(options.key, true)!;
+    const signalled = await client.block(stream.signal, options.block);
+    if (!signalled) {
+      return null;
+    }
+    const next = read();
+    return next.length > 0 ? next : null;
+  }
+
+  private stream(key: string, create: boolean): RedisStream | undefined {
+    let stream = this.streams.get(key);
+    if (!stream && create) {
+      stream = { entries: [], lastId: '0-0', groups: new Map(), signal: new EventEmitter() };
+      stream.signal.setMaxListeners(0);
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+}
+
+/**
+ * Client connected to an in-memory Redis server, shaped like an `ioredis` client
+ */
+class InMemoryRedisClient extends EventEmitter implements RedisClientLike {
+  private connected = true;
+  private blocked = new Set<() => void>();
+
+  constructor(private readonly server: InMemoryRedisServer, readonly options: Record<string, unknown>) {
+    super();
+    server.attach(this);
+  }
+
+  async call(command: string, ...args: Array<string | number | Buffer>): Promise<unknown> {
+    if (!this.connected) {
+      throw new Error('Connection is closed.');
+    }
+    return this.server.execute(this, command, args.map(arg => (Buffer.isBuffer(arg) ? arg.toString('utf8') : String(arg))));
+  }
+
+  async quit(): Promise<unknown> {
+    this.disconnect();
+    return 'OK';
+  }
+
+  disconnect(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.server.detach(this);
+    for (const release of [...this.blocked]) {
+      release();
+    }
+    this.emit('close');
+    this.emit('end');
+  }
+
+  /**
+   * Wait for a signal, a timeout (none for 0) or the end of the connection, which rejects
+   */
+  block(signal: EventEmitter, timeout: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const finish = (result: boolean | Error) => {
+        signal.off('entry', onEntry);
+        this.blocked.delete(onClose);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (result instanceof Error) {
+          reject(result);
+        } else {
+          resolve(result);
+        }
+      };
+      const onEntry = () => finish(true);
+      const onClose = () => finish(new Error('Connection is closed.'));
+
+      signal.on('entry', onEntry);
+      this.blocked.add(onClose);
+      if (timeout > 0) {
+        timer = setTimeout(() => finish(false), timeout);
+      }
+    });
+  }
+}
+
+function parseReadOptions(args: string[]): ReadOptions {
+  const options: ReadOptions = { key: '', id: '', count: Infinity };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i].toUpperCase();
+    if (arg === 'COUNT') {
+      options.count = Number(args[++i]);
+    } else if (arg === 'BLOCK') {
+      options.block = Number(args[++i]);
+    } else if (arg === 'STREAMS') {
+      options.key = args[i + 1];
+      options.id = args[i + 2];
+      break;
+    }
+  }
+  return options;
+}
+
+function parseId(id: string): [number, number] {
+  const [ms, seq] = id.split('-');
+  return [Number(ms), Number(seq || 0)];
+}
+
+function normalizeId(id: string): string {
+  const [ms, seq] = parseId(id);
+  return `${ms}-${seq}`;
+}
+
+function compareIds(a: string, b: string): number {
+  const [aMs, aSeq] = parseId(a);
+  const [bMs, bSeq] = parseId(b);
+  return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+function toFields(values: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    fields[values[i]] = values[i + 1];
+  }
+  return fields;
+}
+
+interface StreamEntry {
+  id: string;
+  values: string[];
+}
+
+interface RedisStream {
+  entries: StreamEntry[];
+  lastId: string;
+  groups: Map<string, {
+    lastDelivered: string;
+    pending: Map<string, { consumer: string; deliveredAt: number; deliveries: number }>;
+  }>;
+  signal: EventEmitter;
+}
+
+interface ReadOptions {
+  key: string;
+  id: string;
+  count: number;
+  block?: number;
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Base class of event-sourced aggregates
+ * @module tsfox/core/features/events/core
+ */
+
+import { randomUUID } from 'crypto';
+import { AggregateRootInterface, EventInterface, EventMetadata } from '../interfaces';
+import { messageMetadata } from './message.bus';
+
+/**
+ * Handler applying one type of event to an aggregate
+ */
+export type AggregateEventHandler = (event: EventInterface) => void;
+
+/**
+ * Base of event-sourced aggregates.
+ *
+ * Subclasses register one handler per event type with `on` and change their state only
+ * in those handlers; commands call `raise`, which applies the new event and keeps it
+ * as uncommitted until a repository saves it. Events raised while a command bus handles a
+ * command get its correlation metadata. `version` counts every event applied,
+ * committed or not. Events of types without a handler are skipped when loading history.
+ *
+ * The default snapshot is a JSON copy of the fields of the subclass: override
+ * `getSnapshot` and `loadFromSnapshot` to choose what is kept.
+ */
+export abstract class AggregateRoot implements AggregateRootInterface {
+  private _version = 0;
+  private uncommitted: EventInterface[] = [];
+  private handlers = new Map<string, AggregateEventHandler>();
+
+  constructor(private readonly _id: string) {}
+
+  get id(): string {
+    return this._id;
+  }
+
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Apply an event through the handler of its type
+   */
+  apply(event: EventInterface): void {
+    this.handlers.get(event.type)?.call(this, event);
+    this._version = event.version !== undefined ? event.version : this._version + 1;
+  }
+
+  getUncommittedEvents(): EventInterface[] {
+    return [...this.uncommitted];
+  }
+
+  markEventsAsCommitted(): void {
+    this.uncommitted = [];
+  }
+
+  loadFromHistory(events: EventInterface[]): void {
+    for (const event of events) {
+      this.apply(event);
+    }
+  }
+
+  getSnapshot(): any {
+    const snapshot: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(this)) {
+      if (!BASE_FIELDS.has(field)) {
+        snapshot[field] = value;
+      }
+    }
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  loadFromSnapshot(snapshot: any, version: number): void {
+    Object.assign(this, snapshot);
+    this._version = version;
+  }
+
+  /**
+   * Register the handler of an event type
+   */
+  protected on(eventType: string, handler: AggregateEventHandler): void {
+    this.handlers.set(eventType, handler);
+  }
+
+  /**
+   * Record a new event and apply it
+   */
+  protected raise(type: string, data: any = {}, metadata?: Partial<EventMetadata>): EventInterface {
+    if (!this.handlers.has(type)) {
+      throw new Error(`${this.constructor.name} has no handler for event ${type}`);
+    }
+
+    const event: EventInterface = {
+      id: randomUUID(),
+      type,
+      aggregateId: this._id,
+      version: this._version + 1,
+      data,
+      metadata: { source: this.constructor.name, ...messageMetadata(), ...metadata },
+      timestamp: new Date()
+    };
+
+    this.apply(event);
+    this.uncommitted.push(event);
+    return event;
+  }
+}
+
+/** Fields of the base class, left out of snapshots */
+const BASE_FIELDS = new Set(['_id', '_version', 'uncommitted', 'handlers']);
@@ -0,0 +1,372 @@
+/**
+ * @fileoverview Event store keeping its events in SQL tables through FoxDatabase
+ * @module tsfox/core/features/events/core
+ */
+
+import { DatabaseConfig, DatabaseInterface } from '../../database/interfaces';
+import { FoxDatabase } from '../../database/database.factory';
+import { EventInterface, Snapshot, StreamMetadata } from '../interfaces';
+import { ConcurrencyError, PersistentEventStore, StreamAppend } from './persistent.event.store';
+
+/**
+ * Options of the database event store
+ */
+export interface DatabaseEventStoreOptions {
+  /** Database to use, or the configuration of a database the store connects to itself */
+  database: DatabaseInterface | DatabaseConfig;
+
+  /** Prefix of the table names (default `event_store`, giving `event_store_events`...) */
+  tablePrefix?: string;
+
+  /**
+   * Interval in milliseconds at which subscriptions look for events appended by other
+   * processes. Without it they only see the appends of this store.
+   */
+  pollInterval?: number;
+}
+
+/**
+ * Event store keeping its events, streams, snapshots and last log position in tables,
+ * created if missing.
+ *
+ * Appends run in a database transaction that moves the last position only if no other
+ * writer moved it meanwhile, so two processes appending at once cannot both succeed:
+ * the one that lost gets a `ConcurrencyError` when the stream moved past its expected version.
+ */
+export class DatabaseEventStore extends PersistentEventStore {
+  private database?: DatabaseInterface;
+  private poller?: NodeJS.Timeout;
+  private readonly tables: { events: string; streams: string; snapshots: string; log: string };
+
+  constructor(private readonly options: DatabaseEventStoreOptions) {
+    super();
+    const prefix = options.tablePrefix || 'event_store';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid event store table prefix: ${prefix}`);
+    }
+    this.tables = {
+      events: `${prefix}_events`,
+      streams: `${prefix}_streams`,
+      snapshots: `${prefix}_snapshots`,
+      log: `${prefix}_log`
+    };
+  }
+
+  protected async initialize(): Promise<void> {
+    if (isDatabase(this.options.database)) {
+      this.database = this.options.database;
+    } else {
+      const database = new FoxDatabase(this.options.database);
+      await database.connect();
+      this.database = database;
+    }
+
+    const { events, streams, snapshots, log } = this.tables;
+    await this.database.execute(`CREATE TABLE IF NOT EXISTS ${events} (
+      position INTEGER PRIMARY KEY,
+      stream_id VARCHAR(255) NOT NULL,
+      version INTEGER NOT NULL,
+      event_id VARCHAR(255) NOT NULL,
+      event_type VARCHAR(255) NOT NULL,
+      aggregate_id VARCHAR(255),
+      data TEXT,
+      metadata TEXT,
+      occurred_at VARCHAR(32) NOT NULL,
+      UNIQUE (stream_id, version)
+    )`);
+    await this.database.execute(`CREATE TABLE IF NOT EXISTS ${streams} (
+      stream_id VARCHAR(255) PRIMARY KEY,
+      version INTEGER NOT NULL,
+      status VARCHAR(16) NOT NULL,
+      created_at VARCHAR(32) NOT NULL,
+      updated_at VARCHAR(32) NOT NULL,
+      metadata TEXT,
+      acl TEXT
+    )`);
+    await this.database.execute(`CREATE TABLE IF NOT EXISTS ${snapshots} (
+      stream_id VARCHAR(255) NOT NULL,
+      version INTEGER NOT NULL,
+      data TEXT,
+      metadata TEXT,
+      created_at VARCHAR(32) NOT NULL,
+      PRIMARY KEY (stream_id, version)
+    )`);
+
+    // Last position given out, so positions of hard-deleted events are never reused
+    await this.database.execute(`CREATE TABLE IF NOT EXISTS ${log} (
+      id INTEGER PRIMARY KEY,
+      position INTEGER NOT NULL
+    )`);
+    if (!(await this.database.getBuilder().from(log).where({ id: 1 }).first())) {
+      await this.database.getBuilder().from(log).insert({ id: 1, position: 0 }).catch(async error => {
+        if (!(await this.database!.getBuilder().from(log).where({ id: 1 }).first())) {
+          throw error;
+        }
+      });
+    }
+
+    if (this.options.pollInterval) {
+      this.poller = setInterval(() => this.subscriptions.notify(), this.options.pollInterval);
+      this.poller.unref();
+    }
+  }
+
+  protected async shutdown(): Promise<void> {
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = undefined;
+    }
+    if (this.database && !isDatabase(this.options.database)) {
+      await this.database.close();
+    }
+    this.database = undefined;
+  }
+
+  protected async writeAppends(appends: StreamAppend[]): Promise<void> {
+    try {
+      await this.database!.transaction(async tx => {
+        const start = await this.logPosition(tx);
+        let position = start;
+
+        for (const append of appends) {
+          const stream = await this.selectStream(tx, append.streamId);
+          const current = stream ? stream.version : -1;
+          this.checkVersion(append, current);
+
+          let version = Math.max(current, 0);
+          for (const event of append.events) {
+            const stamped = this.stamp(event, ++version, ++position);
+            await tx.getBuilder().from(this.tables.events).insert({
+              position,
+              stream_id: append.streamId,
+              version,
+              event_id: stamped.id,
+              event_type: stamped.type,
+              aggregate_id: stamped.aggregateId ?? null,
+              data: JSON.stringify(stamped.data ?? null),
+              metadata: JSON.stringify(stamped.metadata),
+              occurred_at: toTimestamp(stamped.timestamp)
+            });
+          }
+
+          const now = new Date().toISOString();
+          if (stream) {
+            await tx.getBuilder().from(this.tables.streams).where({ stream_id: append.streamId }).update({ version, updated_at: now });
+          } else {
+            await tx.getBuilder().from(this.tables.streams).insert({
+              stream_id: append.streamId,
+              version,
+              status: 'active',
+              created_at: now,
+              updated_at: now,
+              metadata: null,
+              acl: null
+            });
+          }
+        }
+
+        const moved = await tx.getBuilder().from(this.tables.log).where({ id: 1, position: start }).update({ position });
+        if (moved.rowCount !== 1) {
+          throw new Error('Another writer appended to the event log at the same time');
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof ConcurrencyError)) {
+        await this.checkConflicts(appends);
+      }
+      throw error;
+    }
+  }
+
+  protected async readStream(streamId: string, fromVersion: number, maxCount?: number): Promise<EventInterface[]> {
+    const query = this.database!.getBuilder()
+      .from(this.tables.events)
+      .where({ stream_id: streamId })
+      .andWhere({ column: 'version', operator: '>', value: fromVersion })
+      .orderBy('version');
+    if (maxCount !== undefined) {
+      query.limit(maxCount);
+    }
+    return (await query.execute<EventRow>()).map(row => this.toEvent(row));
+  }
+
+  protected async readLog(fromPosition: number, maxCount?: number): Promise<EventInterface[]> {
+    const query = this.database!.getBuilder()
+      .from(this.tables.events)
+      .where({ column: 'position', operator: '>', value: fromPosition })
+      .orderBy('position');
+    if (maxCount !== undefined) {
+      query.limit(maxCount);
+    }
+    return (await query.execute<EventRow>()).map(row => this.toEvent(row));
+  }
+
+  protected async lastPosition(): Promise<number> {
+    return this.logPosition(this.database!);
+  }
+
+  protected async findStream(streamId: string): Promise<StreamMetadata | null> {
+    return this.selectStream(this.database!, streamId);
+  }
+
+  protected async writeStream(metadata: StreamMetadata): Promise<void> {
+    const row = {
+      version: metadata.version,
+      status: metadata.status,
+      updated_at: new Date().toISOString(),
+      metadata: metadata.metadata ? JSON.stringify(metadata.metadata) : null,
+      acl: metadata.acl ? JSON.stringify(metadata.acl) : null
+    };
+
+    await this.database!.transaction(async tx => {
+      if (await this.selectStream(tx, metadata.streamId)) {
+        await tx.getBuilder().from(this.tables.streams).where({ stream_id: metadata.streamId }).update(row);
+      } else {
+        await tx.getBuilder().from(this.tables.streams).insert({
+          stream_id: metadata.streamId,
+          created_at: toTimestamp(metadata.created),
+          ...row
+        });
+      }
+    });
+  }
+
+  protected async removeStream(streamId: string): Promise<void> {
+    await this.database!.transaction(async tx => {
+      for (const table of [this.tables.events, this.tables.snapshots, this.tables.streams]) {
+        await tx.getBuilder().from(table).where({ stream_id: streamId }).delete();
+      }
+    });
+  }
+
+  protected async writeSnapshot(snapshot: Snapshot): Promise<void> {
+    await this.database!.transaction(async tx => {
+      await tx.getBuilder().from(this.tables.snapshots).where({ stream_id: snapshot.streamId, version: snapshot.version }).delete();
+      await tx.getBuilder().from(this.tables.snapshots).insert({
+        stream_id: snapshot.streamId,
+        version: snapshot.version,
+        data: JSON.stringify(snapshot.data ?? null),
+        metadata: snapshot.metadata ? JSON.stringify(snapshot.metadata) : null,
+        created_at: toTimestamp(snapshot.timestamp)
+      });
+    });
+  }
+
+  protected async findSnapshot(streamId: string): Promise<Snapshot | null> {
+    const row = await this.database!.getBuilder()
+      .from(this.tables.snapshots)
+      .where({ stream_id: streamId })
+      .orderBy('version', 'DESC')
+      .first<SnapshotRow>();
+    if (!row) {
+      return null;
+    }
+    return {
+      streamId: row.stream_id,
+      version: Number(row.version),
+      data: JSON.parse(row.data),
+      timestamp: new Date(row.created_at),
+      ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {})
+    };
+  }
+
+  protected async countStorage(): Promise<{ totalStreams: number; totalEvents: number; storageSize: number }> {
+    const [events] = await this.database!.query<{ count: number; size: number | null }>(
+      `SELECT COUNT(*) AS count, SUM(LENGTH(data) + LENGTH(metadata)) AS size FROM ${this.tables.events}`
+    );
+    const [streams] = await this.database!.query<{ count: number }>(`SELECT COUNT(*) AS count FROM ${this.tables.streams}`);
+    return {
+      totalStreams: Number(streams.count),
+      totalEvents: Number(events.count),
+      storageSize: Number(events.size || 0)
+    };
+  }
+
+  /**
+   * After a failed append, tell whether another writer moved one of the streams
+   */
+  private async checkConflicts(appends: StreamAppend[]): Promise<void> {
+    for (const append of appends) {
+      if (append.expectedVersion === undefined) {
+        continue;
+      }
+      const stream = await this.selectStream(this.database!, append.streamId).catch(() => null);
+      this.checkVersion(append, stream ? stream.version : -1);
+    }
+  }
+
+  private async logPosition(executor: Executor): Promise<number> {
+    const row = await executor.getBuilder().from(this.tables.log).where({ id: 1 }).first<{ position: number }>();
+    return Number(row!.position);
+  }
+
+  private async selectStream(executor: Executor, streamId: string): Promise<StreamMetadata | null> {
+    const row = await executor.getBuilder().from(this.tables.streams).where({ stream_id: streamId }).first<StreamRow>();
+    if (!row) {
+      return null;
+    }
+    return {
+      streamId: row.stream_id,
+      version: Number(row.version),
+      created: new Date(row.created_at),
+      lastUpdated: new Date(row.updated_at),
+      status: row.status,
+      ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+      ...(row.acl ? { acl: JSON.parse(row.acl) } : {})
+    };
+  }
+
+  private toEvent(row: EventRow): EventInterface {
+    return {
+      id: row.event_id,
+      type: row.event_type,
+      ...(row.aggregate_id !== null && row.aggregate_id !== undefined ? { aggregateId: row.aggregate_id } : {}),
+      version: Number(row.version),
+      position: Number(row.position),
+      data: JSON.parse(row.data),
+      metadata: JSON.parse(row.metadata),
+      timestamp: new Date(row.occurred_at)
+    };
+  }
+}
+
+function isDatabase(database: DatabaseInterface | DatabaseConfig): database is DatabaseInterface {
+  return typeof (database as DatabaseInterface).transaction === 'function';
+}
+
+function toTimestamp(date: Date | string | undefined): string {
+  return (date ? new Date(date) : new Date()).toISOString();
+}
+
+/** What runs statements: the database or one of its transactions */
+type Executor = Pick<DatabaseInterface, 'getBuilder'>;
+
+interface EventRow {
+  position: number;
+  stream_id: string;
+  version: number;
+  event_id: string;
+  event_type: string;
+  aggregate_id: string | null;
+  data: string;
+  metadata: string;
+  occurred_at: string;
+}
+
+interface StreamRow {
+  stream_id: string;
+  version: number;
+  status: StreamMetadata['status'];
+  created_at: string;
+  updated_at: string;
+  metadata: string | null;
+  acl: string | null;
+}
+
+interface SnapshotRow {
+  stream_id: string;
+  version: number;
+  data: string;
+  metadata: string | null;
+  created_at: string;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Saga store keeping saga records in a SQL table through FoxDatabase
+ * @module tsfox/core/features/events/core
+ */
+
+import { DatabaseInterface } from '../../database/interfaces';
+import { matchesFilter, SagaFilter, SagaRecord, SagaStatus, SagaStore } from './saga.manager';
+
+/**
+ * Options of the database saga store
+ */
+export interface DatabaseSagaStoreOptions {
+  /** Connected database */
+  database: DatabaseInterface;
+
+  /** Name of the table, created if missing (default `sagas`) */
+  table?: string;
+}
+
+/**
+ * Saga store keeping one row per saga, with its state as JSON
+ */
+export class DatabaseSagaStore implements SagaStore {
+  private readonly table: string;
+  private ready?: Promise<void>;
+
+  constructor(private readonly options: DatabaseSagaStoreOptions) {
+    this.table = options.table || 'sagas';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid saga table name: ${this.table}`);
+    }
+  }
+
+  async save(record: SagaRecord): Promise<void> {
+    await this.open();
+    const row = {
+      type: record.type,
+      status: record.status,
+      state: JSON.stringify(record.state ?? null),
+      correlation_id: record.correlationId,
+      started_at: record.startedAt.toISOString(),
+      updated_at: record.updatedAt.toISOString(),
+      deadline: record.deadline ? record.deadline.toISOString() : null,
+      completed_at: record.completedAt ? record.completedAt.toISOString() : null,
+      error: record.error ?? null,
+      failed_compensations: record.failedCompensations ? JSON.stringify(record.failedCompensations) : null
+    };
+
+    await this.options.database.transaction(async tx => {
+      if (await tx.getBuilder().from(this.table).where({ id: record.id }).first()) {
+        await tx.getBuilder().from(this.table).where({ id: record.id }).update(row);
+      } else {
+        await tx.getBuilder().from(this.table).insert({ id: record.id, ...row });
+      }
+    });
+  }
+
+  async load(id: string): Promise<SagaRecord | null> {
+    await this.open();
+    const row = await this.options.database.getBuilder().from(this.table).where({ id }).first<SagaRow>();
+    return row ? toRecord(row) : null;
+  }
+
+  async find(filter: SagaFilter = {}): Promise<SagaRecord[]> {
+    await this.open();
+    const query = this.options.database.getBuilder().from(this.table);
+    if (filter.correlationId) {
+      query.where({ correlation_id: filter.correlationId });
+    }
+    const rows = await query.orderBy('started_at').execute<SagaRow>();
+    return rows.map(toRecord).filter(record => matchesFilter(record, filter));
+  }
+
+  private open(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.options.database.execute(`CREATE TABLE IF NOT EXISTS ${this.table} (
+        id VARCHAR(64) PRIMARY KEY,
+        type VARCHAR(255) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        state TEXT,
+        correlation_id VARCHAR(255) NOT NULL,
+        started_at VARCHAR(32) NOT NULL,
+        updated_at VARCHAR(32) NOT NULL,
+        deadline VARCHAR(32),
+        completed_at VARCHAR(32),
+        error TEXT,
+        failed_compensations TEXT
+      )`).then(() => undefined, error => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
+
+function toRecord(row: SagaRow): SagaRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    state: row.state === null ? undefined : JSON.parse(row.state),
+    correlationId: row.correlation_id,
+    startedAt: new Date(row.started_at),
+    updatedAt: new Date(row.updated_at),
+    ...(row.deadline ? { deadline: new Date(row.deadline) } : {}),
+    ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {}),
+    ...(row.error ? { error: row.error } : {}),
+    ...(row.failed_compensations ? { failedCompensations: JSON.parse(row.failed_compensations) } : {})
+  };
+}
+
+interface SagaRow {
+  id: string;
+  type: string;
+  status: SagaStatus;
+  state: string | null;
+  correlation_id: string;
+  started_at: string;
+  updated_at: string;
+  deadline: string | null;
+  completed_at: string | null;
+  error: string | null;
+  failed_compensations: string | null;
+}
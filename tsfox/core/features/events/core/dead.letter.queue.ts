@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Dead-letter queue keeping the events a subscription failed to handle
+ * @module tsfox/core/features/events/core
+ */
+
+import { DeadLetter, DeadLetterFilter, DeadLetterStore } from '../interfaces';
+
+/**
+ * Dead-letter store keeping up to `maxSize` letters in memory, dropping the oldest
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private letters = new Map<string, DeadLetter>();
+
+  constructor(private readonly maxSize: number = 10000) {}
+
+  async add(letter: DeadLetter): Promise<void> {
+    this.letters.set(letter.id, letter);
+    for (const id of this.letters.keys()) {
+      if (this.letters.size <= this.maxSize) {
+        break;
+      }
+      this.letters.delete(id);
+    }
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    return [...this.letters.values()].filter(letter => matchesDeadLetter(letter, filter));
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.letters.delete(id);
+  }
+
+  async count(filter: DeadLetterFilter = {}): Promise<number> {
+    return (await this.list(filter)).length;
+  }
+}
+
+/**
+ * Whether a dead letter matches a filter
+ */
+export function matchesDeadLetter(letter: DeadLetter, filter: DeadLetterFilter): boolean {
+  return (!filter.subscriptionId || letter.subscriptionId === filter.subscriptionId)
+    && (!filter.eventType || letter.eventType === filter.eventType || letter.event.type === filter.eventType)
+    && (!filter.before || letter.failedAt < filter.before);
+}
@@ -3,6 +3,7 @@
  * @module tsfox/core/features/events/core
  */
 
+import { randomUUID } from 'crypto';
 import {
   EventInterface,
   EventBusInterface,
@@ -10,17 +11,60 @@ import {
   EventHandler,
   Subscription,
   SubscriptionOptions,
-  EventBusStats
+  RetryOptions,
+  EventBusStats,
+  HandlerStats,
+  DeadLetter,
+  DeadLetterFilter,
+  DeadLetterStore
 } from '../interfaces';
 import { ExtendedEventEmitterInterface } from './event.emitter';
+import { MemoryDeadLetterStore } from './dead.letter.queue';
+import { EventAdapterFactory } from '../adapters/adapter.factory';
 
 /**
- * In-memory event bus implementation
+ * Memory event bus options
+ */
+export interface MemoryEventBusOptions {
+  /** Where subscriptions with `deadLetterQueue` put the events they failed to handle (default memory) */
+  deadLetters?: DeadLetterStore;
+
+  /** Options of every subscription, overridden by its own */
+  defaults?: SubscriptionOptions;
+
+  /**
+   * Consumer group of this bus on its adapters: an event published elsewhere reaches one
+   * bus of each group, and events published by a bus of the group are not received again
+   * by the others (default a group of its own, receiving every event)
+   */
+  consumerGroup?: string;
+}
+
+/**
+ * In-memory event bus implementation.
+ *
+ * Subscription handlers are called with the options of their subscription: at most
+ * `maxConcurrency` events at a time (others wait their turn), each call failing after
+ * `timeout` ms, and failed events retried `retry.maxAttempts` times with backoff. Events
+ * whose attempts all fail go to the dead-letter queue when `deadLetterQueue` is set, and
+ * are otherwise reported as handler errors by the emitter.
+ *
+ * Published events also go to the adapters, tagged with the `origin` of this bus, and
+ * the bus listens on its adapters to the event types it has subscriptions for (all but
+ * `*`), emitting the events that come from other buses as if they were published here.
  */
 export class MemoryEventBus implements EventBusInterface {
   private emitter: ExtendedEventEmitterInterface;
   private adapters: Map<string, EventAdapterInterface> = new Map();
   private subscriptions: Map<string, Subscription> = new Map();
+  private deliveries: Map<string, SubscriptionDelivery> = new Map();
+  private deadLetters: DeadLetterStore;
+  private defaults: SubscriptionOptions;
+  private handlerTotals: HandlerCounters = createCounters();
+  private consumerGroup?: string;
+  private origin: string;
+  private topics: Set<string> = new Set();
+  private listening: Map<string, Map<string, Promise<void>>> = new Map();
   private stats: {
     totalPublished: number;
     totalReceived: number;
@@ -35,8 +79,12 @@ export class MemoryEventBus implements EventBusInterface {
     lastActivity: new Date()
   };
 
-  constructor(emitter: ExtendedEventEmitterInterface) {
+  constructor(emitter: ExtendedEventEmitterInterface, options: MemoryEventBusOptions = {}) {
     this.emitter = emitter;
+    this.deadLetters = options.deadLetters || new MemoryDeadLetterStore();
+    this.defaults = options.defaults || {};
+    this.consumerGroup = options.consumerGroup;
+    this.origin = options.consumerGroup || randomUUID();
   }
 
   /**
@@ -50,8 +98,9 @@ export class MemoryEventBus implements EventBusInterface {
       await this.emitter.emit(event);
 
       // Publish to external adapters
+      const remoteEvent = { ...event, metadata: { ...event.metadata, origin: this.origin } };
       const publishPromises = Array.from(this.adapters.values()).map(adapter =>
-        adapter.publish(event.type, event).catch(error => {
+        adapter.publish(event.type, remoteEvent).catch(error => {
           console.error(`Adapter publish error:`, error);
           this.stats.failedPublishes++;
         })
@@ -89,9 +138,25 @@ export class MemoryEventBus implements EventBusInterface {
     handler: EventHandler,
     options?: SubscriptionOptions
   ): Promise<Subscription> {
-    const subscription = this.emitter.subscribe(eventType, handler, options);
-    this.subscriptions.set(subscription.id, subscription);
-    return subscription;
+    const subscriptionOptions = { ...this.defaults, ...options };
+    const delivery = this.createDelivery(this.generateSubscriptionId(), eventType, handler, subscriptionOptions);
+    const subscription = this.emitter.subscribe(eventType, event => delivery.handle(event), subscriptionOptions);
+
+    const busSubscription: Subscription = {
+      id: delivery.subscriptionId,
+      eventType,
+      handler,
+      options: subscriptionOptions,
+      unsubscribe: async () => {
+        await subscription.unsubscribe();
+        this.subscriptions.delete(busSubscription.id);
+        this.deliveries.delete(busSubscription.id);
+      }
+    };
+
+    this.subscriptions.set(busSubscription.id, busSubscription);
+    await this.listen([eventType]);
+    return busSubscription;
   }
 
   /**
@@ -102,24 +167,29 @@ export class MemoryEventBus implements EventBusInterface {
     handler: EventHandler,
     options?: SubscriptionOptions
   ): Promise<Subscription> {
-    // Create subscriptions for each event type
+    const subscriptionOptions = { ...this.defaults, ...options };
+    const delivery = this.createDelivery(this.generateSubscriptionId(), eventTypes.join(','), handler, subscriptionOptions);
+
+    // Create subscriptions for each event type, sharing the delivery of the events
     const subscriptions = eventTypes.map(eventType => 
-      this.emitter.subscribe(eventType, handler, options)
+      this.emitter.subscribe(eventType, event => delivery.handle(event), subscriptionOptions)
     );
 
     // Create a composite subscription
     const compositeSubscription: Subscription = {
-      id: this.generateSubscriptionId(),
-      eventType: eventTypes.join(','),
+      id: delivery.subscriptionId,
+      eventType: delivery.eventType,
       handler,
-      options: options || {},
+      options: subscriptionOptions,
       unsubscribe: async () => {
         await Promise.all(subscriptions.map(sub => sub.unsubscribe()));
         this.subscriptions.delete(compositeSubscription.id);
+        this.deliveries.delete(compositeSubscription.id);
       }
     };
 
     this.subscriptions.set(compositeSubscription.id, compositeSubscription);
+    await this.listen(eventTypes);
     return compositeSubscription;
   }
 
@@ -127,8 +197,51 @@ export class MemoryEventBus implements EventBusInterface {
    * Unsubscribe from events
    */
   async unsubscribe(subscription: Subscription): Promise<void> {
-    subscription.unsubscribe();
+    await subscription.unsubscribe();
     this.subscriptions.delete(subscription.id);
+    this.deliveries.delete(subscription.id);
+  }
+
+  /**
+   * Get the events subscriptions failed to handle, oldest first
+   */
+  getDeadLetters(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return this.deadLetters.list(filter);
+  }
+
+  /**
+   * Give dead letters again to their subscription, one at a time. A letter whose
+   * subscription is gone stays in the queue; one failing again is dead-lettered again.
+   */
+  async replayDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    let handled = 0;
+
+    for (const letter of await this.deadLetters.list(filter)) {
+      const delivery = this.deliveries.get(letter.subscriptionId);
+      if (!delivery) {
+        continue;
+      }
+
+      await this.deadLetters.remove(letter.id);
+      if (await delivery.deliver(letter.event, true)) {
+        handled++;
+      }
+    }
+
+    return handled;
+  }
+
+  /**
+   * Remove dead letters
+   */
+  async purgeDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    let removed = 0;
+    for (const letter of await this.deadLetters.list(filter)) {
+      if (await this.deadLetters.remove(letter.id)) {
+        removed++;
+      }
+    }
+    return removed;
   }
 
   /**
@@ -148,6 +261,16 @@ export class MemoryEventBus implements EventBusInterface {
 
     const eventsPerSecond = this.calculateEventsPerSecond();
 
+    const handlersBySubscription: EventBusStats['handlersBySubscription'] = {};
+    let active = 0;
+    let queued = 0;
+    for (const delivery of this.deliveries.values()) {
+      const stats = delivery.getStats();
+      handlersBySubscription[delivery.subscriptionId] = { eventType: delivery.eventType, ...stats };
+      active += stats.active;
+      queued += stats.queued;
+    }
+
     return {
       totalPublished: this.stats.totalPublished,
       totalReceived: this.stats.totalReceived,
@@ -156,7 +279,10 @@ export class MemoryEventBus implements EventBusInterface {
       activeSubscriptions: this.subscriptions.size,
       failedPublishes: this.stats.failedPublishes,
       connectionStatus: this.getConnectionStatus(),
-      lastActivity: this.stats.lastActivity
+      lastActivity: this.stats.lastActivity,
+      deadLetters: await this.deadLetters.count(),
+      handlers: toHandlerStats(this.handlerTotals, active, queued),
+      handlersBySubscription
     };
   }
 
@@ -175,6 +301,9 @@ export class MemoryEventBus implements EventBusInterface {
 
     // Clear all subscriptions
     this.subscriptions.clear();
+    this.deliveries.clear();
+    this.topics.clear();
+    this.listening.clear();
     this.emitter.removeAllListeners();
   }
 
@@ -190,6 +319,9 @@ export class MemoryEventBus implements EventBusInterface {
     );
 
     await Promise.all(connectPromises);
+
+    // Listen again to the topics an adapter failed to subscribe to
+    await Promise.all(Array.from(this.adapters.keys()).map(name => this.listenOn(name)));
   }
 
   /**
@@ -211,9 +343,10 @@ export class MemoryEventBus implements EventBusInterface {
    */
   addAdapter(name: string, adapter: EventAdapterInterface): void {
     this.adapters.set(name, adapter);
+    this.listening.delete(name);
 
-    // Set up adapter event handling by subscribing to topics
-    // Note: This is a simplified approach - real implementation would depend on adapter capabilities
+    // Listen to the topics of the existing subscriptions
+    void this.listenOn(name);
   }
 
   /**
@@ -226,6 +359,7 @@ export class MemoryEventBus implements EventBusInterface {
         console.error(`Adapter disconnection error:`, error);
       });
       this.adapters.delete(name);
+      this.listening.delete(name);
     }
   }
 
@@ -243,6 +377,63 @@ export class MemoryEventBus implements EventBusInterface {
     return new Map(this.adapters);
   }
 
+  /**
+   * Listen on every adapter to event types subscribed to
+   */
+  private async listen(eventTypes: string[]): Promise<void> {
+    for (const eventType of eventTypes) {
+      if (!eventType.includes('*')) {
+        this.topics.add(eventType);
+      }
+    }
+    await Promise.all(Array.from(this.adapters.keys()).map(name => this.listenOn(name)));
+  }
+
+  /**
+   * Subscribe an adapter to the topics it does not listen to yet. A failed subscription
+   * is logged and tried again on the next subscribe or `connect`.
+   */
+  private async listenOn(name: string): Promise<void> {
+    const adapter = this.adapters.get(name);
+    if (!adapter) {
+      return;
+    }
+    let topics = this.listening.get(name);
+    if (!topics) {
+      topics = new Map();
+      this.listening.set(name, topics);
+    }
+
+    const pending: Array<Promise<void>> = [];
+    for (const topic of this.topics) {
+      let listening = topics.get(topic);
+      if (!listening) {
+        const adapterTopics = topics;
+        listening = adapter
+          .subscribe(topic, event => this.receive(event), { consumerGroup: this.consumerGroup })
+          .then(() => undefined, error => {
+            adapterTopics.delete(topic);
+            console.error(`Adapter subscription error:`, error);
+          });
+        topics.set(topic, listening);
+      }
+      pending.push(listening);
+    }
+    await Promise.all(pending);
+  }
+
+  /**
+   * Emit an event received from an adapter, unless this bus or its group published it
+   */
+  private async receive(event: EventInterface): Promise<void> {
+    if (event.metadata?.origin === this.origin) {
+      return;
+    }
+    this.stats.totalReceived++;
+    this.stats.lastActivity = new Date();
+    await this.emitter.emit(event);
+  }
+
   /**
    * Calculate events per second
    */
@@ -268,6 +459,20 @@ export class MemoryEventBus implements EventBusInterface {
     return 'connected'; // Simplified for now
   }
 
+  /**
+   * Create the delivery of the events of a subscription
+   */
+  private createDelivery(
+    subscriptionId: string,
+    eventType: string,
+    handler: EventHandler,
+    options: SubscriptionOptions
+  ): SubscriptionDelivery {
+    const delivery = new SubscriptionDelivery(subscriptionId, eventType, handler, options, this.handlerTotals, this.deadLetters);
+    this.deliveries.set(subscriptionId, delivery);
+    return delivery;
+  }
+
   /**
    * Generate subscription ID
    */
@@ -287,9 +492,13 @@ export class MemoryEventBus implements EventBusInterface {
       adapter.disconnect().catch(console.error);
     }
     this.adapters.clear();
+    this.listening.clear();
     
     // Clear subscriptions
     this.subscriptions.clear();
+    this.deliveries.clear();
+    this.topics.clear();
+    this.handlerTotals = createCounters();
 
     // Reset stats
     this.stats = {
@@ -309,8 +518,8 @@ export class EventBusFactory {
   /**
    * Create a memory-based event bus
    */
-  static createMemoryBus(emitter: ExtendedEventEmitterInterface): EventBusInterface {
-    return new MemoryEventBus(emitter);
+  static createMemoryBus(emitter: ExtendedEventEmitterInterface, options?: MemoryEventBusOptions): EventBusInterface {
+    return new MemoryEventBus(emitter, options);
   }
 
   /**
@@ -327,13 +536,28 @@ export class EventBusFactory {
    * Create event bus from configuration
    */
   static createFromConfig(config: EventBusConfig, emitter: ExtendedEventEmitterInterface): EventBusInterface {
-    const bus = new MemoryEventBus(emitter);
+    const errorHandling = config.errorHandling;
+    const bus = new MemoryEventBus(emitter, {
+      consumerGroup: config.consumerGroup,
+      defaults: {
+        maxConcurrency: config.performance?.maxConcurrency,
+        deadLetterQueue: errorHandling?.deadLetterQueue,
+        retry: errorHandling?.retryFailedMessages
+          ? {
+            maxAttempts: errorHandling.maxRetries,
+            backoffStrategy: 'exponential',
+            initialDelay: config.connection?.retryDelay ?? 100,
+            maxDelay: 30000
+          }
+          : undefined
+      }
+    });
 
     // Add configured adapters
     if (config.adapters) {
       for (const [name, adapterConfig] of Object.entries(config.adapters)) {
-        // TODO: Create adapters from configuration
-        console.log(`TODO: Create adapter ${name} with config:`, adapterConfig);
+        const { type = name, ...options } = adapterConfig;
+        bus.addAdapter(name, EventAdapterFactory.create(type, options));
       }
     }
 
@@ -345,8 +569,11 @@ export class EventBusFactory {
  * Event bus configuration
  */
 export interface EventBusConfig {
-  /** Adapter configurations */
+  /** Adapter configurations by name, with the adapter `type` (default the name) */
   adapters?: Record<string, any>;
+
+  /** Consumer group of this bus on its adapters */
+  consumerGroup?: string;
   
   /** Connection settings */
   connection?: {
@@ -369,3 +596,154 @@ export interface EventBusConfig {
     maxRetries: number;
   };
 }
+
+/**
+ * Calls the handler of one subscription, with its concurrency limit, timeout and retries
+ */
+class SubscriptionDelivery {
+  private counters: HandlerCounters = createCounters();
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(
+    readonly subscriptionId: string,
+    readonly eventType: string,
+    private readonly handler: EventHandler,
+    private readonly options: SubscriptionOptions,
+    private readonly totals: HandlerCounters,
+    private readonly deadLetters: DeadLetterStore
+  ) {}
+
+  /**
+   * Handler given to the emitter
+   */
+  async handle(event: EventInterface): Promise<void> {
+    await this.deliver(event, !!this.options.deadLetterQueue);
+  }
+
+  /**
+   * Call the handler until it succeeds or runs out of attempts. Returns false when the
+   * event was dead-lettered, and throws the last error when it was not.
+   */
+  async deliver(event: EventInterface, deadLetter: boolean): Promise<boolean> {
+    const retries = this.options.retry?.maxAttempts ?? 0;
+    await this.acquire();
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.call(event);
+          this.count('delivered');
+          return true;
+        } catch (error) {
+          if (attempt <= retries) {
+            this.count('retried');
+            await new Promise(resolve => setTimeout(resolve, retryDelay(this.options.retry!, attempt)));
+            continue;
+          }
+
+          this.count('delivered');
+          this.count('failed');
+          if (!deadLetter) {
+            throw error;
+          }
+          await this.deadLetters.add({
+            id: randomUUID(),
+            event,
+            subscriptionId: this.subscriptionId,
+            eventType: this.eventType,
+            error: error instanceof Error ? error.message : String(error),
+            attempts: attempt,
+            failedAt: new Date()
+          });
+          return false;
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): HandlerStats {
+    return toHandlerStats(this.counters, this.active, this.waiting.length);
+  }
+
+  /**
+   * Call the handler once. A call past the timeout fails but is not stopped.
+   */
+  private async call(event: EventInterface): Promise<void> {
+    const result = Promise.resolve().then(() => this.handler(event));
+    const timeout = this.options.timeout;
+    if (!timeout) {
+      return result;
+    }
+
+    let timer: NodeJS.Timeout;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        this.count('timedOut');
+        reject(new Error(`Handler of ${this.eventType} timed out after ${timeout} ms`));
+      }, timeout);
+    });
+    return Promise.race([result, expired]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Wait for a concurrency slot. A released slot goes straight to the next waiting event.
+   */
+  private async acquire(): Promise<void> {
+    const max = this.options.maxConcurrency;
+    if (max && this.active >= max) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private count(counter: keyof HandlerCounters): void {
+    this.counters[counter]++;
+    this.totals[counter]++;
+  }
+}
+
+/**
+ * Delay in milliseconds before a retry (the first retry is attempt 1)
+ */
+function retryDelay(retry: RetryOptions, attempt: number): number {
+  let delay: number;
+  switch (retry.backoffStrategy) {
+    case 'exponential':
+      delay = retry.initialDelay * Math.pow(retry.multiplier || 2, attempt - 1);
+      break;
+    case 'linear':
+      delay = retry.initialDelay * attempt;
+      break;
+    default:
+      delay = retry.initialDelay;
+  }
+  return Math.min(delay, retry.maxDelay);
+}
+
+function createCounters(): HandlerCounters {
+  return { delivered: 0, failed: 0, retried: 0, timedOut: 0 };
+}
+
+function toHandlerStats(counters: HandlerCounters, active: number, queued: number): HandlerStats {
+  return {
+    ...counters,
+    failureRate: counters.delivered > 0 ? counters.failed / counters.delivered : 0,
+    active,
+    queued
+  };
+}
+
+type HandlerCounters = Pick<HandlerStats, 'delivered' | 'failed' | 'retried' | 'timedOut'>;
@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Event-sourcing repository and snapshot stores
+ * @module tsfox/core/features/events/core
+ */
+
+import {
+  AggregateRootInterface,
+  AggregateSnapshot,
+  EventSourcingConfig,
+  EventSourcingRepositoryInterface,
+  EventStoreInterface,
+  SnapshotStats,
+  SnapshotStoreInterface
+} from '../interfaces';
+import { StreamNotFoundError } from './persistent.event.store';
+
+/**
+ * Snapshot store keeping the last snapshots of each aggregate in memory
+ */
+export class MemorySnapshotStore implements SnapshotStoreInterface {
+  private snapshots = new Map<string, AggregateSnapshot[]>();
+  private lastCleanup?: Date;
+
+  /** Snapshots kept per aggregate, the latest ones (default 1) */
+  constructor(private readonly maxPerAggregate = 1) {}
+
+  async save(aggregateId: string, snapshot: any, version: number, metadata?: Record<string, any>): Promise<void> {
+    const snapshots = this.snapshots.get(aggregateId) || [];
+    snapshots.push({ aggregateId, version, data: snapshot, timestamp: new Date(), metadata });
+    snapshots.sort((a, b) => a.version - b.version);
+    this.snapshots.set(aggregateId, snapshots.slice(-Math.max(this.maxPerAggregate, 1)));
+  }
+
+  async get(aggregateId: string): Promise<AggregateSnapshot | null> {
+    const snapshots = this.snapshots.get(aggregateId);
+    return snapshots ? { ...snapshots[snapshots.length - 1] } : null;
+  }
+
+  async delete(aggregateId: string): Promise<void> {
+    this.snapshots.delete(aggregateId);
+  }
+
+  async getStats(): Promise<SnapshotStats> {
+    return snapshotStats([...this.snapshots.values()].flat(), this.lastCleanup);
+  }
+
+  /**
+   * Drop the snapshots beyond `maxPerAggregate`
+   */
+  async cleanup(): Promise<void> {
+    for (const [aggregateId, snapshots] of this.snapshots) {
+      this.snapshots.set(aggregateId, snapshots.slice(-Math.max(this.maxPerAggregate, 1)));
+    }
+    this.lastCleanup = new Date();
+  }
+}
+
+/**
+ * Snapshot store using the snapshots of the event store, one per stream, so a durable
+ * store keeps them with the events. Deleting writes an empty snapshot that `get` skips,
+ * and statistics only cover the snapshots this instance has written.
+ */
+export class EventStoreSnapshotStore implements SnapshotStoreInterface {
+  private written = new Map<string, AggregateSnapshot>();
+  private lastCleanup?: Date;
+
+  constructor(private readonly store: EventStoreInterface) {}
+
+  async save(aggregateId: string, snapshot: any, version: number, metadata?: Record<string, any>): Promise<void> {
+    await this.store.createSnapshot(aggregateId, version, { state: snapshot, metadata });
+    this.written.set(aggregateId, { aggregateId, version, data: snapshot, timestamp: new Date(), metadata });
+  }
+
+  async get(aggregateId: string): Promise<AggregateSnapshot | null> {
+    const snapshot = await this.store.getSnapshot(aggregateId);
+    if (!snapshot || !snapshot.data) {
+      return null;
+    }
+    return {
+      aggregateId,
+      version: snapshot.version,
+      data: snapshot.data.state,
+      timestamp: snapshot.timestamp,
+      metadata: snapshot.data.metadata
+    };
+  }
+
+  async delete(aggregateId: string): Promise<void> {
+    await this.store.createSnapshot(aggregateId, 0, null);
+    this.written.delete(aggregateId);
+  }
+
+  async getStats(): Promise<SnapshotStats> {
+    return snapshotStats([...this.written.values()], this.lastCleanup);
+  }
+
+  /**
+   * Nothing to clean up: the event store keeps one snapshot per stream
+   */
+  async cleanup(): Promise<void> {
+    this.lastCleanup = new Date();
+  }
+}
+
+/**
+ * Options of the event-sourcing repository
+ */
+export interface EventSourcingRepositoryOptions<T extends AggregateRootInterface> {
+  store: EventStoreInterface;
+
+  /** Create an empty aggregate */
+  factory: (id: string) => T;
+
+  /** Prefix of the stream ids of the aggregates, such as `order-` */
+  streamPrefix?: string;
+
+  /** Aggregate type recorded with snapshots (default the class name of the aggregate) */
+  type?: string;
+
+  /**
+   * Snapshot settings: a snapshot is taken each time the version of an aggregate
+   * crosses a multiple of `frequency`. `store` defaults to the snapshots of the event store.
+   */
+  snapshots?: Partial<Pick<EventSourcingConfig['snapshots'], 'enabled' | 'frequency'>> & { store?: SnapshotStoreInterface };
+}
+
+/**
+ * Repository loading aggregates from their events and saving their uncommitted events.
+ *
+ * Saving appends the new events at the version the aggregate was loaded at, so a
+ * concurrent save of the same aggregate fails with a `ConcurrencyError` from the store;
+ * load the aggregate again and retry the command.
+ */
+export class EventSourcingRepository<T extends AggregateRootInterface> implements EventSourcingRepositoryInterface<T> {
+  private readonly snapshots?: { store: SnapshotStoreInterface; frequency: number };
+
+  constructor(private readonly options: EventSourcingRepositoryOptions<T>) {
+    const snapshots = options.snapshots;
+    if (snapshots && snapshots.enabled !== false && snapshots.frequency && snapshots.frequency > 0) {
+      this.snapshots = {
+        store: snapshots.store || new EventStoreSnapshotStore(options.store),
+        frequency: snapshots.frequency
+      };
+    }
+  }
+
+  /**
+   * Load an aggregate from its latest snapshot and the events after it
+   */
+  async getById(id: string): Promise<T | null> {
+    const streamId = this.streamId(id);
+    const aggregate = this.options.factory(id);
+    const snapshot = this.snapshots ? await this.snapshots.store.get(streamId) : null;
+    if (snapshot) {
+      aggregate.loadFromSnapshot(snapshot.data, snapshot.version);
+    }
+
+    const events = await this.options.store.read(streamId, snapshot ? snapshot.version : 0);
+    if (!snapshot && events.length === 0) {
+      return null;
+    }
+    aggregate.loadFromHistory(events);
+    return aggregate;
+  }
+
+  /**
+   * Append the uncommitted events of an aggregate, checking it was not changed since it was loaded
+   */
+  async save(aggregate: T): Promise<void> {
+    const events = aggregate.getUncommittedEvents();
+    if (events.length === 0) {
+      return;
+    }
+
+    const loadedVersion = aggregate.version - events.length;
+    await this.options.store.append(this.streamId(aggregate.id), events, loadedVersion > 0 ? loadedVersion : -1);
+    aggregate.markEventsAsCommitted();
+
+    if (this.snapshots) {
+      const { store, frequency } = this.snapshots;
+      if (Math.floor(aggregate.version / frequency) > Math.floor(loadedVersion / frequency)) {
+        await store.save(this.streamId(aggregate.id), aggregate.getSnapshot(), aggregate.version, {
+          type: this.options.type || aggregate.constructor.name
+        });
+      }
+    }
+  }
+
+  /**
+   * Delete the events and snapshots of an aggregate
+   */
+  async delete(id: string): Promise<void> {
+    const streamId = this.streamId(id);
+    await this.options.store.deleteStream(streamId, true);
+    await this.snapshots?.store.delete(streamId);
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return (await this.getVersion(id)) > 0;
+  }
+
+  /**
+   * Version of an aggregate in the store, 0 when it has no events
+   */
+  async getVersion(id: string): Promise<number> {
+    const streamId = this.streamId(id);
+    try {
+      const metadata = await this.options.store.getStreamMetadata(streamId);
+      return metadata.status === 'deleted' ? 0 : Math.max(metadata.version, 0);
+    } catch (error) {
+      if (error instanceof StreamNotFoundError) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  private streamId(id: string): string {
+    return (this.options.streamPrefix || '') + id;
+  }
+}
+
+function snapshotStats(snapshots: AggregateSnapshot[], lastCleanup?: Date): SnapshotStats {
+  const snapshotsByType: Record<string, number> = {};
+  let storageSize = 0;
+  for (const snapshot of snapshots) {
+    const type = snapshot.metadata?.type || 'unknown';
+    snapshotsByType[type] = (snapshotsByType[type] || 0) + 1;
+    storageSize += JSON.stringify(snapshot.data ?? null).length;
+  }
+
+  return {
+    totalSnapshots: snapshots.length,
+    storageSize,
+    averageSnapshotSize: snapshots.length > 0 ? storageSize / snapshots.length : 0,
+    snapshotsByType,
+    lastCleanup
+  };
+}
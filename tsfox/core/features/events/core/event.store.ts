@@ -14,6 +14,10 @@ import {
   EventHandler,
   Subscription
 } from '../interfaces';
+import { DatabaseConfig, DatabaseInterface } from '../../database/interfaces';
+import { ConcurrencyError, EventStoreSubscriptions, StreamNotFoundError } from './persistent.event.store';
+import { FileEventStore, FileEventStoreOptions } from './file.event.store';
+import { DatabaseEventStore, DatabaseEventStoreOptions } from './database.event.store';
 
 /**
  * In-memory transaction implementation
@@ -83,8 +87,11 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
   private events: Map<string, EventInterface[]> = new Map();
   private metadata: Map<string, StreamMetadata> = new Map();
   private snapshots: Map<string, Snapshot> = new Map();
-  private subscriptions: Map<string, { handler: EventHandler; fromPosition?: number }> = new Map();
-  private eventCounter: number = 0;
+  private log: Array<EventInterface | null> = [];
+  private subscriptions = new EventStoreSubscriptions(
+    async (fromPosition, maxCount) => this.readAll(fromPosition, maxCount),
+    async () => this.log.length
+  );
 
   /**
    * Append events to a stream
@@ -108,9 +115,7 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
     // Check expected version
     const currentVersion = await this.getStreamVersion(streamId);
     if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
-      throw new Error(
-        `Expected version ${expectedVersion}, but current version is ${currentVersion}`
-      );
+      throw new ConcurrencyError(streamId, expectedVersion, currentVersion);
     }
 
     // Get or create stream
@@ -132,11 +137,12 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
     let version = streamMetadata.version;
     for (const event of events) {
       version++;
-      this.eventCounter++;
       
-      // Create event with proper metadata
+      // Create event with its place in the stream and in the log
       const enhancedEvent: EventInterface = {
         ...event,
+        version,
+        position: this.log.length + 1,
         // Ensure metadata has required properties
         metadata: event.metadata || {
           source: 'memory-store',
@@ -146,11 +152,13 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
       };
       
       stream.push(enhancedEvent);
+      this.log.push(enhancedEvent);
     }
 
     // Update metadata
     streamMetadata.version = version;
     streamMetadata.lastUpdated = new Date();
+    this.subscriptions.notify();
 
     return version;
   }
@@ -185,57 +193,36 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
   }
 
   /**
-   * Read all events from all streams
+   * Position of the last event appended, 0 when the store is empty
    */
-  async readAll(fromPosition?: number, maxCount?: number): Promise<EventInterface[]> {
-    const allEvents: EventInterface[] = [];
-    
-    for (const stream of this.events.values()) {
-      allEvents.push(...stream);
-    }
-
-    // Sort by timestamp
-    allEvents.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-    let events = allEvents;
+  async getLastPosition(): Promise<number> {
+    return this.log.length;
+  }
 
-    // Filter by position (using array index as position)
-    if (fromPosition !== undefined) {
-      events = events.slice(fromPosition);
-    }
+  /**
+   * Read the events of all streams after a position, in the order they were appended
+   */
+  async readAll(fromPosition?: number, maxCount?: number): Promise<EventInterface[]> {
+    const events: EventInterface[] = [];
 
-    // Limit count
-    if (maxCount !== undefined) {
-      events = events.slice(0, maxCount);
+    for (let index = fromPosition || 0; index < this.log.length; index++) {
+      if (maxCount !== undefined && events.length >= maxCount) {
+        break;
+      }
+      const event = this.log[index];
+      if (event) {
+        events.push(event);
+      }
     }
 
     return events;
   }
 
   /**
-   * Subscribe to new events
+   * Subscribe to the events after `fromPosition`, or to new events only without one
    */
   async subscribe(handler: EventHandler, fromPosition?: number): Promise<Subscription> {
-    const subscriptionId = this.generateSubscriptionId();
-    
-    this.subscriptions.set(subscriptionId, {
-      handler,
-      fromPosition
-    });
-
-    return {
-      id: subscriptionId,
-      eventType: '*', // All events
-      handler,
-      options: {
-        fromPosition,
-        maxConcurrency: 1,
-        deadLetterQueue: false
-      },
-      unsubscribe: async () => {
-        this.subscriptions.delete(subscriptionId);
-      }
-    };
+    return this.subscriptions.subscribe(handler, fromPosition);
   }
 
   /**
@@ -244,7 +231,7 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
   async getStreamMetadata(streamId: string): Promise<StreamMetadata> {
     const metadata = this.metadata.get(streamId);
     if (!metadata) {
-      throw new Error(`Stream ${streamId} not found`);
+      throw new StreamNotFoundError(streamId);
     }
     return { ...metadata };
   }
@@ -261,6 +248,9 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
    */
   async deleteStream(streamId: string, hardDelete?: boolean): Promise<void> {
     if (hardDelete) {
+      for (const event of this.events.get(streamId) || []) {
+        this.log[event.position! - 1] = null;
+      }
       this.events.delete(streamId);
       this.metadata.delete(streamId);
       this.snapshots.delete(streamId);
@@ -391,13 +381,6 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
     return `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  /**
-   * Generate subscription ID
-   */
-  private generateSubscriptionId(): string {
-    return `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   /**
    * Clear all data
    */
@@ -406,7 +389,7 @@ export class MemoryEventStore implements TransactionalEventStoreInterface {
     this.metadata.clear();
     this.snapshots.clear();
     this.subscriptions.clear();
-    this.eventCounter = 0;
+    this.log = [];
   }
 }
 
@@ -422,12 +405,38 @@ export class EventStoreFactory {
   }
 
   /**
-   * Create event store from configuration
+   * Create an event store keeping its events in an append-only file
+   */
+  static createFileStore(options: string | FileEventStoreOptions): FileEventStore {
+    return new FileEventStore(typeof options === 'string' ? { path: options } : options);
+  }
+
+  /**
+   * Create an event store keeping its events in tables of a database
+   */
+  static createDatabaseStore(options: DatabaseInterface | DatabaseConfig | DatabaseEventStoreOptions): DatabaseEventStore {
+    return new DatabaseEventStore('database' in options && typeof options.database === 'object'
+      ? options as DatabaseEventStoreOptions
+      : { database: options as DatabaseInterface | DatabaseConfig });
+  }
+
+  /**
+   * Create event store from configuration. The `connection` of a `file` store is its path
+   * or `FileEventStoreOptions`; the one of a `database` store is a database, a database
+   * configuration or `DatabaseEventStoreOptions`.
    */
   static createFromConfig(config: EventStoreConfig): EventStoreInterface {
     switch (config.type) {
       case 'memory':
         return new MemoryEventStore();
+      case 'file':
+      case 'database':
+        if (!config.connection) {
+          throw new Error(`Event store type ${config.type} requires a connection`);
+        }
+        return config.type === 'file'
+          ? this.createFileStore(config.connection)
+          : this.createDatabaseStore(config.connection);
       default:
         throw new Error(`Unsupported event store type: ${config.type}`);
     }
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Event store keeping its events in an append-only file
+ * @module tsfox/core/features/events/core
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EventInterface, Snapshot, StreamMetadata } from '../interfaces';
+import { PersistentEventStore, StreamAppend } from './persistent.event.store';
+
+/**
+ * Options of the file event store
+ */
+export interface FileEventStoreOptions {
+  /** Path of the log file, created with its directory if missing */
+  path: string;
+
+  /** Flush every write to disk before it resolves (default true) */
+  fsync?: boolean;
+}
+
+/**
+ * Event store writing every change as one line of an append-only log.
+ *
+ * Each line holds a checksum and one record, and an append to several streams is a
+ * single record, so a write is either fully in the file or not at all: when the process
+ * dies mid-write, the torn last line is cut off the next time the file is opened.
+ * The log is loaded in memory when the store opens and only one process may write it.
+ * Hard-deleted streams disappear from the store but their lines stay in the file.
+ */
+export class FileEventStore extends PersistentEventStore {
+  private readonly options: Required<FileEventStoreOptions>;
+  private file?: fs.FileHandle;
+  private size = 0;
+  private log: Array<EventInterface | null> = [];
+  private streams = new Map<string, StoredStream>();
+  private snapshots = new Map<string, Snapshot>();
+
+  constructor(options: FileEventStoreOptions) {
+    super();
+    this.options = { fsync: true, ...options };
+  }
+
+  protected async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+    this.file = await fs.open(this.options.path, 'a+');
+
+    try {
+      await this.load();
+    } catch (error) {
+      await this.file.close();
+      this.file = undefined;
+      throw error;
+    }
+  }
+
+  protected async shutdown(): Promise<void> {
+    await this.file?.close();
+    this.file = undefined;
+    this.log = [];
+    this.streams.clear();
+    this.snapshots.clear();
+  }
+
+  protected async writeAppends(appends: StreamAppend[]): Promise<void> {
+    const versions = new Map<string, number>();
+    let position = this.log.length;
+    const streams = appends.map(append => {
+      const current = versions.has(append.streamId)
+        ? versions.get(append.streamId)!
+        : this.streams.get(append.streamId)?.metadata.version ?? -1;
+      this.checkVersion(append, current);
+
+      let version = Math.max(current, 0);
+      const events = append.events.map(event => this.stamp(event, ++version, ++position));
+      versions.set(append.streamId, version);
+      return { streamId: append.streamId, events };
+    });
+
+    await this.writeRecord({ type: 'append', streams, timestamp: new Date().toISOString() });
+  }
+
+  protected async readStream(streamId: string, fromVersion: number, maxCount?: number): Promise<EventInterface[]> {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return [];
+    }
+    const positions = stream.positions.slice(fromVersion, maxCount !== undefined ? fromVersion + maxCount : undefined);
+    return positions.map(position => this.log[position - 1]!);
+  }
+
+  protected async readLog(fromPosition: number, maxCount?: number): Promise<EventInterface[]> {
+    const events: EventInterface[] = [];
+    for (let index = fromPosition; index < this.log.length; index++) {
+      if (maxCount !== undefined && events.length >= maxCount) {
+        break;
+      }
+      const event = this.log[index];
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  protected async lastPosition(): Promise<number> {
+    return this.log.length;
+  }
+
+  protected async findStream(streamId: string): Promise<StreamMetadata | null> {
+    const stream = this.streams.get(streamId);
+    return stream ? { ...stream.metadata } : null;
+  }
+
+  protected async writeStream(metadata: StreamMetadata): Promise<void> {
+    await this.writeRecord({ type: 'stream', metadata: { ...metadata, lastUpdated: new Date() } });
+  }
+
+  protected async removeStream(streamId: string): Promise<void> {
+    await this.writeRecord({ type: 'delete', streamId });
+  }
+
+  protected async writeSnapshot(snapshot: Snapshot): Promise<void> {
+    await this.writeRecord({ type: 'snapshot', snapshot });
+  }
+
+  protected async findSnapshot(streamId: string): Promise<Snapshot | null> {
+    const snapshot = this.snapshots.get(streamId);
+    return snapshot ? { ...snapshot } : null;
+  }
+
+  protected async countStorage(): Promise<{ totalStreams: number; totalEvents: number; storageSize: number }> {
+    let totalEvents = 0;
+    for (const stream of this.streams.values()) {
+      totalEvents += stream.positions.length;
+    }
+    return { totalStreams: this.streams.size, totalEvents, storageSize: this.size };
+  }
+
+  /**
+   * Read the log and rebuild the streams, cutting off a torn last line
+   */
+  private async load(): Promise<void> {
+    const content = await this.file!.readFile();
+    const lines = content.toString('utf8').split('\n');
+    let offset = 0;
+
+    for (let index = 0; index < lines.length - 1; index++) {
+      const line = lines[index];
+      const record = this.parseLine(line);
+      if (!record) {
+        throw new Error(`Event store file ${this.options.path} is corrupted at line ${index + 1}`);
+      }
+      this.apply(record);
+      offset += Buffer.byteLength(line) + 1;
+    }
+
+    // Whatever follows the last newline was never fully written
+    if (offset < content.length) {
+      await this.file!.truncate(offset);
+    }
+    this.size = offset;
+  }
+
+  /**
+   * Append one record to the file, then apply it. A failed write is cut off the file.
+   */
+  private async writeRecord(record: LogRecord): Promise<void> {
+    const json = JSON.stringify(record);
+    const line = `${checksum(json)} ${json}\n`;
+
+    try {
+      await this.file!.appendFile(line);
+      if (this.options.fsync) {
+        await this.file!.datasync();
+      }
+    } catch (error) {
+      await this.file!.truncate(this.size).catch(() => undefined);
+      throw error;
+    }
+
+    this.size += Buffer.byteLength(line);
+    this.apply(JSON.parse(json));
+  }
+
+  private parseLine(line: string): LogRecord | null {
+    const separator = line.indexOf(' ');
+    const json = line.slice(separator + 1);
+    if (separator < 0 || line.slice(0, separator) !== checksum(json)) {
+      return null;
+    }
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+
+  private apply(record: LogRecord): void {
+    switch (record.type) {
+      case 'append':
+        for (const { streamId, events } of record.streams) {
+          const stream = this.getOrCreateStream(streamId, record.timestamp);
+          for (const stored of events) {
+            const event = reviveEvent(stored);
+            this.log[event.position! - 1] = event;
+            stream.positions.push(event.position!);
+            stream.metadata.version = event.version!;
+          }
+          stream.metadata.version = Math.max(stream.metadata.version, 0);
+          stream.metadata.lastUpdated = new Date(record.timestamp);
+        }
+        break;
+      case 'stream': {
+        const stream = this.getOrCreateStream(record.metadata.streamId, String(record.metadata.created));
+        stream.metadata = reviveMetadata(record.metadata);
+        break;
+      }
+      case 'delete': {
+        const stream = this.streams.get(record.streamId);
+        for (const position of stream ? stream.positions : []) {
+          this.log[position - 1] = null;
+        }
+        this.streams.delete(record.streamId);
+        this.snapshots.delete(record.streamId);
+        break;
+      }
+      case 'snapshot':
+        this.snapshots.set(record.snapshot.streamId, { ...record.snapshot, timestamp: new Date(record.snapshot.timestamp) });
+        break;
+    }
+  }
+
+  private getOrCreateStream(streamId: string, created: string): StoredStream {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = {
+        metadata: {
+          streamId,
+          version: -1,
+          created: new Date(created),
+          lastUpdated: new Date(created),
+          status: 'active'
+        },
+        positions: []
+      };
+      this.streams.set(streamId, stream);
+    }
+    return stream;
+  }
+}
+
+function checksum(json: string): string {
+  return createHash('sha256').update(json).digest('hex').slice(0, 16);
+}
+
+function reviveEvent(event: EventInterface): EventInterface {
+  return { ...event, timestamp: new Date(event.timestamp) };
+}
+
+function reviveMetadata(metadata: StreamMetadata): StreamMetadata {
+  return { ...metadata, created: new Date(metadata.created), lastUpdated: new Date(metadata.lastUpdated) };
+}
+
+interface StoredStream {
+  metadata: StreamMetadata;
+
+  /** Positions of the events of the stream, in version order */
+  positions: number[];
+}
+
+type LogRecord =
+  | { type: 'append'; streams: Array<{ streamId: string; events: EventInterface[] }>; timestamp: string }
+  | { type: 'stream'; metadata: StreamMetadata }
+  | { type: 'delete'; streamId: string }
+  | { type: 'snapshot'; snapshot: Snapshot };
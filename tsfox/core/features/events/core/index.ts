@@ -9,5 +9,25 @@ export * from './event.emitter';
 // Event store implementation
 export * from './event.store';
 
+// Durable event stores
+export * from './persistent.event.store';
+export * from './file.event.store';
+export * from './database.event.store';
+
+// Projections and read models
+export * from './projection.manager';
+export * from './read.model';
+
+// Event-sourced aggregates
+export * from './aggregate.root';
+export * from './event.sourcing.repository';
+
+// Commands, queries and sagas
+export * from './message.bus';
+export * from './message.middleware';
+export * from './saga.manager';
+export * from './database.saga.store';
+
 // Event bus implementation
 export * from './event.bus';
+export * from './dead.letter.queue';
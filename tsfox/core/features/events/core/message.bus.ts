@@ -0,0 +1,281 @@
+/**
+ * @fileoverview In-process command and query buses with middleware and correlation tracking
+ * @module tsfox/core/features/events/core
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import {
+  CommandBusInterface,
+  CommandHandlerInterface,
+  EventInterface,
+  QueryBusInterface,
+  QueryHandlerInterface
+} from '../interfaces';
+
+/**
+ * Command or query sent through a bus
+ */
+export interface BusMessage {
+  type: string;
+  aggregateId?: string;
+  data?: any;
+
+  /** `messageId`, `correlationId`, `causationId` and `userId` set here are kept */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Context of the command or query being handled
+ */
+export interface MessageContext {
+  messageId: string;
+  kind: 'command' | 'query';
+  type: string;
+
+  /** Shared by every message and event of one flow, such as one HTTP request or one saga */
+  correlationId: string;
+
+  /** Message or event that caused this message */
+  causationId?: string;
+
+  userId?: string;
+  metadata: Record<string, any>;
+  timestamp: Date;
+}
+
+/**
+ * Bus middleware: calls `next` to continue, optionally with a replaced message, or throws to reject
+ */
+export type BusMiddleware = (
+  message: BusMessage,
+  context: MessageContext,
+  next: (message?: BusMessage) => Promise<any>
+) => Promise<any>;
+
+/**
+ * Options of the buses
+ */
+export interface MessageBusOptions {
+  /** Time in milliseconds after which a handler is reported as timed out */
+  timeout?: number;
+}
+
+/**
+ * Options of the command bus
+ */
+export interface CommandBusOptions extends MessageBusOptions {
+  /** Publish the events returned by command handlers, such as `EventSystem.emit` */
+  publish?: (event: EventInterface) => Promise<void>;
+}
+
+const contexts = new AsyncLocalStorage<MessageContext>();
+
+/**
+ * Context of the command or query being handled, if any
+ */
+export function getMessageContext(): MessageContext | undefined {
+  return contexts.getStore();
+}
+
+/**
+ * Metadata linking an event to the message being handled: its correlation ID, the
+ * message as its cause and the user who sent it. Empty outside of a handler.
+ */
+export function messageMetadata(): { correlationId?: string; causationId?: string; userId?: string } {
+  const context = contexts.getStore();
+  if (!context) {
+    return {};
+  }
+  return { correlationId: context.correlationId, causationId: context.messageId, userId: context.userId };
+}
+
+/**
+ * Handler registry and middleware pipeline shared by the buses
+ */
+abstract class MessageBus<H> {
+  protected handlers = new Map<string, H>();
+  private middleware: BusMiddleware[] = [];
+
+  constructor(
+    private readonly kind: 'command' | 'query',
+    private readonly timeout?: number
+  ) {}
+
+  /**
+   * Add a middleware, run in the order added
+   */
+  use(middleware: BusMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  unregister(type: string): void {
+    this.handlers.delete(type);
+  }
+
+  protected add(type: string, handler: H): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler is already registered for ${this.kind} ${type}`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Run a message through the middleware, then through its handler, within its context
+   */
+  protected dispatch(message: BusMessage, invoke: (handler: H, message: BusMessage) => Promise<any>): Promise<any> {
+    if (!message || typeof message.type !== 'string') {
+      return Promise.reject(new Error(`A ${this.kind} needs a type`));
+    }
+    const handler = this.handlers.get(message.type);
+    if (!handler) {
+      return Promise.reject(new Error(`No handler registered for ${this.kind} ${message.type}`));
+    }
+
+    const context = this.createContext(message);
+    const run = (index: number, current: BusMessage): Promise<any> => {
+      if (index < this.middleware.length) {
+        return this.middleware[index](current, context, next => run(index + 1, next || current));
+      }
+      return this.withTimeout(current, invoke(handler, current));
+    };
+
+    return contexts.run(context, () => run(0, message));
+  }
+
+  private createContext(message: BusMessage): MessageContext {
+    const metadata = message.metadata || {};
+    const parent = contexts.getStore();
+    const messageId = metadata.messageId || randomUUID();
+
+    return {
+      messageId,
+      kind: this.kind,
+      type: message.type,
+      correlationId: metadata.correlationId || parent?.correlationId || messageId,
+      causationId: metadata.causationId || parent?.messageId,
+      userId: metadata.userId || parent?.userId,
+      metadata,
+      timestamp: new Date()
+    };
+  }
+
+  private withTimeout<T>(message: BusMessage, result: Promise<T>): Promise<T> {
+    if (!this.timeout) {
+      return result;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${this.kind === 'command' ? 'Command' : 'Query'} ${message.type} timed out after ${this.timeout} ms`)),
+        this.timeout
+      );
+    });
+    return Promise.race([result, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+/**
+ * Command bus sending each command to its one handler. The events a handler returns get
+ * the correlation metadata of the command and are published when a `publish` function is set.
+ */
+export class CommandBus extends MessageBus<CommandHandlerInterface> implements CommandBusInterface {
+  constructor(private readonly options: CommandBusOptions = {}) {
+    super('command', options.timeout);
+  }
+
+  /**
+   * Send a command. Resolves once its handler ran and its events are published.
+   */
+  async send(command: BusMessage): Promise<void> {
+    await this.execute(command);
+  }
+
+  /**
+   * Send a command and get the events of its handler
+   */
+  execute(command: BusMessage): Promise<EventInterface[]> {
+    return this.dispatch(command, async (handler, message) => {
+      const events = ((await handler.handle(message)) || []).map(event => ({
+        ...event,
+        metadata: { ...messageMetadata(), ...event.metadata }
+      }));
+
+      if (this.options.publish) {
+        for (const event of events) {
+          await this.options.publish(event);
+        }
+      }
+      return events;
+    });
+  }
+
+  /**
+   * Register the handler of a command type: a handler object or a function
+   */
+  register(commandType: string, handler: CommandHandlerInterface | CommandHandlerFunction): void {
+    this.add(commandType, typeof handler === 'function'
+      ? { handle: async command => (await handler(command)) || [], getSupportedCommands: () => [commandType] }
+      : handler);
+  }
+
+  /**
+   * Register a handler object for every command it supports
+   */
+  registerHandler(handler: CommandHandlerInterface): void {
+    for (const commandType of handler.getSupportedCommands()) {
+      this.register(commandType, handler);
+    }
+  }
+
+  getHandlers(): Map<string, CommandHandlerInterface> {
+    return new Map(this.handlers);
+  }
+}
+
+/**
+ * Query bus sending each query to its one handler and returning its result
+ */
+export class QueryBus extends MessageBus<QueryHandlerInterface> implements QueryBusInterface {
+  constructor(options: MessageBusOptions = {}) {
+    super('query', options.timeout);
+  }
+
+  execute<T>(query: BusMessage): Promise<T> {
+    return this.dispatch(query, (handler, message) => handler.handle(message));
+  }
+
+  /**
+   * Register the handler of a query type: a handler object or a function
+   */
+  register(queryType: string, handler: QueryHandlerInterface | QueryHandlerFunction): void {
+    this.add(queryType, typeof handler === 'function'
+      ? { handle: handler, getSupportedQueries: () => [queryType] }
+      : handler);
+  }
+
+  /**
+   * Register a handler object for every query it supports
+   */
+  registerHandler(handler: QueryHandlerInterface): void {
+    for (const queryType of handler.getSupportedQueries()) {
+      this.register(queryType, handler);
+    }
+  }
+
+  getHandlers(): Map<string, QueryHandlerInterface> {
+    return new Map(this.handlers);
+  }
+}
+
+/**
+ * Command handler function, returning the events the command produced
+ */
+export type CommandHandlerFunction = (command: BusMessage) => Promise<EventInterface[] | void>;
+
+/**
+ * Query handler function
+ */
+export type QueryHandlerFunction = (query: BusMessage) => Promise<any>;
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Validation, logging and authorization middleware for the command and query buses
+ * @module tsfox/core/features/events/core
+ */
+
+import { HttpError } from '../../../error.enhanced';
+import { ILogger } from '../../../logging/interfaces';
+import { ValidationError } from '../../validation/errors/validation.errors';
+import { SchemaInterface } from '../../validation/interfaces/validation.interface';
+import { BusMessage, BusMiddleware, MessageContext } from './message.bus';
+
+/**
+ * Validate the data of messages against the schema of their type. Messages of other types
+ * pass; invalid ones are rejected with a `ValidationError` and valid ones continue with
+ * the data returned by the schema.
+ */
+export function validateMessages(schemas: Record<string, SchemaInterface>): BusMiddleware {
+  return async (message, context, next) => {
+    const schema = schemas[message.type];
+    if (!schema) {
+      return next();
+    }
+
+    const result = schema.validate(message.data);
+    if (!result.success) {
+      throw new ValidationError(`Invalid ${context.kind} ${message.type}`, result.errors || []);
+    }
+    return next({ ...message, data: result.data });
+  };
+}
+
+/**
+ * Log each message with its outcome and duration, without its data
+ */
+export function logMessages(logger: ILogger): BusMiddleware {
+  return async (message, context, next) => {
+    const started = Date.now();
+    const details = {
+      messageId: context.messageId,
+      correlationId: context.correlationId,
+      causationId: context.causationId,
+      userId: context.userId
+    };
+
+    try {
+      const result = await next();
+      logger.info(`Handled ${context.kind} ${message.type}`, { ...details, duration: Date.now() - started });
+      return result;
+    } catch (error) {
+      logger.error(`Failed ${context.kind} ${message.type}`, { ...details, duration: Date.now() - started }, error as Error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Reject the messages the check refuses with a 403 `HttpError`
+ */
+export function authorizeMessages(
+  check: (message: BusMessage, context: MessageContext) => boolean | Promise<boolean>
+): BusMiddleware {
+  return async (message, context, next) => {
+    if (!(await check(message, context))) {
+      throw HttpError.forbidden(`Not allowed to send ${context.kind} ${message.type}`);
+    }
+    return next();
+  };
+}
@@ -0,0 +1,446 @@
+/**
+ * @fileoverview Base of the durable event stores: concurrency checks, global positions and subscriptions
+ * @module tsfox/core/features/events/core
+ */
+
+import {
+  EventInterface,
+  EventHandler,
+  EventStoreStats,
+  EventStoreTransaction,
+  Snapshot,
+  StreamMetadata,
+  Subscription,
+  TransactionalEventStoreInterface
+} from '../interfaces';
+
+/**
+ * Raised when the version a stream was expected to have is not its current version
+ */
+export class ConcurrencyError extends Error {
+  constructor(
+    public readonly streamId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`Expected version ${expectedVersion} of stream ${streamId}, but current version is ${actualVersion}`);
+    this.name = 'ConcurrencyError';
+  }
+}
+
+/**
+ * Raised when reading the metadata of a stream that does not exist
+ */
+export class StreamNotFoundError extends Error {
+  constructor(public readonly streamId: string) {
+    super(`Stream ${streamId} not found`);
+    this.name = 'StreamNotFoundError';
+  }
+}
+
+/**
+ * Events to append to one stream
+ */
+export interface StreamAppend {
+  streamId: string;
+  events: EventInterface[];
+
+  /** Version the stream must have, -1 for a stream that does not exist yet */
+  expectedVersion?: number;
+}
+
+/** Events read per batch when catching up a subscription */
+const SUBSCRIPTION_BATCH = 500;
+
+interface StoreSubscription {
+  handler: EventHandler;
+
+  /** Position of the last event delivered */
+  position: number;
+
+  active: boolean;
+  running: boolean;
+  pending: boolean;
+}
+
+/**
+ * Subscriptions to the log of a store. Each subscription gets the events after its
+ * position in order, one at a time, whether they were appended before it started or after.
+ * When a handler throws, the subscription stops at that event and retries it on the next append.
+ */
+export class EventStoreSubscriptions {
+  private subscriptions = new Map<string, StoreSubscription>();
+
+  constructor(
+    private readonly readAll: (fromPosition: number, maxCount: number) => Promise<EventInterface[]>,
+    private readonly lastPosition: () => Promise<number>
+  ) {}
+
+  /**
+   * Subscribe to the events after a position, or to new events only
+   */
+  async subscribe(handler: EventHandler, fromPosition?: number): Promise<Subscription> {
+    const id = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const subscription: StoreSubscription = {
+      handler,
+      position: fromPosition !== undefined ? fromPosition : await this.lastPosition(),
+      active: true,
+      running: false,
+      pending: false
+    };
+    this.subscriptions.set(id, subscription);
+    void this.deliver(subscription);
+
+    return {
+      id,
+      eventType: '*',
+      handler,
+      options: {
+        fromPosition,
+        maxConcurrency: 1,
+        deadLetterQueue: false
+      },
+      unsubscribe: async () => {
+        subscription.active = false;
+        this.subscriptions.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Deliver new events to every subscription
+   */
+  notify(): void {
+    for (const subscription of this.subscriptions.values()) {
+      void this.deliver(subscription);
+    }
+  }
+
+  /**
+   * Stop every subscription
+   */
+  clear(): void {
+    for (const subscription of this.subscriptions.values()) {
+      subscription.active = false;
+    }
+    this.subscriptions.clear();
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  private async deliver(subscription: StoreSubscription): Promise<void> {
+    if (subscription.running) {
+      subscription.pending = true;
+      return;
+    }
+
+    subscription.running = true;
+    try {
+      do {
+        subscription.pending = false;
+        const events = await this.readAll(subscription.position, SUBSCRIPTION_BATCH);
+        for (const event of events) {
+          if (!subscription.active) {
+            return;
+          }
+          await subscription.handler(event);
+          subscription.position = event.position!;
+        }
+        subscription.pending = subscription.pending || events.length === SUBSCRIPTION_BATCH;
+      } while (subscription.pending && subscription.active);
+    } catch (error) {
+      console.error('Event store subscription error:', error);
+    } finally {
+      subscription.running = false;
+    }
+  }
+}
+
+/**
+ * Base of the event stores keeping their events outside the process.
+ *
+ * Stream versions count the events of a stream (the first event has version 1, a stream
+ * that does not exist has version -1) and every event gets a global position in the log
+ * of all events, starting at 1. `read(streamId, fromVersion)` returns the events after
+ * `fromVersion` and `readAll(fromPosition)` the events after `fromPosition`, so the
+ * version or position of the last event seen is where to resume from.
+ */
+export abstract class PersistentEventStore implements TransactionalEventStoreInterface {
+  protected readonly subscriptions: EventStoreSubscriptions;
+  private opening?: Promise<void>;
+  private writes: Promise<unknown> = Promise.resolve();
+  private counters = { reads: 0, writes: 0, since: Date.now() };
+
+  constructor() {
+    this.subscriptions = new EventStoreSubscriptions(
+      (fromPosition, maxCount) => this.readAll(fromPosition, maxCount),
+      () => this.getLastPosition()
+    );
+  }
+
+  /**
+   * Open the storage. Operations open it on first use.
+   */
+  open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.initialize().catch(error => {
+        this.opening = undefined;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  /**
+   * Stop the subscriptions and close the storage
+   */
+  async close(): Promise<void> {
+    this.subscriptions.clear();
+    if (this.opening) {
+      await this.opening.catch(() => undefined);
+      this.opening = undefined;
+      await this.shutdown();
+    }
+  }
+
+  /**
+   * Append events to a stream. With an `expectedVersion` the append fails with a
+   * `ConcurrencyError` unless the stream is at that version.
+   */
+  async append(streamId: string, events: EventInterface[], expectedVersion?: number): Promise<void> {
+    await this.commit([{ streamId, events, expectedVersion }]);
+  }
+
+  /**
+   * Append events to several streams at once: all of them are written or none
+   */
+  async commit(appends: StreamAppend[]): Promise<void> {
+    await this.open();
+    await this.write(() => this.writeAppends(appends));
+    this.counters.writes++;
+    this.subscriptions.notify();
+  }
+
+  async read(streamId: string, fromVersion?: number, maxCount?: number): Promise<EventInterface[]> {
+    await this.open();
+    this.counters.reads++;
+    return this.readStream(streamId, fromVersion || 0, maxCount);
+  }
+
+  async readAll(fromPosition?: number, maxCount?: number): Promise<EventInterface[]> {
+    await this.open();
+    this.counters.reads++;
+    return this.readLog(fromPosition || 0, maxCount);
+  }
+
+  /**
+   * Subscribe to the events after `fromPosition`, or to new events only without one
+   */
+  async subscribe(handler: EventHandler, fromPosition?: number): Promise<Subscription> {
+    await this.open();
+    return this.subscriptions.subscribe(handler, fromPosition);
+  }
+
+  async getStreamMetadata(streamId: string): Promise<StreamMetadata> {
+    await this.open();
+    const metadata = await this.findStream(streamId);
+    if (!metadata) {
+      throw new StreamNotFoundError(streamId);
+    }
+    return metadata;
+  }
+
+  /**
+   * Set the metadata of a stream. Its version is kept: only appends change it.
+   */
+  async setStreamMetadata(streamId: string, metadata: StreamMetadata): Promise<void> {
+    await this.open();
+    await this.write(async () => {
+      const current = await this.findStream(streamId);
+      await this.writeStream({
+        ...metadata,
+        streamId,
+        version: current ? current.version : -1,
+        created: current ? current.created : metadata.created || new Date()
+      });
+    });
+  }
+
+  /**
+   * Delete a stream: a soft delete marks it deleted, a hard delete removes its events and snapshots
+   */
+  async deleteStream(streamId: string, hardDelete?: boolean): Promise<void> {
+    await this.open();
+    await this.write(async () => {
+      const current = await this.findStream(streamId);
+      if (hardDelete) {
+        await this.removeStream(streamId);
+      } else if (current) {
+        await this.writeStream({ ...current, status: 'deleted', lastUpdated: new Date() });
+      }
+    });
+  }
+
+  /**
+   * Position of the last event appended, 0 when the store is empty
+   */
+  async getLastPosition(): Promise<number> {
+    await this.open();
+    return this.lastPosition();
+  }
+
+  async getStats(): Promise<EventStoreStats> {
+    await this.open();
+    const { totalStreams, totalEvents, storageSize } = await this.countStorage();
+    const seconds = Math.max((Date.now() - this.counters.since) / 1000, 1);
+
+    return {
+      totalStreams,
+      totalEvents,
+      storageSize,
+      activeSubscriptions: this.subscriptions.size,
+      averageEventsPerStream: totalStreams > 0 ? totalEvents / totalStreams : 0,
+      readsPerSecond: this.counters.reads / seconds,
+      writesPerSecond: this.counters.writes / seconds
+    };
+  }
+
+  async createSnapshot(streamId: string, version: number, data: any): Promise<void> {
+    await this.open();
+    await this.write(() => this.writeSnapshot({ streamId, version, data, timestamp: new Date() }));
+  }
+
+  async getSnapshot(streamId: string): Promise<Snapshot | null> {
+    await this.open();
+    return this.findSnapshot(streamId);
+  }
+
+  /**
+   * Clean up old events (no retention policy is applied: events are kept)
+   */
+  async cleanup(): Promise<void> {
+    await this.open();
+  }
+
+  async beginTransaction(): Promise<EventStoreTransaction> {
+    return new PersistentTransaction(`tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, this);
+  }
+
+  async withTransaction<T>(operation: (tx: EventStoreTransaction) => Promise<T>): Promise<T> {
+    const transaction = await this.beginTransaction();
+
+    try {
+      const result = await operation(transaction);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Check the expected version of an append against the current version of its stream
+   */
+  protected checkVersion(append: StreamAppend, currentVersion: number): void {
+    if (append.expectedVersion !== undefined && append.expectedVersion !== currentVersion) {
+      throw new ConcurrencyError(append.streamId, append.expectedVersion, currentVersion);
+    }
+  }
+
+  /**
+   * Copy of an event with its place in its stream and in the log
+   */
+  protected stamp(event: EventInterface, version: number, position: number): EventInterface {
+    return {
+      ...event,
+      version,
+      position,
+      metadata: event.metadata || { source: 'event-store' }
+    };
+  }
+
+  /**
+   * Run writes one at a time, so versions and positions are assigned in order
+   */
+  private write<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+
+  /** Open the storage, creating it if needed */
+  protected abstract initialize(): Promise<void>;
+
+  /** Release the storage */
+  protected abstract shutdown(): Promise<void>;
+
+  /** Check versions and write the events of the appends atomically */
+  protected abstract writeAppends(appends: StreamAppend[]): Promise<void>;
+
+  /** Events of a stream after a version */
+  protected abstract readStream(streamId: string, fromVersion: number, maxCount?: number): Promise<EventInterface[]>;
+
+  /** Events of the log after a position */
+  protected abstract readLog(fromPosition: number, maxCount?: number): Promise<EventInterface[]>;
+
+  /** Position of the last event of the log, 0 when it is empty */
+  protected abstract lastPosition(): Promise<number>;
+
+  protected abstract findStream(streamId: string): Promise<StreamMetadata | null>;
+
+  protected abstract writeStream(metadata: StreamMetadata): Promise<void>;
+
+  protected abstract removeStream(streamId: string): Promise<void>;
+
+  protected abstract writeSnapshot(snapshot: Snapshot): Promise<void>;
+
+  protected abstract findSnapshot(streamId: string): Promise<Snapshot | null>;
+
+  protected abstract countStorage(): Promise<{ totalStreams: number; totalEvents: number; storageSize: number }>;
+}
+
+/**
+ * Transaction collecting appends and committing them in one atomic write
+ */
+class PersistentTransaction implements EventStoreTransaction {
+  private appends: StreamAppend[] = [];
+  private _status: 'pending' | 'committed' | 'rolled-back' = 'pending';
+
+  constructor(
+    readonly id: string,
+    private readonly store: PersistentEventStore
+  ) {}
+
+  get status(): 'pending' | 'committed' | 'rolled-back' {
+    return this._status;
+  }
+
+  append(streamId: string, events: EventInterface[], expectedVersion?: number): void {
+    if (this._status !== 'pending') {
+      throw new Error('Transaction is not pending');
+    }
+    this.appends.push({ streamId, events, expectedVersion });
+  }
+
+  async commit(): Promise<void> {
+    if (this._status !== 'pending') {
+      throw new Error('Transaction is not pending');
+    }
+
+    try {
+      await this.store.commit(this.appends);
+      this._status = 'committed';
+    } catch (error) {
+      this._status = 'rolled-back';
+      throw error;
+    }
+  }
+
+  async rollback(): Promise<void> {
+    this._status = 'rolled-back';
+  }
+}
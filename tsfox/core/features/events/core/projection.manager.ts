@@ -0,0 +1,504 @@
+/**
+ * @fileoverview Projection manager: runs projections over the event store and keeps their checkpoints
+ * @module tsfox/core/features/events/core
+ */
+
+import {
+  EventInterface,
+  EventProjection,
+  EventStoreInterface,
+  ProjectionManagerInterface,
+  ProjectionMetadata,
+  Subscription
+} from '../interfaces';
+import { StreamNotFoundError } from './persistent.event.store';
+
+/**
+ * Saved progress of a projection
+ */
+export interface ProjectionCheckpoint {
+  name: string;
+
+  /** Version of the projection that wrote the checkpoint */
+  version: number;
+
+  /** Position of the last event applied */
+  position: number;
+
+  /** State of the projection at that position */
+  state?: any;
+
+  timestamp: Date;
+}
+
+/**
+ * Storage of projection checkpoints
+ */
+export interface ProjectionCheckpointStore {
+  load(name: string): Promise<ProjectionCheckpoint | null>;
+  save(checkpoint: ProjectionCheckpoint): Promise<void>;
+}
+
+/**
+ * Keeps each checkpoint in the metadata of a stream of the event store (`$projection-<name>`),
+ * so a durable store keeps the checkpoints with the events. Checkpoints are stored as JSON:
+ * the state of a projection is only restored if it survives `JSON.stringify`.
+ */
+export class StreamCheckpointStore implements ProjectionCheckpointStore {
+  constructor(
+    private readonly store: EventStoreInterface,
+    private readonly prefix = '$projection-'
+  ) {}
+
+  async load(name: string): Promise<ProjectionCheckpoint | null> {
+    const streamId = this.prefix + name;
+    try {
+      const checkpoint = (await this.store.getStreamMetadata(streamId)).metadata?.checkpoint;
+      return checkpoint ? { ...checkpoint, timestamp: new Date(checkpoint.timestamp) } : null;
+    } catch (error) {
+      if (error instanceof StreamNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: ProjectionCheckpoint): Promise<void> {
+    const streamId = this.prefix + checkpoint.name;
+    await this.store.setStreamMetadata(streamId, {
+      streamId,
+      version: -1,
+      created: new Date(),
+      lastUpdated: checkpoint.timestamp,
+      status: 'active',
+      metadata: { checkpoint: JSON.parse(JSON.stringify(checkpoint)) }
+    });
+  }
+}
+
+/**
+ * Options of the projection manager
+ */
+export interface ProjectionManagerOptions {
+  /** Where checkpoints are kept (default the stream metadata of the event store) */
+  checkpoints?: ProjectionCheckpointStore;
+
+  /** Events read per batch while catching up (default 500) */
+  batchSize?: number;
+
+  /** Events applied between two checkpoints (default 100); a stopped projection always saves one */
+  checkpointInterval?: number;
+
+  /** Milliseconds without new events after which the applied events are checkpointed (default 1000) */
+  checkpointIdleTime?: number;
+}
+
+/**
+ * Runs projections over the log of an event store.
+ *
+ * A started projection first catches up with the events after its checkpoint, then
+ * follows new events through a store subscription, applying the events of its types one
+ * at a time. A checkpoint with a different projection version is discarded and the
+ * projection is rebuilt from position zero. When `project` throws, the projection stops
+ * at that event with status `error`; restarting it retries the event. Checkpoints are
+ * saved every `checkpointInterval` events, once no event came for `checkpointIdleTime`
+ * and on stop, so events may be applied again after a crash, up to `checkpointInterval` of them.
+ */
+export class ProjectionManager implements ProjectionManagerInterface {
+  private readonly options: Required<Omit<ProjectionManagerOptions, 'checkpoints'>>;
+  private readonly checkpoints: ProjectionCheckpointStore;
+  private projections = new Map<string, RegisteredProjection>();
+
+  constructor(
+    private readonly store: EventStoreInterface,
+    options: ProjectionManagerOptions = {}
+  ) {
+    this.checkpoints = options.checkpoints || new StreamCheckpointStore(store);
+    this.options = {
+      batchSize: options.batchSize || 500,
+      checkpointInterval: options.checkpointInterval || 100,
+      checkpointIdleTime: options.checkpointIdleTime ?? 1000
+    };
+  }
+
+  /**
+   * Register a projection, restoring its checkpoint. It runs once started.
+   */
+  async register(projection: EventProjection): Promise<void> {
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection ${projection.name} is already registered`);
+    }
+
+    const checkpoint = await this.checkpoints.load(projection.name);
+    const entry: RegisteredProjection = {
+      projection,
+      state: projection.initialize(),
+      metadata: {
+        name: projection.name,
+        version: projection.version,
+        position: 0,
+        lastUpdated: new Date(),
+        status: 'stopped',
+        stats: { eventsProcessed: 0, eventsPerSecond: 0, averageProcessingTime: 0 }
+      },
+      active: false,
+      generation: 0,
+      unsaved: 0,
+      processingTime: 0,
+      startedAt: Date.now()
+    };
+
+    if (checkpoint && checkpoint.version === projection.version) {
+      entry.state = checkpoint.state !== undefined ? checkpoint.state : entry.state;
+      entry.metadata.position = checkpoint.position;
+      entry.metadata.lastUpdated = checkpoint.timestamp;
+    } else if (checkpoint) {
+      await projection.reset();
+      entry.state = projection.initialize();
+    }
+
+    this.projections.set(projection.name, entry);
+  }
+
+  /**
+   * Stop a projection and forget it. Its checkpoint is kept.
+   */
+  async unregister(projectionName: string): Promise<void> {
+    await this.stop(projectionName);
+    this.projections.delete(projectionName);
+  }
+
+  /**
+   * Catch up with the events after the checkpoint, then follow new events
+   */
+  async start(projectionName: string): Promise<void> {
+    const entry = this.get(projectionName);
+    if (entry.active) {
+      return;
+    }
+
+    const generation = ++entry.generation;
+    entry.active = true;
+    entry.startedAt = Date.now();
+    entry.metadata.error = undefined;
+    if (entry.metadata.status !== 'rebuilding') {
+      entry.metadata.status = 'running';
+    }
+
+    entry.catchingUp = this.catchUp(entry, generation);
+    const caughtUp = await entry.catchingUp;
+    entry.catchingUp = undefined;
+    if (!caughtUp || generation !== entry.generation) {
+      return;
+    }
+
+    const subscription = await this.store.subscribe(async event => {
+      if (generation === entry.generation) {
+        entry.processing = this.process(entry, event);
+        await entry.processing;
+      }
+    }, entry.metadata.position);
+
+    if (generation !== entry.generation) {
+      await subscription.unsubscribe();
+      return;
+    }
+    entry.subscription = subscription;
+    entry.metadata.status = 'running';
+  }
+
+  /**
+   * Pause a projection after the event it is applying and save its checkpoint
+   */
+  async stop(projectionName: string): Promise<void> {
+    const entry = this.get(projectionName);
+    if (!entry.active) {
+      return;
+    }
+
+    entry.active = false;
+    entry.generation++;
+    await entry.catchingUp;
+    await this.unsubscribe(entry);
+    await entry.processing;
+    entry.metadata.status = 'stopped';
+    await this.save(entry);
+  }
+
+  async restart(projectionName: string): Promise<void> {
+    await this.stop(projectionName);
+    await this.start(projectionName);
+  }
+
+  /**
+   * Reset a projection and apply every event again. Resolves once it has caught up.
+   */
+  async rebuild(projectionName: string): Promise<void> {
+    await this.reset(projectionName);
+    this.get(projectionName).metadata.status = 'rebuilding';
+    await this.start(projectionName);
+  }
+
+  /**
+   * Stop a projection and bring it back to position zero with its initial state
+   */
+  async reset(projectionName: string): Promise<void> {
+    await this.stop(projectionName);
+
+    const entry = this.get(projectionName);
+    await entry.projection.reset();
+    entry.state = entry.projection.initialize();
+    entry.processingTime = 0;
+    entry.metadata = {
+      ...entry.metadata,
+      position: 0,
+      lastUpdated: new Date(),
+      status: 'stopped',
+      error: undefined,
+      stats: { eventsProcessed: 0, eventsPerSecond: 0, averageProcessingTime: 0 }
+    };
+    await this.save(entry);
+  }
+
+  /**
+   * Status of a projection, with its lag: the number of positions of the store after its own
+   */
+  async getStatus(projectionName: string): Promise<ProjectionMetadata> {
+    const entry = this.get(projectionName);
+    const seconds = Math.max((Date.now() - entry.startedAt) / 1000, 1);
+
+    return {
+      ...entry.metadata,
+      stats: {
+        ...entry.metadata.stats,
+        eventsPerSecond: entry.active ? entry.metadata.stats.eventsProcessed / seconds : 0,
+        lag: Math.max(await this.store.getLastPosition() - entry.metadata.position, 0)
+      }
+    };
+  }
+
+  async getAll(): Promise<ProjectionMetadata[]> {
+    return Promise.all([...this.projections.keys()].map(name => this.getStatus(name)));
+  }
+
+  /**
+   * Current state of a projection
+   */
+  getState<T = any>(projectionName: string): T {
+    return this.get(projectionName).state;
+  }
+
+  /**
+   * Stop every projection
+   */
+  async close(): Promise<void> {
+    for (const name of this.projections.keys()) {
+      await this.stop(name);
+    }
+  }
+
+  /**
+   * Apply the events after the position of a projection, batch by batch.
+   * Resolves to false when the projection stopped or failed before the end of the log.
+   */
+  private async catchUp(entry: RegisteredProjection, generation: number): Promise<boolean> {
+    while (generation === entry.generation) {
+      const position = entry.metadata.position;
+      const events = await this.store.readAll(position, this.options.batchSize);
+      for (const event of events) {
+        if (generation !== entry.generation || !(await this.process(entry, event))) {
+          return false;
+        }
+      }
+      if (events.length === 0 || entry.metadata.position === position) {
+        return generation === entry.generation;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Apply one event. Resolves to false when the projection failed on it.
+   */
+  private async process(entry: RegisteredProjection, event: EventInterface): Promise<boolean> {
+    const { projection, metadata } = entry;
+    if (event.position !== undefined && event.position <= metadata.position) {
+      return true;
+    }
+
+    const handled = projection.eventTypes.includes('*') || projection.eventTypes.includes(event.type);
+    if (handled) {
+      const started = Date.now();
+      try {
+        entry.state = await projection.project(event, entry.state);
+      } catch (error) {
+        await this.fail(entry, error, event);
+        return false;
+      }
+
+      entry.processingTime += Date.now() - started;
+      metadata.stats.eventsProcessed++;
+      metadata.stats.averageProcessingTime = entry.processingTime / metadata.stats.eventsProcessed;
+      metadata.stats.lastEventTimestamp = event.timestamp;
+      entry.unsaved++;
+    }
+
+    metadata.position = event.position !== undefined ? event.position : metadata.position + 1;
+    metadata.lastUpdated = new Date();
+
+    if (entry.unsaved >= this.options.checkpointInterval) {
+      try {
+        await this.save(entry);
+      } catch (error) {
+        await this.fail(entry, error, event);
+        return false;
+      }
+    } else if (entry.unsaved > 0) {
+      this.saveWhenIdle(entry);
+    }
+    return true;
+  }
+
+  /**
+   * Save the checkpoint unless another event comes within the idle time
+   */
+  private saveWhenIdle(entry: RegisteredProjection): void {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = undefined;
+      if (entry.active && entry.unsaved > 0) {
+        this.save(entry).catch(error => console.error(`Projection ${entry.projection.name} checkpoint error:`, error));
+      }
+    }, this.options.checkpointIdleTime);
+    entry.idleTimer.unref();
+  }
+
+  /**
+   * Stop a projection on the event it failed on
+   */
+  private async fail(entry: RegisteredProjection, error: unknown, event: EventInterface): Promise<void> {
+    console.error(`Projection ${entry.projection.name} failed:`, error);
+
+    entry.active = false;
+    entry.generation++;
+    entry.metadata.status = 'error';
+    entry.metadata.error = {
+      message: error instanceof Error ? error.message : String(error),
+      timestamp: new Date(),
+      event
+    };
+    await this.unsubscribe(entry);
+  }
+
+  private async unsubscribe(entry: RegisteredProjection): Promise<void> {
+    const subscription = entry.subscription;
+    entry.subscription = undefined;
+    await subscription?.unsubscribe();
+  }
+
+  /**
+   * Save the checkpoint of the events applied so far, after the saves in progress
+   */
+  private save(entry: RegisteredProjection): Promise<void> {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+    entry.unsaved = 0;
+    const checkpoint: ProjectionCheckpoint = {
+      name: entry.projection.name,
+      version: entry.projection.version,
+      position: entry.metadata.position,
+      state: entry.state,
+      timestamp: entry.metadata.lastUpdated
+    };
+
+    const saving = (entry.saving || Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.checkpoints.save(checkpoint));
+    entry.saving = saving;
+    return saving;
+  }
+
+  private get(projectionName: string): RegisteredProjection {
+    const entry = this.projections.get(projectionName);
+    if (!entry) {
+      throw new Error(`Projection ${projectionName} is not registered`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Definition of a projection built by `defineProjection`
+ */
+export interface ProjectionDefinition<S = any> {
+  name: string;
+
+  /** Changing the version rebuilds the projection (default 1) */
+  version?: number;
+
+  /** Initial state */
+  initialize?: () => S;
+
+  /** Handlers by event type ('*' for every type). A handler returning nothing keeps the state. */
+  handlers: Record<string, (event: EventInterface, state: S) => S | void | Promise<S | void>>;
+
+  /** Clear what the projection wrote outside its state, such as read models */
+  reset?: () => Promise<void>;
+}
+
+/**
+ * Build a projection from handlers by event type
+ */
+export function defineProjection<S = any>(definition: ProjectionDefinition<S>): EventProjection {
+  const version = definition.version || 1;
+
+  return {
+    name: definition.name,
+    version,
+    eventTypes: Object.keys(definition.handlers),
+    initialize: () => (definition.initialize ? definition.initialize() : undefined),
+    project: async (event: EventInterface, state: S) => {
+      const handler = definition.handlers[event.type] || definition.handlers['*'];
+      const next = await handler(event, state);
+      return next === undefined ? state : next;
+    },
+    reset: async () => {
+      await definition.reset?.();
+    },
+    getMetadata: () => ({
+      name: definition.name,
+      version,
+      position: 0,
+      lastUpdated: new Date(),
+      status: 'stopped',
+      stats: { eventsProcessed: 0, eventsPerSecond: 0, averageProcessingTime: 0 }
+    })
+  };
+}
+
+interface RegisteredProjection {
+  projection: EventProjection;
+  state: any;
+  metadata: ProjectionMetadata;
+  active: boolean;
+
+  /** Incremented on every start and stop, so work of an earlier run is dropped */
+  generation: number;
+
+  /** Events applied since the last checkpoint */
+  unsaved: number;
+
+  /** Checkpoint saved once no event comes for the idle time */
+  idleTimer?: NodeJS.Timeout;
+
+  /** Last checkpoint save, so saves land in order */
+  saving?: Promise<void>;
+
+  /** Total time spent in `project`, in milliseconds */
+  processingTime: number;
+
+  startedAt: number;
+  subscription?: Subscription;
+  catchingUp?: Promise<boolean>;
+  processing?: Promise<boolean>;
+}
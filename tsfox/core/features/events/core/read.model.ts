@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Read models for projections and the HTTP routes querying them
+ * @module tsfox/core/features/events/core
+ */
+
+import { NextFunction, Request, Response, Router } from 'express';
+import { ReadModelInterface } from '../interfaces';
+
+/**
+ * Criteria of a read model query: field values to match, or a predicate
+ */
+export type ReadModelCriteria<T> = Partial<Record<keyof T, unknown>> | ((model: T) => boolean);
+
+/**
+ * Read model keeping its models in memory, by the value of their id field.
+ *
+ * A criterion given as a string also matches the string form of a field, so values
+ * taken from a query string match numeric and boolean fields.
+ */
+export class MemoryReadModel<T extends Record<string, any> = any> implements ReadModelInterface<T> {
+  private models = new Map<string, T>();
+
+  constructor(private readonly idField: string = 'id') {}
+
+  async findById(id: string): Promise<T | null> {
+    const model = this.models.get(String(id));
+    return model ? { ...model } : null;
+  }
+
+  async find(criteria?: ReadModelCriteria<T>): Promise<T[]> {
+    const models: T[] = [];
+    for (const model of this.models.values()) {
+      if (matches(model, criteria)) {
+        models.push({ ...model });
+      }
+    }
+    return models;
+  }
+
+  async save(model: T): Promise<void> {
+    const id = model[this.idField];
+    if (id === undefined || id === null) {
+      throw new Error(`Read model is missing its ${this.idField} field`);
+    }
+    this.models.set(String(id), { ...model });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.models.delete(String(id));
+  }
+
+  async count(criteria?: ReadModelCriteria<T>): Promise<number> {
+    return (await this.find(criteria)).length;
+  }
+
+  async clear(): Promise<void> {
+    this.models.clear();
+  }
+}
+
+/**
+ * Options of the read model routes
+ */
+export interface ReadModelRouterOptions {
+  /** Query parameters used as criteria; all of them except `limit` and `offset` when omitted */
+  filters?: string[];
+
+  /** Largest page returned by the list route (default 100) */
+  maxLimit?: number;
+}
+
+/**
+ * Routes querying a read model: `GET /` lists the models matching the query string,
+ * paged with `limit` and `offset`, and `GET /:id` returns one model or a 404.
+ */
+export function readModelRouter(readModel: ReadModelInterface, options: ReadModelRouterOptions = {}): Router {
+  const router = Router();
+  const maxLimit = options.maxLimit || 100;
+
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const criteria: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(req.query)) {
+        const allowed = options.filters ? options.filters.includes(key) : key !== 'limit' && key !== 'offset';
+        if (allowed) {
+          criteria[key] = value;
+        }
+      }
+
+      const limit = Math.min(parseCount(req.query.limit, maxLimit), maxLimit);
+      const offset = parseCount(req.query.offset, 0);
+      const models = await readModel.find(criteria);
+
+      res.json({ data: models.slice(offset, offset + limit), total: models.length, limit, offset });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const model = await readModel.findById(req.params.id);
+      if (!model) {
+        res.status(404).json({ error: 'Not found' });
+        return;
+      }
+      res.json(model);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+function matches<T extends Record<string, any>>(model: T, criteria?: ReadModelCriteria<T>): boolean {
+  if (!criteria) {
+    return true;
+  }
+  if (typeof criteria === 'function') {
+    return criteria(model);
+  }
+  return Object.entries(criteria).every(([field, expected]) => {
+    const value = model[field];
+    return value === expected || (typeof expected === 'string' && value !== undefined && value !== null && String(value) === expected);
+  });
+}
+
+function parseCount(value: unknown, fallback: number): number {
+  const count = Number.parseInt(String(value), 10);
+  return Number.isFinite(count) && count >= 0 ? count : fallback;
+}
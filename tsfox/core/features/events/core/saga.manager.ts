@@ -0,0 +1,579 @@
+/**
+ * @fileoverview Sagas: long-running processes reacting to events and dispatching commands
+ * @module tsfox/core/features/events/core
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import {
+  EventInterface,
+  SagaCommand,
+  SagaInterface,
+  SagaManagerInterface,
+  SagaStats
+} from '../interfaces';
+
+export type SagaStatus = SagaInterface['status'];
+
+/**
+ * Saved state of a saga
+ */
+export interface SagaRecord {
+  id: string;
+  type: string;
+  status: SagaStatus;
+  state: any;
+
+  /** Correlation ID of the events of the saga and of the commands it sends */
+  correlationId: string;
+
+  startedAt: Date;
+  updatedAt: Date;
+
+  /** Time after which an unfinished saga fails and is compensated */
+  deadline?: Date;
+
+  completedAt?: Date;
+  error?: string;
+
+  /** Compensating commands that still failed after their last attempt */
+  failedCompensations?: FailedCompensation[];
+}
+
+/**
+ * Compensating command the manager gave up dispatching
+ */
+export interface FailedCompensation {
+  command: SagaCommand;
+  error: string;
+  attempts: number;
+}
+
+/**
+ * Filter of saga records
+ */
+export interface SagaFilter {
+  correlationId?: string;
+  status?: SagaStatus[];
+}
+
+/**
+ * Storage of saga records
+ */
+export interface SagaStore {
+  save(record: SagaRecord): Promise<void>;
+  load(id: string): Promise<SagaRecord | null>;
+  find(filter?: SagaFilter): Promise<SagaRecord[]>;
+}
+
+/**
+ * Saga store keeping its records in memory
+ */
+export class MemorySagaStore implements SagaStore {
+  private records = new Map<string, SagaRecord>();
+
+  async save(record: SagaRecord): Promise<void> {
+    this.records.set(record.id, copyRecord(record));
+  }
+
+  async load(id: string): Promise<SagaRecord | null> {
+    const record = this.records.get(id);
+    return record ? copyRecord(record) : null;
+  }
+
+  async find(filter: SagaFilter = {}): Promise<SagaRecord[]> {
+    return [...this.records.values()].filter(record => matchesFilter(record, filter)).map(copyRecord);
+  }
+}
+
+/**
+ * Handler of one type of event in a saga, returning the commands to dispatch
+ */
+export type SagaEventHandler = (event: EventInterface) => SagaCommand[] | void | Promise<SagaCommand[] | void>;
+
+/**
+ * Base of sagas.
+ *
+ * Subclasses register one handler per event type with `on`, keep what they need in
+ * `state` (saved as JSON between events) and call `complete` once done. `getCompensations`
+ * returns the commands undoing the work done so far, run when the saga fails or times out.
+ */
+export abstract class Saga<S = any> implements SagaInterface {
+  state: S;
+  private _type = '';
+  private _status: SagaStatus = 'pending';
+  private _error?: string;
+  private handlers = new Map<string, SagaEventHandler>();
+
+  constructor(readonly id: string, state: S) {
+    this.state = state;
+  }
+
+  get type(): string {
+    return this._type;
+  }
+
+  get status(): SagaStatus {
+    return this._status;
+  }
+
+  get error(): string | undefined {
+    return this._error;
+  }
+
+  /**
+   * Whether the saga has a handler for an event type
+   */
+  handles(eventType: string): boolean {
+    return this.handlers.has(eventType);
+  }
+
+  async handle(event: EventInterface): Promise<SagaCommand[]> {
+    const handler = this.handlers.get(event.type);
+    if (!handler) {
+      return [];
+    }
+    if (this._status === 'pending') {
+      this._status = 'running';
+    }
+    return (await handler.call(this, event)) || [];
+  }
+
+  complete(): void {
+    this._status = 'completed';
+  }
+
+  fail(error: Error): void {
+    this._status = 'failed';
+    this._error = error.message;
+  }
+
+  async compensate(): Promise<SagaCommand[]> {
+    this._status = 'compensating';
+    return this.getCompensations();
+  }
+
+  /**
+   * Restore the saga from its record
+   */
+  restore(record: Pick<SagaRecord, 'type' | 'status' | 'state' | 'error'>): void {
+    this._type = record.type;
+    this._status = record.status;
+    this._error = record.error;
+    if (record.state !== undefined) {
+      this.state = record.state;
+    }
+  }
+
+  /**
+   * Commands undoing the work of the saga (none by default)
+   */
+  protected getCompensations(): SagaCommand[] | Promise<SagaCommand[]> {
+    return [];
+  }
+
+  /**
+   * Register the handler of an event type
+   */
+  protected on(eventType: string, handler: SagaEventHandler): void {
+    this.handlers.set(eventType, handler);
+  }
+}
+
+/**
+ * Registration of a saga type
+ */
+export interface SagaRegistration {
+  /** Create a new saga */
+  create(id: string): Saga;
+
+  /** Event types starting a saga of this type, unless one is running for their correlation ID */
+  startedBy: string[];
+
+  /** Time in milliseconds a saga may run before it fails (default the manager timeout) */
+  timeout?: number;
+
+  /** Correlation ID of an event (default `event.metadata.correlationId`) */
+  correlate?: (event: EventInterface) => string | undefined;
+}
+
+/**
+ * Options of the saga manager
+ */
+export interface SagaManagerOptions {
+  /** Send a command, such as `CommandBus.send` */
+  dispatch: (command: SagaCommand) => Promise<unknown>;
+
+  /** Where saga records are kept (default memory) */
+  store?: SagaStore;
+
+  /** Time in milliseconds a saga may run before it fails; none by default */
+  timeout?: number;
+
+  /** Attempts to dispatch each compensating command (default 3) */
+  maxCompensationAttempts?: number;
+
+  /** Interval in milliseconds of the timeout checks (default 1000, 0 to call `checkTimeouts` yourself) */
+  timeoutCheckInterval?: number;
+}
+
+const ACTIVE: SagaStatus[] = ['pending', 'running'];
+
+/**
+ * Runs sagas over the events given to `handle`.
+ *
+ * An event of a `startedBy` type starts a saga; events with the same correlation ID go
+ * to the running sagas of that ID, one event at a time per saga. Commands get the
+ * correlation ID of the saga and the event as their cause, so the events they produce
+ * come back to the saga. When a handler or a command fails, or the saga times out, its
+ * compensating commands are dispatched (each retried up to `maxCompensationAttempts`)
+ * and the saga is marked failed. Saga records are saved after each event.
+ */
+export class SagaManager implements SagaManagerInterface {
+  private readonly store: SagaStore;
+  private readonly options: Required<Omit<SagaManagerOptions, 'store' | 'timeout'>> & { timeout?: number };
+  private registrations = new Map<string, SagaRegistration>();
+  private locks = new Map<string, Promise<unknown>>();
+  private held = new AsyncLocalStorage<HeldSagas>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: SagaManagerOptions) {
+    this.store = options.store || new MemorySagaStore();
+    this.options = {
+      dispatch: options.dispatch,
+      timeout: options.timeout,
+      maxCompensationAttempts: options.maxCompensationAttempts || 3,
+      timeoutCheckInterval: options.timeoutCheckInterval ?? 1000
+    };
+  }
+
+  /**
+   * Register a saga type. The timeout checks start with the first registration.
+   */
+  register(sagaType: string, registration: SagaRegistration): void {
+    if (this.registrations.has(sagaType)) {
+      throw new Error(`Saga type ${sagaType} is already registered`);
+    }
+    this.registrations.set(sagaType, registration);
+
+    if (!this.timer && this.options.timeoutCheckInterval > 0) {
+      this.timer = setInterval(() => {
+        this.checkTimeouts().catch(error => console.error('Saga timeout check error:', error));
+      }, this.options.timeoutCheckInterval);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Start a saga with an event, returning its ID
+   */
+  async start(sagaType: string, event: EventInterface): Promise<string> {
+    const registration = this.getRegistration(sagaType);
+    const id = randomUUID();
+    const saga = registration.create(id);
+    const now = new Date();
+    const timeout = registration.timeout ?? this.options.timeout;
+    const record: SagaRecord = {
+      id,
+      type: sagaType,
+      status: 'pending',
+      state: saga.state,
+      correlationId: this.correlate(registration, event) || id,
+      startedAt: now,
+      updatedAt: now,
+      deadline: timeout ? new Date(now.getTime() + timeout) : undefined
+    };
+    saga.restore(record);
+    await this.store.save(record);
+
+    await this.exclusive(id, () => this.process(saga, record, event));
+    return id;
+  }
+
+  /**
+   * Start the sagas the event starts and give it to the running sagas of its correlation ID
+   */
+  async handle(event: EventInterface): Promise<void> {
+    const started = new Set<string>();
+    const correlationIds = new Set<string>();
+
+    for (const [sagaType, registration] of this.registrations) {
+      const correlationId = this.correlate(registration, event);
+      if (correlationId) {
+        correlationIds.add(correlationId);
+      }
+      if (!registration.startedBy.includes(event.type)) {
+        continue;
+      }
+
+      const id = correlationId
+        ? await this.startOnce(sagaType, correlationId, event)
+        : await this.start(sagaType, event);
+      if (id) {
+        started.add(id);
+      }
+    }
+
+    for (const correlationId of correlationIds) {
+      for (const { id } of await this.store.find({ correlationId, status: ACTIVE })) {
+        if (started.has(id)) {
+          continue;
+        }
+        const task = this.exclusive(id, async () => {
+          const loaded = await this.load(id);
+          if (loaded && ACTIVE.includes(loaded.record.status) && loaded.saga.handles(event.type)) {
+            await this.process(loaded.saga, loaded.record, event);
+          }
+        });
+
+        // An event produced by a command of the saga itself runs once the saga is done with its event
+        const held = this.held.getStore();
+        if (held?.sagaIds.has(id)) {
+          held.deferred.push(task.catch(error => console.error(`Saga ${id} error:`, error)));
+        } else {
+          await task;
+        }
+      }
+    }
+  }
+
+  async getSaga(sagaId: string): Promise<SagaInterface | null> {
+    const loaded = await this.load(sagaId);
+    return loaded ? loaded.saga : null;
+  }
+
+  /**
+   * Saved record of a saga
+   */
+  getRecord(sagaId: string): Promise<SagaRecord | null> {
+    return this.store.load(sagaId);
+  }
+
+  async complete(sagaId: string): Promise<void> {
+    await this.exclusive(sagaId, async () => {
+      const { saga, record } = await this.require(sagaId);
+      saga.complete();
+      await this.persist(saga, record);
+    });
+  }
+
+  /**
+   * Fail a saga, dispatching its compensating commands
+   */
+  async fail(sagaId: string, error: Error): Promise<void> {
+    await this.exclusive(sagaId, async () => {
+      const { saga, record } = await this.require(sagaId);
+      await this.compensate(saga, record, error);
+    });
+  }
+
+  /**
+   * Fail and compensate the running sagas past their deadline
+   */
+  async checkTimeouts(now: Date = new Date()): Promise<void> {
+    for (const record of await this.store.find({ status: ACTIVE })) {
+      if (record.deadline && record.deadline <= now) {
+        await this.exclusive(record.id, async () => {
+          const loaded = await this.load(record.id);
+          if (loaded && ACTIVE.includes(loaded.record.status)) {
+            await this.compensate(loaded.saga, loaded.record, new Error(`Saga ${record.id} timed out`));
+          }
+        });
+      }
+    }
+  }
+
+  async getStats(): Promise<SagaStats> {
+    const records = await this.store.find();
+    const sagasByStatus: Record<string, number> = {};
+    let completionTime = 0;
+    let completed = 0;
+
+    for (const record of records) {
+      sagasByStatus[record.status] = (sagasByStatus[record.status] || 0) + 1;
+      if (record.status === 'completed' && record.completedAt) {
+        completionTime += record.completedAt.getTime() - record.startedAt.getTime();
+        completed++;
+      }
+    }
+
+    return {
+      totalSagas: records.length,
+      activeSagas: records.filter(record => ACTIVE.includes(record.status)).length,
+      completedSagas: sagasByStatus.completed || 0,
+      failedSagas: sagasByStatus.failed || 0,
+      averageCompletionTime: completed > 0 ? completionTime / completed : 0,
+      sagasByStatus
+    };
+  }
+
+  /**
+   * Stop the timeout checks
+   */
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Start a saga unless one of its type is running for the correlation ID. The check and
+   * the start hold a lock of the type and correlation ID, so concurrent events start one saga.
+   */
+  private async startOnce(sagaType: string, correlationId: string, event: EventInterface): Promise<string | undefined> {
+    const key = `start:${sagaType}:${correlationId}`;
+    const operation = async () => {
+      const running = await this.store.find({ correlationId, status: ACTIVE });
+      return running.some(record => record.type === sagaType) ? undefined : this.start(sagaType, event);
+    };
+
+    // An event produced while the saga starts already runs under the lock
+    return this.held.getStore()?.sagaIds.has(key) ? operation() : this.exclusive(key, operation);
+  }
+
+  private async process(saga: Saga, record: SagaRecord, event: EventInterface): Promise<void> {
+    try {
+      const commands = await saga.handle(event);
+      for (const command of commands) {
+        await this.dispatch(record, command, event);
+      }
+    } catch (error) {
+      await this.compensate(saga, record, error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    await this.persist(saga, record);
+  }
+
+  private async compensate(saga: Saga, record: SagaRecord, error: Error): Promise<void> {
+    const commands = await saga.compensate();
+    await this.persist(saga, record);
+
+    const failed: FailedCompensation[] = [];
+    for (const command of commands) {
+      for (let attempt = 1; attempt <= this.options.maxCompensationAttempts; attempt++) {
+        try {
+          await this.dispatch(record, command);
+          break;
+        } catch (compensationError) {
+          if (attempt === this.options.maxCompensationAttempts) {
+            console.error(`Saga ${record.id} compensation error:`, compensationError);
+            failed.push({
+              command,
+              error: compensationError instanceof Error ? compensationError.message : String(compensationError),
+              attempts: attempt
+            });
+          }
+        }
+      }
+    }
+
+    if (failed.length > 0) {
+      record.failedCompensations = [...(record.failedCompensations || []), ...failed];
+    }
+    saga.fail(error);
+    await this.persist(saga, record);
+  }
+
+  private dispatch(record: SagaRecord, command: SagaCommand, cause?: EventInterface): Promise<unknown> {
+    return this.options.dispatch({
+      ...command,
+      metadata: {
+        ...command.metadata,
+        correlationId: record.correlationId,
+        causationId: cause ? cause.id : record.id,
+        sagaId: record.id
+      }
+    });
+  }
+
+  private async persist(saga: Saga, record: SagaRecord): Promise<void> {
+    const now = new Date();
+    record.status = saga.status;
+    record.state = saga.state;
+    record.error = saga.error;
+    record.updatedAt = now;
+    if ((record.status === 'completed' || record.status === 'failed') && !record.completedAt) {
+      record.completedAt = now;
+    }
+    await this.store.save(record);
+  }
+
+  private async load(sagaId: string): Promise<{ saga: Saga; record: SagaRecord } | null> {
+    const record = await this.store.load(sagaId);
+    if (!record) {
+      return null;
+    }
+    const saga = this.getRegistration(record.type).create(record.id);
+    saga.restore(record);
+    return { saga, record };
+  }
+
+  private async require(sagaId: string): Promise<{ saga: Saga; record: SagaRecord }> {
+    const loaded = await this.load(sagaId);
+    if (!loaded) {
+      throw new Error(`Saga ${sagaId} not found`);
+    }
+    return loaded;
+  }
+
+  /**
+   * Run the operations on one saga (or on the start of a saga) one at a time. The
+   * outermost operation also waits for the events deferred by the sagas it holds.
+   */
+  private async exclusive<T>(sagaId: string, operation: () => Promise<T>): Promise<T> {
+    const parent = this.held.getStore();
+    const held: HeldSagas = { sagaIds: new Set(parent?.sagaIds).add(sagaId), deferred: parent ? parent.deferred : [] };
+    const result = (this.locks.get(sagaId) || Promise.resolve()).then(() => this.held.run(held, operation));
+    const done = result.catch(() => undefined);
+    this.locks.set(sagaId, done);
+    void done.then(() => {
+      if (this.locks.get(sagaId) === done) {
+        this.locks.delete(sagaId);
+      }
+    });
+
+    if (parent) {
+      return result;
+    }
+    try {
+      return await result;
+    } finally {
+      while (held.deferred.length > 0) {
+        await held.deferred.shift();
+      }
+    }
+  }
+
+  private correlate(registration: SagaRegistration, event: EventInterface): string | undefined {
+    return registration.correlate ? registration.correlate(event) : event.metadata?.correlationId;
+  }
+
+  private getRegistration(sagaType: string): SagaRegistration {
+    const registration = this.registrations.get(sagaType);
+    if (!registration) {
+      throw new Error(`Saga type ${sagaType} is not registered`);
+    }
+    return registration;
+  }
+}
+
+/**
+ * Whether a record matches a filter
+ */
+export function matchesFilter(record: SagaRecord, filter: SagaFilter): boolean {
+  return (!filter.correlationId || record.correlationId === filter.correlationId)
+    && (!filter.status || filter.status.includes(record.status));
+}
+
+function copyRecord(record: SagaRecord): SagaRecord {
+  return { ...record, state: record.state === undefined ? undefined : JSON.parse(JSON.stringify(record.state)) };
+}
+
+interface HeldSagas {
+  /** Sagas held by the running operation and its callers */
+  sagaIds: Set<string>;
+
+  /** Events given to held sagas, handled once they are released */
+  deferred: Promise<unknown>[];
+}
@@ -11,8 +11,10 @@ import {
   SubscriptionOptions,
   EventStats,
   EventConfig,
+  EventBusConfig,
   EventBusInterface,
-  EventStoreInterface
+  EventStoreInterface,
+  EventProjection
 } from './interfaces';
 
 import {
@@ -22,7 +24,14 @@ import {
   MemoryEventStore,
   EventStoreFactory,
   MemoryEventBus,
-  EventBusFactory
+  EventBusFactory,
+  EventBusConfig as BusConfig,
+  ProjectionManager,
+  CommandBus,
+  QueryBus,
+  SagaManager,
+  SagaRegistration,
+  messageMetadata
 } from './core';
 
 import {
@@ -36,6 +45,10 @@ export class EventSystem implements EventSystemInterface {
   private emitter: ExtendedEventEmitterInterface;
   private store: EventStoreInterface;
   private bus: EventBusInterface;
+  private projections: ProjectionManager;
+  private commands: CommandBus;
+  private queries: QueryBus;
+  private sagas?: SagaManager;
   private stats: {
     totalEvents: number;
     startTime: Date;
@@ -59,9 +72,16 @@ export class EventSystem implements EventSystemInterface {
     
     // Initialize bus
     this.bus = config?.bus
-      ? EventBusFactory.createFromConfig(config.bus, this.emitter)
+      ? EventBusFactory.createFromConfig(toBusConfig(config.bus), this.emitter)
       : EventBusFactory.createMemoryBus(this.emitter);
 
+    // Initialize projections over the store
+    this.projections = new ProjectionManager(this.store);
+
+    // Initialize command and query buses, publishing command events through this system
+    this.commands = new CommandBus({ publish: event => this.emit(event) });
+    this.queries = new QueryBus();
+
     // Initialize stats
     this.stats = {
       totalEvents: 0,
@@ -95,9 +115,12 @@ export class EventSystem implements EventSystemInterface {
   }
 
   /**
-   * Emit an event through the complete pipeline
+   * Emit an event through the complete pipeline. Events emitted while a command is
+   * handled get its correlation metadata.
    */
   async emit(event: EventInterface): Promise<void> {
+    event = { ...event, metadata: { ...messageMetadata(), ...event.metadata } };
+
     try {
       // Increment stats
       this.stats.totalEvents++;
@@ -147,11 +170,51 @@ export class EventSystem implements EventSystemInterface {
   }
 
   /**
-   * Register an event projection
+   * Register an event projection and start it. Resolves once it has caught up with the store.
+   */
+  async registerProjection(projection: EventProjection): Promise<void> {
+    await this.projections.register(projection);
+    await this.projections.start(projection.name);
+  }
+
+  /**
+   * Get the command bus
+   */
+  getCommandBus(): CommandBus {
+    return this.commands;
+  }
+
+  /**
+   * Get the query bus
+   */
+  getQueryBus(): QueryBus {
+    return this.queries;
+  }
+
+  /**
+   * Register a saga type, run over the events of this system with commands sent to its command bus
+   */
+  registerSaga(sagaType: string, registration: SagaRegistration): void {
+    this.getSagas().register(sagaType, registration);
+  }
+
+  /**
+   * Get the saga manager, created on first use
+   */
+  getSagas(): SagaManager {
+    if (!this.sagas) {
+      const sagas = new SagaManager({ dispatch: command => this.commands.send(command) });
+      this.emitter.on('*', event => sagas.handle(event));
+      this.sagas = sagas;
+    }
+    return this.sagas;
+  }
+
+  /**
+   * Get the projection manager
    */
-  registerProjection(projection: any): void {
-    // TODO: Implement projection registration
-    console.log('TODO: Implement projection registration for:', projection);
+  getProjections(): ProjectionManager {
+    return this.projections;
   }
 
   /**
@@ -177,14 +240,20 @@ export class EventSystem implements EventSystemInterface {
    * Shutdown the event system
    */
   async shutdown(): Promise<void> {
+    // Stop projections, saving their checkpoints, and saga timeout checks
+    await this.projections.close();
+    this.sagas?.close();
+
     // Close bus connections
     await this.bus.close();
     
     // Clear emitter
     this.emitter.clear();
     
-    // Clear store if it has a clear method
-    if ('clear' in this.store && typeof this.store.clear === 'function') {
+    // Close durable stores, clear memory ones
+    if ('close' in this.store && typeof this.store.close === 'function') {
+      await this.store.close();
+    } else if ('clear' in this.store && typeof this.store.clear === 'function') {
       await this.store.clear();
     }
   }
@@ -219,3 +288,14 @@ export class EventSystemFactory {
     return new EventSystem(config);
   }
 }
+
+/**
+ * Bus configuration of the event system, with the connection of its adapter
+ */
+function toBusConfig(config: EventBusConfig): BusConfig {
+  const { adapter, connection, consumerGroup } = config;
+  return {
+    adapters: adapter && adapter !== 'memory' ? { [adapter]: { type: adapter, ...connection } } : undefined,
+    consumerGroup: consumerGroup?.id
+  };
+}
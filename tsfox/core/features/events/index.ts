@@ -9,6 +9,12 @@ export * from './event.system';
 // Core implementations
 export * from './core';
 
+// Message broker adapters
+export * from './adapters';
+
+// Streams to browsers
+export * from './streaming';
+
 // Specific interface exports (avoid conflicts)
 export {
   EventInterface,
@@ -41,11 +47,17 @@ export {
 export {
   EventBusInterface,
   EventBusStats as InterfaceEventBusStats,
+  HandlerStats,
+  DeadLetter,
+  DeadLetterFilter,
+  DeadLetterStore,
   EventAdapterInterface,
   AdapterSubscriptionOptions,
   AdapterStats,
   RedisAdapterConfig,
-  RabbitMQAdapterConfig
+  RabbitMQAdapterConfig,
+  KafkaAdapterConfig,
+  NATSAdapterConfig
 } from './interfaces/adapter.interface';
 
 export * from './interfaces/sourcing.interface';
@@ -66,7 +78,23 @@ export {
   ExtendedEventEmitterInterface,
   MemoryEventStore,
   EventStoreFactory,
+  FileEventStore,
+  DatabaseEventStore,
+  ConcurrencyError,
+  StreamNotFoundError,
+  ProjectionManager,
+  defineProjection,
+  MemoryReadModel,
+  readModelRouter,
+  AggregateRoot,
+  EventSourcingRepository,
+  MemorySnapshotStore,
+  CommandBus,
+  QueryBus,
+  Saga,
+  SagaManager,
   MemoryEventBus,
+  MemoryDeadLetterStore,
   EventBusFactory
 } from './core';
 
@@ -32,6 +32,15 @@ export interface EventBusInterface {
   
   /** Close the bus connection */
   close(): Promise<void>;
+
+  /** Get the events subscriptions failed to handle */
+  getDeadLetters(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+
+  /** Give dead letters again to their subscription, returning how many it handled */
+  replayDeadLetters(filter?: DeadLetterFilter): Promise<number>;
+
+  /** Remove dead letters, returning how many were removed */
+  purgeDeadLetters(filter?: DeadLetterFilter): Promise<number>;
 }
 
 /**
@@ -61,6 +70,80 @@ export interface EventBusStats {
   
   /** Last activity timestamp */
   lastActivity: Date;
+
+  /** Events in the dead-letter queue */
+  deadLetters: number;
+
+  /** Handler calls of all subscriptions */
+  handlers: HandlerStats;
+
+  /** Handler calls by subscription ID */
+  handlersBySubscription: Record<string, HandlerStats & { eventType: string }>;
+}
+
+/**
+ * Handler call statistics
+ */
+export interface HandlerStats {
+  /** Events done with, handled or failed */
+  delivered: number;
+
+  /** Events whose attempts all failed */
+  failed: number;
+
+  /** Attempts after a failure */
+  retried: number;
+
+  /** Attempts that timed out */
+  timedOut: number;
+
+  /** Share of delivered events whose attempts all failed (0 to 1) */
+  failureRate: number;
+
+  /** Handler calls running and waiting for a concurrency slot */
+  active: number;
+  queued: number;
+}
+
+/**
+ * Event a subscription failed to handle after all its attempts
+ */
+export interface DeadLetter {
+  id: string;
+  event: EventInterface;
+
+  /** Subscription that failed, and the event type it subscribed to */
+  subscriptionId: string;
+  eventType: string;
+
+  /** Message of the last error */
+  error: string;
+
+  /** Number of times the handler was called */
+  attempts: number;
+
+  failedAt: Date;
+}
+
+/**
+ * Filter of dead letters
+ */
+export interface DeadLetterFilter {
+  subscriptionId?: string;
+  eventType?: string;
+
+  /** Dead letters that failed before this time */
+  before?: Date;
+}
+
+/**
+ * Storage of dead letters
+ */
+export interface DeadLetterStore {
+  add(letter: DeadLetter): Promise<void>;
+  list(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+  remove(id: string): Promise<boolean>;
+  count(filter?: DeadLetterFilter): Promise<number>;
 }
 
 /**
@@ -31,6 +31,9 @@ export interface EventInterface {
   
   /** Event timestamp */
   readonly timestamp: Date;
+  
+  /** Position in the log of all events, set by stores that keep one (starts at 1) */
+  readonly position?: number;
 }
 
 /**
@@ -119,6 +122,9 @@ export interface SubscriptionOptions {
   /** Maximum number of events to process concurrently */
   maxConcurrency?: number;
   
+  /** Time in milliseconds a handler call may take before it counts as failed */
+  timeout?: number;
+  
   /** Enable dead letter queue for failed events */
   deadLetterQueue?: boolean;
   
@@ -347,8 +353,8 @@ export interface EventSystemInterface {
   /** Replay events from a stream */
   replay(streamId: string, fromVersion?: number): Promise<void>;
   
-  /** Register an event projection */
-  registerProjection(projection: EventProjection): void;
+  /** Register an event projection and start it */
+  registerProjection(projection: EventProjection): Promise<void>;
   
   /** Get event processing statistics */
   getStats(): EventStats;
@@ -92,6 +92,9 @@ export interface ProjectionMetadata {
     eventsPerSecond: number;
     averageProcessingTime: number;
     lastEventTimestamp?: Date;
+
+    /** Events of the store after the position of the projection */
+    lag?: number;
   };
 }
 
@@ -323,7 +326,7 @@ export interface EventSourcingRepositoryInterface<T extends AggregateRootInterfa
  */
 export interface SnapshotStoreInterface {
   /** Save a snapshot */
-  save(aggregateId: string, snapshot: any, version: number): Promise<void>;
+  save(aggregateId: string, snapshot: any, version: number, metadata?: Record<string, any>): Promise<void>;
   
   /** Get the latest snapshot */
   get(aggregateId: string): Promise<AggregateSnapshot | null>;
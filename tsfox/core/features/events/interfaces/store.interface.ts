@@ -17,6 +17,9 @@ export interface EventStoreInterface {
   
   /** Read all events from all streams */
   readAll(fromPosition?: number, maxCount?: number): Promise<EventInterface[]>;
+
+  /** Position of the last event appended, 0 when the store is empty */
+  getLastPosition(): Promise<number>;
   
   /** Subscribe to new events */
   subscribe(handler: EventHandler, fromPosition?: number): Promise<Subscription>;
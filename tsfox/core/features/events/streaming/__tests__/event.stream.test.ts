@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Event stream tests over Server-Sent Events and WebSocket
+ * @module tsfox/core/features/events/streaming/__tests__
+ */
+
+import { AddressInfo } from 'net';
+import { FoxServer } from '../../../foxserver.feature';
+import { AuthMiddleware } from '../../../../security/auth.middleware';
+import { ServerConfig } from '../../../../types';
+import { EventSystem } from '../../event.system';
+import { EventInterface } from '../../interfaces';
+import { EventStreamOptions, EventStreamServer } from '../event.stream';
+import { event, waitFor } from '../../__tests__/helpers';
+import { SseClient, WebSocketClient } from './helpers';
+
+describe('EventStreamServer', () => {
+  const secret = 'stream-secret';
+  let server: FoxServer;
+  let system: EventSystem;
+  let stream: EventStreamServer;
+  let port: number;
+  let sseClients: SseClient[];
+  let wsClients: WebSocketClient[];
+
+  const start = async (options: EventStreamOptions = {}, config: Partial<ServerConfig> = {}) => {
+    server = new FoxServer({
+      port: 0,
+      env: 'test',
+      jsonSpaces: 2,
+      staticFolder: 'public',
+      shutdown: { timeout: 1000, defaultHooks: false },
+      ...config
+    });
+    stream = server.eventStream('/events', system, options);
+    const httpServer = server.listen();
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const sse = async (path: string, headers?: Record<string, string>) => {
+    const client = await SseClient.open(port, path, headers);
+    sseClients.push(client);
+    return client;
+  };
+
+  const ws = async (path: string, headers?: Record<string, string>) => {
+    const client = await WebSocketClient.connect(port, path, headers);
+    if (!(client instanceof WebSocketClient)) {
+      throw new Error(`Upgrade refused with ${client.status}`);
+    }
+    wsClients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    system = new EventSystem();
+    sseClients = [];
+    wsClients = [];
+  });
+
+  afterEach(async () => {
+    sseClients.forEach(client => client.close());
+    wsClients.forEach(client => client.destroy());
+    await server.stop();
+    await system.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  describe('over Server-Sent Events', () => {
+    it('should stream new events with their store position as ID, filtered by type and aggregate', async () => {
+      await start();
+      await system.emit(event('order.placed', {}, { aggregateId: 'order-0' }));
+      const all = await sse('/events');
+      const filtered = await sse('/events?types=order.shipped,payment.*&aggregateId=order-1');
+      await waitFor(() => stream.connections === 2);
+
+      await system.emit(event('order.placed', {}, { aggregateId: 'order-1' }));
+      await system.emit(event('order.shipped', {}, { aggregateId: 'order-1' }));
+      await system.emit(event('payment.captured', {}, { aggregateId: 'order-1' }));
+      await system.emit(event('order.shipped', {}, { aggregateId: 'order-2' }));
+
+      await waitFor(() => all.messages.length === 4 && filtered.messages.length === 2);
+      expect(all.status).toBe(200);
+      expect(all.messages.map(message => message.id)).toEqual(['2', '3', '4', '5']);
+      expect(all.messages[0].data).toMatchObject({ type: 'order.placed', aggregateId: 'order-1', position: 2 });
+      expect(filtered.messages.map(message => message.data.type)).toEqual(['order.shipped', 'payment.captured']);
+    });
+
+    it('should resume after the Last-Event-ID position', async () => {
+      await start();
+      for (const orderId of ['order-1', 'order-2', 'order-3']) {
+        await system.emit(event('order.placed', {}, { aggregateId: orderId }));
+      }
+
+      const header = await sse('/events', { 'Last-Event-ID': '1' });
+      const query = await sse('/events?lastEventId=0&aggregateId=order-3');
+
+      await waitFor(() => header.messages.length === 2 && query.messages.length === 1);
+      expect(header.messages.map(message => message.id)).toEqual(['2', '3']);
+      expect(query.messages[0].data.aggregateId).toBe('order-3');
+    });
+
+    it('should refuse invalid resume positions and clients over the connection limit', async () => {
+      await start({ maxConnections: 1 });
+
+      const invalid = await sse('/events', { 'Last-Event-ID': 'abc' });
+      await waitFor(() => invalid.ended);
+      expect(invalid.status).toBe(400);
+
+      await sse('/events');
+      await waitFor(() => stream.connections === 1);
+      const refused = await sse('/events');
+      await waitFor(() => refused.ended);
+      expect(refused.status).toBe(503);
+    });
+
+    it('should authenticate clients through the auth middlewares, with the token in the query', async () => {
+      await start({ auth: AuthMiddleware.jwt({ secret }), tokenParam: 'access_token' });
+      const token = AuthMiddleware.generateToken({ id: 'user-1' }, { secret });
+
+      const anonymous = await sse('/events');
+      await waitFor(() => anonymous.ended);
+      expect(anonymous.status).toBe(401);
+
+      const header = await sse('/events', { Authorization: `Bearer ${token}` });
+      const query = await sse(`/events?access_token=${token}`);
+      expect(header.status).toBe(200);
+      expect(query.status).toBe(200);
+    });
+
+    it('should apply the server filter with the authenticated request', async () => {
+      await start({
+        auth: AuthMiddleware.jwt({ secret }),
+        filter: (streamed, req) => streamed.data.customerId === req.user?.id
+      });
+      const token = AuthMiddleware.generateToken({ id: 'customer-1' }, { secret });
+      const client = await sse('/events', { Authorization: `Bearer ${token}` });
+      await waitFor(() => stream.connections === 1);
+
+      await system.emit(event('order.placed', { customerId: 'customer-2' }, { aggregateId: 'order-1' }));
+      await system.emit(event('order.placed', { customerId: 'customer-1' }, { aggregateId: 'order-2' }));
+
+      await waitFor(() => client.messages.length === 1);
+      expect(client.messages[0].data.aggregateId).toBe('order-2');
+    });
+
+    it('should send heartbeats and the retry hint', async () => {
+      await start({ heartbeatInterval: 20, retry: 500 });
+      const client = await sse('/events');
+
+      await waitFor(() => client.comments.length >= 2);
+      expect(client.body.startsWith('retry: 500\n\n')).toBe(true);
+      expect(client.comments[0]).toBe('heartbeat');
+    });
+
+    it('should drop a client that does not take its events within the drain timeout', async () => {
+      await start({ drainTimeout: 100 });
+      const slow = await sse('/events');
+      const fast = await sse('/events');
+      await waitFor(() => stream.connections === 2);
+      slow.pause();
+
+      const data = { payload: 'x'.repeat(256 * 1024) };
+      for (let i = 0; i < 40; i++) {
+        await system.emit(event('order.placed', data, { aggregateId: `order-${i}` }));
+      }
+
+      await waitFor(() => stream.connections === 1, 3000);
+      await waitFor(() => fast.messages.length === 40, 3000);
+    });
+  });
+
+  describe('over WebSocket', () => {
+    it('should stream filtered events as JSON messages and resume from lastEventId', async () => {
+      await start();
+      await system.emit(event('order.placed', {}, { aggregateId: 'order-1' }));
+
+      const live = await ws('/events?types=order.shipped');
+      const resumed = await ws('/events?lastEventId=0');
+      await waitFor(() => stream.connections === 2);
+      await system.emit(event('order.shipped', {}, { aggregateId: 'order-1' }));
+
+      await waitFor(() => live.messages.length === 1 && resumed.messages.length === 2);
+      expect(JSON.parse(live.messages[0])).toMatchObject({ type: 'order.shipped', position: 2 });
+      expect(resumed.messages.map(message => JSON.parse(message).position)).toEqual([1, 2]);
+    });
+
+    it('should answer refused upgrades with the middleware response', async () => {
+      await start({ auth: AuthMiddleware.jwt({ secret }), tokenParam: 'access_token' });
+      const token = AuthMiddleware.generateToken({ id: 'user-1' }, { secret });
+
+      const refused = await WebSocketClient.connect(port, '/events');
+      expect(refused).toMatchObject({ status: 401 });
+      expect(JSON.parse((refused as { body: string }).body)).toMatchObject({ error: 'Unauthorized' });
+
+      await ws(`/events?access_token=${token}`);
+      await waitFor(() => stream.connections === 1);
+
+      const unknown = await WebSocketClient.connect(port, '/other');
+      expect(unknown).toMatchObject({ status: 404 });
+    });
+
+    it('should run the server security pipeline before accepting clients', async () => {
+      await start({ tokenParam: 'access_token' }, { security: { jwt: { secret } } });
+      const token = AuthMiddleware.generateToken({ id: 'user-1' }, { secret });
+
+      await expect(WebSocketClient.connect(port, '/events')).resolves.toMatchObject({ status: 401 });
+      await ws(`/events?access_token=${token}`);
+      await waitFor(() => stream.connections === 1);
+    });
+
+    it('should refuse pages of other origins unless allowed', async () => {
+      await start();
+      await expect(WebSocketClient.connect(port, '/events', { Origin: 'https://attacker.example' }))
+        .resolves.toMatchObject({ status: 403 });
+      await ws('/events', { Origin: `http://127.0.0.1:${port}` });
+      await server.stop();
+
+      await start({ origins: ['https://app.example'] });
+      await ws('/events', { Origin: 'https://app.example' });
+      await waitFor(() => stream.connections === 1);
+    });
+
+    it('should share one store subscription between clients', async () => {
+      await start();
+      const subscribe = jest.spyOn(system.getStore(), 'subscribe');
+      await system.emit(event('order.placed', {}, { aggregateId: 'order-1' }));
+
+      const clients = [await ws('/events'), await ws('/events'), await ws('/events?lastEventId=0')];
+      await waitFor(() => stream.connections === 3);
+      await system.emit(event('order.shipped', {}, { aggregateId: 'order-1' }));
+
+      await waitFor(() => clients.every(client => client.messages.length > 0) && clients[2].messages.length === 2);
+      expect(subscribe).toHaveBeenCalledTimes(1);
+      expect(clients[0].messages.map(message => JSON.parse(message).position)).toEqual([2]);
+    });
+
+    it('should ping clients and drop the ones that stop answering', async () => {
+      await start({ heartbeatInterval: 20 });
+      const answering = await ws('/events');
+      const silent = await ws('/events');
+      silent.answerPings = false;
+
+      await waitFor(() => silent.closed);
+      expect(answering.pings).toBeGreaterThan(1);
+      expect(answering.closed).toBe(false);
+      expect(stream.connections).toBe(1);
+    });
+
+    it('should answer pings and close messages over the size limit', async () => {
+      await start({ maxMessageSize: 16 });
+      const client = await ws('/events');
+      client.ping();
+      await waitFor(() => client.pongs === 1);
+
+      client.send('a message over the limit');
+      await waitFor(() => client.closed);
+      expect(client.closeCode).toBe(1009);
+      await waitFor(() => stream.connections === 0);
+    });
+  });
+
+  it('should close both transports on shutdown', async () => {
+    await start();
+    const sseClient = await sse('/events');
+    const wsClient = await ws('/events');
+    await waitFor(() => stream.connections === 2);
+
+    const result = await server.stop();
+
+    expect(result.success).toBe(true);
+    expect(result.forcedConnections).toBe(0);
+    await waitFor(() => sseClient.ended && wsClient.closed);
+    expect(wsClient.closeCode).toBe(1001);
+    expect(stream.connections).toBe(0);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Clients shared by the streaming tests
+ * @module tsfox/core/features/events/streaming/__tests__
+ */
+
+import { randomBytes } from 'crypto';
+import http from 'http';
+import net from 'net';
+
+/**
+ * Server-Sent Events client collecting the messages of a stream
+ */
+export class SseClient {
+  readonly messages: Array<{ id?: string; data: any }> = [];
+  readonly comments: string[] = [];
+  status = 0;
+  body = '';
+  ended = false;
+  private request?: http.ClientRequest;
+  private response?: http.IncomingMessage;
+
+  static open(port: number, path: string, headers: Record<string, string> = {}): Promise<SseClient> {
+    const client = new SseClient();
+    return new Promise((resolve, reject) => {
+      client.request = http.get({ port, path, headers: { Accept: 'text/event-stream', ...headers } }, res => {
+        client.response = res;
+        client.status = res.statusCode || 0;
+        res.setEncoding('utf8');
+        let buffer = '';
+        res.on('data', (chunk: string) => {
+          client.body += chunk;
+          buffer += chunk;
+          let end: number;
+          while ((end = buffer.indexOf('\n\n')) !== -1) {
+            client.parse(buffer.slice(0, end));
+            buffer = buffer.slice(end + 2);
+          }
+        });
+        res.on('end', () => {
+          client.ended = true;
+        });
+        res.on('close', () => {
+          client.ended = true;
+        });
+        resolve(client);
+      });
+      client.request.on('error', reject);
+    });
+  }
+
+  /**
+   * Stop reading, as a client too slow to keep up
+   */
+  pause(): void {
+    this.response?.pause();
+  }
+
+  close(): void {
+    this.request?.destroy();
+  }
+
+  private parse(block: string): void {
+    const message: { id?: string; data?: string } = {};
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) {
+        this.comments.push(line.slice(1).trim());
+      } else if (line.startsWith('id: ')) {
+        message.id = line.slice(4);
+      } else if (line.startsWith('data: ')) {
+        message.data = line.slice(6);
+      }
+    }
+    if (message.data !== undefined) {
+      this.messages.push({ id: message.id, data: JSON.parse(message.data) });
+    }
+  }
+}
+
+/**
+ * WebSocket client over a raw socket, masking its frames as browsers do
+ */
+export class WebSocketClient {
+  readonly messages: string[] = [];
+  pings = 0;
+  pongs = 0;
+  closeCode?: number;
+  closed = false;
+  /** Whether pings are answered */
+  answerPings = true;
+  private buffer = Buffer.alloc(0);
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => {
+      this.closed = true;
+    });
+    socket.on('error', () => undefined);
+  }
+
+  /**
+   * Open a connection, resolving with the client once upgraded or with the HTTP answer when refused
+   */
+  static connect(port: number, path: string, headers: Record<string, string> = {}): Promise<WebSocketClient | { status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(port, '127.0.0.1');
+      let response = '';
+      const onData = (chunk: Buffer) => {
+        response += chunk.toString('latin1');
+        const end = response.indexOf('\r\n\r\n');
+        if (end === -1) {
+          return;
+        }
+        const status = Number(response.split(' ')[1]);
+        if (status !== 101) {
+          socket.on('end', () => resolve({ status, body: response.slice(end + 4) }));
+          return;
+        }
+        socket.off('data', onData);
+        const client = new WebSocketClient(socket);
+        const rest = Buffer.from(response.slice(end + 4), 'latin1');
+        if (rest.length > 0) {
+          client.receive(rest);
+        }
+        resolve(client);
+      };
+      socket.on('data', onData);
+      socket.on('error', reject);
+      socket.write([
+        `GET ${path} HTTP/1.1`,
+        `Host: 127.0.0.1:${port}`,
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+        'Sec-WebSocket-Version: 13',
+        ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+        '',
+        ''
+      ].join('\r\n'));
+    });
+  }
+
+  send(text: string, options: { fin?: boolean; opcode?: number } = {}): void {
+    this.socket.write(frame(options.opcode ?? 0x1, Buffer.from(text), options.fin ?? true));
+  }
+
+  ping(): void {
+    this.socket.write(frame(0x9, Buffer.from('ping')));
+  }
+
+  close(code = 1000): void {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.write(frame(0x8, payload));
+  }
+
+  destroy(): void {
+    this.socket.destroy();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (this.buffer.length < offset + length) {
+        return;
+      }
+      const opcode = this.buffer[0] & 0x0f;
+      const payload = this.buffer.subarray(offset, offset + length);
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === 0x1) {
+        this.messages.push(payload.toString('utf8'));
+      } else if (opcode === 0x8) {
+        this.closeCode = payload.length >= 2 ? payload.readUInt16BE(0) : undefined;
+        this.socket.end();
+      } else if (opcode === 0x9) {
+        this.pings++;
+        if (this.answerPings) {
+          this.socket.write(frame(0xa, payload));
+        }
+      } else if (opcode === 0xa) {
+        this.pongs++;
+      }
+    }
+  }
+}
+
+/**
+ * Encode a masked client frame
+ */
+function frame(opcode: number, payload: Buffer, fin = true): Buffer {
+  const mask = randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  const header = payload.length < 126
+    ? Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length])
+    : Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, mask, masked]);
+}
@@ -0,0 +1,689 @@
+/**
+ * @fileoverview Streams of stored events to browsers over Server-Sent Events and WebSocket
+ * @module tsfox/core/features/events/streaming
+ */
+
+import { EventEmitter } from 'events';
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Duplex } from 'stream';
+import { EventInterface, EventStoreInterface, EventSystemInterface, Subscription } from '../interfaces';
+import { acceptWebSocket, rejectUpgrade, WebSocketCloseCode, WebSocketConnection } from './websocket';
+
+/**
+ * Where a stream reads its events from: an event store, or the store of an event system
+ */
+export type EventStreamSource = EventStoreInterface | Pick<EventSystemInterface, 'getStore'>;
+
+/**
+ * Transports a stream is served over
+ */
+export type EventStreamTransport = 'sse' | 'websocket';
+
+/**
+ * Event stream options
+ */
+export interface EventStreamOptions {
+  /** Transports served (default both) */
+  transports?: EventStreamTransport[];
+
+  /** Middlewares a client must pass before it is accepted, such as `AuthMiddleware.jwt(...)` */
+  auth?: RequestHandler | RequestHandler[];
+
+  /**
+   * Query parameter read as bearer token when the request has no `Authorization` header,
+   * since `EventSource` and browser WebSockets cannot set headers (default none)
+   */
+  tokenParam?: string;
+
+  /** Events a client may receive besides its query filters, such as the events of its user */
+  filter?: (event: EventInterface, req: Request) => boolean;
+
+  /** Milliseconds between heartbeats; WebSocket clients missing one are dropped (default 15000, 0 disables) */
+  heartbeatInterval?: number;
+
+  /** Milliseconds a slow client has to take the pending data before it is dropped (default 30000) */
+  drainTimeout?: number;
+
+  /** Most clients connected at once (default unlimited) */
+  maxConnections?: number;
+
+  /** Largest message accepted from a WebSocket client in bytes (default 64 KiB) */
+  maxMessageSize?: number;
+
+  /** Milliseconds SSE clients wait before reconnecting (default the browser's) */
+  retry?: number;
+
+  /**
+   * Origins allowed to open WebSocket connections, or `*` for any. Browsers send the
+   * page origin with every upgrade, so by default only pages of the stream host connect.
+   */
+  origins?: string[];
+}
+
+/** Events read per batch when a client resumes */
+const REPLAY_BATCH = 500;
+
+/**
+ * Streams the events of an event store to clients connected over Server-Sent Events
+ * (a GET request) or WebSocket (an upgrade request on the same path).
+ *
+ * Clients pick events with the `types` (exact types, or prefixes ending in `*`) and
+ * `aggregateId` query parameters, both comma-separated. Each event carries its store
+ * position, used as SSE event ID: a client resumes after a reconnect from the
+ * `Last-Event-ID` header (sent by `EventSource`) or the `lastEventId` query parameter,
+ * and gets only new events without them. Events without an aggregate are not stored,
+ * so they are not streamed.
+ *
+ * SSE clients get the event as JSON `data`; WebSocket clients get it as a JSON text
+ * message. Clients share one subscription to the store; a resuming client reads the
+ * events it missed from the store before joining it. A client that reads slower than
+ * events come holds back its own stream only, and is dropped once it keeps data pending
+ * for `drainTimeout`, to resume later.
+ *
+ * Upgrade requests do not go through the Express app, so WebSocket clients pass the
+ * `serverMiddleware` (the security pipeline of a FoxServer) before the `auth` middlewares.
+ */
+export class EventStreamServer {
+  private readonly clients = new Set<StreamClient>();
+  private readonly options: EventStreamOptions;
+  private readonly auth: RequestHandler[];
+  private subscription?: Promise<Subscription | undefined>;
+  private heartbeat?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    private readonly source: EventStreamSource,
+    options: EventStreamOptions = {},
+    private readonly serverMiddleware: RequestHandler[] = []
+  ) {
+    this.options = options;
+    this.auth = ([] as RequestHandler[]).concat(options.auth || []);
+  }
+
+  /**
+   * Number of connected clients
+   */
+  get connections(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Whether the stream is served over a transport
+   */
+  serves(transport: EventStreamTransport): boolean {
+    return !this.options.transports || this.options.transports.includes(transport);
+  }
+
+  /**
+   * Route handlers serving the stream over Server-Sent Events, authentication included
+   */
+  handlers(): RequestHandler[] {
+    return [
+      (req, _res, next) => {
+        this.useTokenParam(req);
+        next();
+      },
+      ...this.auth,
+      (req, res) => this.acceptSse(req, res)
+    ];
+  }
+
+  /**
+   * Serve an upgrade request of the stream path over WebSocket
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const req = request as Request;
+    req.query = Object.fromEntries(searchParams(req)) as Request['query'];
+    this.useTokenParam(req);
+
+    if (!this.allowsOrigin(req)) {
+      rejectUpgrade(socket, 403, 'Forbidden', { error: 'Forbidden', message: 'Origin not allowed' });
+      return;
+    }
+
+    void this.authenticate(req, socket)
+      .then(authenticated => {
+        if (!authenticated || socket.destroyed) {
+          return;
+        }
+        const refusal = this.refusal(req);
+        if (refusal) {
+          rejectUpgrade(socket, refusal.status, STATUS_CODES[refusal.status] || 'Error', refusal.body);
+          return;
+        }
+        const connection = acceptWebSocket(req, socket, head, { maxMessageSize: this.options.maxMessageSize });
+        if (connection) {
+          this.open(new WebSocketClient(connection, req, this.options), req);
+        }
+      })
+      .catch(error => {
+        console.error('Event stream upgrade error:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+  }
+
+  /**
+   * Disconnect every client (WebSocket clients with `1001 Going Away`) and refuse new ones.
+   * Resolves once every client is gone.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.stopHeartbeat();
+    await Promise.all([...this.clients].map(client => client.close()));
+    this.unsubscribe();
+  }
+
+  private acceptSse(req: Request, res: Response): void {
+    const refusal = this.refusal(req);
+    if (refusal) {
+      res.status(refusal.status).json(refusal.body);
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('X-Accel-Buffering', 'no');
+    if (req.httpVersionMajor < 2) {
+      res.setHeader('Connection', 'keep-alive');
+    }
+    res.flushHeaders();
+    if (this.options.retry !== undefined) {
+      res.write(`retry: ${this.options.retry}\n\n`);
+    }
+    this.open(new SseClient(res, req, this.options), req);
+  }
+
+  /**
+   * Why a client cannot connect, if it cannot
+   */
+  private refusal(req: Request): { status: number; body: { error: string; message: string } } | undefined {
+    if (this.closed) {
+      return { status: 503, body: { error: 'Service Unavailable', message: 'Event stream is closed' } };
+    }
+    if (this.options.maxConnections !== undefined && this.clients.size >= this.options.maxConnections) {
+      return { status: 503, body: { error: 'Service Unavailable', message: 'Too many event stream connections' } };
+    }
+    if (resumePosition(req) === null) {
+      return { status: 400, body: { error: 'Bad Request', message: 'Last-Event-ID must be an event position' } };
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a client to the stream, replaying the events after its resume position first
+   */
+  private open(client: StreamClient, req: Request): void {
+    const position = resumePosition(req) ?? undefined;
+    this.clients.add(client);
+    this.startHeartbeat();
+    if (position !== undefined) {
+      client.hold(position);
+    }
+
+    client.once('close', () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+        this.unsubscribe();
+      }
+    });
+
+    void this.subscribe()
+      .then(async subscription => {
+        if (subscription && position !== undefined) {
+          await this.replay(client, position);
+        }
+      })
+      .catch(error => {
+        console.error('Event stream replay error:', error);
+        void client.close();
+      });
+  }
+
+  /**
+   * Subscription to the new events of the store, shared by every client
+   */
+  private subscribe(): Promise<Subscription | undefined> {
+    if (!this.subscription) {
+      this.subscription = this.store()
+        .subscribe(event => {
+          this.clients.forEach(client => client.receive(event));
+        })
+        .catch(error => {
+          console.error('Event stream subscription error:', error);
+          this.subscription = undefined;
+          this.clients.forEach(client => void client.close());
+          return undefined;
+        });
+    }
+    return this.subscription;
+  }
+
+  private unsubscribe(): void {
+    const subscription = this.subscription;
+    this.subscription = undefined;
+    void subscription?.then(active => active?.unsubscribe());
+  }
+
+  /**
+   * Send a resuming client the stored events after its position, then the new ones
+   * held while it read them
+   */
+  private async replay(client: StreamClient, position: number): Promise<void> {
+    let from = position;
+    for (;;) {
+      const events = await this.store().readAll(from, REPLAY_BATCH);
+      if (events.length === 0 || !this.clients.has(client)) {
+        break;
+      }
+      for (const event of events) {
+        await client.send(event);
+      }
+      from = events[events.length - 1].position!;
+    }
+    client.release();
+  }
+
+  private store(): EventStoreInterface {
+    return 'getStore' in this.source ? this.source.getStore() : this.source;
+  }
+
+  /**
+   * Whether the page opening a WebSocket may connect; requests without Origin do not come from browsers
+   */
+  private allowsOrigin(req: Request): boolean {
+    const origin = req.headers.origin;
+    if (!origin) {
+      return true;
+    }
+    if (this.options.origins) {
+      return this.options.origins.includes('*') || this.options.origins.includes(origin);
+    }
+    try {
+      return new URL(origin).host === req.headers.host;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run the server and auth middlewares against an upgrade request, answering the socket when one refuses it
+   */
+  private async authenticate(req: Request, socket: Duplex): Promise<boolean> {
+    for (const middleware of [...this.serverMiddleware, ...this.auth]) {
+      const passed = await new Promise<boolean>((resolve, reject) => {
+        const res = upgradeResponse(socket, () => resolve(false));
+        const next: NextFunction = error => (error ? reject(error) : resolve(true));
+        try {
+          const result = middleware(req, res, next) as unknown;
+          if (result instanceof Promise) {
+            result.catch(reject);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      });
+      if (!passed) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private useTokenParam(req: Request): void {
+    const param = this.options.tokenParam;
+    const token = param ? searchParams(req).get(param) : null;
+    if (token && !req.headers.authorization) {
+      req.headers.authorization = `Bearer ${token}`;
+    }
+  }
+
+  private startHeartbeat(): void {
+    const interval = this.options.heartbeatInterval ?? 15000;
+    if (this.heartbeat || interval <= 0) {
+      return;
+    }
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        client.heartbeat();
+      }
+    }, interval);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+}
+
+/**
+ * Client of a stream. Emits `close` once disconnected.
+ */
+abstract class StreamClient extends EventEmitter {
+  protected closed = false;
+  private readonly types: string[];
+  private readonly aggregateIds: string[];
+  /** Position of the last event sent or queued */
+  private position?: number;
+  private readonly queue: EventInterface[] = [];
+  private sending = false;
+  /** New events held while the client replays the ones it missed */
+  private held: EventInterface[] | null = null;
+
+  constructor(protected readonly req: Request, private readonly options: EventStreamOptions) {
+    super();
+    const params = searchParams(req);
+    this.types = list(params.getAll('types'));
+    this.aggregateIds = list(params.getAll('aggregateId'));
+  }
+
+  /**
+   * Hold new events until the events after a position are replayed
+   */
+  hold(position: number): void {
+    this.position = position;
+    this.held = [];
+  }
+
+  /**
+   * Send the held events once the replay is done, and new events from then on
+   */
+  release(): void {
+    const held = this.held || [];
+    this.held = null;
+    held.forEach(event => this.enqueue(event));
+  }
+
+  /**
+   * Take a new event of the stream subscription, without waiting for the client
+   */
+  receive(event: EventInterface): void {
+    if (this.held) {
+      this.held.push(event);
+    } else {
+      this.enqueue(event);
+    }
+  }
+
+  /**
+   * Send a replayed event, waiting while the client has data pending
+   */
+  async send(event: EventInterface): Promise<void> {
+    if (this.isNew(event)) {
+      this.position = event.position;
+      await this.deliver(event);
+    }
+  }
+
+  /**
+   * Send an event the client asked for, waiting while the client has data pending
+   */
+  async deliver(event: EventInterface): Promise<void> {
+    if (this.closed || !this.accepts(event)) {
+      return;
+    }
+    if (this.write(event)) {
+      return;
+    }
+    if (!(await this.drained(this.options.drainTimeout ?? 30000)) && !this.closed) {
+      this.drop();
+    }
+  }
+
+  abstract heartbeat(): void;
+
+  abstract close(): Promise<void>;
+
+  /**
+   * Write an event, returning false when it had to be buffered
+   */
+  protected abstract write(event: EventInterface): boolean;
+
+  /**
+   * Disconnect a client too slow to take its events
+   */
+  protected abstract drop(): void;
+
+  protected abstract drained(timeout: number): Promise<boolean>;
+
+  protected finish(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.queue.length = 0;
+      this.emit('close');
+    }
+  }
+
+  private enqueue(event: EventInterface): void {
+    if (this.closed || !this.isNew(event)) {
+      return;
+    }
+    this.position = event.position;
+    this.queue.push(event);
+    if (!this.sending) {
+      void this.flush();
+    }
+  }
+
+  private async flush(): Promise<void> {
+    this.sending = true;
+    try {
+      while (this.queue.length > 0 && !this.closed) {
+        await this.deliver(this.queue.shift()!);
+      }
+    } catch (error) {
+      console.error('Event stream delivery error:', error);
+      this.drop();
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private isNew(event: EventInterface): boolean {
+    return this.position === undefined || event.position === undefined || event.position > this.position;
+  }
+
+  private accepts(event: EventInterface): boolean {
+    if (this.types.length > 0 && !this.types.some(type => matchesType(type, event.type))) {
+      return false;
+    }
+    if (this.aggregateIds.length > 0 && !this.aggregateIds.includes(event.aggregateId || '')) {
+      return false;
+    }
+    return !this.options.filter || this.options.filter(event, this.req);
+  }
+}
+
+/**
+ * Client connected over Server-Sent Events
+ */
+class SseClient extends StreamClient {
+  constructor(private readonly res: Response, req: Request, options: EventStreamOptions) {
+    super(req, options);
+    res.on('close', () => this.finish());
+  }
+
+  heartbeat(): void {
+    if (!this.closed && this.res.writableLength === 0) {
+      this.res.write(': heartbeat\n\n');
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.closed) {
+      const closed = new Promise(resolve => this.once('close', resolve));
+      this.res.end();
+      await closed;
+    }
+  }
+
+  protected write(event: EventInterface): boolean {
+    return this.res.write(`id: ${event.position}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  protected drop(): void {
+    this.res.destroy();
+  }
+
+  protected drained(timeout: number): Promise<boolean> {
+    return waitFor(this.res, 'drain', this, timeout);
+  }
+}
+
+/**
+ * Client connected over WebSocket
+ */
+class WebSocketClient extends StreamClient {
+  private alive = true;
+
+  constructor(private readonly connection: WebSocketConnection, req: Request, options: EventStreamOptions) {
+    super(req, options);
+    connection.on('pong', () => {
+      this.alive = true;
+    });
+    connection.on('close', () => this.finish());
+  }
+
+  heartbeat(): void {
+    if (!this.alive) {
+      this.connection.terminate();
+      return;
+    }
+    this.alive = false;
+    this.connection.ping();
+  }
+
+  async close(): Promise<void> {
+    if (!this.closed) {
+      const closed = new Promise(resolve => this.once('close', resolve));
+      this.connection.close(WebSocketCloseCode.GOING_AWAY, 'Server shutting down');
+      await closed;
+    }
+  }
+
+  protected write(event: EventInterface): boolean {
+    return this.connection.send(JSON.stringify(event));
+  }
+
+  protected drop(): void {
+    this.connection.close(WebSocketCloseCode.TRY_AGAIN_LATER, 'Client too slow');
+  }
+
+  protected drained(timeout: number): Promise<boolean> {
+    return waitFor(this.connection, 'drain', this, timeout);
+  }
+}
+
+/**
+ * Query parameters of a request
+ */
+function searchParams(req: IncomingMessage & { originalUrl?: string }): URLSearchParams {
+  return new URL(req.originalUrl || req.url || '/', 'http://localhost').searchParams;
+}
+
+/**
+ * Position a client resumes from: undefined for new events only, null when invalid
+ */
+function resumePosition(req: Request): number | undefined | null {
+  const header = req.headers['last-event-id'];
+  const value = (Array.isArray(header) ? header[0] : header) ?? searchParams(req).get('lastEventId') ?? undefined;
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function list(values: string[]): string[] {
+  return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+function matchesType(pattern: string, type: string): boolean {
+  return pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+/**
+ * Resolve true once an emitter emits an event, false when the client closes or the timeout elapses
+ */
+function waitFor(emitter: EventEmitter, event: string, client: EventEmitter, timeout: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const done = (result: boolean) => {
+      clearTimeout(timer);
+      emitter.off(event, onEvent);
+      client.off('close', onClose);
+      resolve(result);
+    };
+    const onEvent = () => done(true);
+    const onClose = () => done(false);
+    const timer = setTimeout(() => done(false), timeout);
+    emitter.on(event, onEvent);
+    client.on('close', onClose);
+  });
+}
+
+/**
+ * Response handed to middlewares run against an upgrade request: whatever they send
+ * is written to the socket as the answer to the upgrade
+ */
+function upgradeResponse(socket: Duplex, sent: () => void): Response {
+  let statusCode = 200;
+  const headers: Record<string, unknown> = {};
+  const answer = (body?: unknown) => {
+    const status = statusCode === 200 ? 500 : statusCode;
+    rejectUpgrade(socket, status, STATUS_CODES[status] || 'Error', body ?? { error: STATUS_CODES[status] });
+    sent();
+    return res;
+  };
+  const res = {
+    get statusCode() {
+      return statusCode;
+    },
+    headersSent: false,
+    locals: {},
+    status(code: number) {
+      statusCode = code;
+      return res;
+    },
+    sendStatus(code: number) {
+      statusCode = code;
+      return answer();
+    },
+    setHeader(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    set(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    header(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    getHeader(name: string) {
+      return headers[name.toLowerCase()];
+    },
+    removeHeader(name: string) {
+      delete headers[name.toLowerCase()];
+    },
+    append(name: string, value: unknown) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    vary() {
+      return res;
+    },
+    cookie() {
+      // Cookies are not part of the upgrade answer
+      return res;
+    },
+    json: answer,
+    send: answer,
+    end: () => answer()
+  };
+  return res as unknown as Response;
+}
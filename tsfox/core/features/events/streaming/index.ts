@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Event streaming exports
+ * @module tsfox/core/features/events/streaming
+ */
+
+export * from './event.stream';
+export * from './websocket';
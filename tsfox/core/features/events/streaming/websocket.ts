@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Server side of the WebSocket protocol (RFC 6455): handshake, framing and control frames
+ * @module tsfox/core/features/events/streaming
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+/** GUID appended to the client key to compute the accept key */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa
+};
+
+/**
+ * Close codes used by the server
+ */
+export const WebSocketCloseCode = {
+  NORMAL: 1000,
+  GOING_AWAY: 1001,
+  PROTOCOL_ERROR: 1002,
+  POLICY_VIOLATION: 1008,
+  MESSAGE_TOO_BIG: 1009,
+  TRY_AGAIN_LATER: 1013
+} as const;
+
+/**
+ * WebSocket connection options
+ */
+export interface WebSocketOptions {
+  /** Largest message accepted from the client in bytes (default 64 KiB) */
+  maxMessageSize?: number;
+}
+
+/**
+ * Server side of an accepted WebSocket connection.
+ *
+ * Emits `message` with each text or binary message of the client, `pong` when the client
+ * answers a ping and `close` with the close code once the connection is closed. Pings of
+ * the client are answered and fragmented messages are put together; a message over
+ * `maxMessageSize` or a frame breaking the protocol closes the connection.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentsSize = 0;
+  private fragmentOpcode = 0;
+  private closing = false;
+  private closed = false;
+  private readonly maxMessageSize: number;
+
+  constructor(private readonly socket: Duplex, head: Buffer = Buffer.alloc(0), options: WebSocketOptions = {}) {
+    super();
+    this.maxMessageSize = options.maxMessageSize ?? 64 * 1024;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('drain', () => this.emit('drain'));
+    socket.on('error', () => this.terminate());
+    socket.on('close', () => this.finish(1006));
+    if (head.length > 0) {
+      this.receive(head);
+    }
+  }
+
+  /**
+   * Whether the connection can still send
+   */
+  get isOpen(): boolean {
+    return !this.closing && !this.closed;
+  }
+
+  /**
+   * Send a text message. Returns false when the message was buffered because the
+   * client reads slower than the server writes; `drain` is emitted once it caught up.
+   */
+  send(text: string): boolean {
+    return this.write(OPCODES.TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  /**
+   * Ask the client for a pong
+   */
+  ping(data: Buffer = Buffer.alloc(0)): void {
+    this.write(OPCODES.PING, data);
+  }
+
+  /**
+   * Start the closing handshake; the socket ends once the client answers or after a second
+   */
+  close(code: number = WebSocketCloseCode.NORMAL, reason = ''): void {
+    if (!this.isOpen) {
+      return;
+    }
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.write(OPCODES.CLOSE, payload);
+    this.closing = true;
+    this.socket.end();
+    setTimeout(() => this.terminate(), 1000).unref();
+  }
+
+  /**
+   * Drop the connection without the closing handshake
+   */
+  terminate(): void {
+    this.socket.destroy();
+    this.finish(1006);
+  }
+
+  private write(opcode: number, payload: Buffer): boolean {
+    if (!this.isOpen || this.socket.destroyed) {
+      return false;
+    }
+    return this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (!this.closed) {
+      const frame = decodeFrame(this.buffer);
+      if (!frame) {
+        return;
+      }
+      if (frame === 'invalid') {
+        this.fail(WebSocketCloseCode.PROTOCOL_ERROR, 'Invalid frame');
+        return;
+      }
+      if (frame.length > this.maxMessageSize) {
+        this.fail(WebSocketCloseCode.MESSAGE_TOO_BIG, 'Message too big');
+        return;
+      }
+      if (this.buffer.length < frame.end) {
+        return;
+      }
+      const payload = this.buffer.subarray(frame.start, frame.end);
+      this.buffer = this.buffer.subarray(frame.end);
+      this.handle(frame.fin, frame.opcode, payload);
+    }
+  }
+
+  private handle(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODES.PING:
+        this.write(OPCODES.PONG, payload);
+        return;
+      case OPCODES.PONG:
+        this.emit('pong', payload);
+        return;
+      case OPCODES.CLOSE: {
+        const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+        if (!this.closing) {
+          this.write(OPCODES.CLOSE, payload.subarray(0, 2));
+          this.closing = true;
+          this.socket.end();
+        }
+        this.finish(code);
+        return;
+      }
+      case OPCODES.TEXT:
+      case OPCODES.BINARY:
+      case OPCODES.CONTINUATION:
+        this.collect(fin, opcode, payload);
+        return;
+      default:
+        this.fail(WebSocketCloseCode.PROTOCOL_ERROR, 'Unknown opcode');
+    }
+  }
+
+  /**
+   * Put the fragments of a message together
+   */
+  private collect(fin: boolean, opcode: number, payload: Buffer): void {
+    if ((opcode === OPCODES.CONTINUATION) !== (this.fragments.length > 0)) {
+      this.fail(WebSocketCloseCode.PROTOCOL_ERROR, 'Unexpected continuation');
+      return;
+    }
+    if (opcode !== OPCODES.CONTINUATION) {
+      this.fragmentOpcode = opcode;
+    }
+    this.fragmentsSize += payload.length;
+    if (this.fragmentsSize > this.maxMessageSize) {
+      this.fail(WebSocketCloseCode.MESSAGE_TOO_BIG, 'Message too big');
+      return;
+    }
+    this.fragments.push(Buffer.from(payload));
+    if (!fin) {
+      return;
+    }
+
+    const message = Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentsSize = 0;
+    this.emit('message', this.fragmentOpcode === OPCODES.TEXT ? message.toString('utf8') : message);
+  }
+
+  private fail(code: number, reason: string): void {
+    this.close(code, reason);
+    this.finish(code);
+  }
+
+  private finish(code: number): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.emit('close', code);
+  }
+}
+
+/**
+ * Complete the handshake of an upgrade request, returning the connection, or answer
+ * 400 and return null when the request is not a valid WebSocket handshake
+ */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  options: WebSocketOptions = {}
+): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  const upgrade = String(req.headers.upgrade || '').toLowerCase();
+  if (req.method !== 'GET' || upgrade !== 'websocket' || typeof key !== 'string' || req.headers['sec-websocket-version'] !== '13') {
+    rejectUpgrade(socket, 400, 'Bad Request');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  return new WebSocketConnection(socket, head, options);
+}
+
+/**
+ * Answer an upgrade request with an HTTP error and close the socket
+ */
+export function rejectUpgrade(socket: Duplex, status: number, message: string, body: unknown = { error: message }): void {
+  const content = JSON.stringify(body);
+  socket.end([
+    `HTTP/1.1 ${status} ${message}`,
+    'Content-Type: application/json',
+    `Content-Length: ${Buffer.byteLength(content)}`,
+    'Connection: close',
+    '',
+    content
+  ].join('\r\n'));
+}
+
+/**
+ * Encode an unmasked frame, as servers send them
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode the header of the frame at the start of a buffer, unmasking its payload in place.
+ * Returns undefined while the header is incomplete and `invalid` for frames clients may not send.
+ */
+function decodeFrame(buffer: Buffer): DecodedFrame | 'invalid' | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if ((buffer[0] & 0x70) !== 0 || !masked) {
+    return 'invalid';
+  }
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return undefined;
+    }
+    const longLength = buffer.readBigUInt64BE(2);
+    length = longLength > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(longLength);
+    offset = 10;
+  }
+  // Control frames are short and never fragmented
+  if (opcode >= OPCODES.CLOSE && (!fin || length > 125)) {
+    return 'invalid';
+  }
+  if (buffer.length < offset + 4) {
+    return undefined;
+  }
+
+  const mask = buffer.subarray(offset, offset + 4);
+  const start = offset + 4;
+  const end = start + length;
+  if (buffer.length >= end) {
+    for (let i = 0; i < length; i++) {
+      buffer[start + i] ^= mask[i % 4];
+    }
+  }
+  return { fin, opcode, start, end, length };
+}
+
+interface DecodedFrame {
+  fin: boolean;
+  opcode: number;
+  start: number;
+  end: number;
+  length: number;
+}
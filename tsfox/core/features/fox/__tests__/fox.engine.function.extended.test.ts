@@ -2,17 +2,12 @@ import {
     parseSections,
     replaceVariables,
     replaceVariableSymbols,
-    executeActions,
-    evaluateAction,
     wrapHTML
 } from '../fox.engine.function';
 
 // Mock console.error to avoid test output noise
 const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
 
-// Mock global object for action evaluation tests
-declare let global: any;
-
 describe('Fox Engine Functions - Enhanced Branch Coverage', () => {
     beforeEach(() => {
         jest.clearAllMocks();
@@ -22,181 +17,6 @@ describe('Fox Engine Functions - Enhanced Branch Coverage', () => {
         mockConsoleError.mockRestore();
     });
 
-    describe('executeActions - Enhanced Coverage', () => {
-        it('should handle actions with complex Exec:: content', () => {
-            const section = 'Start <action>Exec::complexFunction(param1, param2)</action> End';
-            
-            const result = executeActions(section);
-            
-            // Should process the action regardless of complexity
-            expect(result).toContain('Start');
-            expect(result).toContain('End');
-            expect(result).not.toContain('<action>');
-        });
-
-        it('should process multiple actions sequentially', () => {
-            const section = '<action>Exec::first</action> middle <action>Exec::second</action>';
-            
-            const result = executeActions(section);
-            
-            // evaluateAction returns the original action when function not found
-            expect(result).toBe('Exec::first middle Exec::second');
-        });
-
-        it('should handle malformed action tags gracefully', () => {
-            const section = '<action>NotExecFormat</action>';
-            
-            const result = executeActions(section);
-            
-            // Non-Exec:: action should remain unchanged
-            expect(result).toBe('<action>NotExecFormat</action>');
-        });
-
-        it('should handle empty action content', () => {
-            const section = '<action></action>';
-            
-            const result = executeActions(section);
-            
-            // Empty action should remain unchanged since it doesn't match Exec:: pattern
-            expect(result).toBe('<action></action>');
-        });
-
-        it('should handle actions with whitespace', () => {
-            const section = '<action>  Exec::testFunction  </action>';
-            
-            const result = executeActions(section);
-            
-            expect(result).toContain('Exec::testFunction');
-        });
-    });
-
-    describe('evaluateAction - Enhanced Coverage', () => {
-        beforeEach(() => {
-            // Reset global/window mock
-            if (typeof global !== 'undefined') {
-                global.window = undefined;
-            }
-        });
-
-        afterEach(() => {
-            // Clean up global state
-            if (typeof global !== 'undefined') {
-                delete global.window;
-            }
-        });
-
-        it('should handle window object with valid function', () => {
-            // Mock window with a test function
-            global.window = {
-                testFunc: jest.fn().mockReturnValue('test result')
-            };
-            
-            // Mock eval to return the function result
-            const originalEval = global.eval;
-            global.eval = jest.fn().mockReturnValue('mocked result');
-            
-            const action = '()=>[testFunc]';
-            
-            const result = evaluateAction(action);
-            
-            expect(result).toBe('mocked result');
-            
-            // Restore eval
-            global.eval = originalEval;
-        });
-
-        it('should handle eval throwing an error', () => {
-            global.window = {
-                errorFunc: jest.fn()
-            };
-            
-            // Mock eval to throw error
-            const originalEval = global.eval;
-            global.eval = jest.fn().mockImplementation(() => {
-                throw new Error('Eval execution error');
-            });
-            
-            const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
-            
-            const action = '()=>[errorFunc]';
-            
-            const result = evaluateAction(action);
-            
-            expect(result).toBe('');
-            expect(mockConsoleError).toHaveBeenCalledWith(
-                expect.stringContaining("Error executing action function"),
-                expect.any(Error)
-            );
-            
-            // Restore eval
-            global.eval = originalEval;
-            mockConsoleError.mockRestore();
-        });
-
-        it('should handle window property that is not a function', () => {
-            global.window = {
-                notAFunction: 'just a string value'
-            };
-            
-            const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
-            
-            const action = '()=>[notAFunction]';
-            
-            const result = evaluateAction(action);
-            
-            expect(result).toBe('');
-            expect(mockConsoleError).toHaveBeenCalledWith(
-                expect.stringContaining("Action function 'notAFunction' is not defined.")
-            );
-            
-            mockConsoleError.mockRestore();
-        });
-
-        it('should handle undefined window environment', () => {
-            // Ensure window is undefined
-            global.window = undefined;
-            
-            const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
-            
-            const action = '()=>[someFunction]';
-            
-            const result = evaluateAction(action);
-            
-            expect(result).toBe('');
-            expect(mockConsoleError).toHaveBeenCalledWith(
-                expect.stringContaining("Action function 'someFunction' is not defined.")
-            );
-            
-            mockConsoleError.mockRestore();
-        });
-
-        it('should handle action with empty function name', () => {
-            global.window = {};
-            
-            const action = '()=>[  ]'; // Empty function name with spaces
-            
-            const result = evaluateAction(action);
-            
-            // Should return original action since regex doesn't match whitespace
-            expect(result).toBe('()=>[  ]');
-        });
-
-        it('should handle various regex match cases', () => {
-            // Test different function name patterns
-            const testCases = [
-                '()=>[validName]',
-                '()=>[name123]',
-                '()=>[mixedCase_Name]'
-            ];
-
-            testCases.forEach(action => {
-                const result = evaluateAction(action);
-                // All should result in empty string due to undefined functions
-                expect(result).toBe('');
-            });
-        });
-    });
-
     describe('replaceVariables - Edge Cases', () => {
         it('should handle options object with prototype properties', () => {
             const section = 'Hello Input::name and Input::inherited';
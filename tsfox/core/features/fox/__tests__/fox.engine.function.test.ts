@@ -7,8 +7,6 @@ import {
   parseSections, 
   replaceVariables, 
   replaceVariableSymbols,
-  executeActions,
-  evaluateAction,
   wrapHTML 
 } from '../fox.engine.function';
 
@@ -132,70 +130,6 @@ describe('Fox Engine Functions', () => {
     });
   });
 
-  describe('executeActions', () => {
-    it('should handle section without actions', () => {
-      const section = 'No actions here';
-      const result = executeActions(section);
-      
-      expect(result).toBe('No actions here');
-    });
-
-    it('should process action tags and replace with evaluated result', () => {
-      const section = 'Before <action>Exec::nonexistent</action> After';
-      
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      
-      const result = executeActions(section);
-      
-      // The action tags are processed and replaced with the evaluation result
-      expect(result).toBe('Before Exec::nonexistent After');
-      consoleSpy.mockRestore();
-    });
-
-    it('should process multiple action tags', () => {
-      const section = '<action>Exec::test1</action> and <action>Exec::test2</action>';
-      
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      
-      const result = executeActions(section);
-      
-      // Current implementation processes all action tags in the section
-      expect(result).toBe('Exec::test1 and Exec::test2');
-      consoleSpy.mockRestore();
-    });
-  });
-
-  describe('evaluateAction', () => {
-    it('should return action unchanged when no match found', () => {
-      const action = 'invalid action format';
-      const result = evaluateAction(action);
-      
-      expect(result).toBe('invalid action format');
-    });
-
-    it('should handle action when function not found', () => {
-      const action = '()=>[nonexistentFunction]';
-      
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      
-      const result = evaluateAction(action);
-      
-      expect(result).toBe('');
-      expect(consoleSpy).toHaveBeenCalledWith(
-        "Action function 'nonexistentFunction' is not defined."
-      );
-      
-      consoleSpy.mockRestore();
-    });
-
-    it('should handle malformed action syntax', () => {
-      const action = 'malformed()=>[test';
-      const result = evaluateAction(action);
-      
-      expect(result).toBe('malformed()=>[test');
-    });
-  });
-
   describe('wrapHTML', () => {
     it('should wrap content in basic HTML structure', () => {
       const content = '<h1>Hello World</h1>';
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { FoxEngine } from '../fox.engine';
+import { FoxTemplateError } from '../template.error';
+import { SafeString } from '../template.filters';
+
+describe('FoxEngine', () => {
+  let engine: FoxEngine;
+
+  beforeEach(() => {
+    engine = new FoxEngine();
+  });
+
+  describe('output', () => {
+    it('should escape output by default', () => {
+      const html = engine.renderString('<p>{{ comment }}</p>', { comment: '<script>alert("x")</script>' });
+      expect(html).toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+    });
+
+    it('should output raw values with triple braces or the raw filter', () => {
+      const data = { html: '<b>bold</b>' };
+      expect(engine.renderString('{{{ html }}}', data)).toBe('<b>bold</b>');
+      expect(engine.renderString('{{ html | raw }}', data)).toBe('<b>bold</b>');
+      expect(engine.renderString('{{ safe }}', { safe: new SafeString('<i>ok</i>') })).toBe('<i>ok</i>');
+    });
+
+    it('should resolve nested properties and render unknown variables as empty strings', () => {
+      const template = '{{user.name}} {{ user.roles[1] }} [{{missing}}] [{{ user.missing }}]';
+      const data = { user: { name: 'Ada', roles: ['user', 'admin'] } };
+
+      expect(engine.renderString(template, data)).toBe('Ada admin [] []');
+      expect(new FoxEngine({ debug: true }).renderString(template, data)).toBe('Ada admin [{{missing}}] [{{ user.missing }}]');
+    });
+
+    it('should render null values as empty strings', () => {
+      expect(engine.renderString('[{{ value }}]', { value: null })).toBe('[]');
+    });
+
+    it('should not expose prototype properties', () => {
+      expect(engine.renderString('{{ user.constructor | default("none") }}', { user: {} })).toBe('none');
+    });
+
+    it('should drop comments', () => {
+      expect(engine.renderString('a{# hidden {{ x }} #}b')).toBe('ab');
+    });
+  });
+
+  describe('control flow', () => {
+    it('should render conditionals with elseif and else', () => {
+      const template = engine.compile('{% if score >= 90 %}A{% elseif score >= 70 and not failed %}B{% else %}C{% endif %}');
+
+      expect(template({ score: 95 })).toBe('A');
+      expect(template({ score: 75, failed: false })).toBe('B');
+      expect(template({ score: 75, failed: true })).toBe('C');
+    });
+
+    it('should treat empty arrays as false and support the in operator', () => {
+      expect(engine.renderString('{% if items %}some{% else %}none{% endif %}', { items: [] })).toBe('none');
+      expect(engine.renderString('{% if "admin" in roles %}yes{% endif %}', { roles: ['admin'] })).toBe('yes');
+    });
+
+    it('should loop over arrays with loop variables', () => {
+      const html = engine.renderString(
+        '{% for item in items %}{{ loop.index }}:{{ item }}{% if not loop.last %},{% endif %}{% endfor %}',
+        { items: ['a', 'b', 'c'] }
+      );
+      expect(html).toBe('1:a,2:b,3:c');
+    });
+
+    it('should loop over object entries and render the empty branch', () => {
+      expect(engine.renderString('{% for key, value in env %}{{ key }}={{ value }};{% endfor %}', { env: { a: 1, b: 2 } }))
+        .toBe('a=1;b=2;');
+      expect(engine.renderString('{% for item in items %}x{% else %}empty{% endfor %}', { items: [] })).toBe('empty');
+    });
+
+    it('should assign variables', () => {
+      expect(engine.renderString('{% set total = price * quantity %}{{ total | fixed(2) }}', { price: 2.5, quantity: 3 }))
+        .toBe('7.50');
+    });
+  });
+
+  describe('filters', () => {
+    it('should chain built-in filters with arguments', () => {
+      const html = engine.renderString('{{ name | trim | upper }} {{ tags | join(" / ") }} {{ text | truncate(8) }}', {
+        name: '  fox ',
+        tags: ['a', 'b'],
+        text: 'abcdefghijkl'
+      });
+      expect(html).toBe('FOX a / b abcde...');
+    });
+
+    it('should support custom filters and escape their output', () => {
+      engine.addFilter('wrap', (value, tag = 'em') => `<${tag}>${value}</${tag}>`);
+
+      expect(engine.hasFilter('wrap')).toBe(true);
+      expect(engine.renderString('{{ name | wrap }}', { name: 'x' })).toBe('&lt;em&gt;x&lt;/em&gt;');
+      expect(engine.renderString('{{ name | wrap("b") | raw }}', { name: 'x' })).toBe('<b>x</b>');
+    });
+
+    it('should report unknown filters with their position', () => {
+      expect(() => engine.compile('line one\n  {{ name | shout }}', 'page.fox')).toThrow(
+        "Unknown filter 'shout' (page.fox:2:13)"
+      );
+    });
+
+    it('should report failing filters at render time', () => {
+      engine.addFilter('explode', () => {
+        throw new Error('boom');
+      });
+
+      try {
+        engine.renderString('\n{{ value | explode }}', { value: 1 }, 'failing.fox');
+        fail('Expected an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FoxTemplateError);
+        expect((error as FoxTemplateError).line).toBe(2);
+        expect((error as FoxTemplateError).column).toBe(12);
+        expect((error as FoxTemplateError).message).toContain("Filter 'explode' failed: boom");
+      }
+    });
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ['<p>\n  {{ name', "Unclosed '{{' tag (bad.fox:2:3)"],
+      ['{% if x %}\nmissing end', "Missing '{% endif %}' for '{% if %}' (bad.fox:1:1)"],
+      ['ok\n{% endfor %}', "Unexpected '{% endfor %}' (bad.fox:2:1)"],
+      ['{% unknown %}', "Unknown tag 'unknown' (bad.fox:1:1)"],
+      ['{{ a + }}', 'Unexpected end of expression (bad.fox:1:7)'],
+      ['{% for x items %}{% endfor %}', "Expected '{% for item in items %}' or '{% for key, value in object %}' (bad.fox:1:1)"]
+    ])('should locate errors in %p', (source, message) => {
+      expect(() => engine.compile(source, 'bad.fox')).toThrow(message);
+    });
+  });
+
+  describe('layouts and partials', () => {
+    it('should fill layout blocks and keep defaults', () => {
+      engine.register('layout', '<title>{% block title %}Site{% endblock %}</title><main>{% block content %}{% endblock %}</main><footer>{% block footer %}(c){% endblock %}</footer>');
+      engine.register('item', '<li>{{ item.name }}</li>');
+
+      const html = engine.renderString(
+        '{% extends "layout" %}{% set heading = "Users" %}' +
+        '{% block title %}{{ heading }}{% endblock %}' +
+        '{% block content %}<ul>{% for item in users %}{% include "item" %}{% endfor %}</ul>{% endblock %}',
+        { users: [{ name: 'Ada' }, { name: 'Linus' }] }
+      );
+
+      expect(html).toBe('<title>Users</title><main><ul><li>Ada</li><li>Linus</li></ul></main><footer>(c)</footer>');
+    });
+
+    it('should pass explicit context to partials', () => {
+      engine.register('badge', '<span>{{ label }}</span>');
+      expect(engine.renderString('{% include "badge" with badge %}', { badge: { label: 'new' } })).toBe('<span>new</span>');
+    });
+
+    it('should reject content outside blocks in child templates', () => {
+      expect(() => engine.compile('{% extends "layout" %}\n<p>stray</p>', 'child.fox')).toThrow(
+        'Content outside of blocks is not allowed in a template that extends a layout (child.fox:2:1)'
+      );
+    });
+
+    it('should stop recursive includes', () => {
+      engine.register('loop', '{% include "loop" %}');
+      expect(() => engine.renderString('{% include "loop" %}')).toThrow('Maximum template nesting depth exceeded');
+    });
+  });
+
+  describe('files', () => {
+    let directory: string;
+
+    const write = (name: string, content: string): string => {
+      const filePath = path.join(directory, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fox-engine-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should render files with layouts and partials from the views directory', async () => {
+      write('layouts/main.fox', '<body>{% block content %}{% endblock %}</body>');
+      write('partials/user.fox', '<li>{{ user.name }}</li>');
+      const page = write('pages/users.fox', [
+        '{% extends "layouts/main" %}',
+        '{% block content %}{% for user in users %}{% include "partials/user" %}{% endfor %}{% endblock %}'
+      ].join('\n'));
+
+      const html = await engine.renderFile(page, { users: [{ name: 'Ada' }], settings: { views: directory } });
+
+      expect(html).toBe('<body><li>Ada</li></body>');
+    });
+
+    it('should resolve relative paths from the including template', async () => {
+      write('shared/header.fox', '<h1>{{ title }}</h1>');
+      const page = write('index.fox', '{% include "./shared/header" %}');
+
+      await expect(engine.renderFile(page, { title: 'Home' })).resolves.toBe('<h1>Home</h1>');
+    });
+
+    it('should report missing partials at the include tag', async () => {
+      const page = write('index.fox', 'a\n  {% include "nope" %}');
+
+      await expect(engine.renderFile(page)).rejects.toThrow(
+        new RegExp(`Cannot load template 'nope': .*ENOENT.* \\(${page.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:2:3\\)`)
+      );
+    });
+
+    it('should reuse compiled templates until the file changes', async () => {
+      const page = write('page.fox', 'v1 {{ n }}');
+
+      expect(await engine.renderFile(page, { n: 1 })).toBe('v1 1');
+      write('page.fox', 'v2 {{ n }}');
+      expect(await engine.renderFile(page, { n: 2 })).toBe('v2 2');
+
+      // With the view cache on, files are not read again
+      expect(await engine.renderFile(page, { n: 3, cache: true })).toBe('v2 3');
+      write('page.fox', 'v3 {{ n }}');
+      expect(await engine.renderFile(page, { n: 4, cache: true })).toBe('v2 4');
+
+      engine.clearCache();
+      expect(await engine.renderFile(page, { n: 5, cache: true })).toBe('v3 5');
+    });
+
+    it('should work as an Express view engine', async () => {
+      write('views/layout.fox', '<html>{% block body %}{% endblock %}</html>');
+      write('views/home.fox', '{% extends "layout" %}{% block body %}Hi {{ name }}{% endblock %}');
+
+      const app = express();
+      app.engine('fox', engine.express());
+      app.set('views', path.join(directory, 'views'));
+      app.set('view engine', 'fox');
+      app.get('/', (req, res) => res.render('home', { name: '<Ada>' }));
+      app.get('/broken', (req, res) => res.render('missing'));
+
+      await request(app).get('/').expect(200, '<html>Hi &lt;Ada&gt;</html>');
+      await request(app).get('/broken').expect(500);
+    });
+  });
+});
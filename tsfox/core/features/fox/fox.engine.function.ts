@@ -1,3 +1,8 @@
+/**
+ * @fileoverview Legacy `<section>`/`Input::` helpers, kept for
+ * compatibility. The `.fox` view engine does not use them; see FoxEngine.
+ */
+
 export function parseSections(data: any) {
     const sectionRegex = /<section>(.*?)<\/section>/gs;
     const sections = [];
@@ -34,44 +39,6 @@ export function replaceVariableSymbols(section: string, options: { [x: string]:
   return processedSection;
 }
 
-export function executeActions(section: string) {
-    const actionRegex = /<action>(Exec::.*?)<\/action>/gs;
-    let match;
-
-    while ((match = actionRegex.exec(section))) {
-        const action = match[1];
-        const result = evaluateAction(action);
-        section = section.replace(match[0], result);
-        // Reset regex index after modification
-        actionRegex.lastIndex = 0;
-    }
-
-    return section;
-}
-
-export function evaluateAction(action: string) {
-    const functionCallRegex = /\(\)=>\[(\w+)\]/;
-    const match = functionCallRegex.exec(action);
-
-    if (!match) {
-        return action;
-    }
-
-    const functionName: any = match[1];
-
-    if (typeof window !== 'undefined' && window[functionName] && typeof window[functionName] === 'function') {
-        try {
-            return eval(functionName);
-        } catch (error) {
-            /* eslint-disable */console.error(`Error executing action function '${functionName}':`, error);
-            return '';
-        }
-    }
-
-    /* eslint-disable */console.error(`Action function '${functionName}' is not defined.`);
-    return '';
-}
-
 export function wrapHTML(content: string) {
     return `<html><body>${content}</body></html>`;
 }
\ No newline at end of file
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Server-side .fox template engine
+ * @module tsfox/core/features/fox/fox.engine
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  CompiledFoxTemplate,
+  FoxEngineOptions,
+  FoxFilter,
+  FoxRuntime,
+  FoxTemplateFunction
+} from './interfaces';
+import { FoxTemplateError } from './template.error';
+import { builtinFilters } from './template.filters';
+import { compileTemplate, renderTemplate } from './template.compiler';
+
+const DEFAULT_EXTENSION = '.fox';
+
+/**
+ * Compiles .fox templates to render functions and renders files with
+ * their layouts and partials.
+ *
+ * Compiled file templates are kept in memory and reused while the file
+ * content is unchanged. With `cache` enabled (or Express `view cache`,
+ * on by default in production) files are not read again at all.
+ */
+export class FoxEngine {
+  private readonly filters: Record<string, FoxFilter>;
+  private readonly cache = new Map<string, CompiledFoxTemplate>();
+  private readonly registry = new Map<string, CompiledFoxTemplate>();
+
+  constructor(private readonly options: FoxEngineOptions = {}) {
+    this.filters = { ...builtinFilters, ...(options.filters || {}) };
+  }
+
+  /**
+   * Register a filter
+   */
+  addFilter(name: string, filter: FoxFilter): this {
+    this.filters[name] = filter;
+    return this;
+  }
+
+  /**
+   * Check if a filter is registered
+   */
+  hasFilter(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.filters, name);
+  }
+
+  /**
+   * Register an in-memory template usable by name from `extends` and `include`
+   */
+  register(name: string, source: string): this {
+    this.registry.set(name, compileTemplate(source, name, this.filters, this.options));
+    return this;
+  }
+
+  /**
+   * Compile a template source to a render function.
+   * Layouts and partials must have been registered with `register()`.
+   */
+  compile(source: string, name = 'inline'): FoxTemplateFunction {
+    const template = compileTemplate(source, name, this.filters, this.options);
+    const resolve = this.resolver(new Map());
+
+    return (data = {}) => renderTemplate(template, data, resolve);
+  }
+
+  /**
+   * Render a template source
+   */
+  renderString(source: string, data: Record<string, any> = {}, name?: string): string {
+    return this.compile(source, name)(data);
+  }
+
+  /**
+   * Render a template file, loading its layouts and partials
+   */
+  async renderFile(filePath: string, data: Record<string, any> = {}): Promise<string> {
+    const useCache = this.options.cache ?? Boolean(data.cache);
+    const views = this.viewDirectories(data);
+    const loaded = new Map<string, CompiledFoxTemplate>();
+
+    const template = await this.loadFile(filePath, useCache);
+    await this.loadDependencies(template, views, useCache, loaded, new Set([template.name]));
+
+    return renderTemplate(template, data, this.resolver(loaded));
+  }
+
+  /**
+   * Express view engine callback
+   */
+  express(): (filePath: string, options: any, callback: (error: any, rendered?: string) => void) => void {
+    return (filePath, options, callback) => {
+      this.renderFile(filePath, options || {}).then(
+        rendered => callback(null, rendered),
+        error => callback(error)
+      );
+    };
+  }
+
+  /**
+   * Drop compiled file templates
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async loadDependencies(
+    template: CompiledFoxTemplate,
+    views: string[],
+    useCache: boolean,
+    loaded: Map<string, CompiledFoxTemplate>,
+    visited: Set<string>
+  ): Promise<void> {
+    for (const dependency of template.dependencies) {
+      const key = dependencyKey(template, dependency.template);
+      if (this.registry.has(dependency.template) || loaded.has(key)) {
+        continue;
+      }
+
+      const filePath = this.resolvePath(dependency.template, template.name, views);
+      let child: CompiledFoxTemplate;
+      try {
+        child = await this.loadFile(filePath, useCache);
+      } catch (error) {
+        if (error instanceof FoxTemplateError) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        throw template.error(dependency.offset, `Cannot load template '${dependency.template}': ${reason}`, error);
+      }
+
+      loaded.set(key, child);
+      if (!visited.has(child.name)) {
+        visited.add(child.name);
+        await this.loadDependencies(child, views, useCache, loaded, visited);
+      }
+    }
+  }
+
+  private async loadFile(filePath: string, useCache: boolean): Promise<CompiledFoxTemplate> {
+    const cached = this.cache.get(filePath);
+    if (cached && useCache) {
+      return cached;
+    }
+
+    const source = await readTemplate(filePath);
+    if (cached && cached.source === source) {
+      return cached;
+    }
+
+    const template = compileTemplate(source, filePath, this.filters, this.options);
+    this.cache.set(filePath, template);
+    return template;
+  }
+
+  private resolver(loaded: Map<string, CompiledFoxTemplate>): FoxRuntime['resolve'] {
+    return (from, name, offset) => {
+      const template = this.registry.get(name) || loaded.get(dependencyKey(from, name));
+      if (!template) {
+        throw from.error(offset, `Template '${name}' is not loaded`);
+      }
+      return template;
+    };
+  }
+
+  private resolvePath(name: string, from: string, views: string[]): string {
+    const file = path.extname(name) ? name : `${name}${this.options.extension || DEFAULT_EXTENSION}`;
+
+    if (path.isAbsolute(file)) {
+      return file;
+    }
+    if (/^\.\.?[\\/]/.test(file)) {
+      return path.resolve(path.dirname(from), file);
+    }
+
+    for (const directory of views) {
+      const candidate = path.resolve(directory, file);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    return path.resolve(path.dirname(from), file);
+  }
+
+  private viewDirectories(data: Record<string, any>): string[] {
+    const views = this.options.views ?? data.settings?.views;
+    if (!views) {
+      return [];
+    }
+    return Array.isArray(views) ? views : [views];
+  }
+}
+
+function dependencyKey(from: CompiledFoxTemplate, name: string): string {
+  return `${from.name}\u0000${name}`;
+}
+
+function readTemplate(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    fs.readFile(filePath, (error: NodeJS.ErrnoException | null, content: Buffer) => {
+      if (error) {
+        return reject(error);
+      }
+      resolve(content.toString());
+    });
+  });
+}
+
+/**
+ * Engine used by FoxServer for `.fox` views
+ */
+export const foxEngine = new FoxEngine();
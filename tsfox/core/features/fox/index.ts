@@ -0,0 +1,13 @@
+/**
+ * @fileoverview .fox template engine exports
+ * @module tsfox/core/features/fox
+ */
+
+export { FoxEngine, foxEngine } from './fox.engine';
+export { FoxTemplateError } from './template.error';
+export { SafeString, escapeHtml, builtinFilters } from './template.filters';
+export {
+  FoxFilter,
+  FoxTemplateFunction,
+  FoxEngineOptions
+} from './interfaces';
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Interfaces for the .fox template engine
+ * @module tsfox/core/features/fox/interfaces
+ */
+
+import { FoxTemplateError } from './template.error';
+
+/**
+ * Filter applied with `{{ value | name(arg) }}`
+ */
+export type FoxFilter = (value: any, ...args: any[]) => any;
+
+/**
+ * Compiled template ready to be called with its data
+ */
+export type FoxTemplateFunction = (data?: Record<string, any>) => string;
+
+/**
+ * Template engine options
+ */
+export interface FoxEngineOptions {
+  /** Skip re-reading template files once compiled (default: Express `view cache` setting) */
+  cache?: boolean;
+  /** Directories searched for layouts and partials (default: Express `views` setting) */
+  views?: string | string[];
+  /** Extension added to layout and partial names without one (default: `.fox`) */
+  extension?: string;
+  /** Filters added to the built-in ones */
+  filters?: Record<string, FoxFilter>;
+  /**
+   * Render unknown variables as their `{{ ... }}` source instead of an empty string,
+   * to spot them while developing (default: false)
+   */
+  debug?: boolean;
+}
+
+/**
+ * Reference to another template from `{% extends %}` or `{% include %}`
+ */
+export interface FoxTemplateReference {
+  template: string;
+  /** Offset of the tag in the referencing template */
+  offset: number;
+}
+
+// ==================== Syntax tree ====================
+
+export type FoxExpression =
+  | { type: 'literal'; value: any; offset: number }
+  | { type: 'variable'; name: string; offset: number }
+  | { type: 'member'; object: FoxExpression; property: FoxExpression; offset: number }
+  | { type: 'unary'; operator: string; argument: FoxExpression; offset: number }
+  | { type: 'binary'; operator: string; left: FoxExpression; right: FoxExpression; offset: number }
+  | { type: 'filter'; name: string; target: FoxExpression; args: FoxExpression[]; offset: number };
+
+export type FoxNode =
+  | { type: 'text'; value: string; offset: number }
+  | { type: 'output'; expression: FoxExpression; raw: boolean; source: string; offset: number }
+  | { type: 'if'; branches: Array<{ test: FoxExpression; body: FoxNode[] }>; alternate: FoxNode[]; offset: number }
+  | { type: 'for'; key?: string; value: string; iterable: FoxExpression; body: FoxNode[]; empty: FoxNode[]; offset: number }
+  | { type: 'set'; name: string; expression: FoxExpression; offset: number }
+  | { type: 'block'; name: string; offset: number }
+  | { type: 'include'; template: string; context?: FoxExpression; offset: number };
+
+export interface FoxTemplateAst {
+  name: string;
+  layout?: FoxTemplateReference;
+  body: FoxNode[];
+  blocks: Record<string, FoxNode[]>;
+  dependencies: FoxTemplateReference[];
+}
+
+// ==================== Compiled templates ====================
+
+/**
+ * State shared by the render functions of a single render call
+ */
+export interface FoxRuntime {
+  /** Find an already loaded layout or partial */
+  resolve(from: CompiledFoxTemplate, name: string, offset: number): CompiledFoxTemplate;
+  /** Block bodies after layout overrides */
+  blocks: Record<string, FoxRenderFunction>;
+  /** Current layout/include nesting depth */
+  depth: number;
+}
+
+export type FoxRenderFunction = (scope: Record<string, any>, runtime: FoxRuntime) => string;
+
+export interface CompiledFoxTemplate {
+  name: string;
+  source: string;
+  layout?: FoxTemplateReference;
+  dependencies: FoxTemplateReference[];
+  blocks: Record<string, FoxRenderFunction>;
+  render: FoxRenderFunction;
+  /** Build an error pointing at a position of this template */
+  error(offset: number, message: string, originalError?: unknown): FoxTemplateError;
+}
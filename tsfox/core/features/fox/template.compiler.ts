@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Compiles .fox syntax trees to render functions
+ * @module tsfox/core/features/fox/template.compiler
+ */
+
+import {
+  CompiledFoxTemplate,
+  FoxEngineOptions,
+  FoxExpression,
+  FoxFilter,
+  FoxNode,
+  FoxRenderFunction,
+  FoxRuntime
+} from './interfaces';
+import { FoxTemplateError } from './template.error';
+import { parseTemplate } from './template.parser';
+import { toHtml, toText } from './template.filters';
+
+type Evaluator = (scope: Record<string, any>, runtime: FoxRuntime) => any;
+
+/** Maximum layout and include nesting, guarding against recursive templates */
+export const MAX_TEMPLATE_DEPTH = 50;
+
+/** Properties never readable from templates */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Compile a template source.
+ * Filters are looked up when the template is rendered, so filters added
+ * later to the same registry are available to already compiled templates.
+ */
+export function compileTemplate(
+  source: string,
+  name: string,
+  filters: Record<string, FoxFilter>,
+  options: Pick<FoxEngineOptions, 'debug'> = {}
+): CompiledFoxTemplate {
+  const ast = parseTemplate(source, name);
+  const error = (offset: number, message: string, originalError?: unknown) =>
+    FoxTemplateError.at(source, offset, name, message, originalError);
+
+  const template: CompiledFoxTemplate = {
+    name,
+    source,
+    layout: ast.layout,
+    dependencies: ast.dependencies,
+    blocks: {},
+    render: () => '',
+    error
+  };
+
+  const compiler = new TemplateCompiler(template, filters, Boolean(options.debug));
+  for (const [block, body] of Object.entries(ast.blocks)) {
+    template.blocks[block] = compiler.body(body);
+  }
+  // Only variables run before rendering the layout of a child template
+  template.render = compiler.body(ast.layout ? ast.body.filter(node => node.type === 'set') : ast.body);
+
+  return template;
+}
+
+/**
+ * Render a compiled template, following its layout chain
+ */
+export function renderTemplate(
+  template: CompiledFoxTemplate,
+  data: Record<string, any>,
+  resolve: FoxRuntime['resolve']
+): string {
+  return renderCompiled(template, createScope(data), resolve, {}, 0);
+}
+
+function renderCompiled(
+  template: CompiledFoxTemplate,
+  scope: Record<string, any>,
+  resolve: FoxRuntime['resolve'],
+  overrides: Record<string, FoxRenderFunction>,
+  depth: number
+): string {
+  if (!template.layout) {
+    return template.render(scope, { resolve, blocks: { ...template.blocks, ...overrides }, depth });
+  }
+
+  if (depth >= MAX_TEMPLATE_DEPTH) {
+    throw template.error(template.layout.offset, 'Maximum template nesting depth exceeded');
+  }
+
+  template.render(scope, { resolve, blocks: {}, depth });
+  const layout = resolve(template, template.layout.template, template.layout.offset);
+
+  // Blocks of the most derived template win
+  return renderCompiled(layout, scope, resolve, { ...template.blocks, ...overrides }, depth + 1);
+}
+
+function createScope(data: Record<string, any>): Record<string, any> {
+  return Object.assign(Object.create(null), data);
+}
+
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function getProperty(object: any, property: any): any {
+  if (object === undefined || object === null || BLOCKED_PROPERTIES.has(String(property))) {
+    return undefined;
+  }
+  return object[property];
+}
+
+function toEntries(value: any): Array<[any, any]> {
+  if (value === undefined || value === null || value === false) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [index, item]);
+  }
+  if (value instanceof Map) {
+    return Array.from(value.entries());
+  }
+  if (typeof value === 'object' && typeof value[Symbol.iterator] === 'function') {
+    return Array.from(value as Iterable<any>).map((item, index) => [index, item]);
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value);
+  }
+  return [[0, value]];
+}
+
+function contains(container: any, item: any): boolean {
+  if (Array.isArray(container) || typeof container === 'string') {
+    return container.includes(item);
+  }
+  if (container instanceof Map || container instanceof Set) {
+    return container.has(item);
+  }
+  return container !== null && typeof container === 'object' && Object.prototype.hasOwnProperty.call(container, item);
+}
+
+class TemplateCompiler {
+  constructor(
+    private readonly template: CompiledFoxTemplate,
+    private readonly filters: Record<string, FoxFilter>,
+    private readonly debug: boolean
+  ) {}
+
+  body(nodes: FoxNode[]): FoxRenderFunction {
+    const renderers = nodes.map(node => this.node(node));
+
+    return (scope, runtime) => {
+      let output = '';
+      for (const render of renderers) {
+        output += render(scope, runtime);
+      }
+      return output;
+    };
+  }
+
+  private node(node: FoxNode): FoxRenderFunction {
+    switch (node.type) {
+      case 'text': {
+        const value = node.value;
+        return () => value;
+      }
+
+      case 'output': {
+        const evaluate = this.expression(node.expression);
+        const isLookup = node.expression.type === 'variable' || node.expression.type === 'member';
+        const keepUnknown = this.debug && isLookup;
+        const { raw, source } = node;
+
+        return (scope, runtime) => {
+          const value = evaluate(scope, runtime);
+          // In debug mode unknown variables are left in place, which keeps mistakes visible
+          if (value === undefined && keepUnknown) {
+            return source;
+          }
+          return raw ? toText(value) : toHtml(value);
+        };
+      }
+
+      case 'if': {
+        const branches = node.branches.map(branch => ({ test: this.expression(branch.test), body: this.body(branch.body) }));
+        const alternate = this.body(node.alternate);
+
+        return (scope, runtime) => {
+          for (const branch of branches) {
+            if (isTruthy(branch.test(scope, runtime))) {
+              return branch.body(scope, runtime);
+            }
+          }
+          return alternate(scope, runtime);
+        };
+      }
+
+      case 'for': {
+        const iterable = this.expression(node.iterable);
+        const body = this.body(node.body);
+        const empty = this.body(node.empty);
+        const { key, value } = node;
+
+        return (scope, runtime) => {
+          const entries = toEntries(iterable(scope, runtime));
+          if (entries.length === 0) {
+            return empty(scope, runtime);
+          }
+
+          let output = '';
+          entries.forEach(([entryKey, entryValue], index) => {
+            const loopScope = Object.create(scope);
+            loopScope[value] = entryValue;
+            if (key) {
+              loopScope[key] = entryKey;
+            }
+            loopScope.loop = {
+              index: index + 1,
+              index0: index,
+              first: index === 0,
+              last: index === entries.length - 1,
+              length: entries.length
+            };
+            output += body(loopScope, runtime);
+          });
+          return output;
+        };
+      }
+
+      case 'set': {
+        const evaluate = this.expression(node.expression);
+        const name = node.name;
+
+        return (scope, runtime) => {
+          scope[name] = evaluate(scope, runtime);
+          return '';
+        };
+      }
+
+      case 'block': {
+        const name = node.name;
+        return (scope, runtime) => {
+          const block = runtime.blocks[name];
+          return block ? block(scope, runtime) : '';
+        };
+      }
+
+      case 'include': {
+        const context = node.context ? this.expression(node.context) : undefined;
+        const { template: name, offset } = node;
+
+        return (scope, runtime) => {
+          if (runtime.depth >= MAX_TEMPLATE_DEPTH) {
+            throw this.template.error(offset, 'Maximum template nesting depth exceeded');
+          }
+
+          const partial = runtime.resolve(this.template, name, offset);
+          const partialScope = Object.create(scope);
+          if (context) {
+            Object.assign(partialScope, context(scope, runtime));
+          }
+          return renderCompiled(partial, partialScope, runtime.resolve, {}, runtime.depth + 1);
+        };
+      }
+    }
+  }
+
+  private expression(node: FoxExpression): Evaluator {
+    switch (node.type) {
+      case 'literal': {
+        const value = node.value;
+        return () => value;
+      }
+
+      case 'variable': {
+        const name = node.name;
+        return scope => getProperty(scope, name);
+      }
+
+      case 'member': {
+        const object = this.expression(node.object);
+        const property = this.expression(node.property);
+        return (scope, runtime) => getProperty(object(scope, runtime), property(scope, runtime));
+      }
+
+      case 'unary': {
+        const argument = this.expression(node.argument);
+        return node.operator === 'not'
+          ? (scope, runtime) => !isTruthy(argument(scope, runtime))
+          : (scope, runtime) => -argument(scope, runtime);
+      }
+
+      case 'binary':
+        return this.binary(node);
+
+      case 'filter': {
+        const target = this.expression(node.target);
+        const args = node.args.map(arg => this.expression(arg));
+        const { name, offset } = node;
+
+        if (!this.filters[name]) {
+          throw this.template.error(offset, `Unknown filter '${name}'`);
+        }
+
+        return (scope, runtime) => {
+          const value = target(scope, runtime);
+          const values = args.map(arg => arg(scope, runtime));
+          try {
+            return this.filters[name](value, ...values);
+          } catch (error) {
+            if (error instanceof FoxTemplateError) {
+              throw error;
+            }
+            const reason = error instanceof Error ? error.message : String(error);
+            throw this.template.error(offset, `Filter '${name}' failed: ${reason}`, error);
+          }
+        };
+      }
+    }
+  }
+
+  private binary(node: Extract<FoxExpression, { type: 'binary' }>): Evaluator {
+    const left = this.expression(node.left);
+    const right = this.expression(node.right);
+
+    switch (node.operator) {
+      case 'and':
+        return (scope, runtime) => {
+          const value = left(scope, runtime);
+          return isTruthy(value) ? right(scope, runtime) : value;
+        };
+      case 'or':
+        return (scope, runtime) => {
+          const value = left(scope, runtime);
+          return isTruthy(value) ? value : right(scope, runtime);
+        };
+      case '==':
+        return (scope, runtime) => left(scope, runtime) === right(scope, runtime);
+      case '!=':
+        return (scope, runtime) => left(scope, runtime) !== right(scope, runtime);
+      case '<':
+        return (scope, runtime) => left(scope, runtime) < right(scope, runtime);
+      case '<=':
+        return (scope, runtime) => left(scope, runtime) <= right(scope, runtime);
+      case '>':
+        return (scope, runtime) => left(scope, runtime) > right(scope, runtime);
+      case '>=':
+        return (scope, runtime) => left(scope, runtime) >= right(scope, runtime);
+      case 'in':
+        return (scope, runtime) => contains(right(scope, runtime), left(scope, runtime));
+      case '+':
+        return (scope, runtime) => left(scope, runtime) + right(scope, runtime);
+      case '-':
+        return (scope, runtime) => left(scope, runtime) - right(scope, runtime);
+      case '*':
+        return (scope, runtime) => left(scope, runtime) * right(scope, runtime);
+      case '/':
+        return (scope, runtime) => left(scope, runtime) / right(scope, runtime);
+      case '%':
+        return (scope, runtime) => left(scope, runtime) % right(scope, runtime);
+      default:
+        throw this.template.error(node.offset, `Unknown operator '${node.operator}'`);
+    }
+  }
+}
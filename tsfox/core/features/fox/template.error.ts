@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Errors raised while compiling or rendering .fox templates
+ * @module tsfox/core/features/fox/template.error
+ */
+
+/**
+ * Template error carrying the template name, line and column (1-based)
+ */
+export class FoxTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly template: string,
+    public readonly line: number,
+    public readonly column: number,
+    public readonly originalError?: unknown
+  ) {
+    super(`${message} (${template}:${line}:${column})`);
+    this.name = 'FoxTemplateError';
+  }
+
+  /**
+   * Create an error for an offset of a template source
+   */
+  static at(source: string, offset: number, template: string, message: string, originalError?: unknown): FoxTemplateError {
+    const { line, column } = locate(source, offset);
+    return new FoxTemplateError(message, template, line, column, originalError);
+  }
+}
+
+/**
+ * Convert a source offset to a 1-based line and column
+ */
+export function locate(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Expression parser for .fox templates
+ * @module tsfox/core/features/fox/template.expression
+ *
+ * Grammar, from lowest to highest precedence:
+ * - `or` / `||`
+ * - `and` / `&&`
+ * - `not` / `!`
+ * - `==` `!=` `<` `<=` `>` `>=` `in`
+ * - `+` `-`
+ * - `*` `/` `%`
+ * - unary `-`
+ * - filters: `value | name` or `value | name(arg, ...)`
+ * - member access: `user.name`, `items[0]`, `map["key"]`
+ * - literals, variables and parenthesized expressions
+ */
+
+import { FoxExpression } from './interfaces';
+
+interface ExpressionToken {
+  type: 'number' | 'string' | 'name' | 'operator' | 'end';
+  value: any;
+  offset: number;
+}
+
+type ErrorFactory = (offset: number, message: string) => Error;
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '|', '.', '[', ']', '(', ')', ','];
+
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+/**
+ * Parse an expression whose first character is at `offset` in the template source
+ */
+export function parseExpression(expression: string, offset: number, fail: ErrorFactory): FoxExpression {
+  return new ExpressionParser(tokenizeExpression(expression, offset, fail), fail).parse();
+}
+
+function tokenizeExpression(expression: string, offset: number, fail: ErrorFactory): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const position = offset + index;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?/.exec(expression.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), offset: position });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_$][\w$]*/.exec(expression.slice(index));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], offset: position });
+      index += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < expression.length && expression[cursor] !== char) {
+        if (expression[cursor] === '\\' && cursor + 1 < expression.length) {
+          cursor++;
+          value += ESCAPES[expression[cursor]] ?? expression[cursor];
+        } else {
+          value += expression[cursor];
+        }
+        cursor++;
+      }
+      if (cursor >= expression.length) {
+        throw fail(position, 'Unterminated string literal');
+      }
+      tokens.push({ type: 'string', value, offset: position });
+      index = cursor + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => expression.startsWith(candidate, index));
+    if (!operator) {
+      throw fail(position, `Unexpected character '${char}'`);
+    }
+    tokens.push({ type: 'operator', value: operator, offset: position });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: undefined, offset: offset + expression.length });
+  return tokens;
+}
+
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private readonly tokens: ExpressionToken[], private readonly fail: ErrorFactory) {}
+
+  parse(): FoxExpression {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw this.fail(token.offset, `Unexpected '${token.value}'`);
+    }
+    return expression;
+  }
+
+  private parseOr(): FoxExpression {
+    let left = this.parseAnd();
+    while (this.isName('or') || this.isOperator('||')) {
+      const token = this.next();
+      left = { type: 'binary', operator: 'or', left, right: this.parseAnd(), offset: token.offset };
+    }
+    return left;
+  }
+
+  private parseAnd(): FoxExpression {
+    let left = this.parseNot();
+    while (this.isName('and') || this.isOperator('&&')) {
+      const token = this.next();
+      left = { type: 'binary', operator: 'and', left, right: this.parseNot(), offset: token.offset };
+    }
+    return left;
+  }
+
+  private parseNot(): FoxExpression {
+    if (this.isName('not') || this.isOperator('!')) {
+      const token = this.next();
+      return { type: 'unary', operator: 'not', argument: this.parseNot(), offset: token.offset };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FoxExpression {
+    let left = this.parseAdditive();
+    while (COMPARISON_OPERATORS.some(operator => this.isOperator(operator)) || this.isName('in')) {
+      const token = this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.parseAdditive(), offset: token.offset };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FoxExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const token = this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.parseMultiplicative(), offset: token.offset };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FoxExpression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const token = this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.parseUnary(), offset: token.offset };
+    }
+    return left;
+  }
+
+  private parseUnary(): FoxExpression {
+    if (this.isOperator('-')) {
+      const token = this.next();
+      return { type: 'unary', operator: '-', argument: this.parseUnary(), offset: token.offset };
+    }
+    return this.parseFiltered();
+  }
+
+  private parseFiltered(): FoxExpression {
+    let target = this.parseMember();
+    while (this.isOperator('|')) {
+      this.next();
+      const name = this.expect('name', 'Expected a filter name');
+      const args: FoxExpression[] = [];
+
+      if (this.isOperator('(')) {
+        this.next();
+        if (!this.isOperator(')')) {
+          args.push(this.parseOr());
+          while (this.isOperator(',')) {
+            this.next();
+            args.push(this.parseOr());
+          }
+        }
+        this.expectOperator(')');
+      }
+
+      target = { type: 'filter', name: name.value, target, args, offset: name.offset };
+    }
+    return target;
+  }
+
+  private parseMember(): FoxExpression {
+    let object = this.parsePrimary();
+
+    while (this.isOperator('.') || this.isOperator('[')) {
+      const token = this.next();
+      if (token.value === '.') {
+        const name = this.expect('name', 'Expected a property name');
+        object = { type: 'member', object, property: { type: 'literal', value: name.value, offset: name.offset }, offset: name.offset };
+      } else {
+        const property = this.parseOr();
+        this.expectOperator(']');
+        object = { type: 'member', object, property, offset: token.offset };
+      }
+    }
+
+    return object;
+  }
+
+  private parsePrimary(): FoxExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value, offset: token.offset };
+      case 'name':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true', offset: token.offset };
+        }
+        if (token.value === 'null') {
+          return { type: 'literal', value: null, offset: token.offset };
+        }
+        return { type: 'variable', name: token.value, offset: token.offset };
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.parseOr();
+          this.expectOperator(')');
+          return expression;
+        }
+        throw this.fail(token.offset, `Unexpected '${token.value}'`);
+      default:
+        throw this.fail(token.offset, 'Unexpected end of expression');
+    }
+  }
+
+  private peek(): ExpressionToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): ExpressionToken {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isName(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'name' && token.value === value;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(type: ExpressionToken['type'], message: string): ExpressionToken {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.fail(token.offset, message);
+    }
+    return this.next();
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.isOperator(value)) {
+      throw this.fail(this.peek().offset, `Expected '${value}'`);
+    }
+    this.next();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Output escaping and built-in filters of the .fox template engine
+ * @module tsfox/core/features/fox/template.filters
+ */
+
+import { FoxFilter } from './interfaces';
+
+/**
+ * Value that is already safe HTML and must not be escaped again
+ */
+export class SafeString {
+  constructor(public readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Convert a value to text; null and undefined become an empty string
+ */
+export function toText(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return value instanceof SafeString ? value.value : String(value);
+}
+
+/**
+ * Convert a value to escaped HTML, unless it is a SafeString
+ */
+export function toHtml(value: any): string {
+  return value instanceof SafeString ? value.value : escapeHtml(toText(value));
+}
+
+export const builtinFilters: Record<string, FoxFilter> = {
+  raw: value => new SafeString(toText(value)),
+  safe: value => new SafeString(toText(value)),
+  escape: value => new SafeString(toHtml(value)),
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  capitalize: value => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: value => toText(value).trim(),
+  default: (value, fallback = '') => (value === undefined || value === null || value === '' ? fallback : value),
+  length: value => {
+    if (value === undefined || value === null) {
+      return 0;
+    }
+    if (typeof value === 'string' || Array.isArray(value)) {
+      return value.length;
+    }
+    if (value instanceof Map || value instanceof Set) {
+      return value.size;
+    }
+    return typeof value === 'object' ? Object.keys(value).length : 0;
+  },
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value)),
+  first: value => (Array.isArray(value) || typeof value === 'string' ? value[0] : undefined),
+  last: value => (Array.isArray(value) || typeof value === 'string' ? value[value.length - 1] : undefined),
+  reverse: value => {
+    if (Array.isArray(value)) {
+      return [...value].reverse();
+    }
+    return toText(value).split('').reverse().join('');
+  },
+  sort: (value, key?: string) => {
+    if (!Array.isArray(value)) {
+      return value;
+    }
+    const pick = (item: any) => (key && item !== null && typeof item === 'object' ? item[key] : item);
+    return [...value].sort((a, b) => {
+      const left = pick(a);
+      const right = pick(b);
+      return left < right ? -1 : left > right ? 1 : 0;
+    });
+  },
+  keys: value => (value !== null && typeof value === 'object' ? Object.keys(value) : []),
+  json: (value, spaces?: number) => JSON.stringify(value, null, spaces),
+  truncate: (value, length = 80, suffix = '...') => {
+    const text = toText(value);
+    return text.length > length ? text.slice(0, Math.max(0, length - suffix.length)) + suffix : text;
+  },
+  replace: (value, search: string, replacement = '') => toText(value).split(search).join(replacement),
+  fixed: (value, digits = 0) => Number(value).toFixed(digits),
+  url: value => encodeURIComponent(toText(value)),
+  nl2br: value => new SafeString(toHtml(value).replace(/\r?\n/g, '<br>'))
+};
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Splits .fox template sources into text, output and tag tokens
+ * @module tsfox/core/features/fox/template.lexer
+ */
+
+import { FoxTemplateError } from './template.error';
+
+export type TemplateToken =
+  | { type: 'text'; value: string; offset: number }
+  | { type: 'output'; expression: string; expressionOffset: number; raw: boolean; source: string; offset: number }
+  | { type: 'tag'; name: string; args: string; argsOffset: number; offset: number };
+
+const OPENING_DELIMITERS = /\{\{\{|\{\{|\{%|\{#/g;
+
+const CLOSING_DELIMITERS: Record<string, string> = {
+  '{{{': '}}}',
+  '{{': '}}',
+  '{%': '%}',
+  '{#': '#}'
+};
+
+/**
+ * Tokenize a template:
+ * - `{{ expr }}` escaped output
+ * - `{{{ expr }}}` raw output
+ * - `{% tag args %}` statements
+ * - `{# comment #}` removed from the output
+ */
+export function tokenizeTemplate(source: string, template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let cursor = 0;
+
+  while (cursor < source.length) {
+    OPENING_DELIMITERS.lastIndex = cursor;
+    const match = OPENING_DELIMITERS.exec(source);
+
+    if (!match) {
+      tokens.push({ type: 'text', value: source.slice(cursor), offset: cursor });
+      break;
+    }
+
+    const start = match.index;
+    const opening = match[0];
+    const closing = CLOSING_DELIMITERS[opening];
+    const contentStart = start + opening.length;
+    const end = source.indexOf(closing, contentStart);
+
+    if (start > cursor) {
+      tokens.push({ type: 'text', value: source.slice(cursor, start), offset: cursor });
+    }
+    if (end === -1) {
+      throw FoxTemplateError.at(source, start, template, `Unclosed '${opening}' tag`);
+    }
+
+    const content = source.slice(contentStart, end);
+    const leading = content.length - content.trimStart().length;
+    const trimmed = content.trim();
+
+    if (opening === '{{' || opening === '{{{') {
+      if (!trimmed) {
+        throw FoxTemplateError.at(source, start, template, 'Empty output tag');
+      }
+      tokens.push({
+        type: 'output',
+        expression: trimmed,
+        expressionOffset: contentStart + leading,
+        raw: opening === '{{{',
+        source: source.slice(start, end + closing.length),
+        offset: start
+      });
+    } else if (opening === '{%') {
+      const name = /^\w+/.exec(trimmed);
+      if (!name) {
+        throw FoxTemplateError.at(source, start, template, 'Missing tag name');
+      }
+
+      const rest = trimmed.slice(name[0].length);
+      const args = rest.trim();
+      tokens.push({
+        type: 'tag',
+        name: name[0],
+        args,
+        argsOffset: contentStart + leading + name[0].length + (rest.length - rest.trimStart().length),
+        offset: start
+      });
+    }
+
+    cursor = end + closing.length;
+  }
+
+  return tokens;
+}
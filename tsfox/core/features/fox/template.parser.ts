@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Builds the syntax tree of a .fox template
+ * @module tsfox/core/features/fox/template.parser
+ */
+
+import { FoxExpression, FoxNode, FoxTemplateAst, FoxTemplateReference } from './interfaces';
+import { FoxTemplateError } from './template.error';
+import { TemplateToken, tokenizeTemplate } from './template.lexer';
+import { parseExpression } from './template.expression';
+
+type TagToken = Extract<TemplateToken, { type: 'tag' }>;
+
+const CLOSING_TAGS = ['elseif', 'elif', 'else', 'endif', 'endfor', 'endblock'];
+
+/**
+ * Parse a template source.
+ *
+ * Supported tags:
+ * - `{% if expr %}` / `{% elseif expr %}` / `{% else %}` / `{% endif %}`
+ * - `{% for item in items %}` or `{% for key, value in object %}`, with an optional `{% else %}` for empty collections
+ * - `{% set name = expr %}`
+ * - `{% extends "layout" %}` and `{% block name %}...{% endblock %}`
+ * - `{% include "partial" %}` or `{% include "partial" with expr %}`
+ */
+export function parseTemplate(source: string, name: string): FoxTemplateAst {
+  return new TemplateParser(source, name).parse();
+}
+
+class TemplateParser {
+  private readonly tokens: TemplateToken[];
+  private index = 0;
+  private layout?: FoxTemplateReference;
+  private readonly blocks: Record<string, FoxNode[]> = {};
+  private readonly dependencies: FoxTemplateReference[] = [];
+
+  constructor(private readonly source: string, private readonly name: string) {
+    this.tokens = tokenizeTemplate(source, name);
+  }
+
+  parse(): FoxTemplateAst {
+    const { body } = this.parseBody([]);
+
+    if (this.layout) {
+      // Templates extending a layout only contribute blocks and variables
+      const stray = body.find(node =>
+        !(node.type === 'text' && !node.value.trim()) && node.type !== 'block' && node.type !== 'set'
+      );
+      if (stray) {
+        const offset = stray.type === 'text'
+          ? stray.offset + stray.value.length - stray.value.trimStart().length
+          : stray.offset;
+        throw this.error(offset, 'Content outside of blocks is not allowed in a template that extends a layout');
+      }
+    }
+
+    return {
+      name: this.name,
+      layout: this.layout,
+      body,
+      blocks: this.blocks,
+      dependencies: this.dependencies
+    };
+  }
+
+  private parseBody(terminators: string[]): { body: FoxNode[]; end?: TagToken } {
+    const body: FoxNode[] = [];
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index++];
+
+      if (token.type === 'text') {
+        body.push({ type: 'text', value: token.value, offset: token.offset });
+      } else if (token.type === 'output') {
+        body.push({
+          type: 'output',
+          expression: this.expression(token.expression, token.expressionOffset),
+          raw: token.raw,
+          source: token.source,
+          offset: token.offset
+        });
+      } else if (terminators.includes(token.name)) {
+        return { body, end: token };
+      } else {
+        const node = this.parseTag(token);
+        if (node) {
+          body.push(node);
+        }
+      }
+    }
+
+    return { body };
+  }
+
+  private parseUntil(opening: TagToken, terminators: string[]): { body: FoxNode[]; end: TagToken } {
+    const { body, end } = this.parseBody(terminators);
+    if (!end) {
+      throw this.error(opening.offset, `Missing '{% ${terminators[terminators.length - 1]} %}' for '{% ${opening.name} %}'`);
+    }
+    return { body, end };
+  }
+
+  private parseTag(token: TagToken): FoxNode | null {
+    switch (token.name) {
+      case 'if':
+        return this.parseIf(token);
+      case 'for':
+        return this.parseFor(token);
+      case 'set':
+        return this.parseSet(token);
+      case 'block':
+        return this.parseBlock(token);
+      case 'extends':
+        return this.parseExtends(token);
+      case 'include':
+        return this.parseInclude(token);
+      default:
+        if (CLOSING_TAGS.includes(token.name)) {
+          throw this.error(token.offset, `Unexpected '{% ${token.name} %}'`);
+        }
+        throw this.error(token.offset, `Unknown tag '${token.name}'`);
+    }
+  }
+
+  private parseIf(token: TagToken): FoxNode {
+    const branches: Array<{ test: FoxExpression; body: FoxNode[] }> = [];
+    let test = this.requiredExpression(token);
+    let alternate: FoxNode[] = [];
+
+    for (;;) {
+      const { body, end } = this.parseUntil(token, ['elseif', 'elif', 'else', 'endif']);
+      branches.push({ test, body });
+
+      if (end.name === 'else') {
+        alternate = this.parseUntil(token, ['endif']).body;
+        break;
+      }
+      if (end.name === 'endif') {
+        break;
+      }
+      test = this.requiredExpression(end);
+    }
+
+    return { type: 'if', branches, alternate, offset: token.offset };
+  }
+
+  private parseFor(token: TagToken): FoxNode {
+    const match = /^(\w+)(?:\s*,\s*(\w+))?\s+in\s+(.+)$/s.exec(token.args);
+    if (!match) {
+      throw this.error(token.offset, "Expected '{% for item in items %}' or '{% for key, value in object %}'");
+    }
+
+    const iterableOffset = token.argsOffset + token.args.length - match[3].length;
+    const iterable = this.expression(match[3], iterableOffset);
+    const { body, end } = this.parseUntil(token, ['else', 'endfor']);
+    const empty = end.name === 'else' ? this.parseUntil(token, ['endfor']).body : [];
+
+    return {
+      type: 'for',
+      key: match[2] ? match[1] : undefined,
+      value: match[2] || match[1],
+      iterable,
+      body,
+      empty,
+      offset: token.offset
+    };
+  }
+
+  private parseSet(token: TagToken): FoxNode {
+    const match = /^(\w+)\s*=\s*(.+)$/s.exec(token.args);
+    if (!match) {
+      throw this.error(token.offset, "Expected '{% set name = expression %}'");
+    }
+
+    const expressionOffset = token.argsOffset + token.args.length - match[2].length;
+    return { type: 'set', name: match[1], expression: this.expression(match[2], expressionOffset), offset: token.offset };
+  }
+
+  private parseBlock(token: TagToken): FoxNode {
+    if (!/^\w+$/.test(token.args)) {
+      throw this.error(token.offset, "Expected '{% block name %}'");
+    }
+    if (this.blocks[token.args]) {
+      throw this.error(token.offset, `Duplicate block '${token.args}'`);
+    }
+
+    const { body, end } = this.parseUntil(token, ['endblock']);
+    if (end.args && end.args !== token.args) {
+      throw this.error(end.offset, `Expected '{% endblock %}' for block '${token.args}', found '${end.args}'`);
+    }
+
+    this.blocks[token.args] = body;
+    return { type: 'block', name: token.args, offset: token.offset };
+  }
+
+  private parseExtends(token: TagToken): null {
+    if (this.layout) {
+      throw this.error(token.offset, 'A template can only extend one layout');
+    }
+
+    this.layout = { template: this.templateName(token, token.args), offset: token.offset };
+    this.dependencies.push(this.layout);
+    return null;
+  }
+
+  private parseInclude(token: TagToken): FoxNode {
+    const match = /^((["']).*?\2)(?:\s+with\s+(.+))?$/s.exec(token.args);
+    const template = this.templateName(token, match ? match[1] : token.args);
+    const context = match && match[3]
+      ? this.expression(match[3], token.argsOffset + token.args.length - match[3].length)
+      : undefined;
+
+    this.dependencies.push({ template, offset: token.offset });
+    return { type: 'include', template, context, offset: token.offset };
+  }
+
+  private templateName(token: TagToken, value: string): string {
+    const match = /^(["'])(.+)\1$/.exec(value);
+    if (!match) {
+      throw this.error(token.offset, `Expected a quoted template name in '{% ${token.name} %}'`);
+    }
+    return match[2];
+  }
+
+  private requiredExpression(token: TagToken): FoxExpression {
+    if (!token.args) {
+      throw this.error(token.offset, `Missing condition in '{% ${token.name} %}'`);
+    }
+    return this.expression(token.args, token.argsOffset);
+  }
+
+  private expression(expression: string, offset: number): FoxExpression {
+    return parseExpression(expression, offset, (position, message) => this.error(position, message));
+  }
+
+  private error(offset: number, message: string): FoxTemplateError {
+    return FoxTemplateError.at(this.source, offset, this.name, message);
+  }
+}
@@ -1,20 +1,71 @@
-import express, { Application } from 'express';
+import express, { Application, Request } from 'express';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 import { IServer } from '../interfaces/server.interface';
 import { FoxServerInterface } from '../interfaces/factory.interface';
 import { ConfigServer } from '../enums/server.enums';
 import { engineFox, engineHtml } from './engine.feature';
+import {
+    clientCertificateMiddleware,
+    createListener,
+    describeListener,
+    requiresClientCertificates,
+    resolveListeners,
+    startListener
+} from './listener.feature';
+import { ListenerServer } from '../interfaces/listener.interface';
+import { SecurityPipeline } from '../security/security.pipeline';
+import { replicationSession } from './database/core/database.session';
 import { ServerConfig } from '../types';
+import { ShutdownManager } from '../lifecycle/shutdown.manager';
+import { eventSystemShutdownHook } from '../lifecycle/shutdown.hooks';
+import { ConnectionTracker } from '../lifecycle/connection.tracker';
+import {
+    ShutdownHook,
+    ShutdownHookOptions,
+    ShutdownOptions,
+    ShutdownOrder,
+    ShutdownResult
+} from '../lifecycle/interfaces';
+import { EventStreamOptions, EventStreamServer, EventStreamSource, rejectUpgrade } from './events/streaming';
+import { ResolvedRoute } from '../routing/interfaces';
+import { OpenAPIDocument, OpenAPIOptions, OpenAPIServeOptions } from '../openapi/interfaces';
+import { generateOpenAPI } from '../openapi/openapi.generator';
+import { openAPIDocumentHandler, swaggerUIHandler } from '../openapi/openapi.handlers';
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 10000;
 
 
 export class FoxServer implements IServer, FoxServerInterface {
     private readonly app: Application;
     private readonly port: number;
     private readonly env: string;
+    private readonly config: ServerConfig;
+    private readonly shutdownOptions: ShutdownOptions;
+    private readonly shutdownManager: ShutdownManager;
+    private readonly securityPipeline: SecurityPipeline;
+    private servers: ListenerServer[] = [];
+    private connectionTrackers: ConnectionTracker[] = [];
+    private eventStreams = new Map<string, EventStreamServer>();
+    private routes: ResolvedRoute[] = [];
+    private upgradeServers = new WeakSet<object>();
+    private listening: Promise<void> = Promise.resolve();
+    private stopping: Promise<ShutdownResult> | null = null;
+    private signalHandlers = new Map<NodeJS.Signals, () => void>();
 
     constructor(optionsServer: ServerConfig) {
         this.app = express();
+        this.config = optionsServer;
         this.port = optionsServer.port;
         this.env = optionsServer.env;
+        this.shutdownOptions = optionsServer.shutdown || {};
+        this.shutdownManager = new ShutdownManager(this.shutdownOptions.hookTimeout);
+        if (this.shutdownOptions.eventSystem) {
+            this.shutdownManager.register('events', eventSystemShutdownHook(this.shutdownOptions.eventSystem), {
+                order: ShutdownOrder.EVENTS
+            });
+        }
+        this.securityPipeline = SecurityPipeline.fromConfig(optionsServer.security);
         this.set('port', this.port);
     }
 
@@ -24,34 +75,62 @@ export class FoxServer implements IServer, FoxServerInterface {
         this.set('json spaces', 4);
         this.use(express.json());
         this.use(express.urlencoded({ extended: false }));
+        this.use(this.securityPipeline.middleware());
+        this.use(replicationSession());
         this.use(express.static('public'));
         this.app.engine('fox', engineFox)
-        this.app.engine('html', engineHtml)
-        
+        this.app.engine('html', engineHtml);
+
+        if (requiresClientCertificates(this.config)) {
+            this.use(clientCertificateMiddleware());
+        }
+
+        (this.config.middlewares || []).forEach(middleware => this.use(middleware));
     }
 
-    public get(path: string, callback: any): any {
-        this.app.get(path, callback);
+    /**
+     * Configuration this server was created with
+     */
+    public getConfig(): ServerConfig {
+        return this.config;
     }
 
-    public post(path: string, callback: any): any {
-        this.app.post(path, callback);
+    /**
+     * Security pipeline built from the `security` configuration
+     */
+    public getSecurityPipeline(): SecurityPipeline {
+        return this.securityPipeline;
     }
 
-    public put(path: string, callback: any): any {
-        this.app.put(path, callback);
+    /**
+     * Underlying Express application
+     */
+    public getApp(): Application {
+        return this.app;
     }
 
-    public delete(path: string, callback: any): any {
-        this.app.delete(path, callback);
+    public get(path: string, ...callbacks: any[]): any {
+        this.app.get(path, ...callbacks);
     }
 
-    public patch(path: string, callback: any): any {
-        this.app.patch(path, callback);
+    public post(path: string, ...callbacks: any[]): any {
+        this.app.post(path, ...callbacks);
     }
 
-    public all(path: string, callback: any): any {
-        this.app.all(path, callback);
+    public put(path: string, ...callbacks: any[]): any {
+        this.app.put(path, ...callbacks);
+    }
+
+    public delete(path: string, ...callbacks: any[]): any {
+        this.app.delete(path, ...callbacks);
+    }
+
+    public patch(path: string, ...callbacks: any[]): any {
+        this.app.patch(path, ...callbacks);
+    }
+
+    public all(path: string, ...callbacks: any[]): any {
+        this.app.all(path, ...callbacks);
     }
 
     public set(setting: string, value: any): any {
@@ -68,18 +147,262 @@ export class FoxServer implements IServer, FoxServerInterface {
         this.app.use(callback);
     }
 
-    public listen(port?: number): void {
-        const serverPort = port || this.port;
-        this.app.listen(serverPort, () => {
-            console.log(`Server listening on port ${serverPort}`);
-        });
+    /**
+     * Record a route registered by the factory, with the path it is served on
+     */
+    public recordRoute(route: ResolvedRoute): void {
+        this.routes.push(route);
+    }
+
+    /**
+     * Routes registered by the factory
+     */
+    public getRoutes(): ResolvedRoute[] {
+        return [...this.routes];
+    }
+
+    /**
+     * OpenAPI 3.1 document of the registered routes, including the security pipeline
+     * stages that apply to each of them
+     */
+    public openapi(options: OpenAPIOptions = {}): OpenAPIDocument {
+        const configured: OpenAPIOptions = typeof this.config.openapi === 'object' ? this.config.openapi : {};
+        return generateOpenAPI(
+            this.routes,
+            { ...configured, ...options, info: { ...configured.info, ...options.info } },
+            this.securityPipeline
+        );
+    }
+
+    /**
+     * Serve the OpenAPI document (default: /openapi.json) and a Swagger UI page for it
+     * (default: /docs). The document is generated on each request.
+     */
+    public serveOpenAPI(options: OpenAPIServeOptions = {}): void {
+        const { path = '/openapi.json', docsPath = '/docs', ...documentOptions } = options;
+
+        this.app.get(path, openAPIDocumentHandler(() => this.openapi(documentOptions)));
+        if (docsPath !== false) {
+            this.app.get(docsPath, swaggerUIHandler(path, documentOptions.info?.title));
+        }
+    }
+
+    /**
+     * Stream the events of an event system (or store) to clients on a path, over
+     * Server-Sent Events for GET requests and WebSocket for upgrade requests.
+     * Streams are closed before connections are drained on shutdown.
+     */
+    public eventStream(path: string, source: EventStreamSource, options: EventStreamOptions = {}): EventStreamServer {
+        if (this.eventStreams.has(path)) {
+            throw new Error(`An event stream is already served on ${path}`);
+        }
+
+        // WebSocket clients bypass the app, so the stream runs the security pipeline itself
+        const stream = new EventStreamServer(source, options, [this.securityPipeline.middleware()]);
+        this.eventStreams.set(path, stream);
+
+        if (stream.serves('sse')) {
+            this.app.get(path, ...stream.handlers());
+        }
+        if (stream.serves('websocket')) {
+            this.servers.forEach(server => this.listenForUpgrades(server));
+        }
+
+        return stream;
+    }
+
+    /**
+     * Start the listeners; once started, later calls return the first server
+     * without starting new ones
+     */
+    public listen(port?: number): ListenerServer {
+        if (this.servers.length > 0) {
+            console.warn('Server is already listening');
+            return this.servers[0];
+        }
+
+        const listeners = resolveListeners(this.config, port);
+
+        if (!listeners) {
+            const serverPort = port || this.port;
+            this.listening = new Promise<void>((resolve, reject) => {
+                const server = this.app.listen(serverPort, () => {
+                    console.log(`Server listening on port ${serverPort}`);
+                    resolve();
+                });
+                server.once('error', reject);
+                server.once('listening', () => server.removeListener('error', reject));
+                this.trackServer(server);
+            });
+        } else {
+            const started = listeners.map(listener => {
+                const server = createListener(this.app, listener);
+                this.trackServer(server);
+
+                return startListener(server, listener).then(() => {
+                    console.log(`Server listening on ${describeListener(listener, server)}`);
+                });
+            });
+
+            this.listening = Promise.all(started).then(() => undefined);
+        }
+        this.listening.catch(error => console.error('Server failed to listen:', error));
+
+        this.registerSignalHandlers();
+
+        return this.servers[0];
     }
 
     public start(): void {
         this.listen();
     }
 
-    public destroy(): void {
+    /**
+     * Resolves once every configured listener accepts connections
+     */
+    public whenListening(): Promise<void> {
+        return this.listening;
+    }
+
+    /**
+     * Underlying server of the first listener, available once the server is listening
+     */
+    public getHttpServer(): ListenerServer | null {
+        return this.servers[0] || null;
+    }
+
+    /**
+     * Underlying servers of every listener
+     */
+    public getServers(): ListenerServer[] {
+        return [...this.servers];
+    }
+
+    /**
+     * Register a hook executed after connections are drained.
+     * Hooks run sequentially by ascending order.
+     */
+    public onShutdown(name: string, hook: ShutdownHook, options?: ShutdownHookOptions): void {
+        this.shutdownManager.register(name, hook, options);
+    }
+
+    /**
+     * Stop accepting connections, drain in-flight requests and run shutdown hooks.
+     * Resolves once everything is closed; repeated calls share the same result.
+     */
+    public stop(): Promise<ShutdownResult> {
+        if (!this.stopping) {
+            this.stopping = this.shutdown();
+        }
+        return this.stopping;
+    }
+
+    public destroy(): Promise<ShutdownResult> {
         console.log('Destroying server...');
+        return this.stop();
+    }
+
+    private async shutdown(): Promise<ShutdownResult> {
+        const startTime = Date.now();
+        const timeout = this.shutdownOptions.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+        let forcedConnections = 0;
+
+        this.removeSignalHandlers();
+
+        // Upgraded sockets count as idle, so streams are closed before connections are drained
+        await Promise.all([...this.eventStreams.values()].map(stream => stream.close()));
+
+        const closing = this.servers
+            .filter(server => typeof server.close === 'function')
+            .map(server => new Promise<void>(resolve => server.close(() => resolve())));
+
+        const drained = await Promise.all(this.connectionTrackers.map(tracker => {
+            tracker.drain();
+            return tracker.waitForDrain(timeout);
+        }));
+
+        this.connectionTrackers.forEach((tracker, index) => {
+            if (!drained[index]) {
+                forcedConnections += tracker.forceClose();
+            }
+        });
+
+        await Promise.all(closing);
+
+        const hooks = await this.shutdownManager.run();
+
+        return {
+            success: forcedConnections === 0 && hooks.every(result => result.success),
+            forcedConnections,
+            hooks,
+            duration: Date.now() - startTime
+        };
+    }
+
+    private trackServer(server: ListenerServer): void {
+        if (!server) {
+            return;
+        }
+
+        this.servers.push(server);
+        if (typeof server.on === 'function') {
+            this.connectionTrackers.push(new ConnectionTracker(server));
+            this.listenForUpgrades(server);
+        }
+    }
+
+    /**
+     * Route upgrade requests of a server to the event stream of their path
+     */
+    private listenForUpgrades(server: ListenerServer): void {
+        const served = [...this.eventStreams.values()].some(stream => stream.serves('websocket'));
+        if (!served || this.upgradeServers.has(server) || typeof server.on !== 'function') {
+            return;
+        }
+
+        this.upgradeServers.add(server);
+        server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            const path = new URL(req.url || '/', 'http://localhost').pathname;
+            const stream = this.eventStreams.get(path);
+
+            if (stream && stream.serves('websocket')) {
+                // Give the request the Express API the middlewares expect
+                Object.setPrototypeOf(req, express.request);
+                (req as Request).app = this.app;
+                stream.handleUpgrade(req, socket, head);
+            } else if (server.listenerCount('upgrade') === 1) {
+                // Other upgrade listeners may serve the path
+                rejectUpgrade(socket, 404, 'Not Found');
+            }
+        });
+    }
+
+    private registerSignalHandlers(): void {
+        const signals = this.shutdownOptions.signals || [];
+
+        for (const signal of signals) {
+            if (this.signalHandlers.has(signal)) {
+                continue;
+            }
+
+            const handler = () => {
+                console.log(`Received ${signal}, shutting down gracefully...`);
+                this.stop().then(result => {
+                    if (this.shutdownOptions.exitOnSignal !== false) {
+                        process.exit(result.success ? 0 : 1);
+                    }
+                });
+            };
+
+            this.signalHandlers.set(signal, handler);
+            process.once(signal, handler);
+        }
+    }
+
+    private removeSignalHandlers(): void {
+        for (const [signal, handler] of this.signalHandlers) {
+            process.removeListener(signal, handler);
+        }
+        this.signalHandlers.clear();
     }
 }
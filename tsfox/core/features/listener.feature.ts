@@ -0,0 +1,202 @@
+import http from 'http';
+import https from 'https';
+import http2 from 'http2';
+import fs from 'fs';
+import net from 'net';
+import { TLSSocket } from 'tls';
+import { Application, NextFunction, Request, Response } from 'express';
+import { ServerConfig } from '../types';
+import { ListenerConfig, ListenerServer, TlsConfig } from '../interfaces/listener.interface';
+
+/**
+ * Listeners declared by the configuration, or null when the server only
+ * needs the default `app.listen(port)` behaviour.
+ */
+export function resolveListeners(config: ServerConfig, port?: number): ListenerConfig[] | null {
+    if (config.listeners && config.listeners.length > 0) {
+        return config.listeners;
+    }
+
+    if (!config.tls && !config.http2 && !config.host && !config.socketPath) {
+        return null;
+    }
+
+    return [{
+        port: port || config.port,
+        host: config.host,
+        socketPath: config.socketPath,
+        tls: config.tls,
+        http2: config.http2
+    }];
+}
+
+/**
+ * Create (but do not start) the server for a listener
+ */
+export function createListener(app: Application, listener: ListenerConfig): ListenerServer {
+    if (listener.http2) {
+        if (!listener.tls) {
+            throw new Error('HTTP/2 listeners require a tls configuration');
+        }
+        return http2.createSecureServer(
+            { ...buildTlsOptions(listener.tls), allowHTTP1: true },
+            createHttp2Handler(app)
+        );
+    }
+
+    if (listener.tls) {
+        return https.createServer(buildTlsOptions(listener.tls), app);
+    }
+
+    return http.createServer(app);
+}
+
+/**
+ * Start a listener and resolve once it is accepting connections
+ */
+export function startListener(server: ListenerServer, listener: ListenerConfig): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onError = (error: Error) => reject(error);
+        server.once('error', onError);
+
+        const onListening = () => {
+            server.removeListener('error', onError);
+            resolve();
+        };
+
+        if (listener.socketPath) {
+            const socketPath = listener.socketPath;
+            removeStaleSocket(socketPath).then(() => server.listen(socketPath, onListening), error => {
+                server.removeListener('error', onError);
+                reject(error);
+            });
+        } else {
+            server.listen(listener.port ?? 0, listener.host, onListening);
+        }
+    });
+}
+
+/**
+ * Human readable listener address
+ */
+export function describeListener(listener: ListenerConfig, server?: ListenerServer): string {
+    if (listener.socketPath) {
+        return `unix:${listener.socketPath}`;
+    }
+
+    const address = server?.address();
+    const port = address && typeof address === 'object' ? address.port : listener.port;
+    const protocol = listener.tls ? 'https' : 'http';
+    const suffix = listener.http2 ? ' (h2)' : '';
+
+    return `${protocol}://${listener.host || 'localhost'}:${port}${suffix}`;
+}
+
+/**
+ * Expose the verified client certificate on `req.clientCertificate`
+ */
+export function clientCertificateMiddleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const socket = req.socket as TLSSocket;
+
+        if (socket && socket.encrypted && typeof socket.getPeerCertificate === 'function') {
+            const certificate = socket.getPeerCertificate();
+            const hasCertificate = certificate && Object.keys(certificate).length > 0;
+
+            req.clientCertificate = {
+                authorized: socket.authorized,
+                authorizationError: socket.authorizationError ? String(socket.authorizationError) : undefined,
+                certificate: hasCertificate ? certificate : null
+            };
+        }
+
+        next();
+    };
+}
+
+/**
+ * Check if any listener asks for client certificates
+ */
+export function requiresClientCertificates(config: ServerConfig): boolean {
+    const listeners = config.listeners || [];
+    return Boolean(config.tls?.requestClientCert)
+        || listeners.some(listener => Boolean(listener.tls?.requestClientCert));
+}
+
+/**
+ * Express 4 sets the prototype of every request and response to its own
+ * http.IncomingMessage/ServerResponse based objects, which hides the members
+ * of the HTTP/2 compatibility API. They are defined on each HTTP/2 request and
+ * response themselves, so they stay in front of whatever prototype Express
+ * (or a mounted sub-app) gives the objects.
+ */
+export function createHttp2Handler(app: Application) {
+    const requestMembers = ownMembers(http2.Http2ServerRequest.prototype);
+    const responseMembers = ownMembers(http2.Http2ServerResponse.prototype);
+
+    return (req: http2.Http2ServerRequest | http.IncomingMessage, res: http2.Http2ServerResponse | http.ServerResponse) => {
+        if (req instanceof http2.Http2ServerRequest) {
+            // Body parsers only read bodies announced by content-length or transfer-encoding
+            if (req.headers['content-length'] === undefined
+                && req.headers['transfer-encoding'] === undefined
+                && req.stream && !req.stream.endAfterHeaders) {
+                req.headers['transfer-encoding'] = 'chunked';
+            }
+
+            Object.defineProperties(req, requestMembers);
+            Object.defineProperties(res, responseMembers);
+        }
+
+        app(req as unknown as Request, res as unknown as Response);
+    };
+}
+
+/**
+ * Members of a prototype, to define on an instance
+ */
+function ownMembers(prototype: object): PropertyDescriptorMap {
+    const { constructor, ...members } = Object.getOwnPropertyDescriptors(prototype);
+    return members;
+}
+
+function buildTlsOptions(tls: TlsConfig): https.ServerOptions {
+    return {
+        key: tls.key,
+        cert: tls.cert,
+        ca: tls.ca,
+        passphrase: tls.passphrase,
+        requestCert: Boolean(tls.requestClientCert),
+        rejectUnauthorized: tls.requestClientCert ? tls.rejectUnauthorized !== false : false
+    };
+}
+
+/**
+ * Remove the socket file left by a process that is gone. A socket another
+ * process still listens on is kept and reported as in use.
+ */
+function removeStaleSocket(socketPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const probe = net.connect(socketPath);
+
+        probe.once('connect', () => {
+            probe.destroy();
+            const error: NodeJS.ErrnoException = new Error(`listen EADDRINUSE: address already in use ${socketPath}`);
+            error.code = 'EADDRINUSE';
+            reject(error);
+        });
+
+        probe.once('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'ECONNREFUSED') {
+                try {
+                    if (fs.statSync(socketPath).isSocket()) {
+                        fs.unlinkSync(socketPath);
+                    }
+                } catch {
+                    // Socket file removed meanwhile
+                }
+            }
+            // Any other error (no such file) leaves the path to listen()
+            resolve();
+        });
+    });
+}
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Tests for asynchronous refinements and cross-field rules
+ */
+
+import { getEventListeners } from 'events';
+import express from 'express';
+import request from 'supertest';
+import { SchemaBuilder } from '../schema/schema.builder';
+import { ValidationError } from '../errors/validation.errors';
+import { validateBody } from '../middleware/request.middleware';
+
+const delay = <T>(ms: number, value: T, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('aborted'));
+    });
+  });
+
+describe('Asynchronous validation', () => {
+  describe('refine', () => {
+    it('should await asynchronous checks in parseAsync and safeParseAsync', async () => {
+      const taken = ['taken@example.com'];
+      const schema = SchemaBuilder.string().email().refine(
+        async (email: string) => !taken.includes(await delay(5, email)),
+        { code: 'email.taken', message: 'Email already registered' }
+      );
+
+      await expect(schema.parseAsync('free@example.com')).resolves.toBe('free@example.com');
+      await expect(schema.parseAsync('taken@example.com')).rejects.toBeInstanceOf(ValidationError);
+
+      const result = await schema.safeParseAsync('taken@example.com');
+      expect(result.success).toBe(false);
+      expect(result.errors![0]).toMatchObject({ code: 'email.taken', message: 'Email already registered' });
+    });
+
+    it('should keep synchronous checks working with validate', () => {
+      const schema = SchemaBuilder.number().refine(value => value % 2 === 0, 'number.even', 'Must be even');
+
+      expect(schema.validate(4).success).toBe(true);
+      expect(schema.validate(3).errors![0]).toMatchObject({ code: 'number.even', message: 'Must be even' });
+    });
+
+    it('should fail asynchronous checks run by the synchronous validate', () => {
+      const schema = SchemaBuilder.string().refine(async () => true);
+
+      const result = schema.validate('value');
+      expect(result.success).toBe(false);
+      expect(result.errors![0].code).toBe('any.async');
+    });
+
+    it('should report a rejected check as an error', async () => {
+      const schema = SchemaBuilder.string().refine(async () => {
+        throw new Error('Lookup failed');
+      });
+
+      const result = await schema.safeParseAsync('value');
+      expect(result.errors![0]).toMatchObject({ code: 'any.unknown', message: 'Lookup failed' });
+    });
+  });
+
+  describe('concurrency and cancellation', () => {
+    it('should run the asynchronous rules of all fields concurrently', async () => {
+      let running = 0;
+      let peak = 0;
+      const slowCheck = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(20, true);
+        running--;
+        return true;
+      };
+      const schema = SchemaBuilder.object({
+        name: SchemaBuilder.string().refine(slowCheck),
+        email: SchemaBuilder.string().refine(slowCheck),
+        tags: SchemaBuilder.array(SchemaBuilder.string().refine(slowCheck))
+      });
+
+      const result = await schema.safeParseAsync({ name: 'Fox', email: 'fox@example.com', tags: ['a', 'b'] });
+
+      expect(result.success).toBe(true);
+      expect(peak).toBe(4);
+    });
+
+    it('should abort the pending rules at the first error with abortEarly', async () => {
+      const aborted: string[] = [];
+      const watched = (name: string) => async (_value: string, { signal }: { signal: AbortSignal }) => {
+        signal.addEventListener('abort', () => aborted.push(name));
+        return delay(200, true, signal);
+      };
+      const schema = SchemaBuilder.object({
+        slow: SchemaBuilder.string().refine(watched('slow')),
+        other: SchemaBuilder.string().refine(watched('other')),
+        failing: SchemaBuilder.string().refine(async () => delay(5, false), 'field.invalid')
+      });
+
+      const started = Date.now();
+      const result = await schema.validateAsync({ slow: 'a', other: 'b', failing: 'c' }, { abortEarly: true });
+
+      expect(Date.now() - started).toBeLessThan(150);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors![0]).toMatchObject({ path: ['failing'], code: 'field.invalid' });
+      expect(aborted.sort()).toEqual(['other', 'slow']);
+    });
+
+    it('should collect every error without abortEarly', async () => {
+      const schema = SchemaBuilder.array(SchemaBuilder.number().refine(async value => delay(5, value > 0), 'number.positive'));
+
+      const result = await schema.safeParseAsync([1, -1, 2, -2]);
+
+      expect(result.errors!.map(error => error.path)).toEqual([['1'], ['3']]);
+    });
+
+    it('should time out slow rules and abort them', async () => {
+      let signal: AbortSignal | undefined;
+      const schema = SchemaBuilder.string().refine((_value, context) => {
+        signal = context.signal;
+        return delay(1000, true, context.signal);
+      }, { timeout: 20 });
+
+      const result = await schema.safeParseAsync('value');
+
+      expect(result.errors![0].code).toBe('any.timeout');
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('should apply the asyncTimeout of the validation to nested rules', async () => {
+      const schema = SchemaBuilder.object({
+        user: SchemaBuilder.object({ id: SchemaBuilder.string().refine((_value, { signal }) => delay(1000, true, signal)) })
+      });
+
+      const result = await schema.safeParseAsync({ user: { id: 'u1' } }, { asyncTimeout: 20 });
+
+      expect(result.errors![0]).toMatchObject({ path: ['user', 'id'], code: 'any.timeout' });
+    });
+
+    it('should cancel the validation through the signal of the caller', async () => {
+      const controller = new AbortController();
+      const schema = SchemaBuilder.string().refine((_value, { signal }) => delay(1000, true, signal));
+
+      const pending = schema.safeParseAsync('value', { signal: controller.signal });
+      controller.abort();
+
+      expect((await pending).errors![0].code).toBe('any.aborted');
+    });
+
+    it('should leave no listeners on the signal of the caller once validated', async () => {
+      const controller = new AbortController();
+      const schema = SchemaBuilder.object({
+        name: SchemaBuilder.string().refine(async value => value.length > 0).refine(value => value !== 'root')
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await schema.safeParseAsync({ name: 'fox' }, { signal: controller.signal })).success).toBe(true);
+      }
+
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    });
+
+    it('should try union members in order with their asynchronous rules', async () => {
+      const schema = SchemaBuilder.union(
+        SchemaBuilder.number().refine(async value => delay(5, value > 100)),
+        SchemaBuilder.string()
+      );
+
+      await expect(schema.parseAsync(500)).resolves.toBe(500);
+      await expect(schema.parseAsync('fox')).resolves.toBe('fox');
+      const result = await schema.safeParseAsync(5);
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('5');
+    });
+  });
+
+  describe('cross-field rules', () => {
+    it('should report refine errors on the path of a sibling field', () => {
+      const schema = SchemaBuilder.object({
+        password: SchemaBuilder.string(),
+        confirmPassword: SchemaBuilder.string()
+      }).refine(value => value.password === value.confirmPassword, {
+        path: ['confirmPassword'],
+        code: 'password.mismatch',
+        message: 'Passwords do not match'
+      });
+
+      expect(schema.validate({ password: 'secret', confirmPassword: 'secret' }).success).toBe(true);
+      expect(schema.validate({ password: 'secret', confirmPassword: 'other' }).errors).toEqual([{
+        path: ['confirmPassword'],
+        message: 'Passwords do not match',
+        code: 'password.mismatch',
+        value: 'other',
+        params: {}
+      }]);
+    });
+
+    it('should report several issues from superRefine below the path of the object', async () => {
+      const range = SchemaBuilder.object({
+        start: SchemaBuilder.date(),
+        end: SchemaBuilder.date(),
+        capacity: SchemaBuilder.number()
+      }).superRefine(async (value, { addIssue }) => {
+        if (value.end <= value.start) {
+          addIssue({ path: ['end'], message: 'End must be after start', code: 'range.order' });
+        }
+        if (await delay(5, value.capacity > 10)) {
+          addIssue({ path: ['capacity'], message: 'Room too small' });
+        }
+      });
+      const schema = SchemaBuilder.object({ booking: range });
+
+      const result = await schema.safeParseAsync({
+        booking: { start: '2026-01-02', end: '2026-01-01', capacity: 20 }
+      });
+
+      expect(result.errors!.map(error => [error.path.join('.'), error.code])).toEqual([
+        ['booking.end', 'range.order'],
+        ['booking.capacity', 'object.refine']
+      ]);
+    });
+
+    it('should skip object rules when a field fails', async () => {
+      const check = jest.fn(() => true);
+      const schema = SchemaBuilder.object({ a: SchemaBuilder.number(), b: SchemaBuilder.number() }).refine(check);
+
+      const result = await schema.safeParseAsync({ a: 'x', b: 1 });
+
+      expect(result.errors![0].path).toEqual(['a']);
+      expect(check).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateRequest', () => {
+    it('should await asynchronous rules before calling the handler', async () => {
+      const existing = new Set(['category-1']);
+      const app = express();
+      app.use(express.json());
+      app.post('/products', validateBody(SchemaBuilder.object({
+        name: SchemaBuilder.string(),
+        categoryId: SchemaBuilder.string().refine(
+          async id => existing.has(await delay(5, id)),
+          { code: 'category.unknown', message: 'Category does not exist' }
+        )
+      }), { asyncTimeout: 500 }), (req, res) => {
+        res.status(201).json(req.body);
+      });
+
+      const created = await request(app).post('/products').send({ name: 'Fox', categoryId: 'category-1' });
+      expect(created.status).toBe(201);
+
+      const refused = await request(app).post('/products').send({ name: 'Fox', categoryId: 'category-9' });
+      expect(refused.status).toBe(400);
+      expect(refused.body.details[0]).toMatchObject({ path: ['body', 'categoryId'], code: 'category.unknown' });
+    });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Tests for the JSON Schema exporter and importer
+ */
+
+import { SchemaBuilder } from '../schema/schema.builder';
+import { SchemaInterface } from '../interfaces/validation.interface';
+import { toJSONSchema, fromJSONSchema, JSONSchema, JSON_SCHEMA_DIALECT } from '../json-schema';
+import { ValidationFactory } from '../validation.factory';
+
+const exported = (schema: SchemaInterface<any>) => toJSONSchema(schema, { dialect: false });
+
+/**
+ * Export, import the export back and export it again: both exports must be equal
+ */
+const roundTrip = (schema: SchemaInterface<any>) => {
+  const document = exported(schema);
+  expect(exported(fromJSONSchema(document))).toEqual(document);
+  return document;
+};
+
+describe('JSON Schema conversion', () => {
+  describe('round trips', () => {
+    it('should convert strings with lengths, patterns, formats and value lists', () => {
+      expect(roundTrip(SchemaBuilder.string().min(2).max(10))).toEqual({ type: 'string', minLength: 2, maxLength: 10 });
+      expect(roundTrip(SchemaBuilder.string().length(4))).toEqual({ type: 'string', minLength: 4, maxLength: 4 });
+      expect(roundTrip(SchemaBuilder.string().pattern(/^[a-z]+$/))).toEqual({ type: 'string', pattern: '^[a-z]+$' });
+      expect(roundTrip(SchemaBuilder.string().alphanum())).toEqual({ type: 'string', pattern: '^[a-zA-Z0-9]+$' });
+      expect(roundTrip(SchemaBuilder.string().email())).toEqual({ type: 'string', format: 'email' });
+      expect(roundTrip(SchemaBuilder.string().url())).toEqual({ type: 'string', format: 'uri' });
+      expect(roundTrip(SchemaBuilder.string().uuid())).toEqual({ type: 'string', format: 'uuid' });
+      expect(roundTrip(SchemaBuilder.string().oneOf(['a', 'b']).notOneOf(['c']))).toEqual({
+        type: 'string',
+        enum: ['a', 'b'],
+        not: { enum: ['c'] }
+      });
+      expect(roundTrip(SchemaBuilder.string().email().uuid())).toEqual({ type: 'string', format: 'email', allOf: [{ format: 'uuid' }] });
+    });
+
+    it('should convert number bounds', () => {
+      expect(roundTrip(SchemaBuilder.number().min(1).max(5).multiple(0.5))).toEqual({
+        type: 'number',
+        minimum: 1,
+        maximum: 5,
+        multipleOf: 0.5
+      });
+      expect(roundTrip(SchemaBuilder.number().greater(1).less(9).integer())).toEqual({
+        type: 'integer',
+        exclusiveMinimum: 1,
+        exclusiveMaximum: 9
+      });
+      expect(roundTrip(SchemaBuilder.number().positive())).toEqual({ type: 'number', exclusiveMinimum: 0 });
+      expect(roundTrip(SchemaBuilder.number().negative())).toEqual({ type: 'number', exclusiveMaximum: 0 });
+      expect(roundTrip(SchemaBuilder.number().port())).toEqual({ type: 'integer', minimum: 1, maximum: 65535 });
+    });
+
+    it('should convert booleans, nulls, dates, literals and enums', () => {
+      expect(roundTrip(SchemaBuilder.boolean())).toEqual({ type: 'boolean' });
+      expect(roundTrip(SchemaBuilder.null())).toEqual({ type: 'null' });
+      expect(roundTrip(SchemaBuilder.date())).toEqual({ type: 'string', format: 'date-time' });
+      expect(roundTrip(SchemaBuilder.literal('admin'))).toEqual({ const: 'admin' });
+      expect(roundTrip(SchemaBuilder.enum(['red', 'green', 1] as const))).toEqual({ enum: ['red', 'green', 1] });
+      expect(roundTrip(SchemaBuilder.any())).toEqual({});
+      expect(roundTrip(SchemaBuilder.never())).toEqual({ not: {} });
+    });
+
+    it('should convert objects with required, optional and defaulted fields', () => {
+      const schema = SchemaBuilder.object({
+        name: SchemaBuilder.string(),
+        nickname: SchemaBuilder.string().optional(),
+        role: SchemaBuilder.string().default('user'),
+        address: SchemaBuilder.object({ city: SchemaBuilder.string() }).unknown()
+      }).min(1);
+
+      expect(roundTrip(schema)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          nickname: { type: 'string' },
+          role: { type: 'string', default: 'user' },
+          address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+        },
+        required: ['name', 'address'],
+        additionalProperties: false,
+        minProperties: 1
+      });
+    });
+
+    it('should convert object peer constraints', () => {
+      const schema = SchemaBuilder.object({
+        email: SchemaBuilder.string().optional(),
+        phone: SchemaBuilder.string().optional(),
+        password: SchemaBuilder.string().optional(),
+        token: SchemaBuilder.string().optional()
+      }).or('email', 'phone').with('password', ['email']).without('token', ['password']);
+
+      expect(roundTrip(schema)).toMatchObject({
+        anyOf: [{ required: ['email'] }, { required: ['phone'] }],
+        dependentRequired: { password: ['email'] },
+        dependentSchemas: { token: { not: { anyOf: [{ required: ['password'] }] } } }
+      });
+      expect(roundTrip(SchemaBuilder.object({ a: SchemaBuilder.any().optional(), b: SchemaBuilder.any().optional() }).xor('a', 'b')))
+        .toMatchObject({ oneOf: [{ required: ['a'] }, { required: ['b'] }] });
+    });
+
+    it('should convert records, arrays and tuples', () => {
+      expect(roundTrip(SchemaBuilder.record(SchemaBuilder.number()))).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number' }
+      });
+      expect(roundTrip(SchemaBuilder.array(SchemaBuilder.string()).min(1).max(3).unique())).toEqual({
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        maxItems: 3,
+        uniqueItems: true
+      });
+      expect(roundTrip(SchemaBuilder.array())).toEqual({ type: 'array' });
+      expect(roundTrip(SchemaBuilder.tuple([SchemaBuilder.string(), SchemaBuilder.number()]))).toEqual({
+        type: 'array',
+        prefixItems: [{ type: 'string' }, { type: 'number' }],
+        items: false,
+        minItems: 2
+      });
+    });
+
+    it('should convert unions, nullable schemas and discriminated unions', () => {
+      expect(roundTrip(SchemaBuilder.union(SchemaBuilder.string(), SchemaBuilder.number()))).toEqual({
+        anyOf: [{ type: 'string' }, { type: 'number' }]
+      });
+      expect(roundTrip(SchemaBuilder.nullable(SchemaBuilder.string()))).toEqual({
+        anyOf: [{ type: 'string' }, { type: 'null' }]
+      });
+
+      const shape = SchemaBuilder.discriminatedUnion('kind', [
+        SchemaBuilder.object({ kind: SchemaBuilder.literal('circle'), radius: SchemaBuilder.number() }),
+        SchemaBuilder.object({ kind: SchemaBuilder.literal('square'), side: SchemaBuilder.number() })
+      ]);
+      expect(roundTrip(shape)).toMatchObject({
+        oneOf: [
+          { properties: { kind: { const: 'circle' } } },
+          { properties: { kind: { const: 'square' } } }
+        ],
+        discriminator: { propertyName: 'kind' }
+      });
+    });
+
+    it('should convert intersections, refusing unknown keys only when both sides do', () => {
+      const named = SchemaBuilder.object({ name: SchemaBuilder.string() });
+      const aged = SchemaBuilder.object({ age: SchemaBuilder.number() });
+
+      expect(roundTrip(SchemaBuilder.intersection(named, aged))).toEqual({
+        allOf: [
+          { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+          { type: 'object', properties: { age: { type: 'number' } }, required: ['age'] }
+        ],
+        unevaluatedProperties: false
+      });
+      expect(roundTrip(SchemaBuilder.intersection(named, aged.unknown()))).not.toHaveProperty('unevaluatedProperties');
+    });
+
+    it('should convert titles, descriptions and defaults', () => {
+      const schema = SchemaBuilder.object({
+        createdAt: SchemaBuilder.date().default(new Date('2026-01-01T00:00:00.000Z'))
+      });
+      schema.label('Event').description('Something that happened');
+
+      expect(roundTrip(schema)).toMatchObject({
+        title: 'Event',
+        description: 'Something that happened',
+        properties: { createdAt: { type: 'string', format: 'date-time', default: '2026-01-01T00:00:00.000Z' } }
+      });
+    });
+
+    it('should convert recursive schemas to references', () => {
+      const category: SchemaInterface<any> = SchemaBuilder.object({
+        name: SchemaBuilder.string(),
+        children: SchemaBuilder.array(SchemaBuilder.lazy(() => category))
+      });
+      const node: SchemaInterface<any> = SchemaBuilder.object({
+        value: SchemaBuilder.number(),
+        next: SchemaBuilder.nullable(SchemaBuilder.lazy(() => node))
+      }).label('Node');
+
+      expect(roundTrip(category)).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+        required: ['name', 'children'],
+        additionalProperties: false
+      });
+      expect(roundTrip(SchemaBuilder.object({ head: SchemaBuilder.lazy(() => node) }))).toMatchObject({
+        properties: { head: { $ref: '#/$defs/Node' } },
+        $defs: { Node: { title: 'Node', properties: { next: { anyOf: [{ $ref: '#/$defs/Node' }, { type: 'null' }] } } } }
+      });
+    });
+  });
+
+  describe('toJSONSchema', () => {
+    it('should declare the draft 2020-12 dialect unless disabled', () => {
+      expect(toJSONSchema(SchemaBuilder.string())).toEqual({ $schema: JSON_SCHEMA_DIALECT, type: 'string' });
+      expect(toJSONSchema(SchemaBuilder.string(), { dialect: false })).toEqual({ type: 'string' });
+    });
+
+    it('should collect definitions in an external object with a reference prefix', () => {
+      const definitions = {};
+      const node: SchemaInterface<any> = SchemaBuilder.object({
+        children: SchemaBuilder.array(SchemaBuilder.lazy(() => node))
+      }).label('Node');
+
+      expect(toJSONSchema(node, { dialect: false, definitions, refPrefix: '#/components/schemas/' }))
+        .toEqual({ $ref: '#/components/schemas/Node' });
+      expect(definitions).toEqual({
+        Node: {
+          type: 'object',
+          title: 'Node',
+          properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } },
+          required: ['children'],
+          additionalProperties: false
+        }
+      });
+    });
+
+    it('should produce OpenAPI schemas for nested objects, arrays and unions', () => {
+      const schema = SchemaBuilder.object({
+        tags: SchemaBuilder.array(SchemaBuilder.string()),
+        owner: SchemaBuilder.object({ id: SchemaBuilder.union(SchemaBuilder.string(), SchemaBuilder.number()) })
+      });
+
+      expect(ValidationFactory.integration.toOpenAPI(schema)).toEqual({
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: {
+            type: 'object',
+            properties: { id: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+            additionalProperties: false
+          }
+        },
+        required: ['tags', 'owner'],
+        additionalProperties: false
+      });
+    });
+  });
+
+  describe('fromJSONSchema', () => {
+    const document: JSONSchema = {
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 },
+        role: { enum: ['admin', 'user'], default: 'user' },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        manager: { type: ['string', 'null'] }
+      },
+      required: ['id', 'name']
+    };
+    const schema = fromJSONSchema(document);
+
+    it('should validate like the document', () => {
+      const valid = { id: '123e4567-e89b-12d3-a456-426614174000', name: 'Fox' };
+
+      expect(schema.validate(valid)).toEqual({ success: true, data: { ...valid, role: 'user' } });
+      expect(schema.validate({ ...valid, age: 3, manager: null, extra: true }).success).toBe(true);
+      expect(schema.validate({ ...valid, age: 1.5 }).errors![0]).toMatchObject({ path: ['age'] });
+      expect(schema.validate({ ...valid, role: 'owner' }).errors![0]).toMatchObject({ path: ['role'], code: 'enum.base' });
+      expect(schema.validate({ name: 'Fox' }).errors![0]).toMatchObject({ path: ['id'], code: 'required' });
+    });
+
+    it('should refuse unknown keys when additionalProperties is false', () => {
+      const strict = fromJSONSchema({ ...(document as object), additionalProperties: false });
+
+      expect(strict.validate({ id: '123e4567-e89b-12d3-a456-426614174000', name: 'Fox', extra: 1 }).errors![0].code)
+        .toBe('object.unknown');
+    });
+
+    it('should build recursive schemas from references', () => {
+      const tree = fromJSONSchema({
+        $ref: '#/$defs/Tree',
+        $defs: {
+          Tree: {
+            type: 'object',
+            properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/$defs/Tree' } } },
+            required: ['value', 'children']
+          }
+        }
+      });
+
+      expect(tree.validate({ value: 1, children: [{ value: 2, children: [] }] }).success).toBe(true);
+      expect(tree.validate({ value: 1, children: [{ value: 'x', children: [] }] }).errors![0])
+        .toMatchObject({ path: ['children', '0', 'value'] });
+    });
+
+    it('should read draft 7 definitions and refuse references it cannot resolve', () => {
+      const positive = fromJSONSchema({ $ref: '#/definitions/Positive', definitions: { Positive: { type: 'number', exclusiveMinimum: 0 } } });
+
+      expect(positive.validate(1).success).toBe(true);
+      expect(positive.validate(-1).success).toBe(false);
+      expect(() => fromJSONSchema({ $ref: 'https://example.com/user.json' }))
+        .toThrow('Unsupported JSON Schema reference "https://example.com/user.json"');
+      expect(() => fromJSONSchema({ $ref: '#/$defs/Missing' })).toThrow('Unsupported JSON Schema reference "#/$defs/Missing"');
+    });
+
+    it('should convert boolean schemas and constants', () => {
+      expect(fromJSONSchema(true).validate('anything').success).toBe(true);
+      expect(fromJSONSchema(false).validate('anything').success).toBe(false);
+      expect(fromJSONSchema({ const: 'v1' }).validate('v2').success).toBe(false);
+      expect(fromJSONSchema({ enum: ['a', null] }).validate('a').success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Tests for object schema composition, discriminated unions, intersections and lazy schemas
+ */
+
+import { SchemaBuilder } from '../schema/schema.builder';
+import { InferSchemaType } from '../schema/schema.types';
+import { SchemaInterface } from '../interfaces/validation.interface';
+
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false;
+const assertType = <T extends true>(): T | undefined => undefined;
+
+const user = SchemaBuilder.object({
+  id: SchemaBuilder.string().uuid(),
+  name: SchemaBuilder.string().min(2),
+  email: SchemaBuilder.string().email(),
+  age: SchemaBuilder.number().integer()
+});
+
+const valid = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  name: 'Fox',
+  email: 'fox@example.com',
+  age: 7
+};
+
+describe('Schema composition', () => {
+  describe('object schemas', () => {
+    it('should extend a schema, replacing fields of the same name', () => {
+      const admin = user.extend({
+        role: SchemaBuilder.literal('admin'),
+        age: SchemaBuilder.number().min(18)
+      });
+      assertType<Equals<InferSchemaType<typeof admin>, {
+        id: string;
+        name: string;
+        email: string;
+        age: number;
+        role: 'admin';
+      }>>();
+
+      expect(admin.validate({ ...valid, age: 30, role: 'admin' }).success).toBe(true);
+      expect(admin.validate({ ...valid, role: 'admin' }).errors![0]).toMatchObject({ path: ['age'], code: 'number.min' });
+      expect(user.validate({ ...valid, role: 'admin' }).errors![0].code).toBe('object.unknown');
+    });
+
+    it('should merge two object schemas', () => {
+      const timestamps = SchemaBuilder.object({ createdAt: SchemaBuilder.date() }).unknown();
+      const merged = user.merge(timestamps);
+      assertType<Equals<InferSchemaType<typeof merged>, {
+        id: string;
+        name: string;
+        email: string;
+        age: number;
+        createdAt: Date;
+      }>>();
+
+      const result = merged.validate({ ...valid, createdAt: '2026-01-01', extra: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.createdAt).toBeInstanceOf(Date);
+      expect(result.data).toHaveProperty('extra', true);
+      expect(() => user.merge(SchemaBuilder.any() as any)).toThrow('Only object schemas can be merged');
+    });
+
+    it('should pick and omit fields, dropping them from the peer constraints', () => {
+      const contact = user.or('email', 'age');
+      const picked = contact.pick('id', 'email');
+      const omitted = contact.omit('age');
+      assertType<Equals<InferSchemaType<typeof picked>, { id: string; email: string }>>();
+      assertType<Equals<InferSchemaType<typeof omitted>, { id: string; name: string; email: string }>>();
+      // @ts-expect-error unknown field
+      user.pick('password');
+
+      expect(picked.validate({ id: valid.id, email: valid.email }).success).toBe(true);
+      expect(picked.validate({ id: valid.id, email: valid.email, name: 'Fox' }).errors![0].code).toBe('object.unknown');
+      expect(omitted.partial().validate({ id: valid.id, name: 'Fox' }).errors![0].code).toBe('object.or');
+      expect(omitted.describe().constraints).toMatchObject({ or: ['email'] });
+    });
+
+    it('should make all or some fields optional', () => {
+      const update = user.partial();
+      const draft = user.partial('email', 'age');
+      assertType<Equals<InferSchemaType<typeof update>, { id?: string; name?: string; email?: string; age?: number }>>();
+      assertType<Equals<InferSchemaType<typeof draft>, { id: string; name: string; email?: string; age?: number }>>();
+
+      expect(update.validate({}).success).toBe(true);
+      expect(update.validate({ email: 'nope' }).errors![0]).toMatchObject({ path: ['email'] });
+      expect(draft.validate({ id: valid.id, name: 'Fox' }).success).toBe(true);
+      expect(draft.validate({ name: 'Fox' }).errors![0]).toMatchObject({ path: ['id'], code: 'required' });
+    });
+
+    it('should make nested object schemas optional with deepPartial', () => {
+      const profile = SchemaBuilder.object({
+        name: SchemaBuilder.string(),
+        address: SchemaBuilder.object({
+          city: SchemaBuilder.string(),
+          zip: SchemaBuilder.string()
+        }),
+        tags: SchemaBuilder.array(SchemaBuilder.string())
+      });
+      const patch = profile.deepPartial();
+      assertType<Equals<InferSchemaType<typeof patch>, {
+        name?: string;
+        address?: { city?: string; zip?: string };
+        tags?: string[];
+      }>>();
+
+      expect(patch.validate({ address: { city: 'Madrid' } }).success).toBe(true);
+      expect(patch.validate({ address: { city: 1, street: 'Main' } }).errors![0]).toMatchObject({ path: ['address', 'street'] });
+      expect(profile.validate({ address: { city: 'Madrid' } }).success).toBe(false);
+    });
+
+    it('should make optional fields required again', () => {
+      const update = user.partial();
+      const rename = update.required('id', 'name');
+      assertType<Equals<InferSchemaType<typeof rename>, { id: string; name: string; email?: string; age?: number }>>();
+
+      expect(rename.validate({ id: valid.id, name: 'Fox' }).success).toBe(true);
+      expect(rename.validate({ name: 'Fox' }).errors![0]).toMatchObject({ path: ['id'], code: 'required' });
+      expect(update.optional().required().validate(undefined).errors![0].code).toBe('required');
+    });
+
+    it('should leave the rules of the source schema out of derived schemas', () => {
+      const signup = SchemaBuilder.object({
+        password: SchemaBuilder.string(),
+        confirmPassword: SchemaBuilder.string()
+      }).refine(value => value.password === value.confirmPassword, { path: ['confirmPassword'] });
+
+      expect(signup.validate({ password: 'a', confirmPassword: 'b' }).success).toBe(false);
+      expect(signup.omit('confirmPassword').validate({ password: 'a' }).success).toBe(true);
+    });
+  });
+
+  describe('discriminatedUnion', () => {
+    const shape = SchemaBuilder.discriminatedUnion('kind', [
+      SchemaBuilder.object({ kind: SchemaBuilder.literal('circle'), radius: SchemaBuilder.number().positive() }),
+      SchemaBuilder.object({ kind: SchemaBuilder.enum(['square', 'rhombus'] as const), side: SchemaBuilder.number() })
+    ]);
+
+    it('should validate with the option of the discriminator value', () => {
+      assertType<Equals<InferSchemaType<typeof shape>,
+        { kind: 'circle'; radius: number } | { kind: 'square' | 'rhombus'; side: number }>>();
+
+      expect(shape.validate({ kind: 'circle', radius: 2 }).success).toBe(true);
+      expect(shape.validate({ kind: 'rhombus', side: 2 }).success).toBe(true);
+      expect(shape.validate({ kind: 'circle', radius: -1 }).errors).toEqual([
+        expect.objectContaining({ path: ['radius'], code: 'number.positive' })
+      ]);
+    });
+
+    it('should only validate the selected option', () => {
+      const square = SchemaBuilder.object({ kind: SchemaBuilder.literal('square'), side: SchemaBuilder.number() });
+      const spy = jest.spyOn(square, 'validate');
+      const union = SchemaBuilder.discriminatedUnion('kind', [
+        SchemaBuilder.object({ kind: SchemaBuilder.literal('circle'), radius: SchemaBuilder.number() }),
+        square
+      ]);
+
+      union.validate({ kind: 'circle', radius: 1 });
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown discriminator values on the discriminator path', () => {
+      const nested = SchemaBuilder.object({ shape });
+
+      expect(nested.validate({ shape: { kind: 'triangle' } }).errors).toEqual([{
+        path: ['shape', 'kind'],
+        message: 'Expected "kind" to be one of: circle, square, rhombus',
+        code: 'union.discriminator',
+        value: 'triangle',
+        params: { values: ['circle', 'square', 'rhombus'] }
+      }]);
+      expect(shape.validate('circle').errors![0].code).toBe('object.base');
+    });
+
+    it('should refuse options without a discriminator or with duplicate values', () => {
+      const circle = SchemaBuilder.object({ kind: SchemaBuilder.literal('circle') });
+
+      expect(() => SchemaBuilder.discriminatedUnion('kind', [circle, SchemaBuilder.object({ kind: SchemaBuilder.string() })]))
+        .toThrow('Option 1 of the union has no literal or enum "kind" field');
+      expect(() => SchemaBuilder.discriminatedUnion('kind', [circle, circle]))
+        .toThrow('Discriminator value "circle" is used by several options of the union');
+    });
+
+    it('should await the asynchronous rules of the selected option', async () => {
+      const union = SchemaBuilder.discriminatedUnion('kind', [
+        SchemaBuilder.object({
+          kind: SchemaBuilder.literal('user'),
+          id: SchemaBuilder.string().refine(async id => id.startsWith('u'), 'user.unknown')
+        })
+      ]);
+
+      expect((await union.safeParseAsync({ kind: 'user', id: 'u1' })).success).toBe(true);
+      expect((await union.safeParseAsync({ kind: 'user', id: 'x1' })).errors![0]).toMatchObject({ path: ['id'], code: 'user.unknown' });
+    });
+  });
+
+  describe('intersection', () => {
+    const named = SchemaBuilder.object({ name: SchemaBuilder.string() });
+    const aged = SchemaBuilder.object({ age: SchemaBuilder.number() });
+
+    it('should require the value to match both schemas and merge their results', () => {
+      const person = SchemaBuilder.intersection(named, aged);
+      assertType<Equals<InferSchemaType<typeof person>, { name: string } & { age: number }>>();
+
+      expect(person.validate({ name: 'Fox', age: '7' })).toEqual({ success: true, data: { name: 'Fox', age: 7 } });
+      expect(person.validate({ name: 'Fox' }).errors).toEqual([expect.objectContaining({ path: ['age'], code: 'required' })]);
+      expect(person.validate({ name: 'Fox', age: 7, extra: 1 }).errors![0]).toMatchObject({ path: ['extra'], code: 'object.unknown' });
+    });
+
+    it('should fail values whose results cannot be merged', () => {
+      const upper = SchemaBuilder.string().uppercase();
+      const both = SchemaBuilder.intersection(upper, SchemaBuilder.string());
+
+      expect(both.validate('fox').errors![0].code).toBe('intersection.merge');
+    });
+
+    it('should validate both schemas asynchronously', async () => {
+      const person = SchemaBuilder.intersection(
+        named,
+        SchemaBuilder.object({ age: SchemaBuilder.number().refine(async age => age >= 18, 'age.adult') })
+      );
+
+      expect((await person.safeParseAsync({ name: 'Fox', age: 30 })).success).toBe(true);
+      expect((await person.safeParseAsync({ name: 'Fox', age: 3 })).errors![0]).toMatchObject({ path: ['age'], code: 'age.adult' });
+    });
+  });
+
+  describe('lazy', () => {
+    interface Category {
+      name: string;
+      children: Category[];
+    }
+
+    const category: SchemaInterface<Category> = SchemaBuilder.object({
+      name: SchemaBuilder.string().min(1),
+      children: SchemaBuilder.array(SchemaBuilder.lazy(() => category))
+    });
+
+    it('should validate recursive trees', () => {
+      const tree = { name: 'root', children: [{ name: 'a', children: [{ name: 'b', children: [] }] }] };
+
+      expect(category.validate(tree)).toEqual({ success: true, data: tree });
+      expect(category.validate({ name: 'root', children: [{ name: 'a', children: [{ name: '', children: [] }] }] }).errors![0])
+        .toMatchObject({ path: ['children', '0', 'children', '0', 'name'], code: 'min_length' });
+    });
+
+    it('should only build the schema when first used', async () => {
+      const getter = jest.fn(() => SchemaBuilder.number().refine(async value => value > 0));
+      const lazy = SchemaBuilder.lazy(getter);
+      expect(getter).not.toHaveBeenCalled();
+
+      expect((await lazy.safeParseAsync(1)).success).toBe(true);
+      expect((await lazy.safeParseAsync(-1)).success).toBe(false);
+      expect(getter).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Tests for localized and customized validation messages
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { SchemaBuilder } from '../schema/schema.builder';
+import { ValidationError } from '../errors/validation.errors';
+import { validateBody } from '../middleware/request.middleware';
+import { MessageCatalog, messageCatalog, parseAcceptLanguage } from '../messages';
+
+describe('Validation messages', () => {
+  const user = SchemaBuilder.object({
+    name: SchemaBuilder.string().min(3).label('Nombre'),
+    age: SchemaBuilder.number().min(18),
+    address: SchemaBuilder.object({ city: SchemaBuilder.string() })
+  });
+
+  describe('MessageCatalog', () => {
+    const catalog = new MessageCatalog({
+      en: { min_length: 'too short', max_length: 'too long' },
+      es: { min_length: 'demasiado corto' },
+      'es-MX': { min_length: 'muy cortito' }
+    });
+
+    it('should look messages up in the locale, its language and the default locale', () => {
+      expect(catalog.fallbackChain(['es-MX', 'fr'])).toEqual(['es-mx', 'es', 'fr', 'en']);
+      expect(catalog.resolve('min_length', 'es-MX')).toBe('muy cortito');
+      expect(catalog.resolve('min_length', 'es-AR')).toBe('demasiado corto');
+      expect(catalog.resolve('max_length', 'es')).toBe('too long');
+      expect(catalog.resolve('unknown_code', 'es')).toBeUndefined();
+    });
+
+    it('should extend locales with new messages', () => {
+      catalog.register('fr', { min_length: 'trop court' });
+
+      expect(catalog.resolve('min_length', ['fr-CA', 'es'])).toBe('trop court');
+      expect(catalog.locales()).toContain('fr');
+    });
+
+    it('should interpolate params, joining lists', () => {
+      expect(catalog.format('{label} must be one of: {values}', { label: 'role', values: ['admin', 'user'] }))
+        .toBe('role must be one of: admin, user');
+      expect(catalog.format('{missing} stays', {})).toBe('{missing} stays');
+    });
+
+    it('should parse Accept-Language headers by quality', () => {
+      expect(parseAcceptLanguage('en;q=0.5, es-ES, es;q=0.9, *;q=0.1')).toEqual(['es-ES', 'es', 'en']);
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+    });
+  });
+
+  describe('schemas', () => {
+    it('should keep the default messages without a language', () => {
+      const result = user.validate({ name: 'Al', age: 20, address: { city: 'Madrid' } });
+
+      expect(result.errors![0]).toEqual({
+        path: ['name'],
+        message: 'String must be at least 3 characters long',
+        code: 'min_length',
+        value: 'Al',
+        params: { limit: 3, label: 'Nombre' }
+      });
+    });
+
+    it('should translate messages, interpolating limits, labels and paths', () => {
+      const result = user.validate({ name: 'Al', age: 16, address: {} }, { language: 'es' });
+
+      expect(result.errors!.map(error => error.message)).toEqual([
+        '"Nombre" debe tener al menos 3 caracteres',
+        '"age" debe ser mayor o igual que 18',
+        '"address.city" es obligatorio'
+      ]);
+    });
+
+    it('should fall back to English for locales without catalog', () => {
+      expect(user.validate({ name: 'Al', age: 20, address: { city: 'X' } }, { language: ['pt-BR'] }).errors![0].message)
+        .toBe('"Nombre" must be at least 3 characters long');
+    });
+
+    it('should use the message overrides of the schema that reported the error', () => {
+      const signup = SchemaBuilder.object({
+        email: SchemaBuilder.string().email().messages({
+          invalid_email: { en: 'Check the email in {path}', es: 'Revisa el correo de {path}' }
+        }),
+        password: SchemaBuilder.string().min(8).messages({ min_length: 'At least {limit} characters' })
+      });
+      const form = SchemaBuilder.object({ signup });
+
+      const spanish = form.validate({ signup: { email: 'nope', password: 'short' } }, { language: 'es-ES' });
+      expect(spanish.errors!.map(error => error.message)).toEqual([
+        'Revisa el correo de signup.email',
+        'At least 8 characters'
+      ]);
+
+      const english = form.validate({ signup: { email: 'nope', password: 'long enough' } });
+      expect(english.errors![0].message).toBe('Check the email in signup.email');
+    });
+
+    it('should use the messages of the validation config', async () => {
+      const result = await user.validateAsync(
+        { name: 'Alice', age: 20, address: {} },
+        { language: 'es', messages: { required: 'Falta {path}' } }
+      );
+
+      expect(result.errors![0].message).toBe('Falta address.city');
+    });
+  });
+
+  describe('request middleware', () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/users', validateBody(user), (req, res) => res.status(201).json(req.body));
+    app.post('/english', validateBody(user, { language: 'en' }), (req, res) => res.status(201).json(req.body));
+
+    it('should translate messages to the language of the Accept-Language header', async () => {
+      const response = await request(app)
+        .post('/users')
+        .set('Accept-Language', 'fr;q=0.4, es-MX;q=0.8')
+        .send({ name: 'Alice', age: 12, address: { city: 'Madrid' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details[0]).toMatchObject({
+        path: ['body', 'age'],
+        message: '"age" debe ser mayor o igual que 18',
+        params: { limit: 18 }
+      });
+    });
+
+    it('should prefer the language of the options', async () => {
+      const response = await request(app)
+        .post('/english')
+        .set('Accept-Language', 'es')
+        .send({ name: 'Alice', age: 12, address: { city: 'Madrid' } });
+
+      expect(response.body.details[0].message).toBe('"age" must be greater than or equal to 18');
+    });
+  });
+
+  describe('ValidationError helpers', () => {
+    afterEach(() => {
+      messageCatalog.register('es', { 'any.required': 'El campo "{path}" es obligatorio' });
+    });
+
+    it('should translate the required and type messages', () => {
+      expect(ValidationError.required(['user', 'email']).validationErrors[0].message).toBe('Field "user.email" is required');
+      expect(ValidationError.required(['user', 'email'], undefined, 'es').validationErrors[0].message)
+        .toBe('El campo "user.email" es obligatorio');
+      expect(ValidationError.invalidType(['age'], 'number', 'string', 'x', 'es').validationErrors[0].message)
+        .toBe('"age" debe ser un número');
+    });
+
+    it('should use the messages registered in the shared catalog', () => {
+      messageCatalog.register('es', { 'any.required': 'Falta {path}' });
+
+      expect(ValidationError.required(['email'], undefined, 'es').validationErrors[0].message).toBe('Falta email');
+    });
+  });
+});
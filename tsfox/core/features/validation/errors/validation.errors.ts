@@ -5,6 +5,7 @@
 
 import { ValidationError as IValidationError } from '../interfaces/validation.interface';
 import { FoxError, ErrorCode } from '../../../error.enhanced';
+import { messageCatalog } from '../messages/message.catalog';
 
 /**
  * Standard validation error codes
@@ -98,29 +99,30 @@ export class ValidationError extends FoxError {
   }
 
   /**
-   * Create a validation error for required field
+   * Create a validation error for required field, with the message in the given language
    */
-  static required(path: string[], value?: unknown): ValidationError {
+  static required(path: string[], value?: unknown, language?: string | string[]): ValidationError {
     return ValidationError.fromField(
       path,
-      `Field "${path.join('.')}" is required`,
+      localizedMessage(path, 'any.required', `Field "${path.join('.')}" is required`, {}, language),
       'any.required',
       value
     );
   }
 
   /**
-   * Create a validation error for invalid type
+   * Create a validation error for invalid type, with the message in the given language
    */
   static invalidType(
     path: string[], 
     expected: string, 
     actual: string, 
-    value?: unknown
+    value?: unknown,
+    language?: string | string[]
   ): ValidationError {
     return ValidationError.fromField(
       path,
-      `Expected ${expected} but received ${actual}`,
+      localizedMessage(path, `${expected}.base`, `Expected ${expected} but received ${actual}`, { expected, actual }, language),
       `${expected}.base`,
       value
     );
@@ -185,6 +187,19 @@ export class ValidationError extends FoxError {
   }
 }
 
+/**
+ * Message of an error code in a language, or the default message without one
+ */
+function localizedMessage(
+  path: string[],
+  code: string,
+  message: string,
+  params: Record<string, unknown>,
+  language?: string | string[]
+): string {
+  return messageCatalog.localize({ path, message, code, params }, { language }).message;
+}
+
 /**
  * Schema compilation error for invalid schema definitions
  */
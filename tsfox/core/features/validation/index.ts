@@ -24,6 +24,12 @@ export {
   ResponseSchemas 
 } from './middleware/response.middleware';
 
+// Export JSON Schema conversion
+export { toJSONSchema, fromJSONSchema, JSON_SCHEMA_DIALECT } from './json-schema';
+
+// Export message catalogs
+export { MessageCatalog, messageCatalog, parseAcceptLanguage, en, es } from './messages';
+
 // Export error classes
 export { ValidationError } from './errors/validation.errors';
 
@@ -31,9 +37,38 @@ export { ValidationError } from './errors/validation.errors';
 export type { 
   SchemaInterface, 
   ValidationResult, 
-  ValidationError as IValidationError 
+  ValidationError as IValidationError,
+  ValidationConfig,
+  RefineCheck,
+  RefineOptions,
+  RefinementIssue,
+  SuperRefineCheck,
+  RuleContext
 } from './interfaces/validation.interface';
 
+export type { InferSchemaType } from './schema/schema.types';
+
+export type {
+  ObjectSchemaInterface,
+  MergeShapes,
+  WithOptional,
+  WithRequired,
+  DeepPartial
+} from './interfaces/schema.interface';
+
+export type {
+  JSONSchema,
+  JSONSchemaObject,
+  JSONSchemaType,
+  JSONSchemaExportOptions
+} from './json-schema';
+
+export type {
+  MessageTemplates,
+  MessageOverride,
+  LocalizationOptions
+} from './messages';
+
 export type { 
   ValidationSchemas, 
   RequestValidationOptions 
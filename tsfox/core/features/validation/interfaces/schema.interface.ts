@@ -150,6 +150,42 @@ export interface ObjectSchemaInterface<T extends Record<string, any> = Record<st
   xor(...peers: string[]): this;
   with(key: string, peers: string[]): this;
   without(key: string, peers: string[]): this;
+
+  /**
+   * Schema with more fields, replacing the fields of the same name
+   */
+  extend<U extends Record<string, any>>(shape: { [K in keyof U]: SchemaInterface<U[K]> }): ObjectSchemaInterface<MergeShapes<T, U>>;
+
+  /**
+   * Schema with the fields of both schemas; the fields and constraints of the given one win
+   */
+  merge<U extends Record<string, any>>(schema: ObjectSchemaInterface<U>): ObjectSchemaInterface<MergeShapes<T, U>>;
+
+  /**
+   * Schema with only the given fields
+   */
+  pick<K extends keyof T & string>(...keys: K[]): ObjectSchemaInterface<Simplify<Pick<T, K>>>;
+
+  /**
+   * Schema without the given fields
+   */
+  omit<K extends keyof T & string>(...keys: K[]): ObjectSchemaInterface<Simplify<Omit<T, K>>>;
+
+  /**
+   * Schema with the given fields optional, or all of them when none is given
+   */
+  partial<K extends keyof T & string = keyof T & string>(...keys: K[]): ObjectSchemaInterface<WithOptional<T, K>>;
+
+  /**
+   * Schema with all fields optional, down through the nested object schemas
+   */
+  deepPartial(): ObjectSchemaInterface<DeepPartial<T>>;
+
+  /**
+   * Make this schema required or, given field names, make those fields required
+   */
+  required(): SchemaInterface<T>;
+  required<K extends keyof T & string>(...keys: [K, ...K[]]): ObjectSchemaInterface<WithRequired<T, K>>;
 }
 
 /**
@@ -210,3 +246,34 @@ export interface AlternativeSchemaInterface<T> {
 export interface LiteralSchemaInterface<T extends string | number | boolean> extends SchemaInterface<T> {
   // No additional methods needed - just validates exact match
 }
+
+/**
+ * Flatten an intersection of object types into a single object type
+ */
+export type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Fields of both types, the second one winning on shared names
+ */
+export type MergeShapes<T, U> = Simplify<Omit<T, keyof U> & U>;
+
+/**
+ * Type with the given fields optional
+ */
+export type WithOptional<T, K extends keyof T> = Simplify<Omit<T, K> & { [P in K]?: T[P] }>;
+
+/**
+ * Type with the given fields required
+ */
+export type WithRequired<T, K extends keyof T> = Simplify<Omit<T, K> & { [P in K]-?: Exclude<T[P], undefined> }>;
+
+/**
+ * Type with all fields optional, down through nested objects
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends any[] | Date | Function
+    ? T[K]
+    : NonNullable<T[K]> extends Record<string, any>
+      ? DeepPartial<NonNullable<T[K]>>
+      : T[K];
+};
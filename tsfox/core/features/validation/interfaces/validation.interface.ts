@@ -3,6 +3,8 @@
  * @module tsfox/core/features/validation/interfaces/validation.interface
  */
 
+import type { MessageOverride } from '../messages/message.catalog';
+
 /**
  * Main validation interface that defines core validation operations
  */
@@ -66,6 +68,56 @@ export interface SchemaInterface<T = any> {
    * Add a custom validation rule
    */
   custom(rule: ValidatorInterface<T>): SchemaInterface<T>;
+
+  /**
+   * Add a rule failing when a check returns false (or resolves to false)
+   */
+  refine(check: RefineCheck<T>, options?: RefineOptions | string, message?: string): this;
+
+  /**
+   * Name of the value in error messages
+   */
+  label(label: string): this;
+
+  /**
+   * Describe this schema, e.g. for generated documentation
+   */
+  description(description: string): this;
+
+  /**
+   * Replace the messages of the errors of this schema, by error code
+   */
+  messages(overrides: Record<string, MessageOverride>): this;
+
+  /**
+   * Add a rule reporting any number of issues, each on its own path
+   */
+  superRefine(check: SuperRefineCheck<T>, options?: { timeout?: number }): this;
+
+  /**
+   * Validate data against this schema, awaiting asynchronous rules
+   */
+  validateAsync(data: unknown, config?: ValidationConfig): Promise<ValidationResult<T>>;
+
+  /**
+   * Validate data, throwing a ValidationError when invalid
+   */
+  parse(data: unknown): T;
+
+  /**
+   * Validate data, returning the validation result
+   */
+  safeParse(data: unknown): ValidationResult<T>;
+
+  /**
+   * Validate data with asynchronous rules, rejecting with a ValidationError when invalid
+   */
+  parseAsync(data: unknown, config?: ValidationConfig): Promise<T>;
+
+  /**
+   * Validate data with asynchronous rules, resolving with the validation result
+   */
+  safeParseAsync(data: unknown, config?: ValidationConfig): Promise<ValidationResult<T>>;
 }
 
 /**
@@ -78,9 +130,9 @@ export interface ValidatorInterface<T = any> {
   name: string;
   
   /**
-   * Validation function
+   * Validation function; a promise makes the rule asynchronous
    */
-  validate: (value: unknown) => ValidationResult<T>;
+  validate: (value: unknown, context?: RuleContext) => ValidationResult<T> | Promise<ValidationResult<T>>;
   
   /**
    * Error message for validation failures
@@ -91,8 +143,82 @@ export interface ValidatorInterface<T = any> {
    * Error code for validation failures
    */
   code?: string;
+
+  /**
+   * Milliseconds an asynchronous rule may take (default the `asyncTimeout` of the validation)
+   */
+  timeout?: number;
 }
 
+/**
+ * What a rule gets besides the value it checks
+ */
+export interface RuleContext {
+  /**
+   * Aborted once the result of the rule is no longer needed: another rule failed
+   * with `abortEarly`, the rule timed out or the caller cancelled the validation
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Check of a `refine` rule
+ */
+export type RefineCheck<T> = (value: T, context: RuleContext) => boolean | Promise<boolean>;
+
+/**
+ * Options of a `refine` rule
+ */
+export interface RefineOptions {
+  /**
+   * Error message (default "Custom validation failed")
+   */
+  message?: string;
+
+  /**
+   * Error code (default the schema type followed by `.refine`)
+   */
+  code?: string;
+
+  /**
+   * Path of the error below the validated value, such as the sibling field an object rule compares
+   */
+  path?: string[];
+
+  /**
+   * Milliseconds an asynchronous check may take (default the `asyncTimeout` of the validation)
+   */
+  timeout?: number;
+}
+
+/**
+ * Issue reported by a `superRefine` rule
+ */
+export interface RefinementIssue {
+  /**
+   * Path of the issue below the validated value
+   */
+  path?: string[];
+
+  /**
+   * Error message
+   */
+  message: string;
+
+  /**
+   * Error code (default the schema type followed by `.refine`)
+   */
+  code?: string;
+}
+
+/**
+ * Check of a `superRefine` rule, reporting its issues through the context
+ */
+export type SuperRefineCheck<T> = (
+  value: T,
+  context: RuleContext & { addIssue(issue: RefinementIssue): void }
+) => void | Promise<void>;
+
 /**
  * Validation result containing success status and data/errors
  */
@@ -136,6 +262,11 @@ export interface ValidationError {
    * The value that failed validation
    */
   value?: unknown;
+
+  /**
+   * Values interpolated in the message: limits, allowed values, the label of the schema...
+   */
+  params?: Record<string, unknown>;
 }
 
 /**
@@ -161,6 +292,31 @@ export interface SchemaDescription {
    * Child schemas for object types
    */
   children?: Record<string, SchemaDescription>;
+
+  /**
+   * Default value used when the value is missing
+   */
+  default?: unknown;
+
+  /**
+   * Schema of the items of arrays, or of each position of tuples
+   */
+  items?: SchemaDescription | SchemaDescription[];
+
+  /**
+   * Schema of the values of records
+   */
+  values?: SchemaDescription;
+
+  /**
+   * Member schemas of unions and intersections
+   */
+  options?: SchemaDescription[];
+
+  /**
+   * Schema of a lazy schema, resolved on demand as it may contain the lazy schema itself
+   */
+  resolve?: () => SchemaInterface<any>;
 }
 
 /**
@@ -186,6 +342,26 @@ export interface ValidationConfig {
    * Context data for conditional validation
    */
   context?: Record<string, any>;
+
+  /**
+   * Milliseconds each asynchronous rule may take (default 5000, 0 for no limit)
+   */
+  asyncTimeout?: number;
+
+  /**
+   * Cancels the pending asynchronous rules when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Locales of the error messages, most preferred first
+   */
+  language?: string | string[];
+
+  /**
+   * Error messages by error code, as templates or templates by locale
+   */
+  messages?: Record<string, MessageOverride>;
 }
 
 /**
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview JSON Schema conversion exports
+ * @module tsfox/core/features/validation/json-schema
+ */
+
+export * from './json.schema.types';
+export { toJSONSchema } from './schema.exporter';
+export { fromJSONSchema } from './schema.importer';
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview JSON Schema (draft 2020-12) types for schema conversion
+ * @module tsfox/core/features/validation/json-schema/json.schema.types
+ */
+
+/**
+ * Dialect of the documents produced and read by the converters
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * JSON Schema document, or a `true`/`false` schema accepting anything or nothing
+ */
+export type JSONSchema = JSONSchemaObject | boolean;
+
+/**
+ * Keywords of draft 2020-12 understood by the converters
+ */
+export interface JSONSchemaObject {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  /** Draft 7 name of `$defs`, still read by the importer */
+  definitions?: Record<string, JSONSchema>;
+
+  // Annotations
+  title?: string;
+  description?: string;
+  default?: unknown;
+
+  // Any type
+  type?: JSONSchemaType | JSONSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  not?: JSONSchema;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  // Objects
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: JSONSchema;
+  unevaluatedProperties?: JSONSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JSONSchema>;
+
+  // Arrays
+  items?: JSONSchema;
+  prefixItems?: JSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  /** OpenAPI discriminator object, emitted for discriminated unions */
+  discriminator?: { propertyName: string };
+
+  [keyword: string]: unknown;
+}
+
+/**
+ * Options of `toJSONSchema`
+ */
+export interface JSONSchemaExportOptions {
+  /**
+   * Add the `$schema` dialect keyword to the root (default true)
+   */
+  dialect?: boolean;
+
+  /**
+   * Collect the definitions of recursive schemas here instead of in the `$defs` of the
+   * document, e.g. the `components.schemas` of an OpenAPI document
+   */
+  definitions?: Record<string, JSONSchema>;
+
+  /**
+   * Prefix of the references to definitions (default `#/$defs/`)
+   */
+  refPrefix?: string;
+}
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Conversion of validation schemas to JSON Schema (draft 2020-12)
+ * @module tsfox/core/features/validation/json-schema/schema.exporter
+ */
+
+import { SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
+import { JSONSchema, JSONSchemaObject, JSONSchemaExportOptions, JSON_SCHEMA_DIALECT } from './json.schema.types';
+
+/** Pattern equivalent to `string().alphanum()` */
+export const ALPHANUM_PATTERN = '^[a-zA-Z0-9]+$';
+
+/** JSON Schema formats of the string format constraints */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid'
+};
+
+/**
+ * Convert a validation schema to a JSON Schema document.
+ *
+ * Recursive schemas built with `SchemaBuilder.lazy` become references: `#` for the
+ * schema itself and a definition named after the label of the target otherwise.
+ * Transformations (trim, case conversion, precision) have no JSON Schema counterpart
+ * and are left out, as are custom rules and refinements.
+ */
+export function toJSONSchema(schema: SchemaInterface<any>, options: JSONSchemaExportOptions = {}): JSONSchemaObject {
+  return new SchemaExporter(schema, options).export();
+}
+
+/**
+ * Conversion of one schema, keeping the definitions of the recursive schemas it references
+ */
+class SchemaExporter {
+  private readonly definitions: Record<string, JSONSchema>;
+  private readonly names = new Map<SchemaInterface<any>, string>();
+
+  constructor(private readonly root: SchemaInterface<any>, private readonly options: JSONSchemaExportOptions) {
+    this.definitions = options.definitions ?? {};
+  }
+
+  export(): JSONSchemaObject {
+    let document = this.convert(this.root.describe());
+
+    // With external definitions, `#` is not the root: a recursive root becomes a definition too
+    const rootName = this.names.get(this.root);
+    if (rootName) {
+      this.definitions[rootName] = document;
+      document = this.refTo(rootName);
+    }
+
+    if (!this.options.definitions && Object.keys(this.definitions).length > 0) {
+      document.$defs = this.definitions;
+    }
+    return this.options.dialect === false ? document : { $schema: JSON_SCHEMA_DIALECT, ...document };
+  }
+
+  private convert(description: SchemaDescription): JSONSchemaObject {
+    const converted = this.convertType(description);
+    const constraints = description.constraints || {};
+
+    if (typeof constraints.label === 'string') {
+      converted.title = constraints.label;
+    }
+    if (typeof constraints.description === 'string') {
+      converted.description = constraints.description;
+    }
+    if (description.default !== undefined) {
+      converted.default = description.default instanceof Date ? description.default.toISOString() : description.default;
+    }
+    return converted;
+  }
+
+  private convertType(description: SchemaDescription): JSONSchemaObject {
+    const constraints = description.constraints || {};
+
+    switch (description.type) {
+      case 'string':
+        return this.convertString(constraints);
+      case 'number':
+        return this.convertNumber(constraints);
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'null':
+        return { type: 'null' };
+      case 'date':
+        return { type: 'string', format: 'date-time' };
+      case 'literal':
+        return { const: constraints.value };
+      case 'enum':
+        return { enum: [...constraints.values] };
+      case 'object':
+        return this.convertObject(description);
+      case 'record':
+        return { type: 'object', additionalProperties: this.convert(description.values!) };
+      case 'array':
+        return this.convertArray(description);
+      case 'tuple': {
+        const items = description.items as SchemaDescription[];
+        return { type: 'array', prefixItems: items.map(item => this.convert(item)), items: false, minItems: items.length };
+      }
+      case 'union':
+        return { anyOf: description.options!.map(option => this.convert(option)) };
+      case 'discriminatedUnion':
+        return {
+          oneOf: description.options!.map(option => this.convert(option)),
+          discriminator: { propertyName: constraints.discriminator }
+        };
+      case 'intersection':
+        return this.convertIntersection(description);
+      case 'lazy':
+        return this.reference(description.resolve!());
+      case 'never':
+        return { not: {} };
+      default:
+        return {};
+    }
+  }
+
+  private convertString(constraints: Record<string, any>): JSONSchemaObject {
+    const converted: JSONSchemaObject = { type: 'string' };
+
+    if (constraints.length !== undefined) {
+      converted.minLength = constraints.length;
+      converted.maxLength = constraints.length;
+    }
+    if (constraints.min !== undefined) {
+      converted.minLength = Math.max(constraints.min, converted.minLength ?? 0);
+    }
+    if (constraints.max !== undefined) {
+      converted.maxLength = Math.min(constraints.max, converted.maxLength ?? Infinity);
+    }
+    if (constraints.pattern) {
+      addKeyword(converted, 'pattern', constraints.pattern instanceof RegExp ? constraints.pattern.source : String(constraints.pattern));
+    }
+    if (constraints.alphanum) {
+      addKeyword(converted, 'pattern', ALPHANUM_PATTERN);
+    }
+    for (const [constraint, format] of Object.entries(STRING_FORMATS)) {
+      if (constraints[constraint]) {
+        addKeyword(converted, 'format', format);
+      }
+    }
+    if (constraints.oneOf) {
+      converted.enum = [...constraints.oneOf];
+    }
+    if (constraints.notOneOf) {
+      converted.not = { enum: [...constraints.notOneOf] };
+    }
+    return converted;
+  }
+
+  private convertNumber(constraints: Record<string, any>): JSONSchemaObject {
+    const converted: JSONSchemaObject = { type: constraints.integer || constraints.port ? 'integer' : 'number' };
+
+    const minimum = bound(Math.max, constraints.min, constraints.port ? 1 : undefined);
+    const maximum = bound(Math.min, constraints.max, constraints.port ? 65535 : undefined);
+    const exclusiveMinimum = bound(Math.max, constraints.greater, constraints.positive ? 0 : undefined);
+    const exclusiveMaximum = bound(Math.min, constraints.less, constraints.negative ? 0 : undefined);
+
+    if (minimum !== undefined) converted.minimum = minimum;
+    if (maximum !== undefined) converted.maximum = maximum;
+    if (exclusiveMinimum !== undefined) converted.exclusiveMinimum = exclusiveMinimum;
+    if (exclusiveMaximum !== undefined) converted.exclusiveMaximum = exclusiveMaximum;
+    if (constraints.multiple !== undefined) converted.multipleOf = constraints.multiple;
+    return converted;
+  }
+
+  private convertObject(description: SchemaDescription): JSONSchemaObject {
+    const constraints = description.constraints || {};
+    const converted: JSONSchemaObject = { type: 'object' };
+
+    if (description.children) {
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, child] of Object.entries(description.children)) {
+        properties[key] = this.convert(child);
+        // Missing fields with a default take it instead of failing
+        if (child.required && child.default === undefined) {
+          required.push(key);
+        }
+      }
+      converted.properties = properties;
+      if (required.length > 0) {
+        converted.required = required;
+      }
+      if (!constraints.unknown) {
+        converted.additionalProperties = false;
+      }
+    }
+
+    if (constraints.length !== undefined) {
+      converted.minProperties = constraints.length;
+      converted.maxProperties = constraints.length;
+    }
+    if (constraints.min !== undefined) converted.minProperties = constraints.min;
+    if (constraints.max !== undefined) converted.maxProperties = constraints.max;
+
+    // Peer constraints
+    const dependentRequired: Record<string, string[]> = {};
+    const depend = (key: string, peers: string[]) => {
+      dependentRequired[key] = [...new Set([...(dependentRequired[key] || []), ...peers])];
+    };
+    for (const key of constraints.and || []) {
+      depend(key, constraints.and.filter((peer: string) => peer !== key));
+    }
+    for (const [key, peers] of Object.entries<string[]>(constraints.with || {})) {
+      depend(key, peers);
+    }
+    if (Object.keys(dependentRequired).length > 0) {
+      converted.dependentRequired = dependentRequired;
+    }
+    if (constraints.or) {
+      converted.anyOf = constraints.or.map((peer: string) => ({ required: [peer] }));
+    }
+    if (constraints.xor) {
+      converted.oneOf = constraints.xor.map((peer: string) => ({ required: [peer] }));
+    }
+    if (constraints.without) {
+      converted.dependentSchemas = Object.fromEntries(
+        Object.entries<string[]>(constraints.without).map(([key, peers]) => [
+          key,
+          { not: { anyOf: peers.map(peer => ({ required: [peer] })) } }
+        ])
+      );
+    }
+    return converted;
+  }
+
+  private convertArray(description: SchemaDescription): JSONSchemaObject {
+    const constraints = description.constraints || {};
+    const converted: JSONSchemaObject = { type: 'array' };
+
+    if (description.items) {
+      converted.items = this.convert(description.items as SchemaDescription);
+    }
+    if (constraints.length !== undefined) {
+      converted.minItems = constraints.length;
+      converted.maxItems = constraints.length;
+    }
+    if (constraints.min !== undefined) converted.minItems = constraints.min;
+    if (constraints.max !== undefined) converted.maxItems = constraints.max;
+    if (constraints.unique) converted.uniqueItems = true;
+    return converted;
+  }
+
+  /**
+   * Both sides of an intersection let unknown keys through; the keys neither object
+   * side defines are only refused when both of them would refuse them on their own.
+   */
+  private convertIntersection(description: SchemaDescription): JSONSchemaObject {
+    const members = description.options!.map(option => this.convert(option));
+    const strict = members.filter(member => member.type === 'object' && member.additionalProperties === false);
+
+    for (const member of strict) {
+      delete member.additionalProperties;
+    }
+
+    const converted: JSONSchemaObject = { allOf: members };
+    if (strict.length === members.length) {
+      converted.unevaluatedProperties = false;
+    }
+    return converted;
+  }
+
+  /**
+   * Reference to a recursive schema, converting it into a definition the first time
+   */
+  private reference(schema: SchemaInterface<any>): JSONSchemaObject {
+    if (schema === this.root && !this.options.definitions) {
+      return { $ref: '#' };
+    }
+
+    let name = this.names.get(schema);
+    if (!name) {
+      name = this.nameFor(schema);
+      this.names.set(schema, name);
+      if (schema !== this.root) {
+        this.definitions[name] = this.convert(schema.describe());
+      }
+    }
+    return this.refTo(name);
+  }
+
+  private refTo(name: string): JSONSchemaObject {
+    return { $ref: `${this.options.refPrefix ?? '#/$defs/'}${name}` };
+  }
+
+  /**
+   * Definition name from the label of the schema, unique within the definitions
+   */
+  private nameFor(schema: SchemaInterface<any>): string {
+    const label = schema.describe().constraints?.label;
+    const base = typeof label === 'string' && label ? label.replace(/[^\w.-]/g, '_') : 'Schema';
+    const taken = new Set([...Object.keys(this.definitions), ...this.names.values()]);
+
+    let name = base;
+    for (let index = 2; taken.has(name); index++) {
+      name = `${base}${index}`;
+    }
+    return name;
+  }
+}
+
+/**
+ * Set a keyword, moving further values of it to `allOf`
+ */
+function addKeyword(schema: JSONSchemaObject, keyword: string, value: unknown): void {
+  if (schema[keyword] === undefined) {
+    schema[keyword] = value;
+  } else {
+    schema.allOf = [...(schema.allOf || []), { [keyword]: value }];
+  }
+}
+
+/**
+ * Tightest of two optional bounds
+ */
+function bound(pick: (a: number, b: number) => number, a?: number, b?: number): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return pick(a, b);
+}
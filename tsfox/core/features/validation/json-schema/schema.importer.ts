@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Conversion of JSON Schema (draft 2020-12) documents to validation schemas
+ * @module tsfox/core/features/validation/json-schema/schema.importer
+ */
+
+import { SchemaInterface } from '../interfaces/validation.interface';
+import { StringSchemaInterface, NumberSchemaInterface, ObjectSchemaInterface } from '../interfaces/schema.interface';
+import { BaseSchema } from '../schema/base.schema';
+import { SchemaBuilder } from '../schema/schema.builder';
+import { JSONSchema, JSONSchemaObject, JSONSchemaType } from './json.schema.types';
+import { ALPHANUM_PATTERN } from './schema.exporter';
+
+/**
+ * Build a validation schema from a JSON Schema document.
+ *
+ * References to the document itself (`#`) and to its `$defs` (or draft 7 `definitions`)
+ * become lazy schemas, so recursive documents are supported; other references are refused.
+ * Properties left out of `required` are optional, and objects without
+ * `additionalProperties: false` let unknown keys through, as JSON Schema does.
+ */
+export function fromJSONSchema(document: JSONSchema): SchemaInterface<any> {
+  return new SchemaImporter(document).import();
+}
+
+/**
+ * Conversion of one document, sharing the schemas built for its definitions
+ */
+class SchemaImporter {
+  private root?: SchemaInterface<any>;
+  private readonly definitions = new Map<string, SchemaInterface<any>>();
+
+  constructor(private readonly document: JSONSchema) {}
+
+  import(): SchemaInterface<any> {
+    this.root = this.convert(this.document);
+    return this.root;
+  }
+
+  private convert(schema: JSONSchema): SchemaInterface<any> {
+    if (schema === true) {
+      return SchemaBuilder.any();
+    }
+    if (schema === false) {
+      return SchemaBuilder.never();
+    }
+
+    let converted = this.convertType(schema);
+
+    if (converted instanceof BaseSchema) {
+      if (schema.title !== undefined) converted.label(schema.title);
+      if (schema.description !== undefined) converted.description(schema.description);
+    }
+    if (schema.default !== undefined) {
+      const isDate = converted.describe().type === 'date' && typeof schema.default === 'string';
+      converted = converted.default(isDate ? new Date(schema.default as string) : schema.default);
+    }
+    return converted;
+  }
+
+  private convertType(schema: JSONSchemaObject): SchemaInterface<any> {
+    if (schema.$ref !== undefined) {
+      return this.reference(schema.$ref);
+    }
+
+    if (Array.isArray(schema.type)) {
+      return this.union(schema.type.map(type => this.convertType({ ...schema, type })));
+    }
+
+    if (schema.type === undefined) {
+      if (schema.not !== undefined && (schema.not === true || isEmpty(schema.not))) {
+        return SchemaBuilder.never();
+      }
+      if ('const' in schema) {
+        return this.constant(schema.const);
+      }
+      if (schema.enum) {
+        return this.enumeration(schema.enum);
+      }
+      if (schema.anyOf) {
+        return this.union(schema.anyOf.map(option => this.convert(option)));
+      }
+      if (schema.oneOf) {
+        const options = schema.oneOf.map(option => this.convert(option));
+        return schema.discriminator
+          ? SchemaBuilder.discriminatedUnion(schema.discriminator.propertyName, options as any)
+          : this.union(options);
+      }
+      if (schema.allOf) {
+        return this.intersection(schema);
+      }
+      if (schema.properties) {
+        return this.convertObject(schema);
+      }
+      return SchemaBuilder.any();
+    }
+
+    if (schema.allOf && schema.type !== 'string') {
+      const { allOf, title, description, default: defaultValue, ...typed } = schema;
+      return this.intersection({ ...schema, allOf: [typed, ...allOf] });
+    }
+    if ('const' in schema) {
+      return this.constant(schema.const);
+    }
+    if (schema.enum && schema.type !== 'string') {
+      return this.enumeration(schema.enum);
+    }
+
+    switch (schema.type as JSONSchemaType) {
+      case 'string':
+        return schema.format === 'date-time' ? SchemaBuilder.date() : this.convertString(schema);
+      case 'number':
+      case 'integer':
+        return this.convertNumber(schema);
+      case 'boolean':
+        return SchemaBuilder.boolean();
+      case 'null':
+        return SchemaBuilder.null();
+      case 'object':
+        return this.convertObject(schema);
+      case 'array':
+        return this.convertArray(schema);
+      default:
+        throw new Error(`Unsupported JSON Schema type "${schema.type}"`);
+    }
+  }
+
+  /**
+   * String keywords, including those the exporter moves to `allOf` when repeated
+   */
+  private convertString(schema: JSONSchemaObject): SchemaInterface<string> {
+    let converted = SchemaBuilder.string();
+    for (const keywords of [schema, ...(schema.allOf || []).filter(isObject)]) {
+      converted = this.applyString(converted, keywords);
+    }
+    return converted;
+  }
+
+  private applyString(converted: StringSchemaInterface, schema: JSONSchemaObject): StringSchemaInterface {
+    if (schema.minLength !== undefined && schema.minLength === schema.maxLength) {
+      converted = converted.length(schema.minLength);
+    } else {
+      if (schema.minLength !== undefined) converted = converted.min(schema.minLength);
+      if (schema.maxLength !== undefined) converted = converted.max(schema.maxLength);
+    }
+    if (schema.pattern !== undefined) {
+      converted = schema.pattern === ALPHANUM_PATTERN ? converted.alphanum() : converted.pattern(new RegExp(schema.pattern));
+    }
+    if (schema.format === 'email') converted = converted.email();
+    if (schema.format === 'uri') converted = converted.url();
+    if (schema.format === 'uuid') converted = converted.uuid();
+    if (schema.enum) converted = converted.oneOf(schema.enum.map(String));
+    if (isObject(schema.not) && schema.not.enum) converted = converted.notOneOf(schema.not.enum.map(String));
+    return converted;
+  }
+
+  private convertNumber(schema: JSONSchemaObject): SchemaInterface<number> {
+    let converted: NumberSchemaInterface = SchemaBuilder.number();
+
+    if (schema.type === 'integer') converted = converted.integer();
+    if (schema.minimum !== undefined) converted = converted.min(schema.minimum);
+    if (schema.maximum !== undefined) converted = converted.max(schema.maximum);
+    if (schema.exclusiveMinimum !== undefined) {
+      converted = schema.exclusiveMinimum === 0 ? converted.positive() : converted.greater(schema.exclusiveMinimum);
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+      converted = schema.exclusiveMaximum === 0 ? converted.negative() : converted.less(schema.exclusiveMaximum);
+    }
+    if (schema.multipleOf !== undefined) converted = converted.multiple(schema.multipleOf);
+    return converted;
+  }
+
+  private convertObject(schema: JSONSchemaObject): SchemaInterface<any> {
+    if (!schema.properties && schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+      return SchemaBuilder.record(this.convert(schema.additionalProperties));
+    }
+
+    let converted: ObjectSchemaInterface;
+    if (schema.properties || schema.additionalProperties === false) {
+      const required = schema.required || [];
+      const shape: Record<string, SchemaInterface<any>> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const child = this.convert(property);
+        shape[key] = required.includes(key) ? child : child.optional();
+      }
+      converted = SchemaBuilder.object(shape);
+      if (schema.additionalProperties !== false) {
+        converted = converted.unknown();
+      }
+    } else {
+      converted = SchemaBuilder.object();
+    }
+
+    if (schema.minProperties !== undefined && schema.minProperties === schema.maxProperties) {
+      converted = converted.length(schema.minProperties);
+    } else {
+      if (schema.minProperties !== undefined) converted = converted.min(schema.minProperties);
+      if (schema.maxProperties !== undefined) converted = converted.max(schema.maxProperties);
+    }
+
+    for (const [key, peers] of Object.entries(schema.dependentRequired || {})) {
+      converted = converted.with(key, peers);
+    }
+    for (const [key, dependent] of Object.entries(schema.dependentSchemas || {})) {
+      const peers = isObject(dependent) && isObject(dependent.not) ? requiredPeers(dependent.not.anyOf) : undefined;
+      if (!peers) {
+        throw new Error(`Unsupported dependent schema for "${key}"`);
+      }
+      converted = converted.without(key, peers);
+    }
+
+    // anyOf and oneOf of single required keys are peer constraints, other ones alternatives
+    const alternatives: SchemaInterface<any>[] = [];
+    const anyOfPeers = requiredPeers(schema.anyOf);
+    if (anyOfPeers) {
+      converted = converted.or(...anyOfPeers);
+    } else if (schema.anyOf) {
+      alternatives.push(this.union(schema.anyOf.map(option => this.convert(option))));
+    }
+    const oneOfPeers = requiredPeers(schema.oneOf);
+    if (oneOfPeers) {
+      converted = converted.xor(...oneOfPeers);
+    } else if (schema.oneOf) {
+      alternatives.push(this.union(schema.oneOf.map(option => this.convert(option))));
+    }
+
+    return alternatives.reduce<SchemaInterface<any>>((left, right) => SchemaBuilder.intersection(left, right), converted);
+  }
+
+  private convertArray(schema: JSONSchemaObject): SchemaInterface<any> {
+    if (schema.prefixItems) {
+      return SchemaBuilder.tuple(schema.prefixItems.map(item => this.convert(item)));
+    }
+
+    let converted = SchemaBuilder.array(schema.items !== undefined ? this.convert(schema.items) : undefined);
+    if (schema.minItems !== undefined && schema.minItems === schema.maxItems) {
+      converted = converted.length(schema.minItems);
+    } else {
+      if (schema.minItems !== undefined) converted = converted.min(schema.minItems);
+      if (schema.maxItems !== undefined) converted = converted.max(schema.maxItems);
+    }
+    if (schema.uniqueItems) converted = converted.unique();
+    return converted;
+  }
+
+  /**
+   * `allOf` members, which keep refusing unknown keys when `unevaluatedProperties` is false
+   */
+  private intersection(schema: JSONSchemaObject): SchemaInterface<any> {
+    const members = schema.allOf!.map(member => {
+      const strict = schema.unevaluatedProperties === false && isObject(member) && member.properties;
+      return this.convert(strict ? { ...member, additionalProperties: false } : member);
+    });
+    return members.reduce((left, right) => SchemaBuilder.intersection(left, right));
+  }
+
+  private union(options: SchemaInterface<any>[]): SchemaInterface<any> {
+    return options.length === 1 ? options[0] : SchemaBuilder.union(...options);
+  }
+
+  private constant(value: unknown): SchemaInterface<any> {
+    if (value === null) {
+      return SchemaBuilder.null();
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return SchemaBuilder.literal(value);
+    }
+    throw new Error(`Unsupported JSON Schema constant ${JSON.stringify(value)}`);
+  }
+
+  private enumeration(values: unknown[]): SchemaInterface<any> {
+    if (values.every(value => typeof value === 'string' || typeof value === 'number')) {
+      return SchemaBuilder.enum(values as Array<string | number>);
+    }
+    return this.union(values.map(value => this.constant(value)));
+  }
+
+  /**
+   * Lazy schema for a reference to the document or to one of its definitions
+   */
+  private reference(ref: string): SchemaInterface<any> {
+    if (ref === '#') {
+      return SchemaBuilder.lazy(() => this.root!);
+    }
+
+    const match = /^#\/(\$defs|definitions)\/([^/]+)$/.exec(ref);
+    const container = match && isObject(this.document) ? (this.document[match[1]] as Record<string, JSONSchema> | undefined) : undefined;
+    const name = match ? decodeURIComponent(match[2]).replace(/~1/g, '/').replace(/~0/g, '~') : '';
+    if (!container || !(name in container)) {
+      throw new Error(`Unsupported JSON Schema reference "${ref}"`);
+    }
+
+    return SchemaBuilder.lazy(() => {
+      if (!this.definitions.has(ref)) {
+        this.definitions.set(ref, this.convert(container[name]));
+      }
+      return this.definitions.get(ref)!;
+    });
+  }
+}
+
+/**
+ * Keys of a list of `{ required: [key] }` schemas, the form of the object peer constraints
+ */
+function requiredPeers(schemas?: JSONSchema[]): string[] | undefined {
+  if (!schemas || schemas.length === 0) {
+    return undefined;
+  }
+  const peers = schemas.map(schema =>
+    isObject(schema) && Object.keys(schema).length === 1 && schema.required?.length === 1 ? schema.required[0] : undefined
+  );
+  return peers.every((peer): peer is string => peer !== undefined) ? peers : undefined;
+}
+
+function isObject(schema: unknown): schema is JSONSchemaObject {
+  return typeof schema === 'object' && schema !== null && !Array.isArray(schema);
+}
+
+function isEmpty(schema: JSONSchema): boolean {
+  return isObject(schema) && Object.keys(schema).length === 0;
+}
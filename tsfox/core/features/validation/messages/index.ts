@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Validation message exports
+ * @module tsfox/core/features/validation/messages
+ */
+
+export * from './message.catalog';
+export { en } from './locales/en';
+export { es } from './locales/es';
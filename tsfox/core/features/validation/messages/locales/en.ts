@@ -0,0 +1,96 @@
+/**
+ * @fileoverview English validation messages
+ * @module tsfox/core/features/validation/messages/locales/en
+ */
+
+import { MessageTemplates } from '../message.catalog';
+
+/**
+ * Messages by error code. `{label}` is the label of the schema, or the path of the value
+ */
+export const en: MessageTemplates = {
+  // Name of a value without label or path
+  value: 'value',
+
+  // General
+  'required': '"{label}" is required',
+  'any.required': 'Field "{path}" is required',
+  'any.async': '"{label}" has an asynchronous rule: use validateAsync, parseAsync or safeParseAsync',
+  'type_mismatch': '"{label}" must be of type {expected}',
+
+  // String
+  'string.base': '"{label}" must be a string',
+  'string.convert': '"{label}" cannot be converted to a string',
+  'string.alphanum': '"{label}" must only contain alphanumeric characters',
+  'string.oneOf': '"{label}" must be one of: {values}',
+  'string.notOneOf': '"{label}" must not be one of: {values}',
+  'string.transform': '"{label}" could not be transformed',
+  'exact_length': '"{label}" must be exactly {limit} characters long',
+  'min_length': '"{label}" must be at least {limit} characters long',
+  'max_length': '"{label}" must be at most {limit} characters long',
+  'pattern_mismatch': '"{label}" does not match the required pattern',
+  'invalid_email': '"{label}" must be a valid email address',
+  'invalid_url': '"{label}" must be a valid URL',
+  'invalid_uuid': '"{label}" must be a valid UUID',
+  'invalid_datetime': '"{label}" must be a valid date and time',
+  'invalid_cuid': '"{label}" must be a valid CUID',
+
+  // Number
+  'number.base': '"{label}" must be a number',
+  'number.convert': '"{label}" cannot be converted to a number',
+  'number.nan': '"{label}" cannot be NaN',
+  'number.infinity': '"{label}" must be finite',
+  'number.integer': '"{label}" must be an integer',
+  'number.min': '"{label}" must be greater than or equal to {limit}',
+  'number.max': '"{label}" must be less than or equal to {limit}',
+  'number.greater': '"{label}" must be greater than {limit}',
+  'number.less': '"{label}" must be less than {limit}',
+  'number.positive': '"{label}" must be positive',
+  'number.negative': '"{label}" must be negative',
+  'number.multiple': '"{label}" must be a multiple of {limit}',
+  'number.port': '"{label}" must be a valid port (1-65535)',
+
+  // Boolean
+  'boolean.base': '"{label}" must be a boolean',
+  'boolean.convert': '"{label}" cannot be converted to a boolean',
+
+  // Date
+  'date.base': '"{label}" must be a date',
+  'date.convert': '"{label}" cannot be converted to a date',
+  'date.iso': '"{label}" must be a valid ISO date',
+  'date.invalid': '"{label}" must be a valid date',
+  'date.min': '"{label}" must be on or after {limit}',
+  'date.max': '"{label}" must be on or before {limit}',
+  'date.greater': '"{label}" must be after {limit}',
+  'date.less': '"{label}" must be before {limit}',
+
+  // Literal, enum and never
+  'literal.base': '"{label}" must be {expected}',
+  'enum.base': '"{label}" must be one of: {values}',
+  'never.base': '"{label}" is not allowed',
+
+  // Array
+  'array.base': '"{label}" must be an array',
+  'array.length': '"{label}" must contain exactly {limit} items',
+  'array.min': '"{label}" must contain at least {limit} items',
+  'array.max': '"{label}" must contain at most {limit} items',
+  'array.unique': '"{label}" must contain unique items',
+  'array.sparse': '"{label}" cannot contain empty items',
+
+  // Object
+  'object.base': '"{label}" must be an object',
+  'object.length': '"{label}" must have exactly {limit} keys',
+  'object.min': '"{label}" must have at least {limit} keys',
+  'object.max': '"{label}" must have at most {limit} keys',
+  'object.unknown': '"{path}" is not allowed',
+  'object.and': '"{label}" is missing the required peers: {peers}',
+  'object.or': '"{label}" must contain at least one of: {peers}',
+  'object.xor': '"{label}" must contain exactly one of: {peers}',
+  'object.with': '"{key}" requires these peers: {peers}',
+  'object.without': '"{key}" conflicts with these peers: {peers}',
+
+  // Composition
+  'union.base': '"{label}" does not match any of the allowed types',
+  'union.discriminator': '"{path}" must be one of: {values}',
+  'intersection.merge': '"{label}" cannot match both schemas at once'
+};
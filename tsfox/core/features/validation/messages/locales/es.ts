@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Spanish validation messages
+ * @module tsfox/core/features/validation/messages/locales/es
+ */
+
+import { MessageTemplates } from '../message.catalog';
+
+/**
+ * Messages by error code. `{label}` is the label of the schema, or the path of the value
+ */
+export const es: MessageTemplates = {
+  // Name of a value without label or path
+  value: 'valor',
+
+  // General
+  'required': '"{label}" es obligatorio',
+  'any.required': 'El campo "{path}" es obligatorio',
+  'any.async': '"{label}" tiene una regla asíncrona: usa validateAsync, parseAsync o safeParseAsync',
+  'type_mismatch': '"{label}" debe ser de tipo {expected}',
+
+  // String
+  'string.base': '"{label}" debe ser un texto',
+  'string.convert': '"{label}" no se puede convertir en texto',
+  'string.alphanum': '"{label}" solo puede contener caracteres alfanuméricos',
+  'string.oneOf': '"{label}" debe ser uno de: {values}',
+  'string.notOneOf': '"{label}" no puede ser ninguno de: {values}',
+  'string.transform': '"{label}" no se ha podido transformar',
+  'exact_length': '"{label}" debe tener exactamente {limit} caracteres',
+  'min_length': '"{label}" debe tener al menos {limit} caracteres',
+  'max_length': '"{label}" debe tener como máximo {limit} caracteres',
+  'pattern_mismatch': '"{label}" no tiene el formato requerido',
+  'invalid_email': '"{label}" debe ser un correo electrónico válido',
+  'invalid_url': '"{label}" debe ser una URL válida',
+  'invalid_uuid': '"{label}" debe ser un UUID válido',
+  'invalid_datetime': '"{label}" debe ser una fecha y hora válidas',
+  'invalid_cuid': '"{label}" debe ser un CUID válido',
+
+  // Number
+  'number.base': '"{label}" debe ser un número',
+  'number.convert': '"{label}" no se puede convertir en número',
+  'number.nan': '"{label}" no puede ser NaN',
+  'number.infinity': '"{label}" debe ser finito',
+  'number.integer': '"{label}" debe ser un número entero',
+  'number.min': '"{label}" debe ser mayor o igual que {limit}',
+  'number.max': '"{label}" debe ser menor o igual que {limit}',
+  'number.greater': '"{label}" debe ser mayor que {limit}',
+  'number.less': '"{label}" debe ser menor que {limit}',
+  'number.positive': '"{label}" debe ser positivo',
+  'number.negative': '"{label}" debe ser negativo',
+  'number.multiple': '"{label}" debe ser múltiplo de {limit}',
+  'number.port': '"{label}" debe ser un puerto válido (1-65535)',
+
+  // Boolean
+  'boolean.base': '"{label}" debe ser un booleano',
+  'boolean.convert': '"{label}" no se puede convertir en booleano',
+
+  // Date
+  'date.base': '"{label}" debe ser una fecha',
+  'date.convert': '"{label}" no se puede convertir en fecha',
+  'date.iso': '"{label}" debe ser una fecha ISO válida',
+  'date.invalid': '"{label}" debe ser una fecha válida',
+  'date.min': '"{label}" debe ser igual o posterior a {limit}',
+  'date.max': '"{label}" debe ser igual o anterior a {limit}',
+  'date.greater': '"{label}" debe ser posterior a {limit}',
+  'date.less': '"{label}" debe ser anterior a {limit}',
+
+  // Literal, enum and never
+  'literal.base': '"{label}" debe ser {expected}',
+  'enum.base': '"{label}" debe ser uno de: {values}',
+  'never.base': '"{label}" no está permitido',
+
+  // Array
+  'array.base': '"{label}" debe ser una lista',
+  'array.length': '"{label}" debe contener exactamente {limit} elementos',
+  'array.min': '"{label}" debe contener al menos {limit} elementos',
+  'array.max': '"{label}" debe contener como máximo {limit} elementos',
+  'array.unique': '"{label}" no puede contener elementos repetidos',
+  'array.sparse': '"{label}" no puede contener elementos vacíos',
+
+  // Object
+  'object.base': '"{label}" debe ser un objeto',
+  'object.length': '"{label}" debe tener exactamente {limit} claves',
+  'object.min': '"{label}" debe tener al menos {limit} claves',
+  'object.max': '"{label}" debe tener como máximo {limit} claves',
+  'object.unknown': '"{path}" no está permitido',
+  'object.and': 'A "{label}" le faltan las claves relacionadas: {peers}',
+  'object.or': '"{label}" debe contener al menos una de: {peers}',
+  'object.xor': '"{label}" debe contener exactamente una de: {peers}',
+  'object.with': '"{key}" requiere estas claves: {peers}',
+  'object.without': '"{key}" no es compatible con estas claves: {peers}',
+
+  // Composition
+  'union.base': '"{label}" no coincide con ninguno de los tipos permitidos',
+  'union.discriminator': '"{path}" debe ser uno de: {values}',
+  'intersection.merge': '"{label}" no puede cumplir ambos esquemas a la vez'
+};
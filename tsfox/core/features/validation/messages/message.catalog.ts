@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Catalog of validation messages by locale and error code
+ * @module tsfox/core/features/validation/messages/message.catalog
+ */
+
+import { ValidationError } from '../interfaces/validation.interface';
+import { en } from './locales/en';
+import { es } from './locales/es';
+
+/**
+ * Message templates by error code; `{name}` placeholders take the parameters of the error
+ */
+export type MessageTemplates = Record<string, string>;
+
+/**
+ * Message for an error code: a template, or templates by locale
+ */
+export type MessageOverride = string | Record<string, string>;
+
+/**
+ * Locale and message settings of a validation
+ */
+export interface LocalizationOptions {
+  /**
+   * Preferred locales, most preferred first
+   */
+  language?: string | string[];
+
+  /**
+   * Messages by error code, taking precedence over the catalog
+   */
+  messages?: Record<string, MessageOverride>;
+}
+
+/**
+ * Validation messages by locale.
+ *
+ * Messages are looked up in each preferred locale, then in its language (`es` for
+ * `es-MX`) and finally in the default locale, so a catalog only needs the messages it
+ * changes.
+ */
+export class MessageCatalog {
+  private readonly catalogs = new Map<string, MessageTemplates>();
+
+  constructor(catalogs: Record<string, MessageTemplates> = {}, readonly defaultLocale: string = 'en') {
+    for (const [locale, templates] of Object.entries(catalogs)) {
+      this.register(locale, templates);
+    }
+  }
+
+  /**
+   * Add messages to a locale, replacing those of the same codes
+   */
+  register(locale: string, templates: MessageTemplates): this {
+    const key = normalizeLocale(locale);
+    this.catalogs.set(key, { ...this.catalogs.get(key), ...templates });
+    return this;
+  }
+
+  /**
+   * Locales with messages
+   */
+  locales(): string[] {
+    return [...this.catalogs.keys()];
+  }
+
+  /**
+   * Locales to look messages up in, in order
+   */
+  fallbackChain(language?: string | string[]): string[] {
+    const requested = (Array.isArray(language) ? language : language ? [language] : []).map(normalizeLocale);
+    const chain: string[] = [];
+    for (const locale of [...requested, normalizeLocale(this.defaultLocale)]) {
+      for (const candidate of [locale, locale.split('-')[0]]) {
+        if (!chain.includes(candidate)) {
+          chain.push(candidate);
+        }
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Template of an error code in the first locale of the chain that has it
+   */
+  resolve(code: string, language?: string | string[]): string | undefined {
+    for (const locale of this.fallbackChain(language)) {
+      const template = this.catalogs.get(locale)?.[code];
+      if (template !== undefined) {
+        return template;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Template of a message override for the preferred locales
+   */
+  select(override: MessageOverride, language?: string | string[]): string | undefined {
+    if (typeof override === 'string') {
+      return override;
+    }
+    const byLocale = new Map(Object.entries(override).map(([locale, template]) => [normalizeLocale(locale), template]));
+    for (const locale of this.fallbackChain(language)) {
+      if (byLocale.has(locale)) {
+        return byLocale.get(locale);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace the `{name}` placeholders of a template; lists are joined with commas
+   */
+  format(template: string, params: Record<string, unknown>): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      if (!(name in params) || params[name] === undefined) {
+        return placeholder;
+      }
+      return formatParam(params[name]);
+    });
+  }
+
+  /**
+   * Error with its message in the preferred locale, or unchanged when neither the override
+   * of its schema, the options nor the catalog have a message for its code
+   */
+  localize(error: ValidationError, options: LocalizationOptions, override?: MessageOverride): ValidationError {
+    const { language, messages } = options;
+    const configured = messages?.[error.code];
+    const template = (override !== undefined ? this.select(override, language) : undefined)
+      ?? (configured !== undefined ? this.select(configured, language) : undefined)
+      ?? (hasLanguage(language) ? this.resolve(error.code, language) : undefined);
+
+    if (template === undefined) {
+      return error;
+    }
+
+    const path = error.path.length > 0 ? error.path.join('.') : this.resolve('value', language) ?? 'value';
+    const params = { ...error.params, label: error.params?.label ?? path, path };
+    return { ...error, message: this.format(template, params) };
+  }
+}
+
+/**
+ * Catalog used by the schemas, with the bundled English and Spanish messages
+ */
+export const messageCatalog = new MessageCatalog({ en, es });
+
+/**
+ * Locales of an `Accept-Language` header, most preferred first
+ */
+export function parseAcceptLanguage(header?: string | string[]): string[] {
+  const value = Array.isArray(header) ? header.join(',') : header;
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const quality = attributes.map(attribute => attribute.trim()).find(attribute => attribute.startsWith('q='));
+      return { tag: tag.trim(), quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.tag);
+}
+
+function hasLanguage(language?: string | string[]): boolean {
+  return Array.isArray(language) ? language.length > 0 : Boolean(language);
+}
+
+function normalizeLocale(locale: string): string {
+  return locale.trim().toLowerCase().replace(/_/g, '-');
+}
+
+function formatParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatParam).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
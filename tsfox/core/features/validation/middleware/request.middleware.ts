@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { SchemaInterface } from '../interfaces/validation.interface';
 import { ValidationError } from '../errors/validation.errors';
+import { parseAcceptLanguage, MessageOverride } from '../messages/message.catalog';
 
 /**
  * Validation schemas for different parts of the request
@@ -41,6 +42,11 @@ export interface RequestValidationOptions {
    */
   abortEarly?: boolean;
   
+  /**
+   * Milliseconds each asynchronous rule may take (default 5000)
+   */
+  asyncTimeout?: number;
+  
   /**
    * Strip unknown fields from validated data
    */
@@ -56,6 +62,16 @@ export interface RequestValidationOptions {
    */
   convert?: boolean;
   
+  /**
+   * Locales of the error messages; by default, those of the `Accept-Language` header
+   */
+  language?: string | string[];
+
+  /**
+   * Error messages by error code, as templates or templates by locale
+   */
+  messages?: Record<string, MessageOverride>;
+
   /**
    * Custom error handler
    */
@@ -71,19 +87,28 @@ export function validateRequest(
 ) {
   const {
     abortEarly = false,
+    asyncTimeout,
     stripUnknown = false,
     allowUnknown = false,
     convert = true,
+    language,
+    messages,
     errorHandler
   } = options;
 
   return async (req: Request, res: Response, next: NextFunction) => {
     const allErrors: any[] = [];
+    const config = {
+      abortEarly,
+      asyncTimeout,
+      language: language ?? parseAcceptLanguage(req.headers['accept-language']),
+      messages
+    };
 
     try {
       // Validate body
       if (schemas.body && req.body !== undefined) {
-        const result = schemas.body.validate(req.body);
+        const result = await schemas.body.validateAsync(req.body, config);
         if (result.success) {
           req.body = result.data;
         } else if (result.errors) {
@@ -110,7 +135,7 @@ export function validateRequest(
 
       // Validate query parameters
       if (schemas.query && req.query) {
-        const result = schemas.query.validate(req.query);
+        const result = await schemas.query.validateAsync(req.query, config);
         if (result.success) {
           req.query = result.data;
         } else if (result.errors) {
@@ -137,7 +162,7 @@ export function validateRequest(
 
       // Validate route parameters
       if (schemas.params && req.params) {
-        const result = schemas.params.validate(req.params);
+        const result = await schemas.params.validateAsync(req.params, config);
         if (result.success) {
           req.params = result.data;
         } else if (result.errors) {
@@ -164,7 +189,7 @@ export function validateRequest(
 
       // Validate headers
       if (schemas.headers && req.headers) {
-        const result = schemas.headers.validate(req.headers);
+        const result = await schemas.headers.validateAsync(req.headers, config);
         if (result.success) {
           // Note: We don't override req.headers as it might break Express functionality
           // Instead, store validated headers in a custom property
@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { SchemaInterface } from '../interfaces/validation.interface';
 import { ValidationError } from '../errors/validation.errors';
+import { documentMiddleware } from '../../../openapi/middleware.docs';
 
 /**
  * Options for response validation middleware
@@ -53,7 +54,7 @@ export function validateResponse<T>(
     skipInProduction = true
   } = options;
 
-  return (req: Request, res: Response, next: NextFunction) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
     // Skip validation in production if configured
     if (skipInProduction && process.env.NODE_ENV === 'production') {
       return next();
@@ -129,6 +130,9 @@ export function validateResponse<T>(
 
     next();
   };
+
+  // Documented as the response of the first validated status code
+  return documentMiddleware(middleware, { responses: { [statusCodes[0]]: schema } });
 }
 
 /**
@@ -140,7 +144,7 @@ export function validateResponseByStatus(
 ) {
   const statusCodes = Object.keys(schemas).map(Number);
   
-  return (req: Request, res: Response, next: NextFunction) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
     // Skip validation in production if configured
     if (options.skipInProduction && process.env.NODE_ENV === 'production') {
       return next();
@@ -217,6 +221,8 @@ export function validateResponseByStatus(
 
     next();
   };
+
+  return documentMiddleware(middleware, { responses: schemas });
 }
 
 /**
@@ -250,7 +256,14 @@ export class ResponseSchemas {
         };
       },
       sanitize: (data: any) => data,
-      describe: () => ({ type: 'object', required: true }),
+      describe: () => ({
+        type: 'object',
+        required: true,
+        children: {
+          success: { type: 'literal', required: true, constraints: { value: true } },
+          data: dataSchema.describe()
+        }
+      }),
       optional: () => ResponseSchemas.success(dataSchema),
       required: () => ResponseSchemas.success(dataSchema),
       default: (val: any) => ResponseSchemas.success(dataSchema),
@@ -278,7 +291,15 @@ export class ResponseSchemas {
         };
       },
       sanitize: (data: any) => data,
-      describe: () => ({ type: 'object', required: true }),
+      describe: () => ({
+        type: 'object',
+        required: true,
+        constraints: { unknown: true },
+        children: {
+          error: { type: 'string', required: true },
+          message: { type: 'string', required: true }
+        }
+      }),
       optional: () => ResponseSchemas.error(),
       required: () => ResponseSchemas.error(),
       default: (val: any) => ResponseSchemas.error(),
@@ -323,7 +344,15 @@ export class ResponseSchemas {
         };
       },
       sanitize: (data: any) => data,
-      describe: () => ({ type: 'object', required: true }),
+      describe: () => ({
+        type: 'object',
+        required: true,
+        constraints: { unknown: true },
+        children: {
+          data: { type: 'array', required: true, items: itemSchema.describe() },
+          pagination: { type: 'object', required: true, constraints: { unknown: true } }
+        }
+      }),
       optional: () => ResponseSchemas.paginated(itemSchema),
       required: () => ResponseSchemas.paginated(itemSchema),
       default: (val: any) => ResponseSchemas.paginated(itemSchema),
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Helpers running asynchronous rules: cancellation, timeouts and early aborts
+ * @module tsfox/core/features/validation/schema/async.rules
+ */
+
+import { ValidationError, ValidationResult } from '../interfaces/validation.interface';
+
+/**
+ * Milliseconds an asynchronous rule may take when the validation does not say
+ */
+export const DEFAULT_ASYNC_TIMEOUT = 5000;
+
+/**
+ * Signal of synchronous validations, which have nothing to cancel
+ */
+export const NEVER_ABORTED: AbortSignal = new AbortController().signal;
+
+/**
+ * Whether a value is a promise or another thenable
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * Controller aborted along with a parent signal, until unlinked from it
+ */
+export class LinkedController extends AbortController {
+  private readonly onParentAbort = () => this.abort();
+
+  constructor(private readonly parent?: AbortSignal) {
+    super();
+    if (parent?.aborted) {
+      this.abort();
+    } else if (parent) {
+      parent.addEventListener('abort', this.onParentAbort, { once: true });
+    }
+  }
+
+  /**
+   * Stop following the parent signal once the controller is no longer needed
+   */
+  unlink(): void {
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+}
+
+/**
+ * Controller aborted along with a parent signal
+ */
+export function linkedController(parent?: AbortSignal): LinkedController {
+  return new LinkedController(parent);
+}
+
+/**
+ * Wait for the outcome of an asynchronous rule. Resolves with a `timeout` error (and aborts
+ * the rule) when it takes longer than `timeout` milliseconds, with an `aborted` error when its
+ * controller is aborted first, and with an `unknown` error when it rejects.
+ */
+export function awaitRule(
+  outcome: PromiseLike<ValidationResult>,
+  rule: { name: string; timeout: number },
+  controller: LinkedController,
+  path: string[],
+  value: unknown
+): Promise<ValidationResult> {
+  return new Promise(resolve => {
+    let timer: NodeJS.Timeout | undefined;
+    const done = (result: ValidationResult) => {
+      clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort);
+      controller.unlink();
+      resolve(result);
+    };
+    const onAbort = () => done(failure(path, value, 'any.aborted', 'Validation was cancelled'));
+
+    if (controller.signal.aborted) {
+      onAbort();
+      return;
+    }
+    controller.signal.addEventListener('abort', onAbort, { once: true });
+    if (rule.timeout > 0) {
+      timer = setTimeout(() => {
+        done(failure(path, value, 'any.timeout', `Rule "${rule.name}" did not finish within ${rule.timeout}ms`));
+        controller.abort();
+      }, rule.timeout);
+    }
+
+    Promise.resolve(outcome).then(done, error => {
+      done(failure(path, value, 'any.unknown', error instanceof Error ? error.message : 'Validation failed'));
+    });
+  });
+}
+
+/**
+ * Wait for concurrent validations, in the order they were given. With `abortEarly`, resolves
+ * at the first failure (leaving the pending ones undefined) and aborts the controller so
+ * their rules stop.
+ */
+export function settle<T>(
+  tasks: Array<Promise<ValidationResult<T>>>,
+  abortEarly: boolean | undefined,
+  controller: AbortController
+): Promise<Array<ValidationResult<T> | undefined>> {
+  const results: Array<ValidationResult<T> | undefined> = new Array(tasks.length).fill(undefined);
+  if (tasks.length === 0) {
+    return Promise.resolve(results);
+  }
+
+  return new Promise((resolve, reject) => {
+    let remaining = tasks.length;
+    let settled = false;
+    const finish = () => {
+      settled = true;
+      resolve([...results]);
+    };
+
+    tasks.forEach((task, index) => {
+      task.then(result => {
+        if (settled) {
+          return;
+        }
+        results[index] = result;
+        remaining--;
+        if (!result.success && abortEarly) {
+          controller.abort();
+          finish();
+        } else if (remaining === 0) {
+          finish();
+        }
+      }, error => {
+        if (!settled) {
+          settled = true;
+          controller.abort();
+          reject(error);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Value at a path below a value
+ */
+export function valueAt(value: unknown, path: string[]): unknown {
+  return path.reduce<any>((current, key) => (current === null || current === undefined ? undefined : current[key]), value);
+}
+
+function failure(path: string[], value: unknown, code: string, message: string): ValidationResult {
+  const error: ValidationError = { path: [...path], message, code, value };
+  return { success: false, errors: [error] };
+}
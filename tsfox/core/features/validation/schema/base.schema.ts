@@ -8,7 +8,11 @@ import {
   ValidationResult,
   ValidationError,
   SchemaDescription,
-  ValidatorInterface
+  ValidatorInterface,
+  RefineCheck,
+  RefineOptions,
+  RefinementIssue,
+  SuperRefineCheck
 } from '../interfaces/validation.interface';
 import {
   ValidationContext,
@@ -18,9 +22,25 @@ import {
   PreprocessorFunction,
   PostprocessorFunction,
   CompiledSchema,
-  ValidationHelpers
+  RuleHelpers
 } from './schema.types';
 import { ValidationError as ValidationErrorClass } from '../errors/validation.errors';
+import {
+  awaitRule,
+  DEFAULT_ASYNC_TIMEOUT,
+  isPromiseLike,
+  linkedController,
+  NEVER_ABORTED,
+  settle,
+  valueAt
+} from './async.rules';
+import { messageCatalog, MessageOverride } from '../messages/message.catalog';
+
+/** Params of the errors already claimed by the schema that reported them */
+const claimedParams = new WeakSet<object>();
+
+/** Message overrides of the schemas that reported the errors, by their params */
+const messageOverrides = new WeakMap<object, MessageOverride>();
 
 /**
  * Base schema class that all specific schemas extend
@@ -45,7 +65,24 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
    * Validate data against this schema
    */
   validate(data: unknown, config?: ValidationConfig): ValidationResult<T> {
-    const context: ValidationContext = {
+    const context = this.createContext(data, config);
+    return this.localized(this.validateInternal(data, context), context);
+  }
+
+  /**
+   * Validate data against this schema, awaiting asynchronous rules.
+   *
+   * Asynchronous rules run concurrently, each within `asyncTimeout` milliseconds. With
+   * `abortEarly`, validation stops at the first error and the pending rules are aborted
+   * through the signal they get; the `signal` of the config cancels them too.
+   */
+  async validateAsync(data: unknown, config?: ValidationConfig): Promise<ValidationResult<T>> {
+    const context = this.createContext(data, config);
+    return this.localized(await this.validateInternalAsync(data, context), context);
+  }
+
+  protected createContext(data: unknown, config?: ValidationConfig): ValidationContext {
+    return {
       path: [],
       root: data,
       config: {
@@ -56,82 +93,253 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
         ...config
       }
     };
-
-    return this.validateInternal(data, context);
   }
 
   /**
    * Internal validation implementation
    */
   protected validateInternal(data: unknown, context: ValidationContext): ValidationResult<T> {
-    const errors: ValidationError[] = [];
-    
     try {
-      // Check if value is undefined/null and handle required/optional
-      if (data === undefined || data === null) {
-        if (this.state.isRequired && !this.state.defaultValue) {
-          errors.push({
-            path: [...context.path],
-            message: `Field is required`,
-            code: 'required',
-            value: data
-          });
-          return { success: false, errors };
-        }
-        
-        if (this.state.defaultValue !== undefined) {
-          data = this.state.defaultValue;
-        } else if (!this.state.isRequired) {
-          return { success: true, data: data as T };
-        }
+      const prepared = this.prepare(data, context);
+      if (prepared.result) {
+        return prepared.result;
       }
 
-      // Apply preprocessors
-      for (const preprocessor of this.state.preprocessors) {
-        data = preprocessor(data, { context } as any);
+      // Perform type-specific validation
+      const typeValidation = this.validateType(prepared.value, context);
+      if (!typeValidation.success) {
+        return typeValidation;
       }
 
-      // Perform type-specific validation
-      const typeValidation = this.validateType(data, context);
+      return this.applyRules(typeValidation.data!, context);
+    } catch (error) {
+      return this.unexpected(error, data, context);
+    }
+  }
+
+  /**
+   * Internal asynchronous validation implementation
+   */
+  protected async validateInternalAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const controller = context.abortController ? undefined : linkedController(context.config.signal);
+    context.abortController = context.abortController || controller;
+
+    try {
+      const prepared = this.prepare(data, context);
+      if (prepared.result) {
+        return prepared.result;
+      }
+
+      const typeValidation = await this.validateTypeAsync(prepared.value, context);
       if (!typeValidation.success) {
         return typeValidation;
       }
 
-      let processedData = typeValidation.data!;
+      return await this.applyRulesAsync(typeValidation.data!, context);
+    } catch (error) {
+      return this.unexpected(error, data, context);
+    } finally {
+      controller?.unlink();
+    }
+  }
 
-      // Apply custom validation rules
-      for (const rule of this.state.rules) {
-        const ruleResult = rule.validate(processedData, { context } as any);
-        if (!ruleResult.success && ruleResult.errors) {
-          if (context.config.abortEarly) {
-            return ruleResult;
+  /**
+   * Handle missing values and apply preprocessors, returning the result when validation ends there
+   */
+  private prepare(data: unknown, context: ValidationContext): { value: unknown; result?: ValidationResult<T> } {
+    // Check if value is undefined/null and handle required/optional
+    if (data === undefined || data === null) {
+      if (this.state.isRequired && !this.state.defaultValue) {
+        return {
+          value: data,
+          result: {
+            success: false,
+            errors: [{
+              path: [...context.path],
+              message: `Field is required`,
+              code: 'required',
+              value: data
+            }]
           }
-          errors.push(...ruleResult.errors);
-        } else if (ruleResult.data !== undefined) {
-          processedData = ruleResult.data;
+        };
+      }
+
+      if (this.state.defaultValue !== undefined) {
+        data = this.state.defaultValue;
+      } else if (!this.state.isRequired) {
+        return { value: data, result: { success: true, data: data as T } };
+      }
+    }
+
+    // Apply preprocessors
+    for (const preprocessor of this.state.preprocessors) {
+      data = preprocessor(data, { context });
+    }
+
+    return { value: data };
+  }
+
+  /**
+   * Apply custom validation rules; asynchronous ones fail, as they need `validateAsync`
+   */
+  private applyRules(data: T, context: ValidationContext): ValidationResult<T> {
+    const errors: ValidationError[] = [];
+    let processedData = data;
+
+    for (const rule of this.state.rules) {
+      let ruleResult = rule.validate(processedData, { context, signal: NEVER_ABORTED });
+      if (isPromiseLike<ValidationResult>(ruleResult)) {
+        Promise.resolve(ruleResult).catch(() => undefined);
+        ruleResult = {
+          success: false,
+          errors: [{
+            path: [...context.path],
+            message: `Rule "${rule.name}" is asynchronous: use validateAsync, parseAsync or safeParseAsync`,
+            code: 'any.async',
+            params: { rule: rule.name },
+            value: processedData
+          }]
+        };
+      }
+
+      if (!ruleResult.success && ruleResult.errors) {
+        if (context.config.abortEarly) {
+          return ruleResult;
         }
+        errors.push(...ruleResult.errors);
+      } else if (ruleResult.data !== undefined) {
+        processedData = ruleResult.data;
       }
+    }
+
+    return this.complete(processedData, errors, context);
+  }
 
-      // Apply postprocessors
-      for (const postprocessor of this.state.postprocessors) {
-        processedData = postprocessor(processedData, { context } as any);
+  /**
+   * Apply custom validation rules, running asynchronous ones concurrently.
+   * Synchronous rules see the value changed by the synchronous rules before them.
+   */
+  private async applyRulesAsync(data: T, context: ValidationContext): Promise<ValidationResult<T>> {
+    const controller = context.abortController!;
+    const errors: ValidationError[] = [];
+    const pending: Array<Promise<ValidationResult>> = [];
+    let processedData = data;
+
+    for (const rule of this.state.rules) {
+      const ruleController = linkedController(controller.signal);
+      const ruleResult = rule.validate(processedData, { context, signal: ruleController.signal });
+      if (isPromiseLike<ValidationResult>(ruleResult)) {
+        const timeout = rule.timeout ?? context.config.asyncTimeout ?? DEFAULT_ASYNC_TIMEOUT;
+        pending.push(awaitRule(ruleResult, { name: rule.name, timeout }, ruleController, context.path, processedData));
+        continue;
       }
+      ruleController.unlink();
 
-      if (errors.length > 0) {
-        return { success: false, errors };
+      if (!ruleResult.success && ruleResult.errors) {
+        if (context.config.abortEarly) {
+          controller.abort();
+          return ruleResult;
+        }
+        errors.push(...ruleResult.errors);
+      } else if (ruleResult.data !== undefined) {
+        processedData = ruleResult.data;
       }
+    }
 
-      return { success: true, data: processedData };
+    for (const ruleResult of await settle(pending, context.config.abortEarly, controller)) {
+      if (!ruleResult) {
+        continue;
+      }
+      if (!ruleResult.success && ruleResult.errors) {
+        errors.push(...ruleResult.errors);
+      } else if (ruleResult.data !== undefined) {
+        processedData = ruleResult.data;
+      }
+    }
 
-    } catch (error) {
-      errors.push({
+    return this.complete(processedData, errors, context);
+  }
+
+  /**
+   * Apply postprocessors to a value that passed the rules
+   */
+  private complete(data: T, errors: ValidationError[], context: ValidationContext): ValidationResult<T> {
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    let processedData = data;
+    for (const postprocessor of this.state.postprocessors) {
+      processedData = postprocessor(processedData, { context });
+    }
+
+    return { success: true, data: processedData };
+  }
+
+  private unexpected(error: unknown, data: unknown, context: ValidationContext): ValidationResult<T> {
+    return {
+      success: false,
+      errors: [{
         path: [...context.path],
         message: error instanceof Error ? error.message : 'Validation failed',
         code: 'any.unknown',
         value: data
-      });
-      return { success: false, errors };
+      }]
+    };
+  }
+
+  /**
+   * Result with the messages in the configured language.
+   *
+   * Errors reach this point with the params of the schema that reported them, so the
+   * ones without claimed params were reported by this schema: they take its label and
+   * message overrides, which stay with them as they move up to the parent schemas.
+   * Each schema renders the messages again with the path from its own root.
+   */
+  private localized(result: ValidationResult<T>, context: ValidationContext): ValidationResult<T> {
+    if (result.success || !result.errors) {
+      return result;
     }
+
+    const errors = result.errors.map(error => {
+      let params = error.params;
+      if (!params || !claimedParams.has(params)) {
+        params = { ...params };
+        if (typeof this.state.constraints.label === 'string') {
+          params.label = this.state.constraints.label;
+        }
+        claimedParams.add(params);
+        const override = this.state.messages?.[error.code];
+        if (override !== undefined) {
+          messageOverrides.set(params, override);
+        }
+      }
+      return messageCatalog.localize({ ...error, params }, context.config, messageOverrides.get(params));
+    });
+    return { ...result, errors };
+  }
+
+  /**
+   * Result of a schema validating the value of this one, with its errors moved below the path of this one
+   */
+  protected delegated<U>(result: ValidationResult<U>, context: ValidationContext): ValidationResult<U> {
+    if (result.success || context.path.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      errors: (result.errors || []).map(error => ({ ...error, path: [...context.path, ...error.path] }))
+    };
+  }
+
+  /**
+   * Config of the child schemas of an asynchronous validation, cancelled along with it
+   */
+  protected childConfig(context: ValidationContext): ValidationConfig {
+    return {
+      asyncTimeout: context.config.asyncTimeout,
+      signal: context.abortController?.signal
+    };
   }
 
   /**
@@ -139,6 +347,13 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
    */
   protected abstract validateType(data: unknown, context: ValidationContext): ValidationResult<T>;
 
+  /**
+   * Type-specific asynchronous validation, overridden by schemas with child schemas
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    return this.validateType(data, context);
+  }
+
   /**
    * Sanitize data according to this schema
    */
@@ -163,12 +378,16 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
    * Get a description of this schema
    */
   describe(): SchemaDescription {
-    return {
+    const description: SchemaDescription = {
       type: this.state.type,
       required: this.state.isRequired,
       constraints: { ...this.state.constraints },
       children: this.getChildrenDescription()
     };
+    if (this.state.defaultValue !== undefined) {
+      description.default = this.state.defaultValue;
+    }
+    return description;
   }
 
   /**
@@ -207,6 +426,15 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
     return clone;
   }
 
+  /**
+   * Replace the messages of the errors of this schema, by error code
+   */
+  messages(overrides: Record<string, MessageOverride>): this {
+    const clone = this.clone();
+    clone.state.messages = { ...this.state.messages, ...overrides };
+    return clone;
+  }
+
   /**
    * Add a label to this schema
    */
@@ -229,9 +457,10 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
   custom(rule: ValidatorInterface<T>): SchemaInterface<T> {
     const validationRule: ValidationRule = {
       name: rule.name,
-      validate: (value: any, helpers: ValidationHelpers) => rule.validate(value),
+      validate: (value: any, helpers: RuleHelpers) => rule.validate(value, { signal: helpers.signal }),
       message: rule.message,
-      code: rule.code
+      code: rule.code,
+      timeout: rule.timeout
     };
     
     const clone = this.clone();
@@ -239,6 +468,66 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
     return clone;
   }
 
+  /**
+   * Add a rule failing when a check returns false, or resolves to false for asynchronous
+   * checks. A string as second argument is the error code, followed by the message.
+   */
+  refine(check: RefineCheck<T>, options?: RefineOptions | string, message?: string): this {
+    const settings: RefineOptions = typeof options === 'string' ? { code: options, message } : { ...options };
+    const code = settings.code || `${this.state.type}.refine`;
+
+    const clone = this.clone();
+    clone.state.rules.push({
+      name: code,
+      timeout: settings.timeout,
+      validate: (value: any, helpers: RuleHelpers) => {
+        const verdict = (valid: boolean): ValidationResult<T> => valid
+          ? { success: true }
+          : {
+            success: false,
+            errors: [{
+              path: [...helpers.context.path, ...(settings.path || [])],
+              message: settings.message || 'Custom validation failed',
+              code,
+              value: settings.path ? valueAt(value, settings.path) : value
+            }]
+          };
+        const outcome = check(value, { signal: helpers.signal });
+        return isPromiseLike<boolean>(outcome) ? Promise.resolve(outcome).then(verdict) : verdict(outcome);
+      }
+    });
+    return clone;
+  }
+
+  /**
+   * Add a rule reporting any number of issues, each on its own path below the value,
+   * such as object rules comparing sibling fields
+   */
+  superRefine(check: SuperRefineCheck<T>, options: { timeout?: number } = {}): this {
+    const type = this.state.type;
+
+    const clone = this.clone();
+    clone.state.rules.push({
+      name: `${type}.superRefine`,
+      timeout: options.timeout,
+      validate: (value: any, helpers: RuleHelpers) => {
+        const errors: ValidationError[] = [];
+        const addIssue = (issue: RefinementIssue) => {
+          errors.push({
+            path: [...helpers.context.path, ...(issue.path || [])],
+            message: issue.message,
+            code: issue.code || `${type}.refine`,
+            value: issue.path ? valueAt(value, issue.path) : value
+          });
+        };
+        const verdict = (): ValidationResult<T> => (errors.length > 0 ? { success: false, errors } : { success: true });
+        const outcome = check(value, { signal: helpers.signal, addIssue });
+        return isPromiseLike<void>(outcome) ? Promise.resolve(outcome).then(verdict) : verdict();
+      }
+    });
+    return clone;
+  }
+
   /**
    * Add a preprocessor function
    */
@@ -350,4 +639,25 @@ export abstract class BaseSchema<T = any> implements SchemaInterface<T> {
   safeParse(value: unknown): ValidationResult<T> {
     return this.validate(value);
   }
+
+  /**
+   * Extract value from the asynchronous validation result or reject
+   */
+  async parseAsync(value: unknown, config?: ValidationConfig): Promise<T> {
+    const result = await this.validateAsync(value, config);
+    if (!result.success) {
+      throw new ValidationErrorClass(
+        'Validation failed',
+        result.errors || []
+      );
+    }
+    return result.data!;
+  }
+
+  /**
+   * Safe asynchronous parse that resolves with the result object
+   */
+  safeParseAsync(value: unknown, config?: ValidationConfig): Promise<ValidationResult<T>> {
+    return this.validateAsync(value, config);
+  }
 }
@@ -4,6 +4,7 @@
  */
 
 import { SchemaInterface } from '../interfaces/validation.interface';
+import { InferSchemaType } from './schema.types';
 import {
   StringSchemaInterface,
   NumberSchemaInterface,
@@ -21,7 +22,11 @@ import { BooleanSchema } from '../validators/boolean.validator';
 import { NullSchema } from '../validators/null.validator';
 import { DateSchema } from '../validators/date.validator';
 import { LiteralSchema } from '../validators/literal.validator';
-import { UnionSchema } from '../validators/union.validator';
+import { UnionSchema, DiscriminatedUnionSchema } from '../validators/union.validator';
+import { IntersectionSchema } from '../validators/intersection.validator';
+import { LazySchema } from '../validators/lazy.validator';
+import { TupleSchema } from '../validators/tuple.validator';
+import { RecordSchema } from '../validators/record.validator';
 import { EnumSchema } from '../validators/enum.validator';
 import { AnyValidator } from '../validators/any.validator';
 import { NeverValidator } from '../validators/never.validator';
@@ -90,6 +95,30 @@ export class SchemaBuilder {
     return new UnionSchema([...schemas]) as any;
   }
 
+  /**
+   * Create a union of object schemas selected by the literal or enum value of a discriminator field
+   */
+  static discriminatedUnion<
+    K extends string,
+    T extends readonly [ObjectSchemaInterface<Record<K, any>>, ...ObjectSchemaInterface<Record<K, any>>[]]
+  >(discriminator: K, options: T): SchemaInterface<InferSchemaType<T[number]>> {
+    return new DiscriminatedUnionSchema(discriminator, [...options]);
+  }
+
+  /**
+   * Create an intersection schema (must match both schemas)
+   */
+  static intersection<A, B>(left: SchemaInterface<A>, right: SchemaInterface<B>): SchemaInterface<A & B> {
+    return new IntersectionSchema<A & B>(left, right);
+  }
+
+  /**
+   * Create a schema built on first use, for recursive schemas
+   */
+  static lazy<T>(getter: () => SchemaInterface<T>): SchemaInterface<T> {
+    return new LazySchema(getter);
+  }
+
   /**
    * Create an enum schema
    */
@@ -177,55 +206,7 @@ export class SchemaBuilder {
   static tuple<T extends readonly SchemaInterface<any>[]>(
     schemas: [...T]
   ): SchemaInterface<{ [K in keyof T]: T[K] extends SchemaInterface<infer U> ? U : never }> {
-    return SchemaBuilder.array().custom({
-      name: 'tuple',
-      validate: (value: any) => {
-        if (!Array.isArray(value)) {
-          return {
-            success: false,
-            errors: [{
-              path: [],
-              message: 'Expected array for tuple',
-              code: 'array.base',
-              value
-            }]
-          };
-        }
-
-        if (value.length !== schemas.length) {
-          return {
-            success: false,
-            errors: [{
-              path: [],
-              message: `Expected tuple of length ${schemas.length}, got ${value.length}`,
-              code: 'array.length',
-              value
-            }]
-          };
-        }
-
-        const result: any[] = [];
-        const errors: any[] = [];
-
-        for (let i = 0; i < schemas.length; i++) {
-          const itemResult = schemas[i].validate(value[i]);
-          if (itemResult.success) {
-            result[i] = itemResult.data;
-          } else if (itemResult.errors) {
-            errors.push(...itemResult.errors.map(err => ({
-              ...err,
-              path: [i.toString(), ...err.path]
-            })));
-          }
-        }
-
-        if (errors.length > 0) {
-          return { success: false, errors };
-        }
-
-        return { success: true, data: result };
-      }
-    }) as SchemaInterface<{ [K in keyof T]: T[K] extends SchemaInterface<infer U> ? U : never }>;
+    return new TupleSchema([...schemas]) as any;
   }
 
   /**
@@ -234,43 +215,7 @@ export class SchemaBuilder {
   static record<K extends string | number | symbol, V>(
     valueSchema: SchemaInterface<V>
   ): SchemaInterface<Record<K, V>> {
-    return SchemaBuilder.object().custom({
-      name: 'record',
-      validate: (value: any) => {
-        if (typeof value !== 'object' || value === null) {
-          return {
-            success: false,
-            errors: [{
-              path: [],
-              message: 'Expected object for record',
-              code: 'object.base',
-              value
-            }]
-          };
-        }
-
-        const result: Record<string, any> = {};
-        const errors: any[] = [];
-
-        for (const [key, val] of Object.entries(value)) {
-          const itemResult = valueSchema.validate(val);
-          if (itemResult.success) {
-            result[key] = itemResult.data;
-          } else if (itemResult.errors) {
-            errors.push(...itemResult.errors.map(err => ({
-              ...err,
-              path: [key, ...err.path]
-            })));
-          }
-        }
-
-        if (errors.length > 0) {
-          return { success: false, errors };
-        }
-
-        return { success: true, data: result };
-      }
-    }) as SchemaInterface<Record<K, V>>;
+    return new RecordSchema<Record<K, V>>(valueSchema);
   }
 
   /**
@@ -320,49 +265,5 @@ export class SchemaBuilder {
   }
 }
 
-/**
- * Simple any schema implementation
- */
-class AnySchema implements SchemaInterface<any> {
-  validate(data: unknown) {
-    return { success: true, data };
-  }
-
-  sanitize(data: unknown) {
-    return data;
-  }
-
-  describe() {
-    return {
-      type: 'any',
-      required: false
-    };
-  }
-
-  optional() {
-    return this;
-  }
-
-  required() {
-    return this;
-  }
-
-  default(value: any) {
-    return this;
-  }
-
-  custom(rule: any) {
-    // Simple implementation for any schema
-    const originalValidate = this.validate.bind(this);
-    this.validate = (data: unknown) => {
-      const baseResult = originalValidate(data);
-      if (!baseResult.success) return baseResult;
-      
-      return rule.validate(data);
-    };
-    return this;
-  }
-}
-
 // Export the builder as default
 export default SchemaBuilder;
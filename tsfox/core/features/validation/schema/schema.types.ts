@@ -18,6 +18,7 @@ import {
   DateConstraints,
   BaseConstraints
 } from '../interfaces/schema.interface';
+import type { MessageOverride } from '../messages/message.catalog';
 
 /**
  * Schema validation context
@@ -52,6 +53,11 @@ export interface ValidationContext {
    * Additional context data
    */
   context?: Record<string, any>;
+
+  /**
+   * Controller of an asynchronous validation, aborted to cancel its pending rules
+   */
+  abortController?: AbortController;
 }
 
 /**
@@ -79,14 +85,14 @@ export interface ValidationConfig {
   convert?: boolean;
   
   /**
-   * Language for error messages
+   * Languages for error messages, most preferred first
    */
-  language?: string;
+  language?: string | string[];
   
   /**
-   * Custom error messages
+   * Custom error messages by error code, as templates or templates by locale
    */
-  messages?: Record<string, string>;
+  messages?: Record<string, MessageOverride>;
   
   /**
    * Skip functions for conditional validation
@@ -97,6 +103,16 @@ export interface ValidationConfig {
    * External context for validation
    */
   context?: Record<string, any>;
+
+  /**
+   * Milliseconds each asynchronous rule may take (default 5000, 0 for no limit)
+   */
+  asyncTimeout?: number;
+
+  /**
+   * Cancels the pending asynchronous rules when aborted
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -163,6 +179,11 @@ export interface SchemaState {
    */
   rules: ValidationRule[];
   
+  /**
+   * Messages of the errors of this schema by error code
+   */
+  messages?: Record<string, MessageOverride>;
+
   /**
    * Pre-processing functions
    */
@@ -184,9 +205,9 @@ export interface ValidationRule {
   name: string;
   
   /**
-   * Validation function
+   * Validation function; a promise makes the rule asynchronous
    */
-  validate: (value: any, helpers: ValidationHelpers) => ValidationResult<any>;
+  validate: (value: any, helpers: RuleHelpers) => ValidationResult<any> | Promise<ValidationResult<any>>;
   
   /**
    * Rule parameters
@@ -207,6 +228,11 @@ export interface ValidationRule {
    * Priority for rule execution
    */
   priority?: number;
+
+  /**
+   * Milliseconds an asynchronous rule may take
+   */
+  timeout?: number;
 }
 
 /**
@@ -239,15 +265,35 @@ export interface ValidationHelpers {
   warn(message: string): void;
 }
 
+/**
+ * What preprocessors and postprocessors get besides the value
+ */
+export interface ProcessorHelpers {
+  /**
+   * Current validation context
+   */
+  context: ValidationContext;
+}
+
+/**
+ * What validation rules get besides the value
+ */
+export interface RuleHelpers extends ProcessorHelpers {
+  /**
+   * Aborted once the result of the rule is no longer needed
+   */
+  signal: AbortSignal;
+}
+
 /**
  * Preprocessor function type
  */
-export type PreprocessorFunction = (value: any, helpers: ValidationHelpers) => any;
+export type PreprocessorFunction = (value: any, helpers: ProcessorHelpers) => any;
 
 /**
  * Postprocessor function type
  */
-export type PostprocessorFunction = (value: any, helpers: ValidationHelpers) => any;
+export type PostprocessorFunction = (value: any, helpers: ProcessorHelpers) => any;
 
 /**
  * Schema reference for recursive schemas
@@ -21,6 +21,13 @@ import {
   ResponseValidationOptions,
   ResponseSchemas 
 } from './middleware/response.middleware';
+import {
+  toJSONSchema,
+  fromJSONSchema,
+  JSONSchema,
+  JSONSchemaObject,
+  JSONSchemaExportOptions
+} from './json-schema';
 
 /**
  * Main validation factory class
@@ -70,7 +77,7 @@ export class ValidationFactory implements ValidationInterface {
    * Validate data against a schema asynchronously
    */
   async validateAsync<T>(data: unknown, schema: any): Promise<any> {
-    return schema.validate(data);
+    return schema.validateAsync(data);
   }
 
   /**
@@ -157,6 +164,20 @@ export class ValidationFactory implements ValidationInterface {
       return schema.validate(value);
     },
 
+    /**
+     * Convert a schema to a JSON Schema (draft 2020-12) document
+     */
+    toJSONSchema: (schema: any, options?: JSONSchemaExportOptions): JSONSchemaObject => {
+      return toJSONSchema(schema, options);
+    },
+
+    /**
+     * Build a schema from a JSON Schema document
+     */
+    fromJSONSchema: (document: JSONSchema) => {
+      return fromJSONSchema(document);
+    },
+
     /**
      * Create a custom validator
      */
@@ -230,17 +251,14 @@ export class ValidationFactory implements ValidationInterface {
     },
 
     /**
-     * Create OpenAPI schema from validation schema
+     * Create OpenAPI 3.1 schema from validation schema; the definitions of recursive
+     * schemas go to `definitions` (e.g. `components.schemas`) when it is given
      */
-    toOpenAPI: (schema: any) => {
-      // This would convert internal schema to OpenAPI format
-      const description = schema.describe();
-      return {
-        type: description.type,
-        required: description.required,
-        properties: description.children,
-        ...description.constraints
-      };
+    toOpenAPI: (schema: any, definitions?: Record<string, JSONSchema>): JSONSchemaObject => {
+      return toJSONSchema(schema, {
+        dialect: false,
+        ...(definitions && { definitions, refPrefix: '#/components/schemas/' })
+      });
     }
   };
 }
@@ -265,10 +283,15 @@ export {
   SchemaState,
   ValidationRule,
   ValidationHelpers,
+  ProcessorHelpers,
+  RuleHelpers,
   PreprocessorFunction,
   PostprocessorFunction,
+  InferSchemaType,
   ValidationConfig as SchemaValidationConfig
 } from './schema/schema.types';
 export * from './middleware/request.middleware';
 export * from './middleware/response.middleware';
 export * from './errors/validation.errors';
+export * from './json-schema';
+export * from './messages';
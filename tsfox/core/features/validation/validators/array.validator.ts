@@ -5,8 +5,9 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { ArraySchemaInterface, ArrayConstraints } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError, SchemaInterface } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
+import { settle } from '../schema/async.rules';
 
 /**
  * Array schema implementation
@@ -26,17 +27,62 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
    */
   protected validateType(data: unknown, context: ValidationContext): ValidationResult<T[]> {
     if (!Array.isArray(data)) {
-      return {
-        success: false,
-        errors: [{
-          path: [...context.path],
-          message: 'Expected array',
-          code: 'array.base',
-          value: data
-        }]
-      };
+      return this.notAnArray(data, context);
+    }
+
+    // Validate each item, up to the first failure with abortEarly
+    const itemResults: Array<ValidationResult<T> | undefined> = [];
+    if (this.itemSchema) {
+      for (const item of data) {
+        const itemResult = this.itemSchema.validate(item);
+        itemResults.push(itemResult);
+        if (!itemResult.success && context.config.abortEarly) {
+          break;
+        }
+      }
     }
 
+    return this.assemble(data, itemResults, context);
+  }
+
+  /**
+   * Type-specific validation for arrays, validating the items concurrently
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T[]>> {
+    if (!Array.isArray(data)) {
+      return this.notAnArray(data, context);
+    }
+
+    const itemSchema = this.itemSchema;
+    const config = this.childConfig(context);
+    const itemResults = itemSchema
+      ? await settle(data.map(item => itemSchema.validateAsync(item, config)), context.config.abortEarly, context.abortController!)
+      : [];
+
+    return this.assemble(data, itemResults, context);
+  }
+
+  private notAnArray(data: unknown, context: ValidationContext): ValidationResult<T[]> {
+    return {
+      success: false,
+      errors: [{
+        path: [...context.path],
+        message: 'Expected array',
+        code: 'array.base',
+        value: data
+      }]
+    };
+  }
+
+  /**
+   * Build the result of an array from the results of its items (undefined for the
+   * items left out by abortEarly), checking the array constraints
+   */
+  private assemble(
+    data: unknown[],
+    itemResults: Array<ValidationResult<T> | undefined>,
+    context: ValidationContext
+  ): ValidationResult<T[]> {
     const errors: ValidationError[] = [];
     const result: T[] = [];
 
@@ -46,6 +92,7 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
         path: [...context.path],
         message: `Array must have exactly ${this.constraints.length} items`,
         code: 'array.length',
+        params: { limit: this.constraints.length },
         value: data
       });
     }
@@ -55,6 +102,7 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
         path: [...context.path],
         message: `Array must have at least ${this.constraints.min} items`,
         code: 'array.min',
+        params: { limit: this.constraints.min },
         value: data
       });
     }
@@ -64,24 +112,20 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
         path: [...context.path],
         message: `Array must have at most ${this.constraints.max} items`,
         code: 'array.max',
+        params: { limit: this.constraints.max },
         value: data
       });
     }
 
-    // Validate each item if schema is provided
+    // Collect the result of each item if schema is provided
     if (this.itemSchema) {
-      for (let i = 0; i < data.length; i++) {
-        const item = data[i];
+      for (let i = 0; i < itemResults.length; i++) {
+        const itemResult = itemResults[i];
         
-        const itemContext: ValidationContext = {
-          ...context,
-          path: [...context.path, i.toString()],
-          parent: data,
-          key: i.toString()
-        };
+        if (!itemResult) {
+          continue;
+        }
 
-        const itemResult = this.itemSchema.validate(item);
-        
         if (itemResult.success) {
           result[i] = itemResult.data!;
         } else if (itemResult.errors) {
@@ -99,7 +143,7 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
       }
     } else {
       // No item schema, copy items as-is
-      result.push(...data);
+      result.push(...(data as T[]));
     }
 
     // Uniqueness validation
@@ -132,7 +176,8 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
     if (!this.constraints.sparse) {
       const sparseIndices: number[] = [];
       for (let i = 0; i < result.length; i++) {
-        if (result[i] === undefined || result[i] === null) {
+        // Items that failed their schema leave holes, already reported
+        if (i in result && (result[i] === undefined || result[i] === null)) {
           sparseIndices.push(i);
         }
       }
@@ -154,6 +199,18 @@ export class ArraySchema<T = any> extends BaseSchema<T[]> implements ArraySchema
     return { success: true, data: result };
   }
 
+  /**
+   * Description including the array constraints and the item schema
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return {
+      ...description,
+      constraints: { ...description.constraints, ...this.constraints },
+      items: this.itemSchema?.describe()
+    };
+  }
+
   // Fluent API methods
   items<U>(schema: SchemaInterface<U>): ArraySchemaInterface<U[]> {
     const clone = new ArraySchema<U>(schema);
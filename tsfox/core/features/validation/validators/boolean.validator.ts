@@ -5,7 +5,7 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { BooleanSchemaInterface, BooleanConstraints } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -73,6 +73,14 @@ export class BooleanSchema extends BaseSchema<boolean> implements BooleanSchemaI
     return { success: true, data };
   }
 
+  /**
+   * Description including the boolean constraints
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, ...this.constraints } };
+  }
+
   // Fluent API methods
   truthy(...values: any[]): this {
     const clone = this.clone();
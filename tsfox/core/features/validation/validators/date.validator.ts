@@ -5,7 +5,7 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { DateSchemaInterface, DateConstraints } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -103,6 +103,7 @@ export class DateSchema extends BaseSchema<Date> implements DateSchemaInterface
           path: [...context.path],
           message: `Date must be on or after ${minDate.toISOString()}`,
           code: 'date.min',
+          params: { limit: minDate },
           value: data
         });
       }
@@ -118,6 +119,7 @@ export class DateSchema extends BaseSchema<Date> implements DateSchemaInterface
           path: [...context.path],
           message: `Date must be on or before ${maxDate.toISOString()}`,
           code: 'date.max',
+          params: { limit: maxDate },
           value: data
         });
       }
@@ -133,6 +135,7 @@ export class DateSchema extends BaseSchema<Date> implements DateSchemaInterface
           path: [...context.path],
           message: `Date must be after ${greaterDate.toISOString()}`,
           code: 'date.greater',
+          params: { limit: greaterDate },
           value: data
         });
       }
@@ -148,6 +151,7 @@ export class DateSchema extends BaseSchema<Date> implements DateSchemaInterface
           path: [...context.path],
           message: `Date must be before ${lessDate.toISOString()}`,
           code: 'date.less',
+          params: { limit: lessDate },
           value: data
         });
       }
@@ -160,6 +164,14 @@ export class DateSchema extends BaseSchema<Date> implements DateSchemaInterface
     return { success: true, data: dateValue };
   }
 
+  /**
+   * Description including the date constraints
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, ...this.constraints } };
+  }
+
   // Fluent API methods
   min(date: Date | string): this {
     const clone = this.clone();
@@ -4,7 +4,7 @@
  */
 
 import { BaseSchema } from '../schema/base.schema';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -29,6 +29,7 @@ export class EnumSchema<T extends string | number> extends BaseSchema<T> {
           path: [...context.path],
           message: `Value must be one of: ${this.allowedValues.join(', ')}`,
           code: 'enum.base',
+          params: { values: this.allowedValues },
           value: data
         }]
       };
@@ -37,6 +38,14 @@ export class EnumSchema<T extends string | number> extends BaseSchema<T> {
     return { success: true, data: data as T };
   }
 
+  /**
+   * Description including the allowed values
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, values: [...this.allowedValues] } };
+  }
+
   protected clone(): this {
     const cloned = super.clone();
     cloned.allowedValues = [...this.allowedValues];
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Intersection validation schema implementation
+ * @module tsfox/core/features/validation/validators/intersection.validator
+ */
+
+import { BaseSchema } from '../schema/base.schema';
+import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
+import { ValidationConfig, ValidationContext } from '../schema/schema.types';
+import { settle } from '../schema/async.rules';
+
+/** Marks values of both schemas that cannot be merged */
+const CONFLICT = Symbol('conflict');
+
+/**
+ * Intersection schema implementation: the value must match both schemas.
+ *
+ * Each schema validates the whole value, letting through the fields it does not know, and
+ * their results are merged; a field takes the result of the schema that defines it. When
+ * both schemas are object schemas, fields neither of them defines are unknown keys.
+ */
+export class IntersectionSchema<T = any> extends BaseSchema<T> {
+  protected left: SchemaInterface<any>;
+  protected right: SchemaInterface<any>;
+
+  constructor(left: SchemaInterface<any>, right: SchemaInterface<any>) {
+    super('intersection');
+    this.left = left;
+    this.right = right;
+  }
+
+  /**
+   * Type-specific validation for intersections
+   */
+  protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
+    const config = this.sideConfig(context.config);
+    const left = this.left.validate(data, config);
+    if (!left.success && context.config.abortEarly) {
+      return this.combine(data, [left], context);
+    }
+    return this.combine(data, [left, this.right.validate(data, config)], context);
+  }
+
+  /**
+   * Type-specific validation for intersections, validating both schemas concurrently
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const config = { ...this.sideConfig(context.config), ...this.childConfig(context) };
+    const results = await settle(
+      [this.left.validateAsync(data, config), this.right.validateAsync(data, config)],
+      context.config.abortEarly,
+      context.abortController!
+    );
+    return this.combine(data, results, context);
+  }
+
+  /**
+   * Each schema lets the fields of the other one through
+   */
+  private sideConfig(config: ValidationConfig): ValidationConfig {
+    return { ...config, allowUnknown: true };
+  }
+
+  /**
+   * Merge the results of both schemas (undefined for the one left out by abortEarly)
+   */
+  private combine(
+    data: unknown,
+    [left, right]: Array<ValidationResult | undefined>,
+    context: ValidationContext
+  ): ValidationResult<T> {
+    const errors = [left, right].flatMap(result => (result && !result.success ? result.errors || [] : []));
+    if (errors.length > 0 || !left || !right) {
+      return this.delegated({ success: false, errors }, context);
+    }
+
+    const leftShape = objectShape(this.left);
+    const rightShape = objectShape(this.right);
+    const merged = mergeValues(left.data, right.data, leftShape?.keys, rightShape?.keys);
+    if (merged === CONFLICT) {
+      return {
+        success: false,
+        errors: [{
+          path: [...context.path],
+          message: 'Results of the intersected schemas cannot be merged',
+          code: 'intersection.merge',
+          value: data
+        }]
+      };
+    }
+
+    // Fields neither object schema defines
+    if (leftShape && rightShape && !leftShape.unknown && !rightShape.unknown && !context.config.allowUnknown) {
+      const unknownKeys = Object.keys(data as object).filter(key => !leftShape.keys.includes(key) && !rightShape.keys.includes(key));
+      if (unknownKeys.length > 0) {
+        return {
+          success: false,
+          errors: unknownKeys.map((key): ValidationError => ({
+            path: [...context.path, key],
+            message: `Unknown key "${key}" is not allowed`,
+            code: 'object.unknown',
+            params: { key },
+            value: (data as Record<string, unknown>)[key]
+          }))
+        };
+      }
+    }
+
+    return { success: true, data: merged as T };
+  }
+
+  /**
+   * Description including both schemas
+   */
+  describe(): SchemaDescription {
+    return { ...super.describe(), options: [this.left.describe(), this.right.describe()] };
+  }
+
+  protected clone(): this {
+    const cloned = super.clone();
+    cloned.left = this.left;
+    cloned.right = this.right;
+    return cloned;
+  }
+}
+
+/**
+ * Fields of an object schema with a shape and whether it allows unknown keys
+ */
+function objectShape(schema: SchemaInterface<any>): { keys: string[]; unknown: boolean } | undefined {
+  const description = schema.describe();
+  if (description.type !== 'object' || !description.children) {
+    return undefined;
+  }
+  return { keys: Object.keys(description.children), unknown: Boolean(description.constraints?.unknown) };
+}
+
+/**
+ * Merge two results of the same value. For objects, a field known by a single
+ * schema takes its value from that schema; without keys, a schema knows them all.
+ */
+function mergeValues(left: unknown, right: unknown, leftKeys?: string[], rightKeys?: string[]): unknown {
+  if (left === right || right === undefined) {
+    return left;
+  }
+  if (left === undefined) {
+    return right;
+  }
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime() ? left : CONFLICT;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    if (left.length !== right.length) {
+      return CONFLICT;
+    }
+    const items = left.map((item, index) => mergeValues(item, right[index]));
+    return items.includes(CONFLICT) ? CONFLICT : items;
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const merged: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+      const inLeft = !leftKeys || leftKeys.includes(key);
+      const inRight = !rightKeys || rightKeys.includes(key);
+      const value = inLeft && !inRight ? left[key]
+        : inRight && !inLeft ? right[key]
+        : mergeValues(left[key], right[key]);
+      if (value === CONFLICT) {
+        return CONFLICT;
+      }
+      if (value !== undefined || key in left || key in right) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+  return CONFLICT;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Lazy validation schema implementation for recursive schemas
+ * @module tsfox/core/features/validation/validators/lazy.validator
+ */
+
+import { BaseSchema } from '../schema/base.schema';
+import { ValidationResult, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
+import { ValidationContext } from '../schema/schema.types';
+
+/**
+ * Lazy schema implementation: the schema is only built when first used, so that
+ * a schema can refer to itself, as the nodes of a tree do
+ */
+export class LazySchema<T = any> extends BaseSchema<T> {
+  protected getter: () => SchemaInterface<T>;
+  private resolved?: SchemaInterface<T>;
+
+  constructor(getter: () => SchemaInterface<T>) {
+    super('lazy');
+    this.getter = getter;
+  }
+
+  /**
+   * Type-specific validation with the resolved schema
+   */
+  protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
+    return this.delegated(this.schema().validate(data, context.config), context);
+  }
+
+  /**
+   * Type-specific asynchronous validation with the resolved schema
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const result = await this.schema().validateAsync(data, { ...context.config, ...this.childConfig(context) });
+    return this.delegated(result, context);
+  }
+
+  /**
+   * Description with the resolver of the schema, which may contain this one
+   */
+  describe(): SchemaDescription {
+    return { ...super.describe(), resolve: () => this.schema() };
+  }
+
+  private schema(): SchemaInterface<T> {
+    if (!this.resolved) {
+      this.resolved = this.getter();
+    }
+    return this.resolved;
+  }
+
+  protected clone(): this {
+    const cloned = super.clone();
+    cloned.getter = this.getter;
+    cloned.resolved = this.resolved;
+    return cloned;
+  }
+}
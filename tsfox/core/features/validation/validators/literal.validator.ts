@@ -5,7 +5,7 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { LiteralSchemaInterface } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -30,6 +30,7 @@ export class LiteralSchema<T extends string | number | boolean> extends BaseSche
           path: [...context.path],
           message: `Expected literal value "${this.value}"`,
           code: 'literal.base',
+          params: { expected: this.value },
           value: data
         }]
       };
@@ -38,6 +39,14 @@ export class LiteralSchema<T extends string | number | boolean> extends BaseSche
     return { success: true, data: data as T };
   }
 
+  /**
+   * Description including the literal value
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, value: this.value } };
+  }
+
   protected clone(): this {
     const cloned = super.clone();
     cloned.value = this.value;
@@ -27,6 +27,7 @@ export class NullSchema extends BaseSchema<null> implements SchemaInterface<null
           path: [...context.path],
           message: 'Expected null',
           code: 'type_mismatch',
+          params: { expected: 'null' },
           value: data
         }]
       };
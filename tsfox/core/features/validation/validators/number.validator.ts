@@ -5,7 +5,7 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { NumberSchemaInterface, NumberConstraints } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -121,6 +121,7 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
         path: [...context.path],
         message: `Number must be greater than or equal to ${this.constraints.min}`,
         code: 'number.min',
+        params: { limit: this.constraints.min },
         value: data
       });
     }
@@ -130,6 +131,7 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
         path: [...context.path],
         message: `Number must be less than or equal to ${this.constraints.max}`,
         code: 'number.max',
+        params: { limit: this.constraints.max },
         value: data
       });
     }
@@ -139,6 +141,7 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
         path: [...context.path],
         message: `Number must be greater than ${this.constraints.greater}`,
         code: 'number.greater',
+        params: { limit: this.constraints.greater },
         value: data
       });
     }
@@ -148,6 +151,7 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
         path: [...context.path],
         message: `Number must be less than ${this.constraints.less}`,
         code: 'number.less',
+        params: { limit: this.constraints.less },
         value: data
       });
     }
@@ -177,6 +181,7 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
         path: [...context.path],
         message: `Number must be a multiple of ${this.constraints.multiple}`,
         code: 'number.multiple',
+        params: { limit: this.constraints.multiple },
         value: data
       });
     }
@@ -198,6 +203,14 @@ export class NumberSchema extends BaseSchema<number> implements NumberSchemaInte
     return { success: true, data: processedValue };
   }
 
+  /**
+   * Description including the number constraints
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, ...this.constraints } };
+  }
+
   // Fluent API methods
   min(value: number): this {
     const clone = this.clone();
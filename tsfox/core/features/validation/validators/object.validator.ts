@@ -4,9 +4,18 @@
  */
 
 import { BaseSchema } from '../schema/base.schema';
-import { ObjectSchemaInterface, ObjectConstraints } from '../interfaces/schema.interface';
+import {
+  ObjectSchemaInterface,
+  ObjectConstraints,
+  MergeShapes,
+  Simplify,
+  WithOptional,
+  WithRequired,
+  DeepPartial
+} from '../interfaces/schema.interface';
 import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
+import { settle } from '../schema/async.rules';
 
 /**
  * Object schema implementation
@@ -28,21 +37,69 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
    * Type-specific validation for objects
    */
   protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
-    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-      return {
-        success: false,
-        errors: [{
-          path: [...context.path],
-          message: 'Expected object',
-          code: 'object.base',
-          value: data
-        }]
-      };
+    if (!isObject(data)) {
+      return this.notAnObject(data, context);
+    }
+
+    // Validate each field in the shape, up to the first failure with abortEarly
+    const fieldResults: Array<ValidationResult | undefined> = [];
+    for (const key of this.shapeKeys()) {
+      const fieldResult = this.shape![key as keyof T].validate(data[key]);
+      fieldResults.push(fieldResult);
+      if (!fieldResult.success && context.config.abortEarly) {
+        break;
+      }
     }
 
+    return this.assemble(data, fieldResults, context);
+  }
+
+  /**
+   * Type-specific validation for objects, validating the fields concurrently
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    if (!isObject(data)) {
+      return this.notAnObject(data, context);
+    }
+
+    const config = this.childConfig(context);
+    const fieldResults = await settle(
+      this.shapeKeys().map(key => this.shape![key as keyof T].validateAsync(data[key], config)),
+      context.config.abortEarly,
+      context.abortController!
+    );
+
+    return this.assemble(data, fieldResults, context);
+  }
+
+  private notAnObject(data: unknown, context: ValidationContext): ValidationResult<T> {
+    return {
+      success: false,
+      errors: [{
+        path: [...context.path],
+        message: 'Expected object',
+        code: 'object.base',
+        value: data
+      }]
+    };
+  }
+
+  private shapeKeys(): string[] {
+    return this.shape ? Object.keys(this.shape) : [];
+  }
+
+  /**
+   * Build the result of an object from the results of its fields, in shape order
+   * (undefined for the fields left out by abortEarly), checking the object constraints
+   */
+  private assemble(
+    inputObj: Record<string, any>,
+    fieldResults: Array<ValidationResult | undefined>,
+    context: ValidationContext
+  ): ValidationResult<T> {
     const errors: ValidationError[] = [];
     const result: any = {};
-    const inputObj = data as Record<string, any>;
+    const data = inputObj;
 
     // Validate object length constraints
     const objectKeys = Object.keys(inputObj);
@@ -52,6 +109,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
         path: [...context.path],
         message: `Object must have exactly ${this.constraints.length} keys`,
         code: 'object.length',
+        params: { limit: this.constraints.length },
         value: data
       });
     }
@@ -61,6 +119,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
         path: [...context.path],
         message: `Object must have at least ${this.constraints.min} keys`,
         code: 'object.min',
+        params: { limit: this.constraints.min },
         value: data
       });
     }
@@ -70,28 +129,24 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
         path: [...context.path],
         message: `Object must have at most ${this.constraints.max} keys`,
         code: 'object.max',
+        params: { limit: this.constraints.max },
         value: data
       });
     }
 
     // Validate against shape if provided
     if (this.shape) {
-      const shapeKeys = Object.keys(this.shape);
+      const shapeKeys = this.shapeKeys();
       
-      // Validate each field in the shape
-      for (const key of shapeKeys) {
-        const fieldSchema = this.shape[key as keyof T];
-        const fieldValue = inputObj[key];
-        
-        const fieldContext: ValidationContext = {
-          ...context,
-          path: [...context.path, key],
-          parent: inputObj,
-          key
-        };
-
-        const fieldResult = fieldSchema.validate(fieldValue);
+      // Collect the result of each field in the shape
+      for (let i = 0; i < shapeKeys.length; i++) {
+        const key = shapeKeys[i];
+        const fieldResult = fieldResults[i];
         
+        if (!fieldResult) {
+          continue;
+        }
+
         if (fieldResult.success) {
           result[key] = fieldResult.data;
         } else if (fieldResult.errors) {
@@ -117,6 +172,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
             path: [...context.path, key],
             message: `Unknown key "${key}" is not allowed`,
             code: 'object.unknown',
+            params: { key },
             value: inputObj[key]
           })));
         } else if (context.config.stripUnknown) {
@@ -141,6 +197,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
           path: [...context.path],
           message: `Missing required peer keys: ${missingPeers.join(', ')}`,
           code: 'object.and',
+          params: { peers: missingPeers },
           value: data
         });
       }
@@ -153,6 +210,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
           path: [...context.path],
           message: `At least one of these keys must be present: ${this.constraints.or.join(', ')}`,
           code: 'object.or',
+          params: { peers: this.constraints.or },
           value: data
         });
       }
@@ -165,6 +223,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
           path: [...context.path],
           message: `Exactly one of these keys must be present: ${this.constraints.xor.join(', ')}`,
           code: 'object.xor',
+          params: { peers: this.constraints.xor },
           value: data
         });
       }
@@ -180,6 +239,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
               path: [...context.path],
               message: `Key "${key}" requires these peers: ${missingPeers.join(', ')}`,
               code: 'object.with',
+              params: { key, peers: missingPeers },
               value: data
             });
           }
@@ -197,6 +257,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
               path: [...context.path],
               message: `Key "${key}" conflicts with these peers: ${presentPeers.join(', ')}`,
               code: 'object.without',
+              params: { key, peers: presentPeers },
               value: data
             });
           }
@@ -211,6 +272,14 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
     return { success: true, data: result };
   }
 
+  /**
+   * Description including the object constraints
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, ...this.constraints } };
+  }
+
   /**
    * Get description of child schemas
    */
@@ -226,9 +295,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
 
   // Fluent API methods
   keys<U extends Record<string, any>>(schema: { [K in keyof U]: SchemaInterface<U[K]> }): ObjectSchemaInterface<U> {
-    const clone = new ObjectSchema<U>(schema);
-    clone.constraints = { ...this.constraints };
-    return clone;
+    return this.derive<U>(schema);
   }
 
   unknown(allow: boolean = true): this {
@@ -291,6 +358,100 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
     return clone;
   }
 
+  // Composition methods: they build a new schema from the fields and constraints of this one.
+  // Rules added with refine, superRefine or custom are left out, as they were written for these fields.
+
+  extend<U extends Record<string, any>>(shape: { [K in keyof U]: SchemaInterface<U[K]> }): ObjectSchemaInterface<MergeShapes<T, U>> {
+    return this.derive<MergeShapes<T, U>>({ ...this.shape, ...shape });
+  }
+
+  merge<U extends Record<string, any>>(schema: ObjectSchemaInterface<U>): ObjectSchemaInterface<MergeShapes<T, U>> {
+    if (!(schema instanceof ObjectSchema)) {
+      throw new Error('Only object schemas can be merged');
+    }
+    const merged = this.derive<MergeShapes<T, U>>({ ...this.shape, ...schema.shape });
+    merged.constraints = { ...this.constraints, ...schema.constraints };
+    return merged;
+  }
+
+  pick<K extends keyof T & string>(...keys: K[]): ObjectSchemaInterface<Simplify<Pick<T, K>>> {
+    return this.select<Simplify<Pick<T, K>>>(key => keys.includes(key as K));
+  }
+
+  omit<K extends keyof T & string>(...keys: K[]): ObjectSchemaInterface<Simplify<Omit<T, K>>> {
+    return this.select<Simplify<Omit<T, K>>>(key => !keys.includes(key as K));
+  }
+
+  partial<K extends keyof T & string = keyof T & string>(...keys: K[]): ObjectSchemaInterface<WithOptional<T, K>> {
+    return this.derive<WithOptional<T, K>>(this.mapFields(keys, field => field.optional()));
+  }
+
+  deepPartial(): ObjectSchemaInterface<DeepPartial<T>> {
+    return this.derive<DeepPartial<T>>(this.mapFields([], field => {
+      const nested = field instanceof ObjectSchema && field.shape ? field.deepPartial() : field;
+      return nested.optional();
+    }));
+  }
+
+  required(): SchemaInterface<T>;
+  required<K extends keyof T & string>(...keys: [K, ...K[]]): ObjectSchemaInterface<WithRequired<T, K>>;
+  required(...keys: string[]): SchemaInterface<any> {
+    if (keys.length === 0) {
+      return super.required();
+    }
+    return this.derive(this.mapFields(keys, field => field.required()));
+  }
+
+  /**
+   * New object schema with a shape and the constraints of this one
+   */
+  private derive<U extends Record<string, any>>(shape?: Record<string, SchemaInterface<any>>): ObjectSchema<U> {
+    const derived = new ObjectSchema<U>(shape as ObjectSchema<U>['shape']);
+    derived.constraints = { ...this.constraints };
+    return derived;
+  }
+
+  /**
+   * New object schema with the fields kept by a filter, leaving the dropped
+   * fields out of the peer constraints
+   */
+  private select<U extends Record<string, any>>(keep: (key: string) => boolean): ObjectSchema<U> {
+    const shape: Record<string, SchemaInterface<any>> = {};
+    for (const key of this.shapeKeys()) {
+      if (keep(key)) {
+        shape[key] = this.shape![key as keyof T];
+      }
+    }
+
+    const selected = this.derive<U>(shape);
+    const peers = (list?: string[]) => list?.filter(keep);
+    const peerMap = (map?: Record<string, string[]>) => map && Object.fromEntries(
+      Object.entries(map).filter(([key]) => keep(key)).map(([key, list]) => [key, list.filter(keep)])
+    );
+    selected.constraints = {
+      ...selected.constraints,
+      and: peers(this.constraints.and),
+      or: peers(this.constraints.or),
+      xor: peers(this.constraints.xor),
+      with: peerMap(this.constraints.with),
+      without: peerMap(this.constraints.without)
+    };
+    return selected;
+  }
+
+  /**
+   * Shape with the given fields (all of them when none is given) changed
+   */
+  private mapFields(keys: string[], change: (field: SchemaInterface<any>) => SchemaInterface<any>): Record<string, SchemaInterface<any>> {
+    const shape: Record<string, SchemaInterface<any>> = { ...this.shape };
+    for (const key of keys.length > 0 ? keys : this.shapeKeys()) {
+      if (shape[key]) {
+        shape[key] = change(shape[key]);
+      }
+    }
+    return shape;
+  }
+
   protected clone(): this {
     const cloned = super.clone();
     cloned.constraints = { ...this.constraints };
@@ -300,3 +461,7 @@ export class ObjectSchema<T extends Record<string, any> = Record<string, any>>
     return cloned;
   }
 }
+
+function isObject(data: unknown): data is Record<string, any> {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Record validation schema implementation
+ * @module tsfox/core/features/validation/validators/record.validator
+ */
+
+import { BaseSchema } from '../schema/base.schema';
+import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
+import { ValidationContext } from '../schema/schema.types';
+import { settle } from '../schema/async.rules';
+
+/**
+ * Record schema implementation: an object with any keys and a schema for their values
+ */
+export class RecordSchema<T extends Record<string, any> = Record<string, any>> extends BaseSchema<T> {
+  protected valueSchema: SchemaInterface<any>;
+
+  constructor(valueSchema: SchemaInterface<any>) {
+    super('record');
+    this.valueSchema = valueSchema;
+  }
+
+  /**
+   * Type-specific validation for records
+   */
+  protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
+    if (!isRecord(data)) {
+      return this.notAnObject(data, context);
+    }
+
+    const entries = Object.entries(data);
+    const valueResults: Array<ValidationResult | undefined> = [];
+    for (const [, value] of entries) {
+      const valueResult = this.valueSchema.validate(value);
+      valueResults.push(valueResult);
+      if (!valueResult.success && context.config.abortEarly) {
+        break;
+      }
+    }
+
+    return this.assemble(entries, valueResults, context);
+  }
+
+  /**
+   * Type-specific validation for records, validating the values concurrently
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    if (!isRecord(data)) {
+      return this.notAnObject(data, context);
+    }
+
+    const entries = Object.entries(data);
+    const config = this.childConfig(context);
+    const valueResults = await settle(
+      entries.map(([, value]) => this.valueSchema.validateAsync(value, config)),
+      context.config.abortEarly,
+      context.abortController!
+    );
+
+    return this.assemble(entries, valueResults, context);
+  }
+
+  /**
+   * Description including the schema of the values
+   */
+  describe(): SchemaDescription {
+    return { ...super.describe(), values: this.valueSchema.describe() };
+  }
+
+  private notAnObject(data: unknown, context: ValidationContext): ValidationResult<T> {
+    return {
+      success: false,
+      errors: [{
+        path: [...context.path],
+        message: 'Expected object for record',
+        code: 'object.base',
+        value: data
+      }]
+    };
+  }
+
+  private assemble(
+    entries: Array<[string, unknown]>,
+    valueResults: Array<ValidationResult | undefined>,
+    context: ValidationContext
+  ): ValidationResult<T> {
+    const result: Record<string, any> = {};
+    const errors: ValidationError[] = [];
+
+    valueResults.forEach((valueResult, i) => {
+      const key = entries[i][0];
+      if (!valueResult) {
+        return;
+      }
+      if (valueResult.success) {
+        result[key] = valueResult.data;
+      } else if (valueResult.errors) {
+        errors.push(...valueResult.errors.map(error => ({
+          ...error,
+          path: [...context.path, key, ...error.path]
+        })));
+      }
+    });
+
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    return { success: true, data: result as T };
+  }
+
+  protected clone(): this {
+    const cloned = super.clone();
+    cloned.valueSchema = this.valueSchema;
+    return cloned;
+  }
+}
+
+function isRecord(data: unknown): data is Record<string, unknown> {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
@@ -5,7 +5,7 @@
 
 import { BaseSchema } from '../schema/base.schema';
 import { StringSchemaInterface, StringConstraints } from '../interfaces/schema.interface';
-import { ValidationResult, ValidationError } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -53,6 +53,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
           path: [...context.path],
           message: 'Expected string',
           code: 'type_mismatch',
+          params: { expected: 'string' },
           value: data
         }]
       };
@@ -85,6 +86,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
         path: [...context.path],
         message: `String must be exactly ${this.constraints.length} characters long`,
         code: 'exact_length',
+        params: { limit: this.constraints.length },
         value: data
       });
     }
@@ -94,6 +96,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
         path: [...context.path],
         message: `String must be at least ${this.constraints.min} characters long`,
         code: 'min_length',
+        params: { limit: this.constraints.min },
         value: data
       });
     }
@@ -103,6 +106,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
         path: [...context.path],
         message: `String must be at most ${this.constraints.max} characters long`,
         code: 'max_length',
+        params: { limit: this.constraints.max },
         value: data
       });
     }
@@ -162,6 +166,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
         path: [...context.path],
         message: `String must be one of: ${this.constraints.oneOf.join(', ')}`,
         code: 'string.oneOf',
+        params: { values: this.constraints.oneOf },
         value: data
       });
     }
@@ -171,16 +176,7 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
         path: [...context.path],
         message: `String must not be one of: ${this.constraints.notOneOf.join(', ')}`,
         code: 'string.notOneOf',
-        value: data
-      });
-    }
-
-    // Custom refinement
-    if ((this as any)._refineFn && !(this as any)._refineFn(processedValue)) {
-      errors.push({
-        path: [...context.path],
-        message: (this as any)._refineMessage || 'Custom validation failed',
-        code: (this as any)._refineCode || 'string.refine',
+        params: { values: this.constraints.notOneOf },
         value: data
       });
     }
@@ -209,6 +205,14 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
     return { success: true, data: processedValue };
   }
 
+  /**
+   * Description including the string constraints
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return { ...description, constraints: { ...description.constraints, ...this.constraints } };
+  }
+
   // Fluent API methods
   min(length: number): this {
     const clone = this.clone();
@@ -318,15 +322,6 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
     return clone;
   }
 
-  refine(predicate: (value: string) => boolean, code?: string, message?: string): this {
-    const clone = this.clone();
-    // Store the refine function for use in validation
-    (clone as any)._refineFn = predicate;
-    (clone as any)._refineCode = code;
-    (clone as any)._refineMessage = message || 'Custom validation failed';
-    return clone;
-  }
-
   // Helper validation methods
   private isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -360,11 +355,6 @@ export class StringSchema extends BaseSchema<string> implements StringSchemaInte
     if ((this as any)._transformFn) {
       (cloned as any)._transformFn = (this as any)._transformFn;
     }
-    if ((this as any)._refineFn) {
-      (cloned as any)._refineFn = (this as any)._refineFn;
-      (cloned as any)._refineCode = (this as any)._refineCode;
-      (cloned as any)._refineMessage = (this as any)._refineMessage;
-    }
     if ((this as any)._patternCode) {
       (cloned as any)._patternCode = (this as any)._patternCode;
     }
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tuple validation schema implementation
+ * @module tsfox/core/features/validation/validators/tuple.validator
+ */
+
+import { BaseSchema } from '../schema/base.schema';
+import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
+import { ValidationContext } from '../schema/schema.types';
+import { settle } from '../schema/async.rules';
+
+/**
+ * Tuple schema implementation: an array with a schema for each position
+ */
+export class TupleSchema<T extends any[] = any[]> extends BaseSchema<T> {
+  protected schemas: SchemaInterface<any>[];
+
+  constructor(schemas: SchemaInterface<any>[] = []) {
+    super('tuple');
+    this.schemas = schemas;
+  }
+
+  /**
+   * Type-specific validation for tuples
+   */
+  protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
+    const invalid = this.checkShape(data, context);
+    if (invalid) {
+      return invalid;
+    }
+
+    const itemResults: Array<ValidationResult | undefined> = [];
+    for (let i = 0; i < this.schemas.length; i++) {
+      const itemResult = this.schemas[i].validate((data as unknown[])[i]);
+      itemResults.push(itemResult);
+      if (!itemResult.success && context.config.abortEarly) {
+        break;
+      }
+    }
+
+    return this.assemble(itemResults, context);
+  }
+
+  /**
+   * Type-specific validation for tuples, validating the positions concurrently
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const invalid = this.checkShape(data, context);
+    if (invalid) {
+      return invalid;
+    }
+
+    const config = this.childConfig(context);
+    const itemResults = await settle(
+      this.schemas.map((schema, i) => schema.validateAsync((data as unknown[])[i], config)),
+      context.config.abortEarly,
+      context.abortController!
+    );
+
+    return this.assemble(itemResults, context);
+  }
+
+  /**
+   * Description including the schema of each position
+   */
+  describe(): SchemaDescription {
+    return { ...super.describe(), items: this.schemas.map(schema => schema.describe()) };
+  }
+
+  /**
+   * Error when the value is not an array of the tuple length
+   */
+  private checkShape(data: unknown, context: ValidationContext): ValidationResult<T> | undefined {
+    if (!Array.isArray(data)) {
+      return {
+        success: false,
+        errors: [{
+          path: [...context.path],
+          message: 'Expected array for tuple',
+          code: 'array.base',
+          value: data
+        }]
+      };
+    }
+
+    if (data.length !== this.schemas.length) {
+      return {
+        success: false,
+        errors: [{
+          path: [...context.path],
+          message: `Expected tuple of length ${this.schemas.length}, got ${data.length}`,
+          code: 'array.length',
+          params: { limit: this.schemas.length },
+          value: data
+        }]
+      };
+    }
+
+    return undefined;
+  }
+
+  private assemble(itemResults: Array<ValidationResult | undefined>, context: ValidationContext): ValidationResult<T> {
+    const result: any[] = [];
+    const errors: ValidationError[] = [];
+
+    itemResults.forEach((itemResult, i) => {
+      if (!itemResult) {
+        return;
+      }
+      if (itemResult.success) {
+        result[i] = itemResult.data;
+      } else if (itemResult.errors) {
+        errors.push(...itemResult.errors.map(error => ({
+          ...error,
+          path: [...context.path, i.toString(), ...error.path]
+        })));
+      }
+    });
+
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    return { success: true, data: result as T };
+  }
+
+  protected clone(): this {
+    const cloned = super.clone();
+    cloned.schemas = [...this.schemas];
+    return cloned;
+  }
+}
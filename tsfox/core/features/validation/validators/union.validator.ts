@@ -4,7 +4,7 @@
  */
 
 import { BaseSchema } from '../schema/base.schema';
-import { ValidationResult, ValidationError, SchemaInterface } from '../interfaces/validation.interface';
+import { ValidationResult, ValidationError, SchemaInterface, SchemaDescription } from '../interfaces/validation.interface';
 import { ValidationContext } from '../schema/schema.types';
 
 /**
@@ -36,15 +36,43 @@ export class UnionSchema<T = any> extends BaseSchema<T> {
         return { success: true, data: result.data as T };
       }
       
-      if (result.errors) {
-        errors.push(...result.errors.map(error => ({
-          ...error,
-          path: [...context.path, `union[${i}]`, ...error.path]
-        })));
+      errors.push(...this.branchErrors(i, result, context));
+    }
+
+    return this.noMatch(data, errors, context);
+  }
+
+  /**
+   * Type-specific validation for union types, trying each schema in turn
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const errors: ValidationError[] = [];
+    const config = { ...context.config, ...this.childConfig(context) };
+
+    for (let i = 0; i < this.schemas.length; i++) {
+      const result = await this.schemas[i].validateAsync(data, config);
+
+      if (result.success) {
+        return { success: true, data: result.data as T };
       }
+
+      errors.push(...this.branchErrors(i, result, context));
     }
 
-    // All schemas failed
+    return this.noMatch(data, errors, context);
+  }
+
+  private branchErrors(index: number, result: ValidationResult, context: ValidationContext): ValidationError[] {
+    return (result.errors || []).map(error => ({
+      ...error,
+      path: [...context.path, `union[${index}]`, ...error.path]
+    }));
+  }
+
+  /**
+   * All schemas failed
+   */
+  private noMatch(data: unknown, errors: ValidationError[], context: ValidationContext): ValidationResult<T> {
     return {
       success: false,
       errors: [{
@@ -56,9 +84,138 @@ export class UnionSchema<T = any> extends BaseSchema<T> {
     };
   }
 
+  /**
+   * Description including the member schemas
+   */
+  describe(): SchemaDescription {
+    return { ...super.describe(), options: this.schemas.map(schema => schema.describe()) };
+  }
+
   protected clone(): this {
     const cloned = super.clone();
     cloned.schemas = [...this.schemas];
     return cloned;
   }
 }
+
+/**
+ * Union of object schemas told apart by the value of a discriminator field.
+ *
+ * The options are indexed by the literal or enum values of their discriminator field,
+ * so validation goes straight to the matching option instead of trying them in turn.
+ */
+export class DiscriminatedUnionSchema<T = any> extends BaseSchema<T> {
+  protected discriminator: string;
+  protected options: Map<unknown, SchemaInterface<any>>;
+
+  constructor(discriminator: string, options: SchemaInterface<any>[] = []) {
+    super('discriminatedUnion');
+    this.discriminator = discriminator;
+    this.options = new Map();
+
+    options.forEach((option, index) => {
+      const values = discriminatorValues(option.describe(), discriminator);
+      if (values.length === 0) {
+        throw new Error(`Option ${index} of the union has no literal or enum "${discriminator}" field`);
+      }
+      for (const value of values) {
+        if (this.options.has(value)) {
+          throw new Error(`Discriminator value "${value}" is used by several options of the union`);
+        }
+        this.options.set(value, option);
+      }
+    });
+  }
+
+  /**
+   * Type-specific validation with the option of the discriminator value
+   */
+  protected validateType(data: unknown, context: ValidationContext): ValidationResult<T> {
+    const { option, result } = this.select(data, context);
+    if (!option) {
+      return result!;
+    }
+    return this.delegated(option.validate(data, context.config), context);
+  }
+
+  /**
+   * Type-specific asynchronous validation with the option of the discriminator value
+   */
+  protected async validateTypeAsync(data: unknown, context: ValidationContext): Promise<ValidationResult<T>> {
+    const { option, result } = this.select(data, context);
+    if (!option) {
+      return result!;
+    }
+    return this.delegated(await option.validateAsync(data, { ...context.config, ...this.childConfig(context) }), context);
+  }
+
+  /**
+   * Option for the discriminator value of an object, or the error when there is none
+   */
+  private select(data: unknown, context: ValidationContext): { option?: SchemaInterface<any>; result?: ValidationResult<T> } {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return {
+        result: {
+          success: false,
+          errors: [{
+            path: [...context.path],
+            message: 'Expected object',
+            code: 'object.base',
+            value: data
+          }]
+        }
+      };
+    }
+
+    const value = (data as Record<string, unknown>)[this.discriminator];
+    const option = this.options.get(value);
+    if (!option) {
+      return {
+        result: {
+          success: false,
+          errors: [{
+            path: [...context.path, this.discriminator],
+            message: `Expected "${this.discriminator}" to be one of: ${[...this.options.keys()].join(', ')}`,
+            code: 'union.discriminator',
+            params: { values: [...this.options.keys()] },
+            value
+          }]
+        }
+      };
+    }
+    return { option };
+  }
+
+  /**
+   * Description including the discriminator and the options
+   */
+  describe(): SchemaDescription {
+    const description = super.describe();
+    return {
+      ...description,
+      constraints: { ...description.constraints, discriminator: this.discriminator },
+      options: [...new Set(this.options.values())].map(option => option.describe())
+    };
+  }
+
+  protected clone(): this {
+    const cloned = super.clone();
+    cloned.discriminator = this.discriminator;
+    cloned.options = new Map(this.options);
+    return cloned;
+  }
+}
+
+/**
+ * Values an object schema accepts for its discriminator field
+ */
+function discriminatorValues(description: SchemaDescription, discriminator: string): unknown[] {
+  const field = description.children?.[discriminator];
+  if (field?.type === 'literal') {
+    return [field.constraints?.value];
+  }
+  if (field?.type === 'enum') {
+    return field.constraints?.values || [];
+  }
+  return [];
+}
@@ -2,8 +2,13 @@
 import { FoxServerInterface } from './interfaces/factory.interface';
 import { RequestMethod } from './enums/methods.enums';
 import { FoxServer } from './features/foxserver.feature';
-import { ConfigServer } from './enums/server.enums';
 import { ServerConfig } from './types';
+import { RequestMethodsContext } from './enums/request.enums';
+import { RouteGroupDefinition } from './routing/interfaces';
+import { apiPath, resolveRoutes } from './routing/route.builder';
+import { ShutdownManager } from './lifecycle/shutdown.manager';
+import { ShutdownOrder } from './lifecycle/interfaces';
+import { cacheShutdownHook, databaseShutdownHook, metricsShutdownHook } from './lifecycle/shutdown.hooks';
 
 const InitialRequest = {
     method: RequestMethod.GET,
@@ -21,66 +26,229 @@ const InitialView = {
     }
 }
 
+const DEFAULT_APP = 'default';
+
+/**
+ * Hooks closing the process-wide DatabaseFactory, CacheFactory and PerformanceFactory resources
+ */
+function sharedResourcesManager(): ShutdownManager {
+    const manager = new ShutdownManager();
+    manager.register('metrics', metricsShutdownHook(), { order: ShutdownOrder.METRICS });
+    manager.register('cache', cacheShutdownHook(), { order: ShutdownOrder.CACHE });
+    manager.register('database', databaseShutdownHook(), { order: ShutdownOrder.DATABASE });
+    return manager;
+}
+
 export class FoxFactory {
 
-    private static instance: FoxServerInterface;
-    private static requests: Array<{ method: RequestMethod, path: string, callback: any }>;
+    private static instance: FoxServerInterface | undefined;
+    private static apps = new Map<string, FoxServerInterface>();
+    private static appCounter = 0;
+    private static sharedResources = sharedResourcesManager();
+    /** Running apps using the shared resources, which are closed when the last one stops */
+    private static resourceHolders = new Set<FoxServerInterface>();
 
+    /**
+     * Create the default app. Subsequent calls return the existing default app
+     * without registering routes again; use createApp() for additional servers.
+     */
     public static createInstance(context: ServerConfig) {
-        if (!FoxFactory.instance) {
-            const server = new FoxServer(context);
-            FoxFactory.instance = server; 
-            FoxFactory.instance.create();
+        if (FoxFactory.instance) {
+            console.warn('FoxFactory default instance already exists; use createApp() to create another server');
+            return this.getInstance();
         }
-        this.requestsManager(context?.requests || [InitialRequest]);
-        this.viewsManager(context?.views || [InitialView]);
-        
-        return this.getInstance();
+
+        const app = this.buildApp(context);
+        FoxFactory.instance = app;
+        FoxFactory.apps.set(DEFAULT_APP, app);
+
+        return app;
     }
-    public static getInstance() {
+
+    /**
+     * Create an isolated app with its own port, config, middleware stack and routes
+     * @param context - Server configuration for this app
+     * @param name - Unique app name (generated when omitted)
+     */
+    public static createApp(context: ServerConfig, name?: string): FoxServerInterface {
+        const appName = name || `app_${++FoxFactory.appCounter}`;
+
+        if (FoxFactory.apps.has(appName)) {
+            throw new Error(`App '${appName}' already exists`);
+        }
+
+        const app = this.buildApp(context);
+        FoxFactory.apps.set(appName, app);
+
+        return app;
+    }
+
+    public static getInstance(): FoxServerInterface {
         if (!FoxFactory.instance) {
             throw new Error('Factory instance not created yet. Call createInstance() first.');
         }
         return FoxFactory.instance;
     }
 
+    /**
+     * Get an app created with createApp() or createInstance() ('default')
+     */
+    public static getApp(name: string): FoxServerInterface {
+        const app = FoxFactory.apps.get(name);
+        if (!app) {
+            throw new Error(`App '${name}' not found`);
+        }
+        return app;
+    }
+
+    /**
+     * Check if an app exists
+     */
+    public static hasApp(name: string): boolean {
+        return FoxFactory.apps.has(name);
+    }
+
+    /**
+     * Get all app names
+     */
+    public static getAppNames(): string[] {
+        return Array.from(FoxFactory.apps.keys());
+    }
+
+    /**
+     * Stop an app and remove it from the factory
+     */
+    public static async removeApp(name: string): Promise<boolean> {
+        const app = FoxFactory.apps.get(name);
+        if (!app) {
+            return false;
+        }
+
+        FoxFactory.apps.delete(name);
+        if (app === FoxFactory.instance) {
+            FoxFactory.instance = undefined;
+        }
+        await app.stop();
+        return true;
+    }
+
+    /**
+     * Stop every app and clear the factory. The shared resources are closed once,
+     * after the last app stops.
+     */
+    public static async stopAll(): Promise<void> {
+        const apps = Array.from(FoxFactory.apps.values());
+        FoxFactory.apps.clear();
+        FoxFactory.instance = undefined;
+        await Promise.all(apps.map(app => app.stop()));
+    }
+
     public static listen(){
-        FoxFactory.instance.start();
+        FoxFactory.getInstance().start();
+    }
+
+    /**
+     * Gracefully stop the current instance: drain connections and run shutdown hooks
+     */
+    public static async stop() {
+        if (!FoxFactory.instance) {
+            return;
+        }
+        return FoxFactory.instance.stop();
     }
 
     private static destroyInstance() {
-        FoxFactory.instance.destroy();
+        FoxFactory.instance?.destroy();
     }
     
     // Public method for testing purposes
     public static resetInstance() {
-        FoxFactory.instance = null as any;
+        FoxFactory.instance = undefined;
+        FoxFactory.apps.clear();
+        FoxFactory.appCounter = 0;
+        FoxFactory.resourceHolders.clear();
+        FoxFactory.sharedResources.reset();
+    }
+
+    /**
+     * Release the shared resources held by a stopping app, closing them when no
+     * other app uses them
+     */
+    private static async releaseSharedResources(app: FoxServerInterface): Promise<void> {
+        if (!FoxFactory.resourceHolders.delete(app) || FoxFactory.resourceHolders.size > 0) {
+            return;
+        }
+
+        const results = await FoxFactory.sharedResources.run();
+        FoxFactory.sharedResources.reset();
+
+        const failed = results.filter(result => !result.success);
+        if (failed.length > 0) {
+            throw new Error(`Failed to close shared resources: ${failed.map(result => `${result.name} (${result.error?.message})`).join(', ')}`);
+        }
+    }
+
+    private static buildApp(context: ServerConfig): FoxServerInterface {
+        const server = new FoxServer(context);
+        server.create();
+
+        if (context?.shutdown?.defaultHooks !== false && server instanceof FoxServer) {
+            FoxFactory.resourceHolders.add(server);
+            server.onShutdown('shared-resources', () => FoxFactory.releaseSharedResources(server), {
+                order: ShutdownOrder.DATABASE
+            });
+        }
+
+        this.requestsManager(server, context?.requests || [InitialRequest]);
+
+        if (context?.openapi && server instanceof FoxServer) {
+            server.serveOpenAPI(context.openapi === true ? {} : context.openapi);
+        }
+
+        this.viewsManager(server, context?.views || [InitialView]);
+
+        if (context?.errorHandler) {
+            server.use(context.errorHandler);
+        }
+
+        return server;
     }
     
-    private static viewsManager(views: Array<{ type: string, path: string, callback: any }>): void {
+    private static viewsManager(server: FoxServerInterface, views: Array<{ type: string, path: string, callback: any }>): void {
         views.forEach((item) => {
             const { path, type, callback } = item;
             console.info(`viewsManager: ${path} - ${callback}`)
             //validate if file is html, hbs or jxs
-            FoxFactory.instance.render(type, path, callback);
+            server.render(type, path, callback);
         })
     }
 
 
-    private static requestsManager(request: Array<{ method: RequestMethod, path: string, callback: any }>): void {
-        request.forEach((item) => {
-            console.info(`requestsManager: ${item.method} - ${item.path} - ${item.callback}`)
-            const { method, path, callback } = item;
+    private static requestsManager(server: FoxServerInterface, request: Array<RequestMethodsContext | RouteGroupDefinition>): void {
+        resolveRoutes(request).forEach((route) => {
+            console.info(`requestsManager: ${route.method} - ${route.path} - ${route.definition.callback}`)
+            const { method, path, handlers } = route;
             
-            // Add /api prefix only if it doesn't already exist
-            const prefixPath = path.startsWith('/api') ? path : `${ConfigServer.API}${path}`;
+            const prefixPath = apiPath(path);
             
-            FoxFactory.instance[method](prefixPath, callback);
+            if (route.definition.security && server instanceof FoxServer) {
+                server.getSecurityPipeline().addRule({
+                    ...route.definition.security,
+                    path: prefixPath,
+                    methods: [method.toUpperCase()]
+                });
+            }
+
+            if (server instanceof FoxServer) {
+                server.recordRoute({ ...route, path: prefixPath });
+            }
+
+            server[method](prefixPath, ...handlers);
         })
     }
 
     public start() {
-        FoxFactory.instance.start();
+        FoxFactory.getInstance().start();
     }
 
 }
@@ -1,6 +1,7 @@
 import { RequestMethod } from "../enums/methods.enums";
 import { RequestMethodsContext } from "../enums/request.enums";
 import { ServerTypeCtx } from "../enums/server.enums";
+import { ShutdownHook, ShutdownHookOptions, ShutdownResult } from "../lifecycle/interfaces";
 
 
 export interface FoxFactory {
@@ -31,12 +32,14 @@ export type FoxServerInterface = {
 } & {
     create: () => void;
     start: () => void;
+    stop: () => Promise<ShutdownResult>;
+    onShutdown: (name: string, hook: ShutdownHook, options?: ShutdownHookOptions) => void;
     destroy: () => void;
     use: (callback: any) => void;
-    get: (path: string, callback: any) => void;
-    post: (path: string, callback: any) => void;
-    put: (path: string, callback: any) => void;
-    delete: (path: string, callback: any) => void;
+    get: (path: string, ...callbacks: any[]) => void;
+    post: (path: string, ...callbacks: any[]) => void;
+    put: (path: string, ...callbacks: any[]) => void;
+    delete: (path: string, ...callbacks: any[]) => void;
     set(path: string, callback: any): void;
     render: (type: string, path: string, callback: any) => void;
 };
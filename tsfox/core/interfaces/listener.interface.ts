@@ -0,0 +1,50 @@
+import { Server as HttpServer } from 'http';
+import { Server as HttpsServer } from 'https';
+import { Http2SecureServer } from 'http2';
+import { PeerCertificate } from 'tls';
+
+/**
+ * TLS material for HTTPS and HTTP/2 listeners (PEM contents)
+ */
+export interface TlsConfig {
+    key: string | Buffer;
+    cert: string | Buffer;
+    ca?: string | Buffer | Array<string | Buffer>;
+    passphrase?: string;
+    /** Ask clients for a certificate (mTLS) */
+    requestClientCert?: boolean;
+    /** Reject clients whose certificate is missing or not signed by `ca` (default: true when requestClientCert is set) */
+    rejectUnauthorized?: boolean;
+}
+
+/**
+ * A single endpoint the server listens on
+ */
+export interface ListenerConfig {
+    port?: number;
+    host?: string;
+    /** Unix domain socket path; takes precedence over port/host */
+    socketPath?: string;
+    tls?: TlsConfig;
+    /** Serve HTTP/2 with HTTP/1.1 fallback (requires tls) */
+    http2?: boolean;
+}
+
+export type ListenerServer = HttpServer | HttpsServer | Http2SecureServer;
+
+/**
+ * Client certificate details attached to requests on mTLS listeners
+ */
+export interface ClientCertificateInfo {
+    authorized: boolean;
+    authorizationError?: string;
+    certificate: PeerCertificate | null;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            clientCertificate?: ClientCertificateInfo;
+        }
+    }
+}
@@ -1,10 +1,10 @@
 export interface IServer {
-    get(path: string, callback: any): any;
-    post(path: string, callback: any): any;
-    put(path: string, callback: any): any;
-    delete(path: string, callback: any): any;
-    patch(path: string, callback: any): any;
-    all(path: string, callback: any): any;
+    get(path: string, ...callbacks: any[]): any;
+    post(path: string, ...callbacks: any[]): any;
+    put(path: string, ...callbacks: any[]): any;
+    delete(path: string, ...callbacks: any[]): any;
+    patch(path: string, ...callbacks: any[]): any;
+    all(path: string, ...callbacks: any[]): any;
     set(setting: string, value: any): any;
     use(callback: any): void;
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { ShutdownManager } from '../shutdown.manager';
+import { ShutdownOrder } from '../interfaces';
+import { eventSystemShutdownHook, metricsShutdownHook } from '../shutdown.hooks';
+
+describe('ShutdownManager', () => {
+  it('should run hooks by ascending order, then registration order', async () => {
+    const manager = new ShutdownManager();
+    const calls: string[] = [];
+
+    manager.register('database', () => { calls.push('database'); }, { order: ShutdownOrder.DATABASE });
+    manager.register('app-1', () => { calls.push('app-1'); });
+    manager.register('events', async () => { calls.push('events'); }, { order: ShutdownOrder.EVENTS });
+    manager.register('app-2', () => { calls.push('app-2'); });
+
+    const results = await manager.run();
+
+    expect(calls).toEqual(['app-1', 'app-2', 'events', 'database']);
+    expect(results.every(result => result.success)).toBe(true);
+  });
+
+  it('should keep running hooks after a failure', async () => {
+    const manager = new ShutdownManager();
+    const after = jest.fn();
+
+    manager.register('failing', () => { throw new Error('boom'); });
+    manager.register('after', after);
+
+    const results = await manager.run();
+
+    expect(after).toHaveBeenCalled();
+    expect(results[0].success).toBe(false);
+    expect(results[0].error?.message).toBe('boom');
+    expect(results[1].success).toBe(true);
+  });
+
+  it('should abandon hooks that exceed their timeout', async () => {
+    const manager = new ShutdownManager(1000);
+    manager.register('slow', () => new Promise(resolve => setTimeout(resolve, 500)), { timeout: 20 });
+
+    const [result] = await manager.run();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Shutdown hook 'slow' timed out after 20ms");
+  });
+
+  it('should replace a hook registered with the same name', async () => {
+    const manager = new ShutdownManager();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    manager.register('hook', first);
+    manager.register('hook', second);
+    await manager.run();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(manager.getHooks()).toHaveLength(1);
+  });
+
+  it('should run hooks only once for concurrent calls', async () => {
+    const manager = new ShutdownManager();
+    const hook = jest.fn();
+    manager.register('hook', hook);
+
+    const [a, b] = await Promise.all([manager.run(), manager.run()]);
+
+    expect(a).toBe(b);
+    expect(hook).toHaveBeenCalledTimes(1);
+
+    manager.reset();
+    await manager.run();
+    expect(hook).toHaveBeenCalledTimes(2);
+  });
+
+  it('should unregister hooks', () => {
+    const manager = new ShutdownManager();
+    manager.register('hook', jest.fn());
+
+    expect(manager.has('hook')).toBe(true);
+    expect(manager.unregister('hook')).toBe(true);
+    expect(manager.unregister('hook')).toBe(false);
+    expect(manager.has('hook')).toBe(false);
+  });
+});
+
+describe('shutdown hooks', () => {
+  it('should shut down an event system', async () => {
+    const system = { shutdown: jest.fn().mockResolvedValue(undefined) };
+    await eventSystemShutdownHook(system)();
+    expect(system.shutdown).toHaveBeenCalled();
+  });
+
+  it('should stop a metrics collector', async () => {
+    const collector = { stop: jest.fn() };
+    await metricsShutdownHook(collector)();
+    expect(collector.stop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Connection tracker used to drain in-flight requests
+ * @module tsfox/core/lifecycle/connection.tracker
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { Http2Session } from 'http2';
+import { Server as NetServer, Socket } from 'net';
+import { Server as TlsServer, TLSSocket } from 'tls';
+
+/**
+ * Tracks open sockets and the number of active requests on each one,
+ * so idle keep-alive connections can be closed immediately while busy
+ * connections are allowed to finish their current response.
+ * HTTP/2 sessions are closed gracefully, letting open streams complete.
+ */
+export class ConnectionTracker {
+  private sockets = new Map<Socket, number>();
+  private sessions = new Set<Http2Session>();
+  private draining = false;
+  private idleListeners = new Set<() => void>();
+
+  constructor(private readonly server: NetServer) {
+    // TLS servers emit the raw socket on 'connection' and the TLS socket used
+    // by requests on 'secureConnection'; only the latter is tracked
+    const connectionEvent = server instanceof TlsServer ? 'secureConnection' : 'connection';
+
+    server.on(connectionEvent, (socket: Socket) => this.onConnection(socket));
+    server.on('session', (session: Http2Session) => this.onSession(session));
+    server.on('request', (req: IncomingMessage, res: ServerResponse) => this.onRequest(req, res));
+  }
+
+  /**
+   * Number of open sockets
+   */
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Number of HTTP/1 requests currently being processed
+   */
+  get activeRequests(): number {
+    let total = 0;
+    for (const count of this.sockets.values()) {
+      total += count;
+    }
+    return total;
+  }
+
+  /**
+   * Stop accepting new work and close idle sockets.
+   * Busy sockets are closed as soon as their response finishes.
+   */
+  drain(): void {
+    this.draining = true;
+
+    for (const session of this.sessions) {
+      session.close();
+    }
+
+    for (const [socket, active] of this.sockets) {
+      if (active === 0 && !this.isHttp2Socket(socket)) {
+        socket.destroy();
+      }
+    }
+  }
+
+  /**
+   * Destroy every remaining socket and session
+   * @returns Number of connections that had to be forced closed
+   */
+  forceClose(): number {
+    const remaining = Math.max(this.sockets.size, this.sessions.size);
+
+    for (const session of this.sessions) {
+      session.destroy();
+    }
+    for (const socket of this.sockets.keys()) {
+      socket.destroy();
+    }
+
+    this.sessions.clear();
+    this.sockets.clear();
+    return remaining;
+  }
+
+  /**
+   * Resolve once all connections are closed or the timeout elapses
+   * @returns True if all connections closed before the timeout
+   */
+  waitForDrain(timeout: number): Promise<boolean> {
+    if (this.isIdle()) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const onIdle = () => {
+        clearTimeout(deadline);
+        resolve(true);
+      };
+      const deadline = setTimeout(() => {
+        this.idleListeners.delete(onIdle);
+        resolve(this.isIdle());
+      }, timeout);
+      this.idleListeners.add(onIdle);
+    });
+  }
+
+  /**
+   * Resolve the drain waits once the last connection has closed
+   */
+  private notifyIfIdle(): void {
+    if (!this.isIdle()) {
+      return;
+    }
+    const listeners = [...this.idleListeners];
+    this.idleListeners.clear();
+    listeners.forEach(listener => listener());
+  }
+
+  private isIdle(): boolean {
+    return this.sockets.size === 0 && this.sessions.size === 0;
+  }
+
+  private isHttp2Socket(socket: Socket): boolean {
+    return (socket as TLSSocket).alpnProtocol === 'h2';
+  }
+
+  private onConnection(socket: Socket): void {
+    if (this.sockets.has(socket)) {
+      return;
+    }
+
+    this.sockets.set(socket, 0);
+    socket.once('close', () => {
+      this.sockets.delete(socket);
+      this.notifyIfIdle();
+    });
+
+    if (this.draining) {
+      socket.destroy();
+    }
+  }
+
+  private onSession(session: Http2Session): void {
+    this.sessions.add(session);
+    session.once('close', () => {
+      this.sessions.delete(session);
+      this.notifyIfIdle();
+    });
+
+    if (this.draining) {
+      session.close();
+    }
+  }
+
+  private onRequest(req: IncomingMessage, res: ServerResponse): void {
+    // HTTP/2 streams are drained through their session
+    if (req.httpVersionMajor === 2) {
+      return;
+    }
+
+    const socket = req.socket;
+    this.sockets.set(socket, (this.sockets.get(socket) || 0) + 1);
+
+    if (this.draining && !res.headersSent) {
+      res.setHeader('Connection', 'close');
+    }
+
+    res.once('finish', () => {
+      const active = Math.max(0, (this.sockets.get(socket) || 1) - 1);
+      if (!this.sockets.has(socket)) {
+        return;
+      }
+      this.sockets.set(socket, active);
+      if (this.draining && active === 0) {
+        socket.end();
+      }
+    });
+  }
+}
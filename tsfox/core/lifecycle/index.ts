@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Lifecycle System exports
+ * @module tsfox/core/lifecycle
+ */
+
+export * from './interfaces';
+export { ShutdownManager } from './shutdown.manager';
+export { ConnectionTracker } from './connection.tracker';
+export {
+  databaseShutdownHook,
+  cacheShutdownHook,
+  eventSystemShutdownHook,
+  metricsShutdownHook
+} from './shutdown.hooks';
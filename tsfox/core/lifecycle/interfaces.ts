@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Lifecycle system interfaces
+ * @module tsfox/core/lifecycle/interfaces
+ */
+
+/**
+ * Function executed while the server is shutting down
+ */
+export type ShutdownHook = () => void | Promise<void>;
+
+/**
+ * Options for a registered shutdown hook
+ */
+export interface ShutdownHookOptions {
+  /** Hooks with a lower order run first (default: 0) */
+  order?: number;
+  /** Maximum time in ms the hook may take before it is abandoned */
+  timeout?: number;
+}
+
+/**
+ * Registered shutdown hook
+ */
+export interface ShutdownHookEntry {
+  name: string;
+  hook: ShutdownHook;
+  order: number;
+  timeout?: number;
+}
+
+/**
+ * Result of a single shutdown hook execution
+ */
+export interface ShutdownHookResult {
+  name: string;
+  success: boolean;
+  duration: number;
+  error?: Error;
+}
+
+/**
+ * Summary returned once the shutdown sequence has completed
+ */
+export interface ShutdownResult {
+  /** True when every hook succeeded and all connections drained in time */
+  success: boolean;
+  /** Connections that were still open when the drain deadline was reached */
+  forcedConnections: number;
+  hooks: ShutdownHookResult[];
+  duration: number;
+}
+
+/**
+ * Server shutdown configuration
+ */
+export interface ShutdownOptions {
+  /** Time in ms to wait for in-flight requests before closing sockets (default: 10000) */
+  timeout?: number;
+  /** Default timeout in ms applied to each shutdown hook (default: 5000) */
+  hookTimeout?: number;
+  /** Process signals that trigger a graceful shutdown (default: none) */
+  signals?: NodeJS.Signals[];
+  /** Exit the process after a signal-triggered shutdown (default: true) */
+  exitOnSignal?: boolean;
+  /**
+   * Close the process-wide DatabaseFactory, CacheFactory and PerformanceFactory resources
+   * when the last app created by FoxFactory with this option stops (default: true)
+   */
+  defaultHooks?: boolean;
+  /** Event system shut down after the application hooks, once connections are drained */
+  eventSystem?: { shutdown(): Promise<void> };
+}
+
+/**
+ * Default execution order for framework shutdown hooks.
+ * Application hooks run first so they can still use shared resources.
+ */
+export enum ShutdownOrder {
+  APPLICATION = 0,
+  EVENTS = 100,
+  METRICS = 200,
+  CACHE = 300,
+  DATABASE = 400
+}
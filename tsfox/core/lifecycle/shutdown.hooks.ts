@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Built-in shutdown hooks for framework resources
+ * @module tsfox/core/lifecycle/shutdown.hooks
+ */
+
+import { DatabaseFactory } from '../features/database/database.factory';
+import { CacheFactory } from '../cache/cache.factory';
+import { PerformanceFactory } from '../performance/performance.factory';
+import { ShutdownHook } from './interfaces';
+
+/**
+ * Close every database instance created through DatabaseFactory
+ */
+export function databaseShutdownHook(): ShutdownHook {
+  return () => DatabaseFactory.closeAll();
+}
+
+/**
+ * Disconnect every cache provider created through CacheFactory
+ */
+export function cacheShutdownHook(): ShutdownHook {
+  return () => CacheFactory.clear();
+}
+
+/**
+ * Shut down an event system (bus, emitter and store)
+ */
+export function eventSystemShutdownHook(system: { shutdown(): Promise<void> }): ShutdownHook {
+  return () => system.shutdown();
+}
+
+/**
+ * Stop a metrics collector, or the PerformanceFactory instance when none is given
+ */
+export function metricsShutdownHook(collector?: { stop(): void }): ShutdownHook {
+  return () => {
+    if (collector) {
+      collector.stop();
+    } else {
+      PerformanceFactory.reset();
+    }
+  };
+}
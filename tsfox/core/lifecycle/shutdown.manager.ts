@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Shutdown manager for ordered, time-bounded cleanup
+ * @module tsfox/core/lifecycle/shutdown.manager
+ */
+
+import {
+  ShutdownHook,
+  ShutdownHookEntry,
+  ShutdownHookOptions,
+  ShutdownHookResult
+} from './interfaces';
+
+/**
+ * Keeps the list of shutdown hooks and runs them sequentially.
+ * A failing or slow hook never prevents the following hooks from running.
+ */
+export class ShutdownManager {
+  private hooks: ShutdownHookEntry[] = [];
+  private running: Promise<ShutdownHookResult[]> | null = null;
+
+  constructor(private readonly defaultTimeout: number = 5000) {}
+
+  /**
+   * Register a hook. Hooks with the same order run in registration order.
+   */
+  register(name: string, hook: ShutdownHook, options: ShutdownHookOptions = {}): void {
+    this.unregister(name);
+    this.hooks.push({
+      name,
+      hook,
+      order: options.order ?? 0,
+      timeout: options.timeout
+    });
+  }
+
+  /**
+   * Remove a hook by name
+   */
+  unregister(name: string): boolean {
+    const index = this.hooks.findIndex(entry => entry.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.hooks.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Check if a hook is registered
+   */
+  has(name: string): boolean {
+    return this.hooks.some(entry => entry.name === name);
+  }
+
+  /**
+   * Registered hooks in execution order
+   */
+  getHooks(): ShutdownHookEntry[] {
+    return this.hooks
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => a.entry.order - b.entry.order || a.index - b.index)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Run every hook once. Concurrent calls share the same execution.
+   */
+  run(): Promise<ShutdownHookResult[]> {
+    if (!this.running) {
+      this.running = this.execute();
+    }
+    return this.running;
+  }
+
+  /**
+   * Allow the hooks to be run again (mainly for tests)
+   */
+  reset(): void {
+    this.running = null;
+  }
+
+  private async execute(): Promise<ShutdownHookResult[]> {
+    const results: ShutdownHookResult[] = [];
+
+    for (const entry of this.getHooks()) {
+      const startTime = Date.now();
+      try {
+        await this.withTimeout(entry);
+        results.push({ name: entry.name, success: true, duration: Date.now() - startTime });
+      } catch (error) {
+        results.push({
+          name: entry.name,
+          success: false,
+          duration: Date.now() - startTime,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private withTimeout(entry: ShutdownHookEntry): Promise<void> {
+    const timeout = entry.timeout ?? this.defaultTimeout;
+    let timer: NodeJS.Timeout | undefined;
+
+    return Promise.race([
+      Promise.resolve().then(() => entry.hook()),
+      new Promise<void>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Shutdown hook '${entry.name}' timed out after ${timeout}ms`)),
+          timeout
+        );
+      })
+    ]).finally(() => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    });
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Tests for the OpenAPI document generation
+ */
+
+import { createHash } from 'crypto';
+import request from 'supertest';
+import { RequestMethod } from '../../enums/methods.enums';
+import { FoxFactory } from '../../fox.factory';
+import { FoxServer } from '../../features/foxserver.feature';
+import { ServerConfig } from '../../types';
+import { apiPath, resolveRoutes, routeGroup } from '../../routing/route.builder';
+import { SecurityPipeline } from '../../security/security.pipeline';
+import { AuthMiddleware } from '../../security/auth.middleware';
+import { AuthorizationMiddleware } from '../../security/authorization.middleware';
+import { SchemaBuilder } from '../../features/validation/schema/schema.builder';
+import { SchemaInterface } from '../../features/validation/interfaces/validation.interface';
+import { validateResponseByStatus, ResponseSchemas } from '../../features/validation/middleware/response.middleware';
+import { generateOpenAPI, toOpenAPIPath } from '../openapi.generator';
+import { documentMiddleware } from '../middleware.docs';
+import { RequestMethodsContext } from '../../enums/request.enums';
+import { RouteGroupDefinition } from '../../routing/interfaces';
+
+const handler = (req: any, res: any) => res.json({});
+const jwt = { secret: 'secret' };
+
+const user = SchemaBuilder.object({
+  id: SchemaBuilder.string().uuid(),
+  name: SchemaBuilder.string().min(2)
+}).label('User');
+
+const generate = (entries: Array<RequestMethodsContext | RouteGroupDefinition>, pipeline?: SecurityPipeline) =>
+  generateOpenAPI(resolveRoutes(entries).map(route => ({ ...route, path: apiPath(route.path) })), {}, pipeline);
+
+describe('OpenAPI generation', () => {
+  it('should convert Express paths', () => {
+    expect(toOpenAPIPath('/api/users/:id/posts/:postId(\\d+)')).toBe('/api/users/{id}/posts/{postId}');
+    expect(toOpenAPIPath('/api/files/:name?')).toBe('/api/files/{name}');
+  });
+
+  it('should describe operations with their parameters, bodies and docs', () => {
+    const document = generate([
+      routeGroup('/users', [
+        {
+          method: RequestMethod.PUT,
+          path: '/:id',
+          schemas: {
+            params: SchemaBuilder.object({ id: SchemaBuilder.string().uuid() }),
+            query: SchemaBuilder.object({ notify: SchemaBuilder.boolean().optional() }),
+            headers: SchemaBuilder.object({ 'x-request-id': SchemaBuilder.string() }).unknown(),
+            body: SchemaBuilder.object({ name: SchemaBuilder.string().min(2) })
+          },
+          docs: { summary: 'Update a user', tags: ['users'], deprecated: true },
+          callback: handler
+        },
+        { method: RequestMethod.GET, path: '/:id/posts/:postId', callback: handler }
+      ])
+    ]);
+
+    expect(document).toMatchObject({ openapi: '3.1.0', info: { title: 'Fox API', version: '1.0.0' }, tags: [{ name: 'users' }] });
+    expect(document.paths['/api/users/{id}'].put).toEqual({
+      operationId: 'putApiUsersById',
+      summary: 'Update a user',
+      tags: ['users'],
+      deprecated: true,
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+        { name: 'notify', in: 'query', schema: { type: 'boolean' } },
+        { name: 'x-request-id', in: 'header', required: true, schema: { type: 'string' } }
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { name: { type: 'string', minLength: 2 } },
+              required: ['name'],
+              additionalProperties: false
+            }
+          }
+        }
+      },
+      responses: { '200': { description: 'OK' }, '400': { description: 'Bad Request' } }
+    });
+    expect(document.paths['/api/users/{id}/posts/{postId}'].get!.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'postId', in: 'path', required: true, schema: { type: 'string' } }
+    ]);
+  });
+
+  it('should document the responses of the response validation middleware and of the route docs', () => {
+    const document = generate([
+      {
+        method: RequestMethod.GET,
+        path: '/users/:id',
+        middleware: [validateResponseByStatus({ 200: user, 404: ResponseSchemas.error() as unknown as SchemaInterface<any> })],
+        docs: { responses: { 404: { description: 'User not found' }, 410: user } },
+        callback: handler
+      }
+    ]);
+    const { responses } = document.paths['/api/users/{id}'].get!;
+
+    expect(responses['200']).toEqual({
+      description: 'OK',
+      content: { 'application/json': { schema: expect.objectContaining({ title: 'User', required: ['id', 'name'] }) } }
+    });
+    expect(responses['404']).toEqual({ description: 'User not found' });
+    expect(responses['410'].content!['application/json'].schema).toMatchObject({ title: 'User' });
+  });
+
+  it('should describe the shapes of the common response schemas', () => {
+    const document = generate([
+      {
+        method: RequestMethod.GET,
+        path: '/users',
+        middleware: [validateResponseByStatus({ 200: ResponseSchemas.paginated(user) as unknown as SchemaInterface<any> })],
+        callback: handler
+      }
+    ]);
+
+    expect(document.paths['/api/users'].get!.responses['200'].content!['application/json'].schema).toMatchObject({
+      type: 'object',
+      properties: { data: { type: 'array', items: { title: 'User' } }, pagination: { type: 'object' } },
+      required: ['data', 'pagination']
+    });
+  });
+
+  it('should list the security requirements of the auth middleware', () => {
+    const document = generate([
+      routeGroup('/admin', [
+        { method: RequestMethod.DELETE, path: '/users/:id', middleware: [AuthorizationMiddleware.requireRoles(['admin'])], callback: handler },
+        {
+          method: RequestMethod.GET,
+          path: '/reports',
+          middleware: [AuthMiddleware.apiKey(() => true)],
+          docs: { security: [{ bearerAuth: [] }] },
+          callback: handler
+        }
+      ], { middleware: [AuthMiddleware.jwt(jwt)] }),
+      { method: RequestMethod.GET, path: '/feed', middleware: [AuthMiddleware.optionalJwt(jwt)], callback: handler },
+      { method: RequestMethod.GET, path: '/keys', middleware: [AuthMiddleware.apiKey(() => true, 'X-Token')], callback: handler }
+    ]);
+
+    const remove = document.paths['/api/admin/users/{id}'].delete!;
+    expect(remove.security).toEqual([{ bearerAuth: ['admin'] }]);
+    expect(Object.keys(remove.responses)).toEqual(['200', '401', '403']);
+    expect(document.paths['/api/admin/reports'].get!.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.paths['/api/feed'].get!.security).toEqual([{ bearerAuth: [] }, {}]);
+    expect(document.paths['/api/feed'].get!.responses).not.toHaveProperty('401');
+    expect(document.paths['/api/keys'].get!.security).toEqual([{ 'apiKeyAuth_x-token': [] }]);
+    expect(document.components.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      'apiKeyAuth_x-token': { type: 'apiKey', in: 'header', name: 'X-Token' }
+    });
+  });
+
+  it('should list the security stages the pipeline runs for each route', () => {
+    const pipeline = SecurityPipeline.fromConfig({ jwt, exclude: ['/api/health'], rbac: { roles: ['staff'] } });
+    const document = generate([
+      { method: RequestMethod.GET, path: '/health', callback: handler },
+      { method: RequestMethod.GET, path: '/orders', callback: handler }
+    ], pipeline);
+
+    expect(document.paths['/api/health'].get!.security).toBeUndefined();
+    expect(document.paths['/api/orders'].get!.security).toEqual([{ bearerAuth: ['staff'] }]);
+  });
+
+  it('should use the docs attached to custom middleware', () => {
+    const tenant = documentMiddleware((req: any, res: any, next: any) => next(), {
+      security: [{ name: 'tenantKey', scheme: { type: 'apiKey', in: 'header', name: 'x-tenant' } }]
+    });
+    const document = generate([{ method: RequestMethod.GET, path: '/tenants', middleware: [tenant], callback: handler }]);
+
+    expect(document.paths['/api/tenants'].get!.security).toEqual([{ tenantKey: [] }]);
+  });
+
+  it('should share recursive schemas through the components', () => {
+    const category: SchemaInterface<any> = SchemaBuilder.object({
+      name: SchemaBuilder.string(),
+      children: SchemaBuilder.array(SchemaBuilder.lazy(() => category))
+    }).label('Category');
+    const document = generate([
+      { method: RequestMethod.POST, path: '/categories', schemas: { body: category }, callback: handler }
+    ]);
+
+    expect(document.paths['/api/categories'].post!.requestBody!.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/Category' });
+    expect(document.components.schemas!.Category).toMatchObject({
+      properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Category' } } }
+    });
+  });
+
+  it('should leave out hidden routes and routes for every method, keeping operation ids unique', () => {
+    const document = generate([
+      { method: RequestMethod.GET, path: '/internal', docs: { hidden: true }, callback: handler },
+      { method: RequestMethod.ALL, path: '/proxy', callback: handler },
+      { method: RequestMethod.GET, path: '/a', docs: { operationId: 'list' }, callback: handler },
+      { method: RequestMethod.GET, path: '/b', docs: { operationId: 'list' }, callback: handler }
+    ]);
+
+    expect(Object.keys(document.paths)).toEqual(['/api/a', '/api/b']);
+    expect(document.paths['/api/b'].get!.operationId).toBe('list2');
+  });
+
+  describe('FoxServer', () => {
+    const config = (overrides: Partial<ServerConfig> = {}): ServerConfig => ({
+      port: 0,
+      env: 'test',
+      jsonSpaces: 2,
+      staticFolder: 'public',
+      shutdown: { defaultHooks: false },
+      views: [],
+      requests: [
+        { method: RequestMethod.GET, path: '/users', docs: { summary: 'List users' }, callback: handler },
+        { method: RequestMethod.POST, path: '/api/users', callback: handler }
+      ],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'info').mockImplementation();
+      FoxFactory.resetInstance();
+    });
+
+    afterEach(async () => {
+      await FoxFactory.stopAll();
+      jest.restoreAllMocks();
+    });
+
+    it('should serve the document of the registered routes and its docs page', async () => {
+      const server = FoxFactory.createApp(config({ openapi: { info: { title: 'Users API' } } })) as FoxServer;
+
+      const response = await request(server.getApp()).get('/openapi.json').expect(200);
+      expect(response.body.info).toEqual({ title: 'Users API', version: '1.0.0' });
+      expect(response.body.paths['/api/users']).toEqual({
+        get: expect.objectContaining({ summary: 'List users' }),
+        post: expect.objectContaining({ operationId: 'postApiUsers' })
+      });
+
+      const page = await request(server.getApp()).get('/docs').expect(200);
+      expect(page.headers['content-type']).toMatch(/html/);
+      expect(page.text).toContain('<title>Users API</title>');
+      expect(page.text).toContain('url: "/openapi.json"');
+    });
+
+    it('should allow the pinned Swagger UI assets and its inline script in the docs page policy', async () => {
+      const server = FoxFactory.createApp(config({ openapi: true, security: { headers: {} } })) as FoxServer;
+
+      const page = await request(server.getApp()).get('/docs').expect(200);
+      const script = page.text.match(/<script>(.*)<\/script>/)![1];
+      const hash = createHash('sha256').update(script).digest('base64');
+
+      expect(page.text).toMatch(/swagger-ui-dist@\d+\.\d+\.\d+\/swagger-ui-bundle\.js" integrity="sha384-/);
+      expect(page.headers['content-security-policy']).toContain(`'sha256-${hash}'`);
+      expect(page.headers['content-security-policy']).not.toContain('unsafe-eval');
+    });
+
+    it('should list the routes registered after the first request of the document', async () => {
+      const server = FoxFactory.createApp(config({ openapi: true })) as FoxServer;
+      await request(server.getApp()).get('/openapi.json').expect(200);
+
+      server.recordRoute(resolveRoutes([{ method: RequestMethod.GET, path: '/api/orders', callback: handler }])[0]);
+
+      const response = await request(server.getApp()).get('/openapi.json').expect(200);
+      expect(Object.keys(response.body.paths)).toEqual(['/api/users', '/api/orders']);
+    });
+
+    it('should serve the document on custom paths without docs page', async () => {
+      const server = FoxFactory.createApp(config({ openapi: { path: '/api/spec.json', docsPath: false } })) as FoxServer;
+
+      await request(server.getApp()).get('/api/spec.json').expect(200);
+      await request(server.getApp()).get('/docs').expect(404);
+    });
+
+    it('should generate documents without serving them', async () => {
+      const server = FoxFactory.createApp(config()) as FoxServer;
+
+      expect(server.getRoutes().map(route => route.path)).toEqual(['/api/users', '/api/users']);
+      expect(server.openapi({ info: { version: '2.0.0' } }).info).toEqual({ title: 'Fox API', version: '2.0.0' });
+      await request(server.getApp()).get('/openapi.json').expect(404);
+    });
+  });
+});
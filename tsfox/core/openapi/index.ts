@@ -0,0 +1,9 @@
+/**
+ * @fileoverview OpenAPI System exports
+ * @module tsfox/core/openapi
+ */
+
+export * from './interfaces';
+export { documentMiddleware, getMiddlewareDocs } from './middleware.docs';
+export { generateOpenAPI, toOpenAPIPath } from './openapi.generator';
+export { openAPIDocumentHandler, swaggerUIHandler } from './openapi.handlers';
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview OpenAPI 3.1 document and route documentation interfaces
+ * @module tsfox/core/openapi/interfaces
+ */
+
+import { SchemaInterface } from '../features/validation/interfaces/validation.interface';
+import { JSONSchema, JSONSchemaObject } from '../features/validation/json-schema/json.schema.types';
+
+/**
+ * Version of the documents produced by the generator
+ */
+export const OPENAPI_VERSION = '3.1.0';
+
+/**
+ * API metadata of a document
+ */
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+  termsOfService?: string;
+  contact?: { name?: string; url?: string; email?: string };
+  license?: { name: string; identifier?: string; url?: string };
+}
+
+export interface OpenAPIServer {
+  url: string;
+  description?: string;
+}
+
+export interface OpenAPITag {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Security scheme of `components.securitySchemes`
+ */
+export interface OpenAPISecurityScheme {
+  type: 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
+  description?: string;
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  scheme?: string;
+  bearerFormat?: string;
+  flows?: Record<string, unknown>;
+  openIdConnectUrl?: string;
+}
+
+/**
+ * Schemes an operation accepts, with the roles or scopes each one requires
+ */
+export type OpenAPISecurityRequirement = Record<string, string[]>;
+
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  deprecated?: boolean;
+  schema: JSONSchema;
+}
+
+export interface OpenAPIMediaType {
+  schema: JSONSchema;
+}
+
+export interface OpenAPIRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIResponse {
+  description: string;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenAPIParameter[];
+  requestBody?: OpenAPIRequestBody;
+  responses: Record<string, OpenAPIResponse>;
+  security?: OpenAPISecurityRequirement[];
+}
+
+/**
+ * Operations of a path by lowercase HTTP method
+ */
+export type OpenAPIPathItem = Partial<Record<'get' | 'put' | 'post' | 'delete' | 'patch' | 'head' | 'options', OpenAPIOperation>>;
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info: OpenAPIInfo;
+  jsonSchemaDialect?: string;
+  servers?: OpenAPIServer[];
+  tags?: OpenAPITag[];
+  paths: Record<string, OpenAPIPathItem>;
+  components: {
+    schemas?: Record<string, JSONSchema>;
+    securitySchemes?: Record<string, OpenAPISecurityScheme>;
+  };
+  security?: OpenAPISecurityRequirement[];
+}
+
+/**
+ * Documented response: a schema of the JSON body, or a description with an optional schema
+ */
+export type RouteResponseDocs = SchemaInterface<any> | {
+  description?: string;
+  schema?: SchemaInterface<any>;
+  /** Media type of the body (default: application/json) */
+  contentType?: string;
+};
+
+/**
+ * Documentation of a route, added to its operation
+ */
+export interface RouteDocs {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  /** Unique operation name (default: derived from the method and path) */
+  operationId?: string;
+  deprecated?: boolean;
+  /** Leave the route out of the document */
+  hidden?: boolean;
+  /** Responses by status code, merged over those of the response validation middleware */
+  responses?: Record<number | string, RouteResponseDocs>;
+  /** Security requirements, replacing those found in the route middleware */
+  security?: OpenAPISecurityRequirement[];
+}
+
+/**
+ * Security scheme a middleware enforces
+ */
+export interface MiddlewareSecurity {
+  /** Name of the scheme in `components.securitySchemes` */
+  name: string;
+  scheme: OpenAPISecurityScheme;
+  /** Requests without credentials are let through */
+  optional?: boolean;
+}
+
+/**
+ * What a middleware contributes to the operations of the routes using it
+ */
+export interface MiddlewareDocs {
+  security?: MiddlewareSecurity[];
+  /** Roles or permissions the middleware requires, listed in the security requirements */
+  scopes?: string[];
+  /** Response schemas by status code */
+  responses?: Record<number, SchemaInterface<any>>;
+}
+
+/**
+ * Options of the document generation
+ */
+export interface OpenAPIOptions {
+  info?: Partial<OpenAPIInfo>;
+  servers?: OpenAPIServer[];
+  /** Descriptions of the tags used by the routes */
+  tags?: OpenAPITag[];
+  /** Security schemes added to those found in the routes */
+  securitySchemes?: Record<string, OpenAPISecurityScheme>;
+  /** Reusable schemas; recursive schemas of the routes are added here */
+  schemas?: Record<string, JSONSchemaObject>;
+}
+
+/**
+ * Options of the document and docs page routes of a server
+ */
+export interface OpenAPIServeOptions extends OpenAPIOptions {
+  /** Path of the JSON document (default: /openapi.json) */
+  path?: string;
+  /** Path of the interactive docs page, or false to serve only the document (default: /docs) */
+  docsPath?: string | false;
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Documentation attached to middleware functions
+ * @module tsfox/core/openapi/middleware.docs
+ */
+
+import { MiddlewareDocs } from './interfaces';
+
+const middlewareDocs = new WeakMap<Function, MiddlewareDocs>();
+
+/**
+ * Attach documentation to a middleware, so the operations of the routes using it
+ * list its security requirements and responses. Returns the middleware.
+ */
+export function documentMiddleware<M extends Function>(middleware: M, docs: MiddlewareDocs): M {
+  const current = middlewareDocs.get(middleware) || {};
+  middlewareDocs.set(middleware, {
+    security: docs.security ?? current.security,
+    scopes: docs.scopes ?? current.scopes,
+    responses: docs.responses ?? current.responses
+  });
+  return middleware;
+}
+
+/**
+ * Documentation attached to a middleware
+ */
+export function getMiddlewareDocs(middleware: unknown): MiddlewareDocs | undefined {
+  return typeof middleware === 'function' ? middlewareDocs.get(middleware) : undefined;
+}
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview OpenAPI 3.1 document generation from resolved routes
+ * @module tsfox/core/openapi/openapi.generator
+ */
+
+import { STATUS_CODES } from 'http';
+import { RequestMethod } from '../enums/methods.enums';
+import { ResolvedRoute } from '../routing/interfaces';
+import { SecurityPipeline } from '../security/security.pipeline';
+import { SchemaInterface } from '../features/validation/interfaces/validation.interface';
+import { JSONSchema, JSONSchemaObject } from '../features/validation/json-schema/json.schema.types';
+import { toJSONSchema } from '../features/validation/json-schema/schema.exporter';
+import { getMiddlewareDocs } from './middleware.docs';
+import {
+  OPENAPI_VERSION,
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIOptions,
+  OpenAPIParameter,
+  OpenAPIResponse,
+  OpenAPISecurityRequirement,
+  OpenAPISecurityScheme,
+  OpenAPITag,
+  MiddlewareDocs,
+  MiddlewareSecurity,
+  RouteResponseDocs
+} from './interfaces';
+
+/** Prefix of the references to `components.schemas` */
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/** Express path parameters, with an optional pattern and `?` modifier */
+const PATH_PARAMETER = /:(\w+)(?:\([^)]*\))?\??/g;
+
+/**
+ * Generate an OpenAPI 3.1 document from resolved routes.
+ *
+ * Each route becomes an operation with its path, query and header parameters and
+ * request body taken from its validation schemas, the responses of its response
+ * validation middleware and the security requirements of its authentication and
+ * authorization middleware, including the stages the security pipeline runs for it.
+ * Routes registered with `RequestMethod.ALL` have no single operation and are left out.
+ */
+export function generateOpenAPI(
+  routes: ResolvedRoute[],
+  options: OpenAPIOptions = {},
+  pipeline?: SecurityPipeline
+): OpenAPIDocument {
+  return new OpenAPIGenerator(options, pipeline).generate(routes);
+}
+
+/**
+ * OpenAPI path of an Express path: `/users/:id` becomes `/users/{id}`
+ */
+export function toOpenAPIPath(path: string): string {
+  return path.replace(PATH_PARAMETER, (_match, name: string) => `{${name}}`);
+}
+
+/**
+ * Generation of one document, collecting the schemas, security schemes and tags of its operations
+ */
+class OpenAPIGenerator {
+  private readonly schemas: Record<string, JSONSchema>;
+  private readonly securitySchemes: Record<string, OpenAPISecurityScheme>;
+  private readonly tags: OpenAPITag[];
+  private readonly operationIds = new Set<string>();
+
+  constructor(private readonly options: OpenAPIOptions, private readonly pipeline?: SecurityPipeline) {
+    this.schemas = { ...options.schemas };
+    this.securitySchemes = { ...options.securitySchemes };
+    this.tags = [...(options.tags || [])];
+  }
+
+  generate(routes: ResolvedRoute[]): OpenAPIDocument {
+    const paths: OpenAPIDocument['paths'] = {};
+
+    for (const route of routes) {
+      if (route.method === RequestMethod.ALL || route.definition.docs?.hidden) {
+        continue;
+      }
+
+      const path = toOpenAPIPath(route.path);
+      paths[path] = { ...paths[path], [route.method]: this.operation(route, path) };
+    }
+
+    const document: OpenAPIDocument = {
+      openapi: OPENAPI_VERSION,
+      info: { title: 'Fox API', version: '1.0.0', ...this.options.info },
+      paths,
+      components: {}
+    };
+    if (this.options.servers?.length) {
+      document.servers = this.options.servers;
+    }
+    if (this.tags.length > 0) {
+      document.tags = this.tags;
+    }
+    if (Object.keys(this.schemas).length > 0) {
+      document.components.schemas = this.schemas;
+    }
+    if (Object.keys(this.securitySchemes).length > 0) {
+      document.components.securitySchemes = this.securitySchemes;
+    }
+    return document;
+  }
+
+  private operation(route: ResolvedRoute, path: string): OpenAPIOperation {
+    const { definition } = route;
+    const docs = definition.docs || {};
+    const middlewareDocs = this.middlewareDocs(route);
+    const schemas = definition.schemas || {};
+
+    const operation: OpenAPIOperation = {
+      operationId: this.operationId(docs.operationId || defaultOperationId(route.method, path)),
+      responses: {}
+    };
+    if (docs.summary) operation.summary = docs.summary;
+    if (docs.description) operation.description = docs.description;
+    if (docs.tags?.length) {
+      operation.tags = docs.tags;
+      docs.tags.filter(tag => !this.tags.some(known => known.name === tag)).forEach(name => this.tags.push({ name }));
+    }
+    if (docs.deprecated) operation.deprecated = true;
+
+    const parameters = [
+      ...this.parameters('path', schemas.params, pathParameters(route.path)),
+      ...this.parameters('query', schemas.query),
+      ...this.parameters('header', schemas.headers)
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    if (schemas.body) {
+      operation.requestBody = {
+        required: schemas.body.describe().required !== false,
+        content: { 'application/json': { schema: this.schema(schemas.body) } }
+      };
+    }
+
+    const security = docs.security ?? this.security(middlewareDocs);
+    if (security.length > 0) {
+      operation.security = security;
+    }
+
+    for (const middleware of middlewareDocs) {
+      for (const [status, schema] of Object.entries(middleware.responses || {})) {
+        operation.responses[status] = this.response(Number(status), schema);
+      }
+    }
+    for (const [status, response] of Object.entries(docs.responses || {})) {
+      operation.responses[status] = this.response(Number(status), response);
+    }
+    if (Object.keys(operation.responses).length === 0) {
+      operation.responses['200'] = { description: statusDescription(200) };
+    }
+
+    // Responses of the framework middleware
+    const errors: number[] = [];
+    if (Object.keys(schemas).length > 0) errors.push(400);
+    if (security.length > 0 && security.every(requirement => Object.keys(requirement).length > 0)) errors.push(401);
+    if (middlewareDocs.some(middleware => middleware.scopes?.length)) errors.push(403);
+    for (const status of errors.filter(status => !operation.responses[status])) {
+      operation.responses[status] = { description: statusDescription(status) };
+    }
+
+    return operation;
+  }
+
+  /**
+   * Documentation of the middleware of a route and of the security stages run for it
+   */
+  private middlewareDocs(route: ResolvedRoute): MiddlewareDocs[] {
+    const stages = this.pipeline?.resolve(route.method, route.path).map(stage => stage.middleware) || [];
+    return [...stages, ...route.handlers]
+      .map(handler => getMiddlewareDocs(handler))
+      .filter((docs): docs is MiddlewareDocs => docs !== undefined);
+  }
+
+  /**
+   * Requirements of the security schemes: every required scheme at once, or any of the
+   * optional ones (or none) when all of them are optional
+   */
+  private security(middlewareDocs: MiddlewareDocs[]): OpenAPISecurityRequirement[] {
+    const schemes = middlewareDocs.flatMap(docs => docs.security || []);
+    const scopes = [...new Set(middlewareDocs.flatMap(docs => docs.scopes || []))];
+    schemes
+      .filter(({ name }) => !this.securitySchemes[name])
+      .forEach(({ name, scheme }) => this.securitySchemes[name] = scheme);
+
+    const required = schemes.filter(scheme => !scheme.optional);
+    const requirement = (entries: MiddlewareSecurity[]) =>
+      Object.fromEntries(entries.map(({ name }) => [name, scopes]));
+
+    if (required.length > 0) {
+      return [requirement(required)];
+    }
+    if (schemes.length > 0) {
+      return [...schemes.map(scheme => requirement([scheme])), {}];
+    }
+    return [];
+  }
+
+  /**
+   * Parameters from the properties of an object schema; path parameters the schema
+   * leaves out are documented as strings
+   */
+  private parameters(
+    location: OpenAPIParameter['in'],
+    schema?: SchemaInterface<any>,
+    names: string[] = []
+  ): OpenAPIParameter[] {
+    const converted = schema ? this.schema(schema) as JSONSchemaObject : {};
+    const properties = converted.properties || {};
+    const required = converted.required || [];
+
+    const parameters: OpenAPIParameter[] = Object.entries(properties).map(([name, property]) => {
+      const parameter: OpenAPIParameter = { name, in: location, schema: property };
+      if (location === 'path' || required.includes(name)) {
+        parameter.required = true;
+      }
+      if (typeof property === 'object' && property.description) {
+        parameter.description = property.description;
+      }
+      return parameter;
+    });
+
+    for (const name of names.filter(name => !(name in properties))) {
+      parameters.push({ name, in: location, required: true, schema: { type: 'string' } });
+    }
+    return parameters;
+  }
+
+  private response(status: number, response: RouteResponseDocs): OpenAPIResponse {
+    const { description, schema, contentType } = isSchema(response)
+      ? { description: undefined, schema: response, contentType: undefined }
+      : response;
+
+    const converted: OpenAPIResponse = { description: description || statusDescription(status) };
+    if (schema) {
+      converted.content = { [contentType || 'application/json']: { schema: this.schema(schema) } };
+    }
+    return converted;
+  }
+
+  private schema(schema: SchemaInterface<any>): JSONSchemaObject {
+    return toJSONSchema(schema, { dialect: false, definitions: this.schemas, refPrefix: SCHEMA_REF_PREFIX });
+  }
+
+  /**
+   * Operation ids are unique in a document: repeated ids get a numeric suffix
+   */
+  private operationId(id: string): string {
+    let unique = id;
+    for (let index = 2; this.operationIds.has(unique); index++) {
+      unique = `${id}${index}`;
+    }
+    this.operationIds.add(unique);
+    return unique;
+  }
+}
+
+function isSchema(response: RouteResponseDocs): response is SchemaInterface<any> {
+  return typeof (response as SchemaInterface<any>).validate === 'function';
+}
+
+function pathParameters(path: string): string[] {
+  return [...path.matchAll(PATH_PARAMETER)].map(match => match[1]);
+}
+
+/**
+ * `get /api/users/{id}` becomes `getApiUsersById`
+ */
+function defaultOperationId(method: string, path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.startsWith('{') ? `By${capitalize(segment.slice(1, -1))}` : capitalize(segment))
+    .map(word => word.replace(/[^\w]/g, ''));
+  return `${method}${words.join('')}`;
+}
+
+function capitalize(word: string): string {
+  return word.replace(/[-_.](\w)/g, (_match, letter: string) => letter.toUpperCase())
+    .replace(/^\w/, letter => letter.toUpperCase());
+}
+
+function statusDescription(status: number): string {
+  return STATUS_CODES[status] || 'Response';
+}
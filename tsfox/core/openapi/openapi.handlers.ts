@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Route handlers serving an OpenAPI document and its interactive docs page
+ * @module tsfox/core/openapi/openapi.handlers
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { OpenAPIDocument } from './interfaces';
+
+/** Swagger UI assets, loaded by the browser so the framework does not depend on them */
+const SWAGGER_UI_CDN = 'https://unpkg.com/swagger-ui-dist@5.33.0';
+
+/** Subresource integrity hashes of the pinned Swagger UI assets */
+const SWAGGER_UI_INTEGRITY = {
+  css: 'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW',
+  bundle: 'sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf'
+};
+
+/**
+ * Handler responding with the document, generated on each request so it lists
+ * the routes registered after the handler
+ */
+export function openAPIDocumentHandler(generate: () => OpenAPIDocument) {
+  return (req: Request, res: Response) => {
+    res.json(generate());
+  };
+}
+
+/**
+ * Handler responding with a Swagger UI page for the document served at `documentUrl`.
+ * The page replaces the Content-Security-Policy of the security headers with one
+ * allowing the pinned Swagger UI assets and its own inline script only.
+ */
+export function swaggerUIHandler(documentUrl: string, title: string = 'API documentation') {
+  const script = `window.ui = SwaggerUIBundle({ url: ${scriptString(documentUrl)}, dom_id: '#swagger-ui' });`;
+  const page = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_CDN}/swagger-ui.css" integrity="${SWAGGER_UI_INTEGRITY.css}" crossorigin="anonymous">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_CDN}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_INTEGRITY.bundle}" crossorigin="anonymous"></script>
+  <script>${script}</script>
+</body>
+</html>`;
+  const policy = [
+    "default-src 'self'",
+    `script-src ${SWAGGER_UI_CDN}/ 'sha256-${createHash('sha256').update(script).digest('base64')}'`,
+    // Swagger UI sets inline styles on the elements it renders
+    `style-src ${SWAGGER_UI_CDN}/ 'unsafe-inline'`,
+    "img-src 'self' data:",
+    "connect-src 'self'",
+    "object-src 'none'",
+    "frame-ancestors 'self'"
+  ].join('; ');
+
+  return (req: Request, res: Response) => {
+    res.setHeader('Content-Security-Policy', policy);
+    res.type('html').send(page);
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * String literal safe to embed in an inline script
+ */
+function scriptString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,206 @@
+import express from 'express';
+import request from 'supertest';
+import { RequestMethod } from '../../enums/methods.enums';
+import { SchemaBuilder } from '../../features/validation/schema/schema.builder';
+import {
+  defineRoute,
+  routeGroup,
+  isRouteGroup,
+  buildRouteHandlers,
+  resolveRoutes,
+  joinPaths
+} from '../route.builder';
+
+const mount = (entries: Parameters<typeof resolveRoutes>[0]) => {
+  const app = express();
+  app.use(express.json());
+  resolveRoutes(entries).forEach(route => {
+    (app as any)[route.method](route.path, ...route.handlers);
+  });
+  return app;
+};
+
+describe('Route builder', () => {
+  describe('joinPaths', () => {
+    it('should join segments with single slashes', () => {
+      expect(joinPaths('/api/', '/users/', ':id')).toBe('/api/users/:id');
+      expect(joinPaths('', '/')).toBe('/');
+      expect(joinPaths('/', 'health')).toBe('/health');
+    });
+  });
+
+  describe('defineRoute', () => {
+    it('should infer request types from schemas', async () => {
+      const route = defineRoute({
+        method: RequestMethod.POST,
+        path: '/users/:id',
+        schemas: {
+          params: SchemaBuilder.object<{ id: string }>({ id: SchemaBuilder.string() }),
+          body: SchemaBuilder.object<{ name: string; age: number }>({
+            name: SchemaBuilder.string().min(2),
+            age: SchemaBuilder.number()
+          })
+        },
+        callback: (req, res) => {
+          const id: string = req.params.id;
+          const name: string = req.body.name;
+          const age: number = req.body.age;
+          res.json({ id, name, age });
+        }
+      });
+
+      const app = mount([route]);
+
+      await request(app)
+        .post('/users/42')
+        .send({ name: 'Ada', age: 36 })
+        .expect(200, { id: '42', name: 'Ada', age: 36 });
+    });
+
+    it('should reject requests that fail validation before the handler', async () => {
+      const handler = jest.fn();
+      const app = mount([
+        defineRoute({
+          method: RequestMethod.POST,
+          path: '/users',
+          schemas: { body: SchemaBuilder.object({ name: SchemaBuilder.string().min(2) }) },
+          callback: handler
+        })
+      ]);
+
+      const response = await request(app).post('/users').send({ name: 'A' }).expect(400);
+
+      expect(response.body.error).toBe('Validation Error');
+      expect(response.body.details[0].path).toEqual(['body', 'name']);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildRouteHandlers', () => {
+    it('should return only the callback for plain routes', () => {
+      const callback = jest.fn();
+      const handlers = buildRouteHandlers({ method: RequestMethod.GET, path: '/', callback });
+      expect(handlers).toEqual([callback]);
+    });
+
+    it('should order rate limit, middleware, validation, cache and handler', () => {
+      const middleware = jest.fn();
+      const callback = jest.fn();
+      const handlers = buildRouteHandlers({
+        method: RequestMethod.GET,
+        path: '/',
+        middleware: [middleware],
+        schemas: { query: SchemaBuilder.object() },
+        cache: true,
+        rateLimit: { windowMs: 1000, max: 5 },
+        callback
+      });
+
+      expect(handlers).toHaveLength(5);
+      expect(handlers[1]).toBe(middleware);
+      expect(handlers[4]).toBe(callback);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should run route middleware in order', async () => {
+      const calls: string[] = [];
+      const app = mount([
+        {
+          method: RequestMethod.GET,
+          path: '/ordered',
+          middleware: [
+            (req, res, next) => { calls.push('first'); next(); },
+            (req, res, next) => { calls.push('second'); next(); }
+          ],
+          callback: (req: any, res: any) => { calls.push('handler'); res.json(calls); }
+        }
+      ]);
+
+      await request(app).get('/ordered').expect(200, ['first', 'second', 'handler']);
+    });
+
+    it('should apply per-route rate limits', async () => {
+      const app = mount([
+        {
+          method: RequestMethod.GET,
+          path: '/limited',
+          rateLimit: { windowMs: 60000, max: 1 },
+          callback: (req: any, res: any) => res.json({ ok: true })
+        },
+        {
+          method: RequestMethod.GET,
+          path: '/free',
+          callback: (req: any, res: any) => res.json({ ok: true })
+        }
+      ]);
+
+      await request(app).get('/limited').expect(200);
+      await request(app).get('/limited').expect(429);
+      await request(app).get('/free').expect(200);
+      await request(app).get('/free').expect(200);
+    });
+
+    it('should cache route responses', async () => {
+      let count = 0;
+      const app = mount([
+        {
+          method: RequestMethod.GET,
+          path: '/cached',
+          cache: { ttl: 60 },
+          callback: (req: any, res: any) => res.json({ count: ++count })
+        }
+      ]);
+
+      const first = await request(app).get('/cached');
+      const second = await request(app).get('/cached');
+
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.body).toEqual({ count: 1 });
+    });
+  });
+
+  describe('routeGroup', () => {
+    it('should be recognised as a group', () => {
+      expect(isRouteGroup(routeGroup('/admin', []))).toBe(true);
+      expect(isRouteGroup({ method: RequestMethod.GET, path: '/', callback: jest.fn() })).toBe(false);
+    });
+
+    it('should prefix paths and run shared middleware first', async () => {
+      const calls: string[] = [];
+      const app = mount([
+        routeGroup('/admin', [
+          {
+            method: RequestMethod.GET,
+            path: '/users',
+            middleware: [(req, res, next) => { calls.push('route'); next(); }],
+            callback: (req: any, res: any) => res.json(calls)
+          },
+          routeGroup('/reports', [
+            { method: RequestMethod.GET, path: '/daily', callback: (req: any, res: any) => res.json({ report: 'daily' }) }
+          ], { middleware: [(req, res, next) => { res.setHeader('X-Reports', '1'); next(); }] })
+        ], { middleware: [(req, res, next) => { calls.push('group'); res.setHeader('X-Admin', '1'); next(); }] })
+      ]);
+
+      await request(app).get('/admin/users').expect(200, ['group', 'route']);
+
+      const report = await request(app).get('/admin/reports/daily').expect(200, { report: 'daily' });
+      expect(report.headers['x-admin']).toBe('1');
+      expect(report.headers['x-reports']).toBe('1');
+    });
+
+    it('should resolve nested paths', () => {
+      const routes = resolveRoutes([
+        routeGroup('/v1', [
+          routeGroup('/users', [
+            { method: RequestMethod.GET, path: '/', callback: jest.fn() },
+            { method: RequestMethod.GET, path: '/:id', callback: jest.fn() }
+          ])
+        ])
+      ]);
+
+      expect(routes.map(route => route.path)).toEqual(['/v1/users', '/v1/users/:id']);
+    });
+  });
+});
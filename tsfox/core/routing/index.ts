@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Routing System exports
+ * @module tsfox/core/routing
+ */
+
+export * from './interfaces';
+export {
+  defineRoute,
+  routeGroup,
+  isRouteGroup,
+  buildRouteHandlers,
+  resolveRoutes,
+  apiPath,
+  joinPaths
+} from './route.builder';
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Typed routing interfaces
+ * @module tsfox/core/routing/interfaces
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { RequestMethod } from '../enums/methods.enums';
+import { RequestMethodsContext } from '../enums/request.enums';
+import { SchemaInterface } from '../features/validation/interfaces/validation.interface';
+import {
+  ValidationSchemas,
+  RequestValidationOptions
+} from '../features/validation/middleware/request.middleware';
+import { CacheOptions } from '../cache/interfaces';
+import { RateLimitOptions, SecurityRouteOverride } from '../security/interfaces';
+import { RouteDocs } from '../openapi/interfaces';
+
+/**
+ * Infer the output type of a schema, or fall back to a default type
+ */
+export type InferSchemaOr<S, D> = S extends SchemaInterface<infer U> ? U : D;
+
+/**
+ * Express request whose params, body and query are typed from route schemas
+ */
+export type TypedRequest<S extends ValidationSchemas = ValidationSchemas> = Request<
+  InferSchemaOr<S['params'], ParamsDictionary>,
+  any,
+  InferSchemaOr<S['body'], any>,
+  InferSchemaOr<S['query'], ParsedQs>
+> & {
+  validatedHeaders?: InferSchemaOr<S['headers'], Record<string, any>>;
+};
+
+/**
+ * Route handler receiving a typed request
+ */
+export type TypedRequestHandler<S extends ValidationSchemas = ValidationSchemas> = (
+  req: TypedRequest<S>,
+  res: Response,
+  next: NextFunction
+) => any;
+
+/**
+ * Middleware attached to a single route or group
+ */
+export type RouteMiddleware = (req: Request, res: Response, next: NextFunction) => any;
+
+/**
+ * Per-route options applied before the handler
+ */
+export interface RouteOptions<S extends ValidationSchemas = ValidationSchemas> {
+  /** Middleware executed in order before validation and the handler */
+  middleware?: RouteMiddleware[];
+  /** Schemas for body, query, params and headers */
+  schemas?: S;
+  /** Options passed to validateRequest */
+  validation?: RequestValidationOptions;
+  /** Response cache for this route (true uses default cache options) */
+  cache?: CacheOptions | boolean;
+  /** Rate limit applied to this route only */
+  rateLimit?: RateLimitOptions;
+  /** Overrides or exclusions of the server security pipeline for this route */
+  security?: SecurityRouteOverride;
+  /** Summary, tags and responses of the route in the OpenAPI document */
+  docs?: RouteDocs;
+}
+
+/**
+ * Typed route definition
+ */
+export interface RouteDefinition<S extends ValidationSchemas = ValidationSchemas> extends RouteOptions<S> {
+  method: RequestMethod;
+  path: string;
+  callback: TypedRequestHandler<S>;
+}
+
+/**
+ * Routes sharing a path prefix and middleware
+ */
+export interface RouteGroupDefinition {
+  prefix: string;
+  /** Middleware executed before the middleware of every route in the group */
+  middleware?: RouteMiddleware[];
+  routes: Array<RequestMethodsContext | RouteGroupDefinition>;
+}
+
+/**
+ * Route with its full path and ordered handler stack
+ */
+export interface ResolvedRoute {
+  method: RequestMethod;
+  path: string;
+  handlers: any[];
+  definition: RequestMethodsContext;
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Typed route definitions and handler stack resolution
+ * @module tsfox/core/routing/route.builder
+ */
+
+import { RequestMethodsContext } from '../enums/request.enums';
+import { ConfigServer } from '../enums/server.enums';
+import { ValidationSchemas, validateRequest } from '../features/validation/middleware/request.middleware';
+import { responseCache } from '../cache/middleware/response.middleware';
+import { SecurityMiddlewareCore } from '../security/security.middleware';
+import {
+  RouteDefinition,
+  RouteGroupDefinition,
+  RouteMiddleware,
+  ResolvedRoute
+} from './interfaces';
+
+/**
+ * Define a route whose handler request type is inferred from its schemas
+ *
+ * @example
+ * defineRoute({
+ *   method: RequestMethod.POST,
+ *   path: '/users/:id',
+ *   schemas: { params: Schema.object({ id: Schema.string() }) },
+ *   callback: (req, res) => res.json({ id: req.params.id })
+ * });
+ */
+export function defineRoute<S extends ValidationSchemas = {}>(route: RouteDefinition<S>): RouteDefinition<S> {
+  return route;
+}
+
+/**
+ * Group routes under a shared prefix and middleware
+ */
+export function routeGroup(
+  prefix: string,
+  routes: Array<RequestMethodsContext | RouteGroupDefinition>,
+  options: { middleware?: RouteMiddleware[] } = {}
+): RouteGroupDefinition {
+  return {
+    prefix,
+    middleware: options.middleware,
+    routes
+  };
+}
+
+/**
+ * Check if an entry is a route group
+ */
+export function isRouteGroup(entry: RequestMethodsContext | RouteGroupDefinition): entry is RouteGroupDefinition {
+  return typeof (entry as RouteGroupDefinition).prefix === 'string'
+    && Array.isArray((entry as RouteGroupDefinition).routes);
+}
+
+/**
+ * Build the ordered handler stack for a route:
+ * rate limit, middleware, validation, cache, handler
+ */
+export function buildRouteHandlers(route: RequestMethodsContext, inherited: RouteMiddleware[] = []): any[] {
+  const handlers: any[] = [];
+
+  if (route.rateLimit) {
+    handlers.push(SecurityMiddlewareCore.rateLimit(route.rateLimit));
+  }
+
+  handlers.push(...inherited, ...(route.middleware || []));
+
+  if (route.schemas && Object.keys(route.schemas).length > 0) {
+    handlers.push(validateRequest(route.schemas, route.validation));
+  }
+
+  if (route.cache) {
+    handlers.push(responseCache(route.cache === true ? {} : route.cache));
+  }
+
+  handlers.push(route.callback);
+
+  return handlers;
+}
+
+/**
+ * Flatten routes and groups into routes with full paths and handler stacks
+ */
+export function resolveRoutes(
+  entries: Array<RequestMethodsContext | RouteGroupDefinition>,
+  prefix: string = '',
+  inherited: RouteMiddleware[] = []
+): ResolvedRoute[] {
+  const resolved: ResolvedRoute[] = [];
+
+  for (const entry of entries) {
+    if (isRouteGroup(entry)) {
+      resolved.push(...resolveRoutes(
+        entry.routes,
+        joinPaths(prefix, entry.prefix),
+        [...inherited, ...(entry.middleware || [])]
+      ));
+      continue;
+    }
+
+    resolved.push({
+      method: entry.method,
+      path: joinPaths(prefix, entry.path),
+      handlers: buildRouteHandlers(entry, inherited),
+      definition: entry
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Path a route is served on: under the /api prefix unless it already starts with it
+ */
+export function apiPath(path: string): string {
+  return path.startsWith(ConfigServer.API) ? path : `${ConfigServer.API}${path}`;
+}
+
+/**
+ * Join path segments with a single slash between them
+ */
+export function joinPaths(...segments: string[]): string {
+  const joined = segments
+    .filter(segment => segment && segment !== '/')
+    .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+
+  return `/${joined}`;
+}
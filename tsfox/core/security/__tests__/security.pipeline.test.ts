@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Tests for the configuration-driven security pipeline
+ * @version 1.0.0
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { SecurityPipeline, SECURITY_STAGE_ORDER, compilePathPattern, securityRule } from '../security.pipeline';
+import { JwtUtils } from '../auth.middleware';
+import { FoxFactory } from '../../fox.factory';
+import { FoxServer } from '../../features/foxserver.feature';
+import { RequestMethod } from '../../enums/methods.enums';
+import { ServerConfig } from '../../types';
+
+describe('SecurityPipeline', () => {
+  const jwt = { secret: 'pipeline-secret' };
+
+  it('should order configured stages regardless of declaration order', () => {
+    const pipeline = new SecurityPipeline({
+      rbac: { roles: ['admin'] },
+      jwt,
+      headers: {},
+      cors: { origin: '*' }
+    });
+
+    expect(pipeline.getStageNames()).toEqual(['headers', 'cors', 'jwt', 'rbac']);
+    expect(SECURITY_STAGE_ORDER.indexOf('cors')).toBeLessThan(SECURITY_STAGE_ORDER.indexOf('jwt'));
+  });
+
+  it('should resolve no stages for excluded paths', () => {
+    const pipeline = new SecurityPipeline({ jwt, exclude: ['/health', '/public/*'] });
+
+    expect(pipeline.resolve('GET', '/health')).toEqual([]);
+    expect(pipeline.resolve('GET', '/public')).toEqual([]);
+    expect(pipeline.resolve('GET', '/public/logo.png')).toEqual([]);
+    expect(pipeline.resolve('GET', '/api/users').map(entry => entry.stage)).toEqual(['jwt']);
+  });
+
+  it('should apply route skips and overrides by method', () => {
+    const pipeline = new SecurityPipeline({
+      jwt,
+      rbac: { roles: ['user'] },
+      routes: [
+        securityRule('/api/login', { skip: true }, ['POST']),
+        securityRule('/api/admin/*', { rbac: { roles: ['admin'] } }),
+        securityRule('/api/docs', { skip: ['rbac'] })
+      ]
+    });
+
+    expect(pipeline.resolve('POST', '/api/login')).toEqual([]);
+    expect(pipeline.resolve('GET', '/api/login')).toHaveLength(2);
+    expect(pipeline.resolve('GET', '/api/docs').map(entry => entry.stage)).toEqual(['jwt']);
+
+    const admin = pipeline.resolve('DELETE', '/api/admin/users/1');
+    expect(admin.find(entry => entry.stage === 'rbac')!.options).toEqual({ roles: ['admin'] });
+  });
+
+  it('should merge stage overrides over the global options', () => {
+    const pipeline = new SecurityPipeline({
+      rateLimit: { windowMs: 60000, max: 100 },
+      routes: [{ path: '/api/search', rateLimit: { max: 5 } }]
+    });
+
+    const [stage] = pipeline.resolve('GET', '/api/search');
+    expect(stage.options).toEqual({ windowMs: 60000, max: 5 });
+  });
+
+  it('should share the state of stateful stages with their route overrides', async () => {
+    const pipeline = new SecurityPipeline({
+      rateLimit: { windowMs: 60000, max: 2 },
+      routes: [{ path: '/search', rateLimit: { message: 'Slow down' } }]
+    });
+    const app = express();
+    app.use(pipeline.middleware());
+    app.get('*', (req, res) => res.json({ ok: true }));
+
+    await request(app).get('/items').expect(200);
+    await request(app).get('/search').expect(200);
+    await request(app).get('/items').expect(429);
+    const limited = await request(app).get('/search').expect(429);
+    expect(limited.body.message).toBe('Slow down');
+  });
+
+  it('should describe the pipeline', () => {
+    const pipeline = new SecurityPipeline({
+      headers: {},
+      jwt,
+      exclude: ['/health'],
+      routes: [securityRule('/api/items/:id', { skip: ['jwt'] }, ['get'])]
+    });
+
+    expect(pipeline.describe()).toEqual({
+      stages: ['headers', 'jwt'],
+      exclude: ['/health'],
+      routes: [{ path: '/api/items/:id', methods: ['GET'], skip: ['jwt'], overrides: [] }]
+    });
+  });
+
+  it('should compile express-style path patterns', () => {
+    expect(compilePathPattern('/users/:id').test('/users/42')).toBe(true);
+    expect(compilePathPattern('/users/:id').test('/users/42/posts')).toBe(false);
+    expect(compilePathPattern('/files/*').test('/files/a/b.txt')).toBe(true);
+    expect(compilePathPattern('/').test('/')).toBe(true);
+    expect(compilePathPattern(/^\/raw/).test('/raw/path')).toBe(true);
+  });
+
+  describe('server integration', () => {
+    const token = (roles: string[]) => JwtUtils.createToken({ id: '1', email: 'a@b.c', roles, permissions: [] }, jwt.secret);
+
+    const createServer = (overrides: Partial<ServerConfig> = {}): FoxServer => FoxFactory.createApp({
+      port: 0,
+      env: 'test',
+      jsonSpaces: 2,
+      staticFolder: 'public',
+      shutdown: { defaultHooks: false },
+      views: [],
+      security: {
+        headers: {},
+        jwt,
+        exclude: ['/api/health']
+      },
+      requests: [
+        { method: RequestMethod.GET, path: '/health', callback: (req: any, res: any) => res.json({ ok: true }) },
+        { method: RequestMethod.GET, path: '/profile', callback: (req: any, res: any) => res.json({ id: req.user.id }) },
+        {
+          method: RequestMethod.GET,
+          path: '/admin',
+          security: { rbac: { roles: ['admin'] } },
+          callback: (req: any, res: any) => res.json({ admin: true })
+        },
+        {
+          method: RequestMethod.GET,
+          path: '/catalog',
+          security: { skip: ['jwt'] },
+          callback: (req: any, res: any) => res.json({ items: [] })
+        }
+      ],
+      ...overrides
+    }) as FoxServer;
+
+    let infoSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      infoSpy = jest.spyOn(console, 'info').mockImplementation();
+      FoxFactory.resetInstance();
+    });
+
+    afterEach(async () => {
+      await FoxFactory.stopAll();
+      infoSpy.mockRestore();
+    });
+
+    it('should require authentication outside excluded paths', async () => {
+      const app = createServer().getApp();
+
+      await request(app).get('/api/health').expect(200, { ok: true });
+      await request(app).get('/api/profile').expect(401);
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${token(['user'])}`)
+        .expect(200, { id: '1' });
+    });
+
+    it('should set security headers on protected routes', async () => {
+      const response = await request(createServer().getApp()).get('/api/profile');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+    });
+
+    it('should apply per-route overrides declared on requests', async () => {
+      const app = createServer().getApp();
+
+      await request(app).get('/api/catalog').expect(200, { items: [] });
+      await request(app)
+        .get('/api/admin')
+        .set('Authorization', `Bearer ${token(['user'])}`)
+        .expect(403);
+      await request(app)
+        .get('/api/admin')
+        .set('Authorization', `Bearer ${token(['admin'])}`)
+        .expect(200, { admin: true });
+    });
+
+    it('should not add any stage when no security is configured', async () => {
+      const server = createServer({ security: undefined });
+
+      expect(server.getSecurityPipeline().getStageNames()).toEqual([]);
+      await request(server.getApp()).get('/api/catalog').expect(200);
+    });
+  });
+});
@@ -12,8 +12,11 @@ import {
   User, 
   BasicAuthValidator, 
   ApiKeyValidator,
-  SessionOptions 
+  SessionOptions,
+  SessionStore
 } from './interfaces';
+import { documentMiddleware } from '../openapi/middleware.docs';
+import { MiddlewareSecurity } from '../openapi/interfaces';
 
 // Extend Request interface to include user
 declare global {
@@ -132,6 +135,27 @@ class JwtUtils {
   }
 }
 
+/**
+ * OpenAPI security schemes of the authentication middleware
+ */
+const BEARER_AUTH: MiddlewareSecurity = {
+  name: 'bearerAuth',
+  scheme: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+};
+
+const BASIC_AUTH: MiddlewareSecurity = {
+  name: 'basicAuth',
+  scheme: { type: 'http', scheme: 'basic' }
+};
+
+function apiKeyAuth(headerName: string): MiddlewareSecurity {
+  const header = headerName.toLowerCase();
+  return {
+    name: header === 'x-api-key' ? 'apiKeyAuth' : `apiKeyAuth_${header.replace(/[^\w.-]/g, '_')}`,
+    scheme: { type: 'apiKey', in: 'header', name: headerName }
+  };
+}
+
 /**
  * Authentication middleware class
  */
@@ -140,7 +164,7 @@ export class AuthMiddleware {
    * JWT authentication middleware
    */
   static jwt(options: JwtOptions): SecurityMiddleware {
-    return (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = (req: Request, res: Response, next: NextFunction) => {
       const authHeader = req.headers.authorization;
       
       if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -163,13 +187,15 @@ export class AuthMiddleware {
         });
       }
     };
+
+    return documentMiddleware(middleware, { security: [BEARER_AUTH] });
   }
 
   /**
    * Optional JWT authentication (doesn't fail if no token)
    */
   static optionalJwt(options: JwtOptions): SecurityMiddleware {
-    return (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = (req: Request, res: Response, next: NextFunction) => {
       const authHeader = req.headers.authorization;
       
       if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -187,13 +213,15 @@ export class AuthMiddleware {
 
       next();
     };
+
+    return documentMiddleware(middleware, { security: [{ ...BEARER_AUTH, optional: true }] });
   }
 
   /**
    * Basic authentication middleware
    */
   static basicAuth(validateCredentials: BasicAuthValidator): SecurityMiddleware {
-    return async (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = async (req: Request, res: Response, next: NextFunction) => {
       const authHeader = req.headers.authorization;
 
       if (!authHeader || !authHeader.startsWith('Basic ')) {
@@ -232,13 +260,15 @@ export class AuthMiddleware {
         });
       }
     };
+
+    return documentMiddleware(middleware, { security: [BASIC_AUTH] });
   }
 
   /**
    * API Key authentication middleware
    */
   static apiKey(validateApiKey: ApiKeyValidator, headerName: string = 'x-api-key'): SecurityMiddleware {
-    return async (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = async (req: Request, res: Response, next: NextFunction) => {
       const apiKey = req.headers[headerName.toLowerCase()] as string;
 
       if (!apiKey) {
@@ -267,6 +297,8 @@ export class AuthMiddleware {
         });
       }
     };
+
+    return documentMiddleware(middleware, { security: [apiKeyAuth(headerName)] });
   }
 
   /**
@@ -275,7 +307,7 @@ export class AuthMiddleware {
   static session(options: SessionOptions): SecurityMiddleware {
     // This is a simplified session implementation
     // In production, you'd use express-session or similar
-    const sessions = new Map<string, any>();
+    const sessions: SessionStore = options.store || new Map<string, any>();
 
     return (req: Request, res: Response, next: NextFunction) => {
       const sessionId = req.headers['x-session-id'] as string || 
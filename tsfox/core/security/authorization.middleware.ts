@@ -6,6 +6,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { SecurityMiddleware, User, RbacOptions } from './interfaces';
+import { documentMiddleware, getMiddlewareDocs } from '../openapi/middleware.docs';
 
 /**
  * Authorization middleware class for role and permission-based access control
@@ -15,7 +16,7 @@ export class AuthorizationMiddleware {
    * Role-based access control middleware
    */
   static requireRoles(roles: string[], requireAll: boolean = false): SecurityMiddleware {
-    return (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = (req: Request, res: Response, next: NextFunction) => {
       const user = req.user;
 
       if (!user) {
@@ -45,13 +46,15 @@ export class AuthorizationMiddleware {
 
       next();
     };
+
+    return documentMiddleware(middleware, { scopes: roles });
   }
 
   /**
    * Permission-based access control middleware
    */
   static requirePermissions(permissions: string[], requireAll: boolean = false): SecurityMiddleware {
-    return (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = (req: Request, res: Response, next: NextFunction) => {
       const user = req.user;
 
       if (!user) {
@@ -81,13 +84,15 @@ export class AuthorizationMiddleware {
 
       next();
     };
+
+    return documentMiddleware(middleware, { scopes: permissions });
   }
 
   /**
    * Combined RBAC middleware with custom authorization function
    */
   static rbac(options: RbacOptions): SecurityMiddleware {
-    return async (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = async (req: Request, res: Response, next: NextFunction) => {
       const user = req.user;
 
       if (!user) {
@@ -150,6 +155,8 @@ export class AuthorizationMiddleware {
         });
       }
     };
+
+    return documentMiddleware(middleware, { scopes: [...(options.roles || []), ...(options.permissions || [])] });
   }
 
   /**
@@ -241,7 +248,7 @@ export class AuthorizationMiddleware {
    * Combine multiple authorization middlewares with AND logic
    */
   static combineAnd(...middlewares: SecurityMiddleware[]): SecurityMiddleware {
-    return (req: Request, res: Response, next: NextFunction) => {
+    const middleware: SecurityMiddleware = (req: Request, res: Response, next: NextFunction) => {
       let index = 0;
 
       const runNext = (error?: any) => {
@@ -257,6 +264,11 @@ export class AuthorizationMiddleware {
 
       runNext();
     };
+
+    return documentMiddleware(middleware, {
+      security: middlewares.flatMap(entry => getMiddlewareDocs(entry)?.security || []),
+      scopes: middlewares.flatMap(entry => getMiddlewareDocs(entry)?.scopes || [])
+    });
   }
 
   /**
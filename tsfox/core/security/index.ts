@@ -19,6 +19,9 @@ export { AuthorizationMiddleware, AuthDecorators } from './authorization.middlew
 // Export CSRF protection
 export { CsrfMiddleware } from './csrf.middleware';
 
+// Export configuration-driven pipeline
+export { SecurityPipeline, SECURITY_STAGE_ORDER, securityRule, compilePathPattern } from './security.pipeline';
+
 // Import classes for Security object
 import { SecurityMiddlewareCore } from './security.middleware';
 import { AuthMiddleware } from './auth.middleware';
@@ -33,6 +33,16 @@ export interface CorsOptions {
   optionsSuccessStatus?: number;
 }
 
+/**
+ * Request counts of a rate limiter by client key
+ */
+export type RateLimitStore = Map<string, { count: number; resetTime: number }>;
+
+/**
+ * Sessions by session id
+ */
+export type SessionStore = Map<string, any>;
+
 /**
  * Rate limiting configuration options
  */
@@ -51,6 +61,8 @@ export interface RateLimitOptions {
   standardHeaders?: boolean;
   /** Legacy headers support */
   legacyHeaders?: boolean;
+  /** Request counts, shared by the limiters counting the same clients (default: one per limiter) */
+  store?: RateLimitStore;
 }
 
 /**
@@ -105,8 +117,8 @@ export interface SessionOptions {
   secret: string;
   /** Session name */
   name?: string;
-  /** Session store */
-  store?: any;
+  /** Session store, shared by the middlewares reading the same sessions (default: one per middleware) */
+  store?: SessionStore;
   /** Cookie options */
   cookie?: {
     maxAge?: number;
@@ -190,3 +202,76 @@ export interface RequestValidationOptions {
   /** Maximum header size */
   maxHeaderSize?: number;
 }
+
+/**
+ * Stages of the security pipeline, listed in execution order
+ */
+export type SecurityStage =
+  | 'headers'
+  | 'cors'
+  | 'rateLimit'
+  | 'validation'
+  | 'session'
+  | 'jwt'
+  | 'csrf'
+  | 'rbac';
+
+/**
+ * Path pattern used by security rules: an Express-style path
+ * (`/users/:id`, `/admin/*`) or a regular expression
+ */
+export type SecurityPathPattern = string | RegExp;
+
+/**
+ * Options that can be overridden for a subset of routes.
+ * Stage options are merged over the global options of the same stage,
+ * except `rbac`, which replaces the global requirements.
+ */
+export interface SecurityRouteOverride {
+  /** Stages to skip for matching routes (`true` skips the whole pipeline) */
+  skip?: SecurityStage[] | true;
+  cors?: Partial<CorsOptions>;
+  rateLimit?: Partial<RateLimitOptions>;
+  csrf?: Partial<CsrfOptions>;
+  jwt?: Partial<JwtOptions>;
+  session?: Partial<SessionOptions>;
+  rbac?: RbacOptions;
+  headers?: Partial<SecurityHeadersOptions>;
+  validation?: Partial<RequestValidationOptions>;
+}
+
+/**
+ * Override applied to requests matching a path and method
+ */
+export interface SecurityRouteRule extends SecurityRouteOverride {
+  path: SecurityPathPattern;
+  /** HTTP methods the rule applies to (default: all) */
+  methods?: string[];
+}
+
+/**
+ * Security configuration applied when a server is created
+ */
+export interface SecurityConfig {
+  cors?: CorsOptions;
+  rateLimit?: RateLimitOptions;
+  csrf?: CsrfOptions;
+  jwt?: JwtOptions;
+  session?: SessionOptions;
+  rbac?: RbacOptions;
+  headers?: SecurityHeadersOptions;
+  validation?: RequestValidationOptions;
+  /** Paths that bypass the whole pipeline */
+  exclude?: SecurityPathPattern[];
+  /** Per-route overrides, evaluated in order; later rules win */
+  routes?: SecurityRouteRule[];
+}
+
+/**
+ * A pipeline stage with its effective options and middleware
+ */
+export interface ResolvedSecurityStage {
+  stage: SecurityStage;
+  options: any;
+  middleware: SecurityMiddleware;
+}
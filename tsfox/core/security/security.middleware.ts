@@ -9,6 +9,7 @@ import {
   SecurityMiddleware, 
   CorsOptions, 
   RateLimitOptions, 
+  RateLimitStore,
   SecurityHeadersOptions,
   RequestValidationOptions 
 } from './interfaces';
@@ -92,7 +93,7 @@ export class SecurityMiddlewareCore {
       legacyHeaders = false
     } = options;
 
-    const requests = new Map<string, { count: number; resetTime: number }>();
+    const requests: RateLimitStore = options.store || new Map();
 
     // Cleanup expired entries periodically
     setInterval(() => {
@@ -102,7 +103,7 @@ export class SecurityMiddlewareCore {
           requests.delete(key);
         }
       }
-    }, windowMs);
+    }, windowMs).unref();
 
     return (req: Request, res: Response, next: NextFunction) => {
       if (skip(req)) {
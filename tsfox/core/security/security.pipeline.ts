@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Security pipeline built from the server security configuration
+ * @version 1.0.0
+ * @author Fox Framework Team
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  SecurityMiddleware,
+  SecurityConfig,
+  SecurityStage,
+  SecurityPathPattern,
+  SecurityRouteRule,
+  SecurityRouteOverride,
+  ResolvedSecurityStage
+} from './interfaces';
+import { SecurityMiddlewareCore } from './security.middleware';
+import { AuthMiddleware } from './auth.middleware';
+import { AuthorizationMiddleware } from './authorization.middleware';
+import { CsrfMiddleware } from './csrf.middleware';
+
+/**
+ * Fixed execution order of the pipeline stages:
+ * headers are set on every response, CORS answers preflights before any
+ * limit or auth check, rate limiting runs before the more expensive stages,
+ * and authorization runs last once the user is known.
+ */
+export const SECURITY_STAGE_ORDER: SecurityStage[] = [
+  'headers',
+  'cors',
+  'rateLimit',
+  'validation',
+  'session',
+  'jwt',
+  'csrf',
+  'rbac'
+];
+
+/**
+ * Stages keeping state between requests. Their route overrides share the state of
+ * the global stage, so a session opened on one route is known on the others and
+ * requests to overridden routes still count against the global rate limit.
+ */
+const STATEFUL_STAGES: SecurityStage[] = ['session', 'rateLimit'];
+
+const STAGE_FACTORIES: Record<SecurityStage, (options: any) => SecurityMiddleware> = {
+  headers: options => SecurityMiddlewareCore.securityHeaders(options),
+  cors: options => SecurityMiddlewareCore.cors(options),
+  rateLimit: options => SecurityMiddlewareCore.rateLimit(options),
+  validation: options => SecurityMiddlewareCore.requestValidation(options),
+  session: options => AuthMiddleware.session(options),
+  jwt: options => AuthMiddleware.jwt(options),
+  csrf: options => CsrfMiddleware.protect(options),
+  rbac: options => AuthorizationMiddleware.rbac(options)
+};
+
+interface CompiledRule {
+  rule: SecurityRouteRule;
+  matcher: RegExp;
+  methods?: string[];
+  stages: Map<SecurityStage, ResolvedSecurityStage>;
+}
+
+/**
+ * Security pipeline applying the configured stages in a fixed order,
+ * with per-route overrides and exclusions
+ */
+export class SecurityPipeline {
+  private readonly stages: ResolvedSecurityStage[];
+  private readonly exclusions: RegExp[];
+  private readonly rules: CompiledRule[] = [];
+  private readonly stores = new Map<SecurityStage, Map<string, any>>();
+
+  constructor(private readonly config: SecurityConfig = {}) {
+    this.stages = SECURITY_STAGE_ORDER
+      .filter(stage => config[stage] !== undefined)
+      .map(stage => this.createStage(stage, config[stage]));
+    this.exclusions = (config.exclude || []).map(pattern => compilePathPattern(pattern));
+
+    (config.routes || []).forEach(rule => this.addRule(rule));
+  }
+
+  /**
+   * Create a pipeline from a security configuration
+   */
+  static fromConfig(config: SecurityConfig = {}): SecurityPipeline {
+    return new SecurityPipeline(config);
+  }
+
+  /**
+   * Add a per-route override. Later rules take precedence over earlier ones.
+   */
+  addRule(rule: SecurityRouteRule): void {
+    const stages = new Map<SecurityStage, ResolvedSecurityStage>();
+
+    for (const stage of SECURITY_STAGE_ORDER) {
+      const override = rule[stage];
+      if (override === undefined) {
+        continue;
+      }
+
+      const base = this.config[stage];
+      const options = stage === 'rbac' ? override : { ...(base || {}), ...override };
+      stages.set(stage, this.createStage(stage, options));
+    }
+
+    this.rules.push({
+      rule,
+      matcher: compilePathPattern(rule.path),
+      methods: rule.methods?.map(method => method.toUpperCase()),
+      stages
+    });
+  }
+
+  /**
+   * Globally configured stages in execution order
+   */
+  getStages(): ResolvedSecurityStage[] {
+    return [...this.stages];
+  }
+
+  /**
+   * Names of the globally configured stages in execution order
+   */
+  getStageNames(): SecurityStage[] {
+    return this.stages.map(entry => entry.stage);
+  }
+
+  /**
+   * Stages that apply to a request after exclusions and route overrides
+   */
+  resolve(method: string, path: string): ResolvedSecurityStage[] {
+    if (this.exclusions.some(pattern => pattern.test(path))) {
+      return [];
+    }
+
+    const effective = new Map<SecurityStage, ResolvedSecurityStage>();
+    this.stages.forEach(entry => effective.set(entry.stage, entry));
+
+    for (const compiled of this.matchingRules(method, path)) {
+      if (compiled.rule.skip === true) {
+        return [];
+      }
+
+      compiled.stages.forEach((entry, stage) => effective.set(stage, entry));
+      (compiled.rule.skip || []).forEach(stage => effective.delete(stage));
+    }
+
+    return SECURITY_STAGE_ORDER
+      .filter(stage => effective.has(stage))
+      .map(stage => effective.get(stage)!);
+  }
+
+  /**
+   * Express middleware running the resolved stages for each request
+   */
+  middleware(): SecurityMiddleware {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const stages = this.resolve(req.method, req.path);
+
+      const run = (index: number, error?: any): void => {
+        if (error) {
+          return next(error);
+        }
+        if (index >= stages.length) {
+          return next();
+        }
+
+        try {
+          stages[index].middleware(req, res, (err?: any) => run(index + 1, err));
+        } catch (err) {
+          next(err);
+        }
+      };
+
+      run(0);
+    };
+  }
+
+  /**
+   * Serializable summary of the pipeline
+   */
+  describe(): {
+    stages: SecurityStage[];
+    exclude: SecurityPathPattern[];
+    routes: Array<{ path: SecurityPathPattern; methods?: string[]; skip?: SecurityStage[] | true; overrides: SecurityStage[] }>;
+  } {
+    return {
+      stages: this.getStageNames(),
+      exclude: [...(this.config.exclude || [])],
+      routes: this.rules.map(compiled => ({
+        path: compiled.rule.path,
+        methods: compiled.methods,
+        skip: compiled.rule.skip,
+        overrides: Array.from(compiled.stages.keys())
+      }))
+    };
+  }
+
+  private matchingRules(method: string, path: string): CompiledRule[] {
+    const upperMethod = method.toUpperCase();
+    return this.rules.filter(compiled =>
+      compiled.matcher.test(path)
+      && (!compiled.methods || compiled.methods.includes(upperMethod))
+    );
+  }
+
+  private createStage(stage: SecurityStage, options: any): ResolvedSecurityStage {
+    const middlewareOptions = STATEFUL_STAGES.includes(stage) && !options.store
+      ? { ...options, store: this.store(stage) }
+      : options;
+
+    return {
+      stage,
+      options,
+      middleware: STAGE_FACTORIES[stage](middlewareOptions)
+    };
+  }
+
+  /**
+   * State shared by the global stage and the route overrides of a stateful stage
+   */
+  private store(stage: SecurityStage): Map<string, any> {
+    let store = this.stores.get(stage);
+    if (!store) {
+      store = new Map();
+      this.stores.set(stage, store);
+    }
+    return store;
+  }
+}
+
+/**
+ * Create a route rule from a path, methods and an override
+ */
+export function securityRule(
+  path: SecurityPathPattern,
+  override: SecurityRouteOverride,
+  methods?: string[]
+): SecurityRouteRule {
+  return { ...override, path, methods };
+}
+
+/**
+ * Compile an Express-style path (`/users/:id`, `/admin/*`) into a regular expression
+ */
+export function compilePathPattern(pattern: SecurityPathPattern): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+
+  const wildcardSuffix = pattern.endsWith('/*');
+  const base = wildcardSuffix ? pattern.slice(0, -2) : pattern;
+
+  const source = base
+    .replace(/\/+$/, '')
+    .split('/')
+    .map(segment => {
+      if (segment === '*') {
+        return '.*';
+      }
+      if (segment.startsWith(':')) {
+        return '[^/]+';
+      }
+      return segment
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*');
+    })
+    .join('/');
+
+  // `/admin/*` also matches `/admin` itself
+  return new RegExp(wildcardSuffix ? `^${source}(?:/.*)?$` : `^${source}/?$`, 'i');
+}
@@ -3,6 +3,10 @@ import { RequestMethod } from "./enums/methods.enums";
 import { RequestMethodsContext } from "./enums/request.enums";
 import { ServerTypeCtx } from "./enums/server.enums";
 import { ILogger } from "./logging/interfaces";
+import { RouteGroupDefinition } from "./routing/interfaces";
+import { ListenerConfig, TlsConfig } from "./interfaces/listener.interface";
+import { ShutdownHook, ShutdownHookOptions, ShutdownOptions, ShutdownResult } from "./lifecycle/interfaces";
+import { OpenAPIServeOptions } from "./openapi/interfaces";
 // Security imports
 import { 
   SecurityMiddleware,
@@ -14,7 +18,8 @@ import {
   RbacOptions,
   CsrfOptions,
   SecurityHeadersOptions,
-  RequestValidationOptions
+  RequestValidationOptions,
+  SecurityConfig
 } from "./security/interfaces";
 
 export interface FoxFactory {
@@ -31,18 +36,9 @@ export interface FoxFactoryContext {
     providers?: Array<any>;
     views?: Array<any>;
     serverType?: ServerTypeCtx;
-    requests?: Array<RequestMethodsContext>;
+    requests?: Array<RequestMethodsContext | RouteGroupDefinition>;
     // Security configuration
-    security?: {
-        cors?: CorsOptions;
-        rateLimit?: RateLimitOptions;
-        csrf?: CsrfOptions;
-        jwt?: JwtOptions;
-        session?: SessionOptions;
-        rbac?: RbacOptions;
-        headers?: SecurityHeadersOptions;
-        validation?: RequestValidationOptions;
-    };
+    security?: SecurityConfig;
 }
 
 export interface ServerOptions {
@@ -55,12 +51,14 @@ export type FoxServerInterface = {
 } & {
     create: () => void;
     start: () => void;
+    stop: () => Promise<ShutdownResult>;
+    onShutdown: (name: string, hook: ShutdownHook, options?: ShutdownHookOptions) => void;
     destroy: () => void;
     use: (callback: any) => void;
-    get: (path: string, callback: any) => void;
-    post: (path: string, callback: any) => void;
-    put: (path: string, callback: any) => void;
-    delete: (path: string, callback: any) => void;
+    get: (path: string, ...callbacks: any[]) => void;
+    post: (path: string, ...callbacks: any[]) => void;
+    put: (path: string, ...callbacks: any[]) => void;
+    delete: (path: string, ...callbacks: any[]) => void;
     set: (path: string, callback: any) => void;
     render: (type: string, path: string, callback: any) => void;
 };
@@ -85,6 +83,19 @@ export interface ServerConfig extends FoxFactoryContext {
     staticFolder: string;
     middlewares?: Middleware[];
     errorHandler?: ErrorHandler;
+    shutdown?: ShutdownOptions;
+    /** Interface to bind to (default: all interfaces) */
+    host?: string;
+    /** Listen on a Unix domain socket instead of a TCP port */
+    socketPath?: string;
+    /** Serve HTTPS with this TLS material */
+    tls?: TlsConfig;
+    /** Serve HTTP/2 with HTTP/1.1 fallback (requires tls) */
+    http2?: boolean;
+    /** Listen on several endpoints at once; overrides port/host/socketPath/tls/http2 */
+    listeners?: ListenerConfig[];
+    /** Serve the OpenAPI document of the routes and its docs page (true uses the defaults) */
+    openapi?: OpenAPIServeOptions | boolean;
 }
 
 export interface Route {
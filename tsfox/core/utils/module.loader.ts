@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Loading of project modules, TypeScript sources included, from compiled code
+ * @module tsfox/core/utils/module.loader
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Require a module of a project, such as a migration or the entry of its app.
+ *
+ * TypeScript sources load as they are when the process already compiles them
+ * (ts-node, Jest). Otherwise, as when the compiled `tsfox` binary runs, the
+ * ts-node installed in the project is registered first, and an error says how to
+ * install it when it is missing. `.ts` sources are found for paths without extension.
+ */
+export function requireModule(file: string, projectRoot: string = process.cwd()): any {
+  const resolved = resolveModule(file);
+  if (path.extname(resolved) !== '.ts') {
+    return require(resolved);
+  }
+
+  try {
+    return require(resolved);
+  } catch (error) {
+    // Node reads sources of unknown extensions as JavaScript, failing at the first type
+    if (!(error instanceof SyntaxError) || require.extensions['.ts']) {
+      throw error;
+    }
+    registerTypeScript(resolved, projectRoot);
+    return require(resolved);
+  }
+}
+
+function resolveModule(file: string): string {
+  try {
+    return require.resolve(file);
+  } catch (error) {
+    const source = [`${file}.ts`, path.join(file, 'index.ts')].find(candidate => fs.existsSync(candidate));
+    if (!source) {
+      throw error;
+    }
+    return source;
+  }
+}
+
+/**
+ * Register the ts-node of the project, or of the framework, to compile `.ts` sources
+ */
+function registerTypeScript(file: string, projectRoot: string): void {
+  let tsNode: { register(options: object): unknown };
+  try {
+    tsNode = require(require.resolve('ts-node', { paths: [projectRoot, __dirname] }));
+  } catch {
+    throw new Error(
+      `Cannot load '${file}': TypeScript files need ts-node (npm install --save-dev ts-node), or use the compiled JavaScript`
+    );
+  }
+  tsNode.register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+}
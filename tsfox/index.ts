@@ -1,6 +1,7 @@
 import { FoxFactory } from './core/fox.factory';
 import { ServerConfig, Route, Middleware, HttpError } from './core/types';
 import { Router } from './core/router.factory';
+import { ListenerConfig, TlsConfig, ClientCertificateInfo } from './core/interfaces/listener.interface';
 
 // Logging System Exports
 export {
@@ -56,6 +57,63 @@ export {
     batchAsync
 } from './core/errors';
 
+// Lifecycle System Exports
+export {
+    ShutdownManager,
+    ConnectionTracker,
+    ShutdownOrder,
+    ShutdownHook,
+    ShutdownHookOptions,
+    ShutdownOptions,
+    ShutdownResult,
+    databaseShutdownHook,
+    cacheShutdownHook,
+    eventSystemShutdownHook,
+    metricsShutdownHook
+} from './core/lifecycle';
+
+// Template Engine Exports
+export {
+    FoxEngine,
+    foxEngine,
+    FoxTemplateError,
+    SafeString,
+    FoxFilter,
+    FoxTemplateFunction,
+    FoxEngineOptions
+} from './core/features/fox';
+
+// Routing System Exports
+export {
+    defineRoute,
+    routeGroup,
+    resolveRoutes,
+    apiPath,
+    RouteDefinition,
+    RouteGroupDefinition,
+    RouteOptions,
+    RouteMiddleware,
+    TypedRequest,
+    TypedRequestHandler
+} from './core/routing';
+
+// OpenAPI System Exports
+export {
+    generateOpenAPI,
+    toOpenAPIPath,
+    documentMiddleware,
+    getMiddlewareDocs,
+    openAPIDocumentHandler,
+    swaggerUIHandler,
+    OPENAPI_VERSION,
+    OpenAPIDocument,
+    OpenAPIOptions,
+    OpenAPIServeOptions,
+    OpenAPISecurityScheme,
+    RouteDocs,
+    MiddlewareDocs
+} from './core/openapi';
+
 // Security System Exports
 export {
     Security,
@@ -66,15 +124,56 @@ export {
     CsrfMiddleware,
     CorsOptions,
     RateLimitOptions,
+    RateLimitStore,
     JwtOptions,
     SessionOptions,
+    SessionStore,
     User,
     RbacOptions,
     CsrfOptions,
     SecurityHeadersOptions,
-    RequestValidationOptions
+    RequestValidationOptions,
+    SecurityPipeline,
+    SECURITY_STAGE_ORDER,
+    securityRule,
+    SecurityConfig,
+    SecurityStage,
+    SecurityRouteOverride,
+    SecurityRouteRule
 } from './core/security';
 
+// Database System Exports
+export {
+    DatabaseFactory,
+    FoxDatabase,
+    SQLiteProvider,
+    MemoryProvider,
+    SQLiteOptions,
+    ReplicationRouter,
+    ShardRouter,
+    SqlQueryBuilder,
+    SqlDialectName,
+    raw,
+    databaseSession,
+    replicationSession,
+    runInDatabaseSession,
+    QueryInstrumentation,
+    QueryInstrumentationOptions,
+    QueryStats,
+    Model,
+    ModelRecord,
+    ModelInstance,
+    ModelQuery,
+    ModelRepository,
+    ModelRegistry,
+    ModelDefinition,
+    MigrationRunner,
+    MigrationError,
+    loadMigrations,
+    Migration,
+    MigrationConnection
+} from './core/features/database';
+
 // Validation System Exports
 export {
     ValidationFactory,
@@ -99,4 +198,4 @@ const startServer = (config: ServerConfig): void => {
     app.start();
 };
 
-export { startServer, Router, HttpError, Middleware, Route, ServerConfig };
+export { startServer, Router, HttpError, Middleware, Route, ServerConfig, ListenerConfig, TlsConfig, ClientCertificateInfo };